@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "InventoryMovementType" AS ENUM ('PURCHASE', 'RESTOCK', 'ADJUSTMENT', 'DELETE');
+
+-- CreateTable
+CREATE TABLE "inventory_movements" (
+    "id" TEXT NOT NULL,
+    "sweetId" TEXT NOT NULL,
+    "type" "InventoryMovementType" NOT NULL,
+    "delta" INTEGER NOT NULL,
+    "resultingQuantity" INTEGER NOT NULL,
+    "userId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "inventory_movements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "inventory_movements_sweetId_createdAt_idx" ON "inventory_movements"("sweetId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "inventory_movements" ADD CONSTRAINT "inventory_movements_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Ledger rows are append-only: reject edits and deletes at the database level.
+-- Clearing "userId" is still allowed so the user foreign key can SET NULL.
+CREATE FUNCTION "inventory_movements_immutable"() RETURNS trigger AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+        AND NEW."userId" IS NULL
+        AND (NEW."id", NEW."sweetId", NEW."type", NEW."delta", NEW."resultingQuantity", NEW."reason", NEW."createdAt")
+            IS NOT DISTINCT FROM
+            (OLD."id", OLD."sweetId", OLD."type", OLD."delta", OLD."resultingQuantity", OLD."reason", OLD."createdAt")
+    THEN
+        RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'inventory_movements rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "inventory_movements_immutable"
+    BEFORE UPDATE OR DELETE ON "inventory_movements"
+    FOR EACH ROW EXECUTE FUNCTION "inventory_movements_immutable"();
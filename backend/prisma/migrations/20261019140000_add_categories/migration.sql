@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "categories" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "parentId" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "categories_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "categories_slug_key" ON "categories"("slug");
+
+-- CreateIndex
+CREATE INDEX "categories_parentId_idx" ON "categories"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "categories" ADD CONSTRAINT "categories_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "categories"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Migrate free-text categories: values that differ only in case, spacing or
+-- punctuation share a slug and become one category named after the first
+-- spelling alphabetically.
+CREATE TEMP TABLE "sweet_category_slugs" AS
+SELECT "id" AS "sweetId",
+    TRIM("category") AS "name",
+    COALESCE(NULLIF(BTRIM(REGEXP_REPLACE(LOWER("category"), '[^a-z0-9]+', '-', 'g'), '-'), ''), 'uncategorised') AS "slug"
+FROM "sweets";
+
+INSERT INTO "categories" ("id", "slug", "name", "updatedAt")
+SELECT 'c' || SUBSTR(MD5("slug"), 1, 24), "slug", MIN("name"), CURRENT_TIMESTAMP
+FROM "sweet_category_slugs"
+GROUP BY "slug";
+
+-- AlterTable
+ALTER TABLE "sweets" ADD COLUMN     "categoryId" TEXT;
+
+UPDATE "sweets" s
+SET "categoryId" = c."id"
+FROM "sweet_category_slugs" m
+JOIN "categories" c ON c."slug" = m."slug"
+WHERE m."sweetId" = s."id";
+
+DROP TABLE "sweet_category_slugs";
+
+-- AlterTable
+ALTER TABLE "sweets" DROP COLUMN "category",
+ALTER COLUMN "categoryId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "sweets_categoryId_idx" ON "sweets"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "sweets" ADD CONSTRAINT "sweets_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
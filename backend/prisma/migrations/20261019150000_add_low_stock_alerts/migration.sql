@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "sweets" ADD COLUMN     "reorderPoint" INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN     "reorderQuantity" INTEGER NOT NULL DEFAULT 20;
+
+-- CreateTable
+CREATE TABLE "low_stock_alerts" (
+    "id" TEXT NOT NULL,
+    "sweetId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "reorderPoint" INTEGER NOT NULL,
+    "acknowledgedAt" TIMESTAMP(3),
+    "acknowledgedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "low_stock_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "low_stock_alerts_sweetId_resolvedAt_idx" ON "low_stock_alerts"("sweetId", "resolvedAt");
+
+-- AddForeignKey
+ALTER TABLE "low_stock_alerts" ADD CONSTRAINT "low_stock_alerts_sweetId_fkey" FOREIGN KEY ("sweetId") REFERENCES "sweets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "low_stock_alerts" ADD CONSTRAINT "low_stock_alerts_acknowledgedById_fkey" FOREIGN KEY ("acknowledgedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Sweets already at or below the default reorder point start with an open
+-- alert, as later purchases would not cross the threshold again.
+INSERT INTO "low_stock_alerts" ("id", "sweetId", "quantity", "reorderPoint")
+SELECT 'a' || SUBSTR(MD5("id"), 1, 24), "id", "quantity", "reorderPoint"
+FROM "sweets"
+WHERE "quantity" <= "reorderPoint";
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "sweets" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "sweets_deletedAt_idx" ON "sweets"("deletedAt");
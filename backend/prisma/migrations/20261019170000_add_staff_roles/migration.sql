@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "Role" RENAME VALUE 'USER' TO 'CUSTOMER';
+ALTER TYPE "Role" ADD VALUE 'CASHIER' BEFORE 'ADMIN';
+ALTER TYPE "Role" ADD VALUE 'STOCK_CLERK' BEFORE 'ADMIN';
+ALTER TYPE "Role" ADD VALUE 'MANAGER' BEFORE 'ADMIN';
+
+-- AlterTable
+ALTER TABLE "users" ALTER COLUMN "role" SET DEFAULT 'CUSTOMER';
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "sweet_images" (
+    "id" TEXT NOT NULL,
+    "sweetId" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "thumbnailKey" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "thumbnailUrl" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "isPrimary" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sweet_images_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sweet_images_sweetId_position_idx" ON "sweet_images"("sweetId", "position");
+
+-- AddForeignKey
+ALTER TABLE "sweet_images" ADD CONSTRAINT "sweet_images_sweetId_fkey" FOREIGN KEY ("sweetId") REFERENCES "sweets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
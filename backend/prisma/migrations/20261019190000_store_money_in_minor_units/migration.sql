@@ -0,0 +1,15 @@
+-- Prices and totals move from floating-point major units to integer minor
+-- units (paise). Existing amounts were entered in rupees, so they are
+-- scaled by 100 and rounded to the nearest paisa.
+
+-- AlterTable
+ALTER TABLE "sweets" ALTER COLUMN "price" SET DATA TYPE INTEGER USING ROUND("price" * 100)::INTEGER,
+ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'INR';
+
+-- AlterTable
+ALTER TABLE "orders" ALTER COLUMN "total" SET DATA TYPE INTEGER USING ROUND("total" * 100)::INTEGER,
+ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'INR';
+
+-- AlterTable
+ALTER TABLE "order_lines" ALTER COLUMN "unitPrice" SET DATA TYPE INTEGER USING ROUND("unitPrice" * 100)::INTEGER,
+ALTER COLUMN "lineTotal" SET DATA TYPE INTEGER USING ROUND("lineTotal" * 100)::INTEGER;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "price_history" (
+    "id" TEXT NOT NULL,
+    "sweetId" TEXT NOT NULL,
+    "price" INTEGER NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "appliedAt" TIMESTAMP(3),
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "price_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "price_history_sweetId_effectiveFrom_idx" ON "price_history"("sweetId", "effectiveFrom");
+
+-- CreateIndex
+CREATE INDEX "price_history_appliedAt_effectiveFrom_idx" ON "price_history"("appliedAt", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "price_history" ADD CONSTRAINT "price_history_sweetId_fkey" FOREIGN KEY ("sweetId") REFERENCES "sweets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "price_history" ADD CONSTRAINT "price_history_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Start every existing sweet's history with its current price. Earlier
+-- prices were never recorded, so it counts from when the sweet was added.
+INSERT INTO "price_history" ("id", "sweetId", "price", "effectiveFrom", "appliedAt")
+SELECT 'p' || SUBSTR(MD5("id"), 1, 24), "id", "price", "createdAt", "createdAt"
+FROM "sweets";
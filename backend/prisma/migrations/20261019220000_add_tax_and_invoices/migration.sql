@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "categories" ADD COLUMN "taxRate" INTEGER;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN "tax" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "invoiceNumber" INTEGER;
+
+-- AlterTable
+ALTER TABLE "order_lines" ADD COLUMN "taxRate" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "tax" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "counters" (
+    "name" TEXT NOT NULL,
+    "value" INTEGER NOT NULL,
+
+    CONSTRAINT "counters_pkey" PRIMARY KEY ("name")
+);
+
+-- Number existing orders in the order they were placed
+UPDATE "orders" SET "invoiceNumber" = numbered."number"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (ORDER BY "createdAt", "id") AS "number"
+    FROM "orders"
+) AS numbered
+WHERE "orders"."id" = numbered."id";
+
+ALTER TABLE "orders" ALTER COLUMN "invoiceNumber" SET NOT NULL;
+
+INSERT INTO "counters" ("name", "value")
+SELECT 'invoice', COALESCE(MAX("invoiceNumber"), 0) FROM "orders";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "orders_invoiceNumber_key" ON "orders"("invoiceNumber");
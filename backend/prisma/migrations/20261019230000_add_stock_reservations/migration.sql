@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "sweets" ADD COLUMN "reserved" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "stock_reservations" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "sweetId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stock_reservations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stock_reservations_userId_sweetId_idx" ON "stock_reservations"("userId", "sweetId");
+
+-- CreateIndex
+CREATE INDEX "stock_reservations_expiresAt_idx" ON "stock_reservations"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "stock_reservations" ADD CONSTRAINT "stock_reservations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_reservations" ADD CONSTRAINT "stock_reservations_sweetId_fkey" FOREIGN KEY ("sweetId") REFERENCES "sweets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
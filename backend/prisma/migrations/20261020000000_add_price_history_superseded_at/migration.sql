@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "price_history" ADD COLUMN "supersededAt" TIMESTAMP(3);
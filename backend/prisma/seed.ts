@@ -21,33 +21,48 @@ async function main() {
         },
     });
 
-    // Create sample sweets
+    // Create sample categories; GST rates are in basis points
+    const categories = [
+        { slug: 'chocolate', name: 'Chocolate', sortOrder: 0, taxRate: 500 },
+        { slug: 'gummy', name: 'Gummy', sortOrder: 1, taxRate: 500 },
+        { slug: 'fudge', name: 'Fudge', sortOrder: 2, taxRate: 500 },
+    ];
+
+    for (const category of categories) {
+        await prisma.category.upsert({
+            where: { slug: category.slug },
+            update: {},
+            create: category,
+        });
+    }
+
+    // Create sample sweets; prices are in paise
     const sweets = [
         {
             name: 'Chocolate Truffle',
-            category: 'Chocolate',
-            price: 2.99,
+            category: 'chocolate',
+            price: 299,
             quantity: 50,
         },
         {
             name: 'Strawberry Gummy',
-            category: 'Gummy',
-            price: 1.49,
+            category: 'gummy',
+            price: 149,
             quantity: 100,
         },
         {
             name: 'Vanilla Fudge',
-            category: 'Fudge',
-            price: 3.99,
+            category: 'fudge',
+            price: 399,
             quantity: 25,
         },
     ];
 
-    for (const sweet of sweets) {
+    for (const { category, ...sweet } of sweets) {
         await prisma.sweet.upsert({
             where: { name: sweet.name },
             update: {},
-            create: sweet,
+            create: { ...sweet, category: { connect: { slug: category } } },
         });
     }
 
@@ -2,12 +2,43 @@
  * @file Entry point for starting the Express application server.
  */
 import app from "./index"
+import { PriceHistoryService } from "./services/priceHistoryService";
+import { ReservationService } from "./services/reservationService";
 
 const PORT = process.env.PORT || 3001;
 
+/** How often scheduled price changes are checked, in milliseconds. */
+const PRICE_SCHEDULE_INTERVAL_MS = Number(process.env.PRICE_SCHEDULE_INTERVAL_MS) || 60_000;
+
+/** How often expired stock reservations are released, in milliseconds. */
+const RESERVATION_SWEEP_INTERVAL_MS = Number(process.env.RESERVATION_SWEEP_INTERVAL_MS) || 30_000;
+
+const priceHistoryService = new PriceHistoryService();
+const reservationService = new ReservationService();
+
 /**
  * Starts the HTTP server and logs the listening port.
  */
 app.listen(PORT, () => {
     console.log(`🚀 Server is running on port ${PORT}`);
 });
+
+/**
+ * Applies scheduled price changes once their effective time has passed.
+ * Started here rather than in the app so tests never run the timer.
+ */
+setInterval(() => {
+    priceHistoryService.applyDuePrices().catch((error) => {
+        console.error("Failed to apply scheduled prices:", error);
+    });
+}, PRICE_SCHEDULE_INTERVAL_MS).unref();
+
+/**
+ * Releases stock reservations whose hold has expired so their units can
+ * be bought again.
+ */
+setInterval(() => {
+    reservationService.releaseExpired().catch((error) => {
+        console.error("Failed to release expired reservations:", error);
+    });
+}, RESERVATION_SWEEP_INTERVAL_MS).unref();
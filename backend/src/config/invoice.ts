@@ -0,0 +1,15 @@
+/**
+ * @file Seller details printed on invoices.
+ */
+
+/** Business issuing invoices; set per deployment, the defaults suit development. */
+export const INVOICE_SELLER = {
+	name: process.env.INVOICE_SELLER_NAME || "Sweet Shop",
+	/** Postal address; `|` separates lines. */
+	address: (process.env.INVOICE_SELLER_ADDRESS || "").split("|").map((line) => line.trim()).filter(Boolean),
+	/** GST identification number, omitted from invoices when unset. */
+	gstin: process.env.INVOICE_SELLER_GSTIN || "",
+};
+
+/** Prefix of printed invoice numbers, e.g. INV-000042. */
+export const INVOICE_NUMBER_PREFIX = process.env.INVOICE_NUMBER_PREFIX || "INV-";
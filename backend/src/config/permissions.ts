@@ -0,0 +1,89 @@
+/**
+ * @file Named permissions and the roles that grant them.
+ */
+import { Role } from "@prisma/client";
+
+/**
+ * Actions that routes authorize against. Names are `resource:action` and
+ * are sent to clients, so they must not change once released.
+ */
+export const PERMISSIONS = [
+	"sweet:create",
+	"sweet:update",
+	/** Archive sweets, list the archive and restore from it. */
+	"sweet:delete",
+	"inventory:restock",
+	/** Read a sweet's inventory ledger. */
+	"inventory:view",
+	"category:manage",
+	/** Create, change and delete promotions and coupon codes. */
+	"promotion:manage",
+	"catalogue:import",
+	"catalogue:export",
+	/** List and acknowledge low-stock alerts. */
+	"alert:manage",
+	"analytics:view",
+	/** Read any customer's orders, not just one's own. */
+	"order:view-all",
+	"user:manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/** Every role, from least to most privileged. */
+export const ROLES = [
+	"CUSTOMER",
+	"CASHIER",
+	"STOCK_CLERK",
+	"MANAGER",
+	"ADMIN",
+] as const satisfies readonly Role[];
+
+const stockPermissions: Permission[] = [
+	"inventory:restock",
+	"inventory:view",
+	"alert:manage",
+];
+
+/**
+ * Permissions granted to each role. Customers only shop, so they hold none;
+ * cashiers look up orders at the till; stock clerks handle deliveries;
+ * managers run the catalogue; admins can also manage staff accounts.
+ */
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+	CUSTOMER: [],
+	CASHIER: ["order:view-all"],
+	STOCK_CLERK: stockPermissions,
+	MANAGER: [
+		"sweet:create",
+		"sweet:update",
+		"sweet:delete",
+		...stockPermissions,
+		"category:manage",
+		"promotion:manage",
+		"catalogue:import",
+		"catalogue:export",
+		"analytics:view",
+		"order:view-all",
+	],
+	ADMIN: PERMISSIONS,
+};
+
+/**
+ * Lists the permissions a role grants. Unknown roles grant nothing.
+ *
+ * @param role Role name as stored on the user.
+ * @returns Permissions granted to the role.
+ */
+export const permissionsFor = (role: string): readonly Permission[] =>
+	ROLE_PERMISSIONS[role as Role] ?? [];
+
+/**
+ * Checks whether a role grants a permission.
+ *
+ * @param role Role name as stored on the user.
+ * @param permission Permission being checked.
+ * @returns True when the role grants the permission.
+ */
+export const hasPermission = (role: string, permission: Permission) =>
+	permissionsFor(role).includes(permission);
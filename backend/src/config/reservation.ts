@@ -0,0 +1,6 @@
+/**
+ * @file How long stock reservations hold units for a shopper.
+ */
+
+/** Time a reservation holds its units before the sweeper releases them, in milliseconds. */
+export const RESERVATION_TTL_MS = Number(process.env.RESERVATION_TTL_MS) || 10 * 60_000;
@@ -0,0 +1,20 @@
+/**
+ * @file Configures where uploaded files such as product images are kept.
+ */
+import path from "path";
+import { FileStorage } from "../storage/fileStorage";
+import { LocalDiskStorage } from "../storage/localDiskStorage";
+
+/** Directory uploads are written to, relative to the working directory unless absolute. */
+export const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || "uploads");
+
+/** Path the upload directory is served from. */
+export const UPLOAD_URL_PATH = "/uploads";
+
+/**
+ * Storage for uploaded files. Swap the implementation here to move uploads
+ * to another backend; callers only rely on `FileStorage`.
+ */
+const storage: FileStorage = new LocalDiskStorage(UPLOAD_DIR, UPLOAD_URL_PATH);
+
+export default storage;
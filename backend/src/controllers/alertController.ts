@@ -0,0 +1,57 @@
+/**
+ * @file Controller exposing low-stock alerts over HTTP.
+ */
+import { Response, NextFunction } from "express";
+import { AlertService } from "../services/alertService";
+import { AuthenticatedRequest, ListAlertsSchema } from "../types";
+
+const alertService = new AlertService();
+
+/**
+ * Handles admin requests to review and acknowledge low-stock alerts.
+ */
+export class AlertController {
+	/**
+	 * Lists alerts matching the status filter.
+	 *
+	 * @param req Authenticated admin request with status and page query.
+	 * @param res Express response returning the page of alerts.
+	 * @param next Passes failures to the error handler.
+	 */
+	async listAlerts(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			const query = ListAlertsSchema.parse(req.query);
+			const page = await alertService.listAlerts(query);
+			res.json(page);
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Marks an alert as seen by the requesting admin.
+	 *
+	 * @param req Authenticated admin request containing the alert identifier.
+	 * @param res Express response returning the acknowledged alert.
+	 * @param next Passes failures to the error handler.
+	 */
+	async acknowledgeAlert(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			const alert = await alertService.acknowledgeAlert(
+				req.params.id,
+				req.user!.id
+			);
+			res.json({ message: "Alert acknowledged", alert });
+		} catch (error) {
+			next(error);
+		}
+	}
+}
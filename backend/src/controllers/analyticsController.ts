@@ -0,0 +1,71 @@
+/**
+ * @file Controller exposing sales and inventory analytics over HTTP.
+ */
+import { Request, Response, NextFunction } from "express";
+import { AnalyticsService } from "../services/analyticsService";
+import {
+	AnalyticsRangeSchema,
+	SalesAnalyticsSchema,
+	TopSellersSchema,
+} from "../types";
+
+const analyticsService = new AnalyticsService();
+
+/**
+ * Translates analytics reports into HTTP responses.
+ */
+export class AnalyticsController {
+	/**
+	 * Returns revenue and units sold by period, category and sweet.
+	 *
+	 * @param req Request whose query holds the date range and interval.
+	 * @param res Express response returning the sales report.
+	 * @param next Passes failures to the error handler.
+	 */
+	async getSales(req: Request, res: Response, next: NextFunction) {
+		try {
+			const query = SalesAnalyticsSchema.parse(req.query);
+			const report = await analyticsService.getSales(query);
+
+			res.json(report);
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Returns the best-selling sweets for a date range.
+	 *
+	 * @param req Request whose query holds the date range, limit and ranking metric.
+	 * @param res Express response returning the ranked sweets.
+	 * @param next Passes failures to the error handler.
+	 */
+	async getTopSellers(req: Request, res: Response, next: NextFunction) {
+		try {
+			const query = TopSellersSchema.parse(req.query);
+			const report = await analyticsService.getTopSellers(query);
+
+			res.json(report);
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Returns per-sweet stock turnover for a date range.
+	 *
+	 * @param req Request whose query holds the date range.
+	 * @param res Express response returning the turnover report.
+	 * @param next Passes failures to the error handler.
+	 */
+	async getStockTurnover(req: Request, res: Response, next: NextFunction) {
+		try {
+			const range = AnalyticsRangeSchema.parse(req.query);
+			const report = await analyticsService.getStockTurnover(range);
+
+			res.json(report);
+		} catch (error) {
+			next(error);
+		}
+	}
+}
@@ -0,0 +1,163 @@
+/**
+ * @file Controller translating cart service operations into HTTP responses.
+ */
+import { Response, NextFunction } from "express";
+import { CartService } from "../services/cartService";
+import { withLineStockLevels, withStockLevels } from "../utils/stock";
+import {
+	AddCartItemInput,
+	AuthenticatedRequest,
+	CheckoutSchema,
+	UpdateCartItemInput,
+} from "../types";
+
+const cartService = new CartService();
+
+/**
+ * Handles cart management and checkout for the authenticated user.
+ */
+export class CartController {
+	/**
+	 * Returns the caller's cart.
+	 *
+	 * @param req Authenticated request identifying the cart owner.
+	 * @param res Express response returning cart lines and total.
+	 * @param next Passes failures to the error handler.
+	 */
+	async getCart(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			const cart = await cartService.getCart(req.user!.id);
+			res.json({ ...cart, items: cart.items.map(withLineStockLevels) });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Adds a sweet to the caller's cart.
+	 *
+	 * @param req Authenticated request containing the sweet and quantity.
+	 * @param res Express response returning the affected cart line.
+	 * @param next Passes failures to the error handler.
+	 */
+	async addItem(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			const item = await cartService.addItem(
+				req.user!.id,
+				req.body as AddCartItemInput
+			);
+			res.status(201).json({
+				message: "Item added to cart",
+				item: withLineStockLevels(item),
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Changes the quantity of a line in the caller's cart.
+	 *
+	 * @param req Authenticated request containing the sweet ID and new quantity.
+	 * @param res Express response returning the updated cart line.
+	 * @param next Passes failures to the error handler.
+	 */
+	async updateItem(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			const { sweetId } = req.params;
+			const { quantity } = req.body as UpdateCartItemInput;
+			const item = await cartService.updateItem(req.user!.id, sweetId, quantity);
+			res.json({
+				message: "Cart item updated",
+				item: withLineStockLevels(item),
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Removes a line from the caller's cart.
+	 *
+	 * @param req Authenticated request containing the sweet ID.
+	 * @param res Express response confirming removal.
+	 * @param next Passes failures to the error handler.
+	 */
+	async removeItem(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			const { sweetId } = req.params;
+			const item = await cartService.removeItem(req.user!.id, sweetId);
+			res.json({
+				message: "Item removed from cart",
+				item,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Empties the caller's cart.
+	 *
+	 * @param req Authenticated request identifying the cart owner.
+	 * @param res Express response confirming the cart was cleared.
+	 * @param next Passes failures to the error handler.
+	 */
+	async clearCart(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			const removed = await cartService.clearCart(req.user!.id);
+			res.json({
+				message: "Cart cleared",
+				removed,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Purchases every line in the caller's cart as one order.
+	 *
+	 * @param req Authenticated request identifying the cart owner, optionally with a coupon code.
+	 * @param res Express response returning the updated sweets and order.
+	 * @param next Passes failures to the error handler.
+	 */
+	async checkout(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			// The body is optional, so it is validated here rather than by middleware
+			const { couponCode } = CheckoutSchema.parse(req.body ?? {});
+			const { sweets, order } = await cartService.checkout(req.user!.id, couponCode);
+			res.json({
+				message: "Checkout completed successfully",
+				sweets: sweets.map(withStockLevels),
+				order,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+}
@@ -0,0 +1,71 @@
+/**
+ * @file Controller exposing catalogue import and export over HTTP.
+ */
+import { Response, NextFunction } from "express";
+import { CatalogueFileService } from "../services/catalogueFileService";
+import { AuthenticatedRequest, ExportSweetsSchema } from "../types";
+
+const catalogueFileService = new CatalogueFileService();
+
+/**
+ * Handles admin requests to move the sweet catalogue in and out as files.
+ */
+export class CatalogueFileController {
+	/**
+	 * Validates an uploaded catalogue file and applies it unless it is a dry
+	 * run. Committing a file with invalid rows fails with 422 and carries the
+	 * per-row report in the error details.
+	 *
+	 * @param req Authenticated admin request containing the file format, content and dry-run flag.
+	 * @param res Express response returning the import report.
+	 * @param next Passes failures to the error handler.
+	 */
+	async importSweets(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			const report = await catalogueFileService.importCatalogue(
+				req.body,
+				req.user!.id
+			);
+
+			if (report.committed) {
+				res.json({ message: "Catalogue imported successfully", ...report });
+			} else {
+				res.json(report);
+			}
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Downloads the whole catalogue as a CSV or JSON attachment.
+	 *
+	 * @param req Authenticated admin request with the format query parameter.
+	 * @param res Express response streaming the file.
+	 * @param next Passes failures to the error handler.
+	 */
+	async exportSweets(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			const query = ExportSweetsSchema.parse(req.query);
+			const file = await catalogueFileService.exportCatalogue(query);
+			const date = new Date().toISOString().slice(0, 10);
+
+			res.setHeader("Content-Type", `${file.contentType}; charset=utf-8`);
+			res.setHeader(
+				"Content-Disposition",
+				`attachment; filename="sweets-${date}.${query.format}"`
+			);
+			res.send(file.content);
+		} catch (error) {
+			next(error);
+		}
+	}
+}
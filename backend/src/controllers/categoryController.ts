@@ -0,0 +1,107 @@
+/**
+ * @file Controller exposing catalogue categories over HTTP.
+ */
+import { Request, Response, NextFunction } from "express";
+import { CategoryService } from "../services/categoryService";
+import { CreateCategoryInput, UpdateCategoryInput } from "../types";
+
+const categoryService = new CategoryService();
+
+/**
+ * Translates category service calls into HTTP responses.
+ */
+export class CategoryController {
+	/**
+	 * Lists every category in display order.
+	 *
+	 * @param req Express request.
+	 * @param res Express response returning the flat category list.
+	 * @param next Passes failures to the error handler.
+	 */
+	async listCategories(req: Request, res: Response, next: NextFunction) {
+		try {
+			const categories = await categoryService.listCategories();
+			res.json({ categories });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Returns a single category with its parent and subcategories.
+	 *
+	 * @param req Express request containing the category identifier.
+	 * @param res Express response returning the category.
+	 * @param next Passes failures to the error handler.
+	 */
+	async getCategory(req: Request, res: Response, next: NextFunction) {
+		try {
+			const category = await categoryService.getCategory(req.params.id);
+			res.json({ category });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Creates a category from the request body.
+	 *
+	 * @param req Express request containing the category details.
+	 * @param res Express response returning the created category.
+	 * @param next Passes failures to the error handler.
+	 */
+	async createCategory(req: Request, res: Response, next: NextFunction) {
+		try {
+			const category = await categoryService.createCategory(
+				req.body as CreateCategoryInput
+			);
+			res.status(201).json({
+				message: "Category created successfully",
+				category,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Updates a category's name, slug, parent or position.
+	 *
+	 * @param req Express request containing the identifier and changes.
+	 * @param res Express response returning the updated category.
+	 * @param next Passes failures to the error handler.
+	 */
+	async updateCategory(req: Request, res: Response, next: NextFunction) {
+		try {
+			const category = await categoryService.updateCategory(
+				req.params.id,
+				req.body as UpdateCategoryInput
+			);
+			res.json({
+				message: "Category updated successfully",
+				category,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Deletes an unused category.
+	 *
+	 * @param req Express request containing the category identifier.
+	 * @param res Express response confirming deletion.
+	 * @param next Passes failures to the error handler.
+	 */
+	async deleteCategory(req: Request, res: Response, next: NextFunction) {
+		try {
+			const category = await categoryService.deleteCategory(req.params.id);
+			res.json({
+				message: "Category deleted successfully",
+				category,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+}
@@ -0,0 +1,60 @@
+/**
+ * @file Controller streaming catalogue changes to clients as server-sent events.
+ */
+import { Response } from "express";
+import { SweetEvent, SweetEventService } from "../services/sweetEventService";
+import { withStockLevels } from "../utils/stock";
+import { AuthenticatedRequest } from "../types";
+
+const sweetEventService = new SweetEventService();
+
+/** How often an idle stream sends a comment so proxies keep it open, in milliseconds. */
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+/** How long clients wait before reconnecting a dropped stream, in milliseconds. */
+const RECONNECT_DELAY_MS = 5_000;
+
+/**
+ * Shapes an event as clients receive it, with stock levels on any sweet it
+ * carries, as the sweet endpoints return them.
+ *
+ * @param event Event as published.
+ * @returns The event ready to serialise.
+ */
+const toClientEvent = (event: SweetEvent) =>
+	"sweet" in event ? { ...event, sweet: withStockLevels(event.sweet) } : event;
+
+/**
+ * Holds event streams open and forwards catalogue changes down them.
+ */
+export class EventController {
+	/**
+	 * Streams sweet and stock changes until the client disconnects. Each
+	 * event is named after its type and carries the event as JSON data.
+	 *
+	 * @param req Authenticated request opening the stream.
+	 * @param res Express response kept open as the event stream.
+	 */
+	async streamSweetEvents(req: AuthenticatedRequest, res: Response) {
+		res.writeHead(200, {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache, no-transform",
+			Connection: "keep-alive",
+			// Stop nginx buffering the stream
+			"X-Accel-Buffering": "no",
+		});
+		res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+		const unsubscribe = sweetEventService.subscribe((event) => {
+			res.write(`event: ${event.type}\ndata: ${JSON.stringify(toClientEvent(event))}\n\n`);
+		});
+		const heartbeat = setInterval(() => {
+			res.write(": heartbeat\n\n");
+		}, HEARTBEAT_INTERVAL_MS);
+
+		req.on("close", () => {
+			clearInterval(heartbeat);
+			unsubscribe();
+		});
+	}
+}
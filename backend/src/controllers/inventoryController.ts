@@ -1,11 +1,19 @@
 /**
  * @file Controller handling inventory adjustments for sweets.
  */
-import { Request, Response } from "express";
+import { Request, Response, NextFunction } from "express";
 import { InventoryService } from "../services/inventoryService";
-import { PurchaseSweetInput, RestockSweetInput } from "../types";
+import { InventoryMovementService } from "../services/inventoryMovementService";
+import { withStockLevels } from "../utils/stock";
+import {
+	AuthenticatedRequest,
+	PaginationSchema,
+	PurchaseSweetInput,
+	RestockSweetInput,
+} from "../types";
 
 const inventoryService = new InventoryService();
+const movementService = new InventoryMovementService();
 
 /**
  * Translates inventory service calls into HTTP responses.
@@ -14,61 +22,83 @@ export class InventoryController {
 	/**
 	 * Handles sweet purchase requests by reducing available quantity.
 	 *
-	 * @param req Express request containing sweet identifier and quantity.
-	 * @param res Express response returning the updated sweet.
+	 * @param req Authenticated request containing sweet identifier, quantity and optional coupon code and reservation.
+	 * @param res Express response returning the updated sweet and created order.
+	 * @param next Passes failures to the error handler.
 	 */
-	async purchaseSweet(req: Request, res: Response) {
+	async purchaseSweet(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
 		try {
 			const { id } = req.params;
-			const { quantity } = req.body as PurchaseSweetInput;
-			const sweet = await inventoryService.purchaseSweet(id, quantity);
+			const { quantity, couponCode, reservationId } = req.body as PurchaseSweetInput;
+			const { sweet, order } = await inventoryService.purchaseSweet(
+				id,
+				quantity,
+				req.user!.id,
+				couponCode,
+				reservationId
+			);
 
 			res.json({
 				message: "Sweet purchased successfully",
-				sweet,
+				sweet: withStockLevels(sweet),
+				order,
 			});
-		} catch (error: any) {
-			switch (error.message) {
-				case "Sweet not found":
-					res.status(404).json({ error: error.message });
-					break;
-				case "Insufficient quantity available":
-				case "Purchase quantity must be greater than zero":
-					res.status(400).json({ error: error.message });
-					break;
-				default:
-					res.status(500).json({ error: "Unable to process purchase request" });
-			}
+		} catch (error) {
+			next(error);
 		}
 	}
 
 	/**
 	 * Handles restock requests by increasing available quantity.
 	 *
-	 * @param req Express request containing sweet identifier and quantity.
+	 * @param req Authenticated request containing sweet identifier and quantity.
 	 * @param res Express response returning the updated sweet.
+	 * @param next Passes failures to the error handler.
 	 */
-	async restockSweet(req: Request, res: Response) {
+	async restockSweet(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
 		try {
 			const { id } = req.params;
-			const { quantity } = req.body as RestockSweetInput;
-			const sweet = await inventoryService.restockSweet(id, quantity);
+			const { quantity, reason } = req.body as RestockSweetInput;
+			const sweet = await inventoryService.restockSweet(
+				id,
+				quantity,
+				req.user!.id,
+				reason
+			);
 
 			res.json({
 				message: "Sweet restocked successfully",
-				sweet,
+				sweet: withStockLevels(sweet),
 			});
-		} catch (error: any) {
-			switch (error.message) {
-				case "Sweet not found":
-					res.status(404).json({ error: error.message });
-					break;
-				case "Restock quantity must be greater than zero":
-					res.status(400).json({ error: error.message });
-					break;
-				default:
-					res.status(500).json({ error: "Unable to process restock request" });
-			}
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Returns a page of the inventory ledger for a sweet.
+	 *
+	 * @param req Express request containing the sweet identifier and paging query.
+	 * @param res Express response returning movements and pagination metadata.
+	 * @param next Passes failures to the error handler.
+	 */
+	async getMovements(req: Request, res: Response, next: NextFunction) {
+		try {
+			const { id } = req.params;
+			const pagination = PaginationSchema.parse(req.query);
+			const result = await movementService.getMovementsForSweet(id, pagination);
+
+			res.json(result);
+		} catch (error) {
+			next(error);
 		}
 	}
 }
@@ -0,0 +1,125 @@
+/**
+ * @file Controller exposing a user's purchase orders over HTTP.
+ */
+import { Response, NextFunction } from "express";
+import { OrderService } from "../services/orderService";
+import { InvoiceService } from "../services/invoiceService";
+import { CartService } from "../services/cartService";
+import { withLineStockLevels } from "../utils/stock";
+import {
+	AuthenticatedRequest,
+	InvoiceQuerySchema,
+	ListOrdersSchema,
+} from "../types";
+
+const orderService = new OrderService();
+const invoiceService = new InvoiceService();
+const cartService = new CartService();
+
+/**
+ * Translates order service lookups into HTTP responses.
+ */
+export class OrderController {
+	/**
+	 * Lists the orders placed by the authenticated user.
+	 *
+	 * @param req Authenticated request with optional status, date range and page query parameters.
+	 * @param res Express response returning a page of the caller's orders.
+	 * @param next Passes failures to the error handler.
+	 */
+	async getMyOrders(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			const query = ListOrdersSchema.parse(req.query);
+			const result = await orderService.getOrdersForUser(req.user!.id, query);
+			res.json(result);
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Returns a single order owned by the authenticated user.
+	 *
+	 * @param req Authenticated request containing the order identifier.
+	 * @param res Express response returning the order.
+	 * @param next Passes failures to the error handler.
+	 */
+	async getOrderById(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			const { id } = req.params;
+			const order = await orderService.getOrderById(id, req.user!);
+			res.json({ order });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Returns the invoice for one of the caller's orders, as an HTML page or
+	 * a PDF attachment depending on the format query parameter.
+	 *
+	 * @param req Authenticated request containing the order identifier.
+	 * @param res Express response sending the invoice document.
+	 * @param next Passes failures to the error handler.
+	 */
+	async getInvoice(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			const { format } = InvoiceQuerySchema.parse(req.query);
+			const invoice = await invoiceService.getInvoice(req.params.id, req.user!);
+
+			if (format === "pdf") {
+				res.setHeader("Content-Type", "application/pdf");
+				res.setHeader(
+					"Content-Disposition",
+					`attachment; filename="${invoice.number}.pdf"`
+				);
+				res.send(invoiceService.renderPdf(invoice));
+			} else {
+				res.setHeader("Content-Type", "text/html; charset=utf-8");
+				res.send(invoiceService.renderHtml(invoice));
+			}
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Puts the lines of one of the caller's orders back in their cart,
+	 * reporting any that current stock cannot cover.
+	 *
+	 * @param req Authenticated request containing the order identifier.
+	 * @param res Express response returning the cart lines added and the shortfalls.
+	 * @param next Passes failures to the error handler.
+	 */
+	async reorder(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			const result = await cartService.reorder(req.user!, req.params.id);
+			res.json({
+				message:
+					result.shortfalls.length === 0
+						? "Order added to cart"
+						: "Order added to cart with some items missing",
+				items: result.items.map(withLineStockLevels),
+				shortfalls: result.shortfalls,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+}
@@ -0,0 +1,71 @@
+/**
+ * @file Controller exposing sweet price history and scheduled prices over HTTP.
+ */
+import { Request, Response, NextFunction } from "express";
+import { PriceHistoryService } from "../services/priceHistoryService";
+import { AuthenticatedRequest, SchedulePriceSchema } from "../types";
+
+const priceHistoryService = new PriceHistoryService();
+
+/**
+ * Translates price history service calls into HTTP responses.
+ */
+export class PriceHistoryController {
+	/**
+	 * Lists a sweet's past, current and scheduled prices.
+	 *
+	 * @param req Express request containing the sweet identifier.
+	 * @param res Express response returning the price history.
+	 * @param next Passes failures to the error handler.
+	 */
+	async listPrices(req: Request, res: Response, next: NextFunction) {
+		try {
+			const prices = await priceHistoryService.listPrices(req.params.id);
+			res.json({ prices });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Schedules a future price for a sweet.
+	 *
+	 * @param req Authenticated request containing the price and its effective time.
+	 * @param res Express response returning the scheduled change.
+	 * @param next Passes failures to the error handler.
+	 */
+	async schedulePrice(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			// Parsed again so effectiveFrom arrives as a Date
+			const change = SchedulePriceSchema.parse(req.body);
+			const price = await priceHistoryService.schedulePrice(
+				req.params.id,
+				change,
+				req.user!.id
+			);
+			res.status(201).json({ message: "Price change scheduled successfully", price });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Cancels a scheduled price change.
+	 *
+	 * @param req Express request containing the sweet and price change identifiers.
+	 * @param res Express response confirming the cancellation.
+	 * @param next Passes failures to the error handler.
+	 */
+	async cancelScheduledPrice(req: Request, res: Response, next: NextFunction) {
+		try {
+			await priceHistoryService.cancelScheduledPrice(req.params.id, req.params.priceId);
+			res.json({ message: "Scheduled price change cancelled successfully" });
+		} catch (error) {
+			next(error);
+		}
+	}
+}
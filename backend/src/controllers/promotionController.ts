@@ -0,0 +1,108 @@
+/**
+ * @file Controller exposing promotions and promotion quotes over HTTP.
+ */
+import { Request, Response, NextFunction } from "express";
+import { PromotionService } from "../services/promotionService";
+import {
+	AuthenticatedRequest,
+	CreatePromotionSchema,
+	QuotePromotionsInput,
+	UpdatePromotionSchema,
+} from "../types";
+
+const promotionService = new PromotionService();
+
+/**
+ * Translates promotion service calls into HTTP responses.
+ */
+export class PromotionController {
+	/**
+	 * Lists every promotion.
+	 *
+	 * @param req Express request.
+	 * @param res Express response returning the promotions.
+	 * @param next Passes failures to the error handler.
+	 */
+	async listPromotions(req: Request, res: Response, next: NextFunction) {
+		try {
+			const promotions = await promotionService.listPromotions();
+			res.json({ promotions });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Creates a promotion.
+	 *
+	 * @param req Express request containing the promotion fields.
+	 * @param res Express response returning the created promotion.
+	 * @param next Passes failures to the error handler.
+	 */
+	async createPromotion(req: Request, res: Response, next: NextFunction) {
+		try {
+			// Parsed again so dates arrive as Date objects
+			const data = CreatePromotionSchema.parse(req.body);
+			const promotion = await promotionService.createPromotion(data);
+			res.status(201).json({ message: "Promotion created successfully", promotion });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Updates a promotion.
+	 *
+	 * @param req Express request containing the promotion identifier and changes.
+	 * @param res Express response returning the updated promotion.
+	 * @param next Passes failures to the error handler.
+	 */
+	async updatePromotion(req: Request, res: Response, next: NextFunction) {
+		try {
+			const data = UpdatePromotionSchema.parse(req.body);
+			const promotion = await promotionService.updatePromotion(req.params.id, data);
+			res.json({ message: "Promotion updated successfully", promotion });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Deletes a promotion.
+	 *
+	 * @param req Express request containing the promotion identifier.
+	 * @param res Express response confirming the deletion.
+	 * @param next Passes failures to the error handler.
+	 */
+	async deletePromotion(req: Request, res: Response, next: NextFunction) {
+		try {
+			await promotionService.deletePromotion(req.params.id);
+			res.json({ message: "Promotion deleted successfully" });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Prices items with the caller's promotions without buying them.
+	 *
+	 * @param req Authenticated request containing the items and optional coupon code.
+	 * @param res Express response returning the priced lines and totals.
+	 * @param next Passes failures to the error handler.
+	 */
+	async quote(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			const quote = await promotionService.quote(
+				req.user!.id,
+				req.body as QuotePromotionsInput
+			);
+			res.json({ quote });
+		} catch (error) {
+			next(error);
+		}
+	}
+}
@@ -0,0 +1,95 @@
+/**
+ * @file Controller serving the read-only catalogue to visitors who have not signed in.
+ */
+import { Request, Response, NextFunction } from "express";
+import { SweetService, toPublicSweet } from "../services/sweetService";
+import { PriceHistoryService } from "../services/priceHistoryService";
+import {
+	CatalogueQuerySchema,
+	SearchSweetInput,
+	SearchSweetSchema,
+} from "../types";
+
+const sweetService = new SweetService();
+const priceHistoryService = new PriceHistoryService();
+
+/**
+ * Replaces each sweet on a catalogue page with its customer-safe view.
+ *
+ * @param page Page of sweets returned by the sweet service.
+ * @returns The same page with public sweets.
+ */
+const toPublicPage = (
+	page: Awaited<ReturnType<SweetService["getAllSweets"]>>
+) => ({ ...page, data: page.data.map(toPublicSweet) });
+
+/**
+ * Answers public catalogue requests with customer-safe sweet fields only.
+ */
+export class PublicCatalogueController {
+	/**
+	 * Retrieves one page of the public catalogue.
+	 *
+	 * @param req Express request containing paging and sort query parameters.
+	 * @param res Express response returning the page of sweets.
+	 * @param next Passes failures to the error handler.
+	 */
+	async listSweets(req: Request, res: Response, next: NextFunction) {
+		try {
+			const query = CatalogueQuerySchema.parse(req.query);
+			const page = await sweetService.getAllSweets(query);
+			res.json(toPublicPage(page));
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Searches the public catalogue by name, category, price range or availability.
+	 *
+	 * @param req Express request containing search criteria.
+	 * @param res Express response returning the page of matched sweets.
+	 * @param next Passes failures to the error handler.
+	 */
+	async searchSweets(req: Request, res: Response, next: NextFunction) {
+		try {
+			const searchData = SearchSweetSchema.parse(req.query) as SearchSweetInput;
+			const page = await sweetService.searchSweets(searchData);
+			res.json(toPublicPage(page));
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Retrieves a single sweet that is on sale.
+	 *
+	 * @param req Express request containing the sweet identifier.
+	 * @param res Express response returning the sweet.
+	 * @param next Passes failures to the error handler.
+	 */
+	async getSweet(req: Request, res: Response, next: NextFunction) {
+		try {
+			const sweet = await sweetService.getSweetById(req.params.id);
+			res.json({ sweet: toPublicSweet(sweet) });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Lists the prices a sweet on sale has had, without scheduled changes.
+	 *
+	 * @param req Express request containing the sweet identifier.
+	 * @param res Express response returning the price history.
+	 * @param next Passes failures to the error handler.
+	 */
+	async listPrices(req: Request, res: Response, next: NextFunction) {
+		try {
+			const prices = await priceHistoryService.listAppliedPrices(req.params.id);
+			res.json({ prices });
+		} catch (error) {
+			next(error);
+		}
+	}
+}
@@ -0,0 +1,64 @@
+/**
+ * @file Controller translating stock reservation operations into HTTP responses.
+ */
+import { Response, NextFunction } from "express";
+import { ReservationService } from "../services/reservationService";
+import { withStockLevels } from "../utils/stock";
+import { AuthenticatedRequest, ReserveStockInput } from "../types";
+
+const reservationService = new ReservationService();
+
+/**
+ * Handles holding and releasing stock for the authenticated user.
+ */
+export class ReservationController {
+	/**
+	 * Holds units of a sweet for the caller.
+	 *
+	 * @param req Authenticated request containing the sweet and quantity.
+	 * @param res Express response returning the reservation and the sweet's stock levels.
+	 * @param next Passes failures to the error handler.
+	 */
+	async reserve(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			const { reservation, sweet } = await reservationService.reserve(
+				req.user!.id,
+				req.body as ReserveStockInput
+			);
+			res.status(201).json({
+				message: "Stock reserved",
+				reservation,
+				sweet: withStockLevels(sweet),
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Gives the caller's held units back to stock.
+	 *
+	 * @param req Authenticated request containing the reservation identifier.
+	 * @param res Express response returning the sweet's stock levels.
+	 * @param next Passes failures to the error handler.
+	 */
+	async release(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			const sweet = await reservationService.release(req.user!.id, req.params.id);
+			res.json({
+				message: "Reservation released",
+				sweet: withStockLevels(sweet),
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+}
@@ -1,12 +1,28 @@
 /**
  * @file Controller layer translating SweetService results into HTTP responses.
  */
-import { Request, Response } from "express";
+import { Request, Response, NextFunction } from "express";
 import { SweetService } from "../services/sweetService";
-import { SearchSweetInput, SearchSweetSchema } from "../types";
+import { withStockLevels } from "../utils/stock";
+import {
+	AuthenticatedRequest,
+	CatalogueQuerySchema,
+	SearchSweetInput,
+	SearchSweetSchema,
+} from "../types";
 
 const sweetService = new SweetService();
 
+/**
+ * Adds available and on-hand stock to each sweet on a catalogue page.
+ *
+ * @param page Page of sweets returned by the sweet service.
+ * @returns The same page with stock levels on every sweet.
+ */
+const withPageStockLevels = (
+	page: Awaited<ReturnType<SweetService["getAllSweets"]>>
+) => ({ ...page, data: page.data.map(withStockLevels) });
+
 /**
  * Handles incoming requests related to sweet catalog operations.
  */
@@ -14,33 +30,40 @@ export class SweetController {
 	/**
 	 * Persists a new sweet using the request body payload.
 	 *
-	 * @param req Express request containing sweet details.
+	 * @param req Authenticated request containing sweet details.
 	 * @param res Express response used to send creation status.
+	 * @param next Passes failures to the error handler.
 	 */
-	async createSweet(req: Request, res: Response) {
+	async createSweet(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
 		try {
-			const sweet = await sweetService.createSweet(req.body);
+			const sweet = await sweetService.createSweet(req.body, req.user!.id);
 			res.status(201).json({
 				message: "Sweet created successfully",
-				sweet,
+				sweet: withStockLevels(sweet),
 			});
-		} catch (error: any) {
-			res.status(400).json({ error: error.message });
+		} catch (error) {
+			next(error);
 		}
 	}
 
 	/**
-	 * Retrieves the current list of sweets in the catalog.
+	 * Retrieves one page of the sweet catalog.
 	 *
-	 * @param req Express request object.
-	 * @param res Express response returning the sweet collection.
+	 * @param req Express request containing paging and sort query parameters.
+	 * @param res Express response returning the page of sweets.
+	 * @param next Passes failures to the error handler.
 	 */
-	async getAllSweets(req: Request, res: Response) {
+	async getAllSweets(req: Request, res: Response, next: NextFunction) {
 		try {
-			const sweets = await sweetService.getAllSweets();
-			res.json({ sweets });
-		} catch (error: any) {
-			res.status(500).json({ error: error.message });
+			const query = CatalogueQuerySchema.parse(req.query);
+			const page = await sweetService.getAllSweets(query);
+			res.json(withPageStockLevels(page));
+		} catch (error) {
+			next(error);
 		}
 	}
 
@@ -48,62 +71,120 @@ export class SweetController {
 	 * Executes a filtered search for sweets based on query parameters.
 	 *
 	 * @param req Express request containing search criteria.
-	 * @param res Express response returning matched sweets.
+	 * @param res Express response returning the page of matched sweets.
+	 * @param next Passes failures to the error handler.
 	 */
-	async searchSweets(req: Request, res: Response) {
+	async searchSweets(req: Request, res: Response, next: NextFunction) {
 		try {
 			// Parse and validate query parameters (coerce types)
 			const searchData = SearchSweetSchema.parse(req.query) as SearchSweetInput;
-			const sweets = await sweetService.searchSweets(searchData);
-			res.json({ sweets });
-		} catch (error: any) {
-			res.status(500).json({ error: error.message });
+			const page = await sweetService.searchSweets(searchData);
+			res.json(withPageStockLevels(page));
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Retrieves a single sweet that has not been archived.
+	 *
+	 * @param req Express request containing the sweet identifier.
+	 * @param res Express response returning the sweet.
+	 * @param next Passes failures to the error handler.
+	 */
+	async getSweet(req: Request, res: Response, next: NextFunction) {
+		try {
+			const sweet = await sweetService.getSweetById(req.params.id);
+			res.json({ sweet: withStockLevels(sweet) });
+		} catch (error) {
+			next(error);
 		}
 	}
 
 	/**
 	 * Updates details of an existing sweet by identifier.
 	 *
-	 * @param req Express request containing ID parameter and update payload.
+	 * @param req Authenticated request containing ID parameter and update payload.
 	 * @param res Express response returning the updated sweet.
+	 * @param next Passes failures to the error handler.
 	 */
-	async updateSweet(req: Request, res: Response) {
+	async updateSweet(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
 		try {
 			const { id } = req.params;
-			const sweet = await sweetService.updateSweet(id, req.body);
+			const sweet = await sweetService.updateSweet(id, req.body, req.user!.id);
 			res.json({
 				message: "Sweet updated successfully",
-				sweet,
+				sweet: withStockLevels(sweet),
 			});
-		} catch (error: any) {
-			if (error.message === "Sweet not found") {
-				res.status(404).json({ error: error.message });
-			} else {
-				res.status(400).json({ error: error.message });
-			}
+		} catch (error) {
+			next(error);
 		}
 	}
 
 	/**
-	 * Deletes the sweet referenced by the request path parameter.
+	 * Retrieves one page of archived sweets.
 	 *
-	 * @param req Express request containing the sweet identifier.
-	 * @param res Express response confirming deletion.
+	 * @param req Express request containing paging and sort query parameters.
+	 * @param res Express response returning the page of archived sweets.
+	 * @param next Passes failures to the error handler.
 	 */
-	async deleteSweet(req: Request, res: Response) {
+	async getArchivedSweets(req: Request, res: Response, next: NextFunction) {
 		try {
-			const { id } = req.params;
-			const sweet = await sweetService.deleteSweet(id);
+			const query = CatalogueQuerySchema.parse(req.query);
+			const page = await sweetService.getArchivedSweets(query);
+			res.json(withPageStockLevels(page));
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Archives the sweet referenced by the request path parameter.
+	 *
+	 * @param req Authenticated request containing the sweet identifier.
+	 * @param res Express response confirming the sweet was archived.
+	 * @param next Passes failures to the error handler.
+	 */
+	async deleteSweet(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			const sweet = await sweetService.deleteSweet(req.params.id);
+			res.json({
+				message: "Sweet archived successfully",
+				sweet: withStockLevels(sweet),
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Returns an archived sweet to the catalogue.
+	 *
+	 * @param req Authenticated request containing the sweet identifier.
+	 * @param res Express response returning the restored sweet.
+	 * @param next Passes failures to the error handler.
+	 */
+	async restoreSweet(
+		req: AuthenticatedRequest,
+		res: Response,
+		next: NextFunction
+	) {
+		try {
+			const sweet = await sweetService.restoreSweet(req.params.id);
 			res.json({
-				message: "Sweet deleted successfully",
-				sweet,
+				message: "Sweet restored successfully",
+				sweet: withStockLevels(sweet),
 			});
-		} catch (error: any) {
-			if (error.message === "Sweet not found") {
-				res.status(404).json({ error: error.message });
-			} else {
-				res.status(500).json({ error: error.message });
-			}
+		} catch (error) {
+			next(error);
 		}
 	}
 }
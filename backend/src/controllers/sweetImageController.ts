@@ -0,0 +1,102 @@
+/**
+ * @file Controller exposing product image management over HTTP.
+ */
+import { Request, Response, NextFunction } from "express";
+import { SweetImageService } from "../services/sweetImageService";
+import { ReorderSweetImagesInput } from "../types";
+
+const sweetImageService = new SweetImageService();
+
+/**
+ * Translates sweet image service calls into HTTP responses. Every action
+ * answers with the sweet's images in display order.
+ */
+export class SweetImageController {
+	/**
+	 * Lists a sweet's images.
+	 *
+	 * @param req Express request containing the sweet identifier.
+	 * @param res Express response returning the images.
+	 * @param next Passes failures to the error handler.
+	 */
+	async listImages(req: Request, res: Response, next: NextFunction) {
+		try {
+			const images = await sweetImageService.listImages(req.params.id);
+			res.json({ images });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Stores the images uploaded in the `images` form field.
+	 *
+	 * @param req Express request carrying the parsed multipart files.
+	 * @param res Express response returning the images after the upload.
+	 * @param next Passes failures to the error handler.
+	 */
+	async uploadImages(req: Request, res: Response, next: NextFunction) {
+		try {
+			const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+			const images = await sweetImageService.addImages(req.params.id, files);
+			res.status(201).json({ message: "Images uploaded successfully", images });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Puts a sweet's images in the order given in the request body.
+	 *
+	 * @param req Express request containing the ordered image identifiers.
+	 * @param res Express response returning the reordered images.
+	 * @param next Passes failures to the error handler.
+	 */
+	async reorderImages(req: Request, res: Response, next: NextFunction) {
+		try {
+			const { imageIds } = req.body as ReorderSweetImagesInput;
+			const images = await sweetImageService.reorderImages(req.params.id, imageIds);
+			res.json({ images });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Makes an image the sweet's primary image.
+	 *
+	 * @param req Express request containing the sweet and image identifiers.
+	 * @param res Express response returning the images.
+	 * @param next Passes failures to the error handler.
+	 */
+	async setPrimaryImage(req: Request, res: Response, next: NextFunction) {
+		try {
+			const images = await sweetImageService.setPrimaryImage(
+				req.params.id,
+				req.params.imageId
+			);
+			res.json({ images });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Deletes one of a sweet's images.
+	 *
+	 * @param req Express request containing the sweet and image identifiers.
+	 * @param res Express response returning the remaining images.
+	 * @param next Passes failures to the error handler.
+	 */
+	async deleteImage(req: Request, res: Response, next: NextFunction) {
+		try {
+			const images = await sweetImageService.deleteImage(
+				req.params.id,
+				req.params.imageId
+			);
+			res.json({ message: "Image deleted successfully", images });
+		} catch (error) {
+			next(error);
+		}
+	}
+}
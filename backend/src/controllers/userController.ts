@@ -1,11 +1,13 @@
 /**
  * @file Controller translating user-related service operations into HTTP responses.
  */
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { UserService } from '../services/userService';
-import { AuthenticatedRequest } from '../types';
+import { SessionService } from '../services/sessionService';
+import { AuthenticatedRequest, ChangePasswordInput } from '../types';
 
 const userService = new UserService();
+const sessionService = new SessionService();
 
 /**
  * Handles user onboarding and authentication endpoints.
@@ -16,34 +18,68 @@ export class UserController {
      *
      * @param req Express request containing registration details.
      * @param res Express response returning the newly created user.
+     * @param next Passes failures to the error handler.
      */
-    async register(req: Request, res: Response) {
+    async register(req: Request, res: Response, next: NextFunction) {
         try {
             const user = await userService.createUser(req.body);
             res.status(201).json({
                 message: 'User created successfully',
                 user,
             });
-        } catch (error: any) {
-            res.status(400).json({ error: error.message });
+        } catch (error) {
+            next(error);
         }
     }
 
     /**
-     * Authenticates a user and issues a JWT token.
+     * Authenticates a user and issues an access token and refresh token.
      *
      * @param req Express request containing login credentials.
-     * @param res Express response returning the token and user summary.
+     * @param res Express response returning the tokens and user summary.
+     * @param next Passes failures to the error handler.
      */
-    async login(req: Request, res: Response) {
+    async login(req: Request, res: Response, next: NextFunction) {
         try {
             const result = await userService.loginUser(req.body);
             res.json({
                 message: 'Login successful',
                 ...result,
             });
-        } catch (error: any) {
-            res.status(401).json({ error: error.message });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Rotates a refresh token, issuing a new access token alongside it.
+     *
+     * @param req Express request containing the current refresh token.
+     * @param res Express response returning the new token pair.
+     * @param next Passes failures to the error handler.
+     */
+    async refresh(req: Request, res: Response, next: NextFunction) {
+        try {
+            const tokens = await sessionService.refreshSession(req.body.refreshToken);
+            res.json(tokens);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Revokes the session behind the caller's access token.
+     *
+     * @param req Express request augmented with authenticated user metadata.
+     * @param res Express response confirming the logout.
+     * @param next Passes failures to the error handler.
+     */
+    async logout(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+        try {
+            await sessionService.revokeSession(req.user!.sessionId);
+            res.json({ message: 'Logout successful' });
+        } catch (error) {
+            next(error);
         }
     }
 
@@ -52,13 +88,30 @@ export class UserController {
      *
      * @param req Express request augmented with authenticated user metadata.
      * @param res Express response returning the user profile.
+     * @param next Passes failures to the error handler.
      */
-    async getProfile(req: AuthenticatedRequest, res: Response) {
+    async getProfile(req: AuthenticatedRequest, res: Response, next: NextFunction) {
         try {
             const user = await userService.getUserById(req.user!.id);
             res.json({ user });
-        } catch (error: any) {
-            res.status(404).json({ error: error.message });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Replaces the authenticated user's password.
+     *
+     * @param req Express request containing the current and new password.
+     * @param res Express response confirming the change.
+     * @param next Passes failures to the error handler.
+     */
+    async changePassword(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+        try {
+            await userService.changePassword(req.user!.id, req.body as ChangePasswordInput);
+            res.json({ message: 'Password changed successfully' });
+        } catch (error) {
+            next(error);
         }
     }
 }
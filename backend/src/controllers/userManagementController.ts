@@ -0,0 +1,113 @@
+/**
+ * @file Controller exposing admin user management over HTTP.
+ */
+import { Response, NextFunction } from 'express';
+import { UserManagementService } from '../services/userManagementService';
+import { AuthenticatedRequest, ListUsersSchema, UpdateUserRoleInput } from '../types';
+
+const userManagementService = new UserManagementService();
+
+/**
+ * Handles admin requests to inspect and administer user accounts.
+ */
+export class UserManagementController {
+    /**
+     * Lists users matching the query filters.
+     *
+     * @param req Authenticated admin request with search, role, status, and page query.
+     * @param res Express response returning the page of users.
+     * @param next Passes failures to the error handler.
+     */
+    async listUsers(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+        try {
+            const query = ListUsersSchema.parse(req.query);
+            const page = await userManagementService.listUsers(query);
+            res.json(page);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Returns a single user's details.
+     *
+     * @param req Authenticated admin request containing the user identifier.
+     * @param res Express response returning the user.
+     * @param next Passes failures to the error handler.
+     */
+    async getUser(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+        try {
+            const user = await userManagementService.getUser(req.params.id);
+            res.json({ user });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Assigns a new role to a user.
+     *
+     * @param req Authenticated admin request containing the user identifier and role.
+     * @param res Express response returning the updated user.
+     * @param next Passes failures to the error handler.
+     */
+    async updateRole(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+        try {
+            const { role } = req.body as UpdateUserRoleInput;
+            const user = await userManagementService.updateRole(req.params.id, role, req.user!.id);
+            res.json({ message: 'User role updated successfully', user });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Deactivates a user account and ends all of its sessions.
+     *
+     * @param req Authenticated admin request containing the user identifier.
+     * @param res Express response returning the updated user.
+     * @param next Passes failures to the error handler.
+     */
+    async deactivateUser(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+        try {
+            const user = await userManagementService.setActive(req.params.id, false, req.user!.id);
+            res.json({ message: 'User deactivated successfully', user });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Reactivates a previously deactivated user account.
+     *
+     * @param req Authenticated admin request containing the user identifier.
+     * @param res Express response returning the updated user.
+     * @param next Passes failures to the error handler.
+     */
+    async reactivateUser(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+        try {
+            const user = await userManagementService.setActive(req.params.id, true, req.user!.id);
+            res.json({ message: 'User reactivated successfully', user });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Issues a temporary password that the user must replace on next sign-in.
+     *
+     * @param req Authenticated admin request containing the user identifier.
+     * @param res Express response returning the user and the one-time temporary password.
+     * @param next Passes failures to the error handler.
+     */
+    async forcePasswordReset(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+        try {
+            const { user, temporaryPassword } = await userManagementService.forcePasswordReset(
+                req.params.id
+            );
+            res.json({ message: 'Password reset successfully', user, temporaryPassword });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -6,6 +6,8 @@ import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
 import routes from './routes';
+import { UPLOAD_DIR, UPLOAD_URL_PATH } from './config/storage';
+import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 
 dotenv.config();
 
@@ -44,20 +46,6 @@ app.options('*', cors(corsOptions));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-/**
- * Global handler for malformed JSON payloads to provide a consistent response.
- */
-app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction): void => {
-    if (err instanceof SyntaxError && 'body' in err) {
-        res.status(400).json({
-            error: 'Invalid JSON format',
-            message: 'Please check your request body for valid JSON syntax'
-        });
-        return;
-    }
-    next(err);
-});
-
 /** Health-check root endpoint. */
 app.get('/', (req, res) => {
     res.json({ message: 'Sweet Shop API is running!' });
@@ -67,21 +55,27 @@ app.get('/health', (req, res) => {
     res.json({ status: 'OK', timestamp: new Date().toISOString() });
 });
 
+/**
+ * Serve uploaded product images. Helmet only allows same-origin embedding by
+ * default, so the frontend's origin needs an explicit cross-origin policy.
+ */
+app.use(UPLOAD_URL_PATH, express.static(UPLOAD_DIR, {
+    setHeaders: (res) => {
+        res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    },
+}));
+
 /** Mount versioned API routes. */
 app.use('/api', routes);
 
+/** Catch-all handler for unmatched routes. */
+app.use('*', notFoundHandler);
+
 /**
- * Fallback error handler to avoid leaking stack traces.
+ * Renders every error, including malformed JSON bodies, in the standard
+ * envelope without leaking stack traces.
  */
-app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction): void => {
-    console.error(err.stack);
-    res.status(500).json({ error: 'Something went wrong!' });
-});
-
-/** Catch-all handler for unmatched routes. */
-app.use('*', (req, res) => {
-    res.status(404).json({ error: 'Route not found' });
-});
+app.use(errorHandler);
 
 
 export default app;
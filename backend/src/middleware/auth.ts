@@ -2,51 +2,105 @@
  * @file Authentication and authorization middleware helpers.
  */
 import { Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
 import { verifyToken } from '../utils/auth';
 import { AuthenticatedRequest } from '../types';
+import { SessionService } from '../services/sessionService';
+import { hasPermission, Permission } from '../config/permissions';
+import { ForbiddenError, UnauthorizedError } from '../utils/errors';
+
+const sessionService = new SessionService();
 
 /**
- * Ensures the request contains a valid bearer token and attaches the decoded payload.
+ * Builds middleware that checks the bearer token, its session, and the current
+ * state of the account, then attaches the caller's identity. The role is read
+ * from the database so role changes and deactivation apply immediately.
  *
- * @param req Express request with optional authenticated user payload.
- * @param res Express response used for returning authentication errors.
- * @param next Invokes the next middleware when authentication succeeds.
+ * @param allowPendingPasswordReset Whether users holding a temporary password may pass.
+ * @returns Express middleware passing a 401/403 error on when authentication fails,
+ * and any other failure, such as the session lookup erroring, on unchanged.
  */
-export const authenticate = (
+const createAuthenticate = (allowPendingPasswordReset: boolean) => async (
     req: AuthenticatedRequest,
     res: Response,
     next: NextFunction
-): void => {
+): Promise<void> => {
     try {
         const token = req.header('Authorization')?.replace('Bearer ', '');
 
         if (!token) {
-            res.status(401).json({ error: 'Access denied. No token provided.' });
+            next(new UnauthorizedError('UNAUTHORIZED', 'Access denied. No token provided.'));
             return;
         }
 
         const decoded = verifyToken(token);
-        req.user = decoded;
+        const user = decoded.sid ? await sessionService.findActiveSessionUser(decoded.sid) : null;
+
+        if (!user) {
+            next(new UnauthorizedError('SESSION_REVOKED', 'Session has been revoked.'));
+            return;
+        }
+
+        if (!user.isActive) {
+            next(new UnauthorizedError('ACCOUNT_DEACTIVATED', 'Account is deactivated.'));
+            return;
+        }
+
+        if (user.passwordResetRequired && !allowPendingPasswordReset) {
+            next(new ForbiddenError('PASSWORD_RESET_REQUIRED', 'Password reset required.'));
+            return;
+        }
+
+        req.user = {
+            id: user.id,
+            email: user.email,
+            role: user.role,
+            sessionId: decoded.sid,
+        };
         next();
     } catch (error) {
-        res.status(401).json({ error: 'Invalid token.' });
+        // Covers expired tokens too, which jsonwebtoken raises as a subclass
+        next(error instanceof jwt.JsonWebTokenError
+            ? new UnauthorizedError('UNAUTHORIZED', 'Invalid token.')
+            : error);
     }
 };
 
 /**
- * Requires the authenticated user to have an ADMIN role; otherwise responds with 403.
+ * Ensures the request comes from an active account with a live session.
  *
- * @param req Authenticated request expected to include `user` metadata.
- * @param res Express response used for returning authorization errors.
- * @param next Invokes the next middleware when authorization succeeds.
+ * @param req Express request with optional authenticated user payload.
+ * @param res Express response used for returning authentication errors.
+ * @param next Invokes the next middleware when authentication succeeds.
  */
-export const requireAdmin = (
+export const authenticate = createAuthenticate(false);
+
+/**
+ * Like `authenticate`, but also admits users who must still replace a
+ * temporary password, so they can reach the password change endpoint.
+ */
+export const authenticateAllowingPasswordReset = createAuthenticate(true);
+
+/**
+ * Builds middleware requiring the authenticated user's role to grant every
+ * listed permission; otherwise passes a 403 error on. Must run after
+ * `authenticate`.
+ *
+ * @param permissions Permissions the route needs.
+ * @returns Express middleware enforcing the permissions.
+ */
+export const requirePermission = (...permissions: Permission[]) => (
     req: AuthenticatedRequest,
     res: Response,
     next: NextFunction
 ): void => {
-    if (req.user?.role !== 'ADMIN') {
-        res.status(403).json({ error: 'Access denied. Admin role required.' });
+    const role = req.user?.role ?? '';
+    const missing = permissions.filter((permission) => !hasPermission(role, permission));
+
+    if (missing.length > 0) {
+        next(new ForbiddenError('FORBIDDEN', 'Access denied. Missing permission.', {
+            details: { required: missing },
+        }));
         return;
     }
     next();
@@ -0,0 +1,94 @@
+/**
+ * @file Central error middleware rendering every failure in one envelope.
+ */
+import { ErrorRequestHandler, RequestHandler } from "express";
+import { ZodError } from "zod";
+import {
+	AppError,
+	BadRequestError,
+	ErrorCode,
+	NotFoundError,
+} from "../utils/errors";
+
+/** Body of every error response. */
+export interface ApiErrorResponse {
+	success: false;
+	message: string;
+	error: {
+		code: ErrorCode;
+		details?: Record<string, unknown>;
+		field?: string;
+	};
+}
+
+/**
+ * Converts a failed schema parse into a validation error listing the
+ * messages for each invalid field, keyed by dotted path.
+ *
+ * @param error Error thrown by a Zod schema.
+ * @returns 400 error whose details map field paths to messages.
+ */
+export const fromZodError = (error: ZodError) => {
+	const fields: Record<string, string[]> = {};
+	for (const issue of error.errors) {
+		const path = issue.path.join(".") || "request";
+		(fields[path] ??= []).push(issue.message);
+	}
+
+	const [first] = error.errors;
+	return new BadRequestError(
+		"VALIDATION_FAILED",
+		first ? `Validation failed: ${first.message}` : "Validation failed",
+		{ details: { fields }, field: first?.path.join(".") || undefined }
+	);
+};
+
+/**
+ * Maps anything thrown by a route to an AppError. Errors the application
+ * did not raise deliberately are reported as an opaque 500 so internals
+ * never reach the client.
+ */
+const toAppError = (error: unknown): AppError => {
+	if (error instanceof AppError) {
+		return error;
+	}
+	if (error instanceof ZodError) {
+		return fromZodError(error);
+	}
+	// Raised by express.json() for malformed request bodies
+	if (error instanceof SyntaxError && "body" in error) {
+		return new BadRequestError(
+			"INVALID_JSON",
+			"Invalid JSON format. Please check your request body for valid JSON syntax"
+		);
+	}
+	return new AppError(500, "INTERNAL_ERROR", "Something went wrong");
+};
+
+/**
+ * Responds with the standard error envelope. Must be registered after all
+ * routes.
+ */
+export const errorHandler: ErrorRequestHandler = (err, req, res, next) => {
+	if (res.headersSent) {
+		next(err);
+		return;
+	}
+
+	const error = toAppError(err);
+	if (error.status >= 500) {
+		console.error(err);
+	}
+
+	const body: ApiErrorResponse = {
+		success: false,
+		message: error.message,
+		error: { code: error.code, details: error.details, field: error.field },
+	};
+	res.status(error.status).json(body);
+};
+
+/** Forwards requests that matched no route to the error handler as a 404. */
+export const notFoundHandler: RequestHandler = (req, res, next) => {
+	next(new NotFoundError("ROUTE_NOT_FOUND", "Route not found"));
+};
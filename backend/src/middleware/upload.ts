@@ -0,0 +1,79 @@
+/**
+ * @file Multipart upload handling for product images.
+ */
+import { RequestHandler } from "express";
+import multer from "multer";
+import { BadRequestError } from "../utils/errors";
+
+/** Image types accepted for upload. */
+export const IMAGE_CONTENT_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+/** Largest accepted image, in bytes. */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/** Most images accepted in one request. */
+export const MAX_IMAGES_PER_UPLOAD = 10;
+
+/** Buffers uploads in memory; they are validated and stored by the service. */
+const imageUpload = multer({
+	storage: multer.memoryStorage(),
+	limits: { fileSize: MAX_IMAGE_BYTES, files: MAX_IMAGES_PER_UPLOAD },
+	fileFilter: (req, file, callback) => {
+		if (IMAGE_CONTENT_TYPES.includes(file.mimetype)) {
+			callback(null, true);
+			return;
+		}
+		callback(
+			new BadRequestError(
+				"UNSUPPORTED_MEDIA_TYPE",
+				`${file.originalname} is not a JPEG, PNG or WebP image`,
+				{ field: file.fieldname, details: { accepted: IMAGE_CONTENT_TYPES } }
+			)
+		);
+	},
+});
+
+/**
+ * Maps multer's limit errors onto the API's error codes.
+ *
+ * @param error Error raised while parsing the multipart body.
+ * @returns Error to pass to the error handler.
+ */
+const toUploadError = (error: unknown) => {
+	if (!(error instanceof multer.MulterError)) {
+		return error;
+	}
+	if (error.code === "LIMIT_FILE_SIZE") {
+		return new BadRequestError(
+			"FILE_TOO_LARGE",
+			`Images must be at most ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`,
+			{ field: error.field, details: { maxBytes: MAX_IMAGE_BYTES } }
+		);
+	}
+	if (error.code === "LIMIT_FILE_COUNT") {
+		return new BadRequestError(
+			"INVALID_FILE",
+			`At most ${MAX_IMAGES_PER_UPLOAD} images can be uploaded at once`,
+			{ details: { maxFiles: MAX_IMAGES_PER_UPLOAD } }
+		);
+	}
+	return new BadRequestError("INVALID_FILE", error.message, {
+		field: error.field,
+	});
+};
+
+/**
+ * Creates middleware that parses image files sent as multipart form data
+ * under `field` into `req.files`.
+ *
+ * @param field Form field holding the images.
+ * @returns Middleware passing a 400 error on for rejected uploads.
+ */
+export const uploadImages = (field: string): RequestHandler => {
+	const parse = imageUpload.array(field, MAX_IMAGES_PER_UPLOAD);
+	return (req, res, next) => {
+		parse(req, res, (error?: unknown) => {
+			next(error ? toUploadError(error) : undefined);
+		});
+	};
+};
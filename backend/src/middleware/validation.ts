@@ -3,6 +3,7 @@
  */
 import { Request, Response, NextFunction } from "express";
 import { ZodSchema } from "zod";
+import { BadRequestError } from "../utils/errors";
 
 type ValidateOptions = {
 	query?: boolean;
@@ -13,7 +14,7 @@ type ValidateOptions = {
  *
  * @param schema Zod schema describing the expected payload shape.
  * @param options Optional configuration for targeting query validation.
- * @returns Middleware that responds with HTTP 400 on validation failure.
+ * @returns Middleware that passes a 400 `VALIDATION_FAILED` error on when validation fails.
  */
 export const validate = (schema: ZodSchema, options?: ValidateOptions) => {
 	return (req: Request, res: Response, next: NextFunction): void => {
@@ -28,10 +29,9 @@ export const validate = (schema: ZodSchema, options?: ValidateOptions) => {
 					req.method === "POST" &&
 					(!req.body || Object.keys(req.body).length === 0)
 				) {
-					res.status(400).json({
-						error: "Validation failed",
-						message: "Request body is required",
-					});
+					next(
+						new BadRequestError("VALIDATION_FAILED", "Request body is required")
+					);
 					return;
 				}
 				// For PUT/PATCH, body might be empty or have optional fields
@@ -40,11 +40,9 @@ export const validate = (schema: ZodSchema, options?: ValidateOptions) => {
 				schema.parse(body);
 			}
 			next();
-		} catch (error: any) {
-			res.status(400).json({
-				error: "Validation failed",
-				details: error.errors,
-			});
+		} catch (error) {
+			// The error handler renders the Zod issues per field
+			next(error);
 		}
 	};
 };
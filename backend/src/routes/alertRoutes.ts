@@ -0,0 +1,27 @@
+/**
+ * @file Express router defining admin endpoints for low-stock alerts.
+ */
+import { Router } from "express";
+import { AlertController } from "../controllers/alertController";
+import { validate } from "../middleware/validation";
+import { authenticate, requirePermission } from "../middleware/auth";
+import { ListAlertsSchema } from "../types";
+
+/** Router instance responsible for alert endpoints. */
+const router = Router();
+const alertController = new AlertController();
+
+/** All alert routes require permission to manage alerts. */
+router.use(authenticate, requirePermission("alert:manage"));
+
+/** GET /api/alerts: List low-stock alerts, active ones by default. */
+router.get(
+	"/",
+	validate(ListAlertsSchema, { query: true }),
+	alertController.listAlerts
+);
+
+/** POST /api/alerts/:id/acknowledge: Mark an alert as seen. */
+router.post("/:id/acknowledge", alertController.acknowledgeAlert);
+
+export default router;
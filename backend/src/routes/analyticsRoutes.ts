@@ -0,0 +1,42 @@
+/**
+ * @file Express router exposing sales and inventory analytics.
+ */
+import { Router } from "express";
+import { AnalyticsController } from "../controllers/analyticsController";
+import { validate } from "../middleware/validation";
+import { authenticate, requirePermission } from "../middleware/auth";
+import {
+	AnalyticsRangeSchema,
+	SalesAnalyticsSchema,
+	TopSellersSchema,
+} from "../types";
+
+/** Router handling analytics reports. */
+const router = Router();
+const analyticsController = new AnalyticsController();
+
+/** Analytics are restricted to staff who may view them. */
+router.use(authenticate, requirePermission("analytics:view"));
+
+/** GET /api/analytics/sales: Revenue and units by period, category and sweet. */
+router.get(
+	"/sales",
+	validate(SalesAnalyticsSchema, { query: true }),
+	analyticsController.getSales.bind(analyticsController)
+);
+
+/** GET /api/analytics/top-sellers: Best-selling sweets by units or revenue. */
+router.get(
+	"/top-sellers",
+	validate(TopSellersSchema, { query: true }),
+	analyticsController.getTopSellers.bind(analyticsController)
+);
+
+/** GET /api/analytics/stock-turnover: Units sold relative to average stock per sweet. */
+router.get(
+	"/stock-turnover",
+	validate(AnalyticsRangeSchema, { query: true }),
+	analyticsController.getStockTurnover.bind(analyticsController)
+);
+
+export default router;
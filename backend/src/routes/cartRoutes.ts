@@ -0,0 +1,39 @@
+/**
+ * @file Express router for the authenticated user's shopping cart.
+ */
+import { Router } from "express";
+import { CartController } from "../controllers/cartController";
+import { validate } from "../middleware/validation";
+import { authenticate } from "../middleware/auth";
+import { AddCartItemSchema, UpdateCartItemSchema } from "../types";
+
+/** Router handling cart lines and checkout. */
+const router = Router();
+const cartController = new CartController();
+
+/** All cart routes require an authenticated user. */
+router.use(authenticate);
+
+/** GET /api/cart/items: View the caller's cart. */
+router.get("/items", cartController.getCart);
+
+/** POST /api/cart/items: Add a sweet to the cart. */
+router.post("/items", validate(AddCartItemSchema), cartController.addItem);
+
+/** PATCH /api/cart/items/:sweetId: Change the quantity of a cart line. */
+router.patch(
+	"/items/:sweetId",
+	validate(UpdateCartItemSchema),
+	cartController.updateItem
+);
+
+/** DELETE /api/cart/items/:sweetId: Remove a sweet from the cart. */
+router.delete("/items/:sweetId", cartController.removeItem);
+
+/** DELETE /api/cart/items: Empty the cart. */
+router.delete("/items", cartController.clearCart);
+
+/** POST /api/cart/checkout: Purchase every line in the cart as one order. */
+router.post("/checkout", cartController.checkout);
+
+export default router;
@@ -0,0 +1,35 @@
+/**
+ * @file Express router for importing and exporting the sweet catalogue.
+ */
+import { Router } from "express";
+import { CatalogueFileController } from "../controllers/catalogueFileController";
+import { validate } from "../middleware/validation";
+import { authenticate, requirePermission } from "../middleware/auth";
+import { ExportSweetsSchema, ImportSweetsSchema } from "../types";
+
+/**
+ * Router handling bulk catalogue files. Mounted ahead of the
+ * sweet routes so `/import` and `/export` are not read as sweet identifiers.
+ */
+const router = Router();
+const catalogueFileController = new CatalogueFileController();
+
+/** POST /api/sweets/import: Create and update sweets from a CSV or JSON file, optionally as a dry run. */
+router.post(
+	"/import",
+	authenticate,
+	requirePermission("catalogue:import"),
+	validate(ImportSweetsSchema),
+	catalogueFileController.importSweets.bind(catalogueFileController)
+);
+
+/** GET /api/sweets/export: Download every sweet as CSV or JSON. */
+router.get(
+	"/export",
+	authenticate,
+	requirePermission("catalogue:export"),
+	validate(ExportSweetsSchema, { query: true }),
+	catalogueFileController.exportSweets.bind(catalogueFileController)
+);
+
+export default router;
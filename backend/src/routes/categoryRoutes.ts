@@ -0,0 +1,46 @@
+/**
+ * @file Express router defining endpoints for catalogue categories.
+ */
+import { Router } from "express";
+import { CategoryController } from "../controllers/categoryController";
+import { validate } from "../middleware/validation";
+import { authenticate, requirePermission } from "../middleware/auth";
+import { CreateCategorySchema, UpdateCategorySchema } from "../types";
+
+/** Router instance responsible for category endpoints. */
+const router = Router();
+const categoryController = new CategoryController();
+
+/** All category routes require an authenticated user. */
+router.use(authenticate);
+
+/** GET /api/categories: List every category in display order. */
+router.get("/", categoryController.listCategories);
+
+/** GET /api/categories/:id: View a category with its parent and subcategories. */
+router.get("/:id", categoryController.getCategory);
+
+/** POST /api/categories: Add a category. */
+router.post(
+	"/",
+	requirePermission("category:manage"),
+	validate(CreateCategorySchema),
+	categoryController.createCategory
+);
+
+/** PUT /api/categories/:id: Rename, move or reorder a category. */
+router.put(
+	"/:id",
+	requirePermission("category:manage"),
+	validate(UpdateCategorySchema),
+	categoryController.updateCategory
+);
+
+/** DELETE /api/categories/:id: Delete an unused category. */
+router.delete(
+	"/:id",
+	requirePermission("category:manage"),
+	categoryController.deleteCategory
+);
+
+export default router;
@@ -0,0 +1,18 @@
+/**
+ * @file Express router exposing the live catalogue event stream.
+ */
+import { Router } from "express";
+import { EventController } from "../controllers/eventController";
+import { authenticate } from "../middleware/auth";
+
+/** Router handling server-sent event streams. */
+const router = Router();
+const eventController = new EventController();
+
+/** All event streams require an authenticated user. */
+router.use(authenticate);
+
+/** GET /api/events/sweets: Stream sweet and stock changes as they happen. */
+router.get("/sweets", eventController.streamSweetEvents);
+
+export default router;
@@ -1,17 +1,43 @@
 /**
- * @file Root router that aggregates user and sweet domain routes.
+ * @file Root router that aggregates user, public catalogue, sweet, sweet image, price history, catalogue file, category, promotion, order, cart, reservation, analytics, alert, event and admin domain routes.
  */
 import { Router } from "express";
 import userRoutes from "./userRoutes";
+import publicCatalogueRoutes from "./publicCatalogueRoutes";
 import sweetRoutes from "./sweetRoutes";
+import catalogueFileRoutes from "./catalogueFileRoutes";
 import inventoryRoutes from "./inventoryRoutes";
+import sweetImageRoutes from "./sweetImageRoutes";
+import priceHistoryRoutes from "./priceHistoryRoutes";
+import categoryRoutes from "./categoryRoutes";
+import promotionRoutes from "./promotionRoutes";
+import orderRoutes from "./orderRoutes";
+import cartRoutes from "./cartRoutes";
+import reservationRoutes from "./reservationRoutes";
+import userManagementRoutes from "./userManagementRoutes";
+import analyticsRoutes from "./analyticsRoutes";
+import alertRoutes from "./alertRoutes";
+import eventRoutes from "./eventRoutes";
 
 /** Primary API router instance. */
 const router = Router();
 
 router.use("/users", userRoutes);
+router.use("/catalogue", publicCatalogueRoutes);
+router.use("/sweets", catalogueFileRoutes);
 router.use("/sweets", sweetRoutes);
 router.use("/sweets", inventoryRoutes);
+router.use("/sweets", sweetImageRoutes);
+router.use("/sweets", priceHistoryRoutes);
+router.use("/categories", categoryRoutes);
+router.use("/promotions", promotionRoutes);
+router.use("/orders", orderRoutes);
+router.use("/cart", cartRoutes);
+router.use("/reservations", reservationRoutes);
+router.use("/admin/users", userManagementRoutes);
+router.use("/analytics", analyticsRoutes);
+router.use("/alerts", alertRoutes);
+router.use("/events", eventRoutes);
 
 /** Lightweight health check accessible under the API namespace. */
 router.get("/health", (req, res) => {
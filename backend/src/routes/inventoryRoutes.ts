@@ -4,10 +4,14 @@
 import { Router } from "express";
 import { InventoryController } from "../controllers/inventoryController";
 import { validate } from "../middleware/validation";
-import { authenticate, requireAdmin } from "../middleware/auth";
-import { PurchaseSweetSchema, RestockSweetSchema } from "../types";
+import { authenticate, requirePermission } from "../middleware/auth";
+import {
+	PaginationSchema,
+	PurchaseSweetSchema,
+	RestockSweetSchema,
+} from "../types";
 
-/** Router handling purchase and restock actions. */
+/** Router handling purchase, restock and ledger lookups. */
 const router = Router();
 const inventoryController = new InventoryController();
 
@@ -21,12 +25,20 @@ router.post(
 	inventoryController.purchaseSweet.bind(inventoryController)
 );
 
-/** POST /api/sweets/:id/restock: Restock inventory (admin only). */
+/** POST /api/sweets/:id/restock: Restock inventory. */
 router.post(
 	"/:id/restock",
+	requirePermission("inventory:restock"),
 	validate(RestockSweetSchema),
-	requireAdmin,
 	inventoryController.restockSweet.bind(inventoryController)
 );
 
+/** GET /api/sweets/:id/movements: Paginated inventory ledger. */
+router.get(
+	"/:id/movements",
+	requirePermission("inventory:view"),
+	validate(PaginationSchema, { query: true }),
+	inventoryController.getMovements.bind(inventoryController)
+);
+
 export default router;
@@ -0,0 +1,37 @@
+/**
+ * @file Express router exposing purchase order history.
+ */
+import { Router } from "express";
+import { OrderController } from "../controllers/orderController";
+import { authenticate } from "../middleware/auth";
+import { validate } from "../middleware/validation";
+import { InvoiceQuerySchema, ListOrdersSchema } from "../types";
+
+/** Router handling order history lookups. */
+const router = Router();
+const orderController = new OrderController();
+
+/** All order routes require an authenticated user. */
+router.use(authenticate);
+
+/** GET /api/orders: List the caller's own orders, filtered by status and date. */
+router.get(
+	"/",
+	validate(ListOrdersSchema, { query: true }),
+	orderController.getMyOrders
+);
+
+/** GET /api/orders/:id: View one of the caller's orders. */
+router.get("/:id", orderController.getOrderById);
+
+/** GET /api/orders/:id/invoice: Download an order's invoice as HTML or PDF. */
+router.get(
+	"/:id/invoice",
+	validate(InvoiceQuerySchema, { query: true }),
+	orderController.getInvoice
+);
+
+/** POST /api/orders/:id/reorder: Add an earlier order's sweets to the cart. */
+router.post("/:id/reorder", orderController.reorder);
+
+export default router;
@@ -0,0 +1,39 @@
+/**
+ * @file Express router for sweet price history and scheduled price changes.
+ */
+import { Router } from "express";
+import { PriceHistoryController } from "../controllers/priceHistoryController";
+import { validate } from "../middleware/validation";
+import { authenticate, requirePermission } from "../middleware/auth";
+import { SchedulePriceSchema } from "../types";
+
+/** Router instance responsible for price history endpoints. */
+const router = Router();
+const priceHistoryController = new PriceHistoryController();
+
+/** Price history is staff-only, like editing the price itself. */
+router.use(authenticate);
+
+/** GET /api/sweets/:id/prices: List past, current and scheduled prices. */
+router.get(
+	"/:id/prices",
+	requirePermission("sweet:update"),
+	priceHistoryController.listPrices
+);
+
+/** POST /api/sweets/:id/prices: Schedule a price to take effect at a future time. */
+router.post(
+	"/:id/prices",
+	requirePermission("sweet:update"),
+	validate(SchedulePriceSchema),
+	priceHistoryController.schedulePrice
+);
+
+/** DELETE /api/sweets/:id/prices/:priceId: Cancel a scheduled price change. */
+router.delete(
+	"/:id/prices/:priceId",
+	requirePermission("sweet:update"),
+	priceHistoryController.cancelScheduledPrice
+);
+
+export default router;
@@ -0,0 +1,58 @@
+/**
+ * @file Express router for managing promotions and pricing items with them.
+ */
+import { Router } from "express";
+import { PromotionController } from "../controllers/promotionController";
+import { validate } from "../middleware/validation";
+import { authenticate, requirePermission } from "../middleware/auth";
+import {
+	CreatePromotionSchema,
+	QuotePromotionsSchema,
+	UpdatePromotionSchema,
+} from "../types";
+
+/** Router instance responsible for promotion endpoints. */
+const router = Router();
+const promotionController = new PromotionController();
+
+/** All promotion routes require an authenticated user. */
+router.use(authenticate);
+
+/** POST /api/promotions/quote: Price items with the caller's promotions and coupon before buying. */
+router.post(
+	"/quote",
+	validate(QuotePromotionsSchema),
+	promotionController.quote
+);
+
+/** GET /api/promotions: List every promotion. */
+router.get(
+	"/",
+	requirePermission("promotion:manage"),
+	promotionController.listPromotions
+);
+
+/** POST /api/promotions: Create a promotion. */
+router.post(
+	"/",
+	requirePermission("promotion:manage"),
+	validate(CreatePromotionSchema),
+	promotionController.createPromotion
+);
+
+/** PUT /api/promotions/:id: Change a promotion. */
+router.put(
+	"/:id",
+	requirePermission("promotion:manage"),
+	validate(UpdatePromotionSchema),
+	promotionController.updatePromotion
+);
+
+/** DELETE /api/promotions/:id: Delete a promotion. */
+router.delete(
+	"/:id",
+	requirePermission("promotion:manage"),
+	promotionController.deletePromotion
+);
+
+export default router;
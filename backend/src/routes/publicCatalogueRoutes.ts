@@ -0,0 +1,38 @@
+/**
+ * @file Express router exposing the catalogue to visitors who have not signed in.
+ */
+import { Router } from "express";
+import { PublicCatalogueController } from "../controllers/publicCatalogueController";
+import { CategoryController } from "../controllers/categoryController";
+import { validate } from "../middleware/validation";
+import { CatalogueQuerySchema, SearchSweetSchema } from "../types";
+
+/** Router instance responsible for the public, read-only catalogue. */
+const router = Router();
+const publicCatalogueController = new PublicCatalogueController();
+const categoryController = new CategoryController();
+
+/** GET /api/catalogue: View a page of sweets on sale. */
+router.get(
+	"/",
+	validate(CatalogueQuerySchema, { query: true }),
+	publicCatalogueController.listSweets
+);
+
+/** GET /api/catalogue/search: Search sweets on sale by name, category, price range, or availability. */
+router.get(
+	"/search",
+	validate(SearchSweetSchema, { query: true }),
+	publicCatalogueController.searchSweets
+);
+
+/** GET /api/catalogue/categories: List categories for filtering the catalogue. */
+router.get("/categories", categoryController.listCategories);
+
+/** GET /api/catalogue/:id: View a sweet on sale. */
+router.get("/:id", publicCatalogueController.getSweet);
+
+/** GET /api/catalogue/:id/prices: List the prices a sweet on sale has had. */
+router.get("/:id/prices", publicCatalogueController.listPrices);
+
+export default router;
@@ -0,0 +1,23 @@
+/**
+ * @file Express router for holding stock while a purchase is confirmed.
+ */
+import { Router } from "express";
+import { ReservationController } from "../controllers/reservationController";
+import { validate } from "../middleware/validation";
+import { authenticate } from "../middleware/auth";
+import { ReserveStockSchema } from "../types";
+
+/** Router handling stock reservations. */
+const router = Router();
+const reservationController = new ReservationController();
+
+/** All reservation routes require an authenticated user. */
+router.use(authenticate);
+
+/** POST /api/reservations: Hold units of a sweet until the reservation expires. */
+router.post("/", validate(ReserveStockSchema), reservationController.reserve);
+
+/** DELETE /api/reservations/:id: Release a reservation early. */
+router.delete("/:id", reservationController.release);
+
+export default router;
@@ -0,0 +1,51 @@
+/**
+ * @file Express router for uploading and arranging sweet images.
+ */
+import { Router } from "express";
+import { SweetImageController } from "../controllers/sweetImageController";
+import { validate } from "../middleware/validation";
+import { uploadImages } from "../middleware/upload";
+import { authenticate, requirePermission } from "../middleware/auth";
+import { ReorderSweetImagesSchema } from "../types";
+
+/** Router instance responsible for sweet image endpoints. */
+const router = Router();
+const sweetImageController = new SweetImageController();
+
+/** All image routes require an authenticated user. */
+router.use(authenticate);
+
+/** GET /api/sweets/:id/images: List a sweet's images in display order. */
+router.get("/:id/images", sweetImageController.listImages);
+
+/** POST /api/sweets/:id/images: Upload images as multipart form data in the `images` field. */
+router.post(
+	"/:id/images",
+	requirePermission("sweet:update"),
+	uploadImages("images"),
+	sweetImageController.uploadImages
+);
+
+/** PUT /api/sweets/:id/images/order: Put a sweet's images in a new order. */
+router.put(
+	"/:id/images/order",
+	requirePermission("sweet:update"),
+	validate(ReorderSweetImagesSchema),
+	sweetImageController.reorderImages
+);
+
+/** PUT /api/sweets/:id/images/:imageId/primary: Feature an image on catalogue cards. */
+router.put(
+	"/:id/images/:imageId/primary",
+	requirePermission("sweet:update"),
+	sweetImageController.setPrimaryImage
+);
+
+/** DELETE /api/sweets/:id/images/:imageId: Delete an image. */
+router.delete(
+	"/:id/images/:imageId",
+	requirePermission("sweet:update"),
+	sweetImageController.deleteImage
+);
+
+export default router;
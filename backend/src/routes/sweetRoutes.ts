@@ -4,10 +4,11 @@
 import { Router } from "express";
 import { SweetController } from "../controllers/sweetController";
 import { validate } from "../middleware/validation";
-import { authenticate, requireAdmin } from "../middleware/auth";
+import { authenticate, requirePermission } from "../middleware/auth";
 import {
 	CreateSweetSchema,
 	UpdateSweetSchema,
+	CatalogueQuerySchema,
 	SearchSweetSchema,
 } from "../types";
 
@@ -19,22 +20,58 @@ const sweetController = new SweetController();
 router.use(authenticate);
 
 /** POST /api/sweets: Add a new sweet. */
-router.post("/", validate(CreateSweetSchema), sweetController.createSweet);
+router.post(
+	"/",
+	requirePermission("sweet:create"),
+	validate(CreateSweetSchema),
+	sweetController.createSweet
+);
 
-/** GET /api/sweets: View a list of all available sweets. */
-router.get("/", sweetController.getAllSweets);
+/** GET /api/sweets: View a page of sweets, sorted and paginated by page or cursor. */
+router.get(
+	"/",
+	validate(CatalogueQuerySchema, { query: true }),
+	sweetController.getAllSweets
+);
 
-/** GET /api/sweets/search: Search for sweets by name, category, or price range. */
+/** GET /api/sweets/search: Search for sweets by name, category, price range, or availability. */
 router.get(
 	"/search",
 	validate(SearchSweetSchema, { query: true }),
 	sweetController.searchSweets
 );
 
+/** GET /api/sweets/archived: View a page of archived sweets. */
+router.get(
+	"/archived",
+	requirePermission("sweet:delete"),
+	validate(CatalogueQuerySchema, { query: true }),
+	sweetController.getArchivedSweets
+);
+
+/** GET /api/sweets/:id: View a sweet on sale with all of its details. */
+router.get("/:id", sweetController.getSweet);
+
 /** PUT /api/sweets/:id: Update an existing sweet's details. */
-router.put("/:id", validate(UpdateSweetSchema), sweetController.updateSweet);
+router.put(
+	"/:id",
+	requirePermission("sweet:update"),
+	validate(UpdateSweetSchema),
+	sweetController.updateSweet
+);
 
-/** DELETE /api/sweets/:id: Delete a sweet (Admin only). */
-router.delete("/:id", requireAdmin, sweetController.deleteSweet);
+/** DELETE /api/sweets/:id: Archive a sweet. */
+router.delete(
+	"/:id",
+	requirePermission("sweet:delete"),
+	sweetController.deleteSweet
+);
+
+/** POST /api/sweets/:id/restore: Return an archived sweet to the catalogue. */
+router.post(
+	"/:id/restore",
+	requirePermission("sweet:delete"),
+	sweetController.restoreSweet
+);
 
 export default router;
@@ -0,0 +1,30 @@
+/**
+ * @file Express router defining admin endpoints for managing user accounts.
+ */
+import { Router } from 'express';
+import { UserManagementController } from '../controllers/userManagementController';
+import { validate } from '../middleware/validation';
+import { authenticate, requirePermission } from '../middleware/auth';
+import { ListUsersSchema, UpdateUserRoleSchema } from '../types';
+
+/** Router instance responsible for user administration. */
+const router = Router();
+const userManagementController = new UserManagementController();
+
+/** All user management routes require permission to manage users. */
+router.use(authenticate, requirePermission('user:manage'));
+
+/** GET /api/admin/users: List and search users by email/name, role, or status. */
+router.get('/', validate(ListUsersSchema, { query: true }), userManagementController.listUsers);
+/** GET /api/admin/users/:id: View a single user. */
+router.get('/:id', userManagementController.getUser);
+/** PATCH /api/admin/users/:id/role: Change a user's role. */
+router.patch('/:id/role', validate(UpdateUserRoleSchema), userManagementController.updateRole);
+/** POST /api/admin/users/:id/deactivate: Deactivate an account and revoke its sessions. */
+router.post('/:id/deactivate', userManagementController.deactivateUser);
+/** POST /api/admin/users/:id/reactivate: Reactivate a deactivated account. */
+router.post('/:id/reactivate', userManagementController.reactivateUser);
+/** POST /api/admin/users/:id/reset-password: Issue a temporary password and force a reset. */
+router.post('/:id/reset-password', userManagementController.forcePasswordReset);
+
+export default router;
@@ -4,8 +4,13 @@
 import { Router } from 'express';
 import { UserController } from '../controllers/userController';
 import { validate } from '../middleware/validation';
-import { authenticate } from '../middleware/auth';
-import { CreateUserSchema, LoginSchema } from '../types';
+import { authenticateAllowingPasswordReset } from '../middleware/auth';
+import {
+    ChangePasswordSchema,
+    CreateUserSchema,
+    LoginSchema,
+    RefreshTokenSchema,
+} from '../types';
 
 /** Router managing user authentication flows. */
 const router = Router();
@@ -15,7 +20,18 @@ const userController = new UserController();
 router.post('/register', validate(CreateUserSchema), userController.register);
 /** POST /api/users/login: Authenticate an existing user. */
 router.post('/login', validate(LoginSchema), userController.login);
+/** POST /api/users/refresh: Exchange a refresh token for a new token pair. */
+router.post('/refresh', validate(RefreshTokenSchema), userController.refresh);
+/** POST /api/users/logout: Revoke the current session. */
+router.post('/logout', authenticateAllowingPasswordReset, userController.logout);
 /** GET /api/users/profile: Fetch the authenticated user's profile. */
-router.get('/profile', authenticate, userController.getProfile);
+router.get('/profile', authenticateAllowingPasswordReset, userController.getProfile);
+/** PUT /api/users/password: Change the authenticated user's password, completing any forced reset. */
+router.put(
+    '/password',
+    authenticateAllowingPasswordReset,
+    validate(ChangePasswordSchema),
+    userController.changePassword
+);
 
 export default router;
@@ -0,0 +1,157 @@
+/**
+ * @file Service raising and managing low-stock alerts.
+ */
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import { ListAlertsInput } from "../types";
+import { ConflictError, NotFoundError } from "../utils/errors";
+import { categorySummarySelect } from "./categoryService";
+
+/** The fields of a sweet that decide whether it is low on stock. */
+export interface StockLevel {
+	id: string;
+	quantity: number;
+	reorderPoint: number;
+}
+
+/** Sweet details embedded in alert responses. */
+const alertInclude = {
+	sweet: { include: { category: { select: categorySummarySelect } } },
+	acknowledgedBy: { select: { id: true, email: true, name: true } },
+} satisfies Prisma.LowStockAlertInclude;
+
+/** Whether a stock level is at or below its reorder point. */
+const isLow = (level: StockLevel) => level.quantity <= level.reorderPoint;
+
+/**
+ * Tracks when sweets run low. An alert is raised when stock crosses down to
+ * the reorder point and resolved when it climbs back above it, so each
+ * sweet has at most one unresolved alert.
+ */
+export class AlertService {
+	/**
+	 * Raises or resolves the sweet's alert if a stock change crossed its
+	 * reorder point. Uses the caller's transaction so the alert commits or
+	 * rolls back together with the stock change.
+	 *
+	 * @param tx Prisma transaction client performing the stock change.
+	 * @param before Stock level and reorder point before the change.
+	 * @param after Stock level and reorder point after the change.
+	 */
+	async recordStockChange(
+		tx: Prisma.TransactionClient,
+		before: StockLevel,
+		after: StockLevel
+	) {
+		if (isLow(after) && !isLow(before)) {
+			await this.raiseIfLow(tx, after);
+		} else if (!isLow(after) && isLow(before)) {
+			await this.resolveOpenAlerts(tx, after.id);
+		}
+	}
+
+	/**
+	 * Raises an alert for a sweet that is at or below its reorder point
+	 * regardless of its previous level, e.g. one restored from the archive.
+	 *
+	 * @param tx Prisma transaction client performing the change.
+	 * @param level Current stock level and reorder point.
+	 */
+	async raiseIfLow(tx: Prisma.TransactionClient, level: StockLevel) {
+		if (!isLow(level)) {
+			return;
+		}
+
+		await tx.lowStockAlert.create({
+			data: {
+				sweetId: level.id,
+				quantity: level.quantity,
+				reorderPoint: level.reorderPoint,
+			},
+		});
+	}
+
+	/**
+	 * Resolves the sweet's unresolved alert, if any.
+	 *
+	 * @param tx Prisma transaction client performing the change.
+	 * @param sweetId Identifier of the sweet.
+	 */
+	async resolveOpenAlerts(tx: Prisma.TransactionClient, sweetId: string) {
+		await tx.lowStockAlert.updateMany({
+			where: { sweetId, resolvedAt: null },
+			data: { resolvedAt: new Date() },
+		});
+	}
+
+	/**
+	 * Lists alerts, newest first, along with the number still awaiting
+	 * acknowledgement.
+	 *
+	 * @param query Status filter and requested page.
+	 * @returns Promise resolving to the page of alerts, pagination metadata and unacknowledged count.
+	 */
+	async listAlerts(query: ListAlertsInput) {
+		const { page, limit, status } = query;
+		const where: Prisma.LowStockAlertWhereInput =
+			status === "active"
+				? { resolvedAt: null }
+				: status === "resolved"
+					? { resolvedAt: { not: null } }
+					: {};
+
+		const [alerts, total, unacknowledged] = await Promise.all([
+			prisma.lowStockAlert.findMany({
+				where,
+				include: alertInclude,
+				orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+				skip: (page - 1) * limit,
+				take: limit,
+			}),
+			prisma.lowStockAlert.count({ where }),
+			prisma.lowStockAlert.count({
+				where: { resolvedAt: null, acknowledgedAt: null },
+			}),
+		]);
+
+		return {
+			alerts,
+			unacknowledged,
+			pagination: {
+				page,
+				limit,
+				total,
+				totalPages: Math.ceil(total / limit),
+			},
+		};
+	}
+
+	/**
+	 * Marks an alert as seen. The alert stays active until the sweet is
+	 * restocked; acknowledging it only removes it from the unseen count.
+	 *
+	 * @param id Identifier of the alert.
+	 * @param userId Identifier of the acknowledging admin.
+	 * @returns Promise resolving to the updated alert.
+	 */
+	async acknowledgeAlert(id: string, userId: string) {
+		const alert = await prisma.lowStockAlert.findUnique({ where: { id } });
+
+		if (!alert) {
+			throw new NotFoundError("ALERT_NOT_FOUND", "Alert not found");
+		}
+
+		if (alert.acknowledgedAt) {
+			throw new ConflictError(
+				"ALERT_ALREADY_ACKNOWLEDGED",
+				"Alert has already been acknowledged"
+			);
+		}
+
+		return prisma.lowStockAlert.update({
+			where: { id },
+			data: { acknowledgedAt: new Date(), acknowledgedById: userId },
+			include: alertInclude,
+		});
+	}
+}
@@ -0,0 +1,229 @@
+/**
+ * @file Service computing sales and inventory reports for the admin analytics dashboard.
+ */
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import {
+	AnalyticsRangeInput,
+	SalesAnalyticsInput,
+	TopSellersInput,
+} from "../types";
+
+/** Revenue and units sold for one row of a sales series. */
+interface SalesFigures {
+	/** In minor units, like order totals. */
+	revenue: number;
+	units: number;
+}
+
+export interface SalesByPeriod extends SalesFigures {
+	period: Date;
+}
+
+export interface SalesByCategory extends SalesFigures {
+	category: string;
+}
+
+export interface SalesBySweet extends SalesFigures {
+	/** Null for sweets that have since been deleted. */
+	sweetId: string | null;
+	sweetName: string;
+	category: string;
+}
+
+/** Stock movement totals for one sweet, as read from the inventory ledger. */
+interface StockMovementTotals {
+	sweetId: string;
+	sweetName: string;
+	category: string;
+	currentQuantity: number;
+	unitsSold: number;
+	unitsRestocked: number;
+	netChange: number;
+	changeAfterRange: number;
+}
+
+/** Label used for sales of sweets that no longer exist. */
+const UNCATEGORISED = "Uncategorised";
+
+/**
+ * Aggregates completed orders and the inventory ledger. Everything is summed
+ * in Postgres; only the final shaping happens here.
+ */
+export class AnalyticsService {
+	/**
+	 * Reports revenue and units sold over time, by category and by sweet.
+	 *
+	 * @param query Date range and the bucket size for the time series.
+	 * @returns Promise resolving to the totals and the three breakdowns.
+	 */
+	async getSales(query: SalesAnalyticsInput) {
+		const { interval, ...range } = query;
+		const where = this.completedOrdersWithin(range);
+
+		const [byPeriod, byCategory, bySweet, orders] = await Promise.all([
+			prisma.$queryRaw<SalesByPeriod[]>`
+				SELECT date_trunc(${interval}, o."createdAt") AS "period",
+					SUM(l."lineTotal")::float8 AS "revenue",
+					SUM(l."quantity")::int AS "units"
+				FROM "order_lines" l
+				JOIN "orders" o ON o."id" = l."orderId"
+				WHERE ${where}
+				GROUP BY 1
+				ORDER BY 1`,
+			prisma.$queryRaw<SalesByCategory[]>`
+				SELECT COALESCE(c."name", ${UNCATEGORISED}) AS "category",
+					SUM(l."lineTotal")::float8 AS "revenue",
+					SUM(l."quantity")::int AS "units"
+				FROM "order_lines" l
+				JOIN "orders" o ON o."id" = l."orderId"
+				LEFT JOIN "sweets" s ON s."id" = l."sweetId"
+				LEFT JOIN "categories" c ON c."id" = s."categoryId"
+				WHERE ${where}
+				GROUP BY 1
+				ORDER BY "revenue" DESC`,
+			this.salesBySweet(where, Prisma.sql`"revenue" DESC`),
+			prisma.order.count({ where: this.orderWhere(range) }),
+		]);
+
+		const totals = byPeriod.reduce(
+			(sum, row) => ({
+				revenue: sum.revenue + row.revenue,
+				units: sum.units + row.units,
+				orders,
+			}),
+			{ revenue: 0, units: 0, orders }
+		);
+
+		return { range, interval, totals, byPeriod, byCategory, bySweet };
+	}
+
+	/**
+	 * Lists the best-selling sweets in a date range.
+	 *
+	 * @param query Date range, number of sweets and whether to rank by units or revenue.
+	 * @returns Promise resolving to the ranked sweets.
+	 */
+	async getTopSellers(query: TopSellersInput) {
+		const { limit, metric, ...range } = query;
+		const orderBy =
+			metric === "revenue"
+				? Prisma.sql`"revenue" DESC, "units" DESC`
+				: Prisma.sql`"units" DESC, "revenue" DESC`;
+
+		const data = await this.salesBySweet(
+			this.completedOrdersWithin(range),
+			orderBy,
+			limit
+		);
+
+		return { range, metric, data };
+	}
+
+	/**
+	 * Reports how quickly each current sweet sold through its stock.
+	 * Turnover is units sold divided by the average of the opening and
+	 * closing stock for the range, both reconstructed from the ledger.
+	 *
+	 * @param range Date range to report on.
+	 * @returns Promise resolving to per-sweet turnover, fastest first.
+	 */
+	async getStockTurnover(range: AnalyticsRangeInput) {
+		const inRange = this.movementsWithin(range);
+		const afterRange = range.to
+			? Prisma.sql`m."createdAt" > ${range.to}`
+			: Prisma.sql`FALSE`;
+
+		const rows = await prisma.$queryRaw<StockMovementTotals[]>`
+			SELECT s."id" AS "sweetId",
+				s."name" AS "sweetName",
+				c."name" AS "category",
+				s."quantity" AS "currentQuantity",
+				COALESCE(-SUM(m."delta") FILTER (WHERE m."type" = 'PURCHASE' AND ${inRange}), 0)::int AS "unitsSold",
+				COALESCE(SUM(m."delta") FILTER (WHERE m."type" = 'RESTOCK' AND ${inRange}), 0)::int AS "unitsRestocked",
+				COALESCE(SUM(m."delta") FILTER (WHERE ${inRange}), 0)::int AS "netChange",
+				COALESCE(SUM(m."delta") FILTER (WHERE ${afterRange}), 0)::int AS "changeAfterRange"
+			FROM "sweets" s
+			JOIN "categories" c ON c."id" = s."categoryId"
+			LEFT JOIN "inventory_movements" m ON m."sweetId" = s."id"
+			WHERE s."deletedAt" IS NULL
+			GROUP BY s."id", c."name"`;
+
+		const data = rows
+			.map(({ netChange, changeAfterRange, ...row }) => {
+				const closingStock = row.currentQuantity - changeAfterRange;
+				const openingStock = closingStock - netChange;
+				const averageStock = (openingStock + closingStock) / 2;
+
+				return {
+					...row,
+					openingStock,
+					closingStock,
+					// Undefined when there was never any stock to turn over
+					turnover: averageStock > 0 ? row.unitsSold / averageStock : null,
+				};
+			})
+			.sort((a, b) => (b.turnover ?? -1) - (a.turnover ?? -1));
+
+		return { range, data };
+	}
+
+	/**
+	 * Sums sales per sweet. Lines of deleted sweets are grouped under the
+	 * name they were sold as.
+	 */
+	private salesBySweet(where: Prisma.Sql, orderBy: Prisma.Sql, limit?: number) {
+		const take = limit ? Prisma.sql`LIMIT ${limit}` : Prisma.empty;
+
+		return prisma.$queryRaw<SalesBySweet[]>`
+			SELECT l."sweetId",
+				COALESCE(s."name", l."sweetName") AS "sweetName",
+				COALESCE(c."name", ${UNCATEGORISED}) AS "category",
+				SUM(l."lineTotal")::float8 AS "revenue",
+				SUM(l."quantity")::int AS "units"
+			FROM "order_lines" l
+			JOIN "orders" o ON o."id" = l."orderId"
+			LEFT JOIN "sweets" s ON s."id" = l."sweetId"
+			LEFT JOIN "categories" c ON c."id" = s."categoryId"
+			WHERE ${where}
+			GROUP BY l."sweetId", 2, 3
+			ORDER BY ${orderBy}
+			${take}`;
+	}
+
+	/** SQL condition matching completed orders (aliased `o`) placed within the range. */
+	private completedOrdersWithin(range: AnalyticsRangeInput) {
+		const conditions = [Prisma.sql`o."status" = 'COMPLETED'`];
+
+		if (range.from) {
+			conditions.push(Prisma.sql`o."createdAt" >= ${range.from}`);
+		}
+		if (range.to) {
+			conditions.push(Prisma.sql`o."createdAt" <= ${range.to}`);
+		}
+
+		return Prisma.join(conditions, " AND ");
+	}
+
+	/** SQL condition matching ledger movements (aliased `m`) recorded within the range. */
+	private movementsWithin(range: AnalyticsRangeInput) {
+		const conditions = [Prisma.sql`m."id" IS NOT NULL`];
+
+		if (range.from) {
+			conditions.push(Prisma.sql`m."createdAt" >= ${range.from}`);
+		}
+		if (range.to) {
+			conditions.push(Prisma.sql`m."createdAt" <= ${range.to}`);
+		}
+
+		return Prisma.join(conditions, " AND ");
+	}
+
+	/** Prisma filter equivalent to {@link completedOrdersWithin}. */
+	private orderWhere(range: AnalyticsRangeInput): Prisma.OrderWhereInput {
+		return {
+			status: "COMPLETED",
+			createdAt: { gte: range.from, lte: range.to },
+		};
+	}
+}
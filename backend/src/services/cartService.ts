@@ -0,0 +1,256 @@
+/**
+ * @file Service encapsulating the server-side shopping cart and checkout.
+ */
+import prisma from "../config/database";
+import { NotFoundError, UnprocessableError } from "../utils/errors";
+import { DEFAULT_CURRENCY } from "../utils/money";
+import { InventoryService } from "./inventoryService";
+import { OrderService } from "./orderService";
+import { sweetWithCategory } from "./sweetService";
+import { SweetEventService } from "./sweetEventService";
+import { AddCartItemInput } from "../types";
+
+const inventoryService = new InventoryService();
+const orderService = new OrderService();
+const sweetEventService = new SweetEventService();
+
+/** A line of a past order that could not be put back in the cart in full. */
+export interface ReorderShortfall {
+	/** Null when the sweet has since been removed from the catalogue. */
+	sweetId: string | null;
+	sweetName: string;
+	requested: number;
+	/** Units added to the cart instead; zero when none were. */
+	added: number;
+	reason: "SWEET_UNAVAILABLE" | "INSUFFICIENT_STOCK";
+}
+
+/**
+ * Manages per-user cart lines and converts them into orders on checkout.
+ */
+export class CartService {
+	/**
+	 * Retrieves the user's cart lines together with the current sweet details.
+	 *
+	 * @param userId Identifier of the cart owner.
+	 * @returns Promise resolving to the cart lines and their running total
+	 * in minor units of the cart's currency.
+	 */
+	async getCart(userId: string) {
+		const items = await prisma.cartItem.findMany({
+			where: { userId },
+			include: { sweet: { include: sweetWithCategory } },
+			orderBy: { createdAt: "asc" },
+		});
+
+		const total = items.reduce(
+			(sum, item) => sum + item.sweet.price * item.quantity,
+			0
+		);
+
+		const currency = items[0]?.sweet.currency ?? DEFAULT_CURRENCY;
+
+		return { items, total, currency };
+	}
+
+	/**
+	 * Adds a sweet to the cart, increasing the quantity if it is already present.
+	 *
+	 * @param userId Identifier of the cart owner.
+	 * @param itemData Sweet identifier and quantity to add.
+	 * @returns Promise resolving to the affected cart line.
+	 */
+	async addItem(userId: string, itemData: AddCartItemInput) {
+		const sweet = await prisma.sweet.findUnique({
+			where: { id: itemData.sweetId },
+		});
+
+		if (!sweet || sweet.deletedAt) {
+			throw new NotFoundError("SWEET_NOT_FOUND", "Sweet not found");
+		}
+
+		const item = await prisma.cartItem.upsert({
+			where: { userId_sweetId: { userId, sweetId: itemData.sweetId } },
+			create: {
+				userId,
+				sweetId: itemData.sweetId,
+				quantity: itemData.quantity,
+			},
+			update: { quantity: { increment: itemData.quantity } },
+			include: { sweet: { include: sweetWithCategory } },
+		});
+
+		return item;
+	}
+
+	/**
+	 * Replaces the quantity of an existing cart line.
+	 *
+	 * @param userId Identifier of the cart owner.
+	 * @param sweetId Identifier of the sweet on the cart line.
+	 * @param quantity New quantity for the line.
+	 * @returns Promise resolving to the updated cart line.
+	 */
+	async updateItem(userId: string, sweetId: string, quantity: number) {
+		const existingItem = await prisma.cartItem.findUnique({
+			where: { userId_sweetId: { userId, sweetId } },
+		});
+
+		if (!existingItem) {
+			throw new NotFoundError("CART_ITEM_NOT_FOUND", "Cart item not found");
+		}
+
+		const item = await prisma.cartItem.update({
+			where: { id: existingItem.id },
+			data: { quantity },
+			include: { sweet: { include: sweetWithCategory } },
+		});
+
+		return item;
+	}
+
+	/**
+	 * Removes a sweet from the cart.
+	 *
+	 * @param userId Identifier of the cart owner.
+	 * @param sweetId Identifier of the sweet to remove.
+	 * @returns Promise resolving to the removed cart line.
+	 */
+	async removeItem(userId: string, sweetId: string) {
+		const existingItem = await prisma.cartItem.findUnique({
+			where: { userId_sweetId: { userId, sweetId } },
+		});
+
+		if (!existingItem) {
+			throw new NotFoundError("CART_ITEM_NOT_FOUND", "Cart item not found");
+		}
+
+		const item = await prisma.cartItem.delete({
+			where: { id: existingItem.id },
+		});
+
+		return item;
+	}
+
+	/**
+	 * Empties the user's cart.
+	 *
+	 * @param userId Identifier of the cart owner.
+	 * @returns Promise resolving to the number of removed lines.
+	 */
+	async clearCart(userId: string) {
+		const { count } = await prisma.cartItem.deleteMany({ where: { userId } });
+		return count;
+	}
+
+	/**
+	 * Adds the lines of a past order to the cart, to be bought again at
+	 * today's prices.
+	 *
+	 * Stock is checked through the inventory service first, counting what
+	 * is already in the cart. Lines with too little stock are added with
+	 * what is left, lines whose sweet is sold out or gone are skipped, and
+	 * both are reported back. Nothing is reserved until checkout.
+	 *
+	 * @param requester Identity of the caller, whose cart receives the lines.
+	 * @param orderId Identifier of the order to repeat.
+	 * @returns Promise resolving to the cart lines added to and the lines that fell short.
+	 */
+	async reorder(requester: { id: string; role: string }, orderId: string) {
+		const order = await orderService.getOrderById(orderId, requester);
+
+		const [stock, cartItems] = await Promise.all([
+			inventoryService.checkStock(
+				order.lines.flatMap(({ sweetId, quantity }) =>
+					sweetId ? [{ sweetId, quantity }] : []
+				)
+			),
+			prisma.cartItem.findMany({ where: { userId: requester.id } }),
+		]);
+		const stockById = new Map(stock.map((check) => [check.sweetId, check]));
+		const inCart = new Map(cartItems.map((item) => [item.sweetId, item.quantity]));
+
+		const items = [];
+		const shortfalls: ReorderShortfall[] = [];
+
+		for (const line of order.lines) {
+			const check = line.sweetId ? stockById.get(line.sweetId) : undefined;
+			const sweet = check?.sweet;
+			if (!check || !sweet) {
+				shortfalls.push({
+					sweetId: line.sweetId,
+					sweetName: line.sweetName,
+					requested: line.quantity,
+					added: 0,
+					reason: "SWEET_UNAVAILABLE",
+				});
+				continue;
+			}
+
+			const alreadyInCart = inCart.get(sweet.id) ?? 0;
+			const quantity = Math.min(line.quantity, Math.max(check.available - alreadyInCart, 0));
+
+			if (quantity > 0) {
+				items.push(
+					await prisma.cartItem.upsert({
+						where: { userId_sweetId: { userId: requester.id, sweetId: sweet.id } },
+						create: { userId: requester.id, sweetId: sweet.id, quantity },
+						update: { quantity: { increment: quantity } },
+						include: { sweet: { include: sweetWithCategory } },
+					})
+				);
+				inCart.set(sweet.id, alreadyInCart + quantity);
+			}
+
+			if (quantity < line.quantity) {
+				shortfalls.push({
+					sweetId: sweet.id,
+					sweetName: sweet.name,
+					requested: line.quantity,
+					added: quantity,
+					reason: "INSUFFICIENT_STOCK",
+				});
+			}
+		}
+
+		return { items, shortfalls };
+	}
+
+	/**
+	 * Purchases every line in the cart as a single order.
+	 *
+	 * Stock for all lines is reserved in one transaction; if any line is short
+	 * the whole checkout is rolled back and the cart is left untouched. The
+	 * new stock levels are announced to connected clients once committed.
+	 *
+	 * @param userId Identifier of the cart owner.
+	 * @param couponCode Coupon code entered at checkout, if any.
+	 * @returns Promise resolving to the updated sweets and the created order.
+	 */
+	async checkout(userId: string, couponCode?: string) {
+		const placed = await prisma.$transaction(async (tx) => {
+			const items = await tx.cartItem.findMany({
+				where: { userId },
+				orderBy: { createdAt: "asc" },
+			});
+
+			if (items.length === 0) {
+				throw new UnprocessableError("CART_EMPTY", "Cart is empty");
+			}
+
+			const result = await inventoryService.placeOrder(
+				tx,
+				userId,
+				items.map(({ sweetId, quantity }) => ({ sweetId, quantity })),
+				couponCode
+			);
+
+			await tx.cartItem.deleteMany({ where: { userId } });
+
+			return result;
+		});
+
+		sweetEventService.publishStockChanges(placed.sweets);
+		return placed;
+	}
+}
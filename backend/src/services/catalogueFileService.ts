@@ -0,0 +1,452 @@
+/**
+ * @file Service importing and exporting the sweet catalogue as CSV or JSON.
+ */
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import {
+	CreateSweetInput,
+	CreateSweetSchema,
+	ExportSweetsInput,
+	ImportSweetsInput,
+} from "../types";
+import { parseCsv, toCsv } from "../utils/csv";
+import { BadRequestError, UnprocessableError } from "../utils/errors";
+import { DEFAULT_CURRENCY, fromMinorUnits, minorUnitDigits, toMinorUnits } from "../utils/money";
+import { AlertService } from "./alertService";
+import { activeSweet, sweetWithCategory } from "./sweetService";
+import { InventoryMovementService } from "./inventoryMovementService";
+import { PriceHistoryService } from "./priceHistoryService";
+import { SweetEvent, SweetEventService } from "./sweetEventService";
+
+const movementService = new InventoryMovementService();
+const priceHistoryService = new PriceHistoryService();
+const alertService = new AlertService();
+const sweetEventService = new SweetEventService();
+
+/** Largest number of rows accepted in one import. */
+export const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * Columns of a catalogue file, in export order. `category` holds the slug
+ * and `price` is written in major units, e.g. `2.99`.
+ */
+const FILE_COLUMNS = [
+	"name",
+	"category",
+	"price",
+	"quantity",
+	"reorderPoint",
+	"reorderQuantity",
+] as const;
+
+/** Columns an import must provide. */
+const REQUIRED_COLUMNS = ["name", "category", "price", "quantity"];
+
+/** Sweet fields an import may change, compared when diffing. */
+const COMPARED_FIELDS = [
+	"categoryId",
+	"price",
+	"quantity",
+	"reorderPoint",
+	"reorderQuantity",
+] as const;
+
+/** One row of an import file before validation. */
+type ImportRecord = Record<string, unknown>;
+
+type ExistingSweet = Prisma.SweetGetPayload<{
+	include: { category: { select: { slug: true } } };
+}>;
+
+/** Outcome of one import row. */
+export interface ImportRowResult {
+	/** 1-based position among the file's data rows. */
+	row: number;
+	name: string;
+	action: "create" | "update" | "unchanged" | "invalid";
+	errors: string[];
+	/** Identifier of the sweet being updated. */
+	sweetId?: string;
+	/** Old and new value of every field the update changes. */
+	changes?: Record<string, { from: unknown; to: unknown }>;
+}
+
+/** A validated row together with what it will do. */
+interface PlannedRow {
+	result: ImportRowResult;
+	data?: CreateSweetInput;
+	existing?: ExistingSweet;
+}
+
+/**
+ * Reads a numeric cell. Empty cells count as missing so optional columns
+ * may be left blank; anything else that is not a number fails validation.
+ */
+const toNumber = (value: unknown) => {
+	if (typeof value !== "string") {
+		return value;
+	}
+	return value.trim() === "" ? undefined : Number(value);
+};
+
+/**
+ * Reads a price cell written in major units as minor units. Prices with
+ * more decimal places than the currency has fail validation rather than
+ * being rounded.
+ */
+const toPrice = (value: unknown, currency: string) => {
+	const amount = toNumber(value);
+	return typeof amount === "number" ? toMinorUnits(String(value), currency) : amount;
+};
+
+/**
+ * Moves sweets in and out of the catalogue in bulk. Imports upsert by
+ * sweet name and are all-or-nothing: a single invalid row stops the whole
+ * file from being written.
+ */
+export class CatalogueFileService {
+	/**
+	 * Serialises every sweet that is not archived, in name order.
+	 *
+	 * @param query Requested file format.
+	 * @returns Promise resolving to the file's text and content type.
+	 */
+	async exportCatalogue({ format }: ExportSweetsInput) {
+		const sweets = await prisma.sweet.findMany({
+			where: activeSweet,
+			include: { category: { select: { slug: true } } },
+			orderBy: { name: "asc" },
+		});
+
+		const rows = sweets.map((sweet) => ({
+			name: sweet.name,
+			category: sweet.category.slug,
+			price: fromMinorUnits(sweet.price, sweet.currency),
+			quantity: sweet.quantity,
+			reorderPoint: sweet.reorderPoint,
+			reorderQuantity: sweet.reorderQuantity,
+		}));
+
+		if (format === "json") {
+			return {
+				contentType: "application/json",
+				content: JSON.stringify(rows, null, 2),
+			};
+		}
+
+		return {
+			contentType: "text/csv",
+			content: toCsv([
+				[...FILE_COLUMNS],
+				...rows.map((row) => FILE_COLUMNS.map((column) => row[column])),
+			]),
+		};
+	}
+
+	/**
+	 * Validates a catalogue file and, unless it is a dry run, creates new
+	 * sweets and updates existing ones by name. Stock changes are written to
+	 * the inventory ledger as adjustments. A dry run reports invalid rows
+	 * alongside the rest; a real import refuses them. Once a real import
+	 * commits, each created and updated sweet is announced to connected clients.
+	 *
+	 * @param input File format, content and whether to only preview.
+	 * @param userId Identifier of the admin running the import.
+	 * @returns Promise resolving to per-row results, totals and whether anything was written.
+	 * @throws UnprocessableError carrying the report when committing a file with invalid rows.
+	 */
+	async importCatalogue(input: ImportSweetsInput, userId: string) {
+		const records = this.parseFile(input.format, input.content);
+
+		if (records.length === 0) {
+			throw new BadRequestError("INVALID_FILE", "File contains no sweets");
+		}
+		if (records.length > MAX_IMPORT_ROWS) {
+			throw new BadRequestError(
+				"INVALID_FILE",
+				`Import is limited to ${MAX_IMPORT_ROWS} sweets per file`
+			);
+		}
+
+		if (input.dryRun) {
+			const plan = await this.planImport(prisma, records);
+			return this.report(plan, false);
+		}
+
+		const { report, events } = await prisma.$transaction(
+			async (tx) => {
+				const plan = await this.planImport(tx, records);
+
+				if (plan.some(({ result }) => result.action === "invalid")) {
+					throw new UnprocessableError(
+						"IMPORT_INVALID_ROWS",
+						"Import has invalid rows; nothing was imported",
+						{ details: this.report(plan, false) }
+					);
+				}
+
+				const events: SweetEvent[] = [];
+				for (const row of plan) {
+					const event = await this.applyRow(tx, row, userId);
+					if (event) {
+						events.push(event);
+					}
+				}
+
+				return { report: this.report(plan, true), events };
+			},
+			{ timeout: 30_000 }
+		);
+
+		for (const event of events) {
+			sweetEventService.publish(event);
+		}
+		return report;
+	}
+
+	/**
+	 * Turns the file's text into one record per sweet.
+	 *
+	 * @throws BadRequestError when the file cannot be read or lacks required columns.
+	 */
+	private parseFile(format: ImportSweetsInput["format"], content: string) {
+		if (format === "json") {
+			let parsed: unknown;
+			try {
+				parsed = JSON.parse(content);
+			} catch {
+				throw new BadRequestError("INVALID_FILE", "Invalid JSON: file could not be parsed");
+			}
+
+			if (
+				!Array.isArray(parsed) ||
+				parsed.some((item) => typeof item !== "object" || item === null)
+			) {
+				throw new BadRequestError(
+					"INVALID_FILE",
+					"Invalid JSON: expected an array of sweets"
+				);
+			}
+			return parsed as ImportRecord[];
+		}
+
+		let rows: string[][];
+		try {
+			rows = parseCsv(content);
+		} catch (error: any) {
+			throw new BadRequestError("INVALID_FILE", error.message);
+		}
+
+		const [header = [], ...lines] = rows;
+		const columns = header.map((column) => column.trim());
+		const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+
+		if (missing.length > 0) {
+			throw new BadRequestError(
+				"INVALID_FILE",
+				`Invalid CSV: missing column(s) ${missing.join(", ")}`
+			);
+		}
+
+		return lines.map((cells) =>
+			Object.fromEntries(
+				columns.map((column, index) => [column, cells[index]?.trim() ?? ""])
+			)
+		);
+	}
+
+	/**
+	 * Validates every record and works out whether it creates, updates or
+	 * leaves a sweet unchanged. Names must be unique within the file and
+	 * must not differ from an existing sweet's only by letter case. Archived
+	 * sweets have to be restored before a file can update them.
+	 */
+	private async planImport(
+		client: Prisma.TransactionClient,
+		records: ImportRecord[]
+	): Promise<PlannedRow[]> {
+		const [categories, sweets] = await Promise.all([
+			client.category.findMany({ select: { id: true, slug: true } }),
+			client.sweet.findMany({
+				include: { category: { select: { slug: true } } },
+			}),
+		]);
+
+		const categoryIdBySlug = new Map(categories.map((category) => [category.slug, category.id]));
+		const slugById = new Map(categories.map((category) => [category.id, category.slug]));
+		const sweetsByName = new Map(sweets.map((sweet) => [sweet.name, sweet]));
+		const sweetsByFoldedName = new Map(
+			sweets.map((sweet) => [sweet.name.toLowerCase(), sweet])
+		);
+		const firstRowByName = new Map<string, number>();
+
+		return records.map((record, index) => {
+			const row = index + 1;
+			const name = typeof record.name === "string" ? record.name.trim() : "";
+			const errors: string[] = [];
+
+			const categorySlug = typeof record.category === "string" ? record.category.trim() : "";
+			const categoryId = categoryIdBySlug.get(categorySlug);
+			if (categorySlug && !categoryId) {
+				errors.push(`Unknown category "${categorySlug}"`);
+			}
+
+			const existing = sweetsByName.get(name);
+			const currency = existing?.currency ?? DEFAULT_CURRENCY;
+			const price = toPrice(record.price, currency);
+			if (Number.isNaN(price)) {
+				errors.push(
+					`price: Must be an amount with at most ${minorUnitDigits(currency)} decimal places`
+				);
+			}
+
+			const parsed = CreateSweetSchema.safeParse({
+				name,
+				categoryId: categoryId ?? "",
+				price,
+				quantity: toNumber(record.quantity),
+				reorderPoint: toNumber(record.reorderPoint),
+				reorderQuantity: toNumber(record.reorderQuantity),
+			});
+			if (!parsed.success) {
+				errors.push(
+					...parsed.error.errors
+						// An unknown slug or malformed price has already been reported
+						.filter((issue) => !(categorySlug && issue.path[0] === "categoryId"))
+						.filter((issue) => !(Number.isNaN(price) && issue.path[0] === "price"))
+						.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+				);
+			}
+
+			const foldedName = name.toLowerCase();
+			const firstRow = firstRowByName.get(foldedName);
+			if (name && firstRow !== undefined) {
+				errors.push(`Duplicate name; already used in row ${firstRow}`);
+			} else if (name) {
+				firstRowByName.set(foldedName, row);
+			}
+
+			const caseConflict = !existing && sweetsByFoldedName.get(foldedName);
+			if (caseConflict) {
+				errors.push(`Name conflicts with existing sweet "${caseConflict.name}"`);
+			}
+			if (existing?.deletedAt) {
+				errors.push("Sweet is archived; restore it before importing");
+			}
+
+			if (errors.length > 0 || !parsed.success) {
+				return { result: { row, name, action: "invalid", errors } };
+			}
+
+			if (!existing) {
+				return { result: { row, name, action: "create", errors }, data: parsed.data };
+			}
+
+			const changes: ImportRowResult["changes"] = {};
+			for (const field of COMPARED_FIELDS) {
+				const to = parsed.data[field];
+				if (to !== undefined && to !== existing[field]) {
+					// Report values the way the file writes them
+					changes[field] =
+						field === "categoryId"
+							? { from: existing.category.slug, to: slugById.get(to as string) }
+							: field === "price"
+								? {
+									from: fromMinorUnits(existing.price, existing.currency),
+									to: fromMinorUnits(to as number, existing.currency),
+								}
+								: { from: existing[field], to };
+				}
+			}
+
+			return {
+				result: {
+					row,
+					name,
+					action: Object.keys(changes).length > 0 ? "update" : "unchanged",
+					errors,
+					sweetId: existing.id,
+					changes,
+				},
+				data: parsed.data,
+				existing,
+			};
+		});
+	}
+
+	/**
+	 * Writes one planned row, recording stock changes on the ledger and prices
+	 * in the price history.
+	 *
+	 * @returns Promise resolving to the event announcing the write, or null
+	 * when the row left the catalogue as it was.
+	 */
+	private async applyRow(
+		tx: Prisma.TransactionClient,
+		{ result, data, existing }: PlannedRow,
+		userId: string
+	): Promise<SweetEvent | null> {
+		if (result.action === "create") {
+			const created = await tx.sweet.create({
+				data: data!,
+				include: sweetWithCategory,
+			});
+			await priceHistoryService.record(tx, {
+				sweetId: created.id,
+				price: created.price,
+				userId,
+			});
+			return { type: "sweet.created", sweet: created };
+		}
+
+		if (result.action !== "update" || !existing) {
+			return null;
+		}
+
+		const { name, ...fields } = data!;
+		const updated = await tx.sweet.update({
+			where: { id: existing.id },
+			data: fields,
+			include: sweetWithCategory,
+		});
+
+		if (updated.quantity !== existing.quantity) {
+			await movementService.record(tx, {
+				sweetId: existing.id,
+				type: "ADJUSTMENT",
+				delta: updated.quantity - existing.quantity,
+				resultingQuantity: updated.quantity,
+				userId,
+				reason: "Catalogue import",
+			});
+		}
+		if (updated.price !== existing.price) {
+			await priceHistoryService.record(tx, {
+				sweetId: existing.id,
+				price: updated.price,
+				userId,
+			});
+		}
+		await alertService.recordStockChange(tx, existing, updated);
+		return { type: "sweet.updated", sweet: updated };
+	}
+
+	/** Summarises a plan into the response returned to the client. */
+	private report(plan: PlannedRow[], committed: boolean) {
+		const rows = plan.map(({ result }) => result);
+		const count = (action: ImportRowResult["action"]) =>
+			rows.filter((row) => row.action === action).length;
+
+		return {
+			committed,
+			summary: {
+				total: rows.length,
+				create: count("create"),
+				update: count("update"),
+				unchanged: count("unchanged"),
+				invalid: count("invalid"),
+			},
+			rows,
+		};
+	}
+}
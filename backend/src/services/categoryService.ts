@@ -0,0 +1,219 @@
+/**
+ * @file Service encapsulating business logic for catalogue categories.
+ */
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import { CreateCategoryInput, UpdateCategoryInput } from "../types";
+import { ConflictError, NotFoundError, UnprocessableError } from "../utils/errors";
+
+/** Category fields embedded in sweet responses. */
+export const categorySummarySelect = {
+	id: true,
+	slug: true,
+	name: true,
+	parentId: true,
+} satisfies Prisma.CategorySelect;
+
+/**
+ * Derives a URL-safe slug from a display name, e.g. "Milk Sweets" -> "milk-sweets".
+ */
+const slugify = (name: string) =>
+	name
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-+|-+$/g, "");
+
+/**
+ * Provides CRUD operations for the category tree backed by Prisma ORM.
+ */
+export class CategoryService {
+	/**
+	 * Lists every category as a flat list in display order. Clients build
+	 * the tree from `parentId`.
+	 *
+	 * @returns Promise resolving to all categories with their sweet counts.
+	 */
+	async listCategories() {
+		return prisma.category.findMany({
+			orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+			include: { _count: { select: { sweets: true } } },
+		});
+	}
+
+	/**
+	 * Looks up a category with its parent and direct subcategories.
+	 *
+	 * @param id Unique identifier of the category.
+	 * @returns Promise resolving to the matching category.
+	 */
+	async getCategory(id: string) {
+		const category = await prisma.category.findUnique({
+			where: { id },
+			include: {
+				parent: { select: categorySummarySelect },
+				children: {
+					select: categorySummarySelect,
+					orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+				},
+				_count: { select: { sweets: true } },
+			},
+		});
+
+		if (!category) {
+			throw new NotFoundError("CATEGORY_NOT_FOUND", "Category not found");
+		}
+
+		return category;
+	}
+
+	/**
+	 * Creates a category, deriving the slug from the name when not given.
+	 *
+	 * @param data Validated input describing the category.
+	 * @returns Promise resolving to the persisted category.
+	 */
+	async createCategory(data: CreateCategoryInput) {
+		const slug = data.slug ?? slugify(data.name);
+
+		if (!slug) {
+			throw new UnprocessableError(
+				"INVALID_CATEGORY_NAME",
+				"Category name must contain letters or numbers"
+			);
+		}
+
+		await this.assertSlugAvailable(slug);
+
+		if (data.parentId) {
+			await this.assertParentExists(data.parentId);
+		}
+
+		return prisma.category.create({
+			data: { ...data, slug },
+		});
+	}
+
+	/**
+	 * Updates a category. Moving it under a new parent is rejected when the
+	 * parent is the category itself or one of its descendants.
+	 *
+	 * @param id Identifier of the category to update.
+	 * @param data Partial fields describing the new values.
+	 * @returns Promise resolving to the updated category.
+	 */
+	async updateCategory(id: string, data: UpdateCategoryInput) {
+		const existing = await prisma.category.findUnique({ where: { id } });
+
+		if (!existing) {
+			throw new NotFoundError("CATEGORY_NOT_FOUND", "Category not found");
+		}
+
+		if (data.slug && data.slug !== existing.slug) {
+			await this.assertSlugAvailable(data.slug);
+		}
+
+		if (data.parentId && data.parentId !== existing.parentId) {
+			await this.assertParentExists(data.parentId);
+
+			const subtree = await this.getSubtreeIds(id);
+			if (subtree.includes(data.parentId)) {
+				throw new UnprocessableError(
+					"CATEGORY_CYCLE",
+					"A category cannot be moved under itself or its subcategories"
+				);
+			}
+		}
+
+		return prisma.category.update({
+			where: { id },
+			data,
+		});
+	}
+
+	/**
+	 * Deletes a category that no sweet or subcategory refers to.
+	 *
+	 * @param id Identifier of the category to delete.
+	 * @returns Promise resolving to the removed category.
+	 */
+	async deleteCategory(id: string) {
+		const category = await prisma.category.findUnique({
+			where: { id },
+			include: { _count: { select: { sweets: true, children: true } } },
+		});
+
+		if (!category) {
+			throw new NotFoundError("CATEGORY_NOT_FOUND", "Category not found");
+		}
+
+		if (category._count.sweets > 0 || category._count.children > 0) {
+			throw new ConflictError(
+				"CATEGORY_IN_USE",
+				"Category still has sweets or subcategories"
+			);
+		}
+
+		return prisma.category.delete({ where: { id } });
+	}
+
+	/**
+	 * Resolves a slug to the ids of that category and all of its descendants.
+	 *
+	 * @param slug Slug of the root category.
+	 * @returns Promise resolving to the ids, or an empty list for an unknown slug.
+	 */
+	async getCategoryIdsForSlug(slug: string) {
+		const category = await prisma.category.findUnique({
+			where: { slug },
+			select: { id: true },
+		});
+
+		return category ? this.getSubtreeIds(category.id) : [];
+	}
+
+	/**
+	 * Collects a category id and the ids of everything nested below it.
+	 * The tree is small enough to load whole and walk in memory.
+	 */
+	private async getSubtreeIds(rootId: string) {
+		const categories = await prisma.category.findMany({
+			select: { id: true, parentId: true },
+		});
+
+		const childrenByParent = new Map<string, string[]>();
+		for (const { id, parentId } of categories) {
+			if (parentId) {
+				childrenByParent.set(parentId, [...(childrenByParent.get(parentId) ?? []), id]);
+			}
+		}
+
+		const ids = [rootId];
+		for (let index = 0; index < ids.length; index++) {
+			ids.push(...(childrenByParent.get(ids[index]) ?? []));
+		}
+
+		return ids;
+	}
+
+	/** Throws when another category already uses the slug. */
+	private async assertSlugAvailable(slug: string) {
+		const conflicting = await prisma.category.findUnique({ where: { slug } });
+
+		if (conflicting) {
+			throw new ConflictError("SLUG_CONFLICT", "Category with this slug already exists");
+		}
+	}
+
+	/** Throws when the proposed parent category does not exist. */
+	private async assertParentExists(parentId: string) {
+		const parent = await prisma.category.findUnique({ where: { id: parentId } });
+
+		if (!parent) {
+			throw new UnprocessableError("UNKNOWN_CATEGORY", "Parent category not found", {
+				field: "parentId",
+			});
+		}
+	}
+}
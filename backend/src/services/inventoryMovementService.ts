@@ -0,0 +1,66 @@
+/**
+ * @file Service maintaining the append-only inventory movement ledger.
+ */
+import { InventoryMovementType, Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import { PaginationInput } from "../types";
+
+/** Details of a single stock change to append to the ledger. */
+export interface MovementInput {
+	sweetId: string;
+	type: InventoryMovementType;
+	delta: number;
+	resultingQuantity: number;
+	userId?: string;
+	reason?: string;
+}
+
+/**
+ * Records and reads inventory movements. Rows are only ever inserted;
+ * there is deliberately no update or delete path.
+ */
+export class InventoryMovementService {
+	/**
+	 * Appends a movement using the caller's transaction so it commits or
+	 * rolls back together with the stock change it describes.
+	 *
+	 * @param tx Prisma transaction client performing the stock change.
+	 * @param movement Details of the stock change.
+	 * @returns Promise resolving to the persisted movement.
+	 */
+	async record(tx: Prisma.TransactionClient, movement: MovementInput) {
+		return tx.inventoryMovement.create({ data: movement });
+	}
+
+	/**
+	 * Lists movements for a sweet, newest first, one page at a time.
+	 *
+	 * @param sweetId Identifier of the sweet whose ledger is requested.
+	 * @param pagination Requested page number and size.
+	 * @returns Promise resolving to the page of movements and pagination metadata.
+	 */
+	async getMovementsForSweet(sweetId: string, pagination: PaginationInput) {
+		const { page, limit } = pagination;
+
+		const [movements, total] = await Promise.all([
+			prisma.inventoryMovement.findMany({
+				where: { sweetId },
+				include: { user: { select: { id: true, email: true, name: true } } },
+				orderBy: { createdAt: "desc" },
+				skip: (page - 1) * limit,
+				take: limit,
+			}),
+			prisma.inventoryMovement.count({ where: { sweetId } }),
+		]);
+
+		return {
+			movements,
+			pagination: {
+				page,
+				limit,
+				total,
+				totalPages: Math.ceil(total / limit),
+			},
+		};
+	}
+}
@@ -1,66 +1,341 @@
 /**
  * @file Service encapsulating inventory adjustments for sweets.
  */
+import { Prisma } from "@prisma/client";
 import prisma from "../config/database";
+import { NotFoundError, UnprocessableError } from "../utils/errors";
+import { InventoryMovementService } from "./inventoryMovementService";
+import { AlertService } from "./alertService";
+import { activeSweet, sweetWithCategory, SweetWithCategory } from "./sweetService";
+import { PromotionService } from "./promotionService";
+import { orderDetails } from "./orderService";
+import { includedTax, TaxService } from "./taxService";
+import { InvoiceService } from "./invoiceService";
+import { withStockLevels } from "../utils/stock";
+import { SweetEventService } from "./sweetEventService";
+import { ReservationService } from "./reservationService";
+
+const movementService = new InventoryMovementService();
+const alertService = new AlertService();
+const promotionService = new PromotionService();
+const taxService = new TaxService();
+const invoiceService = new InvoiceService();
+const sweetEventService = new SweetEventService();
+const reservationService = new ReservationService();
+
+/** A single sweet and quantity requested as part of an order. */
+export interface OrderItemInput {
+	sweetId: string;
+	quantity: number;
+}
+
+/**
+ * Error for a request that wants more units than are available.
+ *
+ * @param sweetId Identifier of the sweet that is short.
+ * @param available Units that could be sold; negative values read as zero.
+ * @param requested Units wanted.
+ */
+const insufficientStock = (sweetId: string, available: number, requested: number) =>
+	new UnprocessableError("INSUFFICIENT_STOCK", "Insufficient quantity available", {
+		details: { sweetId, available: Math.max(available, 0), requested },
+	});
 
 export class InventoryService {
 	/**
-	 * Decrements inventory for the specified sweet.
+	 * Decrements inventory for the specified sweet and records the sale as an order.
+	 *
+	 * The stock decrement and order creation run in a single transaction so a
+	 * sale is never recorded without its matching stock change (or vice versa).
+	 * When the buyer holds a reservation for the sweet, its units are handed
+	 * to the purchase in the same transaction; any units beyond it must be
+	 * available as usual. The new stock level is announced to connected
+	 * clients once committed.
 	 *
 	 * @param id Identifier of the sweet to purchase.
 	 * @param quantity Number of units to deduct from stock.
-	 * @returns Updated sweet record after purchase.
+	 * @param userId Identifier of the purchasing user.
+	 * @param couponCode Coupon code entered by the user, if any.
+	 * @param reservationId Identifier of the buyer's reservation, if any.
+	 * @returns Updated sweet record and the order created for the purchase.
 	 */
-	async purchaseSweet(id: string, quantity: number) {
-		if (!Number.isInteger(quantity) || quantity <= 0) {
-			throw new Error("Purchase quantity must be greater than zero");
+	async purchaseSweet(
+		id: string,
+		quantity: number,
+		userId: string,
+		couponCode?: string,
+		reservationId?: string
+	) {
+		const { sweets, order } = await prisma.$transaction(async (tx) => {
+			if (reservationId) {
+				await reservationService.claimForPurchase(tx, userId, reservationId, id);
+			}
+
+			return this.placeOrder(tx, userId, [{ sweetId: id, quantity }], couponCode);
+		});
+		sweetEventService.publishStockChanges(sweets);
+
+		return { sweet: sweets[0], order };
+	}
+
+	/**
+	 * Reports how much of each item current stock could supply, without
+	 * reserving anything. Units held by reservations are not counted, and a
+	 * sweet that has been deleted counts as out of stock.
+	 *
+	 * @param items Sweets and quantities wanted.
+	 * @returns Promise resolving to, for each item in order, the sweet (null
+	 * when it no longer exists), the units available and whether the
+	 * requested quantity can be met in full.
+	 */
+	async checkStock(items: OrderItemInput[]) {
+		const sweets = await prisma.sweet.findMany({
+			where: { id: { in: items.map((item) => item.sweetId) }, ...activeSweet },
+			include: sweetWithCategory,
+		});
+		const byId = new Map(sweets.map((sweet) => [sweet.id, sweet]));
+
+		return items.map((item) => {
+			const sweet = byId.get(item.sweetId) ?? null;
+			const available = sweet ? withStockLevels(sweet).available : 0;
+			return { ...item, sweet, available, fulfillable: available >= item.quantity };
+		});
+	}
+
+	/**
+	 * Reserves stock for every item and records them as a single order.
+	 *
+	 * Must run inside a transaction supplied by the caller: if any item is
+	 * short, the thrown error rolls back the decrements already applied.
+	 * The caller announces the new stock levels once its transaction commits.
+	 * Every decrement is written to the inventory ledger as a PURCHASE, and
+	 * raises a low-stock alert if it takes the sweet to its reorder point.
+	 * Each decrement is a conditional update (`quantity >= requested`), so
+	 * concurrent buyers can neither oversell nor overwrite each other, and
+	 * is refused if it would leave fewer units than reservations hold.
+	 * The order takes the currency of its sweets, which must all share one.
+	 * Running promotions, and the coupon if one is given, are applied to the
+	 * lines; each line stores its share of the discount and the order records
+	 * which promotions it used. Prices include GST at the rate of each sweet's
+	 * category, and the tax in every line is recorded for the order's invoice,
+	 * which is numbered in the same transaction.
+	 *
+	 * @param tx Prisma transaction client to run the writes on.
+	 * @param userId Identifier of the purchasing user.
+	 * @param items Sweets and quantities to purchase.
+	 * @param couponCode Coupon code entered by the user, if any.
+	 * @returns Updated sweet records (in item order) and the created order.
+	 */
+	async placeOrder(
+		tx: Prisma.TransactionClient,
+		userId: string,
+		items: OrderItemInput[],
+		couponCode?: string
+	) {
+		for (const item of items) {
+			if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+				throw new UnprocessableError(
+					"INVALID_QUANTITY",
+					"Purchase quantity must be greater than zero"
+				);
+			}
 		}
 
-		const sweet = await prisma.sweet.findUnique({ where: { id } });
+		// Lock rows in a stable order so concurrent multi-item orders cannot deadlock
+		const lockOrder = [...items].sort((a, b) =>
+			a.sweetId.localeCompare(b.sweetId)
+		);
+		const updatedById = new Map<string, SweetWithCategory>();
+
+		for (const item of lockOrder) {
+			const { count } = await tx.sweet.updateMany({
+				where: {
+					id: item.sweetId,
+					quantity: { gte: item.quantity },
+					...activeSweet,
+				},
+				data: { quantity: { decrement: item.quantity } },
+			});
 
-		if (!sweet) {
-			throw new Error("Sweet not found");
+			if (count === 0) {
+				const sweet = await tx.sweet.findUnique({ where: { id: item.sweetId } });
+				if (!sweet || sweet.deletedAt) {
+					throw new NotFoundError("SWEET_NOT_FOUND", "Sweet not found");
+				}
+				throw insufficientStock(sweet.id, sweet.quantity - sweet.reserved, item.quantity);
+			}
+
+			const updatedSweet = await tx.sweet.findUniqueOrThrow({
+				where: { id: item.sweetId },
+				include: sweetWithCategory,
+			});
+
+			// The decrement locked the row, so the reserved count cannot move under us
+			if (updatedSweet.quantity < updatedSweet.reserved) {
+				throw insufficientStock(
+					updatedSweet.id,
+					updatedSweet.quantity + item.quantity - updatedSweet.reserved,
+					item.quantity
+				);
+			}
+			updatedById.set(item.sweetId, updatedSweet);
 		}
 
-		if (sweet.quantity < quantity) {
-			throw new Error("Insufficient quantity available");
+		// Totals are only meaningful within one currency
+		const currencies = new Set(items.map((item) => updatedById.get(item.sweetId)!.currency));
+		if (currencies.size > 1) {
+			throw new UnprocessableError(
+				"CURRENCY_MISMATCH",
+				"Sweets priced in different currencies cannot be bought together",
+				{ details: { currencies: [...currencies] } }
+			);
 		}
+		const [currency] = currencies;
+
+		const { lineDiscounts, promotions } = await promotionService.priceOrder(
+			tx,
+			userId,
+			currency,
+			items.map((item) => {
+				const sweet = updatedById.get(item.sweetId)!;
+				return {
+					sweetId: sweet.id,
+					categoryId: sweet.categoryId,
+					unitPrice: sweet.price,
+					quantity: item.quantity,
+				};
+			}),
+			couponCode
+		);
+
+		const taxRates = await taxService.ratesFor(
+			tx,
+			items.map((item) => updatedById.get(item.sweetId)!.categoryId)
+		);
+
+		// Snapshot name, price and tax rate so later catalogue edits do not rewrite history
+		const lines = items.map((item, i) => {
+			const sweet = updatedById.get(item.sweetId)!;
+			const lineTotal = sweet.price * item.quantity - lineDiscounts[i];
+			const taxRate = taxRates.get(sweet.categoryId) ?? 0;
+			return {
+				sweetId: sweet.id,
+				sweetName: sweet.name,
+				unitPrice: sweet.price,
+				quantity: item.quantity,
+				discount: lineDiscounts[i],
+				lineTotal,
+				taxRate,
+				tax: includedTax(lineTotal, taxRate),
+			};
+		});
 
-		const updatedSweet = await prisma.sweet.update({
-			where: { id },
+		const order = await tx.order.create({
 			data: {
-				quantity: sweet.quantity - quantity,
+				userId,
+				total: lines.reduce((sum, line) => sum + line.lineTotal, 0),
+				discount: lines.reduce((sum, line) => sum + line.discount, 0),
+				tax: lines.reduce((sum, line) => sum + line.tax, 0),
+				currency,
+				invoiceNumber: await invoiceService.nextInvoiceNumber(tx),
+				lines: { create: lines },
+				redemptions: {
+					create: promotions.map((promotion) => ({
+						promotionId: promotion.promotionId,
+						promotionName: promotion.name,
+						code: promotion.code,
+						userId,
+						discount: promotion.discount,
+					})),
+				},
 			},
+			include: orderDetails,
 		});
 
-		return updatedSweet;
+		for (const item of items) {
+			const sweet = updatedById.get(item.sweetId)!;
+
+			await movementService.record(tx, {
+				sweetId: item.sweetId,
+				type: "PURCHASE",
+				delta: -item.quantity,
+				resultingQuantity: sweet.quantity,
+				userId,
+				reason: `Order ${order.id}`,
+			});
+			await alertService.recordStockChange(
+				tx,
+				{ ...sweet, quantity: sweet.quantity + item.quantity },
+				sweet
+			);
+		}
+
+		return {
+			sweets: items.map((item) => updatedById.get(item.sweetId)!),
+			order,
+		};
 	}
 
 	/**
 	 * Increases inventory for the specified sweet.
 	 *
+	 * Uses an atomic increment so concurrent restocks and purchases never
+	 * lose each other's changes, and records the change as a RESTOCK movement.
+	 * Resolves the sweet's low-stock alert once stock is back above its
+	 * reorder point. The new stock level is announced to connected clients.
+	 *
 	 * @param id Identifier of the sweet to restock.
 	 * @param quantity Number of units to add to stock.
+	 * @param userId Identifier of the user performing the restock.
+	 * @param reason Optional note stored on the inventory ledger.
 	 * @returns Updated sweet record after restock.
 	 */
-	async restockSweet(id: string, quantity: number) {
+	async restockSweet(
+		id: string,
+		quantity: number,
+		userId: string,
+		reason?: string
+	) {
 		if (!Number.isInteger(quantity) || quantity <= 0) {
-			throw new Error("Restock quantity must be greater than zero");
+			throw new UnprocessableError(
+				"INVALID_QUANTITY",
+				"Restock quantity must be greater than zero"
+			);
 		}
 
-		const sweet = await prisma.sweet.findUnique({ where: { id } });
+		const restockedSweet = await prisma.$transaction(async (tx) => {
+			const { count } = await tx.sweet.updateMany({
+				where: { id, ...activeSweet },
+				data: { quantity: { increment: quantity } },
+			});
 
-		if (!sweet) {
-			throw new Error("Sweet not found");
-		}
+			if (count === 0) {
+				throw new NotFoundError("SWEET_NOT_FOUND", "Sweet not found");
+			}
 
-		const updatedSweet = await prisma.sweet.update({
-			where: { id },
-			data: {
-				quantity: sweet.quantity + quantity,
-			},
+			const updatedSweet = await tx.sweet.findUniqueOrThrow({
+				where: { id },
+				include: sweetWithCategory,
+			});
+
+			await movementService.record(tx, {
+				sweetId: id,
+				type: "RESTOCK",
+				delta: quantity,
+				resultingQuantity: updatedSweet.quantity,
+				userId,
+				reason,
+			});
+			await alertService.recordStockChange(
+				tx,
+				{ ...updatedSweet, quantity: updatedSweet.quantity - quantity },
+				updatedSweet
+			);
+
+			return updatedSweet;
 		});
 
-		return updatedSweet;
+		sweetEventService.publishStockChanges([restockedSweet]);
+		return restockedSweet;
 	}
 }
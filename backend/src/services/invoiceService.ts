@@ -0,0 +1,388 @@
+/**
+ * @file Service numbering orders' invoices and rendering them as HTML or PDF.
+ */
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import { INVOICE_NUMBER_PREFIX, INVOICE_SELLER } from "../config/invoice";
+import { OrderService } from "./orderService";
+import { fromMinorUnits } from "../utils/money";
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument } from "../utils/pdf";
+
+const orderService = new OrderService();
+
+/** Name of the counter invoice numbers are drawn from. */
+const INVOICE_COUNTER = "invoice";
+
+/** One row of an invoice's tax summary: everything sold at one rate. */
+export interface InvoiceTaxRow {
+	/** In basis points. */
+	rate: number;
+	taxable: number;
+	/** Central and state halves of the tax, as printed for intra-state sales. */
+	cgst: number;
+	sgst: number;
+	tax: number;
+}
+
+/** Everything printed on an invoice; amounts are in minor units of `currency`. */
+export interface Invoice {
+	number: string;
+	orderId: string;
+	issuedAt: Date;
+	status: string;
+	currency: string;
+	seller: typeof INVOICE_SELLER;
+	buyer: { name: string | null; email: string };
+	lines: Array<{
+		description: string;
+		quantity: number;
+		unitPrice: number;
+		discount: number;
+		taxRate: number;
+		tax: number;
+		total: number;
+	}>;
+	promotions: Array<{ name: string; code: string | null; discount: number }>;
+	taxes: InvoiceTaxRow[];
+	subtotal: number;
+	discount: number;
+	tax: number;
+	total: number;
+}
+
+/**
+ * Formats a stored invoice number for printing, e.g. 42 as `INV-000042`.
+ *
+ * @param number Sequential invoice number.
+ * @returns The printed invoice number.
+ */
+export const formatInvoiceNumber = (number: number) =>
+	`${INVOICE_NUMBER_PREFIX}${String(number).padStart(6, "0")}`;
+
+/** Writes a tax rate in basis points as a percentage, e.g. 1800 as `18%`. */
+const formatRate = (rate: number) => `${rate / 100}%`;
+
+/** Writes an amount with its currency symbol for HTML, e.g. ₹1,180.00. */
+const formatAmount = (amount: number, currency: string) =>
+	new Intl.NumberFormat("en-IN", { style: "currency", currency }).format(
+		Number(fromMinorUnits(amount, currency))
+	);
+
+/** Escapes text for inclusion in HTML. */
+const escapeHtml = (text: string) =>
+	text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Groups an invoice's lines by tax rate and splits each rate's tax into
+ * equal central and state parts, with any odd minor unit going to CGST.
+ */
+const summarizeTaxes = (lines: Invoice["lines"]): InvoiceTaxRow[] => {
+	const byRate = new Map<number, { taxable: number; tax: number }>();
+	for (const line of lines) {
+		const row = byRate.get(line.taxRate) ?? { taxable: 0, tax: 0 };
+		row.taxable += line.total - line.tax;
+		row.tax += line.tax;
+		byRate.set(line.taxRate, row);
+	}
+
+	return [...byRate.entries()]
+		.sort(([a], [b]) => a - b)
+		.map(([rate, { taxable, tax }]) => {
+			const cgst = Math.ceil(tax / 2);
+			return { rate, taxable, cgst, sgst: tax - cgst, tax };
+		});
+};
+
+/**
+ * Issues invoice numbers and renders the invoice for an order. Every order
+ * gets its invoice number when it is placed, so invoices can be rendered
+ * again at any time and always show the same document.
+ */
+export class InvoiceService {
+	/**
+	 * Takes the next invoice number. Must run in the transaction that creates
+	 * the order: the counter row stays locked until it commits, and a rollback
+	 * returns the number, so invoice numbers have no gaps.
+	 *
+	 * @param tx Prisma transaction client creating the order.
+	 * @returns Promise resolving to the invoice number for the new order.
+	 */
+	async nextInvoiceNumber(tx: Prisma.TransactionClient) {
+		const counter = await tx.counter.upsert({
+			where: { name: INVOICE_COUNTER },
+			create: { name: INVOICE_COUNTER, value: 1 },
+			update: { value: { increment: 1 } },
+		});
+
+		return counter.value;
+	}
+
+	/**
+	 * Collects what an order's invoice shows.
+	 *
+	 * @param orderId Identifier of the order.
+	 * @param requester Identity of the caller; only the buyer and staff with `order:view-all` may see it.
+	 * @returns Promise resolving to the invoice contents.
+	 */
+	async getInvoice(orderId: string, requester: { id: string; role: string }): Promise<Invoice> {
+		const order = await orderService.getOrderById(orderId, requester);
+		const buyer = await prisma.user.findUnique({
+			where: { id: order.userId },
+			select: { name: true, email: true },
+		});
+
+		const lines = order.lines.map((line) => ({
+			description: line.sweetName,
+			quantity: line.quantity,
+			unitPrice: line.unitPrice,
+			discount: line.discount,
+			taxRate: line.taxRate,
+			tax: line.tax,
+			total: line.lineTotal,
+		}));
+
+		return {
+			number: formatInvoiceNumber(order.invoiceNumber),
+			orderId: order.id,
+			issuedAt: order.createdAt,
+			status: order.status,
+			currency: order.currency,
+			seller: INVOICE_SELLER,
+			buyer: buyer ?? { name: null, email: "" },
+			lines,
+			promotions: order.redemptions.map(({ promotionName, code, discount }) => ({
+				name: promotionName,
+				code,
+				discount,
+			})),
+			taxes: summarizeTaxes(lines),
+			subtotal: order.total + order.discount,
+			discount: order.discount,
+			tax: order.tax,
+			total: order.total,
+		};
+	}
+
+	/**
+	 * Renders an invoice as a standalone HTML page, styled for printing.
+	 *
+	 * @param invoice Invoice contents.
+	 * @returns The HTML document.
+	 */
+	renderHtml(invoice: Invoice) {
+		const money = (amount: number) => formatAmount(amount, invoice.currency);
+		const { seller, buyer } = invoice;
+
+		const lineRows = invoice.lines
+			.map(
+				(line) => `
+				<tr>
+					<td>${escapeHtml(line.description)}</td>
+					<td class="num">${line.quantity}</td>
+					<td class="num">${money(line.unitPrice)}</td>
+					<td class="num">${line.discount ? `-${money(line.discount)}` : "&ndash;"}</td>
+					<td class="num">${formatRate(line.taxRate)}</td>
+					<td class="num">${money(line.total)}</td>
+				</tr>`
+			)
+			.join("");
+		const taxRows = invoice.taxes
+			.map(
+				(row) => `
+				<tr>
+					<td>${formatRate(row.rate)}</td>
+					<td class="num">${money(row.taxable)}</td>
+					<td class="num">${money(row.cgst)}</td>
+					<td class="num">${money(row.sgst)}</td>
+					<td class="num">${money(row.tax)}</td>
+				</tr>`
+			)
+			.join("");
+		const promotionRows = invoice.promotions
+			.map(
+				(promotion) => `
+				<tr><th>${escapeHtml(promotion.name)}${promotion.code ? ` (${escapeHtml(promotion.code)})` : ""}</th><td class="num">-${money(promotion.discount)}</td></tr>`
+			)
+			.join("");
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="utf-8">
+	<title>Invoice ${escapeHtml(invoice.number)}</title>
+	<style>
+		body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2937; max-width: 800px; margin: 2rem auto; padding: 0 1rem; font-size: 14px; }
+		h1 { font-size: 1.5rem; margin: 0; }
+		header, .parties { display: flex; justify-content: space-between; gap: 2rem; margin-bottom: 1.5rem; }
+		.muted { color: #6b7280; }
+		.cancelled { color: #b91c1c; font-weight: 600; }
+		table { width: 100%; border-collapse: collapse; margin-bottom: 1.5rem; }
+		th, td { padding: 0.4rem 0.5rem; text-align: left; border-bottom: 1px solid #e5e7eb; }
+		thead th { background: #f9fafb; font-weight: 600; }
+		.num { text-align: right; white-space: nowrap; }
+		.totals { width: auto; margin-left: auto; min-width: 280px; }
+		.totals tr:last-child { font-weight: 700; font-size: 1.1em; }
+		@media print { body { margin: 0; } }
+	</style>
+</head>
+<body>
+	<header>
+		<div>
+			<h1>Tax Invoice</h1>
+			${invoice.status === "CANCELLED" ? '<p class="cancelled">Cancelled</p>' : ""}
+		</div>
+		<div class="num">
+			<div><strong>${escapeHtml(invoice.number)}</strong></div>
+			<div class="muted">${invoice.issuedAt.toLocaleDateString("en-IN", { dateStyle: "long" })}</div>
+			<div class="muted">Order ${escapeHtml(invoice.orderId)}</div>
+		</div>
+	</header>
+	<section class="parties">
+		<div>
+			<strong>${escapeHtml(seller.name)}</strong>
+			${seller.address.map((line) => `<div>${escapeHtml(line)}</div>`).join("")}
+			${seller.gstin ? `<div>GSTIN: ${escapeHtml(seller.gstin)}</div>` : ""}
+		</div>
+		<div class="num">
+			<div class="muted">Billed to</div>
+			${buyer.name ? `<strong>${escapeHtml(buyer.name)}</strong>` : ""}
+			<div>${escapeHtml(buyer.email)}</div>
+		</div>
+	</section>
+	<table>
+		<thead>
+			<tr><th>Item</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Discount</th><th class="num">GST</th><th class="num">Amount</th></tr>
+		</thead>
+		<tbody>${lineRows}
+		</tbody>
+	</table>
+	<table class="totals">
+		<tr><th>Subtotal</th><td class="num">${money(invoice.subtotal)}</td></tr>${promotionRows}
+		<tr><th>Taxable value</th><td class="num">${money(invoice.total - invoice.tax)}</td></tr>
+		<tr><th>GST</th><td class="num">${money(invoice.tax)}</td></tr>
+		<tr><th>Total</th><td class="num">${money(invoice.total)}</td></tr>
+	</table>
+	<table>
+		<thead>
+			<tr><th>GST rate</th><th class="num">Taxable value</th><th class="num">CGST</th><th class="num">SGST</th><th class="num">Total tax</th></tr>
+		</thead>
+		<tbody>${taxRows}
+		</tbody>
+	</table>
+	<p class="muted">Prices include GST.</p>
+</body>
+</html>
+`;
+	}
+
+	/**
+	 * Renders an invoice as a printable A4 PDF, continuing long orders onto
+	 * further pages.
+	 *
+	 * @param invoice Invoice contents.
+	 * @returns The PDF file contents.
+	 */
+	renderPdf(invoice: Invoice) {
+		const pdf = new PdfDocument();
+		const money = (amount: number) => fromMinorUnits(amount, invoice.currency);
+		const left = 40;
+		const right = PAGE_WIDTH - 40;
+		const bottom = PAGE_HEIGHT - 60;
+		const columns = { quantity: 300, unitPrice: 370, discount: 435, rate: 480, total: right };
+		let y = 60;
+
+		/** Moves down a row, starting a new page when the current one is full. */
+		const advance = (height: number, onNewPage?: () => void) => {
+			y += height;
+			if (y > bottom) {
+				pdf.addPage();
+				y = 60;
+				onNewPage?.();
+			}
+		};
+
+		const lineHeader = () => {
+			pdf.text("Item", left, y, { font: "bold" });
+			pdf.text("Qty", columns.quantity, y, { font: "bold", align: "right" });
+			pdf.text("Unit price", columns.unitPrice, y, { font: "bold", align: "right" });
+			pdf.text("Discount", columns.discount, y, { font: "bold", align: "right" });
+			pdf.text("GST", columns.rate, y, { font: "bold", align: "right" });
+			pdf.text(`Amount (${invoice.currency})`, columns.total, y, { font: "bold", align: "right" });
+			pdf.line(left, y + 5, right, y + 5);
+			y += 18;
+		};
+
+		pdf.text("TAX INVOICE", left, y, { size: 18, font: "bold" });
+		pdf.text(invoice.number, right, y, { size: 12, font: "bold", align: "right" });
+		if (invoice.status === "CANCELLED") {
+			pdf.text("CANCELLED", left, y + 18, { font: "bold" });
+		}
+		pdf.text(invoice.issuedAt.toISOString().slice(0, 10), right, y + 16, { align: "right" });
+		pdf.text(`Order ${invoice.orderId}`, right, y + 30, { size: 8, align: "right" });
+		y += 60;
+
+		const sellerLines = [...invoice.seller.address, ...(invoice.seller.gstin ? [`GSTIN: ${invoice.seller.gstin}`] : [])];
+		pdf.text(invoice.seller.name, left, y, { font: "bold" });
+		sellerLines.forEach((line, i) => pdf.text(line, left, y + 14 * (i + 1)));
+		pdf.text("Billed to", right, y, { size: 8, align: "right" });
+		const buyerLines = [invoice.buyer.name, invoice.buyer.email].filter((line): line is string => !!line);
+		buyerLines.forEach((line, i) => pdf.text(line, right, y + 14 * (i + 1), { align: "right" }));
+		y += 14 * (Math.max(sellerLines.length, buyerLines.length) + 1) + 20;
+
+		lineHeader();
+		for (const line of invoice.lines) {
+			const description = line.description.length > 45 ? `${line.description.slice(0, 44)}...` : line.description;
+			pdf.text(description, left, y);
+			pdf.text(String(line.quantity), columns.quantity, y, { align: "right" });
+			pdf.text(money(line.unitPrice), columns.unitPrice, y, { align: "right" });
+			pdf.text(line.discount ? `-${money(line.discount)}` : "-", columns.discount, y, { align: "right" });
+			pdf.text(formatRate(line.taxRate), columns.rate, y, { align: "right" });
+			pdf.text(money(line.total), columns.total, y, { align: "right" });
+			advance(16, lineHeader);
+		}
+		pdf.line(left, y - 11, right, y - 11);
+
+		const totals: Array<[string, string]> = [
+			["Subtotal", money(invoice.subtotal)],
+			...invoice.promotions.map((promotion): [string, string] => [
+				promotion.code ? `${promotion.name} (${promotion.code})` : promotion.name,
+				`-${money(promotion.discount)}`,
+			]),
+			["Taxable value", money(invoice.total - invoice.tax)],
+			["GST", money(invoice.tax)],
+		];
+		advance(6);
+		for (const [label, amount] of totals) {
+			pdf.text(label, columns.discount, y, { align: "right" });
+			pdf.text(amount, right, y, { align: "right" });
+			advance(14);
+		}
+		pdf.text(`Total (${invoice.currency})`, columns.discount, y, { font: "bold", align: "right" });
+		pdf.text(money(invoice.total), right, y, { font: "bold", align: "right" });
+		advance(36);
+
+		const taxHeader = () => {
+			pdf.text("GST rate", left, y, { font: "bold" });
+			pdf.text("Taxable value", 250, y, { font: "bold", align: "right" });
+			pdf.text("CGST", 350, y, { font: "bold", align: "right" });
+			pdf.text("SGST", 450, y, { font: "bold", align: "right" });
+			pdf.text("Total tax", right, y, { font: "bold", align: "right" });
+			pdf.line(left, y + 5, right, y + 5);
+			y += 18;
+		};
+		taxHeader();
+		for (const row of invoice.taxes) {
+			pdf.text(formatRate(row.rate), left, y);
+			pdf.text(money(row.taxable), 250, y, { align: "right" });
+			pdf.text(money(row.cgst), 350, y, { align: "right" });
+			pdf.text(money(row.sgst), 450, y, { align: "right" });
+			pdf.text(money(row.tax), right, y, { align: "right" });
+			advance(16, taxHeader);
+		}
+
+		advance(10);
+		pdf.text("Prices include GST.", left, y, { size: 8 });
+
+		return pdf.toBuffer();
+	}
+}
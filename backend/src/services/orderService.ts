@@ -0,0 +1,85 @@
+/**
+ * @file Service encapsulating read access to purchase orders.
+ */
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import { hasPermission } from "../config/permissions";
+import { NotFoundError } from "../utils/errors";
+import { ListOrdersInput } from "../types";
+
+/** Relations included whenever an order is returned to clients. */
+export const orderDetails = {
+	lines: true,
+	redemptions: {
+		select: { promotionId: true, promotionName: true, code: true, discount: true },
+	},
+} satisfies Prisma.OrderInclude;
+
+/**
+ * Provides order history lookups scoped to the requesting user.
+ */
+export class OrderService {
+	/**
+	 * Lists the orders placed by a user, newest first.
+	 *
+	 * @param userId Identifier of the user whose orders are requested.
+	 * @param query Optional status and date range filters and the requested page.
+	 * @returns Promise resolving to the page of orders with their lines and promotions, and pagination metadata.
+	 */
+	async getOrdersForUser(userId: string, query: ListOrdersInput) {
+		const { page, limit, status, from, to } = query;
+		const where: Prisma.OrderWhereInput = { userId };
+		if (status) {
+			where.status = status;
+		}
+		if (from || to) {
+			where.createdAt = { gte: from, lte: to };
+		}
+
+		const [orders, total] = await Promise.all([
+			prisma.order.findMany({
+				where,
+				include: orderDetails,
+				orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+				skip: (page - 1) * limit,
+				take: limit,
+			}),
+			prisma.order.count({ where }),
+		]);
+
+		return {
+			orders,
+			pagination: {
+				page,
+				limit,
+				total,
+				totalPages: Math.ceil(total / limit),
+			},
+		};
+	}
+
+	/**
+	 * Retrieves a single order, hiding orders that belong to other users.
+	 *
+	 * @param id Identifier of the order.
+	 * @param requester Identity of the caller; staff with `order:view-all` may view any order.
+	 * @returns Promise resolving to the matching order with its lines and promotions.
+	 */
+	async getOrderById(id: string, requester: { id: string; role: string }) {
+		const order = await prisma.order.findUnique({
+			where: { id },
+			include: orderDetails,
+		});
+
+		// Report foreign orders as missing so order IDs cannot be probed
+		if (
+			!order ||
+			(order.userId !== requester.id &&
+				!hasPermission(requester.role, "order:view-all"))
+		) {
+			throw new NotFoundError("ORDER_NOT_FOUND", "Order not found");
+		}
+
+		return order;
+	}
+}
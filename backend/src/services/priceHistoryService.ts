@@ -0,0 +1,204 @@
+/**
+ * @file Service recording sweet prices over time and applying scheduled price changes.
+ */
+import { Prisma } from "@prisma/client";
+import prisma from "../config/database";
+import { NotFoundError } from "../utils/errors";
+import { SchedulePriceInput } from "../types";
+import { activeSweet, sweetWithCategory } from "./sweetQueries";
+import { SweetEventService } from "./sweetEventService";
+
+const sweetEventService = new SweetEventService();
+
+/** Details of a price that takes effect immediately. */
+export interface PriceChangeInput {
+	sweetId: string;
+	price: number;
+	userId?: string;
+}
+
+/**
+ * Records and reads sweet prices. Each row is the price a sweet had from
+ * `effectiveFrom`; a row without `appliedAt` or `supersededAt` is a
+ * scheduled change that has not taken effect yet.
+ */
+export class PriceHistoryService {
+	/**
+	 * Appends a price that took effect just now, using the caller's
+	 * transaction so it commits or rolls back with the price change itself.
+	 *
+	 * @param tx Prisma transaction client performing the price change.
+	 * @param change The sweet, its new price and who set it.
+	 * @returns Promise resolving to the persisted history row.
+	 */
+	async record(tx: Prisma.TransactionClient, change: PriceChangeInput) {
+		const now = new Date();
+		return tx.priceHistory.create({
+			data: { ...change, effectiveFrom: now, appliedAt: now },
+		});
+	}
+
+	/**
+	 * Lists a sweet's past, current and scheduled prices, latest effective
+	 * date first.
+	 *
+	 * @param sweetId Identifier of the sweet.
+	 * @returns Promise resolving to the sweet's price history.
+	 */
+	async listPrices(sweetId: string) {
+		await this.assertSweetExists(sweetId);
+
+		return prisma.priceHistory.findMany({
+			where: { sweetId },
+			include: { user: { select: { id: true, email: true, name: true } } },
+			orderBy: [{ effectiveFrom: "desc" }, { createdAt: "desc" }],
+		});
+	}
+
+	/**
+	 * Lists the prices a sweet has sold at, latest first, for the public
+	 * catalogue. Scheduled changes and who made each change are left out.
+	 *
+	 * @param sweetId Identifier of the sweet.
+	 * @returns Promise resolving to the sweet's applied prices.
+	 */
+	async listAppliedPrices(sweetId: string) {
+		await this.assertSweetExists(sweetId);
+
+		return prisma.priceHistory.findMany({
+			where: { sweetId, appliedAt: { not: null } },
+			select: {
+				id: true,
+				sweetId: true,
+				price: true,
+				effectiveFrom: true,
+				appliedAt: true,
+				createdAt: true,
+			},
+			orderBy: [{ effectiveFrom: "desc" }, { createdAt: "desc" }],
+		});
+	}
+
+	/**
+	 * Schedules a price to take effect at a future time. The price is
+	 * applied by {@link applyDuePrices} once that time has passed.
+	 *
+	 * @param sweetId Identifier of the sweet.
+	 * @param change The future price and when it takes effect.
+	 * @param userId Identifier of the user scheduling the change.
+	 * @returns Promise resolving to the scheduled history row.
+	 */
+	async schedulePrice(sweetId: string, change: SchedulePriceInput, userId: string) {
+		await this.assertSweetExists(sweetId);
+
+		return prisma.priceHistory.create({
+			data: { sweetId, ...change, userId },
+			include: { user: { select: { id: true, email: true, name: true } } },
+		});
+	}
+
+	/**
+	 * Cancels a scheduled price change. Changes that already took effect
+	 * are history and cannot be removed.
+	 *
+	 * @param sweetId Identifier of the sweet.
+	 * @param priceId Identifier of the scheduled change.
+	 */
+	async cancelScheduledPrice(sweetId: string, priceId: string) {
+		const scheduled = await prisma.priceHistory.findFirst({
+			where: { id: priceId, sweetId, appliedAt: null, supersededAt: null },
+		});
+
+		if (!scheduled) {
+			throw new NotFoundError(
+				"PRICE_CHANGE_NOT_FOUND",
+				"Scheduled price change not found"
+			);
+		}
+
+		await prisma.priceHistory.delete({ where: { id: priceId } });
+	}
+
+	/**
+	 * Applies every scheduled price whose effective time has passed. When
+	 * several are due for one sweet, the latest is applied and the earlier
+	 * ones are marked superseded, since they never took effect. Changes to
+	 * archived sweets wait until the sweet is restored.
+	 *
+	 * Rows are claimed with conditional updates, so concurrent runs never
+	 * apply the same change twice. Each repriced sweet is announced to
+	 * connected clients once its change commits.
+	 *
+	 * @param now Time to treat as the present.
+	 * @returns Promise resolving to the number of sweets whose price changed.
+	 */
+	async applyDuePrices(now: Date = new Date()) {
+		const due = await prisma.priceHistory.findMany({
+			where: {
+				appliedAt: null,
+				supersededAt: null,
+				effectiveFrom: { lte: now },
+				sweet: activeSweet,
+			},
+			orderBy: [{ effectiveFrom: "asc" }, { createdAt: "asc" }],
+		});
+
+		const dueBySweet = new Map<string, typeof due>();
+		for (const change of due) {
+			dueBySweet.set(change.sweetId, [...(dueBySweet.get(change.sweetId) ?? []), change]);
+		}
+		let applied = 0;
+
+		for (const changes of dueBySweet.values()) {
+			const latest = changes[changes.length - 1];
+			const overridden = changes.slice(0, -1).map((change) => change.id);
+
+			const claimed = await prisma.$transaction(async (tx) => {
+				const { count } = await tx.priceHistory.updateMany({
+					where: { id: latest.id, appliedAt: null, supersededAt: null },
+					data: { appliedAt: now },
+				});
+
+				if (count === 0) {
+					return null;
+				}
+
+				if (overridden.length > 0) {
+					await tx.priceHistory.updateMany({
+						where: { id: { in: overridden }, appliedAt: null, supersededAt: null },
+						data: { supersededAt: now },
+					});
+				}
+
+				return tx.sweet.update({
+					where: { id: latest.sweetId },
+					data: { price: latest.price },
+					include: sweetWithCategory,
+				});
+			});
+
+			if (claimed) {
+				sweetEventService.publish({ type: "sweet.updated", sweet: claimed });
+				applied++;
+			}
+		}
+
+		return applied;
+	}
+
+	/**
+	 * Ensures the sweet exists and has not been archived.
+	 *
+	 * @param sweetId Identifier of the sweet.
+	 */
+	private async assertSweetExists(sweetId: string) {
+		const sweet = await prisma.sweet.findFirst({
+			where: { id: sweetId, deletedAt: null },
+			select: { id: true },
+		});
+
+		if (!sweet) {
+			throw new NotFoundError("SWEET_NOT_FOUND", "Sweet not found");
+		}
+	}
+}
@@ -0,0 +1,581 @@
+/**
+ * @file Service managing promotions and pricing orders with them.
+ */
+import { Prisma, Promotion } from "@prisma/client";
+import prisma from "../config/database";
+import {
+	ConflictError,
+	NotFoundError,
+	UnprocessableError,
+} from "../utils/errors";
+import {
+	CreatePromotionInput,
+	CreatePromotionSchema,
+	QuotePromotionsInput,
+	UpdatePromotionInput,
+} from "../types";
+import { activeSweet } from "./sweetService";
+import { categorySummarySelect } from "./categoryService";
+
+/** An order line before discounts. */
+export interface PricedLine {
+	sweetId: string;
+	/** The sweet's category followed by its ancestors. */
+	categoryIds: string[];
+	unitPrice: number;
+	quantity: number;
+}
+
+/** A promotion applied to an order and the discount it gave. */
+export interface AppliedPromotion {
+	promotionId: string;
+	name: string;
+	code: string | null;
+	discount: number;
+}
+
+/** Discounts for an order: one amount per line and the promotions behind them. */
+export interface PricingResult {
+	lineDiscounts: number[];
+	promotions: AppliedPromotion[];
+}
+
+/** Relations included whenever a promotion is returned to staff. */
+const promotionDetails = {
+	sweet: { select: { id: true, name: true } },
+	category: { select: categorySummarySelect },
+	_count: { select: { redemptions: true } },
+} satisfies Prisma.PromotionInclude;
+
+/** Coupon codes are stored upper case and matched case-insensitively. */
+const normalizeCode = (code: string) => code.trim().toUpperCase();
+
+const sum = (amounts: number[]) => amounts.reduce((total, amount) => total + amount, 0);
+
+/**
+ * Splits an amount across weights in proportion, handing the minor units
+ * lost to rounding down to the earliest lines so the parts add up exactly.
+ */
+const allocate = (amount: number, weights: number[]) => {
+	const totalWeight = sum(weights);
+	if (amount <= 0 || totalWeight <= 0) {
+		return weights.map(() => 0);
+	}
+
+	const shares = weights.map((weight) => Math.floor((amount * weight) / totalWeight));
+	let leftover = amount - sum(shares);
+	for (let i = 0; leftover > 0 && i < shares.length; i++) {
+		if (weights[i] > 0) {
+			shares[i]++;
+			leftover--;
+		}
+	}
+	return shares;
+};
+
+/**
+ * Checks whether a promotion covers a line: its sweet, its category or an
+ * ancestor of it, or any line when the promotion has no scope.
+ */
+const inScope = (promotion: Promotion, line: PricedLine) => {
+	if (promotion.sweetId) return promotion.sweetId === line.sweetId;
+	if (promotion.categoryId) return line.categoryIds.includes(promotion.categoryId);
+	return true;
+};
+
+/**
+ * Works out one promotion's discount on each line. Only in-scope lines
+ * with something left to pay take part, and no line is discounted by more
+ * than it has left.
+ *
+ * - PERCENTAGE takes `value` percent off each line.
+ * - FIXED_AMOUNT takes `value` off the lines together, split by amount.
+ * - MULTI_BUY makes `freeQuantity` of every `buyQuantity + freeQuantity`
+ *   units free, cheapest units first, mixing sweets within the scope.
+ * - BUNDLE sells every `buyQuantity` units for `value`, bundling the
+ *   dearest units first, and only when that is cheaper.
+ *
+ * @param promotion Promotion to evaluate.
+ * @param lines Order lines before discounts.
+ * @param remaining Amount still payable on each line.
+ * @param currency Currency of the order; amounts in another currency do not apply.
+ * @returns Discount per line, in minor units.
+ */
+export const discountLines = (
+	promotion: Promotion,
+	lines: PricedLine[],
+	remaining: number[],
+	currency: string
+) => {
+	const eligible = lines.map((line, i) => remaining[i] > 0 && inScope(promotion, line));
+	const discounts = lines.map(() => 0);
+	const usesAmount = promotion.type === "FIXED_AMOUNT" || promotion.type === "BUNDLE";
+
+	if (!eligible.some(Boolean) || (usesAmount && promotion.currency !== currency)) {
+		return discounts;
+	}
+
+	const units = sum(lines.map((line, i) => (eligible[i] ? line.quantity : 0)));
+	// Line indexes from the cheapest unit price to the dearest
+	const byPrice = lines
+		.map((_, i) => i)
+		.filter((i) => eligible[i])
+		.sort((a, b) => lines[a].unitPrice - lines[b].unitPrice);
+
+	switch (promotion.type) {
+		case "PERCENTAGE":
+			byPrice.forEach((i) => {
+				discounts[i] = Math.round((remaining[i] * promotion.value) / 100);
+			});
+			break;
+
+		case "FIXED_AMOUNT": {
+			const payable = lines.map((_, i) => (eligible[i] ? remaining[i] : 0));
+			allocate(Math.min(promotion.value, sum(payable)), payable).forEach((share, i) => {
+				discounts[i] = share;
+			});
+			break;
+		}
+
+		case "MULTI_BUY": {
+			const dealSize = (promotion.buyQuantity ?? 0) + (promotion.freeQuantity ?? 0);
+			let free = dealSize > 0 ? Math.floor(units / dealSize) * (promotion.freeQuantity ?? 0) : 0;
+			for (const i of byPrice) {
+				const take = Math.min(lines[i].quantity, free);
+				discounts[i] = take * lines[i].unitPrice;
+				free -= take;
+			}
+			break;
+		}
+
+		case "BUNDLE": {
+			const bundleSize = promotion.buyQuantity ?? 0;
+			const bundles = bundleSize > 0 ? Math.floor(units / bundleSize) : 0;
+			let toBundle = bundles * bundleSize;
+			const bundledValue = lines.map(() => 0);
+			for (const i of [...byPrice].reverse()) {
+				const take = Math.min(lines[i].quantity, toBundle);
+				bundledValue[i] = take * lines[i].unitPrice;
+				toBundle -= take;
+			}
+			const saving = sum(bundledValue) - bundles * promotion.value;
+			allocate(saving, bundledValue).forEach((share, i) => {
+				discounts[i] = share;
+			});
+			break;
+		}
+	}
+
+	return discounts.map((discount, i) => Math.min(Math.max(discount, 0), remaining[i]));
+};
+
+/**
+ * Applies promotions to an order's lines.
+ *
+ * Automatic promotions do not stack: the one saving the most is applied
+ * first and takes every line in its scope, then the best of the rest is
+ * applied to the lines still free, and so on. A coupon is applied last, on
+ * top of any automatic discounts, and must save something.
+ *
+ * @param lines Order lines before discounts.
+ * @param currency Currency of the order.
+ * @param automatic Promotions without a code that the shopper may use.
+ * @param coupon Promotion for the code the shopper entered, if any.
+ * @returns Discount per line and the promotions applied.
+ */
+export const priceLines = (
+	lines: PricedLine[],
+	currency: string,
+	automatic: Promotion[],
+	coupon: Promotion | null = null
+): PricingResult => {
+	const remaining = lines.map((line) => line.unitPrice * line.quantity);
+	const claimed = lines.map(() => false);
+	const lineDiscounts = lines.map(() => 0);
+	const promotions: AppliedPromotion[] = [];
+
+	const apply = (promotion: Promotion, discounts: number[]) => {
+		discounts.forEach((discount, i) => {
+			remaining[i] -= discount;
+			lineDiscounts[i] += discount;
+		});
+		promotions.push({
+			promotionId: promotion.id,
+			name: promotion.name,
+			code: promotion.code,
+			discount: sum(discounts),
+		});
+	};
+
+	const candidates = [...automatic];
+	while (candidates.length > 0) {
+		const unclaimed = remaining.map((amount, i) => (claimed[i] ? 0 : amount));
+		const [best] = candidates
+			.map((promotion) => {
+				const discounts = discountLines(promotion, lines, unclaimed, currency);
+				return { promotion, discounts, total: sum(discounts) };
+			})
+			.sort((a, b) => b.total - a.total);
+
+		if (best.total === 0) {
+			break;
+		}
+
+		apply(best.promotion, best.discounts);
+		lines.forEach((line, i) => {
+			if (unclaimed[i] > 0 && inScope(best.promotion, line)) {
+				claimed[i] = true;
+			}
+		});
+		candidates.splice(candidates.indexOf(best.promotion), 1);
+	}
+
+	if (coupon) {
+		const discounts = discountLines(coupon, lines, remaining, currency);
+		if (sum(discounts) === 0) {
+			throw new UnprocessableError(
+				"INVALID_COUPON",
+				"This coupon does not apply to these sweets",
+				{ field: "couponCode" }
+			);
+		}
+		apply(coupon, discounts);
+	}
+
+	return { lineDiscounts, promotions };
+};
+
+/**
+ * Manages promotions and works out the discounts they give an order.
+ */
+export class PromotionService {
+	/**
+	 * Lists every promotion, newest first, with its scope and redemption count.
+	 *
+	 * @returns Promise resolving to the promotions.
+	 */
+	async listPromotions() {
+		return prisma.promotion.findMany({
+			include: promotionDetails,
+			orderBy: { createdAt: "desc" },
+		});
+	}
+
+	/**
+	 * Creates a promotion after checking its code is free and its scope exists.
+	 *
+	 * @param data Validated promotion fields.
+	 * @returns Promise resolving to the created promotion.
+	 */
+	async createPromotion(data: CreatePromotionInput) {
+		const promotion = { ...data, code: data.code ? normalizeCode(data.code) : data.code };
+		await this.assertValidReferences(promotion);
+
+		return prisma.promotion.create({
+			data: promotion,
+			include: promotionDetails,
+		});
+	}
+
+	/**
+	 * Updates a promotion. The result must still satisfy the rules for its
+	 * type, so e.g. switching to MULTI_BUY needs the quantities too.
+	 *
+	 * @param id Identifier of the promotion.
+	 * @param data Fields to change.
+	 * @returns Promise resolving to the updated promotion.
+	 */
+	async updatePromotion(id: string, data: UpdatePromotionInput) {
+		const existing = await prisma.promotion.findUnique({ where: { id } });
+		if (!existing) {
+			throw new NotFoundError("PROMOTION_NOT_FOUND", "Promotion not found");
+		}
+
+		// Unknown keys such as the timestamps are stripped by the schema
+		CreatePromotionSchema.parse({ ...existing, ...data });
+		const changes = { ...data, code: data.code ? normalizeCode(data.code) : data.code };
+		await this.assertValidReferences(changes, id);
+
+		return prisma.promotion.update({
+			where: { id },
+			data: changes,
+			include: promotionDetails,
+		});
+	}
+
+	/**
+	 * Deletes a promotion. Orders keep the name and discount of promotions
+	 * they used, so past orders are unaffected.
+	 *
+	 * @param id Identifier of the promotion.
+	 */
+	async deletePromotion(id: string) {
+		const { count } = await prisma.promotion.deleteMany({ where: { id } });
+		if (count === 0) {
+			throw new NotFoundError("PROMOTION_NOT_FOUND", "Promotion not found");
+		}
+	}
+
+	/**
+	 * Prices items with the promotions the user would get, without buying
+	 * them, so the shopper can see the discount before confirming.
+	 *
+	 * @param userId Identifier of the shopper.
+	 * @param input Sweets and quantities, plus an optional coupon code.
+	 * @returns Promise resolving to the priced lines and totals.
+	 */
+	async quote(userId: string, { items, couponCode }: QuotePromotionsInput) {
+		const sweets = await prisma.sweet.findMany({
+			where: { id: { in: items.map((item) => item.sweetId) }, ...activeSweet },
+		});
+		const sweetById = new Map(sweets.map((sweet) => [sweet.id, sweet]));
+
+		const lines = items.map((item) => {
+			const sweet = sweetById.get(item.sweetId);
+			if (!sweet) {
+				throw new NotFoundError("SWEET_NOT_FOUND", "Sweet not found");
+			}
+			return {
+				sweetId: sweet.id,
+				sweetName: sweet.name,
+				categoryId: sweet.categoryId,
+				unitPrice: sweet.price,
+				quantity: item.quantity,
+			};
+		});
+
+		const currencies = new Set(sweets.map((sweet) => sweet.currency));
+		if (currencies.size > 1) {
+			throw new UnprocessableError(
+				"CURRENCY_MISMATCH",
+				"Sweets priced in different currencies cannot be bought together",
+				{ details: { currencies: [...currencies] } }
+			);
+		}
+		const [currency] = currencies;
+
+		const { lineDiscounts, promotions } = await this.priceOrder(
+			prisma,
+			userId,
+			currency,
+			lines,
+			couponCode
+		);
+		const pricedLines = lines.map(({ categoryId: _categoryId, ...line }, i) => ({
+			...line,
+			discount: lineDiscounts[i],
+			lineTotal: line.unitPrice * line.quantity - lineDiscounts[i],
+		}));
+		const subtotal = sum(lines.map((line) => line.unitPrice * line.quantity));
+		const discount = sum(lineDiscounts);
+
+		return {
+			currency,
+			lines: pricedLines,
+			promotions,
+			subtotal,
+			discount,
+			total: subtotal - discount,
+		};
+	}
+
+	/**
+	 * Works out the discounts for an order from the promotions running now.
+	 * Promotions the user has used up to their per-user limit are left out;
+	 * a coupon that cannot be used is reported as an `INVALID_COUPON` error.
+	 *
+	 * @param client Prisma client or the transaction placing the order.
+	 * @param userId Identifier of the shopper.
+	 * @param currency Currency of the order.
+	 * @param lines Sweets, their categories, unit prices and quantities.
+	 * @param couponCode Code the shopper entered, if any.
+	 * @returns Promise resolving to the discount per line and the promotions applied.
+	 */
+	async priceOrder(
+		client: Prisma.TransactionClient,
+		userId: string,
+		currency: string,
+		lines: Array<Omit<PricedLine, "categoryIds"> & { categoryId: string }>,
+		couponCode?: string
+	) {
+		const now = new Date();
+		const running: Prisma.PromotionWhereInput = {
+			isActive: true,
+			AND: [
+				{ OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
+				{ OR: [{ endsAt: null }, { endsAt: { gt: now } }] },
+			],
+		};
+
+		const automatic = await client.promotion.findMany({
+			where: { ...running, code: null },
+		});
+		const coupon = couponCode
+			? await this.findCoupon(client, normalizeCode(couponCode), now)
+			: null;
+
+		const usage = await this.countRedemptions(
+			client,
+			userId,
+			[...automatic, ...(coupon ? [coupon] : [])]
+		);
+		const available = (promotion: Promotion) =>
+			promotion.perUserLimit === null ||
+			(usage.get(promotion.id) ?? 0) < promotion.perUserLimit;
+
+		if (coupon && !available(coupon)) {
+			throw new UnprocessableError(
+				"INVALID_COUPON",
+				"You have already used this coupon the maximum number of times",
+				{ field: "couponCode" }
+			);
+		}
+
+		const ancestors = await this.categoryAncestors(
+			client,
+			[...automatic, ...(coupon ? [coupon] : [])]
+		);
+
+		return priceLines(
+			lines.map(({ categoryId, ...line }) => ({
+				...line,
+				categoryIds: ancestors(categoryId),
+			})),
+			currency,
+			automatic.filter(available),
+			coupon
+		);
+	}
+
+	/**
+	 * Looks up a coupon that can be used now.
+	 *
+	 * @param client Prisma client or transaction.
+	 * @param code Normalized coupon code.
+	 * @param now Time to check the validity window against.
+	 * @returns Promise resolving to the coupon's promotion.
+	 */
+	private async findCoupon(client: Prisma.TransactionClient, code: string, now: Date) {
+		const coupon = await client.promotion.findUnique({ where: { code } });
+
+		const invalid = (message: string) =>
+			new UnprocessableError("INVALID_COUPON", message, { field: "couponCode" });
+
+		if (!coupon || !coupon.isActive) {
+			throw invalid("Coupon code not recognised");
+		}
+		if (coupon.startsAt && coupon.startsAt > now) {
+			throw invalid("This coupon is not valid yet");
+		}
+		if (coupon.endsAt && coupon.endsAt <= now) {
+			throw invalid("This coupon has expired");
+		}
+		return coupon;
+	}
+
+	/**
+	 * Counts the user's orders that used each limited promotion.
+	 *
+	 * The promotions' rows are locked first and stay locked until the order
+	 * commits, so two checkouts by the same shopper cannot both count the
+	 * redemptions before either records its own.
+	 *
+	 * @returns Promise resolving to redemption counts by promotion id.
+	 */
+	private async countRedemptions(
+		client: Prisma.TransactionClient,
+		userId: string,
+		promotions: Promotion[]
+	) {
+		const limited = promotions.filter((promotion) => promotion.perUserLimit !== null);
+		if (limited.length === 0) {
+			return new Map<string, number>();
+		}
+
+		// Locked in id order so checkouts sharing promotions cannot deadlock
+		await client.$queryRaw`
+			SELECT "id" FROM "promotions"
+			WHERE "id" IN (${Prisma.join(limited.map((promotion) => promotion.id))})
+			ORDER BY "id"
+			FOR UPDATE`;
+
+		const counts = await client.promotionRedemption.groupBy({
+			by: ["promotionId"],
+			where: { userId, promotionId: { in: limited.map((promotion) => promotion.id) } },
+			_count: { _all: true },
+		});
+		return new Map(counts.map((row) => [row.promotionId!, row._count._all]));
+	}
+
+	/**
+	 * Builds a lookup from a category to itself and its ancestors, so a
+	 * promotion on a category also covers sweets in its subcategories. The
+	 * category tree is only read when a promotion is scoped to a category.
+	 *
+	 * @returns Promise resolving to the lookup function.
+	 */
+	private async categoryAncestors(client: Prisma.TransactionClient, promotions: Promotion[]) {
+		if (!promotions.some((promotion) => promotion.categoryId)) {
+			return (categoryId: string) => [categoryId];
+		}
+
+		const categories = await client.category.findMany({
+			select: { id: true, parentId: true },
+		});
+		const parentOf = new Map(categories.map((category) => [category.id, category.parentId]));
+
+		return (categoryId: string) => {
+			const chain: string[] = [];
+			for (let id: string | null | undefined = categoryId; id && !chain.includes(id); id = parentOf.get(id)) {
+				chain.push(id);
+			}
+			return chain;
+		};
+	}
+
+	/**
+	 * Ensures a promotion's code is not taken by another promotion and that
+	 * the sweet or category it is scoped to exists.
+	 *
+	 * @param promotion Promotion fields after normalizing the code.
+	 * @param id Identifier of the promotion being updated, if any.
+	 */
+	private async assertValidReferences(
+		promotion: Pick<CreatePromotionInput, "code" | "sweetId" | "categoryId">,
+		id?: string
+	) {
+		if (promotion.code) {
+			const holder = await prisma.promotion.findUnique({
+				where: { code: promotion.code },
+			});
+			if (holder && holder.id !== id) {
+				throw new ConflictError("CODE_CONFLICT", "Another promotion uses this code", {
+					field: "code",
+				});
+			}
+		}
+
+		if (promotion.sweetId) {
+			const sweet = await prisma.sweet.findFirst({
+				where: { id: promotion.sweetId, ...activeSweet },
+				select: { id: true },
+			});
+			if (!sweet) {
+				throw new NotFoundError("SWEET_NOT_FOUND", "Sweet not found", {
+					field: "sweetId",
+				});
+			}
+		}
+
+		if (promotion.categoryId) {
+			const category = await prisma.category.findUnique({
+				where: { id: promotion.categoryId },
+			});
+			if (!category) {
+				throw new UnprocessableError("UNKNOWN_CATEGORY", "Category not found", {
+					field: "categoryId",
+				});
+			}
+		}
+	}
+}
@@ -0,0 +1,205 @@
+/**
+ * @file Service holding stock for shoppers while they confirm a purchase.
+ */
+import { Prisma, StockReservation } from "@prisma/client";
+import prisma from "../config/database";
+import { RESERVATION_TTL_MS } from "../config/reservation";
+import { NotFoundError, UnprocessableError } from "../utils/errors";
+import { activeSweet, sweetWithCategory } from "./sweetService";
+import { SweetEventService } from "./sweetEventService";
+import { ReserveStockInput } from "../types";
+
+const sweetEventService = new SweetEventService();
+
+/**
+ * Holds units of a sweet for a shopper so nobody else can buy them before
+ * the shopper confirms.
+ *
+ * Held units are added to the sweet's `reserved` count, which purchases
+ * leave alone. A reservation ends when it is bought, released by the
+ * shopper or swept after it expires; each of these claims the row with a
+ * conditional delete, so its units go back to stock exactly once.
+ */
+export class ReservationService {
+	/**
+	 * Holds units of a sweet for the shopper until the reservation expires.
+	 * Any hold the shopper already has on the sweet is replaced, so changing
+	 * the quantity moves one hold rather than stacking several.
+	 *
+	 * The units are taken with an atomic increment of `reserved`, which
+	 * locks the sweet's row; the hold is refused if the sweet then has more
+	 * units reserved than on hand. The new available stock is announced to
+	 * connected clients once committed.
+	 *
+	 * @param userId Identifier of the shopper.
+	 * @param input Sweet and number of units to hold.
+	 * @returns Promise resolving to the reservation and the sweet after the hold.
+	 */
+	async reserve(userId: string, { sweetId, quantity }: ReserveStockInput) {
+		const result = await prisma.$transaction(async (tx) => {
+			const previous = await tx.stockReservation.findMany({
+				where: { userId, sweetId },
+			});
+			for (const reservation of previous) {
+				await this.releaseHeld(tx, reservation);
+			}
+
+			const { count } = await tx.sweet.updateMany({
+				where: { id: sweetId, ...activeSweet },
+				data: { reserved: { increment: quantity } },
+			});
+
+			if (count === 0) {
+				throw new NotFoundError("SWEET_NOT_FOUND", "Sweet not found");
+			}
+
+			const sweet = await tx.sweet.findUniqueOrThrow({
+				where: { id: sweetId },
+				include: sweetWithCategory,
+			});
+
+			if (sweet.reserved > sweet.quantity) {
+				throw new UnprocessableError(
+					"INSUFFICIENT_STOCK",
+					"Insufficient quantity available",
+					{
+						details: {
+							sweetId,
+							available: Math.max(sweet.quantity - sweet.reserved + quantity, 0),
+							requested: quantity,
+						},
+					}
+				);
+			}
+
+			const reservation = await tx.stockReservation.create({
+				data: {
+					userId,
+					sweetId,
+					quantity,
+					expiresAt: new Date(Date.now() + RESERVATION_TTL_MS),
+				},
+			});
+
+			return { reservation, sweet };
+		});
+
+		sweetEventService.publishStockChanges([result.sweet]);
+		return result;
+	}
+
+	/**
+	 * Gives a shopper's held units back to stock before the reservation
+	 * expires, e.g. when they close the purchase dialog.
+	 *
+	 * @param userId Identifier of the shopper.
+	 * @param reservationId Identifier of the reservation.
+	 * @returns Promise resolving to the sweet after the release.
+	 */
+	async release(userId: string, reservationId: string) {
+		const sweet = await prisma.$transaction(async (tx) => {
+			const reservation = await tx.stockReservation.findFirst({
+				where: { id: reservationId, userId },
+			});
+			const released = reservation && (await this.releaseHeld(tx, reservation));
+
+			if (!released) {
+				throw new NotFoundError("RESERVATION_NOT_FOUND", "Reservation not found");
+			}
+
+			return released;
+		});
+
+		sweetEventService.publishStockChanges([sweet]);
+		return sweet;
+	}
+
+	/**
+	 * Turns a reservation back into available stock so the purchase running
+	 * in the same transaction can take its units. An expired reservation is
+	 * refused even if the sweeper has not yet released it.
+	 *
+	 * @param tx Prisma transaction client the purchase runs on.
+	 * @param userId Identifier of the purchasing shopper.
+	 * @param reservationId Identifier of the reservation.
+	 * @param sweetId Identifier of the sweet being bought, which the reservation must hold.
+	 */
+	async claimForPurchase(
+		tx: Prisma.TransactionClient,
+		userId: string,
+		reservationId: string,
+		sweetId: string
+	) {
+		const reservation = await tx.stockReservation.findFirst({
+			where: { id: reservationId, userId, sweetId },
+		});
+
+		if (reservation && reservation.expiresAt <= new Date()) {
+			throw new UnprocessableError("RESERVATION_EXPIRED", "Reservation has expired", {
+				field: "reservationId",
+			});
+		}
+
+		if (!reservation || !(await this.releaseHeld(tx, reservation))) {
+			throw new NotFoundError("RESERVATION_NOT_FOUND", "Reservation not found", {
+				field: "reservationId",
+			});
+		}
+	}
+
+	/**
+	 * Releases every reservation whose expiry time has passed and announces
+	 * the freed stock. Reservations bought or released meanwhile are skipped.
+	 *
+	 * @param now Time to treat as the present.
+	 * @returns Promise resolving to the number of reservations released.
+	 */
+	async releaseExpired(now: Date = new Date()) {
+		const expired = await prisma.stockReservation.findMany({
+			where: { expiresAt: { lte: now } },
+			orderBy: { expiresAt: "asc" },
+		});
+		let released = 0;
+
+		for (const reservation of expired) {
+			const sweet = await prisma.$transaction((tx) =>
+				this.releaseHeld(tx, reservation)
+			);
+
+			if (sweet) {
+				sweetEventService.publishStockChanges([sweet]);
+				released++;
+			}
+		}
+
+		return released;
+	}
+
+	/**
+	 * Deletes a reservation and takes its units off the sweet's reserved
+	 * count, unless another caller already ended it.
+	 *
+	 * @param tx Prisma transaction client to run the writes on.
+	 * @param reservation Reservation to end.
+	 * @returns Promise resolving to the sweet after the release, or null when
+	 * the reservation was already gone.
+	 */
+	private async releaseHeld(
+		tx: Prisma.TransactionClient,
+		reservation: StockReservation
+	) {
+		const { count } = await tx.stockReservation.deleteMany({
+			where: { id: reservation.id },
+		});
+
+		if (count === 0) {
+			return null;
+		}
+
+		return tx.sweet.update({
+			where: { id: reservation.sweetId },
+			data: { reserved: { decrement: reservation.quantity } },
+			include: sweetWithCategory,
+		});
+	}
+}
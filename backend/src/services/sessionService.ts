@@ -0,0 +1,174 @@
+/**
+ * @file Service managing refresh-token sessions and their revocation.
+ */
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { generateToken } from '../utils/auth';
+import { UnauthorizedError } from '../utils/errors';
+
+/** Refresh tokens, and so idle sessions, expire after seven days. */
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Identity embedded in every access token. */
+export interface SessionUser {
+    id: string;
+    email: string;
+    role: string;
+}
+
+const createRefreshToken = (): string => crypto.randomBytes(48).toString('base64url');
+
+const hashRefreshToken = (token: string): string =>
+    crypto.createHash('sha256').update(token).digest('hex');
+
+const refreshTokenExpiry = (): Date => new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
+
+/**
+ * Issues, rotates, and revokes sessions. Each session pairs a short-lived
+ * access token (carrying the session id as `sid`) with a refresh token.
+ */
+export class SessionService {
+    /**
+     * Opens a session for a freshly authenticated user.
+     *
+     * @param user Identity to embed in the access token.
+     * @returns Promise resolving to the access token and refresh token.
+     */
+    async createSession(user: SessionUser) {
+        const refreshToken = createRefreshToken();
+
+        const session = await prisma.session.create({
+            data: {
+                userId: user.id,
+                refreshTokenHash: hashRefreshToken(refreshToken),
+                expiresAt: refreshTokenExpiry(),
+            },
+        });
+
+        return {
+            token: this.issueAccessToken(user, session.id),
+            refreshToken,
+        };
+    }
+
+    /**
+     * Exchanges a refresh token for a new access token and a new refresh
+     * token. The presented token stops working immediately.
+     *
+     * @param refreshToken Refresh token issued by login or a previous refresh.
+     * @returns Promise resolving to the new access token and refresh token.
+     */
+    async refreshSession(refreshToken: string) {
+        const refreshTokenHash = hashRefreshToken(refreshToken);
+
+        const session = await prisma.session.findUnique({
+            where: { refreshTokenHash },
+            include: { user: { select: { id: true, email: true, role: true, isActive: true } } },
+        });
+
+        if (
+            !session ||
+            session.revokedAt ||
+            session.expiresAt <= new Date() ||
+            !session.user.isActive
+        ) {
+            throw new UnauthorizedError('INVALID_REFRESH_TOKEN', 'Invalid refresh token');
+        }
+
+        const nextRefreshToken = createRefreshToken();
+
+        // Conditional on the old hash so two concurrent refreshes with the
+        // same token cannot both succeed
+        const { count } = await prisma.session.updateMany({
+            where: { id: session.id, refreshTokenHash, revokedAt: null },
+            data: {
+                refreshTokenHash: hashRefreshToken(nextRefreshToken),
+                expiresAt: refreshTokenExpiry(),
+            },
+        });
+
+        if (count === 0) {
+            throw new UnauthorizedError('INVALID_REFRESH_TOKEN', 'Invalid refresh token');
+        }
+
+        return {
+            token: this.issueAccessToken(session.user, session.id),
+            refreshToken: nextRefreshToken,
+        };
+    }
+
+    /**
+     * Revokes a session so its access and refresh tokens are rejected.
+     *
+     * @param sessionId Identifier of the session to end.
+     */
+    async revokeSession(sessionId: string) {
+        await prisma.session.updateMany({
+            where: { id: sessionId, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+    }
+
+    /**
+     * Revokes every open session of a user, e.g. on deactivation or a forced
+     * password reset.
+     *
+     * @param tx Prisma transaction client making the account change.
+     * @param userId Identifier of the user whose sessions should end.
+     */
+    async revokeAllSessions(tx: Prisma.TransactionClient, userId: string) {
+        await tx.session.updateMany({
+            where: { userId, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+    }
+
+    /**
+     * Loads the current state of the user behind a session, provided the
+     * session is neither revoked nor expired.
+     *
+     * @param sessionId Identifier taken from an access token's `sid` claim.
+     * @returns Promise resolving to the user, or `null` when the session may not be used.
+     */
+    async findActiveSessionUser(sessionId: string) {
+        const session = await prisma.session.findUnique({
+            where: { id: sessionId },
+            select: {
+                revokedAt: true,
+                expiresAt: true,
+                user: {
+                    select: {
+                        id: true,
+                        email: true,
+                        role: true,
+                        isActive: true,
+                        passwordResetRequired: true,
+                    },
+                },
+            },
+        });
+
+        if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+            return null;
+        }
+
+        return session.user;
+    }
+
+    /**
+     * Signs an access token bound to the given session.
+     *
+     * @param user Identity to embed in the token.
+     * @param sessionId Session the token belongs to.
+     * @returns Signed JWT string.
+     */
+    private issueAccessToken(user: SessionUser, sessionId: string) {
+        return generateToken({
+            id: user.id,
+            email: user.email,
+            role: user.role,
+            sid: sessionId,
+        });
+    }
+}
@@ -0,0 +1,68 @@
+/**
+ * @file In-process broadcaster for catalogue and stock changes pushed to clients.
+ */
+import { EventEmitter } from "events";
+import type { SweetWithCategory } from "./sweetQueries";
+import { withStockLevels } from "../utils/stock";
+
+/**
+ * A change to the catalogue. Stock changes carry only the new on-hand
+ * quantity and the units available to buy; the other events carry the
+ * sweet as loaded for clients.
+ */
+export type SweetEvent =
+	| { type: "sweet.created"; sweet: SweetWithCategory }
+	| { type: "sweet.updated"; sweet: SweetWithCategory }
+	| { type: "sweet.deleted"; sweetId: string }
+	| { type: "stock.changed"; sweetId: string; quantity: number; available: number };
+
+export type SweetEventListener = (event: SweetEvent) => void;
+
+/** Shared by every instance so publishers and subscribers meet. */
+const emitter = new EventEmitter();
+// One listener per open stream; Node's default cap of 10 would warn
+emitter.setMaxListeners(0);
+
+/**
+ * Fans catalogue changes out to subscribers such as open event streams.
+ *
+ * Events are delivered within this process only. Publishers call it after
+ * their transaction commits, so subscribers never see a change that was
+ * rolled back.
+ */
+export class SweetEventService {
+	/**
+	 * Sends an event to every current subscriber.
+	 *
+	 * @param event The change to announce.
+	 */
+	publish(event: SweetEvent) {
+		emitter.emit("event", event);
+	}
+
+	/**
+	 * Announces the stock level of each sweet after a sale, restock or
+	 * change in the units held by reservations.
+	 *
+	 * @param sweets Sweets with their quantity and reserved units after the change.
+	 */
+	publishStockChanges(sweets: Array<{ id: string; quantity: number; reserved: number }>) {
+		for (const sweet of sweets) {
+			const { onHand, available } = withStockLevels(sweet);
+			this.publish({ type: "stock.changed", sweetId: sweet.id, quantity: onHand, available });
+		}
+	}
+
+	/**
+	 * Registers a listener for every future event.
+	 *
+	 * @param listener Called with each event as it is published.
+	 * @returns Function that removes the listener.
+	 */
+	subscribe(listener: SweetEventListener) {
+		emitter.on("event", listener);
+		return () => {
+			emitter.off("event", listener);
+		};
+	}
+}
@@ -0,0 +1,280 @@
+/**
+ * @file Service managing product images: validation, thumbnails, storage and ordering.
+ */
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import prisma from "../config/database";
+import storage from "../config/storage";
+import { BadRequestError, NotFoundError } from "../utils/errors";
+import { activeSweet, sweetImageSelect } from "./sweetService";
+
+/** Edge length of the square thumbnails shown on catalogue cards, in pixels. */
+export const THUMBNAIL_SIZE = 320;
+
+/** Decoded formats accepted as images, mapped to their MIME type and extension. */
+const IMAGE_FORMATS: Record<string, { contentType: string; extension: string }> = {
+	jpeg: { contentType: "image/jpeg", extension: "jpg" },
+	png: { contentType: "image/png", extension: "png" },
+	webp: { contentType: "image/webp", extension: "webp" },
+};
+
+/** An uploaded file as buffered by the upload middleware. */
+export interface ImageUpload {
+	originalname: string;
+	buffer: Buffer;
+}
+
+/**
+ * Stores product images and keeps each sweet's gallery ordered with a
+ * single primary image.
+ */
+export class SweetImageService {
+	/**
+	 * Lists a sweet's images in display order.
+	 *
+	 * @param sweetId Identifier of the sweet.
+	 * @returns Promise resolving to the sweet's images.
+	 */
+	async listImages(sweetId: string) {
+		return prisma.sweetImage.findMany({
+			where: { sweetId },
+			select: sweetImageSelect,
+			orderBy: { position: "asc" },
+		});
+	}
+
+	/**
+	 * Validates and stores uploaded images after the sweet's existing ones,
+	 * generating a thumbnail for each. The file contents are decoded, so a
+	 * file is accepted only if it really is a JPEG, PNG or WebP image. The
+	 * first image of a sweet becomes its primary image.
+	 *
+	 * @param sweetId Identifier of the sweet the images belong to.
+	 * @param files Uploaded files, in the order they should be shown.
+	 * @returns Promise resolving to the sweet's images after the upload.
+	 */
+	async addImages(sweetId: string, files: ImageUpload[]) {
+		if (files.length === 0) {
+			throw new BadRequestError("INVALID_FILE", "No images were uploaded", {
+				field: "images",
+			});
+		}
+
+		await this.assertSweetExists(sweetId);
+		const prepared = await Promise.all(
+			files.map((file) => this.prepare(sweetId, file))
+		);
+
+		const savedKeys: string[] = [];
+		try {
+			for (const image of prepared) {
+				await storage.save(image.key, image.data, image.contentType);
+				savedKeys.push(image.key);
+				await storage.save(image.thumbnailKey, image.thumbnail, "image/webp");
+				savedKeys.push(image.thumbnailKey);
+			}
+
+			await prisma.$transaction(async (tx) => {
+				const existing = await tx.sweetImage.findMany({
+					where: { sweetId },
+					select: { position: true, isPrimary: true },
+				});
+				const nextPosition =
+					existing.reduce((max, { position }) => Math.max(max, position), -1) + 1;
+				const hasPrimary = existing.some(({ isPrimary }) => isPrimary);
+
+				await tx.sweetImage.createMany({
+					data: prepared.map((image, index) => ({
+						sweetId,
+						storageKey: image.key,
+						thumbnailKey: image.thumbnailKey,
+						url: storage.urlFor(image.key),
+						thumbnailUrl: storage.urlFor(image.thumbnailKey),
+						contentType: image.contentType,
+						size: image.data.length,
+						width: image.width,
+						height: image.height,
+						position: nextPosition + index,
+						isPrimary: !hasPrimary && index === 0,
+					})),
+				});
+			});
+		} catch (error) {
+			// Files without a database row would never be cleaned up
+			await Promise.all(savedKeys.map((key) => storage.remove(key)));
+			throw error;
+		}
+
+		return this.listImages(sweetId);
+	}
+
+	/**
+	 * Puts a sweet's images in a new order.
+	 *
+	 * @param sweetId Identifier of the sweet.
+	 * @param imageIds Every image id of the sweet, in the new order.
+	 * @returns Promise resolving to the reordered images.
+	 */
+	async reorderImages(sweetId: string, imageIds: string[]) {
+		await this.assertSweetExists(sweetId);
+
+		await prisma.$transaction(async (tx) => {
+			const images = await tx.sweetImage.findMany({
+				where: { sweetId },
+				select: { id: true },
+			});
+			const currentIds = new Set(images.map(({ id }) => id));
+
+			if (
+				imageIds.length !== currentIds.size ||
+				new Set(imageIds).size !== imageIds.length ||
+				imageIds.some((id) => !currentIds.has(id))
+			) {
+				throw new BadRequestError(
+					"INVALID_IMAGE_ORDER",
+					"The order must list each of the sweet's images exactly once",
+					{ field: "imageIds" }
+				);
+			}
+
+			for (const [position, id] of imageIds.entries()) {
+				await tx.sweetImage.update({ where: { id }, data: { position } });
+			}
+		});
+
+		return this.listImages(sweetId);
+	}
+
+	/**
+	 * Makes an image the one shown on catalogue cards.
+	 *
+	 * @param sweetId Identifier of the sweet.
+	 * @param imageId Identifier of the image to feature.
+	 * @returns Promise resolving to the sweet's images.
+	 */
+	async setPrimaryImage(sweetId: string, imageId: string) {
+		await this.assertSweetExists(sweetId);
+		await this.findImage(sweetId, imageId);
+
+		await prisma.$transaction([
+			prisma.sweetImage.updateMany({
+				where: { sweetId, isPrimary: true },
+				data: { isPrimary: false },
+			}),
+			prisma.sweetImage.update({
+				where: { id: imageId },
+				data: { isPrimary: true },
+			}),
+		]);
+
+		return this.listImages(sweetId);
+	}
+
+	/**
+	 * Deletes an image and its files. When the primary image is deleted,
+	 * the first remaining image takes its place.
+	 *
+	 * @param sweetId Identifier of the sweet.
+	 * @param imageId Identifier of the image to delete.
+	 * @returns Promise resolving to the sweet's remaining images.
+	 */
+	async deleteImage(sweetId: string, imageId: string) {
+		await this.assertSweetExists(sweetId);
+		const image = await this.findImage(sweetId, imageId);
+
+		await prisma.$transaction(async (tx) => {
+			await tx.sweetImage.delete({ where: { id: imageId } });
+
+			if (image.isPrimary) {
+				const next = await tx.sweetImage.findFirst({
+					where: { sweetId },
+					orderBy: { position: "asc" },
+				});
+				if (next) {
+					await tx.sweetImage.update({
+						where: { id: next.id },
+						data: { isPrimary: true },
+					});
+				}
+			}
+		});
+
+		await Promise.all([
+			storage.remove(image.storageKey),
+			storage.remove(image.thumbnailKey),
+		]);
+
+		return this.listImages(sweetId);
+	}
+
+	/**
+	 * Decodes an upload to check its format and dimensions, renders its
+	 * thumbnail and picks unique storage keys for both files.
+	 */
+	private async prepare(sweetId: string, file: ImageUpload) {
+		const invalid = () =>
+			new BadRequestError(
+				"UNSUPPORTED_MEDIA_TYPE",
+				`${file.originalname} is not a JPEG, PNG or WebP image`,
+				{ field: "images" }
+			);
+
+		let metadata: sharp.Metadata;
+		try {
+			metadata = await sharp(file.buffer).metadata();
+		} catch {
+			throw invalid();
+		}
+
+		const format = metadata.format && IMAGE_FORMATS[metadata.format];
+		if (!format || !metadata.width || !metadata.height) {
+			throw invalid();
+		}
+
+		const thumbnail = await sharp(file.buffer)
+			.rotate()
+			.resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover" })
+			.webp()
+			.toBuffer();
+
+		const name = `sweets/${sweetId}/${randomUUID()}`;
+		return {
+			key: `${name}.${format.extension}`,
+			thumbnailKey: `${name}-thumb.webp`,
+			data: file.buffer,
+			thumbnail,
+			contentType: format.contentType,
+			width: metadata.width,
+			height: metadata.height,
+		};
+	}
+
+	/**
+	 * Throws when the sweet does not exist or has been archived.
+	 */
+	private async assertSweetExists(sweetId: string) {
+		const sweet = await prisma.sweet.findFirst({
+			where: { id: sweetId, ...activeSweet },
+			select: { id: true },
+		});
+
+		if (!sweet) {
+			throw new NotFoundError("SWEET_NOT_FOUND", "Sweet not found");
+		}
+	}
+
+	/**
+	 * Loads one of a sweet's images, throwing when it belongs to another sweet or does not exist.
+	 */
+	private async findImage(sweetId: string, imageId: string) {
+		const image = await prisma.sweetImage.findFirst({
+			where: { id: imageId, sweetId },
+		});
+
+		if (!image) {
+			throw new NotFoundError("IMAGE_NOT_FOUND", "Image not found");
+		}
+
+		return image;
+	}
+}
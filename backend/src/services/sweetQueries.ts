@@ -0,0 +1,33 @@
+/**
+ * @file Prisma query fragments for loading sweets the way clients see them.
+ *
+ * Kept apart from SweetService so that services it depends on, such as
+ * PriceHistoryService, can load sweets without an import cycle.
+ */
+import { Prisma } from "@prisma/client";
+import { categorySummarySelect } from "./categoryService";
+
+/** Image fields returned to clients; storage keys stay on the server. */
+export const sweetImageSelect = {
+	id: true,
+	url: true,
+	thumbnailUrl: true,
+	width: true,
+	height: true,
+	position: true,
+	isPrimary: true,
+} satisfies Prisma.SweetImageSelect;
+
+/** Relations included whenever a sweet is returned to clients. */
+export const sweetWithCategory = {
+	category: { select: categorySummarySelect },
+	images: { select: sweetImageSelect, orderBy: { position: "asc" } },
+} satisfies Prisma.SweetInclude;
+
+/** Filter matching sweets that have not been archived. */
+export const activeSweet = { deletedAt: null } satisfies Prisma.SweetWhereInput;
+
+/** A sweet as returned to clients, with its category summary. */
+export type SweetWithCategory = Prisma.SweetGetPayload<{
+	include: typeof sweetWithCategory;
+}>;
@@ -1,57 +1,132 @@
 /**
  * @file Service encapsulating business logic for sweet management.
  */
+import { Prisma } from "@prisma/client";
 import prisma from "../config/database";
-import { CreateSweetInput, UpdateSweetInput, SearchSweetInput } from "../types";
+import {
+	CreateSweetInput,
+	UpdateSweetInput,
+	SearchSweetInput,
+	CatalogueQueryInput,
+} from "../types";
+import { ConflictError, NotFoundError, UnprocessableError } from "../utils/errors";
+import { InventoryMovementService } from "./inventoryMovementService";
+import { PriceHistoryService } from "./priceHistoryService";
+import { AlertService } from "./alertService";
+import { CategoryService } from "./categoryService";
+import { SweetEventService } from "./sweetEventService";
+import { activeSweet, SweetWithCategory, sweetWithCategory } from "./sweetQueries";
+import { withStockLevels } from "../utils/stock";
+
+const movementService = new InventoryMovementService();
+const priceHistoryService = new PriceHistoryService();
+const alertService = new AlertService();
+const categoryService = new CategoryService();
+const sweetEventService = new SweetEventService();
+
+export { sweetImageSelect, sweetWithCategory, activeSweet } from "./sweetQueries";
+export type { SweetWithCategory } from "./sweetQueries";
+
+/**
+ * Reduces a sweet to the fields shown to visitors who have not signed in.
+ * Restock settings, archive state and timestamps are left out; the reorder
+ * point stays because the storefront flags low stock with it. Stock is
+ * given both on hand and available to buy.
+ *
+ * @param sweet Sweet as loaded with its category summary.
+ * @returns The customer-safe view of the sweet.
+ */
+export const toPublicSweet = (sweet: SweetWithCategory) => {
+	const { id, name, category, price, currency, quantity, onHand, available, reorderPoint, images } =
+		withStockLevels(sweet);
+	return { id, name, category, price, currency, quantity, onHand, available, reorderPoint, images };
+};
+
+/** A sweet as shown in the public catalogue. */
+export type PublicSweet = ReturnType<typeof toPublicSweet>;
 
 /**
  * Provides CRUD operations for sweets backed by Prisma ORM.
  */
 export class SweetService {
 	/**
-	 * Creates a new sweet when the name is unique.
+	 * Creates a new sweet when the name is unique and the category exists.
+	 * Archived sweets keep their names, so a clash may call for a restore.
+	 * The opening price starts the sweet's price history, and the new sweet
+	 * is announced to connected clients once saved.
 	 *
 	 * @param sweetData Validated input describing the sweet.
+	 * @param userId Identifier of the user creating the sweet.
 	 * @returns Promise resolving to the persisted sweet record.
 	 */
-	async createSweet(sweetData: CreateSweetInput) {
+	async createSweet(sweetData: CreateSweetInput, userId: string) {
 		// Check if sweet with same name already exists
 		const existingSweet = await prisma.sweet.findUnique({
 			where: { name: sweetData.name },
 		});
 
 		if (existingSweet) {
-			throw new Error("Sweet with this name already exists");
+			throw new ConflictError(
+				"NAME_CONFLICT",
+				existingSweet.deletedAt
+					? "An archived sweet has this name; restore it instead"
+					: "Sweet with this name already exists",
+				{ field: "name" }
+			);
 		}
 
-		const sweet = await prisma.sweet.create({
-			data: sweetData,
+		await this.assertCategoryExists(prisma, sweetData.categoryId);
+
+		const createdSweet = await prisma.$transaction(async (tx) => {
+			const sweet = await tx.sweet.create({
+				data: sweetData,
+				include: sweetWithCategory,
+			});
+
+			await priceHistoryService.record(tx, {
+				sweetId: sweet.id,
+				price: sweet.price,
+				userId,
+			});
+
+			return sweet;
 		});
 
-		return sweet;
+		sweetEventService.publish({ type: "sweet.created", sweet: createdSweet });
+		return createdSweet;
 	}
 
 	/**
-	 * Retrieves all sweets sorted by their creation timestamp.
+	 * Retrieves one page of the catalogue in the requested order. Archived
+	 * sweets are left out.
 	 *
-	 * @returns Promise resolving to an array of sweets.
+	 * @param query Page or cursor position plus sort field and direction.
+	 * @returns Promise resolving to the page of sweets and pagination metadata.
 	 */
-	async getAllSweets() {
-		const sweets = await prisma.sweet.findMany({
-			orderBy: { createdAt: "desc" },
-		});
+	async getAllSweets(query: CatalogueQueryInput) {
+		return this.findPage(activeSweet, query);
+	}
 
-		return sweets;
+	/**
+	 * Retrieves one page of archived sweets in the requested order.
+	 *
+	 * @param query Page or cursor position plus sort field and direction.
+	 * @returns Promise resolving to the page of archived sweets and pagination metadata.
+	 */
+	async getArchivedSweets(query: CatalogueQueryInput) {
+		return this.findPage({ deletedAt: { not: null } }, query);
 	}
 
 	/**
-	 * Searches sweets using optional name, category, and price filters.
+	 * Searches sweets using optional name, category, price, and stock filters.
+	 * Archived sweets never match, and the stock filter counts only units not
+	 * held by reservations.
 	 *
-	 * @param searchData Query parameters describing desired filters.
-	 * @returns Promise resolving to sweets that match the criteria.
+	 * @param searchData Query parameters describing desired filters and paging.
+	 * @returns Promise resolving to the page of matching sweets and pagination metadata.
 	 */
 	async searchSweets(searchData: SearchSweetInput) {
-		const where: any = {};
+		const where: Prisma.SweetWhereInput = { ...activeSweet };
 
 		if (searchData.name) {
 			where.name = {
@@ -61,10 +136,10 @@ export class SweetService {
 		}
 
 		if (searchData.category) {
-			where.category = {
-				contains: searchData.category,
-				mode: "insensitive",
-			};
+			const categoryIds = await categoryService.getCategoryIdsForSlug(
+				searchData.category
+			);
+			where.categoryId = { in: categoryIds };
 		}
 
 		if (
@@ -80,27 +155,70 @@ export class SweetService {
 			}
 		}
 
-		const sweets = await prisma.sweet.findMany({
-			where,
-			orderBy: { createdAt: "desc" },
-		});
+		if (searchData.inStock) {
+			where.quantity = { gt: prisma.sweet.fields.reserved };
+		}
+
+		return this.findPage(where, searchData);
+	}
+
+	/**
+	 * Runs a paginated catalogue query. The id is appended as a tie-breaker
+	 * so the order is stable across pages and usable as a cursor.
+	 *
+	 * One extra row is fetched to tell whether another page follows; its
+	 * predecessor's id is returned as `nextCursor`.
+	 *
+	 * @param where Prisma filter applied to both the page and the total count.
+	 * @param query Page or cursor position plus sort field and direction.
+	 * @returns Promise resolving to the page of sweets and pagination metadata.
+	 */
+	private async findPage(where: Prisma.SweetWhereInput, query: CatalogueQueryInput) {
+		const { page, limit, cursor, sortBy, order } = query;
+
+		const [rows, total] = await Promise.all([
+			prisma.sweet.findMany({
+				where,
+				include: sweetWithCategory,
+				orderBy: [{ [sortBy]: order }, { id: order }],
+				take: limit + 1,
+				...(cursor
+					? { cursor: { id: cursor }, skip: 1 }
+					: { skip: (page - 1) * limit }),
+			}),
+			prisma.sweet.count({ where }),
+		]);
+
+		const hasMore = rows.length > limit;
+		const data = hasMore ? rows.slice(0, limit) : rows;
 
-		return sweets;
+		return {
+			data,
+			pagination: {
+				page,
+				limit,
+				total,
+				totalPages: Math.ceil(total / limit),
+				nextCursor: hasMore ? data[data.length - 1].id : null,
+			},
+		};
 	}
 
 	/**
-	 * Looks up a sweet by its identifier, throwing when not found.
+	 * Looks up a sweet by its identifier, throwing when it does not exist or
+	 * has been archived.
 	 *
 	 * @param id Unique identifier of the sweet.
 	 * @returns Promise resolving to the matching sweet.
 	 */
 	async getSweetById(id: string) {
-		const sweet = await prisma.sweet.findUnique({
-			where: { id },
+		const sweet = await prisma.sweet.findFirst({
+			where: { id, ...activeSweet },
+			include: sweetWithCategory,
 		});
 
 		if (!sweet) {
-			throw new Error("Sweet not found");
+			throw new NotFoundError("SWEET_NOT_FOUND", "Sweet not found");
 		}
 
 		return sweet;
@@ -108,59 +226,182 @@ export class SweetService {
 
 	/**
 	 * Updates an existing sweet, ensuring name uniqueness when changed.
+	 * Archived sweets must be restored before they can be edited.
+	 *
+	 * A change to `quantity` is recorded on the inventory ledger as an
+	 * ADJUSTMENT in the same transaction as the update, and a change to
+	 * `price` is added to the sweet's price history. Connected clients are
+	 * sent the updated sweet after the transaction commits.
 	 *
 	 * @param id Identifier for the sweet to update.
 	 * @param updateData Partial fields describing the new values.
+	 * @param userId Identifier of the user making the change.
 	 * @returns Promise resolving to the updated sweet.
 	 */
-	async updateSweet(id: string, updateData: UpdateSweetInput) {
-		// Check if sweet exists
-		const existingSweet = await prisma.sweet.findUnique({
-			where: { id },
-		});
+	async updateSweet(id: string, updateData: UpdateSweetInput, userId: string) {
+		const { reason, ...sweetData } = updateData;
 
-		if (!existingSweet) {
-			throw new Error("Sweet not found");
-		}
+		const result = await prisma.$transaction(async (tx) => {
+			// Check if sweet exists
+			const existingSweet = await tx.sweet.findUnique({
+				where: { id },
+			});
 
-		// If name is being updated, check for conflicts
-		if (updateData.name && updateData.name !== existingSweet.name) {
-			const conflictingSweet = await prisma.sweet.findUnique({
-				where: { name: updateData.name },
+			if (!existingSweet || existingSweet.deletedAt) {
+				throw new NotFoundError("SWEET_NOT_FOUND", "Sweet not found");
+			}
+
+			// If name is being updated, check for conflicts
+			if (sweetData.name && sweetData.name !== existingSweet.name) {
+				const conflictingSweet = await tx.sweet.findUnique({
+					where: { name: sweetData.name },
+				});
+
+				if (conflictingSweet) {
+					throw new ConflictError(
+						"NAME_CONFLICT",
+						"Sweet with this name already exists",
+						{ field: "name" }
+					);
+				}
+			}
+
+			if (
+				sweetData.categoryId &&
+				sweetData.categoryId !== existingSweet.categoryId
+			) {
+				await this.assertCategoryExists(tx, sweetData.categoryId);
+			}
+
+			const updatedSweet = await tx.sweet.update({
+				where: { id },
+				data: sweetData,
+				include: sweetWithCategory,
 			});
 
-			if (conflictingSweet) {
-				throw new Error("Sweet with this name already exists");
+			if (
+				sweetData.quantity !== undefined &&
+				updatedSweet.quantity !== existingSweet.quantity
+			) {
+				await movementService.record(tx, {
+					sweetId: id,
+					type: "ADJUSTMENT",
+					delta: updatedSweet.quantity - existingSweet.quantity,
+					resultingQuantity: updatedSweet.quantity,
+					userId,
+					reason,
+				});
 			}
-		}
 
-		const updatedSweet = await prisma.sweet.update({
-			where: { id },
-			data: updateData,
+			if (updatedSweet.price !== existingSweet.price) {
+				await priceHistoryService.record(tx, {
+					sweetId: id,
+					price: updatedSweet.price,
+					userId,
+				});
+			}
+
+			// Stock edits and reorder point changes can both cross the threshold
+			await alertService.recordStockChange(tx, existingSweet, updatedSweet);
+
+			return updatedSweet;
 		});
 
-		return updatedSweet;
+		sweetEventService.publish({ type: "sweet.updated", sweet: result });
+		return result;
 	}
 
 	/**
-	 * Deletes a sweet after ensuring it exists.
+	 * Archives a sweet. It disappears from the catalogue and from shoppers'
+	 * carts, its reservations are dropped and its open low-stock alert is
+	 * resolved, but the record, its stock and its order history are kept so
+	 * it can be restored. Connected clients see it as deleted.
 	 *
-	 * @param id Identifier of the sweet to delete.
-	 * @returns Promise resolving to the removed sweet record.
+	 * @param id Identifier of the sweet to archive.
+	 * @returns Promise resolving to the archived sweet.
 	 */
 	async deleteSweet(id: string) {
-		const existingSweet = await prisma.sweet.findUnique({
-			where: { id },
+		const result = await prisma.$transaction(async (tx) => {
+			const existingSweet = await tx.sweet.findUnique({
+				where: { id },
+			});
+
+			if (!existingSweet || existingSweet.deletedAt) {
+				throw new NotFoundError("SWEET_NOT_FOUND", "Sweet not found");
+			}
+
+			const archivedSweet = await tx.sweet.update({
+				where: { id },
+				data: { deletedAt: new Date(), reserved: 0 },
+				include: sweetWithCategory,
+			});
+
+			await tx.cartItem.deleteMany({ where: { sweetId: id } });
+			await tx.stockReservation.deleteMany({ where: { sweetId: id } });
+			await alertService.resolveOpenAlerts(tx, id);
+
+			return archivedSweet;
 		});
 
-		if (!existingSweet) {
-			throw new Error("Sweet not found");
-		}
+		sweetEventService.publish({ type: "sweet.deleted", sweetId: id });
+		return result;
+	}
+
+	/**
+	 * Brings an archived sweet back into the catalogue, raising a low-stock
+	 * alert if it returns at or below its reorder point. Connected clients
+	 * see it as newly created.
+	 *
+	 * @param id Identifier of the archived sweet.
+	 * @returns Promise resolving to the restored sweet.
+	 */
+	async restoreSweet(id: string) {
+		const result = await prisma.$transaction(async (tx) => {
+			const existingSweet = await tx.sweet.findUnique({
+				where: { id },
+			});
+
+			if (!existingSweet) {
+				throw new NotFoundError("SWEET_NOT_FOUND", "Sweet not found");
+			}
+
+			if (!existingSweet.deletedAt) {
+				throw new ConflictError("SWEET_NOT_ARCHIVED", "Sweet is not archived");
+			}
+
+			const restoredSweet = await tx.sweet.update({
+				where: { id },
+				data: { deletedAt: null },
+				include: sweetWithCategory,
+			});
+
+			await alertService.raiseIfLow(tx, restoredSweet);
 
-		const deletedSweet = await prisma.sweet.delete({
-			where: { id },
+			return restoredSweet;
 		});
 
-		return deletedSweet;
+		sweetEventService.publish({ type: "sweet.created", sweet: result });
+		return result;
+	}
+
+	/**
+	 * Throws when a sweet is being assigned to a category that does not exist.
+	 *
+	 * @param client Prisma client or transaction performing the write.
+	 * @param categoryId Identifier of the requested category.
+	 */
+	private async assertCategoryExists(
+		client: Prisma.TransactionClient,
+		categoryId: string
+	) {
+		const category = await client.category.findUnique({
+			where: { id: categoryId },
+		});
+
+		if (!category) {
+			throw new UnprocessableError("UNKNOWN_CATEGORY", "Category not found", {
+				field: "categoryId",
+			});
+		}
 	}
 }
@@ -0,0 +1,53 @@
+/**
+ * @file Service resolving GST rates for sweets from their categories.
+ */
+import { Prisma } from "@prisma/client";
+
+/** Basis points in 100%, the unit tax rates are stored in. */
+export const BASIS_POINTS = 10_000;
+
+/**
+ * Works out the tax contained in a tax-inclusive amount, rounded to the
+ * nearest minor unit. At 18% (1800 bp) ₹118.00 contains ₹18.00 of tax.
+ *
+ * @param amount Tax-inclusive amount in minor units.
+ * @param rate Tax rate in basis points.
+ * @returns The tax part of the amount in minor units.
+ */
+export const includedTax = (amount: number, rate: number) =>
+	Math.round((amount * rate) / (BASIS_POINTS + rate));
+
+/**
+ * Looks up the tax rates that apply to sweets. Sweet prices include tax;
+ * the rate comes from the sweet's category, or the nearest ancestor that
+ * sets one, and is zero when none does.
+ */
+export class TaxService {
+	/**
+	 * Resolves the tax rate for each category.
+	 * The tree is small enough to load whole and walk in memory.
+	 *
+	 * @param client Prisma client or transaction client to read with.
+	 * @param categoryIds Categories to resolve.
+	 * @returns Promise resolving to the rate in basis points for each category id.
+	 */
+	async ratesFor(client: Prisma.TransactionClient, categoryIds: string[]) {
+		const categories = await client.category.findMany({
+			select: { id: true, parentId: true, taxRate: true },
+		});
+		const byId = new Map(categories.map((category) => [category.id, category]));
+
+		const rates = new Map<string, number>();
+		for (const categoryId of categoryIds) {
+			const seen = new Set<string>();
+			let category = byId.get(categoryId);
+			while (category && category.taxRate === null && !seen.has(category.id)) {
+				seen.add(category.id);
+				category = category.parentId ? byId.get(category.parentId) : undefined;
+			}
+			rates.set(categoryId, category?.taxRate ?? 0);
+		}
+
+		return rates;
+	}
+}
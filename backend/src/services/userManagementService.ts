@@ -0,0 +1,187 @@
+/**
+ * @file Service backing the admin user management endpoints.
+ */
+import crypto from 'crypto';
+import { Prisma, Role } from '@prisma/client';
+import prisma from '../config/database';
+import { hashPassword } from '../utils/auth';
+import { NotFoundError, UnprocessableError } from '../utils/errors';
+import { ListUsersInput } from '../types';
+import { SessionService } from './sessionService';
+
+const sessionService = new SessionService();
+
+/** Account fields exposed to administrators; never includes the password hash. */
+const userSummarySelect = {
+    id: true,
+    email: true,
+    name: true,
+    role: true,
+    isActive: true,
+    passwordResetRequired: true,
+    createdAt: true,
+    updatedAt: true,
+} satisfies Prisma.UserSelect;
+
+/**
+ * Lets administrators inspect accounts, change roles, suspend access, and
+ * force password resets. Admins cannot demote or deactivate themselves, which
+ * also guarantees at least one active admin remains.
+ */
+export class UserManagementService {
+    /**
+     * Lists accounts, newest first, filtered by email/name, role, and status.
+     *
+     * @param query Search filters plus the requested page.
+     * @returns Promise resolving to the page of users and pagination metadata.
+     */
+    async listUsers(query: ListUsersInput) {
+        const { search, role, status, page, limit } = query;
+        const where: Prisma.UserWhereInput = {};
+
+        if (search) {
+            where.OR = [
+                { email: { contains: search, mode: 'insensitive' } },
+                { name: { contains: search, mode: 'insensitive' } },
+            ];
+        }
+
+        if (role) {
+            where.role = role;
+        }
+
+        if (status) {
+            where.isActive = status === 'active';
+        }
+
+        const [users, total] = await Promise.all([
+            prisma.user.findMany({
+                where,
+                select: userSummarySelect,
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.user.count({ where }),
+        ]);
+
+        return {
+            data: users,
+            pagination: {
+                page,
+                limit,
+                total,
+                totalPages: Math.ceil(total / limit),
+            },
+        };
+    }
+
+    /**
+     * Retrieves one account with its order and live session counts.
+     *
+     * @param id Identifier of the user.
+     * @returns Promise resolving to the user details.
+     */
+    async getUser(id: string) {
+        const user = await prisma.user.findUnique({
+            where: { id },
+            select: {
+                ...userSummarySelect,
+                _count: {
+                    select: {
+                        orders: true,
+                        sessions: { where: { revokedAt: null, expiresAt: { gt: new Date() } } },
+                    },
+                },
+            },
+        });
+
+        if (!user) {
+            throw new NotFoundError('USER_NOT_FOUND', 'User not found');
+        }
+
+        return user;
+    }
+
+    /**
+     * Changes a user's role. Takes effect on the user's next request.
+     *
+     * @param id Identifier of the user to change.
+     * @param role New role to assign.
+     * @param actorId Identifier of the admin making the change.
+     * @returns Promise resolving to the updated user.
+     */
+    async updateRole(id: string, role: Role, actorId: string) {
+        if (id === actorId) {
+            throw new UnprocessableError('SELF_ROLE_CHANGE', 'You cannot change your own role');
+        }
+
+        await this.getUser(id);
+
+        return prisma.user.update({
+            where: { id },
+            data: { role },
+            select: userSummarySelect,
+        });
+    }
+
+    /**
+     * Deactivates or reactivates an account. Deactivation also revokes every
+     * session so the user is signed out everywhere at once.
+     *
+     * @param id Identifier of the user to change.
+     * @param isActive Whether the account should be usable.
+     * @param actorId Identifier of the admin making the change.
+     * @returns Promise resolving to the updated user.
+     */
+    async setActive(id: string, isActive: boolean, actorId: string) {
+        if (id === actorId && !isActive) {
+            throw new UnprocessableError('SELF_DEACTIVATION', 'You cannot deactivate your own account');
+        }
+
+        await this.getUser(id);
+
+        return prisma.$transaction(async (tx) => {
+            const user = await tx.user.update({
+                where: { id },
+                data: { isActive },
+                select: userSummarySelect,
+            });
+
+            if (!isActive) {
+                await sessionService.revokeAllSessions(tx, id);
+            }
+
+            return user;
+        });
+    }
+
+    /**
+     * Replaces a user's password with a random temporary one, signs them out
+     * everywhere, and requires a new password on their next sign-in.
+     *
+     * @param id Identifier of the user whose password is reset.
+     * @returns Promise resolving to the updated user and the temporary password,
+     * which is not stored in plain text and cannot be retrieved again.
+     */
+    async forcePasswordReset(id: string) {
+        await this.getUser(id);
+
+        const temporaryPassword = crypto.randomBytes(9).toString('base64url');
+        const password = await hashPassword(temporaryPassword);
+
+        const user = await prisma.$transaction(async (tx) => {
+            const updatedUser = await tx.user.update({
+                where: { id },
+                data: { password, passwordResetRequired: true },
+                select: userSummarySelect,
+            });
+
+            await sessionService.revokeAllSessions(tx, id);
+
+            return updatedUser;
+        });
+
+        return { user, temporaryPassword };
+    }
+}
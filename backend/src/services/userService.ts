@@ -2,8 +2,13 @@
  * @file Service encapsulating business logic for user management.
  */
 import prisma from '../config/database';
-import { hashPassword, comparePassword, generateToken } from '../utils/auth';
-import { CreateUserInput, LoginInput } from '../types';
+import { permissionsFor } from '../config/permissions';
+import { hashPassword, comparePassword } from '../utils/auth';
+import { ConflictError, NotFoundError, UnauthorizedError, UnprocessableError } from '../utils/errors';
+import { ChangePasswordInput, CreateUserInput, LoginInput } from '../types';
+import { SessionService } from './sessionService';
+
+const sessionService = new SessionService();
 
 /**
  * Provides registration, authentication, and profile retrieval operations.
@@ -13,7 +18,7 @@ export class UserService {
      * Registers a new user, hashing the password and enforcing unique email.
      *
      * @param userData Validated registration payload.
-     * @returns Promise resolving to the persisted user summary.
+     * @returns Promise resolving to the persisted user summary and its permissions.
      */
     async createUser(userData: CreateUserInput) {
         const existingUser = await prisma.user.findUnique({
@@ -21,7 +26,7 @@ export class UserService {
         });
 
         if (existingUser) {
-            throw new Error('User already exists');
+            throw new ConflictError('USER_ALREADY_EXISTS', 'User already exists');
         }
 
         const hashedPassword = await hashPassword(userData.password);
@@ -40,14 +45,15 @@ export class UserService {
             },
         });
 
-        return user;
+        return { ...user, permissions: permissionsFor(user.role) };
     }
 
     /**
-     * Authenticates a user and returns a signed token alongside user details.
+     * Authenticates a user and opens a session, returning its access and
+     * refresh tokens alongside user details.
      *
      * @param loginData Login credentials provided by the caller.
-     * @returns Promise resolving to the token and user information.
+     * @returns Promise resolving to the tokens and user information.
      */
     async loginUser(loginData: LoginInput) {
         const user = await prisma.user.findUnique({
@@ -55,16 +61,20 @@ export class UserService {
         });
 
         if (!user) {
-            throw new Error('Invalid credentials');
+            throw new UnauthorizedError('INVALID_CREDENTIALS', 'Invalid credentials');
         }
 
         const isPasswordValid = await comparePassword(loginData.password, user.password);
 
         if (!isPasswordValid) {
-            throw new Error('Invalid credentials');
+            throw new UnauthorizedError('INVALID_CREDENTIALS', 'Invalid credentials');
+        }
+
+        if (!user.isActive) {
+            throw new UnauthorizedError('ACCOUNT_DEACTIVATED', 'Account is deactivated');
         }
 
-        const token = generateToken({
+        const { token, refreshToken } = await sessionService.createSession({
             id: user.id,
             email: user.email,
             role: user.role,
@@ -72,11 +82,14 @@ export class UserService {
 
         return {
             token,
+            refreshToken,
             user: {
                 id: user.id,
                 email: user.email,
                 name: user.name,
                 role: user.role,
+                permissions: permissionsFor(user.role),
+                passwordResetRequired: user.passwordResetRequired,
             },
         };
     }
@@ -85,7 +98,7 @@ export class UserService {
      * Retrieves a user by identifier, throwing if the user is missing.
      *
      * @param id Unique identifier for the user.
-     * @returns Promise resolving to the user's profile information.
+     * @returns Promise resolving to the user's profile and permissions.
      */
     async getUserById(id: string) {
         const user = await prisma.user.findUnique({
@@ -95,14 +108,47 @@ export class UserService {
                 email: true,
                 name: true,
                 role: true,
+                passwordResetRequired: true,
                 createdAt: true,
             },
         });
 
         if (!user) {
-            throw new Error('User not found');
+            throw new NotFoundError('USER_NOT_FOUND', 'User not found');
         }
 
-        return user;
+        return { ...user, permissions: permissionsFor(user.role) };
+    }
+
+    /**
+     * Replaces a user's password after checking the current one, which also
+     * satisfies a reset forced by an administrator.
+     *
+     * @param id Identifier of the user changing their password.
+     * @param passwordData Current and new password.
+     * @returns Promise resolving once the new password is stored.
+     */
+    async changePassword(id: string, passwordData: ChangePasswordInput) {
+        const user = await prisma.user.findUnique({
+            where: { id },
+        });
+
+        if (!user) {
+            throw new NotFoundError('USER_NOT_FOUND', 'User not found');
+        }
+
+        const isPasswordValid = await comparePassword(passwordData.currentPassword, user.password);
+
+        if (!isPasswordValid) {
+            throw new UnprocessableError('INCORRECT_PASSWORD', 'Current password is incorrect');
+        }
+
+        await prisma.user.update({
+            where: { id },
+            data: {
+                password: await hashPassword(passwordData.newPassword),
+                passwordResetRequired: false,
+            },
+        });
     }
 }
@@ -0,0 +1,34 @@
+/**
+ * @file Interface for the storage that holds uploaded files.
+ */
+
+/**
+ * Saves and removes uploaded files by key. Keys are slash-separated paths
+ * such as `sweets/<id>/<name>.webp`; implementations decide where the bytes
+ * live and how clients fetch them.
+ */
+export interface FileStorage {
+	/**
+	 * Stores a file, replacing any existing file with the same key.
+	 *
+	 * @param key Location of the file within the storage.
+	 * @param data File contents.
+	 * @param contentType MIME type of the contents.
+	 */
+	save(key: string, data: Buffer, contentType: string): Promise<void>;
+
+	/**
+	 * Removes a file. Removing a missing file is not an error.
+	 *
+	 * @param key Location of the file within the storage.
+	 */
+	remove(key: string): Promise<void>;
+
+	/**
+	 * Builds the URL clients use to download a file.
+	 *
+	 * @param key Location of the file within the storage.
+	 * @returns Absolute URL or server-relative path.
+	 */
+	urlFor(key: string): string;
+}
@@ -0,0 +1,47 @@
+/**
+ * @file File storage backed by a directory on the server's disk.
+ */
+import { promises as fs } from "fs";
+import path from "path";
+import { FileStorage } from "./fileStorage";
+
+/**
+ * Keeps files under a root directory. The server must serve that directory
+ * at `urlPath` for the returned URLs to resolve.
+ */
+export class LocalDiskStorage implements FileStorage {
+	/**
+	 * @param rootDir Directory files are written to.
+	 * @param urlPath Server-relative path the directory is served from.
+	 */
+	constructor(
+		readonly rootDir: string,
+		readonly urlPath: string
+	) {}
+
+	async save(key: string, data: Buffer) {
+		const filePath = this.resolve(key);
+		await fs.mkdir(path.dirname(filePath), { recursive: true });
+		await fs.writeFile(filePath, data);
+	}
+
+	async remove(key: string) {
+		await fs.rm(this.resolve(key), { force: true });
+	}
+
+	urlFor(key: string) {
+		return `${this.urlPath}/${key}`;
+	}
+
+	/**
+	 * Maps a key to a path inside the root directory, refusing keys that
+	 * would escape it.
+	 */
+	private resolve(key: string) {
+		const filePath = path.resolve(this.rootDir, key);
+		if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+			throw new Error(`Storage key escapes the upload directory: ${key}`);
+		}
+		return filePath;
+	}
+}
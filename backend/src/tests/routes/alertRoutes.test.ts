@@ -0,0 +1,159 @@
+/**
+ * @file Integration-style tests for admin low-stock alert endpoints.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import request from "supertest";
+
+// Mock the database BEFORE importing app
+vi.mock("../../config/database", () => ({
+	default: {
+		lowStockAlert: {
+			findMany: vi.fn(),
+			findUnique: vi.fn(),
+			count: vi.fn(),
+			update: vi.fn(),
+		},
+		session: {
+			findUnique: vi.fn(),
+		},
+	},
+}));
+
+// Mock auth utilities BEFORE importing app
+vi.mock("../../utils/auth", () => ({
+	hashPassword: vi.fn(),
+	comparePassword: vi.fn(),
+	generateToken: vi.fn(),
+	verifyToken: vi.fn(),
+}));
+
+// Import app AFTER mocks are set up
+import app from "../../index";
+
+// Import the mocked modules
+import prisma from "../../config/database";
+import * as authUtils from "../../utils/auth";
+
+const mockPrisma = prisma as any;
+const mockAuthUtils = authUtils as any;
+
+describe("Alert Routes", () => {
+	const token = "valid_jwt_token";
+	const userDecodedToken = {
+		id: "user-123",
+		email: "user@example.com",
+		role: "CUSTOMER",
+		sid: "session-123",
+	};
+	const adminDecodedToken = {
+		id: "admin-123",
+		email: "admin@example.com",
+		role: "ADMIN",
+		sid: "session-456",
+	};
+	const activeSession = {
+		revokedAt: null,
+		expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+	};
+	const alert = {
+		id: "alert-1",
+		sweetId: "sweet-1",
+		quantity: 3,
+		reorderPoint: 5,
+		acknowledgedAt: null,
+		resolvedAt: null,
+	};
+
+	/** Authenticates subsequent requests as the user described by the token. */
+	const signInAs = (decodedToken: typeof userDecodedToken) => {
+		mockAuthUtils.verifyToken.mockReturnValue(decodedToken);
+		mockPrisma.session.findUnique.mockResolvedValue({
+			...activeSession,
+			user: { ...decodedToken, isActive: true, passwordResetRequired: false },
+		});
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		signInAs(adminDecodedToken);
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe("GET /api/alerts", () => {
+		it("should list active alerts for admins", async () => {
+			mockPrisma.lowStockAlert.findMany.mockResolvedValue([alert]);
+			mockPrisma.lowStockAlert.count.mockResolvedValue(1);
+
+			const response = await request(app)
+				.get("/api/alerts")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(200);
+
+			expect(response.body.alerts).toHaveLength(1);
+			expect(response.body.unacknowledged).toBe(1);
+			expect(response.body.pagination.total).toBe(1);
+		});
+
+		it("should return 400 for an unknown status filter", async () => {
+			await request(app)
+				.get("/api/alerts?status=open")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(400);
+		});
+
+		it("should return 403 for non-admin users", async () => {
+			signInAs(userDecodedToken);
+
+			await request(app)
+				.get("/api/alerts")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(403);
+
+			expect(mockPrisma.lowStockAlert.findMany).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("POST /api/alerts/:id/acknowledge", () => {
+		it("should acknowledge an alert", async () => {
+			mockPrisma.lowStockAlert.findUnique.mockResolvedValue(alert);
+			mockPrisma.lowStockAlert.update.mockResolvedValue({
+				...alert,
+				acknowledgedAt: new Date(),
+				acknowledgedById: adminDecodedToken.id,
+			});
+
+			const response = await request(app)
+				.post(`/api/alerts/${alert.id}/acknowledge`)
+				.set("Authorization", `Bearer ${token}`)
+				.expect(200);
+
+			expect(response.body.alert.acknowledgedById).toBe(adminDecodedToken.id);
+		});
+
+		it("should return 404 for an unknown alert", async () => {
+			mockPrisma.lowStockAlert.findUnique.mockResolvedValue(null);
+
+			await request(app)
+				.post("/api/alerts/missing/acknowledge")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(404);
+		});
+
+		it("should return 409 when already acknowledged", async () => {
+			mockPrisma.lowStockAlert.findUnique.mockResolvedValue({
+				...alert,
+				acknowledgedAt: new Date(),
+			});
+
+			const response = await request(app)
+				.post(`/api/alerts/${alert.id}/acknowledge`)
+				.set("Authorization", `Bearer ${token}`)
+				.expect(409);
+
+			expect(response.body.error.code).toBe("ALERT_ALREADY_ACKNOWLEDGED");
+		});
+	});
+});
@@ -0,0 +1,207 @@
+/**
+ * @file Integration-style tests for admin analytics endpoints.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import request from "supertest";
+
+// Mock the database BEFORE importing app
+vi.mock("../../config/database", () => ({
+	default: {
+		$queryRaw: vi.fn(),
+		order: {
+			count: vi.fn(),
+		},
+		session: {
+			findUnique: vi.fn(),
+		},
+	},
+}));
+
+// Mock auth utilities BEFORE importing app
+vi.mock("../../utils/auth", () => ({
+	hashPassword: vi.fn(),
+	comparePassword: vi.fn(),
+	generateToken: vi.fn(),
+	verifyToken: vi.fn(),
+}));
+
+// Import app AFTER mocks are set up
+import app from "../../index";
+
+// Import the mocked modules
+import prisma from "../../config/database";
+import * as authUtils from "../../utils/auth";
+
+const mockPrisma = prisma as any;
+const mockAuthUtils = authUtils as any;
+
+describe("Analytics Routes", () => {
+	const adminToken = "admin_jwt_token";
+	const userDecodedToken = {
+		id: "user-123",
+		email: "user@example.com",
+		role: "CUSTOMER",
+		sid: "session-123",
+	};
+	const adminDecodedToken = {
+		id: "admin-123",
+		email: "admin@example.com",
+		role: "ADMIN",
+		sid: "session-456",
+	};
+	const activeSession = {
+		revokedAt: null,
+		expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+	};
+
+	/** Authenticates subsequent requests as the user described by the token. */
+	const signInAs = (decodedToken: typeof userDecodedToken) => {
+		mockAuthUtils.verifyToken.mockReturnValue(decodedToken);
+		mockPrisma.session.findUnique.mockResolvedValue({
+			...activeSession,
+			user: { ...decodedToken, isActive: true, passwordResetRequired: false },
+		});
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		signInAs(adminDecodedToken);
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe("GET /api/analytics/sales", () => {
+		it("should return the sales report for the requested range", async () => {
+			mockPrisma.$queryRaw
+				.mockResolvedValueOnce([
+					{ period: "2026-01-01T00:00:00.000Z", revenue: 150, units: 3 },
+				])
+				.mockResolvedValueOnce([{ category: "Traditional", revenue: 150, units: 3 }])
+				.mockResolvedValueOnce([
+					{ sweetId: "sweet-1", sweetName: "Ladoo", category: "Traditional", revenue: 150, units: 3 },
+				]);
+			mockPrisma.order.count.mockResolvedValue(2);
+
+			const response = await request(app)
+				.get("/api/analytics/sales?from=2026-01-01&to=2026-01-31&interval=month")
+				.set("Authorization", `Bearer ${adminToken}`)
+				.expect(200);
+
+			expect(response.body.interval).toBe("month");
+			expect(response.body.totals).toEqual({ revenue: 150, units: 3, orders: 2 });
+			expect(response.body.byCategory).toHaveLength(1);
+			expect(response.body.bySweet[0].sweetName).toBe("Ladoo");
+			expect(mockPrisma.order.count).toHaveBeenCalledWith({
+				where: {
+					status: "COMPLETED",
+					createdAt: {
+						gte: new Date("2026-01-01"),
+						lte: new Date("2026-01-31"),
+					},
+				},
+			});
+		});
+
+		it("should return 400 for an inverted date range", async () => {
+			const response = await request(app)
+				.get("/api/analytics/sales?from=2026-02-01&to=2026-01-01")
+				.set("Authorization", `Bearer ${adminToken}`)
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+		});
+
+		it("should return 400 for an unknown interval", async () => {
+			const response = await request(app)
+				.get("/api/analytics/sales?interval=hour")
+				.set("Authorization", `Bearer ${adminToken}`)
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+		});
+
+		it("should return 403 for non-admin users", async () => {
+			signInAs(userDecodedToken);
+
+			const response = await request(app)
+				.get("/api/analytics/sales")
+				.set("Authorization", "Bearer user_jwt_token")
+				.expect(403);
+
+			expect(response.body.error.code).toBe("FORBIDDEN");
+			expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+		});
+
+		it("should return 401 without authentication token", async () => {
+			const response = await request(app).get("/api/analytics/sales").expect(401);
+
+			expect(response.body.error.code).toBe("UNAUTHORIZED");
+		});
+	});
+
+	describe("GET /api/analytics/top-sellers", () => {
+		it("should return the ranked sweets", async () => {
+			const data = [
+				{ sweetId: "sweet-1", sweetName: "Ladoo", category: "Traditional", revenue: 500, units: 20 },
+			];
+			mockPrisma.$queryRaw.mockResolvedValue(data);
+
+			const response = await request(app)
+				.get("/api/analytics/top-sellers?limit=5&metric=revenue")
+				.set("Authorization", `Bearer ${adminToken}`)
+				.expect(200);
+
+			expect(response.body.metric).toBe("revenue");
+			expect(response.body.data).toEqual(data);
+		});
+
+		it("should return 400 for a limit above the maximum", async () => {
+			const response = await request(app)
+				.get("/api/analytics/top-sellers?limit=500")
+				.set("Authorization", `Bearer ${adminToken}`)
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+		});
+	});
+
+	describe("GET /api/analytics/stock-turnover", () => {
+		it("should return per-sweet turnover", async () => {
+			mockPrisma.$queryRaw.mockResolvedValue([
+				{
+					sweetId: "sweet-1",
+					sweetName: "Ladoo",
+					category: "Traditional",
+					currentQuantity: 10,
+					unitsSold: 20,
+					unitsRestocked: 20,
+					netChange: 0,
+					changeAfterRange: 0,
+				},
+			]);
+
+			const response = await request(app)
+				.get("/api/analytics/stock-turnover?from=2026-01-01")
+				.set("Authorization", `Bearer ${adminToken}`)
+				.expect(200);
+
+			expect(response.body.data[0]).toMatchObject({
+				sweetId: "sweet-1",
+				openingStock: 10,
+				closingStock: 10,
+				turnover: 2,
+			});
+		});
+
+		it("should return 400 for an invalid date", async () => {
+			const response = await request(app)
+				.get("/api/analytics/stock-turnover?from=not-a-date")
+				.set("Authorization", `Bearer ${adminToken}`)
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+		});
+	});
+});
@@ -0,0 +1,305 @@
+/**
+ * @file Integration-style tests for cart and checkout endpoints.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import request from "supertest";
+
+// Mock the database BEFORE importing app
+vi.mock("../../config/database", () => {
+	const client: any = {
+		sweet: {
+			findUnique: vi.fn(),
+			findUniqueOrThrow: vi.fn(),
+			updateMany: vi.fn(),
+		},
+		cartItem: {
+			findMany: vi.fn(),
+			findUnique: vi.fn(),
+			upsert: vi.fn(),
+			update: vi.fn(),
+			delete: vi.fn(),
+			deleteMany: vi.fn(),
+		},
+		counter: {
+			upsert: vi.fn(),
+		},
+		order: {
+			create: vi.fn(),
+		},
+		category: {
+			findMany: vi.fn(),
+		},
+		promotion: {
+			findMany: vi.fn(),
+			findUnique: vi.fn(),
+		},
+		inventoryMovement: {
+			create: vi.fn(),
+		},
+		session: {
+			findUnique: vi.fn(),
+		},
+	};
+	// Interactive transactions run their callback against the same mocked client
+	client.$transaction = vi.fn((callback: (tx: any) => unknown) => callback(client));
+
+	return {
+		default: client,
+	};
+});
+
+// Mock auth utilities BEFORE importing app
+vi.mock("../../utils/auth", () => ({
+	hashPassword: vi.fn(),
+	comparePassword: vi.fn(),
+	generateToken: vi.fn(),
+	verifyToken: vi.fn(),
+}));
+
+// Import app AFTER mocks are set up
+import app from "../../index";
+
+// Import the mocked modules
+import prisma from "../../config/database";
+import * as authUtils from "../../utils/auth";
+
+const mockPrisma = prisma as any;
+const mockAuthUtils = authUtils as any;
+
+describe("Cart Routes", () => {
+	const validToken = "valid_jwt_token";
+	const userDecodedToken = {
+		id: "user-123",
+		email: "user@example.com",
+		role: "CUSTOMER",
+		sid: "session-123",
+	};
+	const sweet = {
+		id: "sweet-123",
+		name: "Gulab Jamun",
+		category: "Traditional",
+		price: 50,
+		quantity: 10,
+	};
+
+	const activeSession = {
+		revokedAt: null,
+		expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+	};
+
+	/** Authenticates subsequent requests as the user described by the token. */
+	const signInAs = (decodedToken: typeof userDecodedToken) => {
+		mockAuthUtils.verifyToken.mockReturnValue(decodedToken);
+		mockPrisma.session.findUnique.mockResolvedValue({
+			...activeSession,
+			user: { ...decodedToken, isActive: true, passwordResetRequired: false },
+		});
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		signInAs(userDecodedToken);
+		mockPrisma.promotion.findMany.mockResolvedValue([]);
+		mockPrisma.category.findMany.mockResolvedValue([]);
+		mockPrisma.counter.upsert.mockResolvedValue({ name: "invoice", value: 1 });
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe("GET /api/cart/items", () => {
+		it("should return the caller's cart with its total", async () => {
+			mockPrisma.cartItem.findMany.mockResolvedValue([
+				{ id: "item-1", sweetId: sweet.id, quantity: 2, sweet },
+			]);
+
+			const response = await request(app)
+				.get("/api/cart/items")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(200);
+
+			expect(response.body.items).toHaveLength(1);
+			expect(response.body.total).toBe(100);
+		});
+
+		it("should return 401 without authentication token", async () => {
+			const response = await request(app).get("/api/cart/items").expect(401);
+
+			expect(response.body.error.code).toBe("UNAUTHORIZED");
+		});
+	});
+
+	describe("POST /api/cart/items", () => {
+		it("should add a sweet to the cart", async () => {
+			mockPrisma.sweet.findUnique.mockResolvedValue(sweet);
+			mockPrisma.cartItem.upsert.mockResolvedValue({
+				id: "item-1",
+				sweetId: sweet.id,
+				quantity: 2,
+				sweet,
+			});
+
+			const response = await request(app)
+				.post("/api/cart/items")
+				.set("Authorization", `Bearer ${validToken}`)
+				.send({ sweetId: sweet.id, quantity: 2 })
+				.expect(201);
+
+			expect(response.body.message).toBe("Item added to cart");
+			expect(response.body.item.quantity).toBe(2);
+		});
+
+		it("should reuse purchase validation for the quantity", async () => {
+			const response = await request(app)
+				.post("/api/cart/items")
+				.set("Authorization", `Bearer ${validToken}`)
+				.send({ sweetId: sweet.id, quantity: 0 })
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+		});
+
+		it("should return 404 for a non-existent sweet", async () => {
+			mockPrisma.sweet.findUnique.mockResolvedValue(null);
+
+			const response = await request(app)
+				.post("/api/cart/items")
+				.set("Authorization", `Bearer ${validToken}`)
+				.send({ sweetId: "missing-id", quantity: 1 })
+				.expect(404);
+
+			expect(response.body.error.code).toBe("SWEET_NOT_FOUND");
+		});
+	});
+
+	describe("PATCH /api/cart/items/:sweetId", () => {
+		it("should update the quantity of a cart line", async () => {
+			mockPrisma.cartItem.findUnique.mockResolvedValue({ id: "item-1" });
+			mockPrisma.cartItem.update.mockResolvedValue({
+				id: "item-1",
+				sweetId: sweet.id,
+				quantity: 5,
+				sweet,
+			});
+
+			const response = await request(app)
+				.patch(`/api/cart/items/${sweet.id}`)
+				.set("Authorization", `Bearer ${validToken}`)
+				.send({ quantity: 5 })
+				.expect(200);
+
+			expect(response.body.item.quantity).toBe(5);
+		});
+
+		it("should return 404 when the sweet is not in the cart", async () => {
+			mockPrisma.cartItem.findUnique.mockResolvedValue(null);
+
+			const response = await request(app)
+				.patch(`/api/cart/items/${sweet.id}`)
+				.set("Authorization", `Bearer ${validToken}`)
+				.send({ quantity: 5 })
+				.expect(404);
+
+			expect(response.body.error.code).toBe("CART_ITEM_NOT_FOUND");
+		});
+	});
+
+	describe("DELETE /api/cart/items", () => {
+		it("should remove a single line", async () => {
+			mockPrisma.cartItem.findUnique.mockResolvedValue({ id: "item-1" });
+			mockPrisma.cartItem.delete.mockResolvedValue({ id: "item-1" });
+
+			const response = await request(app)
+				.delete(`/api/cart/items/${sweet.id}`)
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(200);
+
+			expect(response.body.message).toBe("Item removed from cart");
+		});
+
+		it("should clear the whole cart", async () => {
+			mockPrisma.cartItem.deleteMany.mockResolvedValue({ count: 3 });
+
+			const response = await request(app)
+				.delete("/api/cart/items")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(200);
+
+			expect(response.body.removed).toBe(3);
+		});
+	});
+
+	describe("POST /api/cart/checkout", () => {
+		it("should purchase every cart line as one order", async () => {
+			mockPrisma.cartItem.findMany.mockResolvedValue([
+				{ sweetId: sweet.id, quantity: 2 },
+			]);
+			mockPrisma.sweet.updateMany.mockResolvedValue({ count: 1 });
+			mockPrisma.sweet.findUniqueOrThrow.mockResolvedValue({ ...sweet, quantity: 8 });
+			mockPrisma.order.create.mockResolvedValue({ id: "order-1", total: 100, lines: [] });
+
+			const response = await request(app)
+				.post("/api/cart/checkout")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(200);
+
+			expect(response.body.message).toBe("Checkout completed successfully");
+			expect(response.body.order.id).toBe("order-1");
+			expect(response.body.sweets[0].quantity).toBe(8);
+		});
+
+		it("should reject an expired coupon and leave the cart alone", async () => {
+			mockPrisma.cartItem.findMany.mockResolvedValue([
+				{ sweetId: sweet.id, quantity: 2 },
+			]);
+			mockPrisma.sweet.updateMany.mockResolvedValue({ count: 1 });
+			mockPrisma.sweet.findUniqueOrThrow.mockResolvedValue({ ...sweet, quantity: 8 });
+			mockPrisma.promotion.findUnique.mockResolvedValue({
+				id: "promo-1",
+				code: "DIWALI",
+				isActive: true,
+				startsAt: null,
+				endsAt: new Date("2020-11-15T00:00:00Z"),
+			});
+
+			const response = await request(app)
+				.post("/api/cart/checkout")
+				.set("Authorization", `Bearer ${validToken}`)
+				.send({ couponCode: "diwali" })
+				.expect(422);
+
+			expect(response.body.error.code).toBe("INVALID_COUPON");
+			expect(response.body.error.field).toBe("couponCode");
+			expect(mockPrisma.order.create).not.toHaveBeenCalled();
+			expect(mockPrisma.cartItem.deleteMany).not.toHaveBeenCalled();
+		});
+
+		it("should return 422 when any line is short", async () => {
+			mockPrisma.cartItem.findMany.mockResolvedValue([
+				{ sweetId: sweet.id, quantity: 20 },
+			]);
+			mockPrisma.sweet.updateMany.mockResolvedValue({ count: 0 });
+			mockPrisma.sweet.findUnique.mockResolvedValue(sweet);
+
+			const response = await request(app)
+				.post("/api/cart/checkout")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(422);
+
+			expect(response.body.error.code).toBe("INSUFFICIENT_STOCK");
+			expect(mockPrisma.cartItem.deleteMany).not.toHaveBeenCalled();
+		});
+
+		it("should return 422 when the cart is empty", async () => {
+			mockPrisma.cartItem.findMany.mockResolvedValue([]);
+
+			const response = await request(app)
+				.post("/api/cart/checkout")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(422);
+
+			expect(response.body.error.code).toBe("CART_EMPTY");
+		});
+	});
+});
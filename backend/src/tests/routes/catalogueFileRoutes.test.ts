@@ -0,0 +1,215 @@
+/**
+ * @file Integration-style tests for catalogue import and export endpoints.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import request from "supertest";
+
+// Mock the database BEFORE importing app
+vi.mock("../../config/database", () => {
+	const client: any = {
+		sweet: {
+			findMany: vi.fn(),
+			create: vi.fn(),
+			update: vi.fn(),
+		},
+		category: {
+			findMany: vi.fn(),
+		},
+		priceHistory: {
+			create: vi.fn(),
+		},
+		session: {
+			findUnique: vi.fn(),
+		},
+	};
+	client.$transaction = vi.fn((callback: any) => callback(client));
+	return { default: client };
+});
+
+// Mock auth utilities BEFORE importing app
+vi.mock("../../utils/auth", () => ({
+	hashPassword: vi.fn(),
+	comparePassword: vi.fn(),
+	generateToken: vi.fn(),
+	verifyToken: vi.fn(),
+}));
+
+// Import app AFTER mocks are set up
+import app from "../../index";
+
+// Import the mocked modules
+import prisma from "../../config/database";
+import * as authUtils from "../../utils/auth";
+
+const mockPrisma = prisma as any;
+const mockAuthUtils = authUtils as any;
+
+describe("Catalogue File Routes", () => {
+	const token = "valid_jwt_token";
+	const userDecodedToken = {
+		id: "user-123",
+		email: "user@example.com",
+		role: "CUSTOMER",
+		sid: "session-123",
+	};
+	const adminDecodedToken = {
+		id: "admin-123",
+		email: "admin@example.com",
+		role: "ADMIN",
+		sid: "session-456",
+	};
+	const activeSession = {
+		revokedAt: null,
+		expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+	};
+	const fudge = {
+		id: "sweet-fudge",
+		name: "Fudge",
+		categoryId: "cat-chocolate",
+		category: { slug: "chocolate" },
+		price: 250,
+		currency: "INR",
+		quantity: 10,
+		reorderPoint: 5,
+		reorderQuantity: 20,
+	};
+
+	/** Authenticates subsequent requests as the user described by the token. */
+	const signInAs = (decodedToken: typeof userDecodedToken) => {
+		mockAuthUtils.verifyToken.mockReturnValue(decodedToken);
+		mockPrisma.session.findUnique.mockResolvedValue({
+			...activeSession,
+			user: { ...decodedToken, isActive: true, passwordResetRequired: false },
+		});
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		signInAs(adminDecodedToken);
+		mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma));
+		mockPrisma.category.findMany.mockResolvedValue([
+			{ id: "cat-chocolate", slug: "chocolate" },
+		]);
+		mockPrisma.sweet.findMany.mockResolvedValue([fudge]);
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe("POST /api/sweets/import", () => {
+		const content = "name,category,price,quantity\nTruffles,chocolate,4,12";
+
+		it("should preview an import on a dry run", async () => {
+			const response = await request(app)
+				.post("/api/sweets/import")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ format: "csv", content, dryRun: true })
+				.expect(200);
+
+			expect(response.body.committed).toBe(false);
+			expect(response.body.rows[0]).toMatchObject({ name: "Truffles", action: "create" });
+			expect(mockPrisma.sweet.create).not.toHaveBeenCalled();
+		});
+
+		it("should import the file", async () => {
+			mockPrisma.sweet.create.mockResolvedValue({ id: "sweet-truffles", price: 400 });
+
+			const response = await request(app)
+				.post("/api/sweets/import")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ format: "csv", content })
+				.expect(200);
+
+			expect(response.body.committed).toBe(true);
+			expect(response.body.message).toBe("Catalogue imported successfully");
+			expect(mockPrisma.sweet.create).toHaveBeenCalledWith({
+				data: { name: "Truffles", categoryId: "cat-chocolate", price: 400, quantity: 12 },
+				include: expect.any(Object),
+			});
+		});
+
+		it("should return 422 with the report when a row is invalid", async () => {
+			const response = await request(app)
+				.post("/api/sweets/import")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ format: "csv", content: "name,category,price,quantity\nTruffles,caramel,4,12" })
+				.expect(422);
+
+			expect(response.body.success).toBe(false);
+			expect(response.body.message).toBe("Import has invalid rows; nothing was imported");
+			expect(response.body.error.code).toBe("IMPORT_INVALID_ROWS");
+			expect(response.body.error.details.rows[0].errors).toEqual(['Unknown category "caramel"']);
+			expect(mockPrisma.sweet.create).not.toHaveBeenCalled();
+		});
+
+		it("should report invalid rows on a dry run without failing", async () => {
+			const response = await request(app)
+				.post("/api/sweets/import")
+				.set("Authorization", `Bearer ${token}`)
+				.send({
+					format: "csv",
+					content: "name,category,price,quantity\nTruffles,caramel,4,12",
+					dryRun: true,
+				})
+				.expect(200);
+
+			expect(response.body.summary.invalid).toBe(1);
+		});
+
+		it("should return 400 for an unsupported format", async () => {
+			const response = await request(app)
+				.post("/api/sweets/import")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ format: "xlsx", content })
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+			expect(response.body.error.field).toBe("format");
+		});
+
+		it("should return 403 for non-admin users", async () => {
+			signInAs(userDecodedToken);
+
+			await request(app)
+				.post("/api/sweets/import")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ format: "csv", content })
+				.expect(403);
+		});
+	});
+
+	describe("GET /api/sweets/export", () => {
+		it("should download the catalogue as CSV by default", async () => {
+			const response = await request(app)
+				.get("/api/sweets/export")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(200);
+
+			expect(response.headers["content-type"]).toContain("text/csv");
+			expect(response.headers["content-disposition"]).toMatch(
+				/^attachment; filename="sweets-\d{4}-\d{2}-\d{2}\.csv"$/
+			);
+			expect(response.text).toContain("Fudge,chocolate,2.50,10,5,20");
+		});
+
+		it("should download the catalogue as JSON", async () => {
+			const response = await request(app)
+				.get("/api/sweets/export?format=json")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(200);
+
+			expect(response.headers["content-type"]).toContain("application/json");
+			expect(response.body[0]).toMatchObject({ name: "Fudge", category: "chocolate" });
+		});
+
+		it("should return 403 for non-admin users", async () => {
+			signInAs(userDecodedToken);
+
+			await request(app)
+				.get("/api/sweets/export")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(403);
+		});
+	});
+});
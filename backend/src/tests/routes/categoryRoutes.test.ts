@@ -0,0 +1,210 @@
+/**
+ * @file Integration-style tests for catalogue category endpoints.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import request from "supertest";
+
+// Mock the database BEFORE importing app
+vi.mock("../../config/database", () => ({
+	default: {
+		category: {
+			findUnique: vi.fn(),
+			findMany: vi.fn(),
+			create: vi.fn(),
+			update: vi.fn(),
+			delete: vi.fn(),
+		},
+		session: {
+			findUnique: vi.fn(),
+		},
+	},
+}));
+
+// Mock auth utilities BEFORE importing app
+vi.mock("../../utils/auth", () => ({
+	hashPassword: vi.fn(),
+	comparePassword: vi.fn(),
+	generateToken: vi.fn(),
+	verifyToken: vi.fn(),
+}));
+
+// Import app AFTER mocks are set up
+import app from "../../index";
+
+// Import the mocked modules
+import prisma from "../../config/database";
+import * as authUtils from "../../utils/auth";
+
+const mockPrisma = prisma as any;
+const mockAuthUtils = authUtils as any;
+
+describe("Category Routes", () => {
+	const token = "valid_jwt_token";
+	const userDecodedToken = {
+		id: "user-123",
+		email: "user@example.com",
+		role: "CUSTOMER",
+		sid: "session-123",
+	};
+	const adminDecodedToken = {
+		id: "admin-123",
+		email: "admin@example.com",
+		role: "ADMIN",
+		sid: "session-456",
+	};
+	const activeSession = {
+		revokedAt: null,
+		expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+	};
+	const chocolate = {
+		id: "category-1",
+		slug: "chocolate",
+		name: "Chocolate",
+		parentId: null,
+		sortOrder: 0,
+	};
+
+	/** Authenticates subsequent requests as the user described by the token. */
+	const signInAs = (decodedToken: typeof userDecodedToken) => {
+		mockAuthUtils.verifyToken.mockReturnValue(decodedToken);
+		mockPrisma.session.findUnique.mockResolvedValue({
+			...activeSession,
+			user: { ...decodedToken, isActive: true, passwordResetRequired: false },
+		});
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		signInAs(adminDecodedToken);
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe("GET /api/categories", () => {
+		it("should list categories for any signed-in user", async () => {
+			signInAs(userDecodedToken);
+			mockPrisma.category.findMany.mockResolvedValue([
+				{ ...chocolate, _count: { sweets: 4 } },
+			]);
+
+			const response = await request(app)
+				.get("/api/categories")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(200);
+
+			expect(response.body.categories).toHaveLength(1);
+			expect(response.body.categories[0]._count.sweets).toBe(4);
+		});
+
+		it("should require authentication", async () => {
+			await request(app).get("/api/categories").expect(401);
+		});
+	});
+
+	describe("GET /api/categories/:id", () => {
+		it("should return 404 for an unknown category", async () => {
+			mockPrisma.category.findUnique.mockResolvedValue(null);
+
+			const response = await request(app)
+				.get("/api/categories/missing")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(404);
+
+			expect(response.body.error.code).toBe("CATEGORY_NOT_FOUND");
+		});
+	});
+
+	describe("POST /api/categories", () => {
+		it("should create a category as admin", async () => {
+			mockPrisma.category.findUnique.mockResolvedValue(null);
+			mockPrisma.category.create.mockResolvedValue(chocolate);
+
+			const response = await request(app)
+				.post("/api/categories")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ name: "Chocolate" })
+				.expect(201);
+
+			expect(response.body.category.slug).toBe("chocolate");
+			expect(mockPrisma.category.create).toHaveBeenCalledWith({
+				data: { name: "Chocolate", slug: "chocolate" },
+			});
+		});
+
+		it("should return 403 for non-admin users", async () => {
+			signInAs(userDecodedToken);
+
+			await request(app)
+				.post("/api/categories")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ name: "Chocolate" })
+				.expect(403);
+
+			expect(mockPrisma.category.create).not.toHaveBeenCalled();
+		});
+
+		it("should return 409 for a duplicate slug", async () => {
+			mockPrisma.category.findUnique.mockResolvedValue(chocolate);
+
+			const response = await request(app)
+				.post("/api/categories")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ name: "Chocolate" })
+				.expect(409);
+
+			expect(response.body.error.code).toBe("SLUG_CONFLICT");
+		});
+
+		it("should return 400 for an invalid slug", async () => {
+			await request(app)
+				.post("/api/categories")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ name: "Chocolate", slug: "Not A Slug" })
+				.expect(400);
+		});
+
+		it("should store a GST rate in basis points", async () => {
+			mockPrisma.category.findUnique.mockResolvedValue(null);
+			mockPrisma.category.create.mockResolvedValue({ ...chocolate, taxRate: 1800 });
+
+			await request(app)
+				.post("/api/categories")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ name: "Chocolate", taxRate: 1800 })
+				.expect(201);
+
+			expect(mockPrisma.category.create).toHaveBeenCalledWith({
+				data: { name: "Chocolate", slug: "chocolate", taxRate: 1800 },
+			});
+		});
+
+		it("should return 400 for a tax rate over 100%", async () => {
+			const response = await request(app)
+				.post("/api/categories")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ name: "Chocolate", taxRate: 18000 })
+				.expect(400);
+
+			expect(response.body.error.details.fields.taxRate).toBeDefined();
+		});
+	});
+
+	describe("DELETE /api/categories/:id", () => {
+		it("should refuse to delete a category that is in use", async () => {
+			mockPrisma.category.findUnique.mockResolvedValue({
+				...chocolate,
+				_count: { sweets: 1, children: 0 },
+			});
+
+			const response = await request(app)
+				.delete(`/api/categories/${chocolate.id}`)
+				.set("Authorization", `Bearer ${token}`)
+				.expect(409);
+
+			expect(response.body.error.code).toBe("CATEGORY_IN_USE");
+			expect(mockPrisma.category.delete).not.toHaveBeenCalled();
+		});
+	});
+});
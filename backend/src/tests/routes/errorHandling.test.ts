@@ -0,0 +1,131 @@
+/**
+ * @file Integration-style tests for the shared error envelope.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import request from "supertest";
+
+// Mock the database BEFORE importing app
+vi.mock("../../config/database", () => {
+	const client: any = {
+		sweet: {
+			findUnique: vi.fn(),
+			findMany: vi.fn(),
+			count: vi.fn(),
+		},
+		session: {
+			findUnique: vi.fn(),
+		},
+	};
+	client.$transaction = vi.fn((callback: any) => callback(client));
+	return { default: client };
+});
+
+// Mock auth utilities BEFORE importing app
+vi.mock("../../utils/auth", () => ({
+	hashPassword: vi.fn(),
+	comparePassword: vi.fn(),
+	generateToken: vi.fn(),
+	verifyToken: vi.fn(),
+}));
+
+// Import app AFTER mocks are set up
+import app from "../../index";
+
+// Import the mocked modules
+import prisma from "../../config/database";
+import * as authUtils from "../../utils/auth";
+
+const mockPrisma = prisma as any;
+const mockAuthUtils = authUtils as any;
+
+describe("Error Handling", () => {
+	const token = "valid_jwt_token";
+	const adminDecodedToken = {
+		id: "admin-123",
+		email: "admin@example.com",
+		role: "ADMIN",
+		sid: "session-456",
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma));
+		mockAuthUtils.verifyToken.mockReturnValue(adminDecodedToken);
+		mockPrisma.session.findUnique.mockResolvedValue({
+			revokedAt: null,
+			expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+			user: { ...adminDecodedToken, isActive: true, passwordResetRequired: false },
+		});
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	it("should wrap domain errors in the envelope with their status and code", async () => {
+		mockPrisma.sweet.findUnique.mockResolvedValue(null);
+
+		const response = await request(app)
+			.put("/api/sweets/missing")
+			.set("Authorization", `Bearer ${token}`)
+			.send({ price: 3 })
+			.expect(404);
+
+		expect(response.body).toEqual({
+			success: false,
+			message: "Sweet not found",
+			error: { code: "SWEET_NOT_FOUND" },
+		});
+	});
+
+	it("should list validation messages per field", async () => {
+		const response = await request(app)
+			.post("/api/sweets")
+			.set("Authorization", `Bearer ${token}`)
+			.send({ name: "Fudge", categoryId: "category-1", price: -1, quantity: 1.5 })
+			.expect(400);
+
+		expect(response.body.success).toBe(false);
+		expect(response.body.error.code).toBe("VALIDATION_FAILED");
+		expect(response.body.error.field).toBe("price");
+		expect(response.body.error.details.fields).toEqual({
+			price: ["Price must be positive"],
+			quantity: ["Expected integer, received float"],
+		});
+	});
+
+	it("should reject malformed JSON bodies", async () => {
+		const response = await request(app)
+			.post("/api/sweets")
+			.set("Authorization", `Bearer ${token}`)
+			.set("Content-Type", "application/json")
+			.send('{"name": ')
+			.expect(400);
+
+		expect(response.body.error.code).toBe("INVALID_JSON");
+	});
+
+	it("should return 404 for unknown routes", async () => {
+		const response = await request(app).get("/api/unknown").expect(404);
+
+		expect(response.body.error.code).toBe("ROUTE_NOT_FOUND");
+	});
+
+	it("should hide the details of unexpected errors", async () => {
+		const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+		mockPrisma.sweet.findMany.mockRejectedValue(new Error("connection refused"));
+		mockPrisma.sweet.count.mockResolvedValue(0);
+
+		const response = await request(app)
+			.get("/api/sweets")
+			.set("Authorization", `Bearer ${token}`)
+			.expect(500);
+
+		expect(response.body).toEqual({
+			success: false,
+			message: "Something went wrong",
+			error: { code: "INTERNAL_ERROR" },
+		});
+		consoleError.mockRestore();
+	});
+});
@@ -0,0 +1,100 @@
+/**
+ * @file Integration-style tests for the live catalogue event stream.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import request from "supertest";
+import type { IncomingMessage } from "http";
+
+// Mock the database BEFORE importing app
+vi.mock("../../config/database", () => ({
+	default: {
+		session: {
+			findUnique: vi.fn(),
+		},
+	},
+}));
+
+// Mock auth utilities BEFORE importing app
+vi.mock("../../utils/auth", () => ({
+	hashPassword: vi.fn(),
+	comparePassword: vi.fn(),
+	generateToken: vi.fn(),
+	verifyToken: vi.fn(),
+}));
+
+// Import app AFTER mocks are set up
+import app from "../../index";
+import { SweetEventService } from "../../services/sweetEventService";
+
+// Import the mocked modules
+import prisma from "../../config/database";
+import * as authUtils from "../../utils/auth";
+
+const mockPrisma = prisma as any;
+const mockAuthUtils = authUtils as any;
+
+describe("Event Routes", () => {
+	const token = "valid_jwt_token";
+	const userDecodedToken = {
+		id: "user-123",
+		email: "user@example.com",
+		role: "CUSTOMER",
+		sid: "session-123",
+	};
+	const activeSession = {
+		revokedAt: null,
+		expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+	};
+	const sweetEventService = new SweetEventService();
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockAuthUtils.verifyToken.mockReturnValue(userDecodedToken);
+		mockPrisma.session.findUnique.mockResolvedValue({
+			...activeSession,
+			user: { ...userDecodedToken, isActive: true, passwordResetRequired: false },
+		});
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe("GET /api/events/sweets", () => {
+		it("should stream events published after the client connects", async () => {
+			const response = await request(app)
+				.get("/api/events/sweets")
+				.set("Authorization", `Bearer ${token}`)
+				.buffer(true)
+				.parse((response, callback) => {
+					// Node hands the parser the raw message, which can be closed early
+					const res = response as unknown as IncomingMessage;
+					let body = "";
+					res.setEncoding("utf8");
+					res.on("data", (chunk: string) => {
+						body += chunk;
+						// The retry hint is written once the stream has subscribed
+						if (chunk.startsWith("retry:")) {
+							sweetEventService.publish({ type: "stock.changed", sweetId: "sweet-1", quantity: 0, available: 0 });
+						}
+						if (body.includes("\n\nevent:") && body.endsWith("\n\n")) {
+							res.destroy();
+							callback(null, body);
+						}
+					});
+				});
+
+			expect(response.status).toBe(200);
+			expect(response.headers["content-type"]).toBe("text/event-stream");
+			expect(response.body).toContain(
+				'event: stock.changed\ndata: {"type":"stock.changed","sweetId":"sweet-1","quantity":0,"available":0}\n\n'
+			);
+		});
+
+		it("should return 401 without authentication token", async () => {
+			const response = await request(app).get("/api/events/sweets").expect(401);
+
+			expect(response.body.error.code).toBe("UNAUTHORIZED");
+		});
+	});
+});
@@ -8,13 +8,51 @@ import request from "supertest";
 vi.mock("../../config/database", () => {
 	const mockSweet = {
 		findUnique: vi.fn(),
-		update: vi.fn(),
+		findUniqueOrThrow: vi.fn(),
+		updateMany: vi.fn(),
 	};
 
+	const mockOrder = {
+		create: vi.fn(),
+	};
+
+	const mockPromotion = {
+		findMany: vi.fn(),
+		findUnique: vi.fn(),
+	};
+
+	const mockCategory = {
+		findMany: vi.fn(),
+	};
+
+	const mockCounter = {
+		upsert: vi.fn(),
+	};
+
+	const mockInventoryMovement = {
+		create: vi.fn(),
+		findMany: vi.fn(),
+		count: vi.fn(),
+	};
+
+	const mockSession = {
+		findUnique: vi.fn(),
+	};
+
+	const client: any = {
+		sweet: mockSweet,
+		order: mockOrder,
+		promotion: mockPromotion,
+		category: mockCategory,
+		counter: mockCounter,
+		inventoryMovement: mockInventoryMovement,
+		session: mockSession,
+	};
+	// Interactive transactions run their callback against the same mocked client
+	client.$transaction = vi.fn((callback: (tx: any) => unknown) => callback(client));
+
 	return {
-		default: {
-			sweet: mockSweet,
-		},
+		default: client,
 	};
 });
 
@@ -42,17 +80,36 @@ describe("Inventory Routes", () => {
 	const userDecodedToken = {
 		id: "user-123",
 		email: "user@example.com",
-		role: "USER",
+		role: "CUSTOMER",
+		sid: "session-123",
 	};
 	const adminDecodedToken = {
 		id: "admin-123",
 		email: "admin@example.com",
 		role: "ADMIN",
+		sid: "session-123",
+	};
+
+	const activeSession = {
+		revokedAt: null,
+		expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+	};
+
+	/** Authenticates subsequent requests as the user described by the token. */
+	const signInAs = (decodedToken: typeof userDecodedToken) => {
+		mockAuthUtils.verifyToken.mockReturnValue(decodedToken);
+		mockPrisma.session.findUnique.mockResolvedValue({
+			...activeSession,
+			user: { ...decodedToken, isActive: true, passwordResetRequired: false },
+		});
 	};
 
 	beforeEach(() => {
 		vi.clearAllMocks();
-		mockAuthUtils.verifyToken.mockReturnValue(userDecodedToken);
+		signInAs(userDecodedToken);
+		mockPrisma.promotion.findMany.mockResolvedValue([]);
+		mockPrisma.category.findMany.mockResolvedValue([]);
+		mockPrisma.counter.upsert.mockResolvedValue({ name: "invoice", value: 1 });
 	});
 
 	afterEach(() => {
@@ -74,9 +131,26 @@ describe("Inventory Routes", () => {
 				updatedAt: new Date(),
 			};
 			const updatedSweet = { ...existingSweet, quantity: existingSweet.quantity - requestBody.quantity };
+			const createdOrder = {
+				id: "order-1",
+				userId: userDecodedToken.id,
+				status: "COMPLETED",
+				total: 250,
+				lines: [
+					{
+						id: "line-1",
+						sweetId,
+						sweetName: existingSweet.name,
+						unitPrice: existingSweet.price,
+						quantity: requestBody.quantity,
+						lineTotal: 250,
+					},
+				],
+			};
 
-			mockPrisma.sweet.findUnique.mockResolvedValue(existingSweet);
-			mockPrisma.sweet.update.mockResolvedValue(updatedSweet);
+			mockPrisma.sweet.updateMany.mockResolvedValue({ count: 1 });
+			mockPrisma.sweet.findUniqueOrThrow.mockResolvedValue(updatedSweet);
+			mockPrisma.order.create.mockResolvedValue(createdOrder);
 
 			const response = await request(app)
 				.post(`/api/sweets/${sweetId}/purchase`)
@@ -87,9 +161,11 @@ describe("Inventory Routes", () => {
 			expect(mockAuthUtils.verifyToken).toHaveBeenCalledWith(validToken);
 			expect(response.body.message).toBe("Sweet purchased successfully");
 			expect(response.body.sweet.quantity).toBe(updatedSweet.quantity);
+			expect(response.body.order).toEqual(createdOrder);
+			expect(mockPrisma.order.create.mock.calls[0][0].data.userId).toBe(userDecodedToken.id);
 		});
 
-		it("should return 400 when purchase quantity exceeds available stock", async () => {
+		it("should return 422 when purchase quantity exceeds available stock", async () => {
 			const sweetId = "sweet-123";
 			const requestBody = { quantity: 15 };
 			const existingSweet = {
@@ -100,20 +176,22 @@ describe("Inventory Routes", () => {
 				quantity: 10,
 			};
 
+			mockPrisma.sweet.updateMany.mockResolvedValue({ count: 0 });
 			mockPrisma.sweet.findUnique.mockResolvedValue(existingSweet);
 
 			const response = await request(app)
 				.post(`/api/sweets/${sweetId}/purchase`)
 				.set("Authorization", `Bearer ${validToken}`)
 				.send(requestBody)
-				.expect(400);
+				.expect(422);
 
-			expect(response.body.error).toBe("Insufficient quantity available");
+			expect(response.body.error.code).toBe("INSUFFICIENT_STOCK");
 		});
 
 		it("should return 404 when purchasing a non-existent sweet", async () => {
 			const sweetId = "missing-id";
 
+			mockPrisma.sweet.updateMany.mockResolvedValue({ count: 0 });
 			mockPrisma.sweet.findUnique.mockResolvedValue(null);
 
 			const response = await request(app)
@@ -122,7 +200,7 @@ describe("Inventory Routes", () => {
 				.send({ quantity: 1 })
 				.expect(404);
 
-			expect(response.body.error).toBe("Sweet not found");
+			expect(response.body.error.code).toBe("SWEET_NOT_FOUND");
 		});
 
 		it("should return 400 for invalid purchase quantity", async () => {
@@ -134,7 +212,7 @@ describe("Inventory Routes", () => {
 				.send({ quantity: 0 })
 				.expect(400);
 
-			expect(response.body.error).toBe("Validation failed");
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
 		});
 
 		it("should return 401 without authentication token", async () => {
@@ -145,7 +223,7 @@ describe("Inventory Routes", () => {
 				.send({ quantity: 2 })
 				.expect(401);
 
-			expect(response.body.error).toBe("Access denied. No token provided.");
+			expect(response.body.error.code).toBe("UNAUTHORIZED");
 		});
 	});
 
@@ -165,9 +243,9 @@ describe("Inventory Routes", () => {
 			};
 			const updatedSweet = { ...existingSweet, quantity: existingSweet.quantity + requestBody.quantity };
 
-			mockAuthUtils.verifyToken.mockReturnValue(adminDecodedToken);
-			mockPrisma.sweet.findUnique.mockResolvedValue(existingSweet);
-			mockPrisma.sweet.update.mockResolvedValue(updatedSweet);
+			signInAs(adminDecodedToken);
+			mockPrisma.sweet.updateMany.mockResolvedValue({ count: 1 });
+			mockPrisma.sweet.findUniqueOrThrow.mockResolvedValue(updatedSweet);
 
 			const response = await request(app)
 				.post(`/api/sweets/${sweetId}/restock`)
@@ -177,13 +255,18 @@ describe("Inventory Routes", () => {
 
 			expect(mockAuthUtils.verifyToken).toHaveBeenCalledWith(adminToken);
 			expect(response.body.message).toBe("Sweet restocked successfully");
+			expect(mockPrisma.inventoryMovement.create.mock.calls[0][0].data).toMatchObject({
+				type: "RESTOCK",
+				delta: requestBody.quantity,
+				userId: adminDecodedToken.id,
+			});
 			expect(response.body.sweet.quantity).toBe(updatedSweet.quantity);
 		});
 
 		it("should return 403 when non-admin attempts to restock", async () => {
 			const sweetId = "sweet-123";
 
-			mockAuthUtils.verifyToken.mockReturnValue(userDecodedToken);
+			signInAs(userDecodedToken);
 
 			const response = await request(app)
 				.post(`/api/sweets/${sweetId}/restock`)
@@ -191,14 +274,35 @@ describe("Inventory Routes", () => {
 				.send({ quantity: 5 })
 				.expect(403);
 
-			expect(response.body.error).toBe("Access denied. Admin role required.");
+			expect(response.body.error.code).toBe("FORBIDDEN");
+		});
+
+		it("should let stock clerks restock", async () => {
+			signInAs({ ...userDecodedToken, id: "clerk-123", role: "STOCK_CLERK" });
+			mockPrisma.sweet.updateMany.mockResolvedValue({ count: 1 });
+			mockPrisma.sweet.findUniqueOrThrow.mockResolvedValue({
+				id: "sweet-123",
+				quantity: 30,
+				reorderPoint: 5,
+			});
+
+			await request(app)
+				.post("/api/sweets/sweet-123/restock")
+				.set("Authorization", `Bearer ${validToken}`)
+				.send({ quantity: 20 })
+				.expect(200);
+
+			expect(mockPrisma.inventoryMovement.create.mock.calls[0][0].data).toMatchObject({
+				type: "RESTOCK",
+				userId: "clerk-123",
+			});
 		});
 
 		it("should return 404 when restocking a non-existent sweet", async () => {
 			const sweetId = "missing-id";
 
-			mockAuthUtils.verifyToken.mockReturnValue(adminDecodedToken);
-			mockPrisma.sweet.findUnique.mockResolvedValue(null);
+			signInAs(adminDecodedToken);
+			mockPrisma.sweet.updateMany.mockResolvedValue({ count: 0 });
 
 			const response = await request(app)
 				.post(`/api/sweets/${sweetId}/restock`)
@@ -206,13 +310,13 @@ describe("Inventory Routes", () => {
 				.send({ quantity: 10 })
 				.expect(404);
 
-			expect(response.body.error).toBe("Sweet not found");
+			expect(response.body.error.code).toBe("SWEET_NOT_FOUND");
 		});
 
 		it("should return 400 for invalid restock quantity", async () => {
 			const sweetId = "sweet-123";
 
-			mockAuthUtils.verifyToken.mockReturnValue(adminDecodedToken);
+			signInAs(adminDecodedToken);
 
 			const response = await request(app)
 				.post(`/api/sweets/${sweetId}/restock`)
@@ -220,7 +324,7 @@ describe("Inventory Routes", () => {
 				.send({ quantity: 0 })
 				.expect(400);
 
-			expect(response.body.error).toBe("Validation failed");
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
 		});
 
 		it("should return 401 when no authentication token is provided", async () => {
@@ -231,7 +335,69 @@ describe("Inventory Routes", () => {
 				.send({ quantity: 5 })
 				.expect(401);
 
-			expect(response.body.error).toBe("Access denied. No token provided.");
+			expect(response.body.error.code).toBe("UNAUTHORIZED");
+		});
+	});
+
+	/** Inventory ledger endpoint expectations (admin only). */
+	describe("GET /api/sweets/:id/movements", () => {
+		const sweetId = "sweet-123";
+		const movement = {
+			id: "movement-1",
+			sweetId,
+			type: "RESTOCK",
+			delta: 20,
+			resultingQuantity: 30,
+			userId: adminDecodedToken.id,
+			reason: "Weekly delivery",
+			user: { id: adminDecodedToken.id, email: adminDecodedToken.email, name: "Admin" },
+		};
+
+		it("should return a page of movements for admins", async () => {
+			signInAs(adminDecodedToken);
+			mockPrisma.inventoryMovement.findMany.mockResolvedValue([movement]);
+			mockPrisma.inventoryMovement.count.mockResolvedValue(21);
+
+			const response = await request(app)
+				.get(`/api/sweets/${sweetId}/movements?page=2&limit=10`)
+				.set("Authorization", `Bearer ${adminToken}`)
+				.expect(200);
+
+			expect(response.body.movements).toEqual([movement]);
+			expect(response.body.pagination).toEqual({
+				page: 2,
+				limit: 10,
+				total: 21,
+				totalPages: 3,
+			});
+			expect(mockPrisma.inventoryMovement.findMany).toHaveBeenCalledWith(
+				expect.objectContaining({
+					where: { sweetId },
+					orderBy: { createdAt: "desc" },
+					skip: 10,
+					take: 10,
+				})
+			);
+		});
+
+		it("should return 403 when non-admin requests the ledger", async () => {
+			const response = await request(app)
+				.get(`/api/sweets/${sweetId}/movements`)
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(403);
+
+			expect(response.body.error.code).toBe("FORBIDDEN");
+		});
+
+		it("should return 400 for invalid pagination parameters", async () => {
+			signInAs(adminDecodedToken);
+
+			const response = await request(app)
+				.get(`/api/sweets/${sweetId}/movements?limit=500`)
+				.set("Authorization", `Bearer ${adminToken}`)
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
 		});
 	});
 });
@@ -0,0 +1,368 @@
+/**
+ * @file Integration-style tests for order history endpoints.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import request from "supertest";
+
+// Mock the database BEFORE importing app
+vi.mock("../../config/database", () => {
+	const mockOrder = {
+		findMany: vi.fn(),
+		findUnique: vi.fn(),
+		count: vi.fn(),
+	};
+
+	const mockSweet = {
+		findMany: vi.fn(),
+	};
+
+	const mockCartItem = {
+		findMany: vi.fn(),
+		upsert: vi.fn(),
+	};
+
+	const mockUser = {
+		findUnique: vi.fn(),
+	};
+
+	const mockSession = {
+		findUnique: vi.fn(),
+	};
+
+	return {
+		default: {
+			order: mockOrder,
+			sweet: mockSweet,
+			cartItem: mockCartItem,
+			user: mockUser,
+			session: mockSession,
+		},
+	};
+});
+
+// Mock auth utilities BEFORE importing app
+vi.mock("../../utils/auth", () => ({
+	hashPassword: vi.fn(),
+	comparePassword: vi.fn(),
+	generateToken: vi.fn(),
+	verifyToken: vi.fn(),
+}));
+
+// Import app AFTER mocks are set up
+import app from "../../index";
+
+// Import the mocked modules
+import prisma from "../../config/database";
+import * as authUtils from "../../utils/auth";
+
+const mockPrisma = prisma as any;
+const mockAuthUtils = authUtils as any;
+
+describe("Order Routes", () => {
+	const validToken = "valid_jwt_token";
+	const userDecodedToken = {
+		id: "user-123",
+		email: "user@example.com",
+		role: "CUSTOMER",
+		sid: "session-123",
+	};
+	const sampleOrder = {
+		id: "order-1",
+		userId: userDecodedToken.id,
+		status: "COMPLETED",
+		total: 100,
+		lines: [
+			{
+				id: "line-1",
+				orderId: "order-1",
+				sweetId: "sweet-123",
+				sweetName: "Gulab Jamun",
+				unitPrice: 50,
+				quantity: 2,
+				lineTotal: 100,
+			},
+		],
+	};
+
+	const activeSession = {
+		revokedAt: null,
+		expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+	};
+
+	/** Authenticates subsequent requests as the user described by the token. */
+	const signInAs = (decodedToken: typeof userDecodedToken) => {
+		mockAuthUtils.verifyToken.mockReturnValue(decodedToken);
+		mockPrisma.session.findUnique.mockResolvedValue({
+			...activeSession,
+			user: { ...decodedToken, isActive: true, passwordResetRequired: false },
+		});
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		signInAs(userDecodedToken);
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe("GET /api/orders", () => {
+		it("should return the caller's orders", async () => {
+			mockPrisma.order.findMany.mockResolvedValue([sampleOrder]);
+			mockPrisma.order.count.mockResolvedValue(1);
+
+			const response = await request(app)
+				.get("/api/orders")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(200);
+
+			expect(response.body.orders).toEqual([sampleOrder]);
+			expect(response.body.pagination).toEqual({
+				page: 1,
+				limit: 20,
+				total: 1,
+				totalPages: 1,
+			});
+			expect(mockPrisma.order.findMany.mock.calls[0][0].where).toEqual({
+				userId: userDecodedToken.id,
+			});
+		});
+
+		it("should filter by status and date range", async () => {
+			mockPrisma.order.findMany.mockResolvedValue([]);
+			mockPrisma.order.count.mockResolvedValue(0);
+
+			await request(app)
+				.get("/api/orders?status=COMPLETED&from=2026-10-01&to=2026-10-31T23:59:59Z")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(200);
+
+			expect(mockPrisma.order.findMany.mock.calls[0][0].where).toEqual({
+				userId: userDecodedToken.id,
+				status: "COMPLETED",
+				createdAt: {
+					gte: new Date("2026-10-01"),
+					lte: new Date("2026-10-31T23:59:59Z"),
+				},
+			});
+		});
+
+		it("should reject a range that ends before it starts", async () => {
+			const response = await request(app)
+				.get("/api/orders?from=2026-10-31&to=2026-10-01")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+			expect(mockPrisma.order.findMany).not.toHaveBeenCalled();
+		});
+
+		it("should reject an unknown status", async () => {
+			const response = await request(app)
+				.get("/api/orders?status=SHIPPED")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+		});
+
+		it("should return 401 without authentication token", async () => {
+			const response = await request(app).get("/api/orders").expect(401);
+
+			expect(response.body.error.code).toBe("UNAUTHORIZED");
+		});
+	});
+
+	describe("GET /api/orders/:id", () => {
+		it("should return an order owned by the caller", async () => {
+			mockPrisma.order.findUnique.mockResolvedValue(sampleOrder);
+
+			const response = await request(app)
+				.get("/api/orders/order-1")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(200);
+
+			expect(response.body.order).toEqual(sampleOrder);
+		});
+
+		it("should return 404 for another user's order", async () => {
+			mockPrisma.order.findUnique.mockResolvedValue({
+				...sampleOrder,
+				userId: "someone-else",
+			});
+
+			const response = await request(app)
+				.get("/api/orders/order-1")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(404);
+
+			expect(response.body.error.code).toBe("ORDER_NOT_FOUND");
+		});
+
+		it("should return 404 when the order does not exist", async () => {
+			mockPrisma.order.findUnique.mockResolvedValue(null);
+
+			const response = await request(app)
+				.get("/api/orders/missing-id")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(404);
+
+			expect(response.body.error.code).toBe("ORDER_NOT_FOUND");
+		});
+	});
+
+	describe("GET /api/orders/:id/invoice", () => {
+		const invoicedOrder = {
+			...sampleOrder,
+			total: 11800,
+			discount: 0,
+			tax: 1800,
+			currency: "INR",
+			invoiceNumber: 42,
+			createdAt: new Date("2026-10-19T10:00:00Z"),
+			lines: [
+				{
+					...sampleOrder.lines[0],
+					sweetName: "Gulab <Jamun>",
+					unitPrice: 5900,
+					lineTotal: 11800,
+					discount: 0,
+					taxRate: 1800,
+					tax: 1800,
+				},
+			],
+			redemptions: [],
+		};
+
+		beforeEach(() => {
+			mockPrisma.order.findUnique.mockResolvedValue(invoicedOrder);
+			mockPrisma.user.findUnique.mockResolvedValue({ name: "Asha", email: "user@example.com" });
+		});
+
+		it("should render the invoice as HTML by default", async () => {
+			const response = await request(app)
+				.get("/api/orders/order-1/invoice")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(200);
+
+			expect(response.headers["content-type"]).toBe("text/html; charset=utf-8");
+			expect(response.text).toContain("INV-000042");
+			expect(response.text).toContain("Gulab &#60;Jamun&#62;");
+			expect(response.text).toContain("₹118.00");
+		});
+
+		it("should download the invoice as a PDF", async () => {
+			const response = await request(app)
+				.get("/api/orders/order-1/invoice?format=pdf")
+				.set("Authorization", `Bearer ${validToken}`)
+				.buffer(true)
+				.parse((res, callback) => {
+					const chunks: Buffer[] = [];
+					res.on("data", (chunk: Buffer) => chunks.push(chunk));
+					res.on("end", () => callback(null, Buffer.concat(chunks)));
+				})
+				.expect(200);
+
+			expect(response.headers["content-type"]).toBe("application/pdf");
+			expect(response.headers["content-disposition"]).toBe('attachment; filename="INV-000042.pdf"');
+			expect(response.body.subarray(0, 8).toString()).toBe("%PDF-1.4");
+		});
+
+		it("should reject an unknown format", async () => {
+			const response = await request(app)
+				.get("/api/orders/order-1/invoice?format=docx")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+		});
+
+		it("should return 404 for another user's order", async () => {
+			mockPrisma.order.findUnique.mockResolvedValue({ ...invoicedOrder, userId: "someone-else" });
+
+			const response = await request(app)
+				.get("/api/orders/order-1/invoice")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(404);
+
+			expect(response.body.error.code).toBe("ORDER_NOT_FOUND");
+		});
+	});
+
+	describe("POST /api/orders/:id/reorder", () => {
+		const gulabJamun = {
+			id: "sweet-123",
+			name: "Gulab Jamun",
+			price: 50,
+			currency: "INR",
+			quantity: 10,
+			reserved: 0,
+		};
+
+		beforeEach(() => {
+			mockPrisma.order.findUnique.mockResolvedValue(sampleOrder);
+			mockPrisma.cartItem.findMany.mockResolvedValue([]);
+			mockPrisma.cartItem.upsert.mockImplementation(async ({ create }: any) => ({
+				id: "item-1",
+				...create,
+				sweet: gulabJamun,
+			}));
+		});
+
+		it("should add the order's sweets to the caller's cart", async () => {
+			mockPrisma.sweet.findMany.mockResolvedValue([gulabJamun]);
+
+			const response = await request(app)
+				.post("/api/orders/order-1/reorder")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(200);
+
+			expect(response.body.message).toBe("Order added to cart");
+			expect(response.body.items).toHaveLength(1);
+			expect(response.body.shortfalls).toEqual([]);
+			expect(mockPrisma.cartItem.upsert.mock.calls[0][0].create).toEqual({
+				userId: userDecodedToken.id,
+				sweetId: "sweet-123",
+				quantity: 2,
+			});
+		});
+
+		it("should report lines current stock cannot cover", async () => {
+			mockPrisma.sweet.findMany.mockResolvedValue([{ ...gulabJamun, quantity: 1 }]);
+
+			const response = await request(app)
+				.post("/api/orders/order-1/reorder")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(200);
+
+			expect(response.body.message).toBe(
+				"Order added to cart with some items missing"
+			);
+			expect(response.body.shortfalls).toEqual([
+				{
+					sweetId: "sweet-123",
+					sweetName: "Gulab Jamun",
+					requested: 2,
+					added: 1,
+					reason: "INSUFFICIENT_STOCK",
+				},
+			]);
+		});
+
+		it("should return 404 for another user's order", async () => {
+			mockPrisma.order.findUnique.mockResolvedValue({
+				...sampleOrder,
+				userId: "someone-else",
+			});
+
+			const response = await request(app)
+				.post("/api/orders/order-1/reorder")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(404);
+
+			expect(response.body.error.code).toBe("ORDER_NOT_FOUND");
+			expect(mockPrisma.cartItem.upsert).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,187 @@
+/**
+ * @file Integration-style tests for sweet price history endpoints.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import request from "supertest";
+
+// Mock the database BEFORE importing app
+vi.mock("../../config/database", () => {
+	const client: any = {
+		sweet: {
+			findFirst: vi.fn(),
+		},
+		priceHistory: {
+			create: vi.fn(),
+			findMany: vi.fn(),
+			findFirst: vi.fn(),
+			delete: vi.fn(),
+		},
+		session: {
+			findUnique: vi.fn(),
+		},
+	};
+	client.$transaction = vi.fn((callback: any) => callback(client));
+
+	return { default: client };
+});
+
+// Mock auth utilities BEFORE importing app
+vi.mock("../../utils/auth", () => ({
+	hashPassword: vi.fn(),
+	comparePassword: vi.fn(),
+	generateToken: vi.fn(),
+	verifyToken: vi.fn(),
+}));
+
+// Import app AFTER mocks are set up
+import app from "../../index";
+
+// Import the mocked modules
+import prisma from "../../config/database";
+import * as authUtils from "../../utils/auth";
+
+const mockPrisma = prisma as any;
+const mockAuthUtils = authUtils as any;
+
+describe("Price History Routes", () => {
+	const token = "valid_jwt_token";
+	const customerDecodedToken = {
+		id: "user-123",
+		email: "user@example.com",
+		role: "CUSTOMER",
+		sid: "session-123",
+	};
+	const managerDecodedToken = {
+		id: "manager-123",
+		email: "manager@example.com",
+		role: "MANAGER",
+		sid: "session-456",
+	};
+	const activeSession = {
+		revokedAt: null,
+		expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+	};
+	const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+	/** Authenticates subsequent requests as the user described by the token. */
+	const signInAs = (decodedToken: typeof customerDecodedToken) => {
+		mockAuthUtils.verifyToken.mockReturnValue(decodedToken);
+		mockPrisma.session.findUnique.mockResolvedValue({
+			...activeSession,
+			user: { ...decodedToken, isActive: true, passwordResetRequired: false },
+		});
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		signInAs(managerDecodedToken);
+		mockPrisma.sweet.findFirst.mockResolvedValue({ id: "sweet-1" });
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe("GET /api/sweets/:id/prices", () => {
+		it("should return the price history", async () => {
+			const entry = {
+				id: "price-1",
+				sweetId: "sweet-1",
+				price: 299,
+				effectiveFrom: "2026-10-01T00:00:00.000Z",
+				appliedAt: "2026-10-01T00:00:00.000Z",
+				user: null,
+			};
+			mockPrisma.priceHistory.findMany.mockResolvedValue([entry]);
+
+			const response = await request(app)
+				.get("/api/sweets/sweet-1/prices")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(200);
+
+			expect(response.body.prices).toEqual([entry]);
+		});
+
+		it("should return 403 for customers", async () => {
+			signInAs(customerDecodedToken);
+
+			const response = await request(app)
+				.get("/api/sweets/sweet-1/prices")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(403);
+
+			expect(response.body.error.code).toBe("FORBIDDEN");
+		});
+	});
+
+	describe("POST /api/sweets/:id/prices", () => {
+		it("should schedule a future price", async () => {
+			mockPrisma.priceHistory.create.mockResolvedValue({ id: "price-2", price: 349 });
+
+			const response = await request(app)
+				.post("/api/sweets/sweet-1/prices")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ price: 349, effectiveFrom: tomorrow.toISOString() })
+				.expect(201);
+
+			expect(response.body.message).toBe("Price change scheduled successfully");
+			expect(mockPrisma.priceHistory.create).toHaveBeenCalledWith(
+				expect.objectContaining({
+					data: {
+						sweetId: "sweet-1",
+						price: 349,
+						effectiveFrom: tomorrow,
+						userId: managerDecodedToken.id,
+					},
+				})
+			);
+		});
+
+		it("should reject an effective time in the past", async () => {
+			const response = await request(app)
+				.post("/api/sweets/sweet-1/prices")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ price: 349, effectiveFrom: "2020-01-01T00:00:00Z" })
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+			expect(response.body.error.details.fields.effectiveFrom).toBeDefined();
+			expect(mockPrisma.priceHistory.create).not.toHaveBeenCalled();
+		});
+
+		it("should reject a fractional price", async () => {
+			const response = await request(app)
+				.post("/api/sweets/sweet-1/prices")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ price: 3.49, effectiveFrom: tomorrow.toISOString() })
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+		});
+	});
+
+	describe("DELETE /api/sweets/:id/prices/:priceId", () => {
+		it("should cancel a scheduled change", async () => {
+			mockPrisma.priceHistory.findFirst.mockResolvedValue({ id: "price-2" });
+
+			const response = await request(app)
+				.delete("/api/sweets/sweet-1/prices/price-2")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(200);
+
+			expect(response.body.message).toBe("Scheduled price change cancelled successfully");
+			expect(mockPrisma.priceHistory.delete).toHaveBeenCalledWith({ where: { id: "price-2" } });
+		});
+
+		it("should return 404 for a change that already took effect", async () => {
+			mockPrisma.priceHistory.findFirst.mockResolvedValue(null);
+
+			const response = await request(app)
+				.delete("/api/sweets/sweet-1/prices/price-1")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(404);
+
+			expect(response.body.error.code).toBe("PRICE_CHANGE_NOT_FOUND");
+		});
+	});
+});
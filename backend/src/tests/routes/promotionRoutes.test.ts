@@ -0,0 +1,244 @@
+/**
+ * @file Integration-style tests for promotion endpoints.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import request from "supertest";
+
+// Mock the database BEFORE importing app
+vi.mock("../../config/database", () => {
+	const client: any = {
+		sweet: {
+			findMany: vi.fn(),
+			findFirst: vi.fn(),
+		},
+		category: {
+			findMany: vi.fn(),
+			findUnique: vi.fn(),
+		},
+		promotion: {
+			findMany: vi.fn(),
+			findUnique: vi.fn(),
+			create: vi.fn(),
+			update: vi.fn(),
+			deleteMany: vi.fn(),
+		},
+		promotionRedemption: {
+			groupBy: vi.fn(),
+		},
+		session: {
+			findUnique: vi.fn(),
+		},
+	};
+	client.$transaction = vi.fn((callback: any) => callback(client));
+
+	return { default: client };
+});
+
+// Mock auth utilities BEFORE importing app
+vi.mock("../../utils/auth", () => ({
+	hashPassword: vi.fn(),
+	comparePassword: vi.fn(),
+	generateToken: vi.fn(),
+	verifyToken: vi.fn(),
+}));
+
+// Import app AFTER mocks are set up
+import app from "../../index";
+
+// Import the mocked modules
+import prisma from "../../config/database";
+import * as authUtils from "../../utils/auth";
+
+const mockPrisma = prisma as any;
+const mockAuthUtils = authUtils as any;
+
+describe("Promotion Routes", () => {
+	const token = "valid_jwt_token";
+	const customerDecodedToken = {
+		id: "user-123",
+		email: "user@example.com",
+		role: "CUSTOMER",
+		sid: "session-123",
+	};
+	const managerDecodedToken = {
+		id: "manager-123",
+		email: "manager@example.com",
+		role: "MANAGER",
+		sid: "session-456",
+	};
+	const activeSession = {
+		revokedAt: null,
+		expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+	};
+
+	/** Authenticates subsequent requests as the user described by the token. */
+	const signInAs = (decodedToken: typeof customerDecodedToken) => {
+		mockAuthUtils.verifyToken.mockReturnValue(decodedToken);
+		mockPrisma.session.findUnique.mockResolvedValue({
+			...activeSession,
+			user: { ...decodedToken, isActive: true, passwordResetRequired: false },
+		});
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		signInAs(managerDecodedToken);
+		mockPrisma.promotion.findMany.mockResolvedValue([]);
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe("GET /api/promotions", () => {
+		it("should list promotions for managers", async () => {
+			const promotion = { id: "promo-1", name: "Diwali", type: "PERCENTAGE", value: 10 };
+			mockPrisma.promotion.findMany.mockResolvedValue([promotion]);
+
+			const response = await request(app)
+				.get("/api/promotions")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(200);
+
+			expect(response.body.promotions).toEqual([promotion]);
+		});
+
+		it("should return 403 for customers", async () => {
+			signInAs(customerDecodedToken);
+
+			const response = await request(app)
+				.get("/api/promotions")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(403);
+
+			expect(response.body.error.code).toBe("FORBIDDEN");
+		});
+	});
+
+	describe("POST /api/promotions", () => {
+		it("should create a coupon", async () => {
+			mockPrisma.promotion.findUnique.mockResolvedValue(null);
+			mockPrisma.promotion.create.mockResolvedValue({ id: "promo-2", code: "DIWALI" });
+
+			const response = await request(app)
+				.post("/api/promotions")
+				.set("Authorization", `Bearer ${token}`)
+				.send({
+					name: "Diwali",
+					type: "PERCENTAGE",
+					value: 10,
+					code: "diwali",
+					endsAt: "2026-11-10T00:00:00Z",
+				})
+				.expect(201);
+
+			expect(response.body.message).toBe("Promotion created successfully");
+			expect(mockPrisma.promotion.create).toHaveBeenCalledWith(
+				expect.objectContaining({
+					data: expect.objectContaining({
+						code: "DIWALI",
+						endsAt: new Date("2026-11-10T00:00:00Z"),
+					}),
+				})
+			);
+		});
+
+		it("should reject a multi-buy without its quantities", async () => {
+			const response = await request(app)
+				.post("/api/promotions")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ name: "Buy two", type: "MULTI_BUY" })
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+			expect(mockPrisma.promotion.create).not.toHaveBeenCalled();
+		});
+
+		it("should reject a percentage over 100", async () => {
+			const response = await request(app)
+				.post("/api/promotions")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ name: "Too generous", type: "PERCENTAGE", value: 150 })
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+		});
+	});
+
+	describe("POST /api/promotions/quote", () => {
+		it("should price items for customers", async () => {
+			signInAs(customerDecodedToken);
+			mockPrisma.sweet.findMany.mockResolvedValue([
+				{ id: "sweet-1", name: "Ladoo", categoryId: "cat-1", price: 500, currency: "INR" },
+			]);
+			mockPrisma.promotion.findMany.mockResolvedValue([
+				{
+					id: "promo-1",
+					name: "Buy 2 get 1",
+					type: "MULTI_BUY",
+					value: 0,
+					currency: "INR",
+					buyQuantity: 2,
+					freeQuantity: 1,
+					code: null,
+					sweetId: "sweet-1",
+					categoryId: null,
+					perUserLimit: null,
+				},
+			]);
+
+			const response = await request(app)
+				.post("/api/promotions/quote")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ items: [{ sweetId: "sweet-1", quantity: 3 }] })
+				.expect(200);
+
+			expect(response.body.quote).toMatchObject({
+				subtotal: 1500,
+				discount: 500,
+				total: 1000,
+			});
+			expect(response.body.quote.promotions[0].name).toBe("Buy 2 get 1");
+		});
+
+		it("should return 422 for an unknown coupon", async () => {
+			signInAs(customerDecodedToken);
+			mockPrisma.sweet.findMany.mockResolvedValue([
+				{ id: "sweet-1", name: "Ladoo", categoryId: "cat-1", price: 500, currency: "INR" },
+			]);
+			mockPrisma.promotion.findUnique.mockResolvedValue(null);
+
+			const response = await request(app)
+				.post("/api/promotions/quote")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ items: [{ sweetId: "sweet-1", quantity: 1 }], couponCode: "nope" })
+				.expect(422);
+
+			expect(response.body.error.code).toBe("INVALID_COUPON");
+		});
+	});
+
+	describe("DELETE /api/promotions/:id", () => {
+		it("should delete a promotion", async () => {
+			mockPrisma.promotion.deleteMany.mockResolvedValue({ count: 1 });
+
+			const response = await request(app)
+				.delete("/api/promotions/promo-1")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(200);
+
+			expect(response.body.message).toBe("Promotion deleted successfully");
+		});
+
+		it("should return 404 for an unknown promotion", async () => {
+			mockPrisma.promotion.deleteMany.mockResolvedValue({ count: 0 });
+
+			const response = await request(app)
+				.delete("/api/promotions/missing")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(404);
+
+			expect(response.body.error.code).toBe("PROMOTION_NOT_FOUND");
+		});
+	});
+});
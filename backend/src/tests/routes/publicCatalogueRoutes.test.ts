@@ -0,0 +1,199 @@
+/**
+ * @file Integration-style tests for the public, unauthenticated catalogue endpoints.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import request from "supertest";
+
+// Mock the database BEFORE importing app
+vi.mock("../../config/database", () => ({
+	default: {
+		sweet: {
+			findFirst: vi.fn(),
+			findMany: vi.fn(),
+			count: vi.fn(),
+			fields: {
+				reserved: { modelName: "Sweet", name: "reserved" },
+			},
+		},
+		category: {
+			findUnique: vi.fn(),
+			findMany: vi.fn(),
+		},
+		priceHistory: {
+			findMany: vi.fn(),
+		},
+		session: {
+			findUnique: vi.fn(),
+		},
+	},
+}));
+
+// Import app AFTER mocks are set up
+import app from "../../index";
+
+// Import the mocked modules
+import prisma from "../../config/database";
+
+const mockPrisma = prisma as any;
+
+describe("Public Catalogue Routes", () => {
+	const traditional = {
+		id: "category-1",
+		slug: "traditional",
+		name: "Traditional",
+		parentId: null,
+	};
+
+	const gulabJamun = {
+		id: "sweet-1",
+		name: "Gulab Jamun",
+		categoryId: traditional.id,
+		category: traditional,
+		price: 50,
+		quantity: 12,
+		reserved: 4,
+		reorderPoint: 5,
+		reorderQuantity: 20,
+		deletedAt: null,
+		images: [],
+		createdAt: new Date("2026-01-01"),
+		updatedAt: new Date("2026-01-02"),
+	};
+
+	const publicGulabJamun = {
+		id: "sweet-1",
+		name: "Gulab Jamun",
+		category: traditional,
+		price: 50,
+		quantity: 12,
+		onHand: 12,
+		available: 8,
+		reorderPoint: 5,
+		images: [],
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe("GET /api/catalogue", () => {
+		it("should list sweets on sale without authentication", async () => {
+			mockPrisma.sweet.findMany.mockResolvedValue([gulabJamun]);
+			mockPrisma.sweet.count.mockResolvedValue(1);
+
+			const response = await request(app).get("/api/catalogue").expect(200);
+
+			expect(response.body.data).toEqual([publicGulabJamun]);
+			expect(response.body.pagination).toMatchObject({ page: 1, total: 1, nextCursor: null });
+			expect(mockPrisma.sweet.findMany).toHaveBeenCalledWith(
+				expect.objectContaining({ where: { deletedAt: null } })
+			);
+			expect(mockPrisma.session.findUnique).not.toHaveBeenCalled();
+		});
+
+		it("should reject an unknown sort field", async () => {
+			const response = await request(app)
+				.get("/api/catalogue?sortBy=reorderQuantity")
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+			expect(mockPrisma.sweet.findMany).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("GET /api/catalogue/search", () => {
+		it("should search sweets on sale by name without authentication", async () => {
+			mockPrisma.sweet.findMany.mockResolvedValue([gulabJamun]);
+			mockPrisma.sweet.count.mockResolvedValue(1);
+
+			const response = await request(app)
+				.get("/api/catalogue/search?name=gulab&inStock=true")
+				.expect(200);
+
+			expect(response.body.data).toEqual([publicGulabJamun]);
+			expect(mockPrisma.sweet.findMany).toHaveBeenCalledWith(
+				expect.objectContaining({
+					where: {
+						deletedAt: null,
+						name: { contains: "gulab", mode: "insensitive" },
+						quantity: { gt: mockPrisma.sweet.fields.reserved },
+					},
+				})
+			);
+		});
+
+		it("should reject a negative price filter", async () => {
+			const response = await request(app)
+				.get("/api/catalogue/search?minPrice=-1")
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+		});
+	});
+
+	describe("GET /api/catalogue/categories", () => {
+		it("should list categories without authentication", async () => {
+			mockPrisma.category.findMany.mockResolvedValue([traditional]);
+
+			const response = await request(app).get("/api/catalogue/categories").expect(200);
+
+			expect(response.body.categories).toEqual([traditional]);
+		});
+	});
+
+	describe("GET /api/catalogue/:id", () => {
+		it("should return the customer-safe fields of a sweet", async () => {
+			mockPrisma.sweet.findFirst.mockResolvedValue(gulabJamun);
+
+			const response = await request(app).get("/api/catalogue/sweet-1").expect(200);
+
+			expect(response.body.sweet).toEqual(publicGulabJamun);
+			expect(mockPrisma.sweet.findFirst).toHaveBeenCalledWith(
+				expect.objectContaining({ where: { id: "sweet-1", deletedAt: null } })
+			);
+		});
+
+		it("should return 404 for archived or unknown sweets", async () => {
+			mockPrisma.sweet.findFirst.mockResolvedValue(null);
+
+			const response = await request(app).get("/api/catalogue/sweet-9").expect(404);
+
+			expect(response.body.error.code).toBe("SWEET_NOT_FOUND");
+		});
+	});
+
+	describe("GET /api/catalogue/:id/prices", () => {
+		it("should list applied prices without authentication", async () => {
+			const price = {
+				id: "price-1",
+				sweetId: "sweet-1",
+				price: 5000,
+				effectiveFrom: "2026-10-01T00:00:00.000Z",
+				appliedAt: "2026-10-01T00:00:00.000Z",
+				createdAt: "2026-09-30T12:00:00.000Z",
+			};
+			mockPrisma.sweet.findFirst.mockResolvedValue({ id: "sweet-1" });
+			mockPrisma.priceHistory.findMany.mockResolvedValue([price]);
+
+			const response = await request(app).get("/api/catalogue/sweet-1/prices").expect(200);
+
+			expect(response.body.prices).toEqual([price]);
+			expect(mockPrisma.priceHistory.findMany).toHaveBeenCalledWith(
+				expect.objectContaining({ where: { sweetId: "sweet-1", appliedAt: { not: null } } })
+			);
+		});
+
+		it("should return 404 for archived or unknown sweets", async () => {
+			mockPrisma.sweet.findFirst.mockResolvedValue(null);
+
+			const response = await request(app).get("/api/catalogue/sweet-9/prices").expect(404);
+
+			expect(response.body.error.code).toBe("SWEET_NOT_FOUND");
+			expect(mockPrisma.priceHistory.findMany).not.toHaveBeenCalled();
+		});
+	});
+});
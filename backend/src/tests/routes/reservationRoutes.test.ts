@@ -0,0 +1,168 @@
+/**
+ * @file Integration-style tests for stock reservation endpoints.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import request from "supertest";
+
+// Mock the database BEFORE importing app
+vi.mock("../../config/database", () => {
+	const client: any = {
+		sweet: {
+			findUniqueOrThrow: vi.fn(),
+			update: vi.fn(),
+			updateMany: vi.fn(),
+		},
+		stockReservation: {
+			findMany: vi.fn(),
+			findFirst: vi.fn(),
+			create: vi.fn(),
+			deleteMany: vi.fn(),
+		},
+		session: {
+			findUnique: vi.fn(),
+		},
+	};
+	// Interactive transactions run their callback against the same mocked client
+	client.$transaction = vi.fn((callback: (tx: any) => unknown) => callback(client));
+
+	return {
+		default: client,
+	};
+});
+
+// Mock auth utilities BEFORE importing app
+vi.mock("../../utils/auth", () => ({
+	hashPassword: vi.fn(),
+	comparePassword: vi.fn(),
+	generateToken: vi.fn(),
+	verifyToken: vi.fn(),
+}));
+
+// Import app AFTER mocks are set up
+import app from "../../index";
+
+// Import the mocked modules
+import prisma from "../../config/database";
+import * as authUtils from "../../utils/auth";
+
+const mockPrisma = prisma as any;
+const mockAuthUtils = authUtils as any;
+
+describe("Reservation Routes", () => {
+	const validToken = "valid_jwt_token";
+	const userDecodedToken = {
+		id: "user-123",
+		email: "user@example.com",
+		role: "CUSTOMER",
+		sid: "session-123",
+	};
+	const sweet = {
+		id: "sweet-123",
+		name: "Gulab Jamun",
+		price: 50,
+		quantity: 10,
+		reserved: 0,
+	};
+	const reservation = {
+		id: "reservation-1",
+		userId: userDecodedToken.id,
+		sweetId: sweet.id,
+		quantity: 2,
+		expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockAuthUtils.verifyToken.mockReturnValue(userDecodedToken);
+		mockPrisma.session.findUnique.mockResolvedValue({
+			revokedAt: null,
+			expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+			user: { ...userDecodedToken, isActive: true, passwordResetRequired: false },
+		});
+		mockPrisma.stockReservation.findMany.mockResolvedValue([]);
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe("POST /api/reservations", () => {
+		it("should hold stock and return the sweet's stock levels", async () => {
+			mockPrisma.sweet.updateMany.mockResolvedValue({ count: 1 });
+			mockPrisma.sweet.findUniqueOrThrow.mockResolvedValue({ ...sweet, reserved: 2 });
+			mockPrisma.stockReservation.create.mockResolvedValue(reservation);
+
+			const response = await request(app)
+				.post("/api/reservations")
+				.set("Authorization", `Bearer ${validToken}`)
+				.send({ sweetId: sweet.id, quantity: 2 })
+				.expect(201);
+
+			expect(response.body.reservation.id).toBe(reservation.id);
+			expect(response.body.sweet).toMatchObject({ onHand: 10, available: 8 });
+		});
+
+		it("should return 422 when too little stock is available", async () => {
+			mockPrisma.sweet.updateMany.mockResolvedValue({ count: 1 });
+			mockPrisma.sweet.findUniqueOrThrow.mockResolvedValue({ ...sweet, reserved: 12 });
+
+			const response = await request(app)
+				.post("/api/reservations")
+				.set("Authorization", `Bearer ${validToken}`)
+				.send({ sweetId: sweet.id, quantity: 3 })
+				.expect(422);
+
+			expect(response.body.error.code).toBe("INSUFFICIENT_STOCK");
+			expect(response.body.error.details.available).toBe(1);
+			expect(mockPrisma.stockReservation.create).not.toHaveBeenCalled();
+		});
+
+		it("should return 400 for a quantity that is not positive", async () => {
+			const response = await request(app)
+				.post("/api/reservations")
+				.set("Authorization", `Bearer ${validToken}`)
+				.send({ sweetId: sweet.id, quantity: 0 })
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+		});
+
+		it("should return 401 without authentication token", async () => {
+			const response = await request(app)
+				.post("/api/reservations")
+				.send({ sweetId: sweet.id, quantity: 1 })
+				.expect(401);
+
+			expect(response.body.error.code).toBe("UNAUTHORIZED");
+		});
+	});
+
+	describe("DELETE /api/reservations/:id", () => {
+		it("should give the held units back", async () => {
+			mockPrisma.stockReservation.findFirst.mockResolvedValue(reservation);
+			mockPrisma.stockReservation.deleteMany.mockResolvedValue({ count: 1 });
+			mockPrisma.sweet.update.mockResolvedValue(sweet);
+
+			const response = await request(app)
+				.delete(`/api/reservations/${reservation.id}`)
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(200);
+
+			expect(response.body.sweet).toMatchObject({ onHand: 10, available: 10 });
+			expect(mockPrisma.stockReservation.findFirst).toHaveBeenCalledWith({
+				where: { id: reservation.id, userId: userDecodedToken.id },
+			});
+		});
+
+		it("should return 404 for a reservation the caller does not hold", async () => {
+			mockPrisma.stockReservation.findFirst.mockResolvedValue(null);
+
+			const response = await request(app)
+				.delete("/api/reservations/reservation-9")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(404);
+
+			expect(response.body.error.code).toBe("RESERVATION_NOT_FOUND");
+		});
+	});
+});
@@ -0,0 +1,242 @@
+/**
+ * @file Integration-style tests for sweet image upload and arrangement endpoints.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import request from "supertest";
+import sharp from "sharp";
+
+// Mock the database BEFORE importing app
+vi.mock("../../config/database", () => {
+	const client: any = {
+		sweet: {
+			findFirst: vi.fn(),
+		},
+		sweetImage: {
+			findMany: vi.fn(),
+			findFirst: vi.fn(),
+			createMany: vi.fn(),
+			update: vi.fn(),
+			updateMany: vi.fn(),
+			delete: vi.fn(),
+		},
+		session: {
+			findUnique: vi.fn(),
+		},
+	};
+	client.$transaction = vi.fn((input: any) =>
+		typeof input === "function" ? input(client) : Promise.all(input)
+	);
+
+	return { default: client };
+});
+
+// Keep uploads off the disk
+vi.mock("../../config/storage", () => ({
+	UPLOAD_DIR: "/nonexistent",
+	UPLOAD_URL_PATH: "/uploads",
+	default: {
+		save: vi.fn(),
+		remove: vi.fn(),
+		urlFor: vi.fn((key: string) => `/uploads/${key}`),
+	},
+}));
+
+// Mock auth utilities BEFORE importing app
+vi.mock("../../utils/auth", () => ({
+	hashPassword: vi.fn(),
+	comparePassword: vi.fn(),
+	generateToken: vi.fn(),
+	verifyToken: vi.fn(),
+}));
+
+// Import app AFTER mocks are set up
+import app from "../../index";
+
+// Import the mocked modules
+import prisma from "../../config/database";
+import storage from "../../config/storage";
+import * as authUtils from "../../utils/auth";
+import { MAX_IMAGE_BYTES } from "../../middleware/upload";
+
+const mockPrisma = prisma as any;
+const mockStorage = storage as any;
+const mockAuthUtils = authUtils as any;
+
+describe("Sweet Image Routes", () => {
+	const token = "valid_jwt_token";
+	const customerDecodedToken = {
+		id: "user-123",
+		email: "user@example.com",
+		role: "CUSTOMER",
+		sid: "session-123",
+	};
+	const managerDecodedToken = {
+		id: "manager-123",
+		email: "manager@example.com",
+		role: "MANAGER",
+		sid: "session-456",
+	};
+	const activeSession = {
+		revokedAt: null,
+		expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+	};
+	const storedImage = {
+		id: "image-1",
+		url: "/uploads/sweets/sweet-1/a.png",
+		thumbnailUrl: "/uploads/sweets/sweet-1/a-thumb.webp",
+		width: 64,
+		height: 64,
+		position: 0,
+		isPrimary: true,
+	};
+	let png: Buffer;
+
+	/** Authenticates subsequent requests as the user described by the token. */
+	const signInAs = (decodedToken: typeof customerDecodedToken) => {
+		mockAuthUtils.verifyToken.mockReturnValue(decodedToken);
+		mockPrisma.session.findUnique.mockResolvedValue({
+			...activeSession,
+			user: { ...decodedToken, isActive: true, passwordResetRequired: false },
+		});
+	};
+
+	beforeEach(async () => {
+		vi.clearAllMocks();
+		signInAs(managerDecodedToken);
+		mockPrisma.sweet.findFirst.mockResolvedValue({ id: "sweet-1" });
+		mockPrisma.sweetImage.findMany.mockResolvedValue([]);
+		png = await sharp({
+			create: { width: 64, height: 64, channels: 3, background: "#f1c40f" },
+		})
+			.png()
+			.toBuffer();
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe("POST /api/sweets/:id/images", () => {
+		it("should upload images and return the gallery", async () => {
+			mockPrisma.sweetImage.findMany
+				.mockResolvedValueOnce([])
+				.mockResolvedValueOnce([storedImage]);
+
+			const response = await request(app)
+				.post("/api/sweets/sweet-1/images")
+				.set("Authorization", `Bearer ${token}`)
+				.attach("images", png, { filename: "ladoo.png", contentType: "image/png" })
+				.expect(201);
+
+			expect(response.body.images).toEqual([storedImage]);
+			expect(mockStorage.save).toHaveBeenCalledTimes(2);
+			expect(mockPrisma.sweetImage.createMany).toHaveBeenCalled();
+		});
+
+		it("should return 403 for customers", async () => {
+			signInAs(customerDecodedToken);
+
+			const response = await request(app)
+				.post("/api/sweets/sweet-1/images")
+				.set("Authorization", `Bearer ${token}`)
+				.attach("images", png, { filename: "ladoo.png", contentType: "image/png" })
+				.expect(403);
+
+			expect(response.body.error.code).toBe("FORBIDDEN");
+			expect(mockStorage.save).not.toHaveBeenCalled();
+		});
+
+		it("should reject files declared with an unsupported type", async () => {
+			const response = await request(app)
+				.post("/api/sweets/sweet-1/images")
+				.set("Authorization", `Bearer ${token}`)
+				.attach("images", Buffer.from("GIF89a"), { filename: "anim.gif", contentType: "image/gif" })
+				.expect(400);
+
+			expect(response.body.error.code).toBe("UNSUPPORTED_MEDIA_TYPE");
+			expect(response.body.error.field).toBe("images");
+		});
+
+		it("should reject files over the size limit", async () => {
+			const response = await request(app)
+				.post("/api/sweets/sweet-1/images")
+				.set("Authorization", `Bearer ${token}`)
+				.attach("images", Buffer.alloc(MAX_IMAGE_BYTES + 1), {
+					filename: "huge.png",
+					contentType: "image/png",
+				})
+				.expect(400);
+
+			expect(response.body.error.code).toBe("FILE_TOO_LARGE");
+			expect(response.body.error.details).toEqual({ maxBytes: MAX_IMAGE_BYTES });
+		});
+
+		it("should reject a request without files", async () => {
+			const response = await request(app)
+				.post("/api/sweets/sweet-1/images")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(400);
+
+			expect(response.body.error.code).toBe("INVALID_FILE");
+		});
+	});
+
+	describe("PUT /api/sweets/:id/images/order", () => {
+		it("should reorder the images", async () => {
+			mockPrisma.sweetImage.findMany
+				.mockResolvedValueOnce([{ id: "image-1" }, { id: "image-2" }])
+				.mockResolvedValueOnce([]);
+
+			await request(app)
+				.put("/api/sweets/sweet-1/images/order")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ imageIds: ["image-2", "image-1"] })
+				.expect(200);
+
+			expect(mockPrisma.sweetImage.update).toHaveBeenCalledTimes(2);
+		});
+
+		it("should validate the body", async () => {
+			const response = await request(app)
+				.put("/api/sweets/sweet-1/images/order")
+				.set("Authorization", `Bearer ${token}`)
+				.send({ imageIds: [] })
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+		});
+	});
+
+	describe("PUT /api/sweets/:id/images/:imageId/primary", () => {
+		it("should return 404 for an unknown image", async () => {
+			mockPrisma.sweetImage.findFirst.mockResolvedValue(null);
+
+			const response = await request(app)
+				.put("/api/sweets/sweet-1/images/image-9/primary")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(404);
+
+			expect(response.body.error.code).toBe("IMAGE_NOT_FOUND");
+		});
+	});
+
+	describe("DELETE /api/sweets/:id/images/:imageId", () => {
+		it("should delete the image", async () => {
+			mockPrisma.sweetImage.findFirst.mockResolvedValueOnce({
+				id: "image-1",
+				sweetId: "sweet-1",
+				storageKey: "sweets/sweet-1/a.png",
+				thumbnailKey: "sweets/sweet-1/a-thumb.webp",
+				isPrimary: false,
+			});
+
+			const response = await request(app)
+				.delete("/api/sweets/sweet-1/images/image-1")
+				.set("Authorization", `Bearer ${token}`)
+				.expect(200);
+
+			expect(response.body.message).toBe("Image deleted successfully");
+			expect(mockStorage.remove).toHaveBeenCalledTimes(2);
+		});
+	});
+});
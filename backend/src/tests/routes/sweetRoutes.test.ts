@@ -3,6 +3,7 @@
  */
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
 import request from "supertest";
+import jwt from "jsonwebtoken";
 
 // Mock the database BEFORE importing app
 vi.mock("../../config/database", () => {
@@ -13,17 +14,59 @@ vi.mock("../../config/database", () => {
 
 	const mockSweet = {
 		findUnique: vi.fn(),
+		findFirst: vi.fn(),
 		findMany: vi.fn(),
+		count: vi.fn(),
 		create: vi.fn(),
 		update: vi.fn(),
-		delete: vi.fn(),
 	};
 
+	const mockInventoryMovement = {
+		create: vi.fn(),
+	};
+
+	const mockPriceHistory = {
+		create: vi.fn(),
+	};
+
+	const mockCartItem = {
+		deleteMany: vi.fn(),
+	};
+
+	const mockStockReservation = {
+		deleteMany: vi.fn(),
+	};
+
+	const mockLowStockAlert = {
+		create: vi.fn(),
+		updateMany: vi.fn(),
+	};
+
+	const mockSession = {
+		findUnique: vi.fn(),
+	};
+
+	const mockCategory = {
+		findUnique: vi.fn(),
+		findMany: vi.fn(),
+	};
+
+	const client: any = {
+		user: mockUser,
+		sweet: mockSweet,
+		category: mockCategory,
+		inventoryMovement: mockInventoryMovement,
+		priceHistory: mockPriceHistory,
+		cartItem: mockCartItem,
+		stockReservation: mockStockReservation,
+		lowStockAlert: mockLowStockAlert,
+		session: mockSession,
+	};
+	// Interactive transactions run their callback against the same mocked client
+	client.$transaction = vi.fn((callback: (tx: any) => unknown) => callback(client));
+
 	return {
-		default: {
-			user: mockUser,
-			sweet: mockSweet,
-		},
+		default: client,
 	};
 });
 
@@ -41,6 +84,7 @@ import app from "../../index";
 // Import the mocked modules
 import prisma from "../../config/database";
 import * as authUtils from "../../utils/auth";
+import { ROLES } from "../../config/permissions";
 
 const mockPrisma = prisma as any;
 const mockAuthUtils = authUtils as any;
@@ -51,18 +95,41 @@ describe("Sweet Routes", () => {
 	const userDecodedToken = {
 		id: "user-123",
 		email: "user@example.com",
-		role: "USER",
+		role: "CUSTOMER",
+		sid: "session-123",
 	};
 	const adminDecodedToken = {
 		id: "admin-123",
 		email: "admin@example.com",
 		role: "ADMIN",
+		sid: "session-123",
+	};
+
+	const traditional = {
+		id: "category-1",
+		slug: "traditional",
+		name: "Traditional",
+		parentId: null,
+	};
+
+	const activeSession = {
+		revokedAt: null,
+		expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+	};
+
+	/** Authenticates subsequent requests as the user described by the token. */
+	const signInAs = (decodedToken: typeof userDecodedToken) => {
+		mockAuthUtils.verifyToken.mockReturnValue(decodedToken);
+		mockPrisma.session.findUnique.mockResolvedValue({
+			...activeSession,
+			user: { ...decodedToken, isActive: true, passwordResetRequired: false },
+		});
 	};
 
 	beforeEach(() => {
 		vi.clearAllMocks();
 		// Default mock for authenticated requests
-		mockAuthUtils.verifyToken.mockReturnValue(userDecodedToken);
+		signInAs(userDecodedToken);
 	});
 
 	afterEach(() => {
@@ -70,10 +137,14 @@ describe("Sweet Routes", () => {
 	});
 
 	describe("POST /api/sweets", () => {
+		beforeEach(() => {
+			signInAs(adminDecodedToken);
+		});
+
 		it("should create a new sweet with valid data and authentication", async () => {
 			const sweetData = {
 				name: "Gulab Jamun",
-				category: "Traditional",
+				categoryId: traditional.id,
 				price: 50.0,
 				quantity: 100,
 				description: "Delicious Indian sweet",
@@ -82,22 +153,24 @@ describe("Sweet Routes", () => {
 			const createdSweet = {
 				id: "sweet-123",
 				...sweetData,
+				category: traditional,
 				createdAt: new Date(),
 				updatedAt: new Date(),
 			};
 
 			mockPrisma.sweet.findUnique.mockResolvedValue(null);
+			mockPrisma.category.findUnique.mockResolvedValue(traditional);
 			mockPrisma.sweet.create.mockResolvedValue(createdSweet);
 
 			const response = await request(app)
 				.post("/api/sweets")
-				.set("Authorization", `Bearer ${validToken}`)
+				.set("Authorization", `Bearer ${adminToken}`)
 				.send(sweetData)
 				.expect(201);
 
 			expect(response.body.message).toBe("Sweet created successfully");
 			expect(response.body.sweet.name).toBe(sweetData.name);
-			expect(response.body.sweet.category).toBe(sweetData.category);
+			expect(response.body.sweet.category).toEqual(traditional);
 			expect(response.body.sweet.price).toBe(sweetData.price);
 			expect(response.body.sweet.quantity).toBe(sweetData.quantity);
 		});
@@ -105,7 +178,7 @@ describe("Sweet Routes", () => {
 		it("should return 401 without authentication token", async () => {
 			const sweetData = {
 				name: "Gulab Jamun",
-				category: "Traditional",
+				categoryId: traditional.id,
 				price: 50.0,
 				quantity: 100,
 			};
@@ -115,17 +188,17 @@ describe("Sweet Routes", () => {
 				.send(sweetData)
 				.expect(401);
 
-			expect(response.body.error).toBe("Access denied. No token provided.");
+			expect(response.body.error.code).toBe("UNAUTHORIZED");
 		});
 
 		it("should return 401 with invalid token", async () => {
 			mockAuthUtils.verifyToken.mockImplementation(() => {
-				throw new Error("Invalid token");
+				throw new jwt.JsonWebTokenError("invalid token");
 			});
 
 			const sweetData = {
 				name: "Gulab Jamun",
-				category: "Traditional",
+				categoryId: traditional.id,
 				price: 50.0,
 				quantity: 100,
 			};
@@ -136,62 +209,74 @@ describe("Sweet Routes", () => {
 				.send(sweetData)
 				.expect(401);
 
-			expect(response.body.error).toBe("Invalid token.");
+			expect(response.body.error.code).toBe("UNAUTHORIZED");
 		});
 
 		it("should return validation error for missing required fields", async () => {
 			const invalidData = {
-				category: "Traditional",
+				categoryId: traditional.id,
 				price: 50.0,
 			};
 
 			const response = await request(app)
 				.post("/api/sweets")
-				.set("Authorization", `Bearer ${validToken}`)
+				.set("Authorization", `Bearer ${adminToken}`)
 				.send(invalidData)
 				.expect(400);
 
-			expect(response.body.error).toBe("Validation failed");
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
 		});
 
 		it("should return validation error for invalid price", async () => {
 			const invalidData = {
 				name: "Gulab Jamun",
-				category: "Traditional",
+				categoryId: traditional.id,
 				price: -10,
 				quantity: 100,
 			};
 
 			const response = await request(app)
 				.post("/api/sweets")
-				.set("Authorization", `Bearer ${validToken}`)
+				.set("Authorization", `Bearer ${adminToken}`)
 				.send(invalidData)
 				.expect(400);
 
-			expect(response.body.error).toBe("Validation failed");
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+		});
+
+		it("should reject prices that are not whole minor units", async () => {
+			const response = await request(app)
+				.post("/api/sweets")
+				.set("Authorization", `Bearer ${adminToken}`)
+				.send({ name: "Gulab Jamun", categoryId: traditional.id, price: 49.99, quantity: 100 })
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+			expect(response.body.error.details.fields.price).toEqual(["Price must be a whole number of minor units"]);
+			expect(mockPrisma.sweet.create).not.toHaveBeenCalled();
 		});
 
 		it("should return validation error for invalid quantity", async () => {
 			const invalidData = {
 				name: "Gulab Jamun",
-				category: "Traditional",
+				categoryId: traditional.id,
 				price: 50.0,
 				quantity: -5,
 			};
 
 			const response = await request(app)
 				.post("/api/sweets")
-				.set("Authorization", `Bearer ${validToken}`)
+				.set("Authorization", `Bearer ${adminToken}`)
 				.send(invalidData)
 				.expect(400);
 
-			expect(response.body.error).toBe("Validation failed");
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
 		});
 
 		it("should return error if sweet name already exists", async () => {
 			const sweetData = {
 				name: "Existing Sweet",
-				category: "Traditional",
+				categoryId: traditional.id,
 				price: 50.0,
 				quantity: 100,
 			};
@@ -199,7 +284,7 @@ describe("Sweet Routes", () => {
 			const existingSweet = {
 				id: "existing-123",
 				name: "Existing Sweet",
-				category: "Traditional",
+				category: traditional,
 				price: 50.0,
 				quantity: 100,
 			};
@@ -208,11 +293,24 @@ describe("Sweet Routes", () => {
 
 			const response = await request(app)
 				.post("/api/sweets")
-				.set("Authorization", `Bearer ${validToken}`)
+				.set("Authorization", `Bearer ${adminToken}`)
 				.send(sweetData)
-				.expect(400);
+				.expect(409);
+
+			expect(response.body.error.code).toBe("NAME_CONFLICT");
+		});
+
+		it("should return 403 for customers", async () => {
+			signInAs(userDecodedToken);
+
+			const response = await request(app)
+				.post("/api/sweets")
+				.set("Authorization", `Bearer ${validToken}`)
+				.send({ name: "Gulab Jamun", categoryId: traditional.id, price: 50, quantity: 100 })
+				.expect(403);
 
-			expect(response.body.error).toBe("Sweet with this name already exists");
+			expect(response.body.error.code).toBe("FORBIDDEN");
+			expect(mockPrisma.sweet.create).not.toHaveBeenCalled();
 		});
 	});
 
@@ -222,7 +320,7 @@ describe("Sweet Routes", () => {
 				{
 					id: "sweet-1",
 					name: "Gulab Jamun",
-					category: "Traditional",
+					category: traditional,
 					price: 50.0,
 					quantity: 100,
 					description: "Delicious Indian sweet",
@@ -232,7 +330,7 @@ describe("Sweet Routes", () => {
 				{
 					id: "sweet-2",
 					name: "Rasgulla",
-					category: "Traditional",
+					category: traditional,
 					price: 40.0,
 					quantity: 150,
 					description: "Soft and spongy",
@@ -248,9 +346,54 @@ describe("Sweet Routes", () => {
 				.set("Authorization", `Bearer ${validToken}`)
 				.expect(200);
 
-			expect(response.body.sweets).toHaveLength(2);
-			expect(response.body.sweets[0].name).toBe("Gulab Jamun");
-			expect(response.body.sweets[1].name).toBe("Rasgulla");
+			expect(response.body.data).toHaveLength(2);
+			expect(response.body.data[0].name).toBe("Gulab Jamun");
+			expect(response.body.data[1].name).toBe("Rasgulla");
+		});
+
+		it("should return pagination metadata with a cursor for the next page", async () => {
+			const sweets = ["sweet-1", "sweet-2", "sweet-3"].map((id) => ({
+				id,
+				name: id,
+				category: traditional,
+				price: 10,
+				quantity: 5,
+			}));
+
+			mockPrisma.sweet.findMany.mockResolvedValue(sweets);
+			mockPrisma.sweet.count.mockResolvedValue(7);
+
+			const response = await request(app)
+				.get("/api/sweets")
+				.query({ limit: 2, sortBy: "name", order: "asc" })
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(200);
+
+			expect(response.body.data).toHaveLength(2);
+			expect(response.body.pagination).toEqual({
+				page: 1,
+				limit: 2,
+				total: 7,
+				totalPages: 4,
+				nextCursor: "sweet-2",
+			});
+			expect(mockPrisma.sweet.findMany).toHaveBeenCalledWith(
+				expect.objectContaining({
+					orderBy: [{ name: "asc" }, { id: "asc" }],
+					take: 3,
+				})
+			);
+		});
+
+		it("should return validation error for an unknown sort field", async () => {
+			const response = await request(app)
+				.get("/api/sweets")
+				.query({ sortBy: "description" })
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+			expect(mockPrisma.sweet.findMany).not.toHaveBeenCalled();
 		});
 
 		it("should return empty array when no sweets exist", async () => {
@@ -261,18 +404,18 @@ describe("Sweet Routes", () => {
 				.set("Authorization", `Bearer ${validToken}`)
 				.expect(200);
 
-			expect(response.body.sweets).toEqual([]);
+			expect(response.body.data).toEqual([]);
 		});
 
 		it("should return 401 without authentication token", async () => {
 			const response = await request(app).get("/api/sweets").expect(401);
 
-			expect(response.body.error).toBe("Access denied. No token provided.");
+			expect(response.body.error.code).toBe("UNAUTHORIZED");
 		});
 
 		it("should return 401 with invalid token", async () => {
 			mockAuthUtils.verifyToken.mockImplementation(() => {
-				throw new Error("Invalid token");
+				throw new jwt.JsonWebTokenError("invalid token");
 			});
 
 			const response = await request(app)
@@ -280,7 +423,7 @@ describe("Sweet Routes", () => {
 				.set("Authorization", "Bearer invalid-token")
 				.expect(401);
 
-			expect(response.body.error).toBe("Invalid token.");
+			expect(response.body.error.code).toBe("UNAUTHORIZED");
 		});
 	});
 
@@ -290,7 +433,7 @@ describe("Sweet Routes", () => {
 				{
 					id: "sweet-1",
 					name: "Gulab Jamun",
-					category: "Traditional",
+					category: traditional,
 					price: 50.0,
 					quantity: 100,
 					createdAt: new Date(),
@@ -306,8 +449,8 @@ describe("Sweet Routes", () => {
 				.set("Authorization", `Bearer ${validToken}`)
 				.expect(200);
 
-			expect(response.body.sweets).toHaveLength(1);
-			expect(response.body.sweets[0].name).toContain("Gulab");
+			expect(response.body.data).toHaveLength(1);
+			expect(response.body.data[0].name).toContain("Gulab");
 		});
 
 		it("should search sweets by category", async () => {
@@ -315,7 +458,7 @@ describe("Sweet Routes", () => {
 				{
 					id: "sweet-1",
 					name: "Gulab Jamun",
-					category: "Traditional",
+					category: traditional,
 					price: 50.0,
 					quantity: 100,
 					createdAt: new Date(),
@@ -324,7 +467,7 @@ describe("Sweet Routes", () => {
 				{
 					id: "sweet-2",
 					name: "Rasgulla",
-					category: "Traditional",
+					category: traditional,
 					price: 40.0,
 					quantity: 150,
 					createdAt: new Date(),
@@ -332,17 +475,24 @@ describe("Sweet Routes", () => {
 				},
 			];
 
+			mockPrisma.category.findUnique.mockResolvedValue({ id: traditional.id });
+			mockPrisma.category.findMany.mockResolvedValue([traditional]);
 			mockPrisma.sweet.findMany.mockResolvedValue(searchResults);
 
 			const response = await request(app)
 				.get("/api/sweets/search")
-				.query({ category: "Traditional" })
+				.query({ category: traditional.slug })
 				.set("Authorization", `Bearer ${validToken}`)
 				.expect(200);
 
-			expect(response.body.sweets).toHaveLength(2);
-			expect(response.body.sweets[0].category).toBe("Traditional");
-			expect(response.body.sweets[1].category).toBe("Traditional");
+			expect(response.body.data).toHaveLength(2);
+			expect(response.body.data[0].category.name).toBe("Traditional");
+			expect(response.body.data[1].category.name).toBe("Traditional");
+			expect(mockPrisma.sweet.findMany).toHaveBeenCalledWith(
+				expect.objectContaining({
+					where: { deletedAt: null, categoryId: { in: [traditional.id] } },
+				})
+			);
 		});
 
 		it("should search sweets by price range", async () => {
@@ -350,7 +500,7 @@ describe("Sweet Routes", () => {
 				{
 					id: "sweet-1",
 					name: "Gulab Jamun",
-					category: "Traditional",
+					category: traditional,
 					price: 50.0,
 					quantity: 100,
 					createdAt: new Date(),
@@ -366,9 +516,9 @@ describe("Sweet Routes", () => {
 				.set("Authorization", `Bearer ${validToken}`)
 				.expect(200);
 
-			expect(response.body.sweets).toHaveLength(1);
-			expect(response.body.sweets[0].price).toBeGreaterThanOrEqual(40);
-			expect(response.body.sweets[0].price).toBeLessThanOrEqual(60);
+			expect(response.body.data).toHaveLength(1);
+			expect(response.body.data[0].price).toBeGreaterThanOrEqual(40);
+			expect(response.body.data[0].price).toBeLessThanOrEqual(60);
 		});
 
 		it("should search sweets with multiple criteria", async () => {
@@ -376,7 +526,7 @@ describe("Sweet Routes", () => {
 				{
 					id: "sweet-1",
 					name: "Gulab Jamun",
-					category: "Traditional",
+					category: traditional,
 					price: 50.0,
 					quantity: 100,
 					createdAt: new Date(),
@@ -384,20 +534,22 @@ describe("Sweet Routes", () => {
 				},
 			];
 
+			mockPrisma.category.findUnique.mockResolvedValue({ id: traditional.id });
+			mockPrisma.category.findMany.mockResolvedValue([traditional]);
 			mockPrisma.sweet.findMany.mockResolvedValue(searchResults);
 
 			const response = await request(app)
 				.get("/api/sweets/search")
 				.query({
 					name: "Gulab",
-					category: "Traditional",
+					category: traditional.slug,
 					minPrice: 40,
 					maxPrice: 60,
 				})
 				.set("Authorization", `Bearer ${validToken}`)
 				.expect(200);
 
-			expect(response.body.sweets).toHaveLength(1);
+			expect(response.body.data).toHaveLength(1);
 		});
 
 		it("should return empty array when no sweets match search criteria", async () => {
@@ -409,7 +561,7 @@ describe("Sweet Routes", () => {
 				.set("Authorization", `Bearer ${validToken}`)
 				.expect(200);
 
-			expect(response.body.sweets).toEqual([]);
+			expect(response.body.data).toEqual([]);
 		});
 
 		it("should return 401 without authentication token", async () => {
@@ -418,7 +570,7 @@ describe("Sweet Routes", () => {
 				.query({ name: "Gulab" })
 				.expect(401);
 
-			expect(response.body.error).toBe("Access denied. No token provided.");
+			expect(response.body.error.code).toBe("UNAUTHORIZED");
 		});
 
 		it("should return validation error for invalid price range", async () => {
@@ -428,11 +580,60 @@ describe("Sweet Routes", () => {
 				.set("Authorization", `Bearer ${validToken}`)
 				.expect(400);
 
-			expect(response.body.error).toBe("Validation failed");
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+		});
+	});
+
+	describe("GET /api/sweets/:id", () => {
+		it("should return a sweet with all of its details", async () => {
+			const sweet = {
+				id: "sweet-123",
+				name: "Gulab Jamun",
+				categoryId: traditional.id,
+				category: traditional,
+				price: 50,
+				quantity: 12,
+				reserved: 3,
+				reorderPoint: 5,
+				reorderQuantity: 20,
+				deletedAt: null,
+			};
+			mockPrisma.sweet.findFirst.mockResolvedValue(sweet);
+
+			const response = await request(app)
+				.get("/api/sweets/sweet-123")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(200);
+
+			expect(response.body.sweet).toEqual({ ...sweet, onHand: 12, available: 9 });
+			expect(mockPrisma.sweet.findFirst).toHaveBeenCalledWith(
+				expect.objectContaining({ where: { id: "sweet-123", deletedAt: null } })
+			);
+		});
+
+		it("should return 404 for an archived or unknown sweet", async () => {
+			mockPrisma.sweet.findFirst.mockResolvedValue(null);
+
+			const response = await request(app)
+				.get("/api/sweets/sweet-999")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(404);
+
+			expect(response.body.error.code).toBe("SWEET_NOT_FOUND");
+		});
+
+		it("should return 401 without authentication token", async () => {
+			const response = await request(app).get("/api/sweets/sweet-123").expect(401);
+
+			expect(response.body.error.code).toBe("UNAUTHORIZED");
 		});
 	});
 
 	describe("PUT /api/sweets/:id", () => {
+		beforeEach(() => {
+			signInAs(adminDecodedToken);
+		});
+
 		it("should update sweet with valid data and authentication", async () => {
 			const sweetId = "sweet-123";
 			const updateData = {
@@ -444,7 +645,7 @@ describe("Sweet Routes", () => {
 			const existingSweet = {
 				id: sweetId,
 				name: "Gulab Jamun",
-				category: "Traditional",
+				category: traditional,
 				price: 50.0,
 				quantity: 100,
 				createdAt: new Date(),
@@ -465,7 +666,7 @@ describe("Sweet Routes", () => {
 
 			const response = await request(app)
 				.put(`/api/sweets/${sweetId}`)
-				.set("Authorization", `Bearer ${validToken}`)
+				.set("Authorization", `Bearer ${adminToken}`)
 				.send(updateData)
 				.expect(200);
 
@@ -486,11 +687,11 @@ describe("Sweet Routes", () => {
 
 			const response = await request(app)
 				.put(`/api/sweets/${sweetId}`)
-				.set("Authorization", `Bearer ${validToken}`)
+				.set("Authorization", `Bearer ${adminToken}`)
 				.send(updateData)
 				.expect(404);
 
-			expect(response.body.error).toBe("Sweet not found");
+			expect(response.body.error.code).toBe("SWEET_NOT_FOUND");
 		});
 
 		it("should return 401 without authentication token", async () => {
@@ -505,7 +706,7 @@ describe("Sweet Routes", () => {
 				.send(updateData)
 				.expect(401);
 
-			expect(response.body.error).toBe("Access denied. No token provided.");
+			expect(response.body.error.code).toBe("UNAUTHORIZED");
 		});
 
 		it("should return validation error for invalid update data", async () => {
@@ -517,7 +718,7 @@ describe("Sweet Routes", () => {
 			const existingSweet = {
 				id: sweetId,
 				name: "Gulab Jamun",
-				category: "Traditional",
+				category: traditional,
 				price: 50.0,
 				quantity: 100,
 			};
@@ -526,11 +727,11 @@ describe("Sweet Routes", () => {
 
 			const response = await request(app)
 				.put(`/api/sweets/${sweetId}`)
-				.set("Authorization", `Bearer ${validToken}`)
+				.set("Authorization", `Bearer ${adminToken}`)
 				.send(invalidData)
 				.expect(400);
 
-			expect(response.body.error).toBe("Validation failed");
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
 		});
 
 		it("should return error if updated name conflicts with existing sweet", async () => {
@@ -542,7 +743,7 @@ describe("Sweet Routes", () => {
 			const existingSweet = {
 				id: sweetId,
 				name: "Gulab Jamun",
-				category: "Traditional",
+				category: traditional,
 				price: 50.0,
 				quantity: 100,
 			};
@@ -550,7 +751,7 @@ describe("Sweet Routes", () => {
 			const conflictingSweet = {
 				id: "other-sweet-id",
 				name: "Existing Sweet Name",
-				category: "Traditional",
+				category: traditional,
 				price: 50.0,
 				quantity: 100,
 			};
@@ -562,39 +763,53 @@ describe("Sweet Routes", () => {
 
 			const response = await request(app)
 				.put(`/api/sweets/${sweetId}`)
-				.set("Authorization", `Bearer ${validToken}`)
+				.set("Authorization", `Bearer ${adminToken}`)
 				.send(updateData)
-				.expect(400);
+				.expect(409);
 
-			expect(response.body.error).toBe("Sweet with this name already exists");
+			expect(response.body.error.code).toBe("NAME_CONFLICT");
+		});
+
+		it("should return 403 for customers", async () => {
+			signInAs(userDecodedToken);
+
+			const response = await request(app)
+				.put("/api/sweets/sweet-123")
+				.set("Authorization", `Bearer ${validToken}`)
+				.send({ price: 0.01 })
+				.expect(403);
+
+			expect(response.body.error.code).toBe("FORBIDDEN");
+			expect(mockPrisma.sweet.update).not.toHaveBeenCalled();
 		});
 	});
 
 	describe("DELETE /api/sweets/:id", () => {
-		it("should delete sweet successfully with admin authentication", async () => {
+		it("should archive sweet successfully with admin authentication", async () => {
 			const sweetId = "sweet-123";
 
 			const existingSweet = {
 				id: sweetId,
 				name: "Gulab Jamun",
-				category: "Traditional",
+				category: traditional,
 				price: 50.0,
 				quantity: 100,
 				createdAt: new Date(),
 				updatedAt: new Date(),
 			};
 
-			mockAuthUtils.verifyToken.mockReturnValue(adminDecodedToken);
-			mockPrisma.sweet.findUnique.mockResolvedValue(existingSweet);
-			mockPrisma.sweet.delete.mockResolvedValue(existingSweet);
+			signInAs(adminDecodedToken);
+			mockPrisma.sweet.findUnique.mockResolvedValue({ ...existingSweet, deletedAt: null });
+			mockPrisma.sweet.update.mockResolvedValue({ ...existingSweet, deletedAt: new Date() });
 
 			const response = await request(app)
 				.delete(`/api/sweets/${sweetId}`)
 				.set("Authorization", `Bearer ${adminToken}`)
 				.expect(200);
 
-			expect(response.body.message).toBe("Sweet deleted successfully");
+			expect(response.body.message).toBe("Sweet archived successfully");
 			expect(response.body.sweet.id).toBe(sweetId);
+			expect(response.body.sweet.deletedAt).not.toBeNull();
 		});
 
 		it("should return 403 for regular user (non-admin)", async () => {
@@ -605,13 +820,28 @@ describe("Sweet Routes", () => {
 				.set("Authorization", `Bearer ${validToken}`)
 				.expect(403);
 
-			expect(response.body.error).toBe("Access denied. Admin role required.");
+			expect(response.body.error.code).toBe("FORBIDDEN");
+		});
+
+		it("should return 403 naming the missing permission for stock clerks", async () => {
+			signInAs({ ...userDecodedToken, role: "STOCK_CLERK" });
+
+			const response = await request(app)
+				.delete("/api/sweets/sweet-123")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(403);
+
+			expect(response.body.error).toEqual({
+				code: "FORBIDDEN",
+				details: { required: ["sweet:delete"] },
+			});
+			expect(mockPrisma.sweet.update).not.toHaveBeenCalled();
 		});
 
 		it("should return 404 if sweet does not exist", async () => {
 			const sweetId = "non-existent-id";
 
-			mockAuthUtils.verifyToken.mockReturnValue(adminDecodedToken);
+			signInAs(adminDecodedToken);
 			mockPrisma.sweet.findUnique.mockResolvedValue(null);
 
 			const response = await request(app)
@@ -619,7 +849,7 @@ describe("Sweet Routes", () => {
 				.set("Authorization", `Bearer ${adminToken}`)
 				.expect(404);
 
-			expect(response.body.error).toBe("Sweet not found");
+			expect(response.body.error.code).toBe("SWEET_NOT_FOUND");
 		});
 
 		it("should return 401 without authentication token", async () => {
@@ -629,12 +859,12 @@ describe("Sweet Routes", () => {
 				.delete(`/api/sweets/${sweetId}`)
 				.expect(401);
 
-			expect(response.body.error).toBe("Access denied. No token provided.");
+			expect(response.body.error.code).toBe("UNAUTHORIZED");
 		});
 
 		it("should return 401 with invalid token", async () => {
 			mockAuthUtils.verifyToken.mockImplementation(() => {
-				throw new Error("Invalid token");
+				throw new jwt.JsonWebTokenError("invalid token");
 			});
 
 			const sweetId = "sweet-123";
@@ -644,7 +874,140 @@ describe("Sweet Routes", () => {
 				.set("Authorization", "Bearer invalid-token")
 				.expect(401);
 
-			expect(response.body.error).toBe("Invalid token.");
+			expect(response.body.error.code).toBe("UNAUTHORIZED");
+		});
+	});
+	describe("GET /api/sweets/archived", () => {
+		it("should list archived sweets for admins", async () => {
+			signInAs(adminDecodedToken);
+			mockPrisma.sweet.findMany.mockResolvedValue([
+				{ id: "sweet-1", name: "Gulab Jamun", category: traditional, deletedAt: new Date() },
+			]);
+			mockPrisma.sweet.count.mockResolvedValue(1);
+
+			const response = await request(app)
+				.get("/api/sweets/archived")
+				.set("Authorization", `Bearer ${adminToken}`)
+				.expect(200);
+
+			expect(response.body.data).toHaveLength(1);
+			expect(mockPrisma.sweet.findMany).toHaveBeenCalledWith(
+				expect.objectContaining({ where: { deletedAt: { not: null } } })
+			);
+		});
+
+		it("should return 403 for regular users", async () => {
+			const response = await request(app)
+				.get("/api/sweets/archived")
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(403);
+
+			expect(response.body.error.code).toBe("FORBIDDEN");
+		});
+	});
+
+	describe("POST /api/sweets/:id/restore", () => {
+		const archivedSweet = {
+			id: "sweet-123",
+			name: "Gulab Jamun",
+			category: traditional,
+			quantity: 100,
+			reorderPoint: 5,
+			deletedAt: new Date(),
+		};
+
+		it("should restore an archived sweet", async () => {
+			signInAs(adminDecodedToken);
+			mockPrisma.sweet.findUnique.mockResolvedValue(archivedSweet);
+			mockPrisma.sweet.update.mockResolvedValue({ ...archivedSweet, deletedAt: null });
+
+			const response = await request(app)
+				.post(`/api/sweets/${archivedSweet.id}/restore`)
+				.set("Authorization", `Bearer ${adminToken}`)
+				.expect(200);
+
+			expect(response.body.message).toBe("Sweet restored successfully");
+			expect(response.body.sweet.deletedAt).toBeNull();
+		});
+
+		it("should return 409 for a sweet that is not archived", async () => {
+			signInAs(adminDecodedToken);
+			mockPrisma.sweet.findUnique.mockResolvedValue({ ...archivedSweet, deletedAt: null });
+
+			const response = await request(app)
+				.post(`/api/sweets/${archivedSweet.id}/restore`)
+				.set("Authorization", `Bearer ${adminToken}`)
+				.expect(409);
+
+			expect(response.body.error.code).toBe("SWEET_NOT_ARCHIVED");
+		});
+
+		it("should return 403 for regular users", async () => {
+			await request(app)
+				.post(`/api/sweets/${archivedSweet.id}/restore`)
+				.set("Authorization", `Bearer ${validToken}`)
+				.expect(403);
+
+			expect(mockPrisma.sweet.update).not.toHaveBeenCalled();
 		});
 	});
+
+	/**
+	 * Every role against every /api/sweets route. Allowed requests carry an
+	 * invalid payload or an unknown id so they stop at validation or lookup
+	 * with a known status; denied requests must be stopped with a 403 first.
+	 */
+	describe("role-based access matrix", () => {
+		type Role = (typeof ROLES)[number];
+		const staff: Role[] = ["MANAGER", "ADMIN"];
+		const stockStaff: Role[] = ["STOCK_CLERK", "MANAGER", "ADMIN"];
+
+		const routes: {
+			method: "get" | "post" | "put" | "delete";
+			path: string;
+			body?: object;
+			allowed: readonly Role[];
+			allowedStatus: number;
+		}[] = [
+			{ method: "get", path: "/api/sweets?sortBy=bogus", allowed: ROLES, allowedStatus: 400 },
+			{ method: "get", path: "/api/sweets/search?minPrice=-1", allowed: ROLES, allowedStatus: 400 },
+			{ method: "get", path: "/api/sweets/missing", allowed: ROLES, allowedStatus: 404 },
+			{ method: "post", path: "/api/sweets/sweet-123/purchase", body: { quantity: 0 }, allowed: ROLES, allowedStatus: 400 },
+			{ method: "post", path: "/api/sweets", body: { name: "" }, allowed: staff, allowedStatus: 400 },
+			{ method: "put", path: "/api/sweets/sweet-123", body: { price: -1 }, allowed: staff, allowedStatus: 400 },
+			{ method: "delete", path: "/api/sweets/missing", allowed: staff, allowedStatus: 404 },
+			{ method: "get", path: "/api/sweets/archived?limit=0", allowed: staff, allowedStatus: 400 },
+			{ method: "post", path: "/api/sweets/missing/restore", allowed: staff, allowedStatus: 404 },
+			{ method: "post", path: "/api/sweets/import", body: { format: "xml" }, allowed: staff, allowedStatus: 400 },
+			{ method: "get", path: "/api/sweets/export?format=xml", allowed: staff, allowedStatus: 400 },
+			{ method: "post", path: "/api/sweets/sweet-123/restock", body: { quantity: 0 }, allowed: stockStaff, allowedStatus: 400 },
+			{ method: "get", path: "/api/sweets/sweet-123/movements?page=0", allowed: stockStaff, allowedStatus: 400 },
+		];
+
+		const cases = routes.flatMap((route) =>
+			ROLES.map((role) => ({ ...route, role, isAllowed: route.allowed.includes(role) }))
+		);
+
+		it.each(cases)(
+			"$method $path as $role",
+			async ({ method, path, body, role, isAllowed, allowedStatus }) => {
+				signInAs({ ...userDecodedToken, id: `${role.toLowerCase()}-123`, role });
+
+				let call = request(app)[method](path).set("Authorization", `Bearer ${validToken}`);
+				if (body) {
+					call = call.send(body);
+				}
+				const response = await call;
+
+				if (isAllowed) {
+					expect(response.status).toBe(allowedStatus);
+				} else {
+					expect(response.status).toBe(403);
+					expect(response.body.error.code).toBe("FORBIDDEN");
+				}
+				expect(mockPrisma.sweet.create).not.toHaveBeenCalled();
+				expect(mockPrisma.sweet.update).not.toHaveBeenCalled();
+			}
+		);
+	});
 });
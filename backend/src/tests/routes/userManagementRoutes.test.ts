@@ -0,0 +1,235 @@
+/**
+ * @file Integration-style tests for admin user management endpoints.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import request from "supertest";
+
+// Mock the database BEFORE importing app
+vi.mock("../../config/database", () => {
+	const client: any = {
+		user: {
+			findMany: vi.fn(),
+			findUnique: vi.fn(),
+			count: vi.fn(),
+			update: vi.fn(),
+		},
+		session: {
+			findUnique: vi.fn(),
+			updateMany: vi.fn(),
+		},
+	};
+	// Interactive transactions run their callback against the same mocked client
+	client.$transaction = vi.fn((callback: (tx: any) => unknown) => callback(client));
+
+	return {
+		default: client,
+	};
+});
+
+// Mock auth utilities BEFORE importing app
+vi.mock("../../utils/auth", () => ({
+	hashPassword: vi.fn(),
+	comparePassword: vi.fn(),
+	generateToken: vi.fn(),
+	verifyToken: vi.fn(),
+}));
+
+// Import app AFTER mocks are set up
+import app from "../../index";
+
+// Import the mocked modules
+import prisma from "../../config/database";
+import * as authUtils from "../../utils/auth";
+
+const mockPrisma = prisma as any;
+const mockAuthUtils = authUtils as any;
+
+describe("User Management Routes", () => {
+	const adminToken = "admin_jwt_token";
+	const userDecodedToken = {
+		id: "user-123",
+		email: "user@example.com",
+		role: "CUSTOMER",
+		sid: "session-123",
+	};
+	const adminDecodedToken = {
+		id: "admin-123",
+		email: "admin@example.com",
+		role: "ADMIN",
+		sid: "session-456",
+	};
+	const activeSession = {
+		revokedAt: null,
+		expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+	};
+	const managedUser = {
+		id: "user-123",
+		email: "user@example.com",
+		name: "Regular User",
+		role: "CUSTOMER",
+		isActive: true,
+		passwordResetRequired: false,
+	};
+
+	/** Authenticates subsequent requests as the user described by the token. */
+	const signInAs = (
+		decodedToken: typeof userDecodedToken,
+		account: { isActive?: boolean; passwordResetRequired?: boolean } = {}
+	) => {
+		mockAuthUtils.verifyToken.mockReturnValue(decodedToken);
+		mockPrisma.session.findUnique.mockResolvedValue({
+			...activeSession,
+			user: { ...decodedToken, isActive: true, passwordResetRequired: false, ...account },
+		});
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		signInAs(adminDecodedToken);
+	});
+
+	afterEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe("GET /api/admin/users", () => {
+		it("should list users with pagination metadata", async () => {
+			mockPrisma.user.findMany.mockResolvedValue([managedUser]);
+			mockPrisma.user.count.mockResolvedValue(1);
+
+			const response = await request(app)
+				.get("/api/admin/users")
+				.query({ search: "regular", status: "active" })
+				.set("Authorization", `Bearer ${adminToken}`)
+				.expect(200);
+
+			expect(response.body.data).toHaveLength(1);
+			expect(response.body.pagination).toEqual({ page: 1, limit: 20, total: 1, totalPages: 1 });
+		});
+
+		it("should return 403 for non-admin users", async () => {
+			signInAs(userDecodedToken);
+
+			const response = await request(app)
+				.get("/api/admin/users")
+				.set("Authorization", "Bearer valid_jwt_token")
+				.expect(403);
+
+			expect(response.body.error.code).toBe("FORBIDDEN");
+		});
+
+		it("should return validation error for an unknown status", async () => {
+			const response = await request(app)
+				.get("/api/admin/users")
+				.query({ status: "banned" })
+				.set("Authorization", `Bearer ${adminToken}`)
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+		});
+	});
+
+	describe("GET /api/admin/users/:id", () => {
+		it("should return 404 for a missing user", async () => {
+			mockPrisma.user.findUnique.mockResolvedValue(null);
+
+			const response = await request(app)
+				.get("/api/admin/users/missing")
+				.set("Authorization", `Bearer ${adminToken}`)
+				.expect(404);
+
+			expect(response.body.error.code).toBe("USER_NOT_FOUND");
+		});
+	});
+
+	describe("PATCH /api/admin/users/:id/role", () => {
+		it("should promote a user to admin", async () => {
+			mockPrisma.user.findUnique.mockResolvedValue(managedUser);
+			mockPrisma.user.update.mockResolvedValue({ ...managedUser, role: "ADMIN" });
+
+			const response = await request(app)
+				.patch(`/api/admin/users/${managedUser.id}/role`)
+				.set("Authorization", `Bearer ${adminToken}`)
+				.send({ role: "ADMIN" })
+				.expect(200);
+
+			expect(response.body.user.role).toBe("ADMIN");
+		});
+
+		it("should refuse to change the caller's own role", async () => {
+			const response = await request(app)
+				.patch(`/api/admin/users/${adminDecodedToken.id}/role`)
+				.set("Authorization", `Bearer ${adminToken}`)
+				.send({ role: "CUSTOMER" })
+				.expect(422);
+
+			expect(response.body.error.code).toBe("SELF_ROLE_CHANGE");
+		});
+
+		it("should return validation error for an unknown role", async () => {
+			const response = await request(app)
+				.patch(`/api/admin/users/${managedUser.id}/role`)
+				.set("Authorization", `Bearer ${adminToken}`)
+				.send({ role: "OWNER" })
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+		});
+	});
+
+	describe("POST /api/admin/users/:id/deactivate", () => {
+		it("should deactivate the account and revoke its sessions", async () => {
+			mockPrisma.user.findUnique.mockResolvedValue(managedUser);
+			mockPrisma.user.update.mockResolvedValue({ ...managedUser, isActive: false });
+
+			const response = await request(app)
+				.post(`/api/admin/users/${managedUser.id}/deactivate`)
+				.set("Authorization", `Bearer ${adminToken}`)
+				.expect(200);
+
+			expect(response.body.user.isActive).toBe(false);
+			expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+				where: { userId: managedUser.id, revokedAt: null },
+				data: { revokedAt: expect.any(Date) },
+			});
+		});
+
+		it("should reject requests from a deactivated account immediately", async () => {
+			signInAs(userDecodedToken, { isActive: false });
+
+			const response = await request(app)
+				.get("/api/sweets")
+				.set("Authorization", "Bearer valid_jwt_token")
+				.expect(401);
+
+			expect(response.body.error.code).toBe("ACCOUNT_DEACTIVATED");
+		});
+	});
+
+	describe("POST /api/admin/users/:id/reset-password", () => {
+		it("should return a one-time temporary password", async () => {
+			mockPrisma.user.findUnique.mockResolvedValue(managedUser);
+			mockAuthUtils.hashPassword.mockResolvedValue("hashed_temporary");
+			mockPrisma.user.update.mockResolvedValue({ ...managedUser, passwordResetRequired: true });
+
+			const response = await request(app)
+				.post(`/api/admin/users/${managedUser.id}/reset-password`)
+				.set("Authorization", `Bearer ${adminToken}`)
+				.expect(200);
+
+			expect(response.body.temporaryPassword).toEqual(expect.any(String));
+			expect(response.body.user.passwordResetRequired).toBe(true);
+		});
+
+		it("should block other endpoints until the password is changed", async () => {
+			signInAs(userDecodedToken, { passwordResetRequired: true });
+
+			const response = await request(app)
+				.get("/api/sweets")
+				.set("Authorization", "Bearer valid_jwt_token")
+				.expect(403);
+
+			expect(response.body.error.code).toBe("PASSWORD_RESET_REQUIRED");
+		});
+	});
+});
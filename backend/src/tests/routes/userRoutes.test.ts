@@ -3,17 +3,26 @@
  */
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
 import request from "supertest";
+import jwt from "jsonwebtoken";
 
 // Mock the database BEFORE importing app
 vi.mock("../../config/database", () => {
 	const mockUser = {
 		findUnique: vi.fn(),
 		create: vi.fn(),
+		update: vi.fn(),
+	};
+
+	const mockSession = {
+		create: vi.fn(),
+		findUnique: vi.fn(),
+		updateMany: vi.fn(),
 	};
 
 	return {
 		default: {
 			user: mockUser,
+			session: mockSession,
 		},
 	};
 });
@@ -37,6 +46,24 @@ const mockPrisma = prisma as any;
 const mockAuthUtils = authUtils as any;
 
 describe("User Routes", () => {
+	const activeSession = {
+		revokedAt: null,
+		expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+	};
+	const decodedToken = {
+		id: "user-123",
+		email: "test@example.com",
+		role: "CUSTOMER",
+		sid: "session-123",
+	};
+	const sessionUser = {
+		id: "user-123",
+		email: "test@example.com",
+		role: "CUSTOMER",
+		isActive: true,
+		passwordResetRequired: false,
+	};
+
 	beforeEach(() => {
 		// Clear mock call history but keep implementations
 		vi.clearAllMocks();
@@ -60,7 +87,7 @@ describe("User Routes", () => {
 				id: "user-123",
 				email: userData.email,
 				name: userData.name,
-				role: "USER",
+				role: "CUSTOMER",
 				createdAt: new Date(),
 			};
 
@@ -90,7 +117,7 @@ describe("User Routes", () => {
 				.send(userData)
 				.expect(400);
 
-			expect(response.body.error).toBe("Validation failed");
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
 		});
 
 		it("should return validation error for short password", async () => {
@@ -104,7 +131,7 @@ describe("User Routes", () => {
 				.send(userData)
 				.expect(400);
 
-			expect(response.body.error).toBe("Validation failed");
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
 		});
 	});
 
@@ -120,8 +147,9 @@ describe("User Routes", () => {
 				id: "user-123",
 				email: userData.email,
 				name: userData.name,
-				role: "USER",
+				role: "CUSTOMER",
 				password: "hashed_password",
+				isActive: true,
 			};
 
 			const token = "jwt_token_123";
@@ -130,6 +158,7 @@ describe("User Routes", () => {
 			mockPrisma.user.findUnique.mockResolvedValue(dbUser);
 			mockAuthUtils.comparePassword.mockResolvedValue(true);
 			mockAuthUtils.generateToken.mockReturnValue(token);
+			mockPrisma.session.create.mockResolvedValue({ id: "session-123" });
 
 			const response = await request(app)
 				.post("/api/users/login")
@@ -140,7 +169,8 @@ describe("User Routes", () => {
 				.expect(200);
 
 			expect(response.body.message).toBe("Login successful");
-			expect(response.body.token).toBeDefined();
+			expect(response.body.token).toBe(token);
+			expect(response.body.refreshToken).toEqual(expect.any(String));
 			expect(response.body.user.email).toBe(userData.email);
 		});
 
@@ -156,7 +186,7 @@ describe("User Routes", () => {
 				})
 				.expect(401);
 
-			expect(response.body.error).toBe("Invalid credentials");
+			expect(response.body.error.code).toBe("INVALID_CREDENTIALS");
 		});
 	});
 
@@ -173,19 +203,21 @@ describe("User Routes", () => {
 			const decodedToken = {
 				id: userId,
 				email: userData.email,
-				role: "USER",
+				role: "CUSTOMER",
+				sid: "session-123",
 			};
 
 			const dbUser = {
 				id: userId,
 				email: userData.email,
 				name: userData.name,
-				role: "USER",
+				role: "CUSTOMER",
 				createdAt: new Date(),
 			};
 
 			// Mock token verification and user lookup
 			mockAuthUtils.verifyToken.mockReturnValue(decodedToken);
+			mockPrisma.session.findUnique.mockResolvedValue({ ...activeSession, user: sessionUser });
 			mockPrisma.user.findUnique.mockResolvedValue(dbUser);
 
 			const response = await request(app)
@@ -200,13 +232,13 @@ describe("User Routes", () => {
 		it("should return error without token", async () => {
 			const response = await request(app).get("/api/users/profile").expect(401);
 
-			expect(response.body.error).toBe("Access denied. No token provided.");
+			expect(response.body.error.code).toBe("UNAUTHORIZED");
 		});
 
 		it("should return error with invalid token", async () => {
 			// Mock verifyToken to throw an error for invalid tokens
 			mockAuthUtils.verifyToken.mockImplementation(() => {
-				throw new Error("Invalid token");
+				throw new jwt.JsonWebTokenError("invalid token");
 			});
 
 			const response = await request(app)
@@ -214,7 +246,151 @@ describe("User Routes", () => {
 				.set("Authorization", "Bearer invalid-token")
 				.expect(401);
 
-			expect(response.body.error).toBe("Invalid token.");
+			expect(response.body.error.code).toBe("UNAUTHORIZED");
+		});
+
+		it("should return 500 rather than 401 when the session lookup fails", async () => {
+			mockAuthUtils.verifyToken.mockReturnValue({
+				id: "user-123",
+				email: "test@example.com",
+				role: "CUSTOMER",
+				sid: "session-123",
+			});
+			mockPrisma.session.findUnique.mockRejectedValue(new Error("Connection refused"));
+
+			const response = await request(app)
+				.get("/api/users/profile")
+				.set("Authorization", "Bearer valid_jwt_token")
+				.expect(500);
+
+			expect(response.body.error.code).toBe("INTERNAL_ERROR");
+		});
+	});
+
+	describe("POST /api/users/refresh", () => {
+		it("should rotate the refresh token and issue a new access token", async () => {
+			mockPrisma.session.findUnique.mockResolvedValue({
+				id: "session-123",
+				...activeSession,
+				user: sessionUser,
+			});
+			mockPrisma.session.updateMany.mockResolvedValue({ count: 1 });
+			mockAuthUtils.generateToken.mockReturnValue("new_access_token");
+
+			const response = await request(app)
+				.post("/api/users/refresh")
+				.send({ refreshToken: "old_refresh_token" })
+				.expect(200);
+
+			expect(response.body.token).toBe("new_access_token");
+			expect(response.body.refreshToken).toEqual(expect.any(String));
+			expect(response.body.refreshToken).not.toBe("old_refresh_token");
+			expect(mockAuthUtils.generateToken).toHaveBeenCalledWith(
+				expect.objectContaining({ id: "user-123", sid: "session-123" })
+			);
+		});
+
+		it("should reject an unknown refresh token", async () => {
+			mockPrisma.session.findUnique.mockResolvedValue(null);
+
+			const response = await request(app)
+				.post("/api/users/refresh")
+				.send({ refreshToken: "stolen_or_rotated_token" })
+				.expect(401);
+
+			expect(response.body.error.code).toBe("INVALID_REFRESH_TOKEN");
+			expect(mockPrisma.session.updateMany).not.toHaveBeenCalled();
+		});
+
+		it("should return validation error without a refresh token", async () => {
+			const response = await request(app)
+				.post("/api/users/refresh")
+				.send({ refreshToken: "" })
+				.expect(400);
+
+			expect(response.body.error.code).toBe("VALIDATION_FAILED");
+		});
+	});
+
+	describe("POST /api/users/logout", () => {
+		it("should revoke the current session", async () => {
+			mockAuthUtils.verifyToken.mockReturnValue(decodedToken);
+			mockPrisma.session.findUnique.mockResolvedValue({ ...activeSession, user: sessionUser });
+			mockPrisma.session.updateMany.mockResolvedValue({ count: 1 });
+
+			const response = await request(app)
+				.post("/api/users/logout")
+				.set("Authorization", "Bearer valid_jwt_token")
+				.expect(200);
+
+			expect(response.body.message).toBe("Logout successful");
+			expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+				where: { id: "session-123", revokedAt: null },
+				data: { revokedAt: expect.any(Date) },
+			});
+		});
+
+		it("should reject access tokens whose session was revoked", async () => {
+			mockAuthUtils.verifyToken.mockReturnValue(decodedToken);
+			mockPrisma.session.findUnique.mockResolvedValue({
+				...activeSession,
+				revokedAt: new Date(),
+				user: sessionUser,
+			});
+
+			const response = await request(app)
+				.get("/api/users/profile")
+				.set("Authorization", "Bearer valid_jwt_token")
+				.expect(401);
+
+			expect(response.body.error.code).toBe("SESSION_REVOKED");
+			expect(mockPrisma.user.findUnique).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("PUT /api/users/password", () => {
+		const passwordChange = {
+			currentPassword: "temporary-password",
+			newPassword: "new-password",
+		};
+
+		it("should change the password and clear a forced reset", async () => {
+			mockAuthUtils.verifyToken.mockReturnValue(decodedToken);
+			mockPrisma.session.findUnique.mockResolvedValue({
+				...activeSession,
+				user: { ...sessionUser, passwordResetRequired: true },
+			});
+			mockPrisma.user.findUnique.mockResolvedValue({ id: "user-123", password: "hashed_temporary" });
+			mockAuthUtils.comparePassword.mockResolvedValue(true);
+			mockAuthUtils.hashPassword.mockResolvedValue("hashed_new");
+
+			const response = await request(app)
+				.put("/api/users/password")
+				.set("Authorization", "Bearer valid_jwt_token")
+				.send(passwordChange)
+				.expect(200);
+
+			expect(response.body.message).toBe("Password changed successfully");
+			expect(mockPrisma.user.update).toHaveBeenCalledWith({
+				where: { id: "user-123" },
+				data: { password: "hashed_new", passwordResetRequired: false },
+			});
+		});
+
+		it("should reject an incorrect current password", async () => {
+			mockAuthUtils.verifyToken.mockReturnValue(decodedToken);
+			mockPrisma.session.findUnique.mockResolvedValue({ ...activeSession, user: sessionUser });
+			mockPrisma.user.findUnique.mockResolvedValue({ id: "user-123", password: "hashed" });
+			mockAuthUtils.comparePassword.mockResolvedValue(false);
+
+			const response = await request(app)
+				.put("/api/users/password")
+				.set("Authorization", "Bearer valid_jwt_token")
+				.send(passwordChange)
+				.expect(422);
+
+			expect(response.body.error.code).toBe("INCORRECT_PASSWORD");
+			expect(mockPrisma.user.update).not.toHaveBeenCalled();
 		});
 	});
 });
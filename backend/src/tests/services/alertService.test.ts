@@ -0,0 +1,134 @@
+/**
+ * @file Unit tests for AlertService threshold tracking and acknowledgement.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AlertService } from '../../services/alertService';
+
+vi.mock('../../config/database', () => ({
+    default: {
+        lowStockAlert: {
+            create: vi.fn(),
+            updateMany: vi.fn(),
+            findMany: vi.fn(),
+            findUnique: vi.fn(),
+            count: vi.fn(),
+            update: vi.fn(),
+        },
+    },
+}));
+
+import prisma from '../../config/database';
+
+describe('AlertService', () => {
+    let alertService: AlertService;
+    const mockPrisma = prisma as any;
+    const level = (quantity: number, reorderPoint = 5) => ({ id: 'sweet-123', quantity, reorderPoint });
+
+    beforeEach(() => {
+        alertService = new AlertService();
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    describe('recordStockChange', () => {
+        it('raises an alert when stock falls to the reorder point', async () => {
+            await alertService.recordStockChange(mockPrisma, level(6), level(5));
+
+            expect(mockPrisma.lowStockAlert.create).toHaveBeenCalledWith({
+                data: { sweetId: 'sweet-123', quantity: 5, reorderPoint: 5 },
+            });
+            expect(mockPrisma.lowStockAlert.updateMany).not.toHaveBeenCalled();
+        });
+
+        it('resolves open alerts when stock rises above the reorder point', async () => {
+            await alertService.recordStockChange(mockPrisma, level(2), level(30));
+
+            expect(mockPrisma.lowStockAlert.updateMany).toHaveBeenCalledWith({
+                where: { sweetId: 'sweet-123', resolvedAt: null },
+                data: { resolvedAt: expect.any(Date) },
+            });
+            expect(mockPrisma.lowStockAlert.create).not.toHaveBeenCalled();
+        });
+
+        it('does nothing when the threshold is not crossed', async () => {
+            await alertService.recordStockChange(mockPrisma, level(4), level(1));
+            await alertService.recordStockChange(mockPrisma, level(40), level(30));
+
+            expect(mockPrisma.lowStockAlert.create).not.toHaveBeenCalled();
+            expect(mockPrisma.lowStockAlert.updateMany).not.toHaveBeenCalled();
+        });
+
+        it('resolves the alert when the reorder point is lowered below current stock', async () => {
+            await alertService.recordStockChange(mockPrisma, level(4, 5), level(4, 2));
+
+            expect(mockPrisma.lowStockAlert.updateMany).toHaveBeenCalled();
+        });
+    });
+
+    describe('listAlerts', () => {
+        it('lists unresolved alerts with the unacknowledged count', async () => {
+            const alerts = [{ id: 'alert-1', sweetId: 'sweet-123' }];
+            mockPrisma.lowStockAlert.findMany.mockResolvedValueOnce(alerts);
+            mockPrisma.lowStockAlert.count.mockResolvedValueOnce(1).mockResolvedValueOnce(1);
+
+            const result = await alertService.listAlerts({ status: 'active', page: 1, limit: 20 });
+
+            expect(mockPrisma.lowStockAlert.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { resolvedAt: null }, skip: 0, take: 20 })
+            );
+            expect(mockPrisma.lowStockAlert.count).toHaveBeenCalledWith({
+                where: { resolvedAt: null, acknowledgedAt: null },
+            });
+            expect(result).toEqual({
+                alerts,
+                unacknowledged: 1,
+                pagination: { page: 1, limit: 20, total: 1, totalPages: 1 },
+            });
+        });
+
+        it('filters resolved alerts', async () => {
+            mockPrisma.lowStockAlert.findMany.mockResolvedValueOnce([]);
+            mockPrisma.lowStockAlert.count.mockResolvedValue(0);
+
+            await alertService.listAlerts({ status: 'resolved', page: 2, limit: 10 });
+
+            expect(mockPrisma.lowStockAlert.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { resolvedAt: { not: null } }, skip: 10, take: 10 })
+            );
+        });
+    });
+
+    describe('acknowledgeAlert', () => {
+        it('records who acknowledged the alert and when', async () => {
+            mockPrisma.lowStockAlert.findUnique.mockResolvedValueOnce({ id: 'alert-1', acknowledgedAt: null });
+            mockPrisma.lowStockAlert.update.mockResolvedValueOnce({ id: 'alert-1' });
+
+            await alertService.acknowledgeAlert('alert-1', 'admin-123');
+
+            expect(mockPrisma.lowStockAlert.update).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { id: 'alert-1' },
+                    data: { acknowledgedAt: expect.any(Date), acknowledgedById: 'admin-123' },
+                })
+            );
+        });
+
+        it('throws when the alert does not exist', async () => {
+            mockPrisma.lowStockAlert.findUnique.mockResolvedValueOnce(null);
+
+            await expect(alertService.acknowledgeAlert('missing', 'admin-123')).rejects.toThrow('Alert not found');
+        });
+
+        it('throws when the alert was already acknowledged', async () => {
+            mockPrisma.lowStockAlert.findUnique.mockResolvedValueOnce({ id: 'alert-1', acknowledgedAt: new Date() });
+
+            await expect(alertService.acknowledgeAlert('alert-1', 'admin-123')).rejects.toThrow(
+                'Alert has already been acknowledged'
+            );
+            expect(mockPrisma.lowStockAlert.update).not.toHaveBeenCalled();
+        });
+    });
+});
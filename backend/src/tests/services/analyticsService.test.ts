@@ -0,0 +1,152 @@
+/**
+ * @file Unit tests for AnalyticsService report shaping.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { AnalyticsService } from '../../services/analyticsService';
+
+vi.mock('../../config/database', () => ({
+    default: {
+        $queryRaw: vi.fn(),
+        order: {
+            count: vi.fn(),
+        },
+    },
+}));
+
+import prisma from '../../config/database';
+
+/** Rebuilds the SQL text of a mocked `$queryRaw` tagged-template call. */
+const sqlOf = ([strings, ...values]: any[]) => Prisma.sql(strings, ...values).sql;
+
+describe('AnalyticsService', () => {
+    let analyticsService: AnalyticsService;
+    const mockPrisma = prisma as any;
+    const from = new Date('2026-01-01T00:00:00.000Z');
+    const to = new Date('2026-01-31T23:59:59.999Z');
+
+    beforeEach(() => {
+        analyticsService = new AnalyticsService();
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    describe('getSales', () => {
+        it('returns each breakdown with totals summed from the time series', async () => {
+            const byPeriod = [
+                { period: from, revenue: 120.5, units: 6 },
+                { period: new Date('2026-01-02T00:00:00.000Z'), revenue: 79.5, units: 4 },
+            ];
+            const byCategory = [{ category: 'Traditional', revenue: 200, units: 10 }];
+            const bySweet = [
+                { sweetId: 'sweet-1', sweetName: 'Ladoo', category: 'Traditional', revenue: 200, units: 10 },
+            ];
+            mockPrisma.$queryRaw
+                .mockResolvedValueOnce(byPeriod)
+                .mockResolvedValueOnce(byCategory)
+                .mockResolvedValueOnce(bySweet);
+            mockPrisma.order.count.mockResolvedValueOnce(3);
+
+            const result = await analyticsService.getSales({ from, to, interval: 'week' });
+
+            expect(result).toEqual({
+                range: { from, to },
+                interval: 'week',
+                totals: { revenue: 200, units: 10, orders: 3 },
+                byPeriod,
+                byCategory,
+                bySweet,
+            });
+            expect(mockPrisma.order.count).toHaveBeenCalledWith({
+                where: { status: 'COMPLETED', createdAt: { gte: from, lte: to } },
+            });
+            expect(sqlOf(mockPrisma.$queryRaw.mock.calls[0])).toContain('date_trunc(?, o."createdAt")');
+            expect(mockPrisma.$queryRaw.mock.calls[0]).toContain('week');
+        });
+
+        it('reports zero totals when nothing sold', async () => {
+            mockPrisma.$queryRaw.mockResolvedValue([]);
+            mockPrisma.order.count.mockResolvedValueOnce(0);
+
+            const result = await analyticsService.getSales({ interval: 'day' });
+
+            expect(result.totals).toEqual({ revenue: 0, units: 0, orders: 0 });
+        });
+    });
+
+    describe('getTopSellers', () => {
+        it('ranks by the requested metric and limits the result', async () => {
+            const data = [
+                { sweetId: 'sweet-1', sweetName: 'Ladoo', category: 'Traditional', revenue: 500, units: 20 },
+            ];
+            mockPrisma.$queryRaw.mockResolvedValueOnce(data);
+
+            const result = await analyticsService.getTopSellers({ limit: 5, metric: 'revenue' });
+
+            expect(result).toEqual({ range: {}, metric: 'revenue', data });
+            const sql = sqlOf(mockPrisma.$queryRaw.mock.calls[0]);
+            expect(sql).toContain('ORDER BY "revenue" DESC, "units" DESC');
+            expect(sql).toContain('LIMIT ?');
+        });
+    });
+
+    describe('getStockTurnover', () => {
+        it('reconstructs opening and closing stock from the ledger', async () => {
+            mockPrisma.$queryRaw.mockResolvedValueOnce([
+                {
+                    sweetId: 'sweet-1',
+                    sweetName: 'Ladoo',
+                    category: 'Traditional',
+                    currentQuantity: 30,
+                    unitsSold: 40,
+                    unitsRestocked: 50,
+                    netChange: 10,
+                    changeAfterRange: 5,
+                },
+            ]);
+
+            const result = await analyticsService.getStockTurnover({ from, to });
+
+            // Closing = 30 - 5 moved after the range; opening = 25 - 10 moved within it
+            expect(result.data).toEqual([
+                {
+                    sweetId: 'sweet-1',
+                    sweetName: 'Ladoo',
+                    category: 'Traditional',
+                    currentQuantity: 30,
+                    unitsSold: 40,
+                    unitsRestocked: 50,
+                    openingStock: 15,
+                    closingStock: 25,
+                    turnover: 2,
+                },
+            ]);
+            expect(sqlOf(mockPrisma.$queryRaw.mock.calls[0])).toContain('FILTER');
+        });
+
+        it('orders by turnover and leaves it empty for sweets that never had stock', async () => {
+            const ledgerRow = {
+                category: 'Traditional',
+                unitsRestocked: 0,
+                netChange: 0,
+                changeAfterRange: 0,
+            };
+            mockPrisma.$queryRaw.mockResolvedValueOnce([
+                { ...ledgerRow, sweetId: 'empty', sweetName: 'Empty', currentQuantity: 0, unitsSold: 0 },
+                { ...ledgerRow, sweetId: 'slow', sweetName: 'Slow', currentQuantity: 100, unitsSold: 10 },
+                { ...ledgerRow, sweetId: 'fast', sweetName: 'Fast', currentQuantity: 10, unitsSold: 10 },
+            ]);
+
+            const result = await analyticsService.getStockTurnover({});
+
+            expect(result.data.map((row) => [row.sweetId, row.turnover])).toEqual([
+                ['fast', 1],
+                ['slow', 0.1],
+                ['empty', null],
+            ]);
+        });
+    });
+});
@@ -0,0 +1,297 @@
+/**
+ * @file Unit tests for CartService line management and checkout.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CartService } from '../../services/cartService';
+import { sweetWithCategory } from '../../services/sweetService';
+
+vi.mock('../../config/database', () => {
+    const client: any = {
+        sweet: {
+            findMany: vi.fn(),
+            findUnique: vi.fn(),
+            findUniqueOrThrow: vi.fn(),
+            updateMany: vi.fn(),
+        },
+        cartItem: {
+            findMany: vi.fn(),
+            findUnique: vi.fn(),
+            upsert: vi.fn(),
+            update: vi.fn(),
+            delete: vi.fn(),
+            deleteMany: vi.fn(),
+        },
+        counter: {
+            upsert: vi.fn(),
+        },
+        order: {
+            create: vi.fn(),
+            findUnique: vi.fn(),
+        },
+        category: {
+            findMany: vi.fn(),
+        },
+        promotion: {
+            findMany: vi.fn(),
+        },
+        inventoryMovement: {
+            create: vi.fn(),
+        },
+    };
+    // Interactive transactions run their callback against the same mocked client
+    client.$transaction = vi.fn((callback: (tx: any) => unknown) => callback(client));
+
+    return { default: client };
+});
+
+import prisma from '../../config/database';
+
+describe('CartService', () => {
+    let cartService: CartService;
+    const mockPrisma = prisma as any;
+    const userId = 'user-123';
+
+    const ladoo = { id: 'sweet-1', name: 'Ladoo', categoryId: 'category-1', price: 1099, currency: 'INR', quantity: 50, reserved: 0 };
+    const barfi = { id: 'sweet-2', name: 'Barfi', categoryId: 'category-2', price: 2550, currency: 'INR', quantity: 2, reserved: 0 };
+
+    beforeEach(() => {
+        cartService = new CartService();
+        vi.clearAllMocks();
+        mockPrisma.promotion.findMany.mockResolvedValue([]);
+        mockPrisma.category.findMany.mockResolvedValue([]);
+        mockPrisma.counter.upsert.mockResolvedValue({ name: 'invoice', value: 1 });
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    describe('getCart', () => {
+        it('returns cart lines with a computed total', async () => {
+            mockPrisma.cartItem.findMany.mockResolvedValueOnce([
+                { id: 'item-1', sweetId: ladoo.id, quantity: 3, sweet: ladoo },
+                { id: 'item-2', sweetId: barfi.id, quantity: 2, sweet: barfi },
+            ]);
+
+            const result = await cartService.getCart(userId);
+
+            expect(mockPrisma.cartItem.findMany).toHaveBeenCalledWith({
+                where: { userId },
+                include: { sweet: { include: sweetWithCategory } },
+                orderBy: { createdAt: 'asc' },
+            });
+            expect(result.items).toHaveLength(2);
+            expect(result.total).toBe(8397);
+            expect(result.currency).toBe('INR');
+        });
+
+        it('reports the default currency for an empty cart', async () => {
+            mockPrisma.cartItem.findMany.mockResolvedValueOnce([]);
+
+            const result = await cartService.getCart(userId);
+
+            expect(result).toEqual({ items: [], total: 0, currency: 'INR' });
+        });
+    });
+
+    describe('addItem', () => {
+        it('upserts the line so repeated adds accumulate quantity', async () => {
+            const cartItem = { id: 'item-1', userId, sweetId: ladoo.id, quantity: 2, sweet: ladoo };
+            mockPrisma.sweet.findUnique.mockResolvedValueOnce(ladoo);
+            mockPrisma.cartItem.upsert.mockResolvedValueOnce(cartItem);
+
+            const result = await cartService.addItem(userId, { sweetId: ladoo.id, quantity: 2 });
+
+            expect(mockPrisma.cartItem.upsert).toHaveBeenCalledWith({
+                where: { userId_sweetId: { userId, sweetId: ladoo.id } },
+                create: { userId, sweetId: ladoo.id, quantity: 2 },
+                update: { quantity: { increment: 2 } },
+                include: { sweet: { include: sweetWithCategory } },
+            });
+            expect(result).toEqual(cartItem);
+        });
+
+        it('throws when the sweet does not exist', async () => {
+            mockPrisma.sweet.findUnique.mockResolvedValueOnce(null);
+
+            await expect(cartService.addItem(userId, { sweetId: 'missing', quantity: 1 })).rejects.toThrow(
+                'Sweet not found'
+            );
+            expect(mockPrisma.cartItem.upsert).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('updateItem', () => {
+        it('replaces the quantity of an existing line', async () => {
+            mockPrisma.cartItem.findUnique.mockResolvedValueOnce({ id: 'item-1', quantity: 1 });
+            mockPrisma.cartItem.update.mockResolvedValueOnce({ id: 'item-1', quantity: 4 });
+
+            const result = await cartService.updateItem(userId, ladoo.id, 4);
+
+            expect(mockPrisma.cartItem.update).toHaveBeenCalledWith({
+                where: { id: 'item-1' },
+                data: { quantity: 4 },
+                include: { sweet: { include: sweetWithCategory } },
+            });
+            expect(result.quantity).toBe(4);
+        });
+
+        it('throws when the line is not in the cart', async () => {
+            mockPrisma.cartItem.findUnique.mockResolvedValueOnce(null);
+
+            await expect(cartService.updateItem(userId, ladoo.id, 4)).rejects.toThrow('Cart item not found');
+        });
+    });
+
+    describe('removeItem', () => {
+        it('deletes an existing line', async () => {
+            mockPrisma.cartItem.findUnique.mockResolvedValueOnce({ id: 'item-1' });
+            mockPrisma.cartItem.delete.mockResolvedValueOnce({ id: 'item-1' });
+
+            await cartService.removeItem(userId, ladoo.id);
+
+            expect(mockPrisma.cartItem.delete).toHaveBeenCalledWith({ where: { id: 'item-1' } });
+        });
+
+        it('throws when the line is not in the cart', async () => {
+            mockPrisma.cartItem.findUnique.mockResolvedValueOnce(null);
+
+            await expect(cartService.removeItem(userId, ladoo.id)).rejects.toThrow('Cart item not found');
+        });
+    });
+
+    describe('reorder', () => {
+        const customer = { id: userId, role: 'CUSTOMER' };
+        const orderLine = (sweetId: string | null, sweetName: string, quantity: number) => ({
+            id: `line-${sweetName}`,
+            orderId: 'order-1',
+            sweetId,
+            sweetName,
+            quantity,
+        });
+        const pastOrder = {
+            id: 'order-1',
+            userId,
+            lines: [
+                orderLine(ladoo.id, 'Ladoo', 3),
+                orderLine(barfi.id, 'Barfi', 4),
+                orderLine(null, 'Peda', 1),
+            ],
+        };
+
+        beforeEach(() => {
+            mockPrisma.order.findUnique.mockResolvedValue(pastOrder);
+            mockPrisma.sweet.findMany.mockResolvedValue([ladoo, barfi]);
+            mockPrisma.cartItem.findMany.mockResolvedValue([]);
+            mockPrisma.cartItem.upsert.mockImplementation(async ({ create }: any) => ({ id: `item-${create.sweetId}`, ...create }));
+        });
+
+        it('adds what stock allows and reports the rest', async () => {
+            const result = await cartService.reorder(customer, 'order-1');
+
+            expect(mockPrisma.sweet.findMany).toHaveBeenCalledWith({
+                where: { id: { in: [ladoo.id, barfi.id] }, deletedAt: null },
+                include: sweetWithCategory,
+            });
+            expect(result.items.map((item: any) => [item.sweetId, item.quantity])).toEqual([
+                [ladoo.id, 3],
+                [barfi.id, 2],
+            ]);
+            expect(result.shortfalls).toEqual([
+                { sweetId: barfi.id, sweetName: 'Barfi', requested: 4, added: 2, reason: 'INSUFFICIENT_STOCK' },
+                { sweetId: null, sweetName: 'Peda', requested: 1, added: 0, reason: 'SWEET_UNAVAILABLE' },
+            ]);
+        });
+
+        it('counts stock already in the cart', async () => {
+            mockPrisma.cartItem.findMany.mockResolvedValueOnce([{ sweetId: barfi.id, quantity: 2 }]);
+
+            const result = await cartService.reorder(customer, 'order-1');
+
+            expect(mockPrisma.cartItem.upsert).toHaveBeenCalledTimes(1);
+            expect(result.shortfalls[0]).toEqual({
+                sweetId: barfi.id,
+                sweetName: 'Barfi',
+                requested: 4,
+                added: 0,
+                reason: 'INSUFFICIENT_STOCK',
+            });
+        });
+
+        it('leaves out units held by reservations', async () => {
+            mockPrisma.sweet.findMany.mockResolvedValueOnce([{ ...ladoo, reserved: 48 }, barfi]);
+
+            const result = await cartService.reorder(customer, 'order-1');
+
+            expect(result.items[0]).toMatchObject({ sweetId: ladoo.id, quantity: 2 });
+            expect(result.shortfalls[0]).toEqual({
+                sweetId: ladoo.id,
+                sweetName: 'Ladoo',
+                requested: 3,
+                added: 2,
+                reason: 'INSUFFICIENT_STOCK',
+            });
+        });
+
+        it('reports sweets removed from the catalogue since the order', async () => {
+            mockPrisma.sweet.findMany.mockResolvedValueOnce([barfi]);
+
+            const result = await cartService.reorder(customer, 'order-1');
+
+            expect(result.shortfalls[0]).toMatchObject({ sweetId: ladoo.id, reason: 'SWEET_UNAVAILABLE' });
+        });
+
+        it('refuses to repeat another user\'s order', async () => {
+            await expect(cartService.reorder({ id: 'someone-else', role: 'CUSTOMER' }, 'order-1')).rejects.toThrow(
+                'Order not found'
+            );
+            expect(mockPrisma.cartItem.upsert).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('checkout', () => {
+        it('purchases every line as one order and empties the cart', async () => {
+            mockPrisma.cartItem.findMany.mockResolvedValueOnce([
+                { sweetId: ladoo.id, quantity: 3 },
+                { sweetId: barfi.id, quantity: 2 },
+            ]);
+            mockPrisma.sweet.updateMany.mockResolvedValue({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockImplementation(async ({ where }: any) =>
+                where.id === ladoo.id ? { ...ladoo, quantity: 47 } : { ...barfi, quantity: 0 }
+            );
+            mockPrisma.order.create.mockImplementation(async ({ data }: any) => ({ id: 'order-1', ...data }));
+
+            const result = await cartService.checkout(userId);
+
+            expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+            expect(mockPrisma.sweet.updateMany).toHaveBeenCalledTimes(2);
+            expect(result.order).toMatchObject({ total: 8397, currency: 'INR' });
+            expect(result.sweets.map((sweet: any) => sweet.id)).toEqual([ladoo.id, barfi.id]);
+            expect(mockPrisma.cartItem.deleteMany).toHaveBeenCalledWith({ where: { userId } });
+        });
+
+        it('fails the whole checkout when any line is short', async () => {
+            mockPrisma.cartItem.findMany.mockResolvedValueOnce([
+                { sweetId: ladoo.id, quantity: 3 },
+                { sweetId: barfi.id, quantity: 5 },
+            ]);
+            mockPrisma.sweet.updateMany.mockImplementation(async ({ where }: any) => ({
+                count: where.id === barfi.id ? 0 : 1,
+            }));
+            mockPrisma.sweet.findUnique.mockResolvedValue(barfi);
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValue(ladoo);
+
+            await expect(cartService.checkout(userId)).rejects.toThrow('Insufficient quantity available');
+
+            expect(mockPrisma.order.create).not.toHaveBeenCalled();
+            expect(mockPrisma.cartItem.deleteMany).not.toHaveBeenCalled();
+        });
+
+        it('throws when the cart is empty', async () => {
+            mockPrisma.cartItem.findMany.mockResolvedValueOnce([]);
+
+            await expect(cartService.checkout(userId)).rejects.toThrow('Cart is empty');
+            expect(mockPrisma.sweet.updateMany).not.toHaveBeenCalled();
+        });
+    });
+});
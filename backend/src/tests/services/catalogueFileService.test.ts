@@ -0,0 +1,302 @@
+/**
+ * @file Unit tests for CatalogueFileService covering file parsing, dry runs and upserts.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CatalogueFileService } from '../../services/catalogueFileService';
+import { SweetEventService } from '../../services/sweetEventService';
+import { sweetWithCategory } from '../../services/sweetService';
+
+vi.mock('../../config/database', () => {
+    const client: any = {
+        sweet: {
+            findMany: vi.fn(),
+            create: vi.fn(),
+            update: vi.fn(),
+        },
+        category: {
+            findMany: vi.fn(),
+        },
+        inventoryMovement: {
+            create: vi.fn(),
+        },
+        priceHistory: {
+            create: vi.fn(),
+        },
+        lowStockAlert: {
+            create: vi.fn(),
+            updateMany: vi.fn(),
+        },
+    };
+    client.$transaction = vi.fn((callback: any) => callback(client));
+    return { default: client };
+});
+
+import prisma from '../../config/database';
+
+describe('CatalogueFileService', () => {
+    let catalogueFileService: CatalogueFileService;
+    const mockPrisma = prisma as any;
+
+    const categories = [
+        { id: 'cat-chocolate', slug: 'chocolate' },
+        { id: 'cat-gummies', slug: 'gummies' },
+    ];
+    const fudge = {
+        id: 'sweet-fudge',
+        name: 'Fudge',
+        categoryId: 'cat-chocolate',
+        category: { slug: 'chocolate' },
+        price: 250,
+        currency: 'INR',
+        quantity: 10,
+        reorderPoint: 5,
+        reorderQuantity: 20,
+    };
+
+    const csv = (...lines: string[]) => ['name,category,price,quantity', ...lines].join('\n');
+
+    beforeEach(() => {
+        catalogueFileService = new CatalogueFileService();
+        vi.clearAllMocks();
+        mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma));
+        mockPrisma.category.findMany.mockResolvedValue(categories);
+        mockPrisma.sweet.findMany.mockResolvedValue([fudge]);
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    describe('importCatalogue', () => {
+        it('previews creates, updates and unchanged rows without writing on a dry run', async () => {
+            const report = await catalogueFileService.importCatalogue(
+                {
+                    format: 'csv',
+                    content: csv('Fudge,chocolate,3,10', 'Jelly Beans,gummies,1.25,40', '"Fudge, Salted",chocolate,2,0'),
+                    dryRun: true,
+                },
+                'admin-123'
+            );
+
+            expect(report.committed).toBe(false);
+            expect(report.summary).toEqual({ total: 3, create: 2, update: 1, unchanged: 0, invalid: 0 });
+            expect(report.rows[0]).toMatchObject({
+                row: 1,
+                name: 'Fudge',
+                action: 'update',
+                sweetId: 'sweet-fudge',
+                changes: { price: { from: '2.50', to: '3.00' } },
+            });
+            expect(report.rows[2].name).toBe('Fudge, Salted');
+            expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+            expect(mockPrisma.sweet.create).not.toHaveBeenCalled();
+            expect(mockPrisma.sweet.update).not.toHaveBeenCalled();
+        });
+
+        it('reports per-row validation errors, unknown categories and name conflicts', async () => {
+            const report = await catalogueFileService.importCatalogue(
+                {
+                    format: 'csv',
+                    content: csv(
+                        'Toffee,caramel,1,5',
+                        'Mints,gummies,-1,5',
+                        'fudge,chocolate,1,5',
+                        'Mints,gummies,1,5',
+                        'Toffee,gummies,1.999,5'
+                    ),
+                    dryRun: true,
+                },
+                'admin-123'
+            );
+
+            expect(report.summary.invalid).toBe(5);
+            expect(report.rows[0].errors).toEqual(['Unknown category "caramel"']);
+            expect(report.rows[1].errors).toEqual(['price: Price must be positive']);
+            expect(report.rows[2].errors).toEqual(['Name conflicts with existing sweet "Fudge"']);
+            expect(report.rows[3].errors).toEqual(['Duplicate name; already used in row 2']);
+            expect(report.rows[4].errors).toEqual([
+                'price: Must be an amount with at most 2 decimal places',
+                'Duplicate name; already used in row 1',
+            ]);
+        });
+
+        it('writes nothing when any row is invalid', async () => {
+            await expect(
+                catalogueFileService.importCatalogue(
+                    {
+                        format: 'csv',
+                        content: csv('Jelly Beans,gummies,1.25,40', 'Toffee,caramel,1,5'),
+                        dryRun: false,
+                    },
+                    'admin-123'
+                )
+            ).rejects.toMatchObject({
+                code: 'IMPORT_INVALID_ROWS',
+                status: 422,
+                details: { committed: false, summary: expect.objectContaining({ create: 1, invalid: 1 }) },
+            });
+            expect(mockPrisma.sweet.create).not.toHaveBeenCalled();
+        });
+
+        it('creates new sweets and updates existing ones by name, recording stock adjustments', async () => {
+            mockPrisma.sweet.create.mockResolvedValue({ id: 'sweet-jelly', price: 125 });
+            mockPrisma.sweet.update.mockResolvedValue({ ...fudge, quantity: 3 });
+
+            const report = await catalogueFileService.importCatalogue(
+                {
+                    format: 'json',
+                    content: JSON.stringify([
+                        { name: 'Fudge', category: 'chocolate', price: 2.5, quantity: 3 },
+                        { name: 'Jelly Beans', category: 'gummies', price: 1.25, quantity: 40, reorderPoint: 10 },
+                    ]),
+                    dryRun: false,
+                },
+                'admin-123'
+            );
+
+            expect(report.committed).toBe(true);
+            expect(mockPrisma.sweet.create).toHaveBeenCalledWith({
+                data: {
+                    name: 'Jelly Beans',
+                    categoryId: 'cat-gummies',
+                    price: 125,
+                    quantity: 40,
+                    reorderPoint: 10,
+                },
+                include: sweetWithCategory,
+            });
+            expect(mockPrisma.sweet.update).toHaveBeenCalledWith({
+                where: { id: 'sweet-fudge' },
+                data: { categoryId: 'cat-chocolate', price: 250, quantity: 3 },
+                include: sweetWithCategory,
+            });
+            expect(mockPrisma.inventoryMovement.create).toHaveBeenCalledWith({
+                data: {
+                    sweetId: 'sweet-fudge',
+                    type: 'ADJUSTMENT',
+                    delta: -7,
+                    resultingQuantity: 3,
+                    userId: 'admin-123',
+                    reason: 'Catalogue import',
+                },
+            });
+            expect(mockPrisma.lowStockAlert.create).toHaveBeenCalledWith({
+                data: { sweetId: 'sweet-fudge', quantity: 3, reorderPoint: 5 },
+            });
+        });
+
+        it('adds opening and changed prices to the price history', async () => {
+            mockPrisma.sweet.create.mockResolvedValue({ id: 'sweet-jelly', price: 125 });
+            mockPrisma.sweet.update.mockResolvedValue({ ...fudge, price: 300 });
+
+            await catalogueFileService.importCatalogue(
+                {
+                    format: 'csv',
+                    content: csv('Fudge,chocolate,3.00,10', 'Jelly Beans,gummies,1.25,40'),
+                    dryRun: false,
+                },
+                'admin-123'
+            );
+
+            expect(mockPrisma.priceHistory.create).toHaveBeenCalledTimes(2);
+            expect(mockPrisma.priceHistory.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ sweetId: 'sweet-fudge', price: 300, userId: 'admin-123' }),
+            });
+            expect(mockPrisma.priceHistory.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ sweetId: 'sweet-jelly', price: 125, userId: 'admin-123' }),
+            });
+        });
+
+        it('announces created and updated sweets once the import commits', async () => {
+            const events = vi.fn();
+            const unsubscribe = new SweetEventService().subscribe(events);
+            const jelly = { id: 'sweet-jelly', price: 125 };
+            const restocked = { ...fudge, quantity: 30 };
+            mockPrisma.sweet.create.mockResolvedValue(jelly);
+            mockPrisma.sweet.update.mockResolvedValue(restocked);
+
+            await catalogueFileService.importCatalogue(
+                {
+                    format: 'csv',
+                    content: csv('Fudge,chocolate,2.5,30', 'Jelly Beans,gummies,1.25,40'),
+                    dryRun: false,
+                },
+                'admin-123'
+            );
+            unsubscribe();
+
+            expect(events).toHaveBeenCalledTimes(2);
+            expect(events).toHaveBeenCalledWith({ type: 'sweet.updated', sweet: restocked });
+            expect(events).toHaveBeenCalledWith({ type: 'sweet.created', sweet: jelly });
+        });
+
+        it('announces nothing when the import is refused', async () => {
+            const events = vi.fn();
+            const unsubscribe = new SweetEventService().subscribe(events);
+
+            await expect(
+                catalogueFileService.importCatalogue(
+                    { format: 'csv', content: csv('Jelly Beans,gummies,1.25,40', 'Bad,unknown,1,1'), dryRun: false },
+                    'admin-123'
+                )
+            ).rejects.toMatchObject({ code: 'IMPORT_INVALID_ROWS' });
+            unsubscribe();
+
+            expect(events).not.toHaveBeenCalled();
+        });
+
+        it('leaves unchanged sweets alone', async () => {
+            const report = await catalogueFileService.importCatalogue(
+                { format: 'csv', content: csv('Fudge,chocolate,2.5,10'), dryRun: false },
+                'admin-123'
+            );
+
+            expect(report.committed).toBe(true);
+            expect(report.summary.unchanged).toBe(1);
+            expect(mockPrisma.sweet.update).not.toHaveBeenCalled();
+        });
+
+        it('rejects a CSV file without the required columns', async () => {
+            await expect(
+                catalogueFileService.importCatalogue(
+                    { format: 'csv', content: 'name,price\nFudge,2', dryRun: true },
+                    'admin-123'
+                )
+            ).rejects.toThrow('Invalid CSV: missing column(s) category, quantity');
+        });
+
+        it('rejects JSON that is not an array of sweets', async () => {
+            await expect(
+                catalogueFileService.importCatalogue(
+                    { format: 'json', content: '{"name":"Fudge"}', dryRun: true },
+                    'admin-123'
+                )
+            ).rejects.toThrow('Invalid JSON: expected an array of sweets');
+        });
+    });
+
+    describe('exportCatalogue', () => {
+        it('writes a CSV with a header row and quoted cells where needed', async () => {
+            mockPrisma.sweet.findMany.mockResolvedValue([fudge, { ...fudge, name: 'Fudge, "Salted"' }]);
+
+            const file = await catalogueFileService.exportCatalogue({ format: 'csv' });
+
+            expect(file.contentType).toBe('text/csv');
+            expect(file.content).toBe(
+                [
+                    'name,category,price,quantity,reorderPoint,reorderQuantity',
+                    'Fudge,chocolate,2.50,10,5,20',
+                    '"Fudge, ""Salted""",chocolate,2.50,10,5,20',
+                ].join('\r\n')
+            );
+        });
+
+        it('writes JSON that can be imported again', async () => {
+            const file = await catalogueFileService.exportCatalogue({ format: 'json' });
+
+            expect(JSON.parse(file.content)).toEqual([
+                { name: 'Fudge', category: 'chocolate', price: '2.50', quantity: 10, reorderPoint: 5, reorderQuantity: 20 },
+            ]);
+        });
+    });
+});
@@ -0,0 +1,162 @@
+/**
+ * @file Unit tests for CategoryService covering slugs, tree moves and deletion guards.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CategoryService } from '../../services/categoryService';
+
+vi.mock('../../config/database', () => ({
+    default: {
+        category: {
+            findUnique: vi.fn(),
+            findMany: vi.fn(),
+            create: vi.fn(),
+            update: vi.fn(),
+            delete: vi.fn(),
+        },
+    },
+}));
+
+import prisma from '../../config/database';
+
+describe('CategoryService', () => {
+    let categoryService: CategoryService;
+    const mockPrisma = prisma as any;
+
+    // sweets
+    // ├── chocolate
+    // │   └── truffles
+    // └── gummies
+    const tree = [
+        { id: 'cat-sweets', parentId: null },
+        { id: 'cat-chocolate', parentId: 'cat-sweets' },
+        { id: 'cat-truffles', parentId: 'cat-chocolate' },
+        { id: 'cat-gummies', parentId: 'cat-sweets' },
+    ];
+
+    beforeEach(() => {
+        categoryService = new CategoryService();
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    describe('createCategory', () => {
+        it('derives the slug from the name when none is given', async () => {
+            mockPrisma.category.findUnique.mockResolvedValue(null);
+            mockPrisma.category.create.mockImplementation(({ data }: any) => ({ id: 'cat-1', ...data }));
+
+            const result = await categoryService.createCategory({ name: 'Crème Brûlée Bites' });
+
+            expect(result.slug).toBe('creme-brulee-bites');
+            expect(mockPrisma.category.create).toHaveBeenCalledWith({
+                data: { name: 'Crème Brûlée Bites', slug: 'creme-brulee-bites' },
+            });
+        });
+
+        it('rejects a slug that is already taken', async () => {
+            mockPrisma.category.findUnique.mockResolvedValue({ id: 'cat-other', slug: 'fudge' });
+
+            await expect(categoryService.createCategory({ name: 'Fudge' })).rejects.toThrow(
+                'Category with this slug already exists'
+            );
+            expect(mockPrisma.category.create).not.toHaveBeenCalled();
+        });
+
+        it('rejects a name without letters or numbers', async () => {
+            await expect(categoryService.createCategory({ name: '***' })).rejects.toThrow(
+                'Category name must contain letters or numbers'
+            );
+        });
+
+        it('rejects an unknown parent', async () => {
+            mockPrisma.category.findUnique.mockResolvedValue(null);
+
+            await expect(
+                categoryService.createCategory({ name: 'Truffles', parentId: 'cat-missing' })
+            ).rejects.toThrow('Parent category not found');
+        });
+    });
+
+    describe('updateCategory', () => {
+        it('rejects moving a category under one of its descendants', async () => {
+            mockPrisma.category.findUnique
+                .mockResolvedValueOnce({ id: 'cat-sweets', slug: 'sweets', parentId: null })
+                .mockResolvedValueOnce({ id: 'cat-truffles' });
+            mockPrisma.category.findMany.mockResolvedValue(tree);
+
+            await expect(
+                categoryService.updateCategory('cat-sweets', { parentId: 'cat-truffles' })
+            ).rejects.toThrow('A category cannot be moved under itself or its subcategories');
+            expect(mockPrisma.category.update).not.toHaveBeenCalled();
+        });
+
+        it('moves a category under an unrelated parent', async () => {
+            mockPrisma.category.findUnique
+                .mockResolvedValueOnce({ id: 'cat-truffles', slug: 'truffles', parentId: 'cat-chocolate' })
+                .mockResolvedValueOnce({ id: 'cat-gummies' });
+            mockPrisma.category.findMany.mockResolvedValue(tree);
+            mockPrisma.category.update.mockResolvedValue({ id: 'cat-truffles', parentId: 'cat-gummies' });
+
+            await categoryService.updateCategory('cat-truffles', { parentId: 'cat-gummies' });
+
+            expect(mockPrisma.category.update).toHaveBeenCalledWith({
+                where: { id: 'cat-truffles' },
+                data: { parentId: 'cat-gummies' },
+            });
+        });
+
+        it('throws when the category does not exist', async () => {
+            mockPrisma.category.findUnique.mockResolvedValue(null);
+
+            await expect(categoryService.updateCategory('cat-missing', { name: 'New' })).rejects.toThrow(
+                'Category not found'
+            );
+        });
+    });
+
+    describe('deleteCategory', () => {
+        it('refuses to delete a category that still has sweets', async () => {
+            mockPrisma.category.findUnique.mockResolvedValue({
+                id: 'cat-chocolate',
+                _count: { sweets: 2, children: 0 },
+            });
+
+            await expect(categoryService.deleteCategory('cat-chocolate')).rejects.toThrow(
+                'Category still has sweets or subcategories'
+            );
+            expect(mockPrisma.category.delete).not.toHaveBeenCalled();
+        });
+
+        it('deletes an unused category', async () => {
+            mockPrisma.category.findUnique.mockResolvedValue({
+                id: 'cat-gummies',
+                _count: { sweets: 0, children: 0 },
+            });
+            mockPrisma.category.delete.mockResolvedValue({ id: 'cat-gummies' });
+
+            await categoryService.deleteCategory('cat-gummies');
+
+            expect(mockPrisma.category.delete).toHaveBeenCalledWith({ where: { id: 'cat-gummies' } });
+        });
+    });
+
+    describe('getCategoryIdsForSlug', () => {
+        it('includes every descendant of the category', async () => {
+            mockPrisma.category.findUnique.mockResolvedValue({ id: 'cat-sweets' });
+            mockPrisma.category.findMany.mockResolvedValue(tree);
+
+            const ids = await categoryService.getCategoryIdsForSlug('sweets');
+
+            expect(ids.sort()).toEqual(['cat-chocolate', 'cat-gummies', 'cat-sweets', 'cat-truffles']);
+        });
+
+        it('returns no ids for an unknown slug', async () => {
+            mockPrisma.category.findUnique.mockResolvedValue(null);
+
+            expect(await categoryService.getCategoryIdsForSlug('missing')).toEqual([]);
+            expect(mockPrisma.category.findMany).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,71 @@
+/**
+ * @file Unit tests for the inventory movement ledger.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InventoryMovementService } from '../../services/inventoryMovementService';
+
+vi.mock('../../config/database', () => ({
+    default: {
+        inventoryMovement: {
+            create: vi.fn(),
+            findMany: vi.fn(),
+            count: vi.fn(),
+        },
+    },
+}));
+
+import prisma from '../../config/database';
+
+describe('InventoryMovementService', () => {
+    let movementService: InventoryMovementService;
+    const mockPrisma = prisma as any;
+
+    beforeEach(() => {
+        movementService = new InventoryMovementService();
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    describe('record', () => {
+        it('appends the movement through the supplied transaction client', async () => {
+            const tx = { inventoryMovement: { create: vi.fn().mockResolvedValue({ id: 'movement-1' }) } };
+            const movement = {
+                sweetId: 'sweet-123',
+                type: 'RESTOCK' as const,
+                delta: 10,
+                resultingQuantity: 60,
+                userId: 'admin-123',
+            };
+
+            const result = await movementService.record(tx as any, movement);
+
+            expect(tx.inventoryMovement.create).toHaveBeenCalledWith({ data: movement });
+            expect(mockPrisma.inventoryMovement.create).not.toHaveBeenCalled();
+            expect(result).toEqual({ id: 'movement-1' });
+        });
+    });
+
+    describe('getMovementsForSweet', () => {
+        it('returns the requested page newest first with pagination metadata', async () => {
+            mockPrisma.inventoryMovement.findMany.mockResolvedValueOnce([{ id: 'movement-1' }]);
+            mockPrisma.inventoryMovement.count.mockResolvedValueOnce(45);
+
+            const result = await movementService.getMovementsForSweet('sweet-123', { page: 3, limit: 20 });
+
+            expect(mockPrisma.inventoryMovement.findMany).toHaveBeenCalledWith({
+                where: { sweetId: 'sweet-123' },
+                include: { user: { select: { id: true, email: true, name: true } } },
+                orderBy: { createdAt: 'desc' },
+                skip: 40,
+                take: 20,
+            });
+            expect(result).toEqual({
+                movements: [{ id: 'movement-1' }],
+                pagination: { page: 3, limit: 20, total: 45, totalPages: 3 },
+            });
+        });
+    });
+});
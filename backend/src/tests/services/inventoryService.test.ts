@@ -3,28 +3,84 @@
  */
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { InventoryService } from '../../services/inventoryService';
+import { SweetEventService } from '../../services/sweetEventService';
 
-vi.mock('../../config/database', () => ({
-    default: {
+vi.mock('../../config/database', () => {
+    const client: any = {
         sweet: {
             findUnique: vi.fn(),
+            findUniqueOrThrow: vi.fn(),
             update: vi.fn(),
+            updateMany: vi.fn(),
         },
-    },
-}));
+        stockReservation: {
+            findFirst: vi.fn(),
+            deleteMany: vi.fn(),
+        },
+        counter: {
+            upsert: vi.fn(),
+        },
+        order: {
+            create: vi.fn(),
+        },
+        promotion: {
+            findMany: vi.fn(),
+            findUnique: vi.fn(),
+        },
+        promotionRedemption: {
+            groupBy: vi.fn(),
+        },
+        category: {
+            findMany: vi.fn(),
+        },
+        inventoryMovement: {
+            create: vi.fn(),
+        },
+        lowStockAlert: {
+            create: vi.fn(),
+            updateMany: vi.fn(),
+        },
+    };
+    // Interactive transactions run their callback against the same mocked client
+    client.$transaction = vi.fn((callback: (tx: any) => unknown) => callback(client));
+
+    return { default: client };
+});
 
 import prisma from '../../config/database';
 
 describe('InventoryService', () => {
     let inventoryService: InventoryService;
     const mockPrisma = prisma as any;
+    const orderInclude = {
+        lines: true,
+        redemptions: { select: { promotionId: true, promotionName: true, code: true, discount: true } },
+    };
+    const promotion = {
+        value: 0,
+        currency: 'INR',
+        buyQuantity: null,
+        freeQuantity: null,
+        code: null,
+        sweetId: null,
+        categoryId: null,
+        startsAt: null,
+        endsAt: null,
+        perUserLimit: null,
+        isActive: true,
+    };
 
     const sampleSweet = {
         id: 'sweet-123',
         name: 'Ladoo',
-        category: 'Festival',
-        price: 10,
+        categoryId: 'category-1',
+        category: { id: 'category-1', slug: 'festival', name: 'Festival', parentId: null },
+        price: 1000,
+        currency: 'INR',
         quantity: 50,
+        reserved: 0,
+        reorderPoint: 5,
+        reorderQuantity: 20,
         description: 'Traditional sweet',
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -33,6 +89,9 @@ describe('InventoryService', () => {
     beforeEach(() => {
         inventoryService = new InventoryService();
         vi.clearAllMocks();
+        mockPrisma.promotion.findMany.mockResolvedValue([]);
+        mockPrisma.category.findMany.mockResolvedValue([]);
+        mockPrisma.counter.upsert.mockResolvedValue({ name: 'invoice', value: 1 });
     });
 
     afterEach(() => {
@@ -41,83 +100,451 @@ describe('InventoryService', () => {
 
     /** Purchase flow verifying stock is decremented appropriately. */
     describe('purchaseSweet', () => {
+        const buyerId = 'user-123';
+
         it('reduces available quantity when enough stock exists', async () => {
             const quantityToPurchase = 5;
             const updatedSweet = { ...sampleSweet, quantity: sampleSweet.quantity - quantityToPurchase };
+            const createdOrder = { id: 'order-1', userId: buyerId, total: 5000, lines: [] };
+
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce(updatedSweet);
+            mockPrisma.order.create.mockResolvedValueOnce(createdOrder);
+
+            const result = await inventoryService.purchaseSweet(sampleSweet.id, quantityToPurchase, buyerId);
+
+            expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+            expect(mockPrisma.sweet.updateMany).toHaveBeenCalledWith({
+                where: { id: sampleSweet.id, deletedAt: null, quantity: { gte: quantityToPurchase } },
+                data: { quantity: { decrement: quantityToPurchase } },
+            });
+            expect(result).toEqual({ sweet: updatedSweet, order: createdOrder });
+        });
+
+        it('announces the new stock level once the purchase commits', async () => {
+            const events = vi.fn();
+            const unsubscribe = new SweetEventService().subscribe(events);
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce({ ...sampleSweet, quantity: 0 });
+            mockPrisma.order.create.mockResolvedValueOnce({ id: 'order-1', lines: [] });
+
+            await inventoryService.purchaseSweet(sampleSweet.id, sampleSweet.quantity, buyerId);
+            unsubscribe();
+
+            expect(events).toHaveBeenCalledExactlyOnceWith({ type: 'stock.changed', sweetId: sampleSweet.id, quantity: 0, available: 0 });
+        });
+
+        it('records an order with the price snapshotted at purchase time', async () => {
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce({ ...sampleSweet, quantity: 47 });
+            mockPrisma.order.create.mockResolvedValueOnce({ id: 'order-1' });
+
+            await inventoryService.purchaseSweet(sampleSweet.id, 3, buyerId);
+
+            expect(mockPrisma.order.create).toHaveBeenCalledWith({
+                data: {
+                    userId: buyerId,
+                    total: 3000,
+                    discount: 0,
+                    tax: 0,
+                    currency: 'INR',
+                    invoiceNumber: 1,
+                    lines: {
+                        create: [
+                            {
+                                sweetId: sampleSweet.id,
+                                sweetName: sampleSweet.name,
+                                unitPrice: sampleSweet.price,
+                                quantity: 3,
+                                discount: 0,
+                                lineTotal: 3000,
+                                taxRate: 0,
+                                tax: 0,
+                            },
+                        ],
+                    },
+                    redemptions: { create: [] },
+                },
+                include: orderInclude,
+            });
+        });
+
+        it('applies running promotions and records them on the order', async () => {
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce({ ...sampleSweet, quantity: 47 });
+            mockPrisma.order.create.mockResolvedValueOnce({ id: 'order-1' });
+            mockPrisma.promotion.findMany.mockResolvedValue([
+                { ...promotion, id: 'promo-1', name: 'Diwali 10% off', type: 'PERCENTAGE', value: 10 },
+            ]);
+
+            await inventoryService.purchaseSweet(sampleSweet.id, 3, buyerId);
+
+            const { data } = mockPrisma.order.create.mock.calls[0][0];
+            expect(data).toMatchObject({ total: 2700, discount: 300 });
+            expect(data.lines.create[0]).toMatchObject({ discount: 300, lineTotal: 2700 });
+            expect(data.redemptions.create).toEqual([
+                { promotionId: 'promo-1', promotionName: 'Diwali 10% off', code: null, userId: buyerId, discount: 300 },
+            ]);
+        });
+
+        it('records the GST included in each line at the rate inherited from its category', async () => {
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce({ ...sampleSweet, quantity: 47 });
+            mockPrisma.order.create.mockResolvedValueOnce({ id: 'order-1' });
+            mockPrisma.category.findMany.mockResolvedValue([
+                { id: 'category-1', parentId: 'category-root', taxRate: null },
+                { id: 'category-root', parentId: null, taxRate: 1800 },
+            ]);
+            mockPrisma.counter.upsert.mockResolvedValue({ name: 'invoice', value: 42 });
+
+            await inventoryService.purchaseSweet(sampleSweet.id, 3, buyerId);
+
+            // ₹30.00 including 18% GST contains ₹4.58 of tax
+            const { data } = mockPrisma.order.create.mock.calls[0][0];
+            expect(data).toMatchObject({ total: 3000, tax: 458, invoiceNumber: 42 });
+            expect(data.lines.create[0]).toMatchObject({ lineTotal: 3000, taxRate: 1800, tax: 458 });
+            expect(mockPrisma.counter.upsert).toHaveBeenCalledWith({
+                where: { name: 'invoice' },
+                create: { name: 'invoice', value: 1 },
+                update: { value: { increment: 1 } },
+            });
+        });
+
+        it('rejects an unknown coupon code before creating the order', async () => {
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce({ ...sampleSweet, quantity: 47 });
+            mockPrisma.promotion.findUnique.mockResolvedValueOnce(null);
+
+            await expect(inventoryService.purchaseSweet(sampleSweet.id, 3, buyerId, 'nope')).rejects.toMatchObject({
+                status: 422,
+                code: 'INVALID_COUPON',
+                field: 'couponCode',
+            });
+            expect(mockPrisma.promotion.findUnique).toHaveBeenCalledWith({ where: { code: 'NOPE' } });
+            expect(mockPrisma.order.create).not.toHaveBeenCalled();
+        });
+
+        it('refuses an order mixing sweets priced in different currencies', async () => {
+            const fudge = { ...sampleSweet, id: 'sweet-456', name: 'Fudge', currency: 'GBP' };
+            mockPrisma.sweet.updateMany.mockResolvedValue({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow
+                .mockResolvedValueOnce(sampleSweet)
+                .mockResolvedValueOnce(fudge);
+
+            await expect(
+                mockPrisma.$transaction((tx: any) =>
+                    inventoryService.placeOrder(tx, buyerId, [
+                        { sweetId: sampleSweet.id, quantity: 1 },
+                        { sweetId: fudge.id, quantity: 1 },
+                    ])
+                )
+            ).rejects.toMatchObject({
+                status: 422,
+                code: 'CURRENCY_MISMATCH',
+                details: { currencies: ['INR', 'GBP'] },
+            });
+            expect(mockPrisma.order.create).not.toHaveBeenCalled();
+        });
+
+        it('writes a PURCHASE movement referencing the order', async () => {
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce({ ...sampleSweet, quantity: 47 });
+            mockPrisma.order.create.mockResolvedValueOnce({ id: 'order-1' });
+
+            await inventoryService.purchaseSweet(sampleSweet.id, 3, buyerId);
+
+            expect(mockPrisma.inventoryMovement.create).toHaveBeenCalledWith({
+                data: {
+                    sweetId: sampleSweet.id,
+                    type: 'PURCHASE',
+                    delta: -3,
+                    resultingQuantity: 47,
+                    userId: buyerId,
+                    reason: 'Order order-1',
+                },
+            });
+        });
+
+        it('raises a low-stock alert when a purchase reaches the reorder point', async () => {
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce({ ...sampleSweet, quantity: 4 });
+            mockPrisma.order.create.mockResolvedValueOnce({ id: 'order-1' });
+
+            await inventoryService.purchaseSweet(sampleSweet.id, 3, buyerId);
+
+            expect(mockPrisma.lowStockAlert.create).toHaveBeenCalledWith({
+                data: { sweetId: sampleSweet.id, quantity: 4, reorderPoint: 5 },
+            });
+        });
+
+        it('does not raise another alert for a sweet that was already low', async () => {
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce({ ...sampleSweet, quantity: 2 });
+            mockPrisma.order.create.mockResolvedValueOnce({ id: 'order-1' });
+
+            await inventoryService.purchaseSweet(sampleSweet.id, 2, buyerId);
+
+            expect(mockPrisma.lowStockAlert.create).not.toHaveBeenCalled();
+        });
+
+        it('does not raise an alert while stock stays above the reorder point', async () => {
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce({ ...sampleSweet, quantity: 6 });
+            mockPrisma.order.create.mockResolvedValueOnce({ id: 'order-1' });
+
+            await inventoryService.purchaseSweet(sampleSweet.id, 4, buyerId);
+
+            expect(mockPrisma.lowStockAlert.create).not.toHaveBeenCalled();
+        });
 
+        it('throws when purchase quantity exceeds available stock', async () => {
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 0 });
             mockPrisma.sweet.findUnique.mockResolvedValueOnce(sampleSweet);
-            mockPrisma.sweet.update.mockResolvedValueOnce(updatedSweet);
 
-            const result = await inventoryService.purchaseSweet(sampleSweet.id, quantityToPurchase);
+            await expect(
+                inventoryService.purchaseSweet(sampleSweet.id, sampleSweet.quantity + 1, buyerId)
+            ).rejects.toMatchObject({
+                message: 'Insufficient quantity available',
+                code: 'INSUFFICIENT_STOCK',
+                status: 422,
+                details: {
+                    sweetId: sampleSweet.id,
+                    available: sampleSweet.quantity,
+                    requested: sampleSweet.quantity + 1,
+                },
+            });
 
-            expect(mockPrisma.sweet.findUnique).toHaveBeenCalledWith({
-                where: { id: sampleSweet.id },
+            expect(mockPrisma.order.create).not.toHaveBeenCalled();
+            expect(mockPrisma.inventoryMovement.create).not.toHaveBeenCalled();
+        });
+
+        it('refuses units held by other shoppers', async () => {
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            // 10 on hand and 8 held, so buying 5 would eat into the holds
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce({ ...sampleSweet, quantity: 5, reserved: 8 });
+
+            await expect(
+                inventoryService.purchaseSweet(sampleSweet.id, 5, buyerId)
+            ).rejects.toMatchObject({
+                code: 'INSUFFICIENT_STOCK',
+                details: { sweetId: sampleSweet.id, available: 2, requested: 5 },
             });
-            expect(mockPrisma.sweet.update).toHaveBeenCalledWith({
+
+            expect(mockPrisma.order.create).not.toHaveBeenCalled();
+        });
+
+        it('buys the units held by the buyer\'s reservation', async () => {
+            const reservation = {
+                id: 'reservation-1',
+                userId: buyerId,
+                sweetId: sampleSweet.id,
+                quantity: 3,
+                expiresAt: new Date(Date.now() + 60_000),
+            };
+            mockPrisma.stockReservation.findFirst.mockResolvedValueOnce(reservation);
+            mockPrisma.stockReservation.deleteMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.update.mockResolvedValueOnce({ ...sampleSweet, reserved: 0 });
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce({ ...sampleSweet, quantity: 47 });
+            mockPrisma.order.create.mockResolvedValueOnce({ id: 'order-1', lines: [] });
+
+            await inventoryService.purchaseSweet(sampleSweet.id, 3, buyerId, undefined, reservation.id);
+
+            expect(mockPrisma.stockReservation.findFirst).toHaveBeenCalledWith({
+                where: { id: reservation.id, userId: buyerId, sweetId: sampleSweet.id },
+            });
+            expect(mockPrisma.stockReservation.deleteMany).toHaveBeenCalledWith({ where: { id: reservation.id } });
+            expect(mockPrisma.sweet.update).toHaveBeenCalledWith(expect.objectContaining({
                 where: { id: sampleSweet.id },
-                data: { quantity: updatedSweet.quantity },
+                data: { reserved: { decrement: 3 } },
+            }));
+            expect(mockPrisma.sweet.update.mock.invocationCallOrder[0])
+                .toBeLessThan(mockPrisma.sweet.updateMany.mock.invocationCallOrder[0]);
+            expect(mockPrisma.order.create).toHaveBeenCalledOnce();
+        });
+
+        it('refuses a reservation that has expired', async () => {
+            mockPrisma.stockReservation.findFirst.mockResolvedValueOnce({
+                id: 'reservation-1',
+                userId: buyerId,
+                sweetId: sampleSweet.id,
+                quantity: 3,
+                expiresAt: new Date(Date.now() - 1000),
             });
-            expect(result).toEqual(updatedSweet);
+
+            await expect(
+                inventoryService.purchaseSweet(sampleSweet.id, 3, buyerId, undefined, 'reservation-1')
+            ).rejects.toMatchObject({ code: 'RESERVATION_EXPIRED', status: 422 });
+
+            // Left for the sweeper, which hands the units back
+            expect(mockPrisma.stockReservation.deleteMany).not.toHaveBeenCalled();
+            expect(mockPrisma.sweet.updateMany).not.toHaveBeenCalled();
         });
 
-        it('throws when purchase quantity exceeds available stock', async () => {
+        it('refuses a reservation the buyer does not hold', async () => {
+            mockPrisma.stockReservation.findFirst.mockResolvedValueOnce(null);
+
+            await expect(
+                inventoryService.purchaseSweet(sampleSweet.id, 3, buyerId, undefined, 'reservation-9')
+            ).rejects.toMatchObject({ code: 'RESERVATION_NOT_FOUND', status: 404 });
+
+            expect(mockPrisma.sweet.updateMany).not.toHaveBeenCalled();
+        });
+
+        it('announces nothing when the purchase fails', async () => {
+            const events = vi.fn();
+            const unsubscribe = new SweetEventService().subscribe(events);
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 0 });
             mockPrisma.sweet.findUnique.mockResolvedValueOnce(sampleSweet);
 
             await expect(
-                inventoryService.purchaseSweet(sampleSweet.id, sampleSweet.quantity + 1)
+                inventoryService.purchaseSweet(sampleSweet.id, sampleSweet.quantity + 1, buyerId)
             ).rejects.toThrow('Insufficient quantity available');
+            unsubscribe();
 
-            expect(mockPrisma.sweet.update).not.toHaveBeenCalled();
+            expect(events).not.toHaveBeenCalled();
         });
 
         it('throws when the sweet being purchased does not exist', async () => {
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 0 });
             mockPrisma.sweet.findUnique.mockResolvedValueOnce(null);
 
-            await expect(inventoryService.purchaseSweet('missing-id', 1)).rejects.toThrow('Sweet not found');
+            await expect(inventoryService.purchaseSweet('missing-id', 1, buyerId)).rejects.toThrow('Sweet not found');
         });
 
         it('throws when purchase quantity is not a positive integer', async () => {
-            mockPrisma.sweet.findUnique.mockResolvedValueOnce(sampleSweet);
-
-            await expect(inventoryService.purchaseSweet(sampleSweet.id, 0)).rejects.toThrow(
+            await expect(inventoryService.purchaseSweet(sampleSweet.id, 0, buyerId)).rejects.toThrow(
                 'Purchase quantity must be greater than zero'
             );
+
+            expect(mockPrisma.sweet.updateMany).not.toHaveBeenCalled();
+        });
+
+        it('never oversells when many purchases race for the same stock', async () => {
+            const initialStock = 20;
+            const buyers = 50;
+            let stock = initialStock;
+
+            // Emulate the database applying each conditional update atomically,
+            // while yielding between calls so the purchases genuinely interleave.
+            mockPrisma.sweet.updateMany.mockImplementation(async ({ where, data }: any) => {
+                await new Promise((resolve) => setImmediate(resolve));
+                if (stock < where.quantity.gte) {
+                    return { count: 0 };
+                }
+                stock -= data.quantity.decrement;
+                return { count: 1 };
+            });
+            mockPrisma.sweet.findUnique.mockImplementation(async () => ({ ...sampleSweet, quantity: stock }));
+            mockPrisma.sweet.findUniqueOrThrow.mockImplementation(async () => ({ ...sampleSweet, quantity: stock }));
+            mockPrisma.order.create.mockImplementation(async () => ({ id: 'order' }));
+
+            const results = await Promise.allSettled(
+                Array.from({ length: buyers }, () => inventoryService.purchaseSweet(sampleSweet.id, 1, buyerId))
+            );
+
+            const fulfilled = results.filter((result) => result.status === 'fulfilled');
+            const rejected = results.filter((result) => result.status === 'rejected') as PromiseRejectedResult[];
+
+            expect(fulfilled).toHaveLength(initialStock);
+            expect(rejected).toHaveLength(buyers - initialStock);
+            rejected.forEach((result) => expect(result.reason.message).toBe('Insufficient quantity available'));
+            expect(stock).toBe(0);
+            expect(mockPrisma.order.create).toHaveBeenCalledTimes(initialStock);
         });
     });
 
     /** Restock flow verifying quantity increments correctly. */
     describe('restockSweet', () => {
+        const adminId = 'admin-123';
+
         it('increases quantity by the supplied amount', async () => {
             const restockAmount = 20;
             const updatedSweet = { ...sampleSweet, quantity: sampleSweet.quantity + restockAmount };
 
-            mockPrisma.sweet.findUnique.mockResolvedValueOnce(sampleSweet);
-            mockPrisma.sweet.update.mockResolvedValueOnce(updatedSweet);
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce(updatedSweet);
 
-            const result = await inventoryService.restockSweet(sampleSweet.id, restockAmount);
+            const result = await inventoryService.restockSweet(sampleSweet.id, restockAmount, adminId, 'Weekly delivery');
 
-            expect(mockPrisma.sweet.findUnique).toHaveBeenCalledWith({
-                where: { id: sampleSweet.id },
+            expect(mockPrisma.sweet.updateMany).toHaveBeenCalledWith({
+                where: { id: sampleSweet.id, deletedAt: null },
+                data: { quantity: { increment: restockAmount } },
             });
-            expect(mockPrisma.sweet.update).toHaveBeenCalledWith({
-                where: { id: sampleSweet.id },
-                data: { quantity: updatedSweet.quantity },
+            expect(mockPrisma.inventoryMovement.create).toHaveBeenCalledWith({
+                data: {
+                    sweetId: sampleSweet.id,
+                    type: 'RESTOCK',
+                    delta: restockAmount,
+                    resultingQuantity: updatedSweet.quantity,
+                    userId: adminId,
+                    reason: 'Weekly delivery',
+                },
             });
             expect(result).toEqual(updatedSweet);
         });
 
+        it('announces the new stock level', async () => {
+            const events = vi.fn();
+            const unsubscribe = new SweetEventService().subscribe(events);
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce({ ...sampleSweet, quantity: 70 });
+
+            await inventoryService.restockSweet(sampleSweet.id, 20, adminId);
+            unsubscribe();
+
+            expect(events).toHaveBeenCalledExactlyOnceWith({ type: 'stock.changed', sweetId: sampleSweet.id, quantity: 70, available: 70 });
+        });
+
+        it('resolves the open alert once stock is back above the reorder point', async () => {
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce({ ...sampleSweet, quantity: 23 });
+
+            await inventoryService.restockSweet(sampleSweet.id, 20, adminId);
+
+            expect(mockPrisma.lowStockAlert.updateMany).toHaveBeenCalledWith({
+                where: { sweetId: sampleSweet.id, resolvedAt: null },
+                data: { resolvedAt: expect.any(Date) },
+            });
+        });
+
+        it('keeps the alert open when a restock leaves stock at the reorder point', async () => {
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce({ ...sampleSweet, quantity: 5 });
+
+            await inventoryService.restockSweet(sampleSweet.id, 3, adminId);
+
+            expect(mockPrisma.lowStockAlert.updateMany).not.toHaveBeenCalled();
+        });
+
         it('throws when attempting to restock a missing sweet', async () => {
-            mockPrisma.sweet.findUnique.mockResolvedValueOnce(null);
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 0 });
 
-            await expect(inventoryService.restockSweet('missing-id', 5)).rejects.toThrow('Sweet not found');
+            await expect(inventoryService.restockSweet('missing-id', 5, adminId)).rejects.toThrow('Sweet not found');
+            expect(mockPrisma.inventoryMovement.create).not.toHaveBeenCalled();
         });
 
         it('throws when restock amount is not positive', async () => {
-            mockPrisma.sweet.findUnique.mockResolvedValueOnce(sampleSweet);
-
-            await expect(inventoryService.restockSweet(sampleSweet.id, 0)).rejects.toThrow(
+            await expect(inventoryService.restockSweet(sampleSweet.id, 0, adminId)).rejects.toThrow(
                 'Restock quantity must be greater than zero'
             );
+
+            expect(mockPrisma.sweet.updateMany).not.toHaveBeenCalled();
+        });
+
+        it('keeps every concurrent restock', async () => {
+            let stock = 0;
+
+            mockPrisma.sweet.updateMany.mockImplementation(async ({ data }: any) => {
+                await new Promise((resolve) => setImmediate(resolve));
+                stock += data.quantity.increment;
+                return { count: 1 };
+            });
+            mockPrisma.sweet.findUniqueOrThrow.mockImplementation(async () => ({ ...sampleSweet, quantity: stock }));
+
+            await Promise.all(Array.from({ length: 10 }, () => inventoryService.restockSweet(sampleSweet.id, 5, adminId)));
+
+            expect(stock).toBe(50);
         });
     });
 });
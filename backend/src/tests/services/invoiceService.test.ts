@@ -0,0 +1,199 @@
+/**
+ * @file Unit tests for InvoiceService numbering and rendering.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InvoiceService, formatInvoiceNumber } from '../../services/invoiceService';
+
+vi.mock('../../config/database', () => {
+    const client: any = {
+        order: {
+            findUnique: vi.fn(),
+        },
+        user: {
+            findUnique: vi.fn(),
+        },
+        counter: {
+            upsert: vi.fn(),
+        },
+    };
+
+    return { default: client };
+});
+
+import prisma from '../../config/database';
+
+describe('InvoiceService', () => {
+    let invoiceService: InvoiceService;
+    const mockPrisma = prisma as any;
+    const buyer = { id: 'user-123', role: 'CUSTOMER' };
+
+    const line = (overrides: Record<string, unknown>) => ({
+        id: 'line-1',
+        orderId: 'order-1',
+        sweetId: 'sweet-1',
+        sweetName: 'Kaju Katli',
+        unitPrice: 5900,
+        quantity: 2,
+        discount: 0,
+        lineTotal: 11800,
+        taxRate: 1800,
+        tax: 1800,
+        ...overrides,
+    });
+
+    const order = {
+        id: 'order-1',
+        userId: 'user-123',
+        status: 'COMPLETED',
+        // 11800 + 10500 gross, less a 500 discount on the second line
+        total: 21800,
+        discount: 500,
+        tax: 2276,
+        currency: 'INR',
+        invoiceNumber: 7,
+        createdAt: new Date('2026-10-19T10:00:00Z'),
+        lines: [
+            line({}),
+            line({ id: 'line-2', sweetName: 'Rasgulla', unitPrice: 3500, quantity: 3, discount: 500, lineTotal: 10000, taxRate: 500, tax: 476 }),
+        ],
+        redemptions: [{ promotionId: 'promo-1', promotionName: 'Festive', code: 'DIWALI', discount: 500 }],
+    };
+
+    beforeEach(() => {
+        invoiceService = new InvoiceService();
+        vi.clearAllMocks();
+        mockPrisma.order.findUnique.mockResolvedValue(order);
+        mockPrisma.user.findUnique.mockResolvedValue({ name: 'Asha', email: 'asha@example.com' });
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    describe('nextInvoiceNumber', () => {
+        it('increments the invoice counter, starting it at one', async () => {
+            mockPrisma.counter.upsert.mockResolvedValue({ name: 'invoice', value: 8 });
+
+            await expect(invoiceService.nextInvoiceNumber(mockPrisma)).resolves.toBe(8);
+            expect(mockPrisma.counter.upsert).toHaveBeenCalledWith({
+                where: { name: 'invoice' },
+                create: { name: 'invoice', value: 1 },
+                update: { value: { increment: 1 } },
+            });
+        });
+    });
+
+    describe('getInvoice', () => {
+        it('summarizes the order with tax grouped by rate', async () => {
+            const invoice = await invoiceService.getInvoice('order-1', buyer);
+
+            expect(invoice).toMatchObject({
+                number: 'INV-000007',
+                buyer: { name: 'Asha', email: 'asha@example.com' },
+                subtotal: 22300,
+                discount: 500,
+                tax: 2276,
+                total: 21800,
+                promotions: [{ name: 'Festive', code: 'DIWALI', discount: 500 }],
+            });
+            expect(invoice.taxes).toEqual([
+                { rate: 500, taxable: 9524, cgst: 238, sgst: 238, tax: 476 },
+                { rate: 1800, taxable: 10000, cgst: 900, sgst: 900, tax: 1800 },
+            ]);
+        });
+
+        it('gives an odd minor unit of tax to CGST', async () => {
+            mockPrisma.order.findUnique.mockResolvedValue({ ...order, lines: [line({ tax: 1801 })] });
+
+            const invoice = await invoiceService.getInvoice('order-1', buyer);
+
+            expect(invoice.taxes[0]).toMatchObject({ cgst: 901, sgst: 900 });
+        });
+
+        it('hides other users\' orders', async () => {
+            await expect(
+                invoiceService.getInvoice('order-1', { id: 'someone-else', role: 'CUSTOMER' })
+            ).rejects.toMatchObject({ status: 404, code: 'ORDER_NOT_FOUND' });
+        });
+    });
+
+    describe('renderHtml', () => {
+        it('escapes names taken from the catalogue', async () => {
+            mockPrisma.order.findUnique.mockResolvedValue({
+                ...order,
+                lines: [line({ sweetName: '<script>alert(1)</script>' })],
+            });
+
+            const html = invoiceService.renderHtml(await invoiceService.getInvoice('order-1', buyer));
+
+            expect(html).not.toContain('<script>');
+            expect(html).toContain('&#60;script&#62;');
+        });
+
+        it('marks cancelled orders', async () => {
+            mockPrisma.order.findUnique.mockResolvedValue({ ...order, status: 'CANCELLED' });
+
+            const html = invoiceService.renderHtml(await invoiceService.getInvoice('order-1', buyer));
+
+            expect(html).toContain('Cancelled');
+        });
+    });
+
+    describe('renderPdf', () => {
+        /** Checks every cross-reference entry points at the object it names. */
+        const expectValidXref = (pdf: Buffer) => {
+            const text = pdf.toString('latin1');
+            const xref = Number(/startxref\n(\d+)/.exec(text)![1]);
+            const [, count] = /^xref\n0 (\d+)\n/.exec(text.slice(xref))!;
+            const offsets = [...text.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+
+            expect(offsets).toHaveLength(Number(count) - 1);
+            offsets.forEach((offset, i) => {
+                expect(text.slice(offset, offset + 12)).toMatch(new RegExp(`^${i + 1} 0 obj\\n`));
+            });
+            return text;
+        };
+
+        it('writes a single-page PDF with the invoice contents', async () => {
+            const pdf = invoiceService.renderPdf(await invoiceService.getInvoice('order-1', buyer));
+
+            const text = expectValidXref(pdf);
+            expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+            expect(text).toContain('/Count 1');
+            expect(text).toContain('(INV-000007) Tj');
+            expect(text).toContain('(Kaju Katli) Tj');
+            expect(text).toContain('(218.00) Tj');
+        });
+
+        it('continues long orders onto more pages', async () => {
+            mockPrisma.order.findUnique.mockResolvedValue({
+                ...order,
+                lines: Array.from({ length: 80 }, (_, i) => line({ id: `line-${i}`, sweetName: `Sweet ${i}` })),
+            });
+
+            const pdf = invoiceService.renderPdf(await invoiceService.getInvoice('order-1', buyer));
+
+            const text = expectValidXref(pdf);
+            expect(text).toContain('/Count 3');
+            expect(text).toContain('(Sweet 79) Tj');
+        });
+
+        it('escapes PDF string delimiters and replaces characters WinAnsi lacks', async () => {
+            mockPrisma.order.findUnique.mockResolvedValue({
+                ...order,
+                lines: [line({ sweetName: 'Laddoo (box) ₹99' })],
+            });
+
+            const pdf = invoiceService.renderPdf(await invoiceService.getInvoice('order-1', buyer));
+
+            expect(pdf.toString('latin1')).toContain('(Laddoo \\(box\\) ?99) Tj');
+        });
+    });
+});
+
+describe('formatInvoiceNumber', () => {
+    it('pads the number to six digits after the prefix', () => {
+        expect(formatInvoiceNumber(42)).toBe('INV-000042');
+        expect(formatInvoiceNumber(1234567)).toBe('INV-1234567');
+    });
+});
@@ -0,0 +1,145 @@
+/**
+ * @file Unit tests for OrderService history lookups.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { OrderService } from '../../services/orderService';
+
+vi.mock('../../config/database', () => ({
+    default: {
+        order: {
+            findMany: vi.fn(),
+            findUnique: vi.fn(),
+            count: vi.fn(),
+        },
+    },
+}));
+
+import prisma from '../../config/database';
+
+describe('OrderService', () => {
+    let orderService: OrderService;
+    const mockPrisma = prisma as any;
+
+    const sampleOrder = {
+        id: 'order-1',
+        userId: 'user-123',
+        status: 'COMPLETED',
+        total: 30,
+        lines: [
+            {
+                id: 'line-1',
+                orderId: 'order-1',
+                sweetId: 'sweet-123',
+                sweetName: 'Ladoo',
+                unitPrice: 10,
+                quantity: 3,
+                lineTotal: 30,
+            },
+        ],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    const orderInclude = {
+        lines: true,
+        redemptions: { select: { promotionId: true, promotionName: true, code: true, discount: true } },
+    };
+
+    beforeEach(() => {
+        orderService = new OrderService();
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    describe('getOrdersForUser', () => {
+        const firstPage = { page: 1, limit: 20 };
+
+        it('returns a page of the requested user\'s orders, newest first', async () => {
+            mockPrisma.order.findMany.mockResolvedValueOnce([sampleOrder]);
+            mockPrisma.order.count.mockResolvedValueOnce(1);
+
+            const result = await orderService.getOrdersForUser('user-123', firstPage);
+
+            expect(mockPrisma.order.findMany).toHaveBeenCalledWith({
+                where: { userId: 'user-123' },
+                include: orderInclude,
+                orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+                skip: 0,
+                take: 20,
+            });
+            expect(result).toEqual({
+                orders: [sampleOrder],
+                pagination: { page: 1, limit: 20, total: 1, totalPages: 1 },
+            });
+        });
+
+        it('filters by status and an inclusive date range', async () => {
+            mockPrisma.order.findMany.mockResolvedValueOnce([]);
+            mockPrisma.order.count.mockResolvedValueOnce(45);
+            const from = new Date('2026-10-01T00:00:00Z');
+            const to = new Date('2026-10-31T23:59:59Z');
+
+            const result = await orderService.getOrdersForUser('user-123', {
+                page: 3,
+                limit: 20,
+                status: 'CANCELLED',
+                from,
+                to,
+            });
+
+            const where = { userId: 'user-123', status: 'CANCELLED', createdAt: { gte: from, lte: to } };
+            expect(mockPrisma.order.findMany.mock.calls[0][0]).toMatchObject({ where, skip: 40, take: 20 });
+            expect(mockPrisma.order.count).toHaveBeenCalledWith({ where });
+            expect(result.pagination.totalPages).toBe(3);
+        });
+    });
+
+    describe('getOrderById', () => {
+        it('returns an order owned by the requester', async () => {
+            mockPrisma.order.findUnique.mockResolvedValueOnce(sampleOrder);
+
+            const result = await orderService.getOrderById('order-1', { id: 'user-123', role: 'CUSTOMER' });
+
+            expect(mockPrisma.order.findUnique).toHaveBeenCalledWith({
+                where: { id: 'order-1' },
+                include: orderInclude,
+            });
+            expect(result).toEqual(sampleOrder);
+        });
+
+        it('allows admins to view any order', async () => {
+            mockPrisma.order.findUnique.mockResolvedValueOnce(sampleOrder);
+
+            const result = await orderService.getOrderById('order-1', { id: 'admin-1', role: 'ADMIN' });
+
+            expect(result).toEqual(sampleOrder);
+        });
+
+        it('throws when the order belongs to another user', async () => {
+            mockPrisma.order.findUnique.mockResolvedValueOnce(sampleOrder);
+
+            await expect(
+                orderService.getOrderById('order-1', { id: 'user-999', role: 'CUSTOMER' })
+            ).rejects.toThrow('Order not found');
+        });
+
+        it('returns another user\'s order to staff who may view all orders', async () => {
+            mockPrisma.order.findUnique.mockResolvedValueOnce(sampleOrder);
+
+            const result = await orderService.getOrderById('order-1', { id: 'cashier-1', role: 'CASHIER' });
+
+            expect(result).toEqual(sampleOrder);
+        });
+
+        it('throws when the order does not exist', async () => {
+            mockPrisma.order.findUnique.mockResolvedValueOnce(null);
+
+            await expect(
+                orderService.getOrderById('missing-id', { id: 'user-123', role: 'CUSTOMER' })
+            ).rejects.toThrow('Order not found');
+        });
+    });
+});
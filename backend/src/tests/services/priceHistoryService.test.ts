@@ -0,0 +1,231 @@
+/**
+ * @file Unit tests for PriceHistoryService recording, scheduling and applying prices.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PriceHistoryService } from '../../services/priceHistoryService';
+import { SweetEventService } from '../../services/sweetEventService';
+import { sweetWithCategory } from '../../services/sweetQueries';
+
+vi.mock('../../config/database', () => {
+    const client: any = {
+        sweet: {
+            findFirst: vi.fn(),
+            update: vi.fn(),
+        },
+        priceHistory: {
+            create: vi.fn(),
+            findMany: vi.fn(),
+            findFirst: vi.fn(),
+            updateMany: vi.fn(),
+            delete: vi.fn(),
+        },
+    };
+    // Interactive transactions run their callback against the same mocked client
+    client.$transaction = vi.fn((callback: (tx: any) => unknown) => callback(client));
+
+    return { default: client };
+});
+
+import prisma from '../../config/database';
+
+describe('PriceHistoryService', () => {
+    let priceHistoryService: PriceHistoryService;
+    const mockPrisma = prisma as any;
+    const actorId = 'admin-123';
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    beforeEach(() => {
+        priceHistoryService = new PriceHistoryService();
+        vi.clearAllMocks();
+        mockPrisma.sweet.findFirst.mockResolvedValue({ id: 'sweet-1' });
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    describe('record', () => {
+        it('appends a price that is effective and applied immediately', async () => {
+            await priceHistoryService.record(mockPrisma, { sweetId: 'sweet-1', price: 350, userId: actorId });
+
+            const { data } = mockPrisma.priceHistory.create.mock.calls[0][0];
+            expect(data).toMatchObject({ sweetId: 'sweet-1', price: 350, userId: actorId });
+            expect(data.effectiveFrom).toBeInstanceOf(Date);
+            expect(data.appliedAt).toBe(data.effectiveFrom);
+        });
+    });
+
+    describe('listPrices', () => {
+        it('lists prices with the latest effective date first', async () => {
+            mockPrisma.priceHistory.findMany.mockResolvedValue([]);
+
+            await priceHistoryService.listPrices('sweet-1');
+
+            expect(mockPrisma.priceHistory.findMany).toHaveBeenCalledWith({
+                where: { sweetId: 'sweet-1' },
+                include: { user: { select: { id: true, email: true, name: true } } },
+                orderBy: [{ effectiveFrom: 'desc' }, { createdAt: 'desc' }],
+            });
+        });
+
+        it('throws when the sweet does not exist or is archived', async () => {
+            mockPrisma.sweet.findFirst.mockResolvedValue(null);
+
+            await expect(priceHistoryService.listPrices('missing')).rejects.toMatchObject({
+                status: 404,
+                code: 'SWEET_NOT_FOUND',
+            });
+        });
+    });
+
+    describe('listAppliedPrices', () => {
+        it('lists only prices that took effect, without who set them', async () => {
+            mockPrisma.priceHistory.findMany.mockResolvedValue([]);
+
+            await priceHistoryService.listAppliedPrices('sweet-1');
+
+            const query = mockPrisma.priceHistory.findMany.mock.calls[0][0];
+            expect(query.where).toEqual({ sweetId: 'sweet-1', appliedAt: { not: null } });
+            expect(query.select).not.toHaveProperty('user');
+            expect(query.select).not.toHaveProperty('userId');
+        });
+    });
+
+    describe('schedulePrice', () => {
+        it('stores the change without applying it', async () => {
+            const effectiveFrom = new Date('2026-11-01T00:00:00Z');
+
+            await priceHistoryService.schedulePrice('sweet-1', { price: 400, effectiveFrom }, actorId);
+
+            expect(mockPrisma.priceHistory.create).toHaveBeenCalledWith({
+                data: { sweetId: 'sweet-1', price: 400, effectiveFrom, userId: actorId },
+                include: { user: { select: { id: true, email: true, name: true } } },
+            });
+            expect(mockPrisma.sweet.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('cancelScheduledPrice', () => {
+        it('deletes a pending change', async () => {
+            mockPrisma.priceHistory.findFirst.mockResolvedValue({ id: 'price-1' });
+
+            await priceHistoryService.cancelScheduledPrice('sweet-1', 'price-1');
+
+            expect(mockPrisma.priceHistory.findFirst).toHaveBeenCalledWith({
+                where: { id: 'price-1', sweetId: 'sweet-1', appliedAt: null, supersededAt: null },
+            });
+            expect(mockPrisma.priceHistory.delete).toHaveBeenCalledWith({ where: { id: 'price-1' } });
+        });
+
+        it('refuses to remove a change that already took effect', async () => {
+            mockPrisma.priceHistory.findFirst.mockResolvedValue(null);
+
+            await expect(priceHistoryService.cancelScheduledPrice('sweet-1', 'price-1')).rejects.toMatchObject({
+                status: 404,
+                code: 'PRICE_CHANGE_NOT_FOUND',
+            });
+            expect(mockPrisma.priceHistory.delete).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('applyDuePrices', () => {
+        const change = (id: string, sweetId: string, price: number, effectiveFrom: string) => ({
+            id,
+            sweetId,
+            price,
+            effectiveFrom: new Date(effectiveFrom),
+        });
+
+        it('sets each sweet to its latest due price', async () => {
+            const lastWeek = change('price-1', 'sweet-1', 300, '2026-10-12T00:00:00Z');
+            const yesterday = change('price-2', 'sweet-1', 320, '2026-10-18T00:00:00Z');
+            const other = change('price-3', 'sweet-2', 150, '2026-10-19T06:00:00Z');
+            mockPrisma.priceHistory.findMany.mockResolvedValue([lastWeek, yesterday, other]);
+            mockPrisma.priceHistory.updateMany.mockResolvedValue({ count: 1 });
+            mockPrisma.sweet.update.mockImplementation(async ({ where, data }: any) => ({ id: where.id, ...data }));
+
+            const applied = await priceHistoryService.applyDuePrices(now);
+
+            expect(applied).toBe(2);
+            expect(mockPrisma.priceHistory.findMany).toHaveBeenCalledWith({
+                where: { appliedAt: null, supersededAt: null, effectiveFrom: { lte: now }, sweet: { deletedAt: null } },
+                orderBy: [{ effectiveFrom: 'asc' }, { createdAt: 'asc' }],
+            });
+            expect(mockPrisma.sweet.update).toHaveBeenCalledTimes(2);
+            expect(mockPrisma.sweet.update).toHaveBeenCalledWith({
+                where: { id: 'sweet-1' },
+                data: { price: 320 },
+                include: sweetWithCategory,
+            });
+            expect(mockPrisma.sweet.update).toHaveBeenCalledWith({
+                where: { id: 'sweet-2' },
+                data: { price: 150 },
+                include: sweetWithCategory,
+            });
+        });
+
+        it('marks only the applied row applied when two are due for one sweet', async () => {
+            const lastWeek = change('price-1', 'sweet-1', 300, '2026-10-12T00:00:00Z');
+            const yesterday = change('price-2', 'sweet-1', 320, '2026-10-18T00:00:00Z');
+            mockPrisma.priceHistory.findMany.mockResolvedValue([lastWeek, yesterday]);
+            mockPrisma.priceHistory.updateMany.mockResolvedValue({ count: 1 });
+            mockPrisma.sweet.update.mockResolvedValue({ id: 'sweet-1', price: 320 });
+
+            await priceHistoryService.applyDuePrices(now);
+
+            expect(mockPrisma.priceHistory.updateMany).toHaveBeenCalledTimes(2);
+            expect(mockPrisma.priceHistory.updateMany).toHaveBeenCalledWith({
+                where: { id: 'price-2', appliedAt: null, supersededAt: null },
+                data: { appliedAt: now },
+            });
+            expect(mockPrisma.priceHistory.updateMany).toHaveBeenCalledWith({
+                where: { id: { in: ['price-1'] }, appliedAt: null, supersededAt: null },
+                data: { supersededAt: now },
+            });
+            expect(mockPrisma.sweet.update).toHaveBeenCalledExactlyOnceWith({
+                where: { id: 'sweet-1' },
+                data: { price: 320 },
+                include: sweetWithCategory,
+            });
+        });
+
+        it('leaves changes to archived sweets pending until they are restored', async () => {
+            mockPrisma.priceHistory.findMany.mockResolvedValue([]);
+
+            const applied = await priceHistoryService.applyDuePrices(now);
+
+            expect(applied).toBe(0);
+            expect(mockPrisma.priceHistory.findMany.mock.calls[0][0].where.sweet).toEqual({ deletedAt: null });
+            expect(mockPrisma.priceHistory.updateMany).not.toHaveBeenCalled();
+        });
+
+        it('announces each repriced sweet', async () => {
+            const events = vi.fn();
+            const unsubscribe = new SweetEventService().subscribe(events);
+            const repriced = { id: 'sweet-1', price: 320 };
+            mockPrisma.priceHistory.findMany.mockResolvedValue([
+                change('price-1', 'sweet-1', 320, '2026-10-18T00:00:00Z'),
+            ]);
+            mockPrisma.priceHistory.updateMany.mockResolvedValue({ count: 1 });
+            mockPrisma.sweet.update.mockResolvedValue(repriced);
+
+            await priceHistoryService.applyDuePrices(now);
+            unsubscribe();
+
+            expect(events).toHaveBeenCalledExactlyOnceWith({ type: 'sweet.updated', sweet: repriced });
+        });
+
+        it('skips changes another run already applied', async () => {
+            mockPrisma.priceHistory.findMany.mockResolvedValue([
+                change('price-1', 'sweet-1', 300, '2026-10-18T00:00:00Z'),
+            ]);
+            mockPrisma.priceHistory.updateMany.mockResolvedValue({ count: 0 });
+
+            const applied = await priceHistoryService.applyDuePrices(now);
+
+            expect(applied).toBe(0);
+            expect(mockPrisma.priceHistory.updateMany).toHaveBeenCalledTimes(1);
+            expect(mockPrisma.sweet.update).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,411 @@
+/**
+ * @file Unit tests for promotion pricing rules and PromotionService.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PricedLine, PromotionService, priceLines } from '../../services/promotionService';
+
+vi.mock('../../config/database', () => {
+    const client: any = {
+        sweet: {
+            findMany: vi.fn(),
+            findFirst: vi.fn(),
+        },
+        category: {
+            findMany: vi.fn(),
+            findUnique: vi.fn(),
+        },
+        promotion: {
+            findMany: vi.fn(),
+            findUnique: vi.fn(),
+            create: vi.fn(),
+            update: vi.fn(),
+            deleteMany: vi.fn(),
+        },
+        promotionRedemption: {
+            groupBy: vi.fn(),
+        },
+        $queryRaw: vi.fn(),
+    };
+
+    return { default: client };
+});
+
+import prisma from '../../config/database';
+
+/** A running automatic promotion with every optional rule switched off. */
+const promotion = (overrides: Record<string, unknown>): any => ({
+    id: 'promo-1',
+    name: 'Offer',
+    type: 'PERCENTAGE',
+    value: 0,
+    currency: 'INR',
+    buyQuantity: null,
+    freeQuantity: null,
+    code: null,
+    sweetId: null,
+    categoryId: null,
+    startsAt: null,
+    endsAt: null,
+    perUserLimit: null,
+    isActive: true,
+    ...overrides,
+});
+
+const line = (sweetId: string, unitPrice: number, quantity: number, categoryIds = ['cat-gummies']): PricedLine => ({
+    sweetId,
+    categoryIds,
+    unitPrice,
+    quantity,
+});
+
+describe('priceLines', () => {
+    it('takes a percentage off every line in scope', () => {
+        const result = priceLines(
+            [line('bears', 1000, 2), line('fudge', 500, 1, ['cat-chocolate'])],
+            'INR',
+            [promotion({ type: 'PERCENTAGE', value: 15, categoryId: 'cat-gummies' })]
+        );
+
+        expect(result.lineDiscounts).toEqual([300, 0]);
+        expect(result.promotions).toEqual([{ promotionId: 'promo-1', name: 'Offer', code: null, discount: 300 }]);
+    });
+
+    it('splits a fixed amount across lines so the parts add up exactly', () => {
+        const result = priceLines(
+            [line('bears', 100, 1), line('worms', 100, 1), line('rings', 100, 1)],
+            'INR',
+            [promotion({ type: 'FIXED_AMOUNT', value: 100 })]
+        );
+
+        expect(result.lineDiscounts).toEqual([34, 33, 33]);
+    });
+
+    it('never takes more off than the lines cost', () => {
+        const result = priceLines([line('bears', 250, 1)], 'INR', [promotion({ type: 'FIXED_AMOUNT', value: 1000 })]);
+
+        expect(result.lineDiscounts).toEqual([250]);
+    });
+
+    it('ignores amount-based promotions in another currency', () => {
+        const result = priceLines(
+            [line('bears', 250, 4)],
+            'INR',
+            [promotion({ type: 'FIXED_AMOUNT', value: 100, currency: 'GBP' })]
+        );
+
+        expect(result.promotions).toEqual([]);
+    });
+
+    it('makes the cheapest units free on a multi-buy, mixing sweets in scope', () => {
+        const result = priceLines(
+            [line('bears', 300, 2), line('worms', 200, 1), line('rings', 400, 3)],
+            'INR',
+            [promotion({ type: 'MULTI_BUY', buyQuantity: 2, freeQuantity: 1 })]
+        );
+
+        // Six units make two buy-2-get-1 deals: the worm and one bear are free
+        expect(result.lineDiscounts).toEqual([300, 200, 0]);
+    });
+
+    it('prices full bundles of the dearest units at the bundle price', () => {
+        const result = priceLines(
+            [line('box', 600, 2), line('tin', 400, 2)],
+            'INR',
+            [promotion({ type: 'BUNDLE', buyQuantity: 3, value: 1200 })]
+        );
+
+        // One bundle of 600 + 600 + 400 = 1600 sells for 1200
+        expect(result.lineDiscounts.reduce((a, b) => a + b, 0)).toBe(400);
+        expect(result.lineDiscounts).toEqual([300, 100]);
+    });
+
+    it('skips a bundle that would cost more than buying the units', () => {
+        const result = priceLines([line('box', 100, 3)], 'INR', [promotion({ type: 'BUNDLE', buyQuantity: 3, value: 500 })]);
+
+        expect(result.promotions).toEqual([]);
+    });
+
+    it('applies only the best automatic promotion to a line', () => {
+        const result = priceLines(
+            [line('bears', 1000, 3)],
+            'INR',
+            [
+                promotion({ id: 'small', type: 'PERCENTAGE', value: 10 }),
+                promotion({ id: 'large', type: 'MULTI_BUY', buyQuantity: 2, freeQuantity: 1 }),
+            ]
+        );
+
+        expect(result.promotions.map((applied) => applied.promotionId)).toEqual(['large']);
+        expect(result.lineDiscounts).toEqual([1000]);
+    });
+
+    it('stacks a coupon on top of automatic discounts', () => {
+        const result = priceLines(
+            [line('bears', 1000, 3)],
+            'INR',
+            [promotion({ id: 'b2g1', type: 'MULTI_BUY', buyQuantity: 2, freeQuantity: 1 })],
+            promotion({ id: 'coupon', code: 'SWEET10', type: 'PERCENTAGE', value: 10 })
+        );
+
+        expect(result.lineDiscounts).toEqual([1200]);
+        expect(result.promotions).toEqual([
+            { promotionId: 'b2g1', name: 'Offer', code: null, discount: 1000 },
+            { promotionId: 'coupon', name: 'Offer', code: 'SWEET10', discount: 200 },
+        ]);
+    });
+
+    it('rejects a coupon that saves nothing on these sweets', () => {
+        expect(() =>
+            priceLines(
+                [line('bears', 1000, 1)],
+                'INR',
+                [],
+                promotion({ code: 'FUDGE', type: 'PERCENTAGE', value: 10, sweetId: 'fudge' })
+            )
+        ).toThrow(expect.objectContaining({ code: 'INVALID_COUPON', field: 'couponCode' }));
+    });
+});
+
+describe('PromotionService', () => {
+    let promotionService: PromotionService;
+    const mockPrisma = prisma as any;
+
+    beforeEach(() => {
+        promotionService = new PromotionService();
+        vi.clearAllMocks();
+        mockPrisma.promotion.findMany.mockResolvedValue([]);
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    describe('priceOrder', () => {
+        const lines = [{ sweetId: 'bears', categoryId: 'cat-gummies', unitPrice: 1000, quantity: 2 }];
+
+        it('only considers running automatic promotions', async () => {
+            await promotionService.priceOrder(mockPrisma, 'user-1', 'INR', lines);
+
+            const { where } = mockPrisma.promotion.findMany.mock.calls[0][0];
+            expect(where).toMatchObject({ isActive: true, code: null });
+            expect(where.AND).toHaveLength(2);
+        });
+
+        it('covers sweets in subcategories of a promotion category', async () => {
+            mockPrisma.promotion.findMany.mockResolvedValue([
+                promotion({ type: 'PERCENTAGE', value: 50, categoryId: 'cat-festival' }),
+            ]);
+            mockPrisma.category.findMany.mockResolvedValue([
+                { id: 'cat-festival', parentId: null },
+                { id: 'cat-gummies', parentId: 'cat-festival' },
+            ]);
+
+            const result = await promotionService.priceOrder(mockPrisma, 'user-1', 'INR', lines);
+
+            expect(result.lineDiscounts).toEqual([1000]);
+        });
+
+        it('leaves out automatic promotions the user has used up', async () => {
+            mockPrisma.promotion.findMany.mockResolvedValue([
+                promotion({ type: 'PERCENTAGE', value: 50, perUserLimit: 1 }),
+            ]);
+            mockPrisma.promotionRedemption.groupBy.mockResolvedValue([
+                { promotionId: 'promo-1', _count: { _all: 1 } },
+            ]);
+
+            const result = await promotionService.priceOrder(mockPrisma, 'user-1', 'INR', lines);
+
+            expect(mockPrisma.promotionRedemption.groupBy).toHaveBeenCalledWith({
+                by: ['promotionId'],
+                where: { userId: 'user-1', promotionId: { in: ['promo-1'] } },
+                _count: { _all: true },
+            });
+            expect(result.promotions).toEqual([]);
+        });
+
+        it('locks limited promotions before counting their redemptions', async () => {
+            mockPrisma.promotion.findMany.mockResolvedValue([
+                promotion({ type: 'PERCENTAGE', value: 50, perUserLimit: 1 }),
+            ]);
+            mockPrisma.promotionRedemption.groupBy.mockResolvedValue([]);
+
+            await promotionService.priceOrder(mockPrisma, 'user-1', 'INR', lines);
+
+            const [[strings, ...values]] = mockPrisma.$queryRaw.mock.calls;
+            expect(strings.join('?')).toContain('FOR UPDATE');
+            expect(values).toContainEqual(expect.objectContaining({ values: ['promo-1'] }));
+            expect(mockPrisma.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+                mockPrisma.promotionRedemption.groupBy.mock.invocationCallOrder[0]
+            );
+        });
+
+        it('refuses the second of two concurrent checkouts using a once-per-shopper coupon', async () => {
+            mockPrisma.promotion.findUnique.mockResolvedValue(
+                promotion({ code: 'ONCE', type: 'PERCENTAGE', value: 10, perUserLimit: 1 })
+            );
+            const redemptions: string[] = [];
+            mockPrisma.promotionRedemption.groupBy.mockImplementation(async () =>
+                redemptions.length > 0 ? [{ promotionId: 'promo-1', _count: { _all: redemptions.length } }] : []
+            );
+
+            // Stands in for the row lock: held from the locking query until the checkout commits
+            let locked = Promise.resolve();
+            const checkout = async (orderId: string) => {
+                let unlock = () => {};
+                const tx = {
+                    ...mockPrisma,
+                    $queryRaw: vi.fn(() => {
+                        const previous = locked;
+                        locked = new Promise<void>((resolve) => { unlock = resolve; });
+                        return previous;
+                    }),
+                };
+                try {
+                    await promotionService.priceOrder(tx, 'user-1', 'INR', lines, 'ONCE');
+                    redemptions.push(orderId);
+                } finally {
+                    unlock();
+                }
+            };
+
+            const [first, second] = await Promise.allSettled([checkout('order-1'), checkout('order-2')]);
+
+            expect(first.status).toBe('fulfilled');
+            expect(second).toMatchObject({ status: 'rejected', reason: { code: 'INVALID_COUPON' } });
+            expect(redemptions).toEqual(['order-1']);
+        });
+
+        it('matches coupon codes case-insensitively', async () => {
+            mockPrisma.promotion.findUnique.mockResolvedValue(
+                promotion({ code: 'SWEET10', type: 'PERCENTAGE', value: 10 })
+            );
+
+            const result = await promotionService.priceOrder(mockPrisma, 'user-1', 'INR', lines, ' sweet10 ');
+
+            expect(mockPrisma.promotion.findUnique).toHaveBeenCalledWith({ where: { code: 'SWEET10' } });
+            expect(result.lineDiscounts).toEqual([200]);
+        });
+
+        it.each([
+            ['unknown', null, 'Coupon code not recognised'],
+            ['inactive', promotion({ code: 'OLD', isActive: false }), 'Coupon code not recognised'],
+            ['not yet valid', promotion({ code: 'SOON', startsAt: new Date(Date.now() + 60_000) }), 'This coupon is not valid yet'],
+            ['expired', promotion({ code: 'GONE', endsAt: new Date(Date.now() - 60_000) }), 'This coupon has expired'],
+        ])('rejects an %s coupon', async (_label, coupon, message) => {
+            mockPrisma.promotion.findUnique.mockResolvedValue(coupon);
+
+            await expect(
+                promotionService.priceOrder(mockPrisma, 'user-1', 'INR', lines, 'CODE')
+            ).rejects.toMatchObject({ status: 422, code: 'INVALID_COUPON', message });
+        });
+
+        it('rejects a coupon the user has used the maximum number of times', async () => {
+            mockPrisma.promotion.findUnique.mockResolvedValue(
+                promotion({ code: 'ONCE', type: 'PERCENTAGE', value: 10, perUserLimit: 1 })
+            );
+            mockPrisma.promotionRedemption.groupBy.mockResolvedValue([
+                { promotionId: 'promo-1', _count: { _all: 1 } },
+            ]);
+
+            await expect(
+                promotionService.priceOrder(mockPrisma, 'user-1', 'INR', lines, 'ONCE')
+            ).rejects.toMatchObject({ code: 'INVALID_COUPON' });
+        });
+    });
+
+    describe('quote', () => {
+        it('prices the items without placing an order', async () => {
+            mockPrisma.sweet.findMany.mockResolvedValue([
+                { id: 'bears', name: 'Gummy Bears', categoryId: 'cat-gummies', price: 1000, currency: 'INR' },
+            ]);
+            mockPrisma.promotion.findMany.mockResolvedValue([promotion({ type: 'PERCENTAGE', value: 10 })]);
+
+            const quote = await promotionService.quote('user-1', { items: [{ sweetId: 'bears', quantity: 2 }] });
+
+            expect(quote).toEqual({
+                currency: 'INR',
+                lines: [
+                    {
+                        sweetId: 'bears',
+                        sweetName: 'Gummy Bears',
+                        unitPrice: 1000,
+                        quantity: 2,
+                        discount: 200,
+                        lineTotal: 1800,
+                    },
+                ],
+                promotions: [{ promotionId: 'promo-1', name: 'Offer', code: null, discount: 200 }],
+                subtotal: 2000,
+                discount: 200,
+                total: 1800,
+            });
+        });
+
+        it('throws for a sweet that does not exist or is archived', async () => {
+            mockPrisma.sweet.findMany.mockResolvedValue([]);
+
+            await expect(
+                promotionService.quote('user-1', { items: [{ sweetId: 'missing', quantity: 1 }] })
+            ).rejects.toMatchObject({ status: 404, code: 'SWEET_NOT_FOUND' });
+        });
+    });
+
+    describe('createPromotion', () => {
+        it('stores coupon codes upper case', async () => {
+            mockPrisma.promotion.findUnique.mockResolvedValue(null);
+
+            await promotionService.createPromotion({ name: 'Sweet ten', type: 'PERCENTAGE', value: 10, code: 'sweet10' });
+
+            expect(mockPrisma.promotion.create).toHaveBeenCalledWith(
+                expect.objectContaining({ data: expect.objectContaining({ code: 'SWEET10' }) })
+            );
+        });
+
+        it('refuses a code another promotion already uses', async () => {
+            mockPrisma.promotion.findUnique.mockResolvedValue({ id: 'promo-9', code: 'SWEET10' });
+
+            await expect(
+                promotionService.createPromotion({ name: 'Copy', type: 'PERCENTAGE', value: 10, code: 'SWEET10' })
+            ).rejects.toMatchObject({ status: 409, code: 'CODE_CONFLICT', field: 'code' });
+            expect(mockPrisma.promotion.create).not.toHaveBeenCalled();
+        });
+
+        it('refuses a category that does not exist', async () => {
+            mockPrisma.category.findUnique.mockResolvedValue(null);
+
+            await expect(
+                promotionService.createPromotion({ name: 'Gummies', type: 'PERCENTAGE', value: 10, categoryId: 'missing' })
+            ).rejects.toMatchObject({ code: 'UNKNOWN_CATEGORY', field: 'categoryId' });
+        });
+    });
+
+    describe('updatePromotion', () => {
+        it('checks the per-type rules against the promotion after the change', async () => {
+            mockPrisma.promotion.findUnique.mockResolvedValue(promotion({ type: 'PERCENTAGE', value: 10 }));
+
+            await expect(
+                promotionService.updatePromotion('promo-1', { type: 'MULTI_BUY' })
+            ).rejects.toMatchObject({ name: 'ZodError' });
+            expect(mockPrisma.promotion.update).not.toHaveBeenCalled();
+        });
+
+        it('throws for an unknown promotion', async () => {
+            mockPrisma.promotion.findUnique.mockResolvedValue(null);
+
+            await expect(promotionService.updatePromotion('missing', { value: 20 })).rejects.toMatchObject({
+                status: 404,
+                code: 'PROMOTION_NOT_FOUND',
+            });
+        });
+    });
+
+    describe('deletePromotion', () => {
+        it('throws for an unknown promotion', async () => {
+            mockPrisma.promotion.deleteMany.mockResolvedValue({ count: 0 });
+
+            await expect(promotionService.deletePromotion('missing')).rejects.toMatchObject({
+                code: 'PROMOTION_NOT_FOUND',
+            });
+        });
+    });
+});
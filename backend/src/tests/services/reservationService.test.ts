@@ -0,0 +1,183 @@
+/**
+ * @file Unit tests for ReservationService holding, releasing and sweeping stock.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ReservationService } from '../../services/reservationService';
+import { SweetEventService } from '../../services/sweetEventService';
+import { RESERVATION_TTL_MS } from '../../config/reservation';
+
+vi.mock('../../config/database', () => {
+    const client: any = {
+        sweet: {
+            findUniqueOrThrow: vi.fn(),
+            update: vi.fn(),
+            updateMany: vi.fn(),
+        },
+        stockReservation: {
+            findMany: vi.fn(),
+            findFirst: vi.fn(),
+            create: vi.fn(),
+            deleteMany: vi.fn(),
+        },
+    };
+    // Interactive transactions run their callback against the same mocked client
+    client.$transaction = vi.fn((callback: (tx: any) => unknown) => callback(client));
+
+    return { default: client };
+});
+
+import prisma from '../../config/database';
+
+describe('ReservationService', () => {
+    let reservationService: ReservationService;
+    const mockPrisma = prisma as any;
+    const userId = 'user-123';
+    const now = new Date('2026-10-19T12:00:00Z');
+    const sweet = { id: 'sweet-1', name: 'Ladoo', quantity: 10, reserved: 0 };
+    const reservation = (id: string, quantity: number, expiresAt = new Date(now.getTime() + 60_000)) => ({
+        id,
+        userId,
+        sweetId: sweet.id,
+        quantity,
+        expiresAt,
+    });
+
+    beforeEach(() => {
+        reservationService = new ReservationService();
+        vi.clearAllMocks();
+        mockPrisma.stockReservation.findMany.mockResolvedValue([]);
+        mockPrisma.stockReservation.create.mockImplementation(async ({ data }: any) => ({ id: 'reservation-new', ...data }));
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    describe('reserve', () => {
+        it('holds the units until the reservation expires', async () => {
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce({ ...sweet, reserved: 4 });
+            const before = Date.now();
+
+            const { reservation: held } = await reservationService.reserve(userId, { sweetId: sweet.id, quantity: 4 });
+
+            expect(mockPrisma.sweet.updateMany).toHaveBeenCalledWith({
+                where: { id: sweet.id, deletedAt: null },
+                data: { reserved: { increment: 4 } },
+            });
+            expect(held).toMatchObject({ userId, sweetId: sweet.id, quantity: 4 });
+            expect(held.expiresAt.getTime()).toBeGreaterThanOrEqual(before + RESERVATION_TTL_MS);
+        });
+
+        it('replaces the shopper\'s earlier hold on the same sweet', async () => {
+            mockPrisma.stockReservation.findMany.mockResolvedValueOnce([reservation('reservation-old', 2)]);
+            mockPrisma.stockReservation.deleteMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce({ ...sweet, reserved: 5 });
+
+            await reservationService.reserve(userId, { sweetId: sweet.id, quantity: 5 });
+
+            expect(mockPrisma.stockReservation.deleteMany).toHaveBeenCalledWith({ where: { id: 'reservation-old' } });
+            expect(mockPrisma.sweet.update).toHaveBeenCalledWith(expect.objectContaining({
+                where: { id: sweet.id },
+                data: { reserved: { decrement: 2 } },
+            }));
+        });
+
+        it('refuses to hold more than is available', async () => {
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            // 10 on hand with 7 already held by others, plus the 4 asked for
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce({ ...sweet, reserved: 11 });
+
+            await expect(
+                reservationService.reserve(userId, { sweetId: sweet.id, quantity: 4 })
+            ).rejects.toMatchObject({
+                code: 'INSUFFICIENT_STOCK',
+                details: { sweetId: sweet.id, available: 3, requested: 4 },
+            });
+
+            expect(mockPrisma.stockReservation.create).not.toHaveBeenCalled();
+        });
+
+        it('throws when the sweet does not exist or is archived', async () => {
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 0 });
+
+            await expect(
+                reservationService.reserve(userId, { sweetId: 'missing', quantity: 1 })
+            ).rejects.toMatchObject({ code: 'SWEET_NOT_FOUND' });
+        });
+
+        it('announces the new available stock', async () => {
+            const events = vi.fn();
+            const unsubscribe = new SweetEventService().subscribe(events);
+            mockPrisma.sweet.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.findUniqueOrThrow.mockResolvedValueOnce({ ...sweet, reserved: 4 });
+
+            await reservationService.reserve(userId, { sweetId: sweet.id, quantity: 4 });
+            unsubscribe();
+
+            expect(events).toHaveBeenCalledExactlyOnceWith({ type: 'stock.changed', sweetId: sweet.id, quantity: 10, available: 6 });
+        });
+    });
+
+    describe('release', () => {
+        it('gives the held units back to stock', async () => {
+            mockPrisma.stockReservation.findFirst.mockResolvedValueOnce(reservation('reservation-1', 3));
+            mockPrisma.stockReservation.deleteMany.mockResolvedValueOnce({ count: 1 });
+            mockPrisma.sweet.update.mockResolvedValueOnce(sweet);
+
+            const result = await reservationService.release(userId, 'reservation-1');
+
+            expect(mockPrisma.stockReservation.findFirst).toHaveBeenCalledWith({ where: { id: 'reservation-1', userId } });
+            expect(mockPrisma.sweet.update).toHaveBeenCalledWith(expect.objectContaining({
+                data: { reserved: { decrement: 3 } },
+            }));
+            expect(result).toEqual(sweet);
+        });
+
+        it('throws when the reservation was already bought or swept', async () => {
+            mockPrisma.stockReservation.findFirst.mockResolvedValueOnce(reservation('reservation-1', 3));
+            mockPrisma.stockReservation.deleteMany.mockResolvedValueOnce({ count: 0 });
+
+            await expect(reservationService.release(userId, 'reservation-1')).rejects.toMatchObject({
+                code: 'RESERVATION_NOT_FOUND',
+            });
+
+            expect(mockPrisma.sweet.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('releaseExpired', () => {
+        it('releases every expired reservation and announces the freed stock', async () => {
+            const events = vi.fn();
+            const unsubscribe = new SweetEventService().subscribe(events);
+            mockPrisma.stockReservation.findMany.mockResolvedValueOnce([
+                reservation('reservation-1', 3, now),
+                reservation('reservation-2', 1, now),
+            ]);
+            mockPrisma.stockReservation.deleteMany.mockResolvedValue({ count: 1 });
+            mockPrisma.sweet.update.mockResolvedValue(sweet);
+
+            const released = await reservationService.releaseExpired(now);
+            unsubscribe();
+
+            expect(released).toBe(2);
+            expect(mockPrisma.stockReservation.findMany).toHaveBeenCalledWith({
+                where: { expiresAt: { lte: now } },
+                orderBy: { expiresAt: 'asc' },
+            });
+            expect(mockPrisma.sweet.update).toHaveBeenCalledTimes(2);
+            expect(events).toHaveBeenCalledTimes(2);
+        });
+
+        it('skips reservations bought or released since they were listed', async () => {
+            mockPrisma.stockReservation.findMany.mockResolvedValueOnce([reservation('reservation-1', 3, now)]);
+            mockPrisma.stockReservation.deleteMany.mockResolvedValueOnce({ count: 0 });
+
+            const released = await reservationService.releaseExpired(now);
+
+            expect(released).toBe(0);
+            expect(mockPrisma.sweet.update).not.toHaveBeenCalled();
+        });
+    });
+});
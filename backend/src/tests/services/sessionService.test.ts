@@ -0,0 +1,143 @@
+/**
+ * @file Unit tests for SessionService covering issue, rotation, and revocation.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import crypto from 'crypto';
+import { SessionService } from '../../services/sessionService';
+
+vi.mock('../../config/database', () => ({
+    default: {
+        session: {
+            create: vi.fn(),
+            findUnique: vi.fn(),
+            updateMany: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('../../utils/auth', () => ({
+    generateToken: vi.fn(),
+}));
+
+import prisma from '../../config/database';
+import * as authUtils from '../../utils/auth';
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+describe('SessionService', () => {
+    let sessionService: SessionService;
+    const mockPrisma = prisma as any;
+    const mockAuthUtils = authUtils as any;
+
+    const user = { id: 'user-123', email: 'user@example.com', role: 'CUSTOMER' };
+    const activeSession = {
+        id: 'session-123',
+        userId: user.id,
+        refreshTokenHash: sha256('refresh-token'),
+        revokedAt: null,
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        user: { ...user, isActive: true },
+    };
+
+    beforeEach(() => {
+        sessionService = new SessionService();
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    describe('createSession', () => {
+        it('stores only a hash of the refresh token and binds the access token to the session', async () => {
+            mockPrisma.session.create.mockResolvedValueOnce({ id: 'session-123' });
+            mockAuthUtils.generateToken.mockReturnValueOnce('access-token');
+
+            const result = await sessionService.createSession(user);
+
+            const { data } = mockPrisma.session.create.mock.calls[0][0];
+            expect(data.userId).toBe(user.id);
+            expect(data.refreshTokenHash).toBe(sha256(result.refreshToken));
+            expect(data.expiresAt.getTime()).toBeGreaterThan(Date.now());
+            expect(mockAuthUtils.generateToken).toHaveBeenCalledWith({ ...user, sid: 'session-123' });
+            expect(result.token).toBe('access-token');
+        });
+    });
+
+    describe('refreshSession', () => {
+        it('rotates the refresh token only while the presented one is current', async () => {
+            mockPrisma.session.findUnique.mockResolvedValueOnce(activeSession);
+            mockPrisma.session.updateMany.mockResolvedValueOnce({ count: 1 });
+            mockAuthUtils.generateToken.mockReturnValueOnce('new-access-token');
+
+            const result = await sessionService.refreshSession('refresh-token');
+
+            expect(mockPrisma.session.findUnique).toHaveBeenCalledWith({
+                where: { refreshTokenHash: sha256('refresh-token') },
+                include: { user: { select: { id: true, email: true, role: true, isActive: true } } },
+            });
+            expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+                where: { id: activeSession.id, refreshTokenHash: sha256('refresh-token'), revokedAt: null },
+                data: { refreshTokenHash: sha256(result.refreshToken), expiresAt: expect.any(Date) },
+            });
+            expect(result.refreshToken).not.toBe('refresh-token');
+            expect(result.token).toBe('new-access-token');
+        });
+
+        it('rejects tokens of revoked, expired, or deactivated sessions', async () => {
+            mockPrisma.session.findUnique.mockResolvedValueOnce({ ...activeSession, revokedAt: new Date() });
+            await expect(sessionService.refreshSession('refresh-token')).rejects.toThrow('Invalid refresh token');
+
+            mockPrisma.session.findUnique.mockResolvedValueOnce({ ...activeSession, expiresAt: new Date(0) });
+            await expect(sessionService.refreshSession('refresh-token')).rejects.toThrow('Invalid refresh token');
+
+            mockPrisma.session.findUnique.mockResolvedValueOnce({
+                ...activeSession,
+                user: { ...user, isActive: false },
+            });
+            await expect(sessionService.refreshSession('refresh-token')).rejects.toThrow('Invalid refresh token');
+
+            expect(mockPrisma.session.updateMany).not.toHaveBeenCalled();
+        });
+
+        it('rejects the loser of two concurrent refreshes with the same token', async () => {
+            mockPrisma.session.findUnique.mockResolvedValueOnce(activeSession);
+            mockPrisma.session.updateMany.mockResolvedValueOnce({ count: 0 });
+
+            await expect(sessionService.refreshSession('refresh-token')).rejects.toThrow('Invalid refresh token');
+            expect(mockAuthUtils.generateToken).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('findActiveSessionUser', () => {
+        const sessionUser = { ...user, isActive: true, passwordResetRequired: false };
+
+        it('returns the current user of a live session', async () => {
+            mockPrisma.session.findUnique.mockResolvedValueOnce({ ...activeSession, user: sessionUser });
+
+            await expect(sessionService.findActiveSessionUser('session-123')).resolves.toEqual(sessionUser);
+        });
+
+        it('returns null for revoked, expired, or missing sessions', async () => {
+            mockPrisma.session.findUnique.mockResolvedValueOnce({ ...activeSession, revokedAt: new Date() });
+            await expect(sessionService.findActiveSessionUser('session-123')).resolves.toBeNull();
+
+            mockPrisma.session.findUnique.mockResolvedValueOnce({ ...activeSession, expiresAt: new Date(0) });
+            await expect(sessionService.findActiveSessionUser('session-123')).resolves.toBeNull();
+
+            mockPrisma.session.findUnique.mockResolvedValueOnce(null);
+            await expect(sessionService.findActiveSessionUser('missing')).resolves.toBeNull();
+        });
+    });
+
+    describe('revokeAllSessions', () => {
+        it('revokes every open session of the user', async () => {
+            await sessionService.revokeAllSessions(mockPrisma, user.id);
+
+            expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+                where: { userId: user.id, revokedAt: null },
+                data: { revokedAt: expect.any(Date) },
+            });
+        });
+    });
+});
@@ -0,0 +1,49 @@
+/**
+ * @file Unit tests for SweetEventService publishing and subscriptions.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { SweetEventService } from '../../services/sweetEventService';
+
+describe('SweetEventService', () => {
+    const sweetEventService = new SweetEventService();
+
+    it('delivers published events to every subscriber, across instances', () => {
+        const first = vi.fn();
+        const second = vi.fn();
+        const unsubscribeFirst = sweetEventService.subscribe(first);
+        const unsubscribeSecond = new SweetEventService().subscribe(second);
+
+        new SweetEventService().publish({ type: 'sweet.deleted', sweetId: 'sweet-1' });
+
+        expect(first).toHaveBeenCalledWith({ type: 'sweet.deleted', sweetId: 'sweet-1' });
+        expect(second).toHaveBeenCalledWith({ type: 'sweet.deleted', sweetId: 'sweet-1' });
+        unsubscribeFirst();
+        unsubscribeSecond();
+    });
+
+    it('stops delivering once unsubscribed', () => {
+        const listener = vi.fn();
+        const unsubscribe = sweetEventService.subscribe(listener);
+
+        unsubscribe();
+        sweetEventService.publish({ type: 'sweet.deleted', sweetId: 'sweet-1' });
+
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('announces one stock change per sweet, net of reserved units', () => {
+        const listener = vi.fn();
+        const unsubscribe = sweetEventService.subscribe(listener);
+
+        sweetEventService.publishStockChanges([
+            { id: 'sweet-1', quantity: 0, reserved: 0 },
+            { id: 'sweet-2', quantity: 12, reserved: 5 },
+        ]);
+
+        expect(listener.mock.calls.map(([event]) => event)).toEqual([
+            { type: 'stock.changed', sweetId: 'sweet-1', quantity: 0, available: 0 },
+            { type: 'stock.changed', sweetId: 'sweet-2', quantity: 12, available: 7 },
+        ]);
+        unsubscribe();
+    });
+});
@@ -0,0 +1,256 @@
+/**
+ * @file Unit tests for SweetImageService upload validation, storage and ordering.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import sharp from 'sharp';
+import { SweetImageService, THUMBNAIL_SIZE } from '../../services/sweetImageService';
+
+vi.mock('../../config/database', () => {
+    const client: any = {
+        sweet: {
+            findFirst: vi.fn(),
+        },
+        sweetImage: {
+            findMany: vi.fn(),
+            findFirst: vi.fn(),
+            createMany: vi.fn(),
+            update: vi.fn(),
+            updateMany: vi.fn(),
+            delete: vi.fn(),
+        },
+    };
+    // Interactive transactions run their callback against the same mocked client;
+    // batched ones resolve the already-started queries
+    client.$transaction = vi.fn((input: any) =>
+        typeof input === 'function' ? input(client) : Promise.all(input)
+    );
+
+    return { default: client };
+});
+
+vi.mock('../../config/storage', () => ({
+    default: {
+        save: vi.fn(),
+        remove: vi.fn(),
+        urlFor: vi.fn((key: string) => `/uploads/${key}`),
+    },
+}));
+
+import prisma from '../../config/database';
+import storage from '../../config/storage';
+
+describe('SweetImageService', () => {
+    let sweetImageService: SweetImageService;
+    const mockPrisma = prisma as any;
+    const mockStorage = storage as any;
+    let png: Buffer;
+
+    const upload = (buffer: Buffer, originalname = 'photo.png') => ({ originalname, buffer });
+
+    beforeEach(async () => {
+        sweetImageService = new SweetImageService();
+        vi.clearAllMocks();
+        mockPrisma.sweet.findFirst.mockResolvedValue({ id: 'sweet-1' });
+        mockPrisma.sweetImage.findMany.mockResolvedValue([]);
+        png = await sharp({
+            create: { width: 800, height: 600, channels: 3, background: '#c0392b' },
+        }).png().toBuffer();
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    describe('addImages', () => {
+        it('should store the original and a square WebP thumbnail', async () => {
+            await sweetImageService.addImages('sweet-1', [upload(png)]);
+
+            expect(mockStorage.save).toHaveBeenCalledTimes(2);
+            const [originalKey, originalData, contentType] = mockStorage.save.mock.calls[0];
+            const [thumbnailKey, thumbnailData, thumbnailType] = mockStorage.save.mock.calls[1];
+            expect(originalKey).toMatch(/^sweets\/sweet-1\/[\w-]+\.png$/);
+            expect(originalData).toBe(png);
+            expect(contentType).toBe('image/png');
+            expect(thumbnailKey).toBe(originalKey.replace('.png', '-thumb.webp'));
+            expect(thumbnailType).toBe('image/webp');
+
+            const thumbnail = await sharp(thumbnailData).metadata();
+            expect(thumbnail).toMatchObject({
+                format: 'webp',
+                width: THUMBNAIL_SIZE,
+                height: THUMBNAIL_SIZE,
+            });
+        });
+
+        it('should make the first image of a sweet its primary image', async () => {
+            await sweetImageService.addImages('sweet-1', [upload(png), upload(png, 'second.png')]);
+
+            const { data } = mockPrisma.sweetImage.createMany.mock.calls[0][0];
+            expect(data).toHaveLength(2);
+            expect(data[0]).toMatchObject({
+                sweetId: 'sweet-1',
+                contentType: 'image/png',
+                width: 800,
+                height: 600,
+                position: 0,
+                isPrimary: true,
+            });
+            expect(data[0].url).toBe(`/uploads/${data[0].storageKey}`);
+            expect(data[1]).toMatchObject({ position: 1, isPrimary: false });
+        });
+
+        it('should append after existing images without replacing the primary', async () => {
+            mockPrisma.sweetImage.findMany
+                .mockResolvedValueOnce([
+                    { position: 0, isPrimary: true },
+                    { position: 3, isPrimary: false },
+                ])
+                .mockResolvedValue([]);
+
+            await sweetImageService.addImages('sweet-1', [upload(png)]);
+
+            const { data } = mockPrisma.sweetImage.createMany.mock.calls[0][0];
+            expect(data[0]).toMatchObject({ position: 4, isPrimary: false });
+        });
+
+        it('should reject files that are not decodable images', async () => {
+            await expect(
+                sweetImageService.addImages('sweet-1', [upload(Buffer.from('not an image'), 'fake.png')])
+            ).rejects.toMatchObject({ status: 400, code: 'UNSUPPORTED_MEDIA_TYPE' });
+
+            expect(mockStorage.save).not.toHaveBeenCalled();
+        });
+
+        it('should reject images in formats other than JPEG, PNG and WebP', async () => {
+            const gif = await sharp({
+                create: { width: 10, height: 10, channels: 3, background: '#000' },
+            }).gif().toBuffer();
+
+            await expect(
+                sweetImageService.addImages('sweet-1', [upload(gif, 'anim.png')])
+            ).rejects.toMatchObject({ code: 'UNSUPPORTED_MEDIA_TYPE' });
+        });
+
+        it('should remove stored files when the database write fails', async () => {
+            mockPrisma.sweetImage.createMany.mockRejectedValue(new Error('db down'));
+
+            await expect(sweetImageService.addImages('sweet-1', [upload(png)])).rejects.toThrow('db down');
+
+            const savedKeys = mockStorage.save.mock.calls.map(([key]: [string]) => key);
+            expect(mockStorage.remove.mock.calls.map(([key]: [string]) => key)).toEqual(savedKeys);
+        });
+
+        it('should throw when the sweet does not exist or is archived', async () => {
+            mockPrisma.sweet.findFirst.mockResolvedValue(null);
+
+            await expect(sweetImageService.addImages('missing', [upload(png)])).rejects.toMatchObject({
+                status: 404,
+                code: 'SWEET_NOT_FOUND',
+            });
+            expect(mockPrisma.sweet.findFirst).toHaveBeenCalledWith({
+                where: { id: 'missing', deletedAt: null },
+                select: { id: true },
+            });
+        });
+
+        it('should throw when no files were uploaded', async () => {
+            await expect(sweetImageService.addImages('sweet-1', [])).rejects.toMatchObject({
+                code: 'INVALID_FILE',
+            });
+        });
+    });
+
+    describe('reorderImages', () => {
+        beforeEach(() => {
+            mockPrisma.sweetImage.findMany.mockResolvedValue([{ id: 'image-1' }, { id: 'image-2' }]);
+        });
+
+        it('should assign positions in the given order', async () => {
+            await sweetImageService.reorderImages('sweet-1', ['image-2', 'image-1']);
+
+            expect(mockPrisma.sweetImage.update).toHaveBeenCalledWith({
+                where: { id: 'image-2' },
+                data: { position: 0 },
+            });
+            expect(mockPrisma.sweetImage.update).toHaveBeenCalledWith({
+                where: { id: 'image-1' },
+                data: { position: 1 },
+            });
+        });
+
+        it.each([
+            [['image-1']],
+            [['image-1', 'image-1']],
+            [['image-1', 'image-3']],
+        ])('should reject %j as an incomplete or foreign order', async (imageIds) => {
+            await expect(sweetImageService.reorderImages('sweet-1', imageIds)).rejects.toMatchObject({
+                status: 400,
+                code: 'INVALID_IMAGE_ORDER',
+            });
+            expect(mockPrisma.sweetImage.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('setPrimaryImage', () => {
+        it('should clear the old primary image and mark the new one', async () => {
+            mockPrisma.sweetImage.findFirst.mockResolvedValue({ id: 'image-2', sweetId: 'sweet-1' });
+
+            await sweetImageService.setPrimaryImage('sweet-1', 'image-2');
+
+            expect(mockPrisma.sweetImage.updateMany).toHaveBeenCalledWith({
+                where: { sweetId: 'sweet-1', isPrimary: true },
+                data: { isPrimary: false },
+            });
+            expect(mockPrisma.sweetImage.update).toHaveBeenCalledWith({
+                where: { id: 'image-2' },
+                data: { isPrimary: true },
+            });
+        });
+
+        it("should throw for an image of another sweet", async () => {
+            mockPrisma.sweetImage.findFirst.mockResolvedValue(null);
+
+            await expect(sweetImageService.setPrimaryImage('sweet-1', 'image-9')).rejects.toMatchObject({
+                status: 404,
+                code: 'IMAGE_NOT_FOUND',
+            });
+            expect(mockPrisma.sweetImage.findFirst).toHaveBeenCalledWith({
+                where: { id: 'image-9', sweetId: 'sweet-1' },
+            });
+        });
+    });
+
+    describe('deleteImage', () => {
+        const image = {
+            id: 'image-1',
+            sweetId: 'sweet-1',
+            storageKey: 'sweets/sweet-1/a.png',
+            thumbnailKey: 'sweets/sweet-1/a-thumb.webp',
+            isPrimary: true,
+        };
+
+        it('should delete the row and both files, promoting the next image', async () => {
+            mockPrisma.sweetImage.findFirst
+                .mockResolvedValueOnce(image)
+                .mockResolvedValueOnce({ id: 'image-2' });
+
+            await sweetImageService.deleteImage('sweet-1', 'image-1');
+
+            expect(mockPrisma.sweetImage.delete).toHaveBeenCalledWith({ where: { id: 'image-1' } });
+            expect(mockPrisma.sweetImage.update).toHaveBeenCalledWith({
+                where: { id: 'image-2' },
+                data: { isPrimary: true },
+            });
+            expect(mockStorage.remove).toHaveBeenCalledWith(image.storageKey);
+            expect(mockStorage.remove).toHaveBeenCalledWith(image.thumbnailKey);
+        });
+
+        it('should leave the primary image alone when deleting another image', async () => {
+            mockPrisma.sweetImage.findFirst.mockResolvedValueOnce({ ...image, isPrimary: false });
+
+            await sweetImageService.deleteImage('sweet-1', 'image-1');
+
+            expect(mockPrisma.sweetImage.update).not.toHaveBeenCalled();
+        });
+    });
+});
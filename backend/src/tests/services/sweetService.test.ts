@@ -3,31 +3,74 @@
  */
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { SweetService } from '../../services/sweetService';
+import { SweetEventService } from '../../services/sweetEventService';
 
-vi.mock('../../config/database', () => ({
-    default: {
+vi.mock('../../config/database', () => {
+    const client: any = {
         sweet: {
             findUnique: vi.fn(),
+            findFirst: vi.fn(),
             create: vi.fn(),
             findMany: vi.fn(),
+            count: vi.fn(),
             update: vi.fn(),
-            delete: vi.fn(),
+            fields: {
+                reserved: { modelName: 'Sweet', name: 'reserved' },
+            },
         },
-    },
-}));
+        category: {
+            findUnique: vi.fn(),
+            findMany: vi.fn(),
+        },
+        inventoryMovement: {
+            create: vi.fn(),
+        },
+        priceHistory: {
+            create: vi.fn(),
+        },
+        cartItem: {
+            deleteMany: vi.fn(),
+        },
+        stockReservation: {
+            deleteMany: vi.fn(),
+        },
+        lowStockAlert: {
+            create: vi.fn(),
+            updateMany: vi.fn(),
+        },
+    };
+    // Interactive transactions run their callback against the same mocked client
+    client.$transaction = vi.fn((callback: (tx: any) => unknown) => callback(client));
+
+    return { default: client };
+});
 
 import prisma from '../../config/database';
 
 describe('SweetService', () => {
     let sweetService: SweetService;
     const mockPrisma = prisma as any;
+    const actorId = 'admin-123';
+    const withCategory = {
+        category: { select: { id: true, slug: true, name: true, parentId: true } },
+        images: {
+            select: { id: true, url: true, thumbnailUrl: true, width: true, height: true, position: true, isPrimary: true },
+            orderBy: { position: 'asc' },
+        },
+    };
 
+    const festival = { id: 'category-1', slug: 'festival', name: 'Festival', parentId: null };
     const sampleSweet = {
         id: 'sweet-123',
         name: 'Ladoo',
-        category: 'Festival',
+        categoryId: festival.id,
+        category: festival,
         price: 10,
         quantity: 50,
+        reserved: 0,
+        reorderPoint: 5,
+        reorderQuantity: 20,
+        deletedAt: null,
     };
 
     beforeEach(() => {
@@ -42,14 +85,15 @@ describe('SweetService', () => {
     describe('createSweet', () => {
         it('creates a sweet when the name is unique', async () => {
             mockPrisma.sweet.findUnique.mockResolvedValueOnce(null);
+            mockPrisma.category.findUnique.mockResolvedValueOnce(festival);
             mockPrisma.sweet.create.mockResolvedValueOnce(sampleSweet);
 
             const result = await sweetService.createSweet({
                 name: sampleSweet.name,
-                category: sampleSweet.category,
+                categoryId: festival.id,
                 price: sampleSweet.price,
                 quantity: sampleSweet.quantity,
-            });
+            }, actorId);
 
             expect(mockPrisma.sweet.findUnique).toHaveBeenCalledWith({
                 where: { name: sampleSweet.name },
@@ -57,94 +101,273 @@ describe('SweetService', () => {
             expect(mockPrisma.sweet.create).toHaveBeenCalledWith({
                 data: {
                     name: sampleSweet.name,
-                    category: sampleSweet.category,
+                    categoryId: festival.id,
                     price: sampleSweet.price,
                     quantity: sampleSweet.quantity,
                 },
+                include: withCategory,
             });
             expect(result).toEqual(sampleSweet);
         });
 
+        it('announces the new sweet to connected clients', async () => {
+            const events = vi.fn();
+            const unsubscribe = new SweetEventService().subscribe(events);
+            mockPrisma.sweet.findUnique.mockResolvedValueOnce(null);
+            mockPrisma.category.findUnique.mockResolvedValueOnce(festival);
+            mockPrisma.sweet.create.mockResolvedValueOnce(sampleSweet);
+
+            await sweetService.createSweet({ name: sampleSweet.name, categoryId: festival.id, price: sampleSweet.price, quantity: 1 }, actorId);
+            unsubscribe();
+
+            expect(events).toHaveBeenCalledExactlyOnceWith({ type: 'sweet.created', sweet: sampleSweet });
+        });
+
+        it('starts the price history with the opening price', async () => {
+            mockPrisma.sweet.findUnique.mockResolvedValueOnce(null);
+            mockPrisma.category.findUnique.mockResolvedValueOnce(festival);
+            mockPrisma.sweet.create.mockResolvedValueOnce(sampleSweet);
+
+            await sweetService.createSweet({
+                name: sampleSweet.name,
+                categoryId: festival.id,
+                price: sampleSweet.price,
+                quantity: sampleSweet.quantity,
+            }, actorId);
+
+            expect(mockPrisma.$transaction).toHaveBeenCalled();
+            expect(mockPrisma.priceHistory.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    sweetId: sampleSweet.id,
+                    price: sampleSweet.price,
+                    userId: actorId,
+                    effectiveFrom: expect.any(Date),
+                    appliedAt: expect.any(Date),
+                }),
+            });
+        });
+
+        it('throws when the category does not exist', async () => {
+            mockPrisma.sweet.findUnique.mockResolvedValueOnce(null);
+            mockPrisma.category.findUnique.mockResolvedValueOnce(null);
+
+            await expect(
+                sweetService.createSweet({
+                    name: sampleSweet.name,
+                    categoryId: 'missing-category',
+                    price: 5,
+                    quantity: 10,
+                }, actorId)
+            ).rejects.toThrow('Category not found');
+
+            expect(mockPrisma.sweet.create).not.toHaveBeenCalled();
+        });
+
         it('throws when a sweet with the same name already exists', async () => {
             mockPrisma.sweet.findUnique.mockResolvedValueOnce(sampleSweet);
 
             await expect(
                 sweetService.createSweet({
                     name: sampleSweet.name,
-                    category: 'Any',
+                    categoryId: festival.id,
                     price: 5,
                     quantity: 10,
-                })
+                }, actorId)
             ).rejects.toThrow('Sweet with this name already exists');
 
             expect(mockPrisma.sweet.create).not.toHaveBeenCalled();
         });
+
+        it('points to restoring when an archived sweet holds the name', async () => {
+            mockPrisma.sweet.findUnique.mockResolvedValueOnce({ ...sampleSweet, deletedAt: new Date() });
+
+            await expect(
+                sweetService.createSweet({
+                    name: sampleSweet.name,
+                    categoryId: festival.id,
+                    price: 5,
+                    quantity: 10,
+                }, actorId)
+            ).rejects.toMatchObject({
+                code: 'NAME_CONFLICT',
+                message: 'An archived sweet has this name; restore it instead',
+            });
+        });
     });
 
     describe('getAllSweets', () => {
-        it('returns sweets ordered by creation date', async () => {
+        const firstPage = { page: 1, limit: 2, sortBy: 'createdAt' as const, order: 'desc' as const };
+
+        it('returns the requested page with a stable ordering', async () => {
             mockPrisma.sweet.findMany.mockResolvedValueOnce([sampleSweet]);
+            mockPrisma.sweet.count.mockResolvedValueOnce(1);
 
-            const result = await sweetService.getAllSweets();
+            const result = await sweetService.getAllSweets({ ...firstPage, page: 3 });
 
             expect(mockPrisma.sweet.findMany).toHaveBeenCalledWith({
-                orderBy: { createdAt: 'desc' },
+                where: { deletedAt: null },
+                include: withCategory,
+                orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+                take: 3,
+                skip: 4,
+            });
+            expect(result).toEqual({
+                data: [sampleSweet],
+                pagination: { page: 3, limit: 2, total: 1, totalPages: 1, nextCursor: null },
+            });
+        });
+
+        it('sorts by the requested field and direction', async () => {
+            mockPrisma.sweet.findMany.mockResolvedValueOnce([]);
+            mockPrisma.sweet.count.mockResolvedValueOnce(0);
+
+            await sweetService.getAllSweets({ ...firstPage, sortBy: 'price', order: 'asc' });
+
+            expect(mockPrisma.sweet.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ orderBy: [{ price: 'asc' }, { id: 'asc' }] })
+            );
+        });
+
+        it('returns a cursor for the next page when more rows exist', async () => {
+            const rows = ['a', 'b', 'c'].map((id) => ({ ...sampleSweet, id }));
+            mockPrisma.sweet.findMany.mockResolvedValueOnce(rows);
+            mockPrisma.sweet.count.mockResolvedValueOnce(5);
+
+            const result = await sweetService.getAllSweets(firstPage);
+
+            expect(result.data.map((sweet) => sweet.id)).toEqual(['a', 'b']);
+            expect(result.pagination).toEqual({ page: 1, limit: 2, total: 5, totalPages: 3, nextCursor: 'b' });
+        });
+
+        it('continues after the cursor instead of using the page offset', async () => {
+            mockPrisma.sweet.findMany.mockResolvedValueOnce([]);
+            mockPrisma.sweet.count.mockResolvedValueOnce(0);
+
+            await sweetService.getAllSweets({ ...firstPage, page: 4, cursor: 'b' });
+
+            expect(mockPrisma.sweet.findMany).toHaveBeenCalledWith({
+                where: { deletedAt: null },
+                include: withCategory,
+                orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+                take: 3,
+                cursor: { id: 'b' },
+                skip: 1,
             });
-            expect(result).toEqual([sampleSweet]);
         });
     });
 
     describe('searchSweets', () => {
+        const paging = { page: 1, limit: 20, sortBy: 'createdAt' as const, order: 'desc' as const };
+
         it('applies filters for name, category, and price range', async () => {
+            mockPrisma.category.findUnique.mockResolvedValueOnce({ id: festival.id });
+            mockPrisma.category.findMany.mockResolvedValueOnce([
+                { id: festival.id, parentId: null },
+                { id: 'category-2', parentId: festival.id },
+                { id: 'category-3', parentId: 'category-2' },
+                { id: 'category-4', parentId: null },
+            ]);
             mockPrisma.sweet.findMany.mockResolvedValueOnce([sampleSweet]);
+            mockPrisma.sweet.count.mockResolvedValueOnce(1);
 
             const searchInput = {
+                ...paging,
                 name: 'ladoo',
-                category: 'fest',
+                category: 'festival',
                 minPrice: 5,
                 maxPrice: 15,
             };
 
             await sweetService.searchSweets(searchInput);
 
+            // Subcategories at any depth match; unrelated categories do not
+            const where = {
+                deletedAt: null,
+                name: { contains: searchInput.name, mode: 'insensitive' },
+                categoryId: { in: [festival.id, 'category-2', 'category-3'] },
+                price: { gte: searchInput.minPrice, lte: searchInput.maxPrice },
+            };
+            expect(mockPrisma.category.findUnique).toHaveBeenCalledWith({
+                where: { slug: 'festival' },
+                select: { id: true },
+            });
             expect(mockPrisma.sweet.findMany).toHaveBeenCalledWith({
-                where: {
-                    name: { contains: searchInput.name, mode: 'insensitive' },
-                    category: { contains: searchInput.category, mode: 'insensitive' },
-                    price: { gte: searchInput.minPrice, lte: searchInput.maxPrice },
-                },
-                orderBy: { createdAt: 'desc' },
+                where,
+                include: withCategory,
+                orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+                take: 21,
+                skip: 0,
             });
+            expect(mockPrisma.sweet.count).toHaveBeenCalledWith({ where });
+        });
+
+        it('matches nothing for an unknown category slug', async () => {
+            mockPrisma.category.findUnique.mockResolvedValueOnce(null);
+            mockPrisma.sweet.findMany.mockResolvedValueOnce([]);
+            mockPrisma.sweet.count.mockResolvedValueOnce(0);
+
+            await sweetService.searchSweets({ ...paging, category: 'no-such-category' });
+
+            expect(mockPrisma.sweet.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { deletedAt: null, categoryId: { in: [] } } })
+            );
         });
 
         it('handles searches with only minimum price', async () => {
             mockPrisma.sweet.findMany.mockResolvedValueOnce([]);
+            mockPrisma.sweet.count.mockResolvedValueOnce(0);
 
-            await sweetService.searchSweets({ minPrice: 20 });
+            await sweetService.searchSweets({ ...paging, minPrice: 20 });
 
-            expect(mockPrisma.sweet.findMany).toHaveBeenCalledWith({
-                where: {
-                    price: { gte: 20 },
-                },
-                orderBy: { createdAt: 'desc' },
-            });
+            expect(mockPrisma.sweet.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { deletedAt: null, price: { gte: 20 } } })
+            );
+        });
+
+        it('restricts results to sweets with stock available when requested', async () => {
+            mockPrisma.sweet.findMany.mockResolvedValueOnce([]);
+            mockPrisma.sweet.count.mockResolvedValueOnce(0);
+
+            await sweetService.searchSweets({ ...paging, inStock: true });
+
+            expect(mockPrisma.sweet.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: { deletedAt: null, quantity: { gt: mockPrisma.sweet.fields.reserved } },
+                })
+            );
+        });
+
+        it('leaves out a sweet whose whole stock is held by reservations', async () => {
+            const fullyReserved = { ...sampleSweet, quantity: 5, reserved: 5 };
+            // Mirrors the database applying the quantity > reserved comparison
+            mockPrisma.sweet.findMany.mockImplementationOnce(async ({ where }: any) =>
+                [fullyReserved].filter((sweet) => where.quantity.gt === mockPrisma.sweet.fields.reserved
+                    ? sweet.quantity > sweet.reserved
+                    : sweet.quantity > where.quantity.gt)
+            );
+            mockPrisma.sweet.count.mockResolvedValueOnce(0);
+
+            const result = await sweetService.searchSweets({ ...paging, inStock: true });
+
+            expect(result.data).toEqual([]);
         });
     });
 
     describe('getSweetById', () => {
         it('returns the sweet when found', async () => {
-            mockPrisma.sweet.findUnique.mockResolvedValueOnce(sampleSweet);
+            mockPrisma.sweet.findFirst.mockResolvedValueOnce(sampleSweet);
 
             const result = await sweetService.getSweetById(sampleSweet.id);
 
-            expect(mockPrisma.sweet.findUnique).toHaveBeenCalledWith({
-                where: { id: sampleSweet.id },
+            expect(mockPrisma.sweet.findFirst).toHaveBeenCalledWith({
+                where: { id: sampleSweet.id, deletedAt: null },
+                include: withCategory,
             });
             expect(result).toEqual(sampleSweet);
         });
 
         it('throws when the sweet does not exist', async () => {
-            mockPrisma.sweet.findUnique.mockResolvedValueOnce(null);
+            mockPrisma.sweet.findFirst.mockResolvedValueOnce(null);
 
             await expect(sweetService.getSweetById('missing-id')).rejects.toThrow(
                 'Sweet not found'
@@ -162,7 +385,7 @@ describe('SweetService', () => {
 
             const result = await sweetService.updateSweet(sampleSweet.id, {
                 price: 15,
-            });
+            }, actorId);
 
             expect(mockPrisma.sweet.findUnique).toHaveBeenNthCalledWith(1, {
                 where: { id: sampleSweet.id },
@@ -171,15 +394,116 @@ describe('SweetService', () => {
             expect(mockPrisma.sweet.update).toHaveBeenCalledWith({
                 where: { id: sampleSweet.id },
                 data: { price: 15 },
+                include: withCategory,
             });
+            expect(mockPrisma.inventoryMovement.create).not.toHaveBeenCalled();
             expect(result).toEqual(updatedSweet);
         });
 
+        it('sends the updated sweet to connected clients', async () => {
+            const events = vi.fn();
+            const unsubscribe = new SweetEventService().subscribe(events);
+            const updatedSweet = { ...sampleSweet, quantity: 3 };
+            mockPrisma.sweet.findUnique.mockResolvedValueOnce(sampleSweet);
+            mockPrisma.sweet.update.mockResolvedValueOnce(updatedSweet);
+
+            await sweetService.updateSweet(sampleSweet.id, { quantity: 3 }, actorId);
+            unsubscribe();
+
+            expect(events).toHaveBeenCalledExactlyOnceWith({ type: 'sweet.updated', sweet: updatedSweet });
+        });
+
+        it('adds a price change to the price history', async () => {
+            mockPrisma.sweet.findUnique.mockResolvedValueOnce(sampleSweet);
+            mockPrisma.sweet.update.mockResolvedValueOnce({ ...sampleSweet, price: 15 });
+
+            await sweetService.updateSweet(sampleSweet.id, { price: 15 }, actorId);
+
+            expect(mockPrisma.priceHistory.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ sweetId: sampleSweet.id, price: 15, userId: actorId }),
+            });
+        });
+
+        it('leaves the price history alone when the price is unchanged', async () => {
+            mockPrisma.sweet.findUnique.mockResolvedValueOnce(sampleSweet);
+            mockPrisma.sweet.update.mockResolvedValueOnce(sampleSweet);
+
+            await sweetService.updateSweet(sampleSweet.id, { price: sampleSweet.price }, actorId);
+
+            expect(mockPrisma.priceHistory.create).not.toHaveBeenCalled();
+        });
+
+        it('raises a low-stock alert when the reorder point is raised above current stock', async () => {
+            const updatedSweet = { ...sampleSweet, reorderPoint: 60 };
+
+            mockPrisma.sweet.findUnique.mockResolvedValueOnce(sampleSweet);
+            mockPrisma.sweet.update.mockResolvedValueOnce(updatedSweet);
+
+            await sweetService.updateSweet(sampleSweet.id, { reorderPoint: 60 }, actorId);
+
+            expect(mockPrisma.lowStockAlert.create).toHaveBeenCalledWith({
+                data: { sweetId: sampleSweet.id, quantity: 50, reorderPoint: 60 },
+            });
+        });
+
+        it('records quantity changes as an ADJUSTMENT movement', async () => {
+            const updatedSweet = { ...sampleSweet, quantity: 42 };
+
+            mockPrisma.sweet.findUnique.mockResolvedValueOnce(sampleSweet);
+            mockPrisma.sweet.update.mockResolvedValueOnce(updatedSweet);
+
+            await sweetService.updateSweet(sampleSweet.id, { quantity: 42, reason: 'Stock count' }, actorId);
+
+            expect(mockPrisma.sweet.update).toHaveBeenCalledWith({
+                where: { id: sampleSweet.id },
+                data: { quantity: 42 },
+                include: withCategory,
+            });
+            expect(mockPrisma.inventoryMovement.create).toHaveBeenCalledWith({
+                data: {
+                    sweetId: sampleSweet.id,
+                    type: 'ADJUSTMENT',
+                    delta: -8,
+                    resultingQuantity: 42,
+                    userId: actorId,
+                    reason: 'Stock count',
+                },
+            });
+        });
+
+        it('moves the sweet to another existing category', async () => {
+            mockPrisma.sweet.findUnique.mockResolvedValueOnce(sampleSweet);
+            mockPrisma.category.findUnique.mockResolvedValueOnce({ id: 'category-2' });
+            mockPrisma.sweet.update.mockResolvedValueOnce({ ...sampleSweet, categoryId: 'category-2' });
+
+            await sweetService.updateSweet(sampleSweet.id, { categoryId: 'category-2' }, actorId);
+
+            expect(mockPrisma.category.findUnique).toHaveBeenCalledWith({
+                where: { id: 'category-2' },
+            });
+            expect(mockPrisma.sweet.update).toHaveBeenCalledWith({
+                where: { id: sampleSweet.id },
+                data: { categoryId: 'category-2' },
+                include: withCategory,
+            });
+        });
+
+        it('throws when moving the sweet to a missing category', async () => {
+            mockPrisma.sweet.findUnique.mockResolvedValueOnce(sampleSweet);
+            mockPrisma.category.findUnique.mockResolvedValueOnce(null);
+
+            await expect(
+                sweetService.updateSweet(sampleSweet.id, { categoryId: 'missing-category' }, actorId)
+            ).rejects.toThrow('Category not found');
+
+            expect(mockPrisma.sweet.update).not.toHaveBeenCalled();
+        });
+
         it('throws when the sweet is not found', async () => {
             mockPrisma.sweet.findUnique.mockResolvedValueOnce(null);
 
             await expect(
-                sweetService.updateSweet('missing-id', { price: 12 })
+                sweetService.updateSweet('missing-id', { price: 12 }, actorId)
             ).rejects.toThrow('Sweet not found');
 
             expect(mockPrisma.sweet.update).not.toHaveBeenCalled();
@@ -191,7 +515,7 @@ describe('SweetService', () => {
                 .mockResolvedValueOnce({ id: 'other-id', name: 'Barfi' }); // Conflicting name
 
             await expect(
-                sweetService.updateSweet(sampleSweet.id, { name: 'Barfi' })
+                sweetService.updateSweet(sampleSweet.id, { name: 'Barfi' }, actorId)
             ).rejects.toThrow('Sweet with this name already exists');
 
             expect(mockPrisma.sweet.findUnique).toHaveBeenCalledTimes(2);
@@ -199,30 +523,105 @@ describe('SweetService', () => {
         });
     });
 
+    describe('getArchivedSweets', () => {
+        it('returns only archived sweets', async () => {
+            mockPrisma.sweet.findMany.mockResolvedValueOnce([]);
+            mockPrisma.sweet.count.mockResolvedValueOnce(0);
+
+            await sweetService.getArchivedSweets({ page: 1, limit: 20, sortBy: 'name', order: 'asc' });
+
+            expect(mockPrisma.sweet.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { deletedAt: { not: null } } })
+            );
+        });
+    });
+
     describe('deleteSweet', () => {
-        it('deletes an existing sweet', async () => {
+        it('archives an existing sweet and clears it from carts, reservations and alerts', async () => {
+            const archivedSweet = { ...sampleSweet, deletedAt: new Date() };
             mockPrisma.sweet.findUnique.mockResolvedValueOnce(sampleSweet);
-            mockPrisma.sweet.delete.mockResolvedValueOnce(sampleSweet);
+            mockPrisma.sweet.update.mockResolvedValueOnce(archivedSweet);
 
             const result = await sweetService.deleteSweet(sampleSweet.id);
 
-            expect(mockPrisma.sweet.findUnique).toHaveBeenCalledWith({
+            expect(mockPrisma.sweet.update).toHaveBeenCalledWith({
                 where: { id: sampleSweet.id },
+                data: { deletedAt: expect.any(Date), reserved: 0 },
+                include: withCategory,
             });
-            expect(mockPrisma.sweet.delete).toHaveBeenCalledWith({
-                where: { id: sampleSweet.id },
+            expect(mockPrisma.cartItem.deleteMany).toHaveBeenCalledWith({ where: { sweetId: sampleSweet.id } });
+            expect(mockPrisma.stockReservation.deleteMany).toHaveBeenCalledWith({ where: { sweetId: sampleSweet.id } });
+            expect(mockPrisma.lowStockAlert.updateMany).toHaveBeenCalledWith({
+                where: { sweetId: sampleSweet.id, resolvedAt: null },
+                data: { resolvedAt: expect.any(Date) },
             });
-            expect(result).toEqual(sampleSweet);
+            // Stock is kept for a later restore, so the ledger is untouched
+            expect(mockPrisma.inventoryMovement.create).not.toHaveBeenCalled();
+            expect(result).toEqual(archivedSweet);
+        });
+
+        it('announces the deletion to connected clients', async () => {
+            const events = vi.fn();
+            const unsubscribe = new SweetEventService().subscribe(events);
+            mockPrisma.sweet.findUnique.mockResolvedValueOnce(sampleSweet);
+            mockPrisma.sweet.update.mockResolvedValueOnce({ ...sampleSweet, deletedAt: new Date() });
+
+            await sweetService.deleteSweet(sampleSweet.id);
+            unsubscribe();
+
+            expect(events).toHaveBeenCalledExactlyOnceWith({ type: 'sweet.deleted', sweetId: sampleSweet.id });
         });
 
         it('throws when trying to delete a missing sweet', async () => {
             mockPrisma.sweet.findUnique.mockResolvedValueOnce(null);
 
-            await expect(sweetService.deleteSweet('missing-id')).rejects.toThrow(
-                'Sweet not found'
-            );
+            await expect(sweetService.deleteSweet('missing-id')).rejects.toThrow('Sweet not found');
+
+            expect(mockPrisma.sweet.update).not.toHaveBeenCalled();
+        });
 
-            expect(mockPrisma.sweet.delete).not.toHaveBeenCalled();
+        it('treats an already archived sweet as missing', async () => {
+            mockPrisma.sweet.findUnique.mockResolvedValueOnce({ ...sampleSweet, deletedAt: new Date() });
+
+            await expect(sweetService.deleteSweet(sampleSweet.id)).rejects.toThrow('Sweet not found');
+        });
+    });
+
+    describe('restoreSweet', () => {
+        it('returns an archived sweet to the catalogue', async () => {
+            mockPrisma.sweet.findUnique.mockResolvedValueOnce({ ...sampleSweet, deletedAt: new Date() });
+            mockPrisma.sweet.update.mockResolvedValueOnce(sampleSweet);
+
+            const result = await sweetService.restoreSweet(sampleSweet.id);
+
+            expect(mockPrisma.sweet.update).toHaveBeenCalledWith({
+                where: { id: sampleSweet.id },
+                data: { deletedAt: null },
+                include: withCategory,
+            });
+            expect(mockPrisma.lowStockAlert.create).not.toHaveBeenCalled();
+            expect(result).toEqual(sampleSweet);
+        });
+
+        it('raises a low-stock alert when the sweet comes back low', async () => {
+            const lowSweet = { ...sampleSweet, quantity: 2 };
+            mockPrisma.sweet.findUnique.mockResolvedValueOnce({ ...lowSweet, deletedAt: new Date() });
+            mockPrisma.sweet.update.mockResolvedValueOnce(lowSweet);
+
+            await sweetService.restoreSweet(sampleSweet.id);
+
+            expect(mockPrisma.lowStockAlert.create).toHaveBeenCalledWith({
+                data: { sweetId: sampleSweet.id, quantity: 2, reorderPoint: 5 },
+            });
+        });
+
+        it('rejects a sweet that is not archived', async () => {
+            mockPrisma.sweet.findUnique.mockResolvedValueOnce(sampleSweet);
+
+            await expect(sweetService.restoreSweet(sampleSweet.id)).rejects.toMatchObject({
+                code: 'SWEET_NOT_ARCHIVED',
+            });
+            expect(mockPrisma.sweet.update).not.toHaveBeenCalled();
         });
     });
 });
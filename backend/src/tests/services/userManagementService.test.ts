@@ -0,0 +1,165 @@
+/**
+ * @file Unit tests for UserManagementService admin operations.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { UserManagementService } from '../../services/userManagementService';
+
+vi.mock('../../config/database', () => {
+    const client: any = {
+        user: {
+            findMany: vi.fn(),
+            findUnique: vi.fn(),
+            count: vi.fn(),
+            update: vi.fn(),
+        },
+        session: {
+            updateMany: vi.fn(),
+        },
+    };
+    // Interactive transactions run their callback against the same mocked client
+    client.$transaction = vi.fn((callback: (tx: any) => unknown) => callback(client));
+
+    return { default: client };
+});
+
+vi.mock('../../utils/auth', () => ({
+    hashPassword: vi.fn(),
+    generateToken: vi.fn(),
+}));
+
+import prisma from '../../config/database';
+import * as authUtils from '../../utils/auth';
+
+describe('UserManagementService', () => {
+    let userManagementService: UserManagementService;
+    const mockPrisma = prisma as any;
+    const mockAuthUtils = authUtils as any;
+    const adminId = 'admin-123';
+
+    const sampleUser = {
+        id: 'user-123',
+        email: 'user@example.com',
+        name: 'Sample User',
+        role: 'CUSTOMER',
+        isActive: true,
+        passwordResetRequired: false,
+    };
+
+    beforeEach(() => {
+        userManagementService = new UserManagementService();
+        vi.clearAllMocks();
+    });
+
+    afterEach(() => {
+        vi.resetAllMocks();
+    });
+
+    describe('listUsers', () => {
+        it('filters by search text, role, and status', async () => {
+            mockPrisma.user.findMany.mockResolvedValueOnce([sampleUser]);
+            mockPrisma.user.count.mockResolvedValueOnce(21);
+
+            const result = await userManagementService.listUsers({
+                search: 'sample',
+                role: 'CUSTOMER',
+                status: 'inactive',
+                page: 2,
+                limit: 10,
+            });
+
+            const where = {
+                OR: [
+                    { email: { contains: 'sample', mode: 'insensitive' } },
+                    { name: { contains: 'sample', mode: 'insensitive' } },
+                ],
+                role: 'CUSTOMER',
+                isActive: false,
+            };
+            expect(mockPrisma.user.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where, skip: 10, take: 10 })
+            );
+            expect(mockPrisma.user.findMany.mock.calls[0][0].select.password).toBeUndefined();
+            expect(result.pagination).toEqual({ page: 2, limit: 10, total: 21, totalPages: 3 });
+        });
+    });
+
+    describe('updateRole', () => {
+        it('changes the role of another user', async () => {
+            mockPrisma.user.findUnique.mockResolvedValueOnce(sampleUser);
+            mockPrisma.user.update.mockResolvedValueOnce({ ...sampleUser, role: 'ADMIN' });
+
+            const result = await userManagementService.updateRole(sampleUser.id, 'ADMIN', adminId);
+
+            expect(mockPrisma.user.update).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { id: sampleUser.id }, data: { role: 'ADMIN' } })
+            );
+            expect(result.role).toBe('ADMIN');
+        });
+
+        it('refuses to let admins change their own role', async () => {
+            await expect(userManagementService.updateRole(adminId, 'CUSTOMER', adminId)).rejects.toThrow(
+                'You cannot change your own role'
+            );
+            expect(mockPrisma.user.update).not.toHaveBeenCalled();
+        });
+
+        it('throws when the user does not exist', async () => {
+            mockPrisma.user.findUnique.mockResolvedValueOnce(null);
+
+            await expect(userManagementService.updateRole('missing', 'ADMIN', adminId)).rejects.toThrow(
+                'User not found'
+            );
+        });
+    });
+
+    describe('setActive', () => {
+        it('revokes every session when deactivating', async () => {
+            mockPrisma.user.findUnique.mockResolvedValueOnce(sampleUser);
+            mockPrisma.user.update.mockResolvedValueOnce({ ...sampleUser, isActive: false });
+
+            await userManagementService.setActive(sampleUser.id, false, adminId);
+
+            expect(mockPrisma.user.update).toHaveBeenCalledWith(
+                expect.objectContaining({ data: { isActive: false } })
+            );
+            expect(mockPrisma.session.updateMany).toHaveBeenCalledWith({
+                where: { userId: sampleUser.id, revokedAt: null },
+                data: { revokedAt: expect.any(Date) },
+            });
+        });
+
+        it('leaves sessions alone when reactivating', async () => {
+            mockPrisma.user.findUnique.mockResolvedValueOnce({ ...sampleUser, isActive: false });
+            mockPrisma.user.update.mockResolvedValueOnce(sampleUser);
+
+            await userManagementService.setActive(sampleUser.id, true, adminId);
+
+            expect(mockPrisma.session.updateMany).not.toHaveBeenCalled();
+        });
+
+        it('refuses to let admins deactivate themselves', async () => {
+            await expect(userManagementService.setActive(adminId, false, adminId)).rejects.toThrow(
+                'You cannot deactivate your own account'
+            );
+        });
+    });
+
+    describe('forcePasswordReset', () => {
+        it('stores a hashed temporary password, flags the reset, and signs the user out', async () => {
+            mockPrisma.user.findUnique.mockResolvedValueOnce(sampleUser);
+            mockAuthUtils.hashPassword.mockResolvedValueOnce('hashed_temporary');
+            mockPrisma.user.update.mockResolvedValueOnce({ ...sampleUser, passwordResetRequired: true });
+
+            const result = await userManagementService.forcePasswordReset(sampleUser.id);
+
+            expect(result.temporaryPassword).toHaveLength(12);
+            expect(mockAuthUtils.hashPassword).toHaveBeenCalledWith(result.temporaryPassword);
+            expect(mockPrisma.user.update).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    data: { password: 'hashed_temporary', passwordResetRequired: true },
+                })
+            );
+            expect(mockPrisma.session.updateMany).toHaveBeenCalledTimes(1);
+        });
+    });
+});
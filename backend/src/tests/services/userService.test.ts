@@ -11,6 +11,9 @@ vi.mock('../../config/database', () => ({
             findUnique: vi.fn(),
             create: vi.fn(),
         },
+        session: {
+            create: vi.fn(),
+        },
     },
 }));
 
@@ -52,7 +55,7 @@ describe('UserService', () => {
                 id: 'user-123',
                 email: userData.email,
                 name: userData.name,
-                role: 'USER',
+                role: 'CUSTOMER',
                 createdAt: new Date(),
             };
 
@@ -82,7 +85,7 @@ describe('UserService', () => {
                 },
             });
 
-            expect(result).toEqual(createdUser);
+            expect(result).toEqual({ ...createdUser, permissions: [] });
         });
 
         it('should throw error if user already exists', async () => {
@@ -149,8 +152,10 @@ describe('UserService', () => {
                 id: 'user-123',
                 email: loginData.email,
                 name: 'Test User',
-                role: 'USER',
+                role: 'CUSTOMER',
                 password: 'hashed_password',
+                isActive: true,
+                passwordResetRequired: false,
             };
 
             const token = 'jwt_token_123';
@@ -158,6 +163,7 @@ describe('UserService', () => {
             mockPrisma.user.findUnique.mockResolvedValue(dbUser);
             mockAuthUtils.comparePassword.mockResolvedValue(true);
             mockAuthUtils.generateToken.mockReturnValue(token);
+            mockPrisma.session.create.mockResolvedValue({ id: 'session-123' });
 
             const result = await userService.loginUser(loginData);
 
@@ -168,19 +174,30 @@ describe('UserService', () => {
                 loginData.password,
                 dbUser.password
             );
+            expect(mockPrisma.session.create).toHaveBeenCalledWith({
+                data: {
+                    userId: dbUser.id,
+                    refreshTokenHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+                    expiresAt: expect.any(Date),
+                },
+            });
             expect(mockAuthUtils.generateToken).toHaveBeenCalledWith({
                 id: dbUser.id,
                 email: dbUser.email,
                 role: dbUser.role,
+                sid: 'session-123',
             });
 
             expect(result).toEqual({
                 token,
+                refreshToken: expect.any(String),
                 user: {
                     id: dbUser.id,
                     email: dbUser.email,
                     name: dbUser.name,
                     role: dbUser.role,
+                    permissions: [],
+                    passwordResetRequired: false,
                 },
             });
         });
@@ -214,6 +231,8 @@ describe('UserService', () => {
                 id: 'user-123',
                 email: loginData.email,
                 password: 'hashed_password',
+                isActive: true,
+                passwordResetRequired: false,
             };
 
             mockPrisma.user.findUnique.mockResolvedValue(dbUser);
@@ -256,6 +275,8 @@ describe('UserService', () => {
                 id: 'user-123',
                 email: loginData.email,
                 password: 'hashed_password',
+                isActive: true,
+                passwordResetRequired: false,
             };
 
             mockPrisma.user.findUnique.mockResolvedValue(dbUser);
@@ -272,7 +293,7 @@ describe('UserService', () => {
                 id: userId,
                 email: 'test@example.com',
                 name: 'Test User',
-                role: 'USER',
+                role: 'CUSTOMER',
                 createdAt: new Date(),
             };
 
@@ -287,11 +308,26 @@ describe('UserService', () => {
                     email: true,
                     name: true,
                     role: true,
+                    passwordResetRequired: true,
                     createdAt: true,
                 },
             });
 
-            expect(result).toEqual(dbUser);
+            expect(result).toEqual({ ...dbUser, permissions: [] });
+        });
+
+        it('should include the permissions granted by the user role', async () => {
+            mockPrisma.user.findUnique.mockResolvedValue({
+                id: 'user-123',
+                email: 'clerk@example.com',
+                name: 'Stock Clerk',
+                role: 'STOCK_CLERK',
+                createdAt: new Date(),
+            });
+
+            const result = await userService.getUserById('user-123');
+
+            expect(result.permissions).toEqual(['inventory:restock', 'inventory:view', 'alert:manage']);
         });
 
         it('should throw error if user not found', async () => {
@@ -310,6 +346,7 @@ describe('UserService', () => {
                     email: true,
                     name: true,
                     role: true,
+                    passwordResetRequired: true,
                     createdAt: true,
                 },
             });
@@ -346,7 +383,7 @@ describe('UserService', () => {
                 id: 'user-123',
                 email: userData.email,
                 name: null,
-                role: 'USER',
+                role: 'CUSTOMER',
                 createdAt: new Date(),
             };
 
@@ -356,7 +393,7 @@ describe('UserService', () => {
 
             const result = await userService.createUser(userData);
 
-            expect(result).toEqual(createdUser);
+            expect(result).toEqual({ ...createdUser, permissions: [] });
             expect(mockPrisma.user.create).toHaveBeenCalledWith({
                 data: {
                     ...userData,
@@ -372,6 +409,22 @@ describe('UserService', () => {
             });
         });
 
+        it('should refuse to sign in a deactivated account', async () => {
+            mockPrisma.user.findUnique.mockResolvedValue({
+                id: 'user-123',
+                email: 'test@example.com',
+                password: 'hashed_password',
+                isActive: false,
+            });
+            mockAuthUtils.comparePassword.mockResolvedValue(true);
+
+            await expect(
+                userService.loginUser({ email: 'test@example.com', password: 'password123' })
+            ).rejects.toThrow('Account is deactivated');
+
+            expect(mockPrisma.session.create).not.toHaveBeenCalled();
+        });
+
         it('should handle token generation errors during login', async () => {
             const loginData = {
                 email: 'test@example.com',
@@ -382,12 +435,15 @@ describe('UserService', () => {
                 id: 'user-123',
                 email: loginData.email,
                 name: 'Test User',
-                role: 'USER',
+                role: 'CUSTOMER',
                 password: 'hashed_password',
+                isActive: true,
+                passwordResetRequired: false,
             };
 
             mockPrisma.user.findUnique.mockResolvedValue(dbUser);
             mockAuthUtils.comparePassword.mockResolvedValue(true);
+            mockPrisma.session.create.mockResolvedValue({ id: 'session-123' });
             mockAuthUtils.generateToken.mockImplementation(() => {
                 throw new Error('Token generation failed');
             });
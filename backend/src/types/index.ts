@@ -3,6 +3,7 @@
  */
 import { z } from "zod";
 import { Request } from "express";
+import { ROLES } from "../config/permissions";
 
 /** Validation schema for creating a new user. */
 export const CreateUserSchema = z.object({
@@ -17,8 +18,21 @@ export const LoginSchema = z.object({
 	password: z.string(),
 });
 
+/** Validation schema for exchanging a refresh token. */
+export const RefreshTokenSchema = z.object({
+	refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+/** Validation schema for replacing the caller's password. */
+export const ChangePasswordSchema = z.object({
+	currentPassword: z.string().min(1, "Current password is required"),
+	newPassword: z.string().min(6),
+});
+
 export type CreateUserInput = z.infer<typeof CreateUserSchema>;
 export type LoginInput = z.infer<typeof LoginSchema>;
+export type RefreshTokenInput = z.infer<typeof RefreshTokenSchema>;
+export type ChangePasswordInput = z.infer<typeof ChangePasswordSchema>;
 
 /**
  * Express request augmented with the authenticated user's identity.
@@ -28,65 +42,399 @@ export interface AuthenticatedRequest extends Request {
 		id: string;
 		email: string;
 		role: string;
+		/** Session the access token was issued for. */
+		sessionId: string;
 	};
 }
 
 /** Validation schema for creating a new sweet product. */
 export const CreateSweetSchema = z.object({
 	name: z.string().min(1, "Name is required"),
-	category: z.string().min(1, "Category is required"),
-	price: z.number().positive("Price must be positive"),
+	categoryId: z.string().min(1, "Category is required"),
+	/** In minor units of the sweet's currency, e.g. 299 for ₹2.99. */
+	price: z
+		.number()
+		.int("Price must be a whole number of minor units")
+		.positive("Price must be positive"),
 	quantity: z.number().int().min(0, "Quantity must be non-negative"),
+	/** Stock level at or below which a low-stock alert is raised. */
+	reorderPoint: z.number().int().min(0).optional(),
+	/** Suggested number of units to order when restocking. */
+	reorderQuantity: z.number().int().positive().optional(),
 });
 
 /** Validation schema for updating an existing sweet. */
 export const UpdateSweetSchema = z.object({
 	name: z.string().min(1).optional(),
-	category: z.string().min(1).optional(),
-	price: z.coerce.number().positive().optional(),
+	categoryId: z.string().min(1).optional(),
+	price: z.coerce.number().int().positive().optional(),
 	quantity: z.coerce.number().int().min(0).optional(),
+	reorderPoint: z.coerce.number().int().min(0).optional(),
+	reorderQuantity: z.coerce.number().int().positive().optional(),
+	/** Recorded on the inventory ledger when `quantity` changes. */
+	reason: z.string().max(500).optional(),
+});
+
+/** Catalogue fields the sweet listing may be ordered by. */
+export const SWEET_SORT_FIELDS = ["name", "price", "quantity", "createdAt"] as const;
+
+/** Validation schema for page-based pagination query parameters. */
+export const PaginationSchema = z.object({
+	page: z.coerce.number().int().min(1).default(1),
+	limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * Validation schema for paging and ordering the sweet catalogue.
+ * When `cursor` (the id of the last sweet already seen) is supplied it takes
+ * precedence over `page`.
+ */
+export const CatalogueQuerySchema = PaginationSchema.extend({
+	cursor: z.string().min(1).optional(),
+	sortBy: z.enum(SWEET_SORT_FIELDS).default("createdAt"),
+	order: z.enum(["asc", "desc"]).default("desc"),
 });
 
 /** Validation schema for searching sweets via query parameters. */
-export const SearchSweetSchema = z
-	.object({
-		name: z.string().optional(),
-		category: z.string().optional(),
-		minPrice: z.coerce.number().positive().optional(),
-		maxPrice: z.coerce.number().positive().optional(),
-	})
-	.refine(
-		(data) => {
-			if (data.minPrice && data.maxPrice) {
-				return data.minPrice <= data.maxPrice;
-			}
-			return true;
-		},
-		{
-			message: "minPrice must be less than or equal to maxPrice",
-			path: ["maxPrice"],
+export const SearchSweetSchema = CatalogueQuerySchema.extend({
+	name: z.string().optional(),
+	/** Category slug; sweets in its subcategories match too. */
+	category: z.string().optional(),
+	/** Price bounds in minor units, like `price`. */
+	minPrice: z.coerce.number().int().positive().optional(),
+	maxPrice: z.coerce.number().int().positive().optional(),
+	inStock: z
+		.enum(["true", "false"])
+		.transform((value) => value === "true")
+		.optional(),
+}).refine(
+	(data) => {
+		if (data.minPrice && data.maxPrice) {
+			return data.minPrice <= data.maxPrice;
 		}
-	);
+		return true;
+	},
+	{
+		message: "minPrice must be less than or equal to maxPrice",
+		path: ["maxPrice"],
+	}
+);
+
+/** File formats the catalogue can be imported from and exported to. */
+export const CATALOGUE_FILE_FORMATS = ["csv", "json"] as const;
+
+/**
+ * Validation schema for importing the catalogue. `content` is the file's
+ * text; a dry run reports what would change without writing.
+ */
+export const ImportSweetsSchema = z.object({
+	format: z.enum(CATALOGUE_FILE_FORMATS),
+	content: z.string().min(1, "File is empty"),
+	dryRun: z.boolean().default(false),
+});
+
+/** Validation schema for exporting the catalogue. */
+export const ExportSweetsSchema = z.object({
+	format: z.enum(CATALOGUE_FILE_FORMATS).default("csv"),
+});
 
 export type CreateSweetInput = z.infer<typeof CreateSweetSchema>;
 export type UpdateSweetInput = z.infer<typeof UpdateSweetSchema>;
 export type SearchSweetInput = z.infer<typeof SearchSweetSchema>;
+export type PaginationInput = z.infer<typeof PaginationSchema>;
+export type CatalogueQueryInput = z.infer<typeof CatalogueQuerySchema>;
+export type ImportSweetsInput = z.infer<typeof ImportSweetsSchema>;
+export type ExportSweetsInput = z.infer<typeof ExportSweetsSchema>;
+
+/** Lowercase words separated by single hyphens, e.g. `dark-chocolate`. */
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/** Validation schema for creating a catalogue category. */
+export const CreateCategorySchema = z.object({
+	name: z.string().trim().min(1, "Name is required").max(100),
+	/** Derived from the name when omitted. */
+	slug: z
+		.string()
+		.max(100)
+		.regex(SLUG_PATTERN, "Slug may only contain lowercase letters, numbers and single hyphens")
+		.optional(),
+	/** Null or omitted for a top-level category. */
+	parentId: z.string().min(1).nullable().optional(),
+	sortOrder: z.number().int().optional(),
+	/**
+	 * GST rate in basis points, e.g. 1800 for 18%, applied to sweets in the
+	 * category and its subcategories. Null or omitted inherits the parent's rate.
+	 */
+	taxRate: z.number().int().min(0).max(10_000).nullable().optional(),
+});
+
+/** Validation schema for updating a catalogue category. */
+export const UpdateCategorySchema = CreateCategorySchema.partial();
+
+export type CreateCategoryInput = z.infer<typeof CreateCategorySchema>;
+export type UpdateCategoryInput = z.infer<typeof UpdateCategorySchema>;
+
+/** Validation schema for putting a sweet's images in a new order. */
+export const ReorderSweetImagesSchema = z.object({
+	imageIds: z.array(z.string().min(1)).min(1, "At least one image is required"),
+});
+
+export type ReorderSweetImagesInput = z.infer<typeof ReorderSweetImagesSchema>;
+
+/** Statuses an order can be in. */
+export const ORDER_STATUSES = ["COMPLETED", "CANCELLED"] as const;
+
+/**
+ * Validation schema for listing the caller's orders.
+ * Both dates are inclusive and optional; omitting them covers all time.
+ */
+export const ListOrdersSchema = PaginationSchema.extend({
+	status: z.enum(ORDER_STATUSES).optional(),
+	from: z.coerce.date().optional(),
+	to: z.coerce.date().optional(),
+}).refine(
+	(data) => {
+		if (data.from && data.to) {
+			return data.from <= data.to;
+		}
+		return true;
+	},
+	{
+		message: "from must be before or equal to to",
+		path: ["to"],
+	}
+);
 
-/** Validation schema for purchasing inventory. */
-export const PurchaseSweetSchema = z.object({
+export type ListOrdersInput = z.infer<typeof ListOrdersSchema>;
+
+/** Formats an order's invoice can be downloaded in. */
+export const INVOICE_FORMATS = ["html", "pdf"] as const;
+
+/** Validation schema for the invoice download query. */
+export const InvoiceQuerySchema = z.object({
+	format: z.enum(INVOICE_FORMATS).default("html"),
+});
+
+export type InvoiceQueryInput = z.infer<typeof InvoiceQuerySchema>;
+
+/** Validation schema for scheduling a future price for a sweet. */
+export const SchedulePriceSchema = z.object({
+	/** In minor units, like the sweet's `price`. */
+	price: CreateSweetSchema.shape.price,
+	effectiveFrom: z.coerce
+		.date()
+		.refine((date) => date.getTime() > Date.now(), "Must be in the future"),
+});
+
+export type SchedulePriceInput = z.infer<typeof SchedulePriceSchema>;
+
+/** Quantity of a sweet being bought or put in the cart. */
+const PurchaseQuantitySchema = z.object({
 	quantity: z.coerce
 		.number()
 		.int()
 		.positive("Purchase quantity must be greater than zero"),
 });
 
+/** A coupon code as typed by a shopper; codes match case-insensitively. */
+const CouponCodeSchema = z.string().trim().min(1, "Coupon code is required").max(32);
+
+/**
+ * Validation schema for purchasing inventory. A reservation, when given,
+ * is bought along with any extra units requested beyond it.
+ */
+export const PurchaseSweetSchema = PurchaseQuantitySchema.extend({
+	couponCode: CouponCodeSchema.optional(),
+	reservationId: z.string().min(1).optional(),
+});
+
 /** Validation schema for restocking inventory. */
 export const RestockSweetSchema = z.object({
 	quantity: z.coerce
 		.number()
 		.int()
 		.positive("Restock quantity must be greater than zero"),
+	reason: z.string().max(500).optional(),
 });
 
+/**
+ * Validation schema for listing low-stock alerts.
+ * `active` alerts are unresolved, whether or not they were acknowledged.
+ */
+export const ListAlertsSchema = PaginationSchema.extend({
+	status: z.enum(["active", "resolved", "all"]).default("active"),
+});
+
+export type ListAlertsInput = z.infer<typeof ListAlertsSchema>;
+
 export type PurchaseSweetInput = z.infer<typeof PurchaseSweetSchema>;
 export type RestockSweetInput = z.infer<typeof RestockSweetSchema>;
+
+/** Validation schema for adding a sweet to the cart. */
+export const AddCartItemSchema = PurchaseQuantitySchema.extend({
+	sweetId: z.string().min(1, "Sweet ID is required"),
+});
+
+/** Validation schema for changing the quantity of a cart line. */
+export const UpdateCartItemSchema = PurchaseQuantitySchema;
+
+/** Validation schema for checking out the cart; the body may be empty. */
+export const CheckoutSchema = z.object({
+	couponCode: CouponCodeSchema.optional(),
+});
+
+/** Validation schema for holding units of a sweet while a purchase is confirmed. */
+export const ReserveStockSchema = PurchaseQuantitySchema.extend({
+	sweetId: z.string().min(1, "Sweet ID is required"),
+});
+
+export type AddCartItemInput = z.infer<typeof AddCartItemSchema>;
+export type UpdateCartItemInput = z.infer<typeof UpdateCartItemSchema>;
+export type CheckoutInput = z.infer<typeof CheckoutSchema>;
+export type ReserveStockInput = z.infer<typeof ReserveStockSchema>;
+
+/** Kinds of promotion; the Promotion model describes how each uses its fields. */
+export const PROMOTION_TYPES = [
+	"PERCENTAGE",
+	"FIXED_AMOUNT",
+	"MULTI_BUY",
+	"BUNDLE",
+] as const;
+
+/** Fields of a promotion as sent by staff, before the per-type rules. */
+const PromotionFieldsSchema = z.object({
+	name: z.string().trim().min(1, "Name is required").max(100),
+	type: z.enum(PROMOTION_TYPES),
+	/** Percent off, or an amount in minor units, depending on `type`. */
+	value: z.number().int().min(0).default(0),
+	buyQuantity: z.number().int().positive().nullable().optional(),
+	freeQuantity: z.number().int().positive().nullable().optional(),
+	/** Null or omitted for a promotion that applies automatically. */
+	code: z
+		.string()
+		.trim()
+		.regex(/^[A-Za-z0-9_-]{3,32}$/, "Code must be 3-32 letters, digits, hyphens or underscores")
+		.nullable()
+		.optional(),
+	/** Limits the promotion to one sweet; leave both scopes empty for every sweet. */
+	sweetId: z.string().min(1).nullable().optional(),
+	/** Limits the promotion to a category and its subcategories. */
+	categoryId: z.string().min(1).nullable().optional(),
+	startsAt: z.coerce.date().nullable().optional(),
+	endsAt: z.coerce.date().nullable().optional(),
+	perUserLimit: z.number().int().positive().nullable().optional(),
+	isActive: z.boolean().optional(),
+});
+
+/**
+ * Validation schema for creating a promotion. Also applied to a promotion
+ * with an update merged in, so the per-type rules hold after every edit.
+ */
+export const CreatePromotionSchema = PromotionFieldsSchema.superRefine(
+	(data, ctx) => {
+		const issue = (path: string, message: string) =>
+			ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+		if (data.type === "PERCENTAGE" && (data.value < 1 || data.value > 100)) {
+			issue("value", "Percentage must be between 1 and 100");
+		}
+		if (data.type === "FIXED_AMOUNT" && data.value < 1) {
+			issue("value", "Discount amount must be positive");
+		}
+		if (data.type === "MULTI_BUY") {
+			if (!data.buyQuantity) issue("buyQuantity", "Units to pay for are required");
+			if (!data.freeQuantity) issue("freeQuantity", "Free units are required");
+		}
+		if (data.type === "BUNDLE") {
+			if (!data.buyQuantity || data.buyQuantity < 2) {
+				issue("buyQuantity", "A bundle needs at least 2 units");
+			}
+			if (data.value < 1) issue("value", "Bundle price must be positive");
+		}
+		if (data.sweetId && data.categoryId) {
+			issue("categoryId", "Choose a sweet or a category, not both");
+		}
+		if (data.startsAt && data.endsAt && data.endsAt <= data.startsAt) {
+			issue("endsAt", "End must be after the start");
+		}
+	}
+);
+
+/** Validation schema for updating a promotion. */
+export const UpdatePromotionSchema = PromotionFieldsSchema.partial();
+
+/** Validation schema for pricing items with promotions before buying them. */
+export const QuotePromotionsSchema = z.object({
+	items: z
+		.array(
+			z.object({
+				sweetId: z.string().min(1, "Sweet ID is required"),
+				quantity: z.number().int().positive("Quantity must be greater than zero"),
+			})
+		)
+		.min(1, "At least one item is required"),
+	couponCode: CouponCodeSchema.optional(),
+});
+
+export type CreatePromotionInput = z.infer<typeof CreatePromotionSchema>;
+export type UpdatePromotionInput = z.infer<typeof UpdatePromotionSchema>;
+export type QuotePromotionsInput = z.infer<typeof QuotePromotionsSchema>;
+
+/** Validation schema for listing and searching user accounts (admin only). */
+export const ListUsersSchema = PaginationSchema.extend({
+	search: z.string().optional(),
+	role: z.enum(ROLES).optional(),
+	status: z.enum(["active", "inactive"]).optional(),
+});
+
+/** Validation schema for changing a user's role (admin only). */
+export const UpdateUserRoleSchema = z.object({
+	role: z.enum(ROLES),
+});
+
+export type ListUsersInput = z.infer<typeof ListUsersSchema>;
+export type UpdateUserRoleInput = z.infer<typeof UpdateUserRoleSchema>;
+
+/** Bucket sizes the sales series can be grouped by. */
+export const ANALYTICS_INTERVALS = ["day", "week", "month"] as const;
+
+/**
+ * Validation schema for the date range shared by every analytics report.
+ * Both bounds are inclusive and optional; omitting them covers all time.
+ */
+export const AnalyticsRangeSchema = z
+	.object({
+		from: z.coerce.date().optional(),
+		to: z.coerce.date().optional(),
+	})
+	.refine(
+		(data) => {
+			if (data.from && data.to) {
+				return data.from <= data.to;
+			}
+			return true;
+		},
+		{
+			message: "from must be before or equal to to",
+			path: ["to"],
+		}
+	);
+
+/** Validation schema for the sales report. */
+export const SalesAnalyticsSchema = AnalyticsRangeSchema.and(
+	z.object({
+		interval: z.enum(ANALYTICS_INTERVALS).default("day"),
+	})
+);
+
+/** Validation schema for the top sellers report. */
+export const TopSellersSchema = AnalyticsRangeSchema.and(
+	z.object({
+		limit: z.coerce.number().int().min(1).max(50).default(10),
+		metric: z.enum(["units", "revenue"]).default("units"),
+	})
+);
+
+export type AnalyticsRangeInput = z.infer<typeof AnalyticsRangeSchema>;
+export type SalesAnalyticsInput = z.infer<typeof SalesAnalyticsSchema>;
+export type TopSellersInput = z.infer<typeof TopSellersSchema>;
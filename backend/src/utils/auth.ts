@@ -34,10 +34,10 @@ export const comparePassword = async (
  * Generates a signed JWT for the provided payload.
  *
  * @param payload Serializable payload containing user context.
- * @returns Signed JWT string that expires in 24 hours.
+ * @returns Signed JWT string that expires in 15 minutes.
  */
 export const generateToken = (payload: object): string => {
-    return jwt.sign(payload, JWT_SECRET, { expiresIn: '24h' });
+    return jwt.sign(payload, JWT_SECRET, { expiresIn: '15m' });
 };
 
 /**
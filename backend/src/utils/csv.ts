@@ -0,0 +1,85 @@
+/**
+ * @file Minimal RFC 4180 CSV reading and writing for catalogue files.
+ */
+
+/** A value that can be written to a CSV cell. */
+export type CsvCell = string | number | null | undefined;
+
+/**
+ * Quotes a cell when it contains a delimiter, quote or line break.
+ *
+ * @param value Cell value to serialise.
+ * @returns The cell as CSV text.
+ */
+const escapeCell = (value: CsvCell) => {
+	const text = value === null || value === undefined ? "" : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialises rows to CSV text, one line per row.
+ *
+ * @param rows Rows of cells, typically starting with a header row.
+ * @returns CSV text using CRLF line endings.
+ */
+export const toCsv = (rows: CsvCell[][]) =>
+	rows.map((row) => row.map(escapeCell).join(",")).join("\r\n");
+
+/**
+ * Parses CSV text into rows of cells. Quoted cells may contain commas,
+ * escaped quotes and line breaks. Blank lines are skipped.
+ *
+ * @param text CSV document, optionally starting with a byte order mark.
+ * @returns The rows of the document.
+ * @throws Error when a quoted cell is never closed.
+ */
+export const parseCsv = (text: string): string[][] => {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = "";
+	let inQuotes = false;
+	const input = text.replace(/^\uFEFF/, "");
+
+	const endRow = () => {
+		row.push(cell);
+		if (row.length > 1 || row[0] !== "") {
+			rows.push(row);
+		}
+		row = [];
+		cell = "";
+	};
+
+	for (let index = 0; index < input.length; index++) {
+		const char = input[index];
+
+		if (inQuotes) {
+			if (char === '"' && input[index + 1] === '"') {
+				cell += '"';
+				index++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"') {
+			inQuotes = true;
+		} else if (char === ",") {
+			row.push(cell);
+			cell = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && input[index + 1] === "\n") {
+				index++;
+			}
+			endRow();
+		} else {
+			cell += char;
+		}
+	}
+
+	if (inQuotes) {
+		throw new Error("Invalid CSV: unterminated quoted cell");
+	}
+	endRow();
+
+	return rows;
+};
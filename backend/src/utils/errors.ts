@@ -0,0 +1,129 @@
+/**
+ * @file Domain error classes carrying stable codes and HTTP statuses.
+ */
+
+/**
+ * Stable, machine-readable error codes sent to clients. Messages may be
+ * reworded; codes must not change once released.
+ */
+export const ERROR_CODES = [
+	"VALIDATION_FAILED",
+	"INVALID_JSON",
+	"INVALID_FILE",
+	"FILE_TOO_LARGE",
+	"UNSUPPORTED_MEDIA_TYPE",
+	"UNAUTHORIZED",
+	"INVALID_CREDENTIALS",
+	"INVALID_REFRESH_TOKEN",
+	"SESSION_REVOKED",
+	"ACCOUNT_DEACTIVATED",
+	"PASSWORD_RESET_REQUIRED",
+	"FORBIDDEN",
+	"ROUTE_NOT_FOUND",
+	"USER_NOT_FOUND",
+	"SWEET_NOT_FOUND",
+	"CATEGORY_NOT_FOUND",
+	"ORDER_NOT_FOUND",
+	"CART_ITEM_NOT_FOUND",
+	"ALERT_NOT_FOUND",
+	"IMAGE_NOT_FOUND",
+	"PRICE_CHANGE_NOT_FOUND",
+	"PROMOTION_NOT_FOUND",
+	"RESERVATION_NOT_FOUND",
+	"USER_ALREADY_EXISTS",
+	"NAME_CONFLICT",
+	"SLUG_CONFLICT",
+	"CODE_CONFLICT",
+	"CATEGORY_IN_USE",
+	"ALERT_ALREADY_ACKNOWLEDGED",
+	"SWEET_NOT_ARCHIVED",
+	"INSUFFICIENT_STOCK",
+	"RESERVATION_EXPIRED",
+	"INVALID_QUANTITY",
+	"CURRENCY_MISMATCH",
+	"INVALID_COUPON",
+	"UNKNOWN_CATEGORY",
+	"INVALID_CATEGORY_NAME",
+	"CATEGORY_CYCLE",
+	"CART_EMPTY",
+	"INCORRECT_PASSWORD",
+	"SELF_ROLE_CHANGE",
+	"SELF_DEACTIVATION",
+	"IMPORT_INVALID_ROWS",
+	"INVALID_IMAGE_ORDER",
+	"INTERNAL_ERROR",
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+/** Extra context attached to an error response. */
+export interface ErrorOptions {
+	/** Structured data the client can act on, such as per-field messages. */
+	details?: Record<string, unknown>;
+	/** Request field the error relates to, when there is exactly one. */
+	field?: string;
+}
+
+/**
+ * Base class for errors that are safe to show to API clients. The error
+ * middleware turns these into the standard error envelope; anything else
+ * becomes an opaque 500.
+ */
+export class AppError extends Error {
+	readonly details?: Record<string, unknown>;
+	readonly field?: string;
+
+	constructor(
+		readonly status: number,
+		readonly code: ErrorCode,
+		message: string,
+		options: ErrorOptions = {}
+	) {
+		super(message);
+		this.name = new.target.name;
+		this.details = options.details;
+		this.field = options.field;
+	}
+}
+
+/** The request is malformed: bad syntax, schema violations or unreadable files (400). */
+export class BadRequestError extends AppError {
+	constructor(code: ErrorCode, message: string, options?: ErrorOptions) {
+		super(400, code, message, options);
+	}
+}
+
+/** The caller is not signed in, or their credentials are no longer valid (401). */
+export class UnauthorizedError extends AppError {
+	constructor(code: ErrorCode, message: string, options?: ErrorOptions) {
+		super(401, code, message, options);
+	}
+}
+
+/** The caller is signed in but may not perform the action (403). */
+export class ForbiddenError extends AppError {
+	constructor(code: ErrorCode, message: string, options?: ErrorOptions) {
+		super(403, code, message, options);
+	}
+}
+
+/** The addressed resource does not exist (404). */
+export class NotFoundError extends AppError {
+	constructor(code: ErrorCode, message: string, options?: ErrorOptions) {
+		super(404, code, message, options);
+	}
+}
+
+/** The request clashes with the current state, such as a taken name (409). */
+export class ConflictError extends AppError {
+	constructor(code: ErrorCode, message: string, options?: ErrorOptions) {
+		super(409, code, message, options);
+	}
+}
+
+/** The request is well-formed but breaks a business rule (422). */
+export class UnprocessableError extends AppError {
+	constructor(code: ErrorCode, message: string, options?: ErrorOptions) {
+		super(422, code, message, options);
+	}
+}
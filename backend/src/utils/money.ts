@@ -0,0 +1,58 @@
+/**
+ * @file Conversions between integer minor-unit amounts and decimal text.
+ *
+ * Prices and order totals are stored as integers in the minor unit of their
+ * currency (paise for INR) so sums and products stay exact.
+ */
+
+/** ISO 4217 code of the currency sweets are priced in unless stated otherwise. */
+export const DEFAULT_CURRENCY = "INR";
+
+/**
+ * Number of decimal places of a currency's minor unit, e.g. 2 for INR and 0 for JPY.
+ *
+ * @param currency ISO 4217 currency code.
+ * @returns The currency's fraction digits.
+ */
+export const minorUnitDigits = (currency: string = DEFAULT_CURRENCY) =>
+	new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions()
+		.maximumFractionDigits ?? 2;
+
+/**
+ * Parses a decimal amount such as `"2.99"` into minor units without going
+ * through floating point. Amounts with more decimal places than the
+ * currency allows are rejected rather than rounded.
+ *
+ * @param value Decimal text or number in major units.
+ * @param currency ISO 4217 currency code of the amount.
+ * @returns The amount in minor units, or `NaN` when it is not a valid amount.
+ */
+export const toMinorUnits = (value: string | number, currency: string = DEFAULT_CURRENCY) => {
+	const digits = minorUnitDigits(currency);
+	const match = /^(-?)(\d*)(?:\.(\d*))?$/.exec(String(value).trim());
+	const [, sign, whole = "", fraction = ""] = match ?? [];
+
+	if (!match || (whole === "" && fraction === "") || fraction.length > digits) {
+		return NaN;
+	}
+
+	const amount = Number(`${whole || "0"}${fraction.padEnd(digits, "0")}`);
+	return sign ? -amount : amount;
+};
+
+/**
+ * Writes a minor-unit amount as decimal text in major units, e.g. 299 as `"2.99"`.
+ *
+ * @param amount Amount in minor units.
+ * @param currency ISO 4217 currency code of the amount.
+ * @returns The amount with the currency's fraction digits.
+ */
+export const fromMinorUnits = (amount: number, currency: string = DEFAULT_CURRENCY) => {
+	const digits = minorUnitDigits(currency);
+	const sign = amount < 0 ? "-" : "";
+	const text = String(Math.abs(amount)).padStart(digits + 1, "0");
+
+	return digits === 0
+		? `${sign}${text}`
+		: `${sign}${text.slice(0, -digits)}.${text.slice(-digits)}`;
+};
@@ -0,0 +1,144 @@
+/**
+ * @file Minimal PDF writer for plain tabular documents such as invoices.
+ *
+ * Draws text in the built-in Helvetica fonts and ruled lines on A4 pages,
+ * which is all an invoice needs, without a rendering dependency. Text is
+ * written in WinAnsi encoding, so characters outside Latin-1 (such as ₹)
+ * are replaced and callers should spell out currency codes instead.
+ */
+
+/** A4 page size in points. */
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export type PdfFont = "regular" | "bold";
+
+export interface PdfTextOptions {
+	/** Font size in points; defaults to 10. */
+	size?: number;
+	font?: PdfFont;
+	/** With `right`, `x` is where the text ends rather than starts. */
+	align?: "left" | "right";
+}
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: "F1", bold: "F2" };
+
+/**
+ * Helvetica advance widths in thousandths of the font size, for the
+ * characters that appear in right-aligned columns. Others use the width
+ * of a digit, which is close enough for short labels.
+ */
+const CHARACTER_WIDTHS: Record<string, number> = {
+	" ": 278,
+	",": 278,
+	".": 278,
+	"-": 333,
+	"%": 889,
+	"(": 333,
+	")": 333,
+	I: 278,
+	N: 722,
+	R: 722,
+};
+const DEFAULT_CHARACTER_WIDTH = 556;
+
+/**
+ * Approximates the width of text set in Helvetica.
+ *
+ * @param text Text to measure.
+ * @param size Font size in points.
+ * @returns Width in points.
+ */
+export const textWidth = (text: string, size: number) =>
+	([...text].reduce((sum, char) => sum + (CHARACTER_WIDTHS[char] ?? DEFAULT_CHARACTER_WIDTH), 0) * size) / 1000;
+
+/** Escapes a string for a PDF literal, replacing characters WinAnsi cannot encode. */
+const encodeText = (text: string) =>
+	text.replace(/[^\x20-\x7e\xa0-\xff]/g, "?").replace(/[\\()]/g, (char) => `\\${char}`);
+
+/** Rounds a coordinate so content streams stay short. */
+const coordinate = (value: number) => Number(value.toFixed(2));
+
+/**
+ * Builds a PDF page by page. Coordinates are in points measured from the
+ * top-left corner of the page, unlike PDF's own bottom-left origin.
+ */
+export class PdfDocument {
+	private readonly pages: string[][] = [[]];
+
+	/**
+	 * Draws a line of text on the current page.
+	 *
+	 * @param text Text to draw.
+	 * @param x Horizontal position of the start, or end when right-aligned.
+	 * @param y Position of the baseline from the top of the page.
+	 * @param options Font, size and alignment.
+	 */
+	text(text: string, x: number, y: number, { size = 10, font = "regular", align = "left" }: PdfTextOptions = {}) {
+		const left = align === "right" ? x - textWidth(text, size) : x;
+		this.currentPage.push(
+			`BT /${FONT_RESOURCES[font]} ${size} Tf ${coordinate(left)} ${coordinate(PAGE_HEIGHT - y)} Td (${encodeText(text)}) Tj ET`
+		);
+	}
+
+	/**
+	 * Draws a straight line on the current page.
+	 *
+	 * @param x1 Horizontal start.
+	 * @param y1 Vertical start from the top of the page.
+	 * @param x2 Horizontal end.
+	 * @param y2 Vertical end from the top of the page.
+	 * @param width Stroke width in points.
+	 */
+	line(x1: number, y1: number, x2: number, y2: number, width = 0.5) {
+		this.currentPage.push(
+			`${width} w ${coordinate(x1)} ${coordinate(PAGE_HEIGHT - y1)} m ${coordinate(x2)} ${coordinate(PAGE_HEIGHT - y2)} l S`
+		);
+	}
+
+	/** Starts a new page; later drawing goes on it. */
+	addPage() {
+		this.pages.push([]);
+	}
+
+	/**
+	 * Serializes the document.
+	 *
+	 * @returns The PDF file contents.
+	 */
+	toBuffer() {
+		// Objects 1-4 are fixed; each page then adds its content stream and page object
+		const objects = [
+			"<< /Type /Catalog /Pages 2 0 R >>",
+			`<< /Type /Pages /Kids [${this.pages.map((_, i) => `${6 + i * 2} 0 R`).join(" ")}] /Count ${this.pages.length} >>`,
+			"<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+			"<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+		];
+		this.pages.forEach((operations, i) => {
+			const content = operations.join("\n");
+			objects.push(
+				`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+				`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+					`/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${5 + i * 2} 0 R >>`
+			);
+		});
+
+		let output = "%PDF-1.4\n";
+		const offsets = objects.map((object, i) => {
+			const offset = Buffer.byteLength(output, "latin1");
+			output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+			return offset;
+		});
+
+		const xrefOffset = Buffer.byteLength(output, "latin1");
+		output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+		output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+		output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+		return Buffer.from(output, "latin1");
+	}
+
+	private get currentPage() {
+		return this.pages[this.pages.length - 1];
+	}
+}
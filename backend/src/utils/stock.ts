@@ -0,0 +1,29 @@
+/**
+ * @file Stock levels derived from a sweet's on-hand and reserved units.
+ */
+
+/**
+ * Adds the stock levels clients show: `onHand` counts every unit in the
+ * shop (the same as `quantity`), `available` leaves out the units held by
+ * reservations. Available stock never reads below zero, even when staff
+ * cut stock under what is held.
+ *
+ * @param sweet Sweet with its stock and reserved counts.
+ * @returns The sweet with `onHand` and `available` added.
+ */
+export const withStockLevels = <T extends { quantity: number; reserved: number }>(sweet: T) => ({
+	...sweet,
+	onHand: sweet.quantity,
+	available: Math.max(sweet.quantity - sweet.reserved, 0),
+});
+
+/**
+ * Adds stock levels to the sweet carried by a cart line.
+ *
+ * @param item Cart line with its sweet.
+ * @returns The line with `onHand` and `available` on its sweet.
+ */
+export const withLineStockLevels = <T extends { sweet: { quantity: number; reserved: number } }>(item: T) => ({
+	...item,
+	sweet: withStockLevels(item.sweet),
+});
@@ -0,0 +1,139 @@
+import React, { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { useAlertStore } from "@/store/alertStore";
+import { IconAlertTriangle, IconBell, IconCheck } from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+
+/**
+ * AlertsPanel component listing active low-stock alerts for admins
+ *
+ * Features:
+ * - Current stock against each sweet's reorder point
+ * - Suggested reorder quantity
+ * - Acknowledging alerts so they no longer count towards the header badge
+ *
+ * Alerts stay listed until the sweet is restocked above its reorder point.
+ * Open state lives in the alert store so the Header can toggle the panel.
+ */
+export const AlertsPanel: React.FC = () => {
+    const { alerts, total, isOpen, isLoading, pendingAlertId, fetchAlerts, acknowledge, setOpen } = useAlertStore();
+    const navigate = useNavigate();
+
+    // Refresh alerts whenever the panel is opened
+    useEffect(() => {
+        if (isOpen) {
+            fetchAlerts();
+        }
+    }, [isOpen, fetchAlerts]);
+
+    /**
+     * Acknowledge a single alert
+     */
+    const handleAcknowledge = async (id: string) => {
+        try {
+            await acknowledge(id);
+        } catch {
+            // Store already surfaced the error toast
+        }
+    };
+
+    /**
+     * Jump to the admin page to restock
+     */
+    const handleManageInventory = () => {
+        setOpen(false);
+        navigate("/admin");
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={setOpen}>
+            <DialogContent
+                className={cn(
+                    "left-auto right-0 top-0 flex h-full max-h-screen w-full max-w-md translate-x-0 translate-y-0 flex-col gap-0 rounded-none p-0 sm:rounded-l-2xl",
+                    "data-[state=closed]:slide-out-to-left-0 data-[state=closed]:slide-out-to-top-0 data-[state=open]:slide-in-from-left-0 data-[state=open]:slide-in-from-top-0"
+                )}
+            >
+                <DialogHeader className="space-y-1 border-b p-4 xs:p-6">
+                    <DialogTitle className="flex items-center gap-2 text-responsive-lg">
+                        <IconBell className="h-4 w-4 xs:h-5 xs:w-5" />
+                        Low Stock Alerts
+                    </DialogTitle>
+                    <DialogDescription className="text-responsive-sm">
+                        Alerts clear once the sweet is restocked above its reorder point.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex-1 space-y-3 overflow-y-auto p-4 xs:p-6">
+                    {alerts.length === 0 ? (
+                        <div className="flex h-full flex-col items-center justify-center gap-2 text-center text-muted-foreground">
+                            <IconCheck className="h-8 w-8" />
+                            <p className="text-responsive-sm">
+                                {isLoading ? "Loading alerts..." : "Every sweet is above its reorder point."}
+                            </p>
+                        </div>
+                    ) : (
+                        alerts.map((alert) => (
+                            <div
+                                key={alert.id}
+                                className={cn(
+                                    "space-y-2 rounded-lg border p-3 xs:p-4",
+                                    alert.acknowledgedAt ? "bg-muted/30" : "border-orange-300 bg-orange-50"
+                                )}
+                            >
+                                <div className="flex items-start justify-between gap-2">
+                                    <div>
+                                        <h4 className="flex items-center gap-2 font-semibold text-responsive-sm">
+                                            {!alert.acknowledgedAt && <IconAlertTriangle className="h-4 w-4 text-orange-500" />}
+                                            {alert.sweet.name}
+                                        </h4>
+                                        <p className="text-responsive-xs text-muted-foreground">
+                                            {alert.sweet.category.name} • since {new Date(alert.createdAt).toLocaleString()}
+                                        </p>
+                                    </div>
+                                    {alert.acknowledgedAt ? (
+                                        <Badge variant="secondary" className="text-xs">Seen</Badge>
+                                    ) : (
+                                        <Button
+                                            type="button"
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => handleAcknowledge(alert.id)}
+                                            disabled={pendingAlertId === alert.id}
+                                        >
+                                            Acknowledge
+                                        </Button>
+                                    )}
+                                </div>
+                                <p className="text-responsive-xs">
+                                    <span className="font-medium">{alert.sweet.quantity} in stock</span>
+                                    {" "}(reorder point {alert.sweet.reorderPoint}) • order {alert.sweet.reorderQuantity} more
+                                </p>
+                            </div>
+                        ))
+                    )}
+                </div>
+
+                <DialogFooter className="flex-col gap-2 border-t p-4 sm:flex-col sm:space-x-0 xs:p-6">
+                    {total > alerts.length && (
+                        <p className="text-center text-responsive-xs text-muted-foreground">
+                            Showing {alerts.length} of {total} alerts
+                        </p>
+                    )}
+                    <Button type="button" onClick={handleManageInventory} className="touch-target w-full">
+                        Manage Inventory
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
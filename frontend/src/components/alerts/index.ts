@@ -0,0 +1 @@
+export { AlertsPanel } from './AlertsPanel';
@@ -0,0 +1,220 @@
+import React, { useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { useCartStore } from "@/store/cartStore";
+import {
+    IconShoppingCart,
+    IconMinus,
+    IconPlus,
+    IconTrash,
+} from "@tabler/icons-react";
+import { cn } from "@/lib/utils";
+import { DEFAULT_CURRENCY, formatMoney } from "@/utils/money";
+
+/**
+ * CartDrawer component showing the server-side cart as a side panel
+ *
+ * Features:
+ * - Lists cart lines with live catalogue prices
+ * - Quantity adjustment bounded by available stock
+ * - Line removal and cart clearing
+ * - All-or-nothing checkout of every line
+ *
+ * Open state lives in the cart store so the Header (or any other
+ * component) can toggle the drawer.
+ */
+export const CartDrawer: React.FC = () => {
+    const {
+        items,
+        total,
+        isOpen,
+        isLoading,
+        isCheckingOut,
+        fetchCart,
+        updateItem,
+        removeItem,
+        clearCart,
+        checkout,
+        setOpen,
+    } = useCartStore();
+
+    // Refresh the cart whenever the drawer is opened
+    useEffect(() => {
+        if (isOpen) {
+            fetchCart();
+        }
+    }, [isOpen, fetchCart]);
+
+    const isBusy = isLoading || isCheckingOut;
+    const hasShortLine = items.some(item => item.quantity > item.sweet.quantity);
+    // Checkout refuses carts that mix currencies, so the first line's is the cart's
+    const currency = items[0]?.sweet.currency ?? DEFAULT_CURRENCY;
+
+    /**
+     * Adjust a line's quantity, removing it when it drops to zero
+     */
+    const adjustQuantity = async (sweetId: string, quantity: number) => {
+        try {
+            if (quantity <= 0) {
+                await removeItem(sweetId);
+            } else {
+                await updateItem(sweetId, quantity);
+            }
+        } catch {
+            // Store already surfaced the error toast
+        }
+    };
+
+    /**
+     * Purchase every line in the cart
+     */
+    const handleCheckout = async () => {
+        try {
+            await checkout();
+        } catch {
+            // Store already surfaced the error toast
+        }
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={setOpen}>
+            <DialogContent
+                className={cn(
+                    "left-auto right-0 top-0 flex h-full max-h-screen w-full max-w-md translate-x-0 translate-y-0 flex-col gap-0 rounded-none p-0 sm:rounded-l-2xl",
+                    "data-[state=closed]:slide-out-to-left-0 data-[state=closed]:slide-out-to-top-0 data-[state=open]:slide-in-from-left-0 data-[state=open]:slide-in-from-top-0"
+                )}
+            >
+                <DialogHeader className="space-y-1 border-b p-4 xs:p-6">
+                    <DialogTitle className="flex items-center gap-2 text-responsive-lg">
+                        <IconShoppingCart className="h-4 w-4 xs:h-5 xs:w-5" />
+                        Your Cart
+                    </DialogTitle>
+                    <DialogDescription className="text-responsive-sm">
+                        Stock is reserved for every item together when you check out.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex-1 space-y-3 overflow-y-auto p-4 xs:p-6">
+                    {items.length === 0 ? (
+                        <div className="flex h-full flex-col items-center justify-center gap-2 text-center text-muted-foreground">
+                            <IconShoppingCart className="h-8 w-8" />
+                            <p className="text-responsive-sm">Your cart is empty.</p>
+                        </div>
+                    ) : (
+                        items.map((item) => {
+                            const isShort = item.quantity > item.sweet.available;
+
+                            return (
+                                <div
+                                    key={item.id}
+                                    className="space-y-2 rounded-lg border bg-muted/30 p-3 xs:p-4"
+                                >
+                                    <div className="flex items-start justify-between gap-2">
+                                        <div>
+                                            <h4 className="font-semibold text-responsive-sm">{item.sweet.name}</h4>
+                                            <p className="text-responsive-xs text-muted-foreground">
+                                                {formatMoney(item.sweet.price, item.sweet.currency)} per item
+                                            </p>
+                                        </div>
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => adjustQuantity(item.sweetId, 0)}
+                                            disabled={isBusy}
+                                            className="h-8 w-8 p-0 text-rose-500"
+                                            aria-label={`Remove ${item.sweet.name}`}
+                                        >
+                                            <IconTrash className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+
+                                    <div className="flex items-center justify-between">
+                                        <div className="flex items-center gap-2">
+                                            <Button
+                                                type="button"
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => adjustQuantity(item.sweetId, item.quantity - 1)}
+                                                disabled={isBusy}
+                                                className="h-8 w-8 p-0"
+                                            >
+                                                <IconMinus className="h-3.5 w-3.5" />
+                                            </Button>
+                                            <span className="w-8 text-center text-responsive-sm font-medium">
+                                                {item.quantity}
+                                            </span>
+                                            <Button
+                                                type="button"
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => adjustQuantity(item.sweetId, item.quantity + 1)}
+                                                disabled={isBusy || item.quantity >= item.sweet.quantity}
+                                                className="h-8 w-8 p-0"
+                                            >
+                                                <IconPlus className="h-3.5 w-3.5" />
+                                            </Button>
+                                        </div>
+                                        <span className="font-semibold text-responsive-sm">
+                                            {formatMoney(item.sweet.price * item.quantity, item.sweet.currency)}
+                                        </span>
+                                    </div>
+
+                                    {isShort && (
+                                        <Badge variant="destructive" className="text-xs">
+                                            Only {item.sweet.available} left in stock
+                                        </Badge>
+                                    )}
+                                </div>
+                            );
+                        })
+                    )}
+                </div>
+
+                <DialogFooter className="flex-col gap-3 border-t p-4 sm:flex-col sm:space-x-0 xs:p-6">
+                    <div className="flex w-full items-center justify-between rounded-lg border bg-primary/5 p-3 xs:p-4">
+                        <span className="font-medium text-responsive-sm">Total:</span>
+                        <span className="text-responsive-lg font-bold">{formatMoney(total, currency)}</span>
+                    </div>
+                    <div className="flex w-full gap-2">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => clearCart().catch(() => undefined)}
+                            disabled={isBusy || items.length === 0}
+                            className="touch-target flex-1"
+                        >
+                            Clear
+                        </Button>
+                        <Button
+                            type="button"
+                            onClick={handleCheckout}
+                            disabled={isBusy || items.length === 0 || hasShortLine}
+                            className="touch-target flex flex-1 items-center gap-2"
+                        >
+                            {isCheckingOut ? (
+                                <>
+                                    <span className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                                    Processing…
+                                </>
+                            ) : (
+                                <>
+                                    <IconShoppingCart className="h-4 w-4" />
+                                    Checkout
+                                </>
+                            )}
+                        </Button>
+                    </div>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1 @@
+export { CartDrawer } from './CartDrawer';
@@ -0,0 +1,57 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+/**
+ * A single labelled bar
+ */
+export interface BarListDatum {
+    label: string;
+    value: number;
+    /** Optional secondary text shown under the label */
+    detail?: string;
+}
+
+interface BarListProps {
+    data: BarListDatum[];
+    formatValue?: (value: number) => string;
+    emptyMessage?: string;
+    className?: string;
+}
+
+/**
+ * Horizontal bar chart for ranked categories, drawn with plain elements
+ *
+ * Bars are scaled against the largest value, so the first row of a ranked list fills the width.
+ */
+export const BarList: React.FC<BarListProps> = ({
+    data,
+    formatValue = (value) => value.toLocaleString(),
+    emptyMessage = 'No data for this period',
+    className,
+}) => {
+    if (data.length === 0) {
+        return <p className={cn('py-6 text-center text-sm text-muted-foreground', className)}>{emptyMessage}</p>;
+    }
+
+    const max = Math.max(...data.map(datum => datum.value), 0);
+
+    return (
+        <ul className={cn('space-y-3', className)}>
+            {data.map((datum) => (
+                <li key={datum.label} className="space-y-1">
+                    <div className="flex items-baseline justify-between gap-2 text-sm">
+                        <span className="truncate font-medium">{datum.label}</span>
+                        <span className="shrink-0 tabular-nums text-muted-foreground">{formatValue(datum.value)}</span>
+                    </div>
+                    <div className="h-2 rounded-full bg-muted">
+                        <div
+                            className="h-2 rounded-full bg-primary"
+                            style={{ width: max > 0 ? `${(datum.value / max) * 100}%` : 0 }}
+                        />
+                    </div>
+                    {datum.detail && <p className="text-xs text-muted-foreground">{datum.detail}</p>}
+                </li>
+            ))}
+        </ul>
+    );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+/**
+ * A single column in the chart
+ */
+export interface ColumnChartDatum {
+    label: string;
+    value: number;
+}
+
+interface ColumnChartProps {
+    data: ColumnChartDatum[];
+    /** Formats values for tooltips and the axis maximum */
+    formatValue?: (value: number) => string;
+    /** Chart height in pixels */
+    height?: number;
+    className?: string;
+}
+
+/**
+ * Vertical column chart for time series, drawn with plain elements
+ *
+ * Columns share the available width and are scaled against the largest value.
+ * Labels are thinned out so that at most about a dozen are shown.
+ */
+export const ColumnChart: React.FC<ColumnChartProps> = ({
+    data,
+    formatValue = (value) => value.toLocaleString(),
+    height = 200,
+    className,
+}) => {
+    if (data.length === 0) {
+        return (
+            <div className={cn('flex items-center justify-center text-sm text-muted-foreground', className)} style={{ height }}>
+                No data for this period
+            </div>
+        );
+    }
+
+    const max = Math.max(...data.map(datum => datum.value), 0);
+    const labelEvery = Math.ceil(data.length / 12);
+
+    return (
+        <div className={cn('space-y-2', className)}>
+            <p className="text-xs text-muted-foreground">Max {formatValue(max)}</p>
+            <div className="flex items-end gap-1 border-b border-l pl-1" style={{ height }}>
+                {data.map((datum) => (
+                    <div
+                        key={datum.label}
+                        title={`${datum.label}: ${formatValue(datum.value)}`}
+                        className="flex-1 rounded-t bg-primary/80 transition-colors hover:bg-primary"
+                        style={{ height: max > 0 ? `${(datum.value / max) * 100}%` : 0 }}
+                    />
+                ))}
+            </div>
+            <div className="flex gap-1 pl-1">
+                {data.map((datum, index) => (
+                    <span key={datum.label} className="flex-1 truncate text-center text-[10px] text-muted-foreground">
+                        {index % labelEvery === 0 ? datum.label : ''}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
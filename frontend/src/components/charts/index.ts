@@ -0,0 +1,4 @@
+export { ColumnChart } from './ColumnChart';
+export { BarList } from './BarList';
+export type { ColumnChartDatum } from './ColumnChart';
+export type { BarListDatum } from './BarList';
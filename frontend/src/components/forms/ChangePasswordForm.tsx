@@ -0,0 +1,128 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useAuthStore } from '@/store/authStore';
+import { changePasswordSchema, type ChangePasswordFormData } from '@/schemas';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+
+/**
+ * ChangePasswordForm component props interface
+ */
+interface ChangePasswordFormProps {
+    /** Optional callback function called after the password has been changed */
+    onSuccess?: () => void;
+    /** Optional CSS class name for styling the form container */
+    className?: string;
+}
+
+const FIELDS: { name: keyof ChangePasswordFormData; label: string; placeholder: string }[] = [
+    { name: 'currentPassword', label: 'Current Password', placeholder: 'Enter your current or temporary password' },
+    { name: 'newPassword', label: 'New Password', placeholder: 'Choose a new password' },
+    { name: 'confirmPassword', label: 'Confirm New Password', placeholder: 'Re-enter your new password' },
+];
+
+/**
+ * ChangePasswordForm component for updating the signed-in user's password
+ *
+ * Also used to complete an admin-forced reset: the temporary password goes in
+ * the current password field.
+ *
+ * @param props - ChangePasswordForm component props
+ * @param props.onSuccess - Optional callback executed after a successful change
+ * @param props.className - Optional CSS class for form container styling
+ */
+export const ChangePasswordForm: React.FC<ChangePasswordFormProps> = ({
+    onSuccess,
+    className = ''
+}) => {
+    const { user, changePassword, error, clearError } = useAuthStore();
+
+    const {
+        register,
+        handleSubmit,
+        formState: { errors, isSubmitting },
+        reset,
+    } = useForm<ChangePasswordFormData>({
+        resolver: zodResolver(changePasswordSchema),
+        mode: 'onBlur',
+    });
+
+    /**
+     * Handles form submission for the password change
+     *
+     * @param data - Validated form data containing the current and new passwords
+     */
+    const onSubmit = async (data: ChangePasswordFormData) => {
+        try {
+            clearError();
+            await changePassword(data.currentPassword, data.newPassword);
+            reset();
+            onSuccess?.();
+        } catch (error: any) {
+            // Error handling is done in the auth store
+            console.error('Change password error:', error);
+        }
+    };
+
+    return (
+        <Card className={`w-full max-w-md mx-auto safe-area-inset ${className}`}>
+            <CardHeader className="space-y-1 p-4 xs:p-6">
+                <CardTitle className="text-responsive-xl font-bold text-center">
+                    {user?.passwordResetRequired ? 'Choose a New Password' : 'Change Password'}
+                </CardTitle>
+                <CardDescription className="text-center text-responsive-sm">
+                    {user?.passwordResetRequired
+                        ? 'An administrator reset your password. Enter the temporary password you were given, then choose a new one.'
+                        : 'Enter your current password and choose a new one'}
+                </CardDescription>
+            </CardHeader>
+
+            <form onSubmit={handleSubmit(onSubmit)}>
+                <CardContent className="space-y-3 p-4 xs:space-y-4 xs:p-6">
+                    {FIELDS.map(({ name, label, placeholder }) => (
+                        <div key={name} className="space-y-2">
+                            <label
+                                htmlFor={name}
+                                className="text-responsive-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                            >
+                                {label}
+                            </label>
+                            <Input
+                                id={name}
+                                type="password"
+                                placeholder={placeholder}
+                                {...register(name)}
+                                className={`h-10 xs:h-11 ${errors[name] ? 'border-red-500 focus-visible:ring-red-500' : ''}`}
+                                disabled={isSubmitting}
+                            />
+                            {errors[name] && (
+                                <p className="text-responsive-xs text-red-500 mt-1">
+                                    {errors[name]?.message}
+                                </p>
+                            )}
+                        </div>
+                    ))}
+
+                    {/* Display auth store error if present */}
+                    {error && (
+                        <div className="p-3 text-sm text-red-500 bg-red-50 border border-red-200 rounded-md">
+                            {error}
+                        </div>
+                    )}
+                </CardContent>
+
+                <CardFooter className="flex flex-col space-y-3 p-4 xs:space-y-4 xs:p-6">
+                    <Button
+                        type="submit"
+                        className="touch-target w-full h-10 xs:h-11"
+                        disabled={isSubmitting}
+                    >
+                        {isSubmitting ? 'Saving...' : 'Change Password'}
+                    </Button>
+                </CardFooter>
+            </form>
+        </Card>
+    );
+};
@@ -1,7 +1,7 @@
 import React from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
 import { useAuthStore } from '@/store/authStore';
 import { loginSchema, type LoginFormData } from '@/schemas';
 import { Button } from '@/components/ui/button';
@@ -54,6 +54,7 @@ export const LoginForm: React.FC<LoginFormProps> = ({
     className = ''
 }) => {
     const navigate = useNavigate();
+    const location = useLocation();
     const { login, isLoading, error, clearError } = useAuthStore();
     const { toast } = useToast();
 
@@ -86,8 +87,8 @@ export const LoginForm: React.FC<LoginFormProps> = ({
             // Execute success callback if provided
             onSuccess?.();
 
-            // Navigate to dashboard
-            navigate('/dashboard');
+            // Return to the page that asked for a login, or go to the dashboard
+            navigate(location.state?.from ?? '/dashboard');
         } catch (error: any) {
             // Error handling is now done in the auth store
             console.error('Login error:', error);
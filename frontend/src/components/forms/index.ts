@@ -7,6 +7,7 @@
 
 export { LoginForm } from './LoginForm';
 export { RegisterForm } from './RegisterForm';
+export { ChangePasswordForm } from './ChangePasswordForm';
 
 // Re-export types for convenience
-export type { LoginFormData, RegisterFormData } from '@/schemas';
\ No newline at end of file
+export type { LoginFormData, RegisterFormData, ChangePasswordFormData } from '@/schemas';
\ No newline at end of file
@@ -18,6 +18,7 @@ interface AuthGuardProps {
  * - Loading state while checking authentication
  * - Redirect to login with return URL preservation
  * - Session validation with backend
+ * - Redirect to the change password page while an admin-forced reset is pending
  * 
  * @param children - The protected content to render for authenticated users
  * 
@@ -29,7 +30,7 @@ interface AuthGuardProps {
  * ```
  */
 export const AuthGuard: React.FC<AuthGuardProps> = ({ children }) => {
-    const { isAuthenticated, isLoading, checkAuth } = useAuthStore();
+    const { isAuthenticated, isLoading, checkAuth, user } = useAuthStore();
     const location = useLocation();
 
     useEffect(() => {
@@ -62,6 +63,11 @@ export const AuthGuard: React.FC<AuthGuardProps> = ({ children }) => {
         );
     }
 
+    // The API rejects everything but a password change until the reset is done
+    if (user?.passwordResetRequired && location.pathname !== '/change-password') {
+        return <Navigate to="/change-password" replace />;
+    }
+
     // Render protected content for authenticated users
     return <>{children}</>;
 };
\ No newline at end of file
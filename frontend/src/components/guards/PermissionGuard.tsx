@@ -1,45 +1,51 @@
 import React from 'react';
-import { Navigate } from 'react-router-dom';
 import { useAuthStore } from '@/store/authStore';
+import { usePermission } from '@/hooks/use-permission';
 import { AuthGuard } from './AuthGuard';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { ROLE_LABELS } from '@/constants';
+import type { Permission } from '@/types';
 
-interface AdminGuardProps {
+interface PermissionGuardProps {
+    /** Permission the signed-in user's role must grant */
+    permission: Permission;
     children: React.ReactNode;
 }
 
 /**
- * AdminGuard component for protecting admin-only routes
+ * PermissionGuard component for protecting staff routes
  * 
- * This component ensures that only users with admin privileges can access admin routes.
- * It first checks authentication (via AuthGuard) and then verifies admin role.
+ * This component ensures that only users whose role grants the given permission
+ * can access a route. It first checks authentication (via AuthGuard) and then
+ * verifies the permission.
  * 
  * Features:
  * - Inherits authentication protection from AuthGuard
- * - Admin role verification
- * - User-friendly access denied message for non-admin users
- * - Automatic redirect to dashboard for unauthorized access
+ * - Permission verification against the user's role
+ * - User-friendly access denied message naming the current role
  * 
- * @param children - The admin-only content to render for authorized users
+ * @param permission - The permission required to view the content
+ * @param children - The protected content to render for authorized users
  * 
  * @example
  * ```tsx
- * <AdminGuard>
- *   <AdminPanel />
- * </AdminGuard>
+ * <PermissionGuard permission="analytics:view">
+ *   <AnalyticsPage />
+ * </PermissionGuard>
  * ```
  */
-export const AdminGuard: React.FC<AdminGuardProps> = ({ children }) => {
-    let { isAdmin, user } = useAuthStore();
-    isAdmin = user?.role === 'ADMIN';
+export const PermissionGuard: React.FC<PermissionGuardProps> = ({ permission, children }) => {
+    const { user } = useAuthStore();
+    const isAllowed = usePermission(permission);
+
     return (
         <AuthGuard>
-            {isAdmin ? (
-                // Render admin content for users with admin role
+            {isAllowed ? (
+                // Render protected content for users holding the permission
                 <>{children}</>
             ) : (
-                // Show access denied message for non-admin users
+                // Show access denied message for everyone else
                 <div className="min-h-[60vh] flex items-center justify-center px-4">
                     <Card className="w-full max-w-md text-center">
                         <CardHeader>
@@ -50,10 +56,10 @@ export const AdminGuard: React.FC<AdminGuardProps> = ({ children }) => {
                         <CardContent className="space-y-4">
                             <p className="text-muted-foreground">
                                 You don't have permission to access this page.
-                                Admin privileges are required.
+                                Ask an administrator if you need access.
                             </p>
                             <p className="text-sm text-muted-foreground">
-                                Current role: <span className="font-medium">{user?.role || 'USER'}</span>
+                                Current role: <span className="font-medium">{user ? ROLE_LABELS[user.role] : ROLE_LABELS.CUSTOMER}</span>
                             </p>
                             <Button
                                 onClick={() => window.history.back()}
@@ -68,4 +74,4 @@ export const AdminGuard: React.FC<AdminGuardProps> = ({ children }) => {
             )}
         </AuthGuard>
     );
-};
\ No newline at end of file
+};
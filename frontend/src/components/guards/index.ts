@@ -4,4 +4,4 @@
  */
 
 export { AuthGuard } from './AuthGuard';
-export { AdminGuard } from './AdminGuard';
\ No newline at end of file
+export { PermissionGuard } from './PermissionGuard';
\ No newline at end of file
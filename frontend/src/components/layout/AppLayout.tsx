@@ -4,12 +4,14 @@ import { Header } from "./Header";
 import { Footer } from "./Footer";
 import { Sidebar, SidebarBody, SidebarLink } from "@/components/ui/sidebar";
 import { useAuthStore } from "@/store/authStore";
+import { hasPermission } from "@/hooks/use-permission";
 import { cn } from "@/lib/utils";
 import {
 	IconDashboard,
 	IconCandy,
 	IconUser,
 	IconUserCog,
+	IconReceipt,
 } from "@tabler/icons-react";
 
 interface AppLayoutProps {
@@ -75,9 +77,14 @@ const AppLayout: React.FC<AppLayoutProps> = ({
 				href: "/sweets",
 				icon: <IconCandy className='h-5 w-5' />,
 			},
+			{
+				label: "My Orders",
+				href: "/orders",
+				icon: <IconReceipt className='h-5 w-5' />,
+			},
 		];
 
-		if (user?.role === "ADMIN") {
+		if (hasPermission(user, "sweet:update")) {
 			baseLinks.push(
 				{
 					label: "Admin Panel",
@@ -88,7 +95,7 @@ const AppLayout: React.FC<AppLayoutProps> = ({
 		}
 
 		return baseLinks;
-	}, [user?.role]);
+	}, [user]);
 
 	const toggleSidebar = () => setIsSidebarOpen((prev) => !prev);
 
@@ -137,7 +144,7 @@ const AppLayout: React.FC<AppLayoutProps> = ({
 											href: "/profile",
 											icon: (
 												<div className="flex h-8 w-8 items-center justify-center rounded-full border border-white/40 bg-gradient-to-br from-primary/20 to-sky-500/20 shadow-sm">
-													{user?.role === 'ADMIN' ? (
+													{user && user.role !== 'CUSTOMER' ? (
 														<IconUserCog className="h-4 w-4 text-primary" />
 													) : (
 														<IconUser className="h-4 w-4 text-primary" />
@@ -2,13 +2,24 @@ import * as React from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { useAuthStore } from "@/store/authStore";
+import { usePermission } from "@/hooks/use-permission";
+import { useCartStore } from "@/store/cartStore";
+import { useAlertStore } from "@/store/alertStore";
+import { CartDrawer } from "@/components/cart";
+import { AlertsPanel } from "@/components/alerts";
+import { ROLE_LABELS } from "@/constants";
 import {
 	IconMenu2,
 	IconLogout,
 	IconUser,
 	IconUserCog,
+	IconShoppingCart,
+	IconBell,
 } from "@tabler/icons-react";
 
+/** How often admins' alert badge is refreshed */
+const ALERT_POLL_INTERVAL_MS = 60_000;
+
 interface HeaderProps {
 	onToggleSidebar?: () => void;
 	isSidebarOpen?: boolean;
@@ -19,10 +30,34 @@ const Header: React.FC<HeaderProps> = ({
 	isSidebarOpen,
 }) => {
 	const { user, isAuthenticated, logout } = useAuthStore();
+	const { items: cartItems, fetchCart, setOpen: setCartOpen, reset: resetCart } = useCartStore();
+	const { unacknowledged, fetchAlerts, setOpen: setAlertsOpen, reset: resetAlerts } = useAlertStore();
 	const navigate = useNavigate();
+	// Catalogue managers get editing tools on sweets instead of a cart
+	const canShop = isAuthenticated && !usePermission("sweet:update");
+	const canSeeAlerts = usePermission("alert:manage");
+	const cartCount = cartItems.reduce((sum, item) => sum + item.quantity, 0);
+
+	// Load the cart once so the badge count is accurate
+	React.useEffect(() => {
+		if (canShop) {
+			fetchCart();
+		}
+	}, [canShop, fetchCart]);
+
+	// Keep the alert badge current while someone who handles alerts is signed in
+	React.useEffect(() => {
+		if (!canSeeAlerts) return;
+
+		fetchAlerts();
+		const intervalId = setInterval(fetchAlerts, ALERT_POLL_INTERVAL_MS);
+		return () => clearInterval(intervalId);
+	}, [canSeeAlerts, fetchAlerts]);
 
 	const handleLogout = async () => {
 		try {
+			resetCart();
+			resetAlerts();
 			await logout();
 			navigate("/login");
 		} catch (error) {
@@ -70,7 +105,7 @@ const Header: React.FC<HeaderProps> = ({
 					<div className="flex items-center gap-1 xs:gap-2 sm:gap-3 ml-auto">
 						<div className="hidden items-center gap-2 rounded-full border border-white/40 bg-white/60 px-2 py-1.5 shadow-sm shadow-white/40 sm:px-3 sm:py-2 lg:flex">
 							<div className="flex h-6 w-6 items-center justify-center rounded-full border border-white/60 bg-gradient-to-br from-primary/20 to-sky-500/20 shadow-sm shadow-white/40 sm:h-7 sm:w-7 lg:h-8 lg:w-8">
-								{user?.role === 'ADMIN' ? (
+								{user && user.role !== "CUSTOMER" ? (
 									<IconUserCog className="h-3 w-3 text-primary sm:h-3.5 sm:w-3.5 lg:h-4 lg:w-4" />
 								) : (
 									<IconUser className="h-3 w-3 text-primary sm:h-3.5 sm:w-3.5 lg:h-4 lg:w-4" />
@@ -82,12 +117,46 @@ const Header: React.FC<HeaderProps> = ({
 								</span>
 								{user?.role && (
 									<span className="text-[10px] uppercase tracking-[0.2em] text-primary sm:text-[11px]">
-										{user.role.toLowerCase()}
+										{ROLE_LABELS[user.role]}
 									</span>
 								)}
 							</div>
 						</div>
 
+						{canShop && (
+							<Button
+								variant="ghost"
+								size="icon"
+								onClick={() => setCartOpen(true)}
+								className="touch-target relative h-9 w-9 rounded-2xl border border-white/40 bg-white/70 text-primary shadow-sm shadow-white/40 transition hover:-translate-y-[1px] hover:bg-white xs:h-10 xs:w-10 sm:h-11 sm:w-11"
+								aria-label={`Open cart (${cartCount} items)`}
+							>
+								<IconShoppingCart className="h-4 w-4 xs:h-5 xs:w-5" />
+								{cartCount > 0 && (
+									<span className="absolute -right-1 -top-1 flex h-5 min-w-[1.25rem] items-center justify-center rounded-full bg-primary px-1 text-[10px] font-semibold text-white">
+										{cartCount}
+									</span>
+								)}
+							</Button>
+						)}
+
+						{canSeeAlerts && (
+							<Button
+								variant="ghost"
+								size="icon"
+								onClick={() => setAlertsOpen(true)}
+								className="touch-target relative h-9 w-9 rounded-2xl border border-white/40 bg-white/70 text-primary shadow-sm shadow-white/40 transition hover:-translate-y-[1px] hover:bg-white xs:h-10 xs:w-10 sm:h-11 sm:w-11"
+								aria-label={`Open low stock alerts (${unacknowledged} new)`}
+							>
+								<IconBell className="h-4 w-4 xs:h-5 xs:w-5" />
+								{unacknowledged > 0 && (
+									<span className="absolute -right-1 -top-1 flex h-5 min-w-[1.25rem] items-center justify-center rounded-full bg-orange-500 px-1 text-[10px] font-semibold text-white">
+										{unacknowledged}
+									</span>
+								)}
+							</Button>
+						)}
+
 						<Button
 							variant="ghost"
 							size="icon"
@@ -120,6 +189,8 @@ const Header: React.FC<HeaderProps> = ({
 					</div>
 				)}
 			</div>
+			{canShop && <CartDrawer />}
+			{canSeeAlerts && <AlertsPanel />}
 		</header>
 	);
 };
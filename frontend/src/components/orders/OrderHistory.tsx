@@ -0,0 +1,365 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { orderAPI } from '@/services/api';
+import { useCartStore } from '@/store/cartStore';
+import { showErrorToast, getErrorMessage } from '@/utils/errorHandling';
+import { formatMoney } from '@/utils/money';
+import { formatTaxRate } from '@/utils/tax';
+import {
+    IconReceipt,
+    IconFileTypePdf,
+    IconExternalLink,
+    IconChevronDown,
+    IconChevronUp,
+    IconShoppingCartPlus,
+    IconAlertTriangle,
+} from '@tabler/icons-react';
+import type { Order, OrderListResponse, OrderQueryParams, OrderStatus, ReorderShortfall } from '@/types';
+
+const STATUS_FILTERS: { label: string; value?: OrderStatus }[] = [
+    { label: 'All orders' },
+    { label: 'Completed', value: 'COMPLETED' },
+    { label: 'Cancelled', value: 'CANCELLED' },
+];
+
+/**
+ * Invoice number as printed on the invoice, less the shop's prefix
+ */
+const formatInvoiceNumber = (order: Order) => `#${String(order.invoiceNumber).padStart(6, '0')}`;
+
+/**
+ * Turn a date input's value into an inclusive bound at the start or end of that local day
+ */
+const toDayBound = (day: string, end: boolean) =>
+    day ? new Date(`${day}T${end ? '23:59:59.999' : '00:00:00'}`).toISOString() : undefined;
+
+/**
+ * Explain why a line of an order could not be put back in the cart in full
+ */
+const describeShortfall = (shortfall: ReorderShortfall) => {
+    if (shortfall.reason === 'SWEET_UNAVAILABLE') {
+        return `${shortfall.sweetName} is no longer sold`;
+    }
+    return shortfall.added > 0
+        ? `${shortfall.sweetName}: only ${shortfall.added} of ${shortfall.requested} added, the rest is out of stock`
+        : `${shortfall.sweetName} is out of stock`;
+};
+
+interface OrderHistoryProps {
+    /** Orders per page */
+    limit?: number;
+    /** Show the status and date filters and page controls */
+    showFilters?: boolean;
+}
+
+/**
+ * Order history component
+ * Lists the signed-in user's orders, newest first
+ *
+ * Features:
+ * - Filter by status and by an inclusive date range
+ * - Expand an order to see its lines, discounts and GST
+ * - Open the invoice in a new tab or download it as a PDF
+ * - Reorder in one click, reporting lines current stock cannot cover
+ */
+export const OrderHistory: React.FC<OrderHistoryProps> = ({ limit = 10, showFilters = true }) => {
+    const reorder = useCartStore((state) => state.reorder);
+    const [result, setResult] = useState<OrderListResponse | null>(null);
+    const [query, setQuery] = useState<OrderQueryParams>({ page: 1, limit });
+    const [fromDay, setFromDay] = useState('');
+    const [toDay, setToDay] = useState('');
+    const [isLoading, setIsLoading] = useState(true);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [pendingId, setPendingId] = useState<string | null>(null);
+    const [shortfalls, setShortfalls] = useState<Record<string, ReorderShortfall[]>>({});
+
+    const fetchOrders = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setResult(await orderAPI.list(query));
+        } catch (error) {
+            showErrorToast('Could not load orders', getErrorMessage(error));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [query]);
+
+    useEffect(() => {
+        fetchOrders();
+    }, [fetchOrders]);
+
+    /**
+     * Merge filter changes into the query, returning to the first page
+     */
+    const updateQuery = (changes: Partial<OrderQueryParams>) => {
+        setQuery((current) => ({ ...current, page: 1, ...changes }));
+    };
+
+    /**
+     * Filter by the chosen days; a range that ends before it starts is held back until corrected
+     */
+    const applyDates = (from: string, to: string) => {
+        setFromDay(from);
+        setToDay(to);
+        if (from && to && from > to) return;
+        updateQuery({ from: toDayBound(from, false), to: toDayBound(to, true) });
+    };
+
+    /**
+     * Open the HTML invoice in a new tab. The tab is opened before the request
+     * so popup blockers treat it as part of the click.
+     */
+    const handleViewInvoice = async (order: Order) => {
+        const tab = window.open('', '_blank');
+        setPendingId(order.id);
+        try {
+            const blob = await orderAPI.invoice(order.id, 'html');
+            const url = URL.createObjectURL(blob);
+            if (tab) {
+                tab.location.href = url;
+            }
+            // Give the tab time to load before releasing the file
+            setTimeout(() => URL.revokeObjectURL(url), 60_000);
+        } catch (error) {
+            tab?.close();
+            showErrorToast('Could not open invoice', getErrorMessage(error));
+        } finally {
+            setPendingId(null);
+        }
+    };
+
+    /**
+     * Download the invoice as a PDF file
+     */
+    const handleDownloadPdf = async (order: Order) => {
+        setPendingId(order.id);
+        try {
+            const blob = await orderAPI.invoice(order.id, 'pdf');
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `invoice-${String(order.invoiceNumber).padStart(6, '0')}.pdf`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            showErrorToast('Download failed', getErrorMessage(error));
+        } finally {
+            setPendingId(null);
+        }
+    };
+
+    /**
+     * Put the order's sweets back in the cart and keep note of what was short
+     */
+    const handleReorder = async (order: Order) => {
+        setPendingId(order.id);
+        try {
+            const { shortfalls: missing } = await reorder(order.id);
+            setShortfalls((current) => ({ ...current, [order.id]: missing }));
+        } catch {
+            // Store already reported the error
+        } finally {
+            setPendingId(null);
+        }
+    };
+
+    const orders = result?.orders ?? [];
+    const page = result?.pagination.page ?? 1;
+    const totalPages = result?.pagination.totalPages ?? 1;
+    const isFiltered = Boolean(query.status || query.from || query.to);
+
+    return (
+        <div className="space-y-4">
+            {showFilters && (
+                <Card>
+                    <CardContent className="space-y-3 pt-6">
+                        <div className="flex flex-wrap gap-2">
+                            {STATUS_FILTERS.map(({ label, value }) => (
+                                <Button
+                                    key={label}
+                                    size="sm"
+                                    variant={query.status === value ? 'default' : 'outline'}
+                                    onClick={() => updateQuery({ status: value })}
+                                >
+                                    {label}
+                                </Button>
+                            ))}
+                        </div>
+                        <div className="flex flex-col gap-2 xs:flex-row xs:items-center">
+                            <label className="flex items-center gap-2 text-responsive-xs text-muted-foreground">
+                                From
+                                <Input type="date" value={fromDay} max={toDay || undefined} onChange={(e) => applyDates(e.target.value, toDay)} className="h-9" />
+                            </label>
+                            <label className="flex items-center gap-2 text-responsive-xs text-muted-foreground">
+                                To
+                                <Input type="date" value={toDay} min={fromDay || undefined} onChange={(e) => applyDates(fromDay, e.target.value)} className="h-9" />
+                            </label>
+                            {(fromDay || toDay) && (
+                                <Button size="sm" variant="ghost" onClick={() => applyDates('', '')}>
+                                    Clear dates
+                                </Button>
+                            )}
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            {orders.length === 0 ? (
+                <Card>
+                    <CardContent className="py-10 text-center text-responsive-sm text-muted-foreground">
+                        {isLoading ? 'Loading orders...' : isFiltered ? 'No orders match these filters.' : 'You have not bought anything yet.'}
+                    </CardContent>
+                </Card>
+            ) : (
+                <Card>
+                    <CardContent className="p-0">
+                        <ul className="divide-y">
+                            {orders.map(order => {
+                                const units = order.lines.reduce((sum, line) => sum + line.quantity, 0);
+                                const isExpanded = expandedId === order.id;
+                                const isPending = pendingId === order.id;
+                                const missing = shortfalls[order.id] ?? [];
+                                return (
+                                    <li key={order.id} className="p-4 space-y-3">
+                                        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                                            <button
+                                                type="button"
+                                                onClick={() => setExpandedId(isExpanded ? null : order.id)}
+                                                aria-expanded={isExpanded}
+                                                className="min-w-0 space-y-1 text-left"
+                                            >
+                                                <div className="flex flex-wrap items-center gap-2">
+                                                    <IconReceipt className="h-4 w-4 text-primary" />
+                                                    <span className="text-responsive-sm font-semibold">Invoice {formatInvoiceNumber(order)}</span>
+                                                    {order.status === 'CANCELLED' && <Badge variant="secondary" className="text-xs">Cancelled</Badge>}
+                                                    {isExpanded ? <IconChevronUp className="h-4 w-4" /> : <IconChevronDown className="h-4 w-4" />}
+                                                </div>
+                                                <p className="text-responsive-xs text-muted-foreground">
+                                                    {new Date(order.createdAt).toLocaleString()} • {units} item{units === 1 ? '' : 's'}
+                                                </p>
+                                            </button>
+                                            <div className="flex flex-col gap-2 sm:items-end">
+                                                <div className="text-right">
+                                                    <p className="text-responsive-sm font-bold">{formatMoney(order.total, order.currency)}</p>
+                                                    <p className="text-xs text-muted-foreground">
+                                                        incl. {formatMoney(order.tax, order.currency)} GST
+                                                        {order.discount > 0 && ` • saved ${formatMoney(order.discount, order.currency)}`}
+                                                    </p>
+                                                </div>
+                                                <div className="flex flex-wrap gap-2">
+                                                    <Button size="sm" onClick={() => handleReorder(order)} disabled={isPending}>
+                                                        <IconShoppingCartPlus className="h-4 w-4 mr-1" />
+                                                        Reorder
+                                                    </Button>
+                                                    <Button size="sm" variant="outline" onClick={() => handleViewInvoice(order)} disabled={isPending}>
+                                                        <IconExternalLink className="h-4 w-4 mr-1" />
+                                                        View
+                                                    </Button>
+                                                    <Button size="sm" variant="outline" onClick={() => handleDownloadPdf(order)} disabled={isPending}>
+                                                        <IconFileTypePdf className="h-4 w-4 mr-1" />
+                                                        PDF
+                                                    </Button>
+                                                </div>
+                                            </div>
+                                        </div>
+
+                                        {missing.length > 0 && (
+                                            <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-responsive-xs text-amber-900">
+                                                <p className="flex items-center gap-2 font-medium">
+                                                    <IconAlertTriangle className="h-4 w-4" />
+                                                    Some items could not be added to your cart
+                                                </p>
+                                                <ul className="mt-1 list-disc pl-6">
+                                                    {missing.map((shortfall, i) => (
+                                                        <li key={`${shortfall.sweetId ?? shortfall.sweetName}-${i}`}>{describeShortfall(shortfall)}</li>
+                                                    ))}
+                                                </ul>
+                                            </div>
+                                        )}
+
+                                        {isExpanded && (
+                                            <div className="overflow-x-auto">
+                                                <table className="w-full text-responsive-xs">
+                                                    <thead className="text-muted-foreground">
+                                                        <tr className="border-b">
+                                                            <th className="py-2 text-left font-medium">Item</th>
+                                                            <th className="py-2 text-right font-medium">Qty</th>
+                                                            <th className="py-2 text-right font-medium">Price</th>
+                                                            <th className="py-2 text-right font-medium">GST</th>
+                                                            <th className="py-2 text-right font-medium">Amount</th>
+                                                        </tr>
+                                                    </thead>
+                                                    <tbody>
+                                                        {order.lines.map(line => (
+                                                            <tr key={line.id} className="border-b last:border-0">
+                                                                <td className="py-2">
+                                                                    {line.sweetName}
+                                                                    {line.discount > 0 && (
+                                                                        <span className="block text-muted-foreground">
+                                                                            −{formatMoney(line.discount, order.currency)} discount
+                                                                        </span>
+                                                                    )}
+                                                                </td>
+                                                                <td className="py-2 text-right">{line.quantity}</td>
+                                                                <td className="py-2 text-right">{formatMoney(line.unitPrice, order.currency)}</td>
+                                                                <td className="py-2 text-right">{formatTaxRate(line.taxRate)}</td>
+                                                                <td className="py-2 text-right">{formatMoney(line.lineTotal, order.currency)}</td>
+                                                            </tr>
+                                                        ))}
+                                                    </tbody>
+                                                </table>
+                                                <dl className="mt-3 ml-auto grid max-w-xs grid-cols-2 gap-1 text-responsive-xs">
+                                                    <dt className="text-muted-foreground">Subtotal</dt>
+                                                    <dd className="text-right">{formatMoney(order.total + order.discount, order.currency)}</dd>
+                                                    {order.redemptions.map(redemption => (
+                                                        <React.Fragment key={`${redemption.promotionId ?? redemption.promotionName}`}>
+                                                            <dt className="text-muted-foreground">
+                                                                {redemption.promotionName}{redemption.code && ` (${redemption.code})`}
+                                                            </dt>
+                                                            <dd className="text-right">−{formatMoney(redemption.discount, order.currency)}</dd>
+                                                        </React.Fragment>
+                                                    ))}
+                                                    <dt className="text-muted-foreground">GST included</dt>
+                                                    <dd className="text-right">{formatMoney(order.tax, order.currency)}</dd>
+                                                    <dt className="font-semibold">Total</dt>
+                                                    <dd className="text-right font-semibold">{formatMoney(order.total, order.currency)}</dd>
+                                                </dl>
+                                            </div>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </CardContent>
+                </Card>
+            )}
+
+            {showFilters && totalPages > 1 && (
+                <div className="flex items-center justify-between gap-2">
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={page <= 1 || isLoading}
+                        onClick={() => setQuery((current) => ({ ...current, page: page - 1 }))}
+                    >
+                        Previous
+                    </Button>
+                    <span className="text-responsive-xs text-muted-foreground">
+                        Page {page} of {totalPages}
+                    </span>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={page >= totalPages || isLoading}
+                        onClick={() => setQuery((current) => ({ ...current, page: page + 1 }))}
+                    >
+                        Next
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1 @@
+export { OrderHistory } from './OrderHistory';
@@ -0,0 +1,144 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { sweetAPI } from '@/services/api';
+import { useSweetStore } from '@/store/sweetStore';
+import { showErrorToast, showSuccessToast, getErrorMessage } from '@/utils/errorHandling';
+import { IconArchive, IconRestore } from '@tabler/icons-react';
+import type { PaginatedResponse, Sweet } from '@/types';
+
+/** Number of archived sweets requested per page */
+const PAGE_SIZE = 20;
+
+/**
+ * ArchivedSweets component listing sweets an admin has archived
+ *
+ * Archived sweets are hidden from the catalogue but keep their stock and
+ * order history. Restoring one puts it back on sale and refreshes the
+ * inventory list.
+ */
+export const ArchivedSweets: React.FC = () => {
+    const { fetchSweets } = useSweetStore();
+    const [sweets, setSweets] = useState<Sweet[]>([]);
+    const [pagination, setPagination] = useState<PaginatedResponse<Sweet>['pagination'] | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const [restoringId, setRestoringId] = useState<string | null>(null);
+
+    /**
+     * Load the first page of archived sweets
+     */
+    const loadArchived = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const page = await sweetAPI.getArchived({ sortBy: 'name', order: 'asc', limit: PAGE_SIZE });
+            setSweets(page.data);
+            setPagination(page.pagination);
+        } catch (error) {
+            showErrorToast('Failed to load archived sweets', getErrorMessage(error));
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadArchived();
+    }, [loadArchived]);
+
+    /**
+     * Append the next page of archived sweets
+     */
+    const handleLoadMore = async () => {
+        if (!pagination?.nextCursor) return;
+
+        setIsLoadingMore(true);
+        try {
+            const page = await sweetAPI.getArchived({
+                sortBy: 'name',
+                order: 'asc',
+                limit: PAGE_SIZE,
+                cursor: pagination.nextCursor,
+            });
+            setSweets(prev => [...prev, ...page.data]);
+            setPagination(page.pagination);
+        } catch (error) {
+            showErrorToast('Failed to load more archived sweets', getErrorMessage(error));
+        } finally {
+            setIsLoadingMore(false);
+        }
+    };
+
+    /**
+     * Return a sweet to the catalogue
+     */
+    const handleRestore = async (sweet: Sweet) => {
+        setRestoringId(sweet.id);
+        try {
+            await sweetAPI.restore(sweet.id);
+            setSweets(prev => prev.filter(archived => archived.id !== sweet.id));
+            setPagination(prev => prev && { ...prev, total: prev.total - 1 });
+            showSuccessToast('Sweet Restored', `${sweet.name} is back in the catalogue.`);
+            fetchSweets().catch(() => undefined);
+        } catch (error) {
+            showErrorToast('Failed to restore sweet', getErrorMessage(error));
+        } finally {
+            setRestoringId(null);
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div className="text-center py-8">
+                <p className="text-muted-foreground">Loading archived sweets...</p>
+            </div>
+        );
+    }
+
+    if (sweets.length === 0) {
+        return (
+            <div className="text-center py-8">
+                <IconArchive className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                <p className="text-muted-foreground mb-2">No archived sweets</p>
+                <p className="text-sm text-muted-foreground">Archived sweets appear here and can be restored at any time.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            {sweets.map((sweet) => (
+                <div
+                    key={sweet.id}
+                    className="flex flex-col gap-3 p-3 border rounded-lg hover:bg-muted/50 transition-colors xs:flex-row xs:items-center xs:justify-between xs:p-4"
+                >
+                    <div className="flex-1">
+                        <h4 className="font-medium text-responsive-sm">{sweet.name}</h4>
+                        <p className="text-responsive-xs text-muted-foreground">
+                            {sweet.category.name} • {sweet.quantity} in stock
+                            {sweet.deletedAt && ` • Archived ${new Date(sweet.deletedAt).toLocaleDateString()}`}
+                        </p>
+                    </div>
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRestore(sweet)}
+                        disabled={restoringId === sweet.id}
+                        className="touch-target xs:ml-4"
+                    >
+                        <IconRestore className="h-4 w-4 mr-2" />
+                        {restoringId === sweet.id ? 'Restoring...' : 'Restore'}
+                    </Button>
+                </div>
+            ))}
+            {pagination?.nextCursor && (
+                <Button
+                    variant="outline"
+                    onClick={handleLoadMore}
+                    disabled={isLoadingMore}
+                    className="touch-target w-full"
+                >
+                    {isLoadingMore ? 'Loading...' : `Load more (${sweets.length} of ${pagination.total})`}
+                </Button>
+            )}
+        </div>
+    );
+};
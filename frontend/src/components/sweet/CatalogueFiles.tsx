@@ -0,0 +1,294 @@
+import React, { useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { sweetAPI } from '@/services/api';
+import { useSweetStore } from '@/store/sweetStore';
+import { usePermission } from '@/hooks/use-permission';
+import { showErrorToast, showSuccessToast, getErrorMessage } from '@/utils/errorHandling';
+import { IconDownload, IconFileImport, IconUpload } from '@tabler/icons-react';
+import type { CatalogueFileFormat, ImportReport, ImportRowAction } from '@/types';
+
+const actionBadges: Record<ImportRowAction, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+    create: { label: 'New', variant: 'default' },
+    update: { label: 'Update', variant: 'secondary' },
+    unchanged: { label: 'Unchanged', variant: 'outline' },
+    invalid: { label: 'Invalid', variant: 'destructive' },
+};
+
+/**
+ * Format a changed value for the preview table
+ */
+const formatValue = (value: unknown) => (value === undefined || value === null ? '—' : String(value));
+
+/**
+ * CatalogueFiles component for admins to move the catalogue in and out as files
+ *
+ * Features:
+ * - Export every sweet as CSV or JSON
+ * - Import wizard: pick a file, preview the changes from a dry run, then commit
+ *
+ * Imports match existing sweets by name. Nothing is written while any row
+ * is invalid, so the preview must be clean before it can be committed.
+ */
+export const CatalogueFiles: React.FC = () => {
+    const { fetchSweets } = useSweetStore();
+    const canImport = usePermission('catalogue:import');
+    const canExport = usePermission('catalogue:export');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [isOpen, setIsOpen] = useState(false);
+    const [exportingFormat, setExportingFormat] = useState<CatalogueFileFormat | null>(null);
+    const [file, setFile] = useState<{ name: string; format: CatalogueFileFormat; content: string } | null>(null);
+    const [report, setReport] = useState<ImportReport | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+
+    /**
+     * Download the catalogue in the chosen format
+     */
+    const handleExport = async (format: CatalogueFileFormat) => {
+        setExportingFormat(format);
+        try {
+            const blob = await sweetAPI.exportCatalogue(format);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `sweets-${new Date().toISOString().slice(0, 10)}.${format}`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            showErrorToast('Export failed', getErrorMessage(error));
+        } finally {
+            setExportingFormat(null);
+        }
+    };
+
+    /**
+     * Reset the wizard whenever the dialog opens or closes
+     */
+    const handleOpenChange = (open: boolean) => {
+        setIsOpen(open);
+        setFile(null);
+        setReport(null);
+    };
+
+    /**
+     * Read the chosen file and preview it with a dry run
+     */
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = event.target.files?.[0];
+        event.target.value = '';
+        if (!selected) return;
+
+        const format: CatalogueFileFormat = selected.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+        const content = await selected.text();
+        setFile({ name: selected.name, format, content });
+        setReport(null);
+
+        setIsWorking(true);
+        try {
+            setReport(await sweetAPI.importCatalogue({ format, content, dryRun: true }));
+        } catch (error) {
+            showErrorToast('Could not read file', getErrorMessage(error));
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    /**
+     * Apply the previewed file
+     */
+    const handleCommit = async () => {
+        if (!file) return;
+
+        setIsWorking(true);
+        try {
+            const result = await sweetAPI.importCatalogue({ format: file.format, content: file.content });
+            if (!result.committed) {
+                // The catalogue changed since the preview; show the fresh report
+                setReport(result);
+                return;
+            }
+            showSuccessToast(
+                'Catalogue imported',
+                `${result.summary.create} created, ${result.summary.update} updated`
+            );
+            handleOpenChange(false);
+            fetchSweets();
+        } catch (error) {
+            showErrorToast('Import failed', getErrorMessage(error));
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const pendingChanges = report ? report.summary.create + report.summary.update : 0;
+    const canCommit = !!report && report.summary.invalid === 0 && pendingChanges > 0 && !isWorking;
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-lg font-semibold">Import &amp; Export</CardTitle>
+                <IconFileImport className="h-5 w-5 text-primary" />
+            </CardHeader>
+            <CardContent>
+                <p className="text-responsive-sm text-muted-foreground mb-4">
+                    Download the catalogue or update many sweets at once from a CSV or JSON file with
+                    name, category (slug), price (in rupees, e.g. 2.99) and quantity columns.
+                </p>
+                <div className="grid grid-cols-1 gap-3 xs:grid-cols-3">
+                    {canExport && (
+                        <>
+                            <Button
+                                className="touch-target w-full h-10 xs:h-11"
+                                variant="outline"
+                                onClick={() => handleExport('csv')}
+                                disabled={exportingFormat !== null}
+                            >
+                                <IconDownload className="h-4 w-4 mr-2" />
+                                <span className="text-responsive-sm">Export CSV</span>
+                            </Button>
+                            <Button
+                                className="touch-target w-full h-10 xs:h-11"
+                                variant="outline"
+                                onClick={() => handleExport('json')}
+                                disabled={exportingFormat !== null}
+                            >
+                                <IconDownload className="h-4 w-4 mr-2" />
+                                <span className="text-responsive-sm">Export JSON</span>
+                            </Button>
+                        </>
+                    )}
+                    {canImport && (
+                        <Button className="touch-target w-full h-10 xs:h-11" onClick={() => handleOpenChange(true)}>
+                            <IconUpload className="h-4 w-4 mr-2" />
+                            <span className="text-responsive-sm">Import File</span>
+                        </Button>
+                    )}
+                </div>
+            </CardContent>
+
+            <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+                <DialogContent className="mx-3 w-[calc(100vw-1.5rem)] max-w-3xl safe-area-inset sm:mx-auto sm:w-full">
+                    <DialogHeader>
+                        <DialogTitle className="text-responsive-lg">Import Sweets</DialogTitle>
+                        <DialogDescription className="text-responsive-sm">
+                            Sweets are matched by name. Review the changes below before importing.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        <div className="flex flex-col gap-2 xs:flex-row xs:items-center">
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                accept=".csv,.json,text/csv,application/json"
+                                className="hidden"
+                                onChange={handleFileChange}
+                            />
+                            <Button
+                                type="button"
+                                variant="outline"
+                                onClick={() => fileInputRef.current?.click()}
+                                disabled={isWorking}
+                            >
+                                <IconUpload className="h-4 w-4 mr-2" />
+                                {file ? 'Choose Another File' : 'Choose File'}
+                            </Button>
+                            {file && (
+                                <span className="truncate text-responsive-sm text-muted-foreground">{file.name}</span>
+                            )}
+                        </div>
+
+                        {isWorking && !report && (
+                            <p className="text-responsive-sm text-muted-foreground">Checking file...</p>
+                        )}
+
+                        {report && (
+                            <>
+                                <div className="flex flex-wrap gap-2">
+                                    {(Object.keys(actionBadges) as ImportRowAction[]).map((action) => (
+                                        <Badge key={action} variant={actionBadges[action].variant}>
+                                            {report.summary[action]} {actionBadges[action].label}
+                                        </Badge>
+                                    ))}
+                                </div>
+
+                                <div className="max-h-80 overflow-auto rounded-lg border">
+                                    <table className="w-full text-responsive-xs">
+                                        <thead className="sticky top-0 bg-muted">
+                                            <tr className="text-left">
+                                                <th className="p-2 font-medium">Row</th>
+                                                <th className="p-2 font-medium">Sweet</th>
+                                                <th className="p-2 font-medium">Action</th>
+                                                <th className="p-2 font-medium">Details</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {report.rows.map((row) => (
+                                                <tr key={row.row} className="border-t align-top">
+                                                    <td className="p-2 text-muted-foreground">{row.row}</td>
+                                                    <td className="p-2 font-medium">{row.name || '—'}</td>
+                                                    <td className="p-2">
+                                                        <Badge variant={actionBadges[row.action].variant} className="text-xs">
+                                                            {actionBadges[row.action].label}
+                                                        </Badge>
+                                                    </td>
+                                                    <td className="p-2">
+                                                        {row.errors.length > 0 ? (
+                                                            <ul className="space-y-1 text-destructive">
+                                                                {row.errors.map((error) => (
+                                                                    <li key={error}>{error}</li>
+                                                                ))}
+                                                            </ul>
+                                                        ) : row.changes && Object.keys(row.changes).length > 0 ? (
+                                                            <ul className="space-y-1">
+                                                                {Object.entries(row.changes).map(([field, change]) => (
+                                                                    <li key={field}>
+                                                                        {field}: {formatValue(change.from)} → {formatValue(change.to)}
+                                                                    </li>
+                                                                ))}
+                                                            </ul>
+                                                        ) : (
+                                                            <span className="text-muted-foreground">
+                                                                {row.action === 'create' ? 'New sweet' : 'No changes'}
+                                                            </span>
+                                                        )}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+
+                                {report.summary.invalid > 0 && (
+                                    <p className="text-responsive-sm text-destructive">
+                                        Fix the invalid rows and choose the file again; nothing is imported until every row is valid.
+                                    </p>
+                                )}
+                            </>
+                        )}
+                    </div>
+
+                    <DialogFooter className="flex-col gap-2 xs:flex-row">
+                        <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={isWorking}>
+                            Cancel
+                        </Button>
+                        <Button type="button" onClick={handleCommit} disabled={!canCommit}>
+                            {isWorking && report
+                                ? 'Importing...'
+                                : `Import ${pendingChanges} ${pendingChanges === 1 ? 'Change' : 'Changes'}`}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+};
@@ -0,0 +1,190 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { useCategoryStore } from '@/store/categoryStore';
+import { toCategoryOptions } from '@/utils/categories';
+import { GST_SLABS, formatTaxRate } from '@/utils/tax';
+import { CategorySelect } from './CategorySelect';
+import { IconCategory, IconPlus, IconTrash } from '@tabler/icons-react';
+
+const selectClassName = 'flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+/**
+ * Options for a GST rate select; the empty value inherits the parent's rate
+ */
+const TaxRateOptions: React.FC = () => (
+    <>
+        <option value="">Inherit GST</option>
+        {GST_SLABS.map(rate => (
+            <option key={rate} value={rate}>GST {formatTaxRate(rate)}</option>
+        ))}
+    </>
+);
+
+/**
+ * Read a GST select's value back as a rate, or null to inherit
+ */
+const toTaxRate = (value: string) => (value === '' ? null : Number(value));
+
+/**
+ * CategoryManager component for admins to maintain the category tree
+ *
+ * Lists categories with their subcategories indented and their sweet counts,
+ * adds categories under an optional parent and deletes unused ones.
+ * Categories that still hold sweets or subcategories cannot be deleted.
+ * Each category sets the GST rate for its sweets or inherits its parent's;
+ * a top-level category that inherits charges no GST.
+ */
+export const CategoryManager: React.FC = () => {
+    const { categories, isLoading, fetchCategories, addCategory, updateCategory, deleteCategory } = useCategoryStore();
+    const [name, setName] = useState('');
+    const [parentId, setParentId] = useState('');
+    const [taxRate, setTaxRate] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [deletingId, setDeletingId] = useState<string | null>(null);
+
+    // Reload so sweet counts are current
+    useEffect(() => {
+        fetchCategories(true);
+    }, [fetchCategories]);
+
+    const options = useMemo(() => toCategoryOptions(categories), [categories]);
+
+    /**
+     * Add a category from the inline form
+     */
+    const handleAdd = async (event: React.FormEvent) => {
+        event.preventDefault();
+        if (!name.trim()) return;
+
+        setIsSaving(true);
+        try {
+            await addCategory({ name: name.trim(), parentId: parentId || null, taxRate: toTaxRate(taxRate) });
+            setName('');
+            setParentId('');
+            setTaxRate('');
+        } catch {
+            // Store already reported the error
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    /**
+     * Change the GST rate of a category
+     */
+    const handleTaxRateChange = async (id: string, value: string) => {
+        try {
+            await updateCategory(id, { taxRate: toTaxRate(value) });
+        } catch {
+            // Store already reported the error
+        }
+    };
+
+    /**
+     * Delete an unused category
+     */
+    const handleDelete = async (id: string) => {
+        setDeletingId(id);
+        try {
+            await deleteCategory(id);
+        } catch {
+            // Store already reported the error
+        } finally {
+            setDeletingId(null);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-lg font-semibold">Categories</CardTitle>
+                <IconCategory className="h-5 w-5 text-primary" />
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <form onSubmit={handleAdd} className="flex flex-col gap-2 sm:flex-row">
+                    <Input
+                        aria-label="Category name"
+                        placeholder="New category name"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        maxLength={100}
+                        disabled={isSaving}
+                    />
+                    <CategorySelect
+                        aria-label="Parent category"
+                        placeholder="No parent"
+                        value={parentId}
+                        onChange={(e) => setParentId(e.target.value)}
+                        disabled={isSaving}
+                        className="sm:w-56"
+                    />
+                    <select
+                        aria-label="GST rate"
+                        value={taxRate}
+                        onChange={(e) => setTaxRate(e.target.value)}
+                        disabled={isSaving}
+                        className={`${selectClassName} w-full sm:w-40`}
+                    >
+                        <TaxRateOptions />
+                    </select>
+                    <Button type="submit" disabled={isSaving || !name.trim()} className="touch-target">
+                        <IconPlus className="h-4 w-4 mr-2" />
+                        Add
+                    </Button>
+                </form>
+
+                {options.length === 0 ? (
+                    <p className="text-responsive-sm text-muted-foreground text-center py-4">
+                        {isLoading ? 'Loading categories...' : 'No categories yet'}
+                    </p>
+                ) : (
+                    <ul className="divide-y rounded-lg border">
+                        {options.map(({ category, depth }) => {
+                            const sweetCount = category._count?.sweets ?? 0;
+                            const hasChildren = categories.some(child => child.parentId === category.id);
+
+                            return (
+                                <li
+                                    key={category.id}
+                                    className="flex items-center justify-between gap-2 px-3 py-2"
+                                    style={{ paddingLeft: `${0.75 + depth * 1.25}rem` }}
+                                >
+                                    <div className="flex min-w-0 items-center gap-2">
+                                        <span className="truncate text-responsive-sm font-medium">{category.name}</span>
+                                        <span className="hidden text-xs text-muted-foreground xs:inline">/{category.slug}</span>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <select
+                                            aria-label={`GST rate for ${category.name}`}
+                                            value={category.taxRate ?? ''}
+                                            onChange={(e) => handleTaxRateChange(category.id, e.target.value)}
+                                            className={`${selectClassName} h-8 px-2 py-1 text-xs`}
+                                        >
+                                            <TaxRateOptions />
+                                        </select>
+                                        <Badge variant="secondary" className="text-xs">
+                                            {sweetCount} {sweetCount === 1 ? 'sweet' : 'sweets'}
+                                        </Badge>
+                                        <Button
+                                            size="sm"
+                                            variant="ghost"
+                                            aria-label={`Delete ${category.name}`}
+                                            title={sweetCount > 0 || hasChildren ? 'Only empty categories can be deleted' : undefined}
+                                            disabled={sweetCount > 0 || hasChildren || deletingId === category.id}
+                                            onClick={() => handleDelete(category.id)}
+                                        >
+                                            <IconTrash className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
@@ -0,0 +1,55 @@
+import React, { useEffect, useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { useCategoryStore } from '@/store/categoryStore';
+import { toCategoryOptions } from '@/utils/categories';
+
+/**
+ * CategorySelect component props interface
+ */
+interface CategorySelectProps extends Omit<React.SelectHTMLAttributes<HTMLSelectElement>, 'children'> {
+    /** Which category field the option values hold: ids for forms, slugs for filters */
+    valueField?: 'id' | 'slug';
+    /** Label of the empty option shown before the categories */
+    placeholder?: string;
+}
+
+/**
+ * CategorySelect component for picking a catalogue category
+ *
+ * Options come from the shared category store and are listed in tree order,
+ * with subcategories indented under their parent. Forwards its ref so it can
+ * be registered with react-hook-form.
+ */
+export const CategorySelect = React.forwardRef<HTMLSelectElement, CategorySelectProps>(
+    ({ valueField = 'id', placeholder = 'Select a category', className, disabled, ...props }, ref) => {
+        const { categories, isLoading, fetchCategories } = useCategoryStore();
+
+        // Load categories the first time any picker is shown
+        useEffect(() => {
+            fetchCategories();
+        }, [fetchCategories]);
+
+        const options = useMemo(() => toCategoryOptions(categories), [categories]);
+
+        return (
+            <select
+                ref={ref}
+                disabled={disabled || isLoading}
+                className={cn(
+                    'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50',
+                    className
+                )}
+                {...props}
+            >
+                <option value="">{isLoading ? 'Loading categories...' : placeholder}</option>
+                {/* Option text collapses ordinary spaces, so indent with non-breaking ones */}
+                {options.map(({ category, depth }) => (
+                    <option key={category.id} value={category[valueField]}>
+                        {'  '.repeat(depth)}{category.name}
+                    </option>
+                ))}
+            </select>
+        );
+    }
+);
+CategorySelect.displayName = 'CategorySelect';
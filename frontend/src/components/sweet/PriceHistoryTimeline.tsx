@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { catalogueAPI, priceHistoryAPI } from '@/services/api';
+import { showErrorToast, showSuccessToast, getErrorMessage } from '@/utils/errorHandling';
+import { formatMoney, fromMinorUnits, toMinorUnits, minorUnitDigits } from '@/utils/money';
+import { cn } from '@/lib/utils';
+import { IconClockPlus, IconX } from '@tabler/icons-react';
+import type { CatalogueSweet, CataloguePriceEntry, PriceHistoryEntry, Sweet } from '@/types';
+
+interface PriceHistoryTimelineProps {
+    sweet: Sweet | CatalogueSweet;
+    // Show only the prices that took effect, from the public catalogue, without scheduling controls
+    readOnly?: boolean;
+    className?: string;
+}
+
+/**
+ * Earliest value for a datetime-local input: the next minute, in local time
+ */
+const nextMinuteLocal = (): string => {
+    const date = new Date(Date.now() + 60_000);
+    date.setSeconds(0, 0);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+/**
+ * PriceHistoryTimeline component for staff to review and schedule a sweet's prices
+ *
+ * Features:
+ * - Timeline of past prices, the current price and scheduled prices
+ * - Scheduled prices skipped because a later one was due at the same time
+ * - Schedule a new price from a future date and time
+ * - Cancel a scheduled price before it takes effect
+ * - Read-only mode showing shoppers the prices a sweet has sold at
+ *
+ * Scheduled prices are applied by the server once their time has passed.
+ * The controls sit inside SweetForm's form, so they use plain buttons and
+ * keep Enter from submitting the sweet.
+ */
+export const PriceHistoryTimeline: React.FC<PriceHistoryTimelineProps> = ({ sweet, readOnly = false, className }) => {
+    const [entries, setEntries] = useState<Array<PriceHistoryEntry | CataloguePriceEntry>>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isWorking, setIsWorking] = useState(false);
+    const [price, setPrice] = useState(() => String(fromMinorUnits(sweet.price, sweet.currency)));
+    const [effectiveFrom, setEffectiveFrom] = useState('');
+
+    useEffect(() => {
+        let cancelled = false;
+        (readOnly ? catalogueAPI.getPrices(sweet.id) : priceHistoryAPI.list(sweet.id))
+            .then(prices => !cancelled && setEntries(prices))
+            .catch(error => !cancelled && showErrorToast('Could not load price history', getErrorMessage(error)))
+            .finally(() => !cancelled && setIsLoading(false));
+        return () => {
+            cancelled = true;
+        };
+    }, [sweet.id, readOnly]);
+
+    // Entries arrive latest first, so the first applied one is in effect now
+    const currentId = entries.find(entry => entry.appliedAt)?.id;
+
+    const handleSchedule = async () => {
+        const amount = toMinorUnits(Number(price), sweet.currency);
+        if (!(amount > 0) || !effectiveFrom) {
+            showErrorToast('Schedule failed', 'Enter a positive price and a future date and time.');
+            return;
+        }
+
+        setIsWorking(true);
+        try {
+            const scheduled = await priceHistoryAPI.schedule(sweet.id, {
+                price: amount,
+                effectiveFrom: new Date(effectiveFrom).toISOString(),
+            });
+            setEntries(await priceHistoryAPI.list(sweet.id));
+            setEffectiveFrom('');
+            showSuccessToast('Price scheduled', `${formatMoney(scheduled.price, sweet.currency)} from ${new Date(scheduled.effectiveFrom).toLocaleString()}`);
+        } catch (error) {
+            showErrorToast('Schedule failed', getErrorMessage(error));
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleCancel = async (entry: CataloguePriceEntry) => {
+        setIsWorking(true);
+        try {
+            await priceHistoryAPI.cancel(sweet.id, entry.id);
+            setEntries(current => current.filter(item => item.id !== entry.id));
+        } catch (error) {
+            showErrorToast('Cancel failed', getErrorMessage(error));
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+        if (event.key === 'Enter') {
+            event.preventDefault();
+            void handleSchedule();
+        }
+    };
+
+    return (
+        <div className={cn('space-y-3', className)}>
+            <div>
+                <p className="text-responsive-sm font-medium leading-none">Price history</p>
+                <p className="text-responsive-xs text-muted-foreground mt-1">
+                    {readOnly
+                        ? 'Prices this sweet has sold at'
+                        : 'Schedule a price to take effect automatically at a later time'}
+                </p>
+            </div>
+
+            {isLoading ? (
+                <p className="text-responsive-xs text-muted-foreground">Loading price history...</p>
+            ) : entries.length === 0 ? (
+                <p className="text-responsive-xs text-muted-foreground rounded-lg border border-dashed border-border p-4 text-center">
+                    No price changes recorded yet.
+                </p>
+            ) : (
+                <ol className="relative space-y-3 border-l border-border pl-4">
+                    {entries.map(entry => {
+                        const isSuperseded = 'supersededAt' in entry && !!entry.supersededAt;
+                        const isScheduled = !entry.appliedAt && !isSuperseded;
+                        const isCurrent = entry.id === currentId;
+                        return (
+                            <li key={entry.id} className="relative">
+                                <span
+                                    className={cn(
+                                        'absolute -left-[1.3rem] top-1.5 h-2.5 w-2.5 rounded-full border-2 border-background',
+                                        isCurrent ? 'bg-primary' : isScheduled ? 'bg-amber-500' : 'bg-muted-foreground/40'
+                                    )}
+                                />
+                                <div className="flex items-start justify-between gap-2">
+                                    <div className="min-w-0">
+                                        <div className="flex items-center gap-2 text-responsive-sm font-medium">
+                                            {formatMoney(entry.price, sweet.currency)}
+                                            {isCurrent && <Badge className="text-xs">Current</Badge>}
+                                            {isScheduled && <Badge variant="outline" className="text-xs">Scheduled</Badge>}
+                                            {isSuperseded && <Badge variant="secondary" className="text-xs">Skipped</Badge>}
+                                        </div>
+                                        <p className="text-responsive-xs text-muted-foreground truncate">
+                                            {isScheduled ? 'Takes effect' : isSuperseded ? 'Was due' : 'From'} {new Date(entry.effectiveFrom).toLocaleString()}
+                                            {'user' in entry && entry.user && ` • ${entry.user.name || entry.user.email}`}
+                                        </p>
+                                    </div>
+                                    {isScheduled && !readOnly && (
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="icon"
+                                            className="h-8 w-8 shrink-0 text-destructive"
+                                            aria-label="Cancel scheduled price"
+                                            onClick={() => handleCancel(entry)}
+                                            disabled={isWorking}
+                                        >
+                                            <IconX className="h-4 w-4" />
+                                        </Button>
+                                    )}
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ol>
+            )}
+
+            {!readOnly && (
+                <div className="flex flex-col gap-2 xs:flex-row xs:items-center">
+                    <Input
+                        type="number"
+                        step={1 / 10 ** minorUnitDigits(sweet.currency)}
+                        min="0"
+                        aria-label={`Scheduled price (${sweet.currency})`}
+                        value={price}
+                        onChange={event => setPrice(event.target.value)}
+                        onKeyDown={handleKeyDown}
+                        className="h-10 xs:w-32"
+                        disabled={isWorking}
+                    />
+                    <Input
+                        type="datetime-local"
+                        aria-label="Effective from"
+                        min={nextMinuteLocal()}
+                        value={effectiveFrom}
+                        onChange={event => setEffectiveFrom(event.target.value)}
+                        onKeyDown={handleKeyDown}
+                        className="h-10 flex-1"
+                        disabled={isWorking}
+                    />
+                    <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="h-10"
+                        onClick={handleSchedule}
+                        disabled={isWorking}
+                    >
+                        <IconClockPlus className="h-4 w-4 mr-2" />
+                        {isWorking ? 'Saving...' : 'Schedule'}
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+};
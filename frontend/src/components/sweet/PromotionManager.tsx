@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { promotionAPI } from '@/services/api';
+import { showErrorToast, showSuccessToast, getErrorMessage } from '@/utils/errorHandling';
+import { DEFAULT_CURRENCY, formatMoney, toMinorUnits } from '@/utils/money';
+import { CategorySelect } from './CategorySelect';
+import { IconDiscount, IconPlus, IconTrash } from '@tabler/icons-react';
+import type { CreatePromotionData, Promotion, PromotionType } from '@/types';
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+const TYPE_LABELS: Record<PromotionType, string> = {
+    PERCENTAGE: 'Percentage off',
+    FIXED_AMOUNT: 'Amount off',
+    MULTI_BUY: 'Buy X get Y free',
+    BUNDLE: 'Bundle price',
+};
+
+/**
+ * One-line summary of what a promotion gives, e.g. "Buy 2, get 1 free"
+ */
+const describePromotion = (promotion: Promotion): string => {
+    switch (promotion.type) {
+        case 'PERCENTAGE':
+            return `${promotion.value}% off`;
+        case 'FIXED_AMOUNT':
+            return `${formatMoney(promotion.value, promotion.currency)} off`;
+        case 'MULTI_BUY':
+            return `Buy ${promotion.buyQuantity}, get ${promotion.freeQuantity} free`;
+        case 'BUNDLE':
+            return `${promotion.buyQuantity} for ${formatMoney(promotion.value, promotion.currency)}`;
+    }
+};
+
+const emptyForm = {
+    name: '',
+    type: 'PERCENTAGE' as PromotionType,
+    value: '',
+    buyQuantity: '',
+    freeQuantity: '',
+    code: '',
+    categoryId: '',
+    endsAt: '',
+    perUserLimit: '',
+};
+
+/**
+ * PromotionManager component for managers to run discounts and coupon codes
+ *
+ * Lists promotions with what they give, their scope and how often they were
+ * used, creates new ones store-wide or for a category, and pauses, resumes or
+ * deletes existing ones. Promotions with a code only apply when a shopper
+ * enters it; the rest apply automatically at purchase.
+ */
+export const PromotionManager: React.FC = () => {
+    const [promotions, setPromotions] = useState<Promotion[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [workingId, setWorkingId] = useState<string | null>(null);
+    const [form, setForm] = useState(emptyForm);
+
+    useEffect(() => {
+        promotionAPI.list()
+            .then(setPromotions)
+            .catch(error => showErrorToast('Could not load promotions', getErrorMessage(error)))
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const setField = (field: keyof typeof emptyForm) =>
+        (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+            setForm(current => ({ ...current, [field]: event.target.value }));
+
+    const isAmount = form.type === 'FIXED_AMOUNT' || form.type === 'BUNDLE';
+    const hasQuantities = form.type === 'MULTI_BUY' || form.type === 'BUNDLE';
+    const optionalNumber = (value: string) => (value ? Number(value) : null);
+
+    /**
+     * Create a promotion from the inline form
+     */
+    const handleCreate = async (event: React.FormEvent) => {
+        event.preventDefault();
+        if (!form.name.trim()) return;
+
+        const data: CreatePromotionData = {
+            name: form.name.trim(),
+            type: form.type,
+            value: isAmount ? toMinorUnits(Number(form.value), DEFAULT_CURRENCY) : Number(form.value) || 0,
+            buyQuantity: hasQuantities ? optionalNumber(form.buyQuantity) : null,
+            freeQuantity: form.type === 'MULTI_BUY' ? optionalNumber(form.freeQuantity) : null,
+            code: form.code.trim() || null,
+            categoryId: form.categoryId || null,
+            // The promotion runs to the end of the chosen day
+            endsAt: form.endsAt ? new Date(`${form.endsAt}T23:59:59`).toISOString() : null,
+            perUserLimit: optionalNumber(form.perUserLimit),
+        };
+
+        setIsSaving(true);
+        try {
+            const promotion = await promotionAPI.create(data);
+            setPromotions(current => [promotion, ...current]);
+            setForm(emptyForm);
+            showSuccessToast('Promotion created', promotion.name);
+        } catch (error) {
+            showErrorToast('Could not create promotion', getErrorMessage(error));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    /**
+     * Pause or resume a promotion
+     */
+    const handleToggle = async (promotion: Promotion) => {
+        setWorkingId(promotion.id);
+        try {
+            const updated = await promotionAPI.update(promotion.id, { isActive: !promotion.isActive });
+            setPromotions(current => current.map(item => (item.id === updated.id ? updated : item)));
+        } catch (error) {
+            showErrorToast('Could not update promotion', getErrorMessage(error));
+        } finally {
+            setWorkingId(null);
+        }
+    };
+
+    /**
+     * Delete a promotion; past orders keep their discounts
+     */
+    const handleDelete = async (promotion: Promotion) => {
+        setWorkingId(promotion.id);
+        try {
+            await promotionAPI.delete(promotion.id);
+            setPromotions(current => current.filter(item => item.id !== promotion.id));
+        } catch (error) {
+            showErrorToast('Could not delete promotion', getErrorMessage(error));
+        } finally {
+            setWorkingId(null);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-lg font-semibold">Promotions</CardTitle>
+                <IconDiscount className="h-5 w-5 text-primary" />
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <form onSubmit={handleCreate} className="grid gap-2 sm:grid-cols-2 lg:grid-cols-4">
+                    <Input
+                        aria-label="Promotion name"
+                        placeholder="Promotion name"
+                        value={form.name}
+                        onChange={setField('name')}
+                        maxLength={100}
+                        disabled={isSaving}
+                    />
+                    <select
+                        aria-label="Promotion type"
+                        value={form.type}
+                        onChange={setField('type')}
+                        disabled={isSaving}
+                        className={selectClassName}
+                    >
+                        {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                            <option key={type} value={type}>{label}</option>
+                        ))}
+                    </select>
+                    {hasQuantities && (
+                        <Input
+                            type="number"
+                            min="1"
+                            aria-label={form.type === 'BUNDLE' ? 'Units in bundle' : 'Units to pay for'}
+                            placeholder={form.type === 'BUNDLE' ? 'Units in bundle' : 'Buy'}
+                            value={form.buyQuantity}
+                            onChange={setField('buyQuantity')}
+                            disabled={isSaving}
+                        />
+                    )}
+                    {form.type === 'MULTI_BUY' ? (
+                        <Input
+                            type="number"
+                            min="1"
+                            aria-label="Free units"
+                            placeholder="Get free"
+                            value={form.freeQuantity}
+                            onChange={setField('freeQuantity')}
+                            disabled={isSaving}
+                        />
+                    ) : (
+                        <Input
+                            type="number"
+                            min="0"
+                            step={isAmount ? '0.01' : '1'}
+                            aria-label={isAmount ? `Amount (${DEFAULT_CURRENCY})` : 'Percent off'}
+                            placeholder={form.type === 'BUNDLE' ? `Bundle price (${DEFAULT_CURRENCY})` : isAmount ? `Amount off (${DEFAULT_CURRENCY})` : 'Percent off'}
+                            value={form.value}
+                            onChange={setField('value')}
+                            disabled={isSaving}
+                        />
+                    )}
+                    <Input
+                        aria-label="Coupon code"
+                        placeholder="Coupon code (optional)"
+                        value={form.code}
+                        onChange={setField('code')}
+                        maxLength={32}
+                        disabled={isSaving}
+                        className="uppercase"
+                    />
+                    <CategorySelect
+                        aria-label="Category"
+                        placeholder="All sweets"
+                        value={form.categoryId}
+                        onChange={setField('categoryId')}
+                        disabled={isSaving}
+                    />
+                    <Input
+                        type="date"
+                        aria-label="Ends on"
+                        value={form.endsAt}
+                        onChange={setField('endsAt')}
+                        disabled={isSaving}
+                    />
+                    <Input
+                        type="number"
+                        min="1"
+                        aria-label="Uses per customer"
+                        placeholder="Uses per customer"
+                        value={form.perUserLimit}
+                        onChange={setField('perUserLimit')}
+                        disabled={isSaving}
+                    />
+                    <Button type="submit" disabled={isSaving || !form.name.trim()} className="touch-target sm:col-span-2 lg:col-span-4">
+                        <IconPlus className="h-4 w-4 mr-2" />
+                        Add promotion
+                    </Button>
+                </form>
+
+                {promotions.length === 0 ? (
+                    <p className="text-responsive-sm text-muted-foreground text-center py-4">
+                        {isLoading ? 'Loading promotions...' : 'No promotions yet'}
+                    </p>
+                ) : (
+                    <ul className="divide-y rounded-lg border">
+                        {promotions.map(promotion => {
+                            const hasEnded = promotion.endsAt !== null && new Date(promotion.endsAt) < new Date();
+
+                            return (
+                                <li key={promotion.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                                    <div className="min-w-0">
+                                        <div className="flex flex-wrap items-center gap-2">
+                                            <span className="truncate text-responsive-sm font-medium">{promotion.name}</span>
+                                            {promotion.code && <Badge variant="outline" className="text-xs">{promotion.code}</Badge>}
+                                            {!promotion.isActive && <Badge variant="secondary" className="text-xs">Paused</Badge>}
+                                            {hasEnded && <Badge variant="secondary" className="text-xs">Ended</Badge>}
+                                        </div>
+                                        <p className="truncate text-responsive-xs text-muted-foreground">
+                                            {describePromotion(promotion)}
+                                            {' • '}
+                                            {promotion.sweet?.name ?? promotion.category?.name ?? 'All sweets'}
+                                            {promotion.endsAt && ` • until ${new Date(promotion.endsAt).toLocaleDateString()}`}
+                                            {` • used ${promotion._count.redemptions} ${promotion._count.redemptions === 1 ? 'time' : 'times'}`}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            disabled={workingId === promotion.id}
+                                            onClick={() => handleToggle(promotion)}
+                                        >
+                                            {promotion.isActive ? 'Pause' : 'Resume'}
+                                        </Button>
+                                        <Button
+                                            size="sm"
+                                            variant="ghost"
+                                            aria-label={`Delete ${promotion.name}`}
+                                            disabled={workingId === promotion.id}
+                                            onClick={() => handleDelete(promotion)}
+                                        >
+                                            <IconTrash className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
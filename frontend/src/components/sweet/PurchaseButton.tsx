@@ -1,4 +1,5 @@
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -12,40 +13,83 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { useSweetStore } from "@/store/sweetStore";
+import { useCartStore } from "@/store/cartStore";
+import { useAuthStore } from "@/store/authStore";
 import { useToast } from "@/hooks/use-toast";
+import { promotionAPI, reservationAPI } from "@/services/api";
+import { formatMoney } from "@/utils/money";
 import {
     IconShoppingCart,
     IconPackage,
     IconMinus,
     IconPlus,
     IconCheck,
+    IconShoppingBagPlus,
+    IconLogin,
+    IconDiscount,
+    IconX,
+    IconClock,
 } from "@tabler/icons-react";
 import { cn } from "@/lib/utils";
-import type { Sweet } from "@/types";
+import { getApiError, getErrorMessage } from "@/utils/errorHandling";
+import type { CatalogueSweet, PromotionQuote, StockReservation } from "@/types";
 
 interface PurchaseButtonProps {
-    sweet: Sweet;
+    sweet: CatalogueSweet;
     className?: string;
     variant?: "default" | "outline" | "secondary";
     size?: "sm" | "default" | "lg";
     showQuantitySelector?: boolean;
+    /** Called after a purchase succeeds, e.g. to reload the sweet */
+    onPurchased?: () => void;
 }
 
+/** Wait after the last quantity change before moving the hold, in milliseconds */
+const RESERVE_DEBOUNCE_MS = 300;
+
+/**
+ * Describe a failed purchase, naming the remaining stock when it ran short
+ */
+const describePurchaseError = (error: unknown) => {
+    const apiError = getApiError(error);
+    switch (apiError?.error?.code) {
+        case "INSUFFICIENT_STOCK":
+            return `Only ${apiError.error.details?.available ?? 0} left in stock.`;
+        case "RESERVATION_EXPIRED":
+        case "RESERVATION_NOT_FOUND":
+            return "Your hold on these items ended before you confirmed. Please try again.";
+    }
+    return apiError ? getErrorMessage(error) : "Failed to purchase sweet. Please try again.";
+};
+
+/**
+ * Format the time left on a hold as m:ss
+ */
+const formatTimeLeft = (ms: number) => {
+    const seconds = Math.max(Math.ceil(ms / 1000), 0);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
 /**
  * PurchaseButton component with quantity-based state management
  * 
  * Features:
  * - Quantity selection with validation
  * - Purchase confirmation dialog
- * - Real-time stock updates
+ * - Promotion and coupon discounts priced by the server before confirming
+ * - Add to cart for multi-item checkout
+ * - Holds the selected quantity while the dialog is open, so nobody else can buy it before confirming
+ * - Live stock updates, warning when stock drops below the selection while the dialog is open
  * - Out-of-stock handling
  * - Success/error feedback
+ * - Sends signed-out visitors to the login page, returning them here afterwards
  * 
  * @param sweet - Sweet item to purchase
  * @param className - Additional CSS classes
  * @param variant - Button variant style
  * @param size - Button size
  * @param showQuantitySelector - Whether to show quantity selection dialog
+ * @param onPurchased - Callback run after a successful purchase
  */
 export const PurchaseButton: React.FC<PurchaseButtonProps> = ({
     sweet,
@@ -53,20 +97,177 @@ export const PurchaseButton: React.FC<PurchaseButtonProps> = ({
     variant = "default",
     size = "default",
     showQuantitySelector = true,
+    onPurchased,
 }) => {
-    const { purchaseSweet, isLoading } = useSweetStore();
+    const { purchaseSweet, applySweetUpdates, isLoading } = useSweetStore();
+    const { addItem: addToCart, isLoading: isCartLoading } = useCartStore();
+    const { isAuthenticated } = useAuthStore();
     const { toast } = useToast();
+    const navigate = useNavigate();
+    const location = useLocation();
 
     const [isDialogOpen, setIsDialogOpen] = useState(false);
     const [selectedQuantity, setSelectedQuantity] = useState(1);
     const [isPurchasing, setIsPurchasing] = useState(false);
     const [purchaseSuccess, setPurchaseSuccess] = useState(false);
+    const [couponInput, setCouponInput] = useState("");
+    const [appliedCoupon, setAppliedCoupon] = useState<string>();
+    const [couponError, setCouponError] = useState<string>();
+    const [quote, setQuote] = useState<PromotionQuote | null>(null);
+    const [stockNotice, setStockNotice] = useState<string>();
+    // The hold on the selected quantity and the sweet's available stock just after taking it
+    const [hold, setHold] = useState<{ reservation: StockReservation; available: number } | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+    const holdRef = useRef(hold);
+    holdRef.current = hold;
+    const openRef = useRef(isDialogOpen);
+    openRef.current = isDialogOpen;
+
+    // The store copy is kept live by server events; fall back to the prop for sweets it has not loaded
+    const liveAvailable = useSweetStore((state) => state.sweets.find((item) => item.id === sweet.id)?.available);
+    // Units this shopper can choose: what is left for sale plus what they already hold
+    const stock = (liveAvailable ?? hold?.available ?? sweet.available) + (hold?.reservation.quantity ?? 0);
+    const isOutOfStock = stock <= 0;
+    const isLowStock = stock > 0 && stock <= sweet.reorderPoint;
+    const maxQuantity = Math.min(stock, 10); // Limit to 10 items per purchase
+    const price = formatMoney(sweet.price, sweet.currency);
+    // The quote lags the quantity briefly; only trust it once it matches
+    const currentQuote = quote?.lines[0]?.quantity === selectedQuantity ? quote : null;
+    const totalPrice = formatMoney(currentQuote?.total ?? sweet.price * selectedQuantity, sweet.currency);
+
+    // Price the selection with running promotions and the applied coupon
+    useEffect(() => {
+        if (!isDialogOpen || !isAuthenticated) return;
+
+        let cancelled = false;
+        promotionAPI.quote([{ sweetId: sweet.id, quantity: selectedQuantity }], appliedCoupon)
+            .then((result) => !cancelled && setQuote(result))
+            .catch((error) => {
+                if (cancelled) return;
+                if (appliedCoupon && getApiError(error)?.error?.code === "INVALID_COUPON") {
+                    // Drop the coupon; the effect runs again to price without it
+                    setCouponError(getErrorMessage(error));
+                    setAppliedCoupon(undefined);
+                } else {
+                    setQuote(null);
+                }
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [isDialogOpen, isAuthenticated, sweet.id, selectedQuantity, appliedCoupon]);
+
+    // Someone else may buy while the dialog is open; shrink the selection to what is left
+    useEffect(() => {
+        if (!isDialogOpen || selectedQuantity <= stock) return;
+
+        setStockNotice(stock > 0
+            ? `Stock just changed: only ${stock} left, so your quantity was reduced.`
+            : `${sweet.name} just sold out.`);
+        setSelectedQuantity(Math.max(Math.min(stock, 10), 1));
+    }, [isDialogOpen, selectedQuantity, stock, sweet.name]);
+
+    // Hold the selected quantity while the shopper decides; a new hold replaces the previous one
+    useEffect(() => {
+        if (!isDialogOpen || !isAuthenticated || selectedQuantity < 1) return;
+        if (holdRef.current?.reservation.quantity === selectedQuantity) return;
+
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            reservationAPI.reserve(sweet.id, selectedQuantity)
+                .then(({ reservation, sweet: heldSweet }) => {
+                    if (!openRef.current) {
+                        // The dialog closed while the hold was being taken
+                        reservationAPI.release(reservation.id).catch(() => undefined);
+                        return;
+                    }
+                    if (cancelled) return;
+                    applySweetUpdates([heldSweet]);
+                    setHold({ reservation, available: heldSweet.available });
+                })
+                .catch((error) => {
+                    if (cancelled) return;
+                    const apiError = getApiError(error);
+                    if (apiError?.error?.code !== "INSUFFICIENT_STOCK") return;
+
+                    // The previous hold, if any, still stands; offer what could be held instead
+                    const available = Number(apiError.error.details?.available ?? 0);
+                    setStockNotice(available > 0
+                        ? `Only ${available} can be held for you right now, so your quantity was reduced.`
+                        : `${sweet.name} just sold out.`);
+                    if (available > 0) setSelectedQuantity(Math.min(available, 10));
+                });
+        }, RESERVE_DEBOUNCE_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [isDialogOpen, isAuthenticated, sweet.id, sweet.name, selectedQuantity, applySweetUpdates]);
+
+    // Count down the hold, letting it go once it expires
+    useEffect(() => {
+        if (!hold) return;
+
+        const expiresAt = new Date(hold.reservation.expiresAt).getTime();
+        const tick = () => {
+            setNow(Date.now());
+            if (Date.now() >= expiresAt) {
+                setHold(null);
+                setStockNotice("Your hold on these items expired, so they may sell out before you confirm.");
+            }
+        };
+        tick();
+        const interval = setInterval(tick, 1000);
+        return () => clearInterval(interval);
+    }, [hold]);
 
-    const isOutOfStock = sweet.quantity <= 0;
-    const isLowStock = sweet.quantity > 0 && sweet.quantity <= 5;
-    const maxQuantity = Math.min(sweet.quantity, 10); // Limit to 10 items per purchase
-    const price = sweet.price && !isNaN(sweet.price) ? sweet.price : 0;
-    const totalPrice = price * selectedQuantity;
+    // Start each visit to the dialog without an old warning, giving back anything still held
+    useEffect(() => {
+        if (isDialogOpen) return;
+
+        setStockNotice(undefined);
+        if (holdRef.current) {
+            reservationAPI.release(holdRef.current.reservation.id).catch(() => undefined);
+            setHold(null);
+        }
+    }, [isDialogOpen]);
+
+    // Give back the hold if the button goes away with the dialog open
+    useEffect(() => () => {
+        if (holdRef.current) {
+            reservationAPI.release(holdRef.current.reservation.id).catch(() => undefined);
+        }
+    }, []);
+
+    /**
+     * Apply the entered coupon code, or clear it when the field is empty
+     */
+    const handleApplyCoupon = () => {
+        const code = couponInput.trim();
+        setCouponError(undefined);
+        setAppliedCoupon(code || undefined);
+    };
+
+    /**
+     * Remove the applied coupon
+     */
+    const handleRemoveCoupon = () => {
+        setCouponInput("");
+        setCouponError(undefined);
+        setAppliedCoupon(undefined);
+    };
+
+    /**
+     * Ask a signed-out visitor to log in, coming back to this page afterwards
+     */
+    const handleLoginPrompt = () => {
+        toast({
+            title: "Sign in to purchase",
+            description: `Log in or create an account to buy ${sweet.name}.`,
+        });
+        navigate("/login", { state: { from: location.pathname } });
+    };
 
     /**
      * Handle direct purchase without quantity selection
@@ -77,6 +278,7 @@ export const PurchaseButton: React.FC<PurchaseButtonProps> = ({
         setIsPurchasing(true);
         try {
             await purchaseSweet(sweet.id, 1);
+            onPurchased?.();
 
             // Show success state briefly
             setPurchaseSuccess(true);
@@ -84,14 +286,12 @@ export const PurchaseButton: React.FC<PurchaseButtonProps> = ({
 
             toast({
                 title: "Purchase successful!",
-                description: `You purchased 1 ${sweet.name} for ₹${price}`,
+                description: `You purchased 1 ${sweet.name} for ${price}`,
             });
-        } catch (error: any) {
+        } catch (error) {
             toast({
                 title: "Purchase failed",
-                description:
-                    error.response?.data?.message ??
-                    "Failed to purchase sweet. Please try again.",
+                description: describePurchaseError(error),
                 variant: "destructive",
             });
         } finally {
@@ -107,27 +307,36 @@ export const PurchaseButton: React.FC<PurchaseButtonProps> = ({
 
         setIsPurchasing(true);
         try {
-            await purchaseSweet(sweet.id, selectedQuantity);
+            await purchaseSweet(sweet.id, selectedQuantity, appliedCoupon, hold?.reservation.id);
+            onPurchased?.();
+
+            // The hold was bought with the order, so there is nothing to give back on close
+            setHold(null);
+            holdRef.current = null;
 
             // Show success state and close dialog
             setPurchaseSuccess(true);
             setIsDialogOpen(false);
 
-            // Reset quantity for next purchase
+            // Reset quantity and coupon for next purchase
             setSelectedQuantity(1);
+            handleRemoveCoupon();
 
             setTimeout(() => setPurchaseSuccess(false), 2000);
 
             toast({
                 title: "Purchase successful!",
-                description: `You purchased ${selectedQuantity} ${sweet.name}${selectedQuantity > 1 ? 's' : ''} for ₹${totalPrice}`,
+                description: `You purchased ${selectedQuantity} ${sweet.name}${selectedQuantity > 1 ? 's' : ''} for ${totalPrice}`,
             });
-        } catch (error: any) {
+        } catch (error) {
+            const code = getApiError(error)?.error?.code;
+            if (code === "RESERVATION_EXPIRED" || code === "RESERVATION_NOT_FOUND") {
+                // Retrying buys without the hold
+                setHold(null);
+            }
             toast({
                 title: "Purchase failed",
-                description:
-                    error.response?.data?.message ??
-                    "Failed to purchase sweet. Please try again.",
+                description: describePurchaseError(error),
                 variant: "destructive",
             });
         } finally {
@@ -135,6 +344,21 @@ export const PurchaseButton: React.FC<PurchaseButtonProps> = ({
         }
     };
 
+    /**
+     * Add the selected quantity to the cart instead of buying immediately
+     */
+    const handleAddToCart = async () => {
+        if (isOutOfStock || selectedQuantity <= 0) return;
+
+        try {
+            await addToCart(sweet.id, selectedQuantity);
+            setIsDialogOpen(false);
+            setSelectedQuantity(1);
+        } catch {
+            // Cart store already surfaced the error toast
+        }
+    };
+
     /**
      * Adjust selected quantity with bounds checking
      */
@@ -173,8 +397,8 @@ export const PurchaseButton: React.FC<PurchaseButtonProps> = ({
         );
     }
 
-    // Out of stock state
-    if (isOutOfStock) {
+    // Out of stock state; an open dialog stays up to explain that the sweet just sold out
+    if (isOutOfStock && !isDialogOpen) {
         return (
             <Button
                 className={cn(
@@ -191,6 +415,24 @@ export const PurchaseButton: React.FC<PurchaseButtonProps> = ({
         );
     }
 
+    // Browsing the public catalogue; purchasing needs an account
+    if (!isAuthenticated) {
+        return (
+            <Button
+                onClick={handleLoginPrompt}
+                className={cn(
+                    "flex items-center justify-center gap-2 transition-all duration-200",
+                    className
+                )}
+                variant={variant}
+                size={size}
+            >
+                <IconLogin className="h-4 w-4" />
+                Sign in to buy • {price}
+            </Button>
+        );
+    }
+
     // Simple purchase button (no quantity selection)
     if (!showQuantitySelector) {
         return (
@@ -212,7 +454,7 @@ export const PurchaseButton: React.FC<PurchaseButtonProps> = ({
                 ) : (
                     <>
                         <IconShoppingCart className="h-4 w-4" />
-                        Buy Now • ₹{price}
+                        Buy Now • {price}
                     </>
                 )}
             </Button>
@@ -233,10 +475,10 @@ export const PurchaseButton: React.FC<PurchaseButtonProps> = ({
                     size={size}
                 >
                     <IconShoppingCart className="h-4 w-4" />
-                    Purchase • ₹{price}
+                    Purchase • {price}
                     {isLowStock && (
                         <Badge variant="outline" className="ml-2 text-xs">
-                            Only {sweet.quantity} left
+                            Only {stock} left
                         </Badge>
                     )}
                 </Button>
@@ -252,7 +494,7 @@ export const PurchaseButton: React.FC<PurchaseButtonProps> = ({
                         Select the quantity you want to purchase.
                         {isLowStock && (
                             <span className="text-orange-600 font-medium">
-                                {" "}Only {sweet.quantity} items remaining in stock.
+                                {" "}Only {stock} items remaining in stock.
                             </span>
                         )}
                     </DialogDescription>
@@ -263,13 +505,26 @@ export const PurchaseButton: React.FC<PurchaseButtonProps> = ({
                     <div className="flex items-center justify-between p-3 rounded-lg border bg-muted/30 xs:p-4">
                         <div>
                             <h4 className="font-semibold text-responsive-sm">{sweet.name}</h4>
-                            <p className="text-responsive-xs text-muted-foreground">₹{price} per item</p>
+                            <p className="text-responsive-xs text-muted-foreground">{price} per item</p>
                         </div>
                         <Badge variant="outline" className="text-xs">
-                            {sweet.quantity} in stock
+                            {stock} in stock
                         </Badge>
                     </div>
 
+                    {hold && (
+                        <p className="flex items-center gap-2 text-responsive-xs text-muted-foreground">
+                            <IconClock className="h-4 w-4" />
+                            {hold.reservation.quantity} held for you for {formatTimeLeft(new Date(hold.reservation.expiresAt).getTime() - now)}
+                        </p>
+                    )}
+
+                    {stockNotice && (
+                        <p role="alert" className="rounded-lg border border-orange-300 bg-orange-50 p-3 text-responsive-sm font-medium text-orange-700">
+                            {stockNotice}
+                        </p>
+                    )}
+
                     {/* Quantity selector */}
                     <div className="space-y-2">
                         <label className="text-responsive-sm font-medium">Quantity</label>
@@ -313,10 +568,79 @@ export const PurchaseButton: React.FC<PurchaseButtonProps> = ({
                         )}
                     </div>
 
+                    {/* Coupon code */}
+                    <div className="space-y-2">
+                        <label htmlFor={`coupon-${sweet.id}`} className="text-responsive-sm font-medium">Coupon code</label>
+                        {appliedCoupon ? (
+                            <div className="flex items-center justify-between rounded-lg border border-dashed p-2 pl-3">
+                                <span className="flex items-center gap-2 text-responsive-sm font-medium">
+                                    <IconDiscount className="h-4 w-4 text-green-600" />
+                                    {appliedCoupon.toUpperCase()}
+                                </span>
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={handleRemoveCoupon}
+                                    aria-label="Remove coupon"
+                                    className="h-8 w-8 p-0"
+                                >
+                                    <IconX className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        ) : (
+                            <div className="flex items-center gap-2">
+                                <Input
+                                    id={`coupon-${sweet.id}`}
+                                    value={couponInput}
+                                    onChange={(e) => setCouponInput(e.target.value)}
+                                    onKeyDown={(e) => e.key === "Enter" && handleApplyCoupon()}
+                                    placeholder="Enter code"
+                                    className="flex-1 text-responsive-sm uppercase"
+                                />
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={handleApplyCoupon}
+                                    disabled={!couponInput.trim()}
+                                    className="h-10"
+                                >
+                                    Apply
+                                </Button>
+                            </div>
+                        )}
+                        {couponError && (
+                            <p className="text-xs text-destructive">{couponError}</p>
+                        )}
+                    </div>
+
                     {/* Total price */}
-                    <div className="flex items-center justify-between p-3 rounded-lg border bg-primary/5 xs:p-4">
-                        <span className="font-medium text-responsive-sm">Total Price:</span>
-                        <span className="text-responsive-lg font-bold">₹{totalPrice}</span>
+                    <div className="space-y-1.5 p-3 rounded-lg border bg-primary/5 xs:p-4">
+                        {currentQuote && currentQuote.discount > 0 && (
+                            <>
+                                <div className="flex items-center justify-between text-responsive-sm text-muted-foreground">
+                                    <span>Subtotal</span>
+                                    <span>{formatMoney(currentQuote.subtotal, currentQuote.currency)}</span>
+                                </div>
+                                {currentQuote.promotions.map((promotion) => (
+                                    <div
+                                        key={promotion.promotionId}
+                                        className="flex items-center justify-between text-responsive-sm text-green-700 dark:text-green-400"
+                                    >
+                                        <span className="truncate pr-2">
+                                            {promotion.name}
+                                            {promotion.code && ` (${promotion.code})`}
+                                        </span>
+                                        <span>-{formatMoney(promotion.discount, currentQuote.currency)}</span>
+                                    </div>
+                                ))}
+                            </>
+                        )}
+                        <div className="flex items-center justify-between">
+                            <span className="font-medium text-responsive-sm">Total Price:</span>
+                            <span className="text-responsive-lg font-bold">{totalPrice}</span>
+                        </div>
                     </div>
                 </div>
 
@@ -330,10 +654,20 @@ export const PurchaseButton: React.FC<PurchaseButtonProps> = ({
                     >
                         Cancel
                     </Button>
+                    <Button
+                        type="button"
+                        variant="secondary"
+                        onClick={handleAddToCart}
+                        disabled={isPurchasing || isCartLoading || selectedQuantity <= 0 || selectedQuantity > stock}
+                        className="touch-target flex w-full items-center gap-2 xs:w-auto"
+                    >
+                        <IconShoppingBagPlus className="h-3.5 w-3.5 xs:h-4 xs:w-4" />
+                        <span className="text-responsive-xs">Add to Cart</span>
+                    </Button>
                     <Button
                         type="button"
                         onClick={handleQuantityPurchase}
-                        disabled={isPurchasing || selectedQuantity <= 0 || selectedQuantity > sweet.quantity}
+                        disabled={isPurchasing || selectedQuantity <= 0 || selectedQuantity > stock}
                         className="touch-target flex w-full items-center gap-2 xs:w-auto"
                     >
                         {isPurchasing ? (
@@ -1,4 +1,5 @@
 import React, { useState } from "react";
+import { Link } from "react-router-dom";
 import {
 	Card,
 	CardContent,
@@ -20,39 +21,46 @@ import {
 import { PurchaseButton } from "./PurchaseButton";
 import { SweetForm } from "./SweetForm";
 import { useSweetStore } from "@/store/sweetStore";
-import { useAuthStore } from "@/store/authStore";
+import { usePermission } from "@/hooks/use-permission";
 import { useToast } from "@/hooks/use-toast";
 import {
 	IconEdit,
-	IconTrash,
+	IconArchive,
 	IconPackage,
 	IconTrendingUp,
-	IconAlertTriangle
+	IconAlertTriangle,
+	IconPhoto
 } from "@tabler/icons-react";
 import { cn } from "@/lib/utils";
-import type { Sweet } from "@/types";
+import { assetUrl } from "@/services/api";
+import { formatMoney } from "@/utils/money";
+import type { CatalogueSweet, Sweet } from "@/types";
 
 interface SweetCardProps {
-	sweet: Sweet;
+	sweet: Sweet | CatalogueSweet;
 	className?: string;
 	style?: React.CSSProperties;
 }
 
 export const SweetCard: React.FC<SweetCardProps> = ({ sweet, className, style }) => {
 	const { deleteSweet, isLoading } = useSweetStore();
-	const { user, isAdmin } = useAuthStore();
+	const canEdit = usePermission("sweet:update");
+	const canArchive = usePermission("sweet:delete");
 	const { toast } = useToast();
 	const [showDeleteDialog, setShowDeleteDialog] = useState(false);
 	const [showEditDialog, setShowEditDialog] = useState(false);
 	const [isDeleting, setIsDeleting] = useState(false);
 
-	const isOutOfStock = sweet.quantity <= 0;
-	const isLowStock = sweet.quantity > 0 && sweet.quantity <= 5;
-	const price = sweet.price && !isNaN(sweet.price) ? sweet.price : 0;
+	// Units held for shoppers mid-purchase are not for sale
+	const isOutOfStock = sweet.available <= 0;
+	const isLowStock = sweet.available > 0 && sweet.available <= sweet.reorderPoint;
+	// Public catalogue sweets lack the stock settings the edit form needs
+	const editableSweet = "reorderQuantity" in sweet ? sweet : null;
+	const primaryImage = sweet.images?.find((image) => image.isPrimary) ?? sweet.images?.[0];
 
 	/**
-	 * Handle sweet deletion with proper error handling and UI feedback
-	 * Requirement 8.3: Send delete request to backend API
+	 * Handle archiving with proper error handling and UI feedback
+	 * Requirement 8.3: Send archive request to backend API
 	 * Requirement 8.4: Remove sweet from display immediately on success
 	 * Requirement 8.5: Display error message on failure
 	 */
@@ -62,16 +70,16 @@ export const SweetCard: React.FC<SweetCardProps> = ({ sweet, className, style })
 		try {
 			await deleteSweet(sweet.id);
 			toast({
-				title: "Sweet deleted successfully",
-				description: `${sweet.name} has been removed from inventory`,
+				title: "Sweet archived successfully",
+				description: `${sweet.name} can be restored from the admin panel`,
 			});
 			setShowDeleteDialog(false);
 		} catch (error: any) {
 			toast({
-				title: "Delete failed",
+				title: "Archive failed",
 				description:
 					error.response?.data?.message ??
-					"Failed to delete sweet. Please try again.",
+					"Failed to archive sweet. Please try again.",
 				variant: "destructive",
 			});
 		} finally {
@@ -104,7 +112,7 @@ export const SweetCard: React.FC<SweetCardProps> = ({ sweet, className, style })
 			style={style}
 		>
 			{/* Trending badge for popular items */}
-			{sweet.quantity < 10 && (
+			{sweet.available < 10 && (
 				<div className="absolute top-4 right-4 z-10">
 					<Badge variant="secondary" className="text-xs font-medium">
 						<IconTrendingUp className="h-3 w-3 mr-1" />
@@ -113,16 +121,33 @@ export const SweetCard: React.FC<SweetCardProps> = ({ sweet, className, style })
 				</div>
 			)}
 
+			<Link to={`/sweets/${sweet.id}`} className="block aspect-[4/3] overflow-hidden bg-muted/40" tabIndex={-1}>
+				{primaryImage ? (
+					<img
+						src={assetUrl(primaryImage.thumbnailUrl)}
+						alt={sweet.name}
+						className="h-full w-full object-cover transition-transform duration-300 group-hover:scale-105"
+						loading="lazy"
+					/>
+				) : (
+					<div className="flex h-full w-full items-center justify-center text-muted-foreground">
+						<IconPhoto className="h-10 w-10" />
+					</div>
+				)}
+			</Link>
+
 			<CardHeader className="space-y-3 pb-3 pt-4 xs:space-y-4 xs:pb-4 xs:pt-6">
 				<Badge
 					variant="outline"
 					className="w-fit rounded-full px-2 py-1 text-xs font-medium capitalize xs:px-3 xs:py-1.5"
 				>
-					{sweet.category}
+					{sweet.category.name}
 				</Badge>
 
 				<CardTitle className="text-responsive-lg font-bold text-foreground leading-tight">
-					{sweet.name}
+					<Link to={`/sweets/${sweet.id}`} className="hover:underline">
+						{sweet.name}
+					</Link>
 				</CardTitle>
 			</CardHeader>
 
@@ -131,7 +156,7 @@ export const SweetCard: React.FC<SweetCardProps> = ({ sweet, className, style })
 				<div className="flex items-center justify-between p-3 rounded-xl border border-border bg-muted/30 xs:p-4">
 					<span className="text-xs text-muted-foreground font-medium">Price</span>
 					<span className="text-lg font-bold text-foreground xs:text-xl sm:text-2xl">
-						₹{price}
+						{formatMoney(sweet.price, sweet.currency)}
 					</span>
 				</div>
 
@@ -149,14 +174,14 @@ export const SweetCard: React.FC<SweetCardProps> = ({ sweet, className, style })
 					<div className="flex items-center gap-1.5 xs:gap-2">
 						<IconPackage className="h-3.5 w-3.5 text-muted-foreground xs:h-4 xs:w-4" />
 						<span className="text-xs font-semibold text-foreground xs:text-sm">
-							{sweet.quantity} units
+							{sweet.available} units
 						</span>
 					</div>
 				</div>
 			</CardContent>
 
 			<CardFooter className="flex flex-col gap-2 pb-4 pt-2 xs:gap-3 xs:pb-6">
-				{user && !isAdmin && (
+				{!canEdit && (
 					<PurchaseButton
 						sweet={sweet}
 						className="touch-target h-10 w-full rounded-xl text-xs font-semibold xs:h-12 xs:text-sm"
@@ -164,86 +189,89 @@ export const SweetCard: React.FC<SweetCardProps> = ({ sweet, className, style })
 					/>
 				)}
 
-				{isAdmin && (
+				{((canEdit && editableSweet) || canArchive) && (
 					<div className="flex w-full gap-2 xs:gap-3">
-						<Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
-							<DialogTrigger asChild>
-								<Button
-									variant="outline"
-									className="touch-target flex-1 h-9 rounded-xl text-xs xs:h-10 xs:text-sm"
-								>
-									<IconEdit className="mr-1.5 h-3.5 w-3.5 xs:mr-2 xs:h-4 xs:w-4" />
-									Edit
-								</Button>
-							</DialogTrigger>
-							<DialogContent className="mx-3 w-[calc(100vw-1.5rem)] max-w-2xl safe-area-inset sm:mx-auto sm:w-full">
-								<SweetForm
-									sweet={sweet}
-									onSuccess={handleEditSuccess}
-									onCancel={handleEditCancel}
-								/>
-							</DialogContent>
-						</Dialog>
-
-
-						<Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
-							<DialogTrigger asChild>
-								<Button
-									variant="destructive"
-									className="touch-target flex-1 h-9 rounded-xl text-xs xs:h-10 xs:text-sm"
-									disabled={isLoading || isDeleting}
-								>
-									{isDeleting ? (
-										<span className="h-3.5 w-3.5 animate-spin rounded-full border-2 border-current border-t-transparent xs:h-4 xs:w-4" />
-									) : (
-										<>
-											<IconTrash className="mr-1.5 h-3.5 w-3.5 xs:mr-2 xs:h-4 xs:w-4" />
-											Delete
-										</>
-									)}
-								</Button>
-							</DialogTrigger>
-							<DialogContent className="sm:max-w-md">
-								<DialogHeader>
-									<DialogTitle className="flex items-center gap-2">
-										<IconAlertTriangle className="h-5 w-5 text-destructive" />
-										Confirm Deletion
-									</DialogTitle>
-									<DialogDescription className="text-left">
-										Are you sure you want to delete <strong>"{sweet.name}"</strong>?
-										This action cannot be undone and will permanently remove this sweet from your inventory.
-									</DialogDescription>
-								</DialogHeader>
-								<DialogFooter className="flex-col sm:flex-row gap-2">
+						{canEdit && editableSweet && (
+							<Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
+								<DialogTrigger asChild>
 									<Button
 										variant="outline"
-										onClick={() => setShowDeleteDialog(false)}
-										disabled={isDeleting}
-										className="w-full sm:w-auto"
+										className="touch-target flex-1 h-9 rounded-xl text-xs xs:h-10 xs:text-sm"
 									>
-										Cancel
+										<IconEdit className="mr-1.5 h-3.5 w-3.5 xs:mr-2 xs:h-4 xs:w-4" />
+										Edit
 									</Button>
+								</DialogTrigger>
+								<DialogContent className="mx-3 w-[calc(100vw-1.5rem)] max-w-2xl safe-area-inset sm:mx-auto sm:w-full">
+									<SweetForm
+										sweet={editableSweet}
+										onSuccess={handleEditSuccess}
+										onCancel={handleEditCancel}
+									/>
+								</DialogContent>
+							</Dialog>
+						)}
+
+						{canArchive && (
+							<Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+								<DialogTrigger asChild>
 									<Button
 										variant="destructive"
-										onClick={handleDelete}
-										disabled={isDeleting}
-										className="w-full sm:w-auto"
+										className="touch-target flex-1 h-9 rounded-xl text-xs xs:h-10 xs:text-sm"
+										disabled={isLoading || isDeleting}
 									>
 										{isDeleting ? (
-											<>
-												<span className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
-												Deleting...
-											</>
+											<span className="h-3.5 w-3.5 animate-spin rounded-full border-2 border-current border-t-transparent xs:h-4 xs:w-4" />
 										) : (
 											<>
-												<IconTrash className="mr-2 h-4 w-4" />
-												Delete Sweet
+												<IconArchive className="mr-1.5 h-3.5 w-3.5 xs:mr-2 xs:h-4 xs:w-4" />
+												Archive
 											</>
 										)}
 									</Button>
-								</DialogFooter>
-							</DialogContent>
-						</Dialog>
+								</DialogTrigger>
+								<DialogContent className="sm:max-w-md">
+									<DialogHeader>
+										<DialogTitle className="flex items-center gap-2">
+											<IconAlertTriangle className="h-5 w-5 text-destructive" />
+											Archive Sweet
+										</DialogTitle>
+										<DialogDescription className="text-left">
+											Archive <strong>"{sweet.name}"</strong>? It will be hidden from the catalogue and
+											removed from shoppers' carts. You can restore it from the admin panel.
+										</DialogDescription>
+									</DialogHeader>
+									<DialogFooter className="flex-col sm:flex-row gap-2">
+										<Button
+											variant="outline"
+											onClick={() => setShowDeleteDialog(false)}
+											disabled={isDeleting}
+											className="w-full sm:w-auto"
+										>
+											Cancel
+										</Button>
+										<Button
+											variant="destructive"
+											onClick={handleDelete}
+											disabled={isDeleting}
+											className="w-full sm:w-auto"
+										>
+											{isDeleting ? (
+												<>
+													<span className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+													Archiving...
+												</>
+											) : (
+												<>
+													<IconArchive className="mr-2 h-4 w-4" />
+													Archive Sweet
+												</>
+											)}
+										</Button>
+									</DialogFooter>
+								</DialogContent>
+							</Dialog>
+						)}
 					</div>
 				)}
 			</CardFooter>
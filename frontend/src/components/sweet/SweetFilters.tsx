@@ -4,6 +4,10 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useSweetStore } from '@/store/sweetStore';
+import { useCategoryStore } from '@/store/categoryStore';
+import { CategorySelect } from './CategorySelect';
+import { formatMoney, fromMinorUnits, toMinorUnits } from '@/utils/money';
+import type { SweetSort } from '@/types';
 import {
     IconSearch,
     IconFilter,
@@ -11,11 +15,40 @@ import {
     IconAdjustments
 } from '@tabler/icons-react';
 
+/** Catalogue orderings offered in the sort selector */
+const SORT_OPTIONS: { label: string; value: SweetSort }[] = [
+    { label: 'Newest first', value: { sortBy: 'createdAt', order: 'desc' } },
+    { label: 'Oldest first', value: { sortBy: 'createdAt', order: 'asc' } },
+    { label: 'Name: A to Z', value: { sortBy: 'name', order: 'asc' } },
+    { label: 'Name: Z to A', value: { sortBy: 'name', order: 'desc' } },
+    { label: 'Price: low to high', value: { sortBy: 'price', order: 'asc' } },
+    { label: 'Price: high to low', value: { sortBy: 'price', order: 'desc' } },
+    { label: 'Stock: low to high', value: { sortBy: 'quantity', order: 'asc' } },
+    { label: 'Stock: high to low', value: { sortBy: 'quantity', order: 'desc' } },
+];
+
+/**
+ * Parse a price input value in major units to the minor units the API
+ * filters on, treating empty or invalid input as no filter
+ */
+const parsePrice = (value: string): number | undefined => {
+    const price = parseFloat(value);
+    return value === '' || isNaN(price) ? undefined : toMinorUnits(price);
+};
+
+/**
+ * Show a minor-unit price filter in its input, in major units
+ */
+const toPriceInput = (price: number | undefined): string =>
+    price === undefined ? '' : fromMinorUnits(price).toString();
+
 /**
  * SweetFilters component provides search and filtering functionality
  * 
  * Features:
  * - Real-time search with debouncing
+ * - Server-side sorting
+ * - Category filtering, including subcategories
  * - Price range filtering
  * - In-stock availability filter
  * - Clear filters functionality
@@ -26,17 +59,21 @@ export const SweetFilters: React.FC = () => {
     const {
         searchTerm,
         filters,
+        sort,
         setSearchTerm,
         setFilters,
+        setSort,
         clearFilters,
-        filteredSweets,
-        sweets
+        sweets,
+        pagination,
+        isLoading
     } = useSweetStore();
+    const categories = useCategoryStore(state => state.categories);
 
     // Local state for controlled inputs
     const [localSearchTerm, setLocalSearchTerm] = useState(searchTerm);
-    const [localMinPrice, setLocalMinPrice] = useState(filters.minPrice?.toString() || '');
-    const [localMaxPrice, setLocalMaxPrice] = useState(filters.maxPrice?.toString() || '');
+    const [localMinPrice, setLocalMinPrice] = useState(toPriceInput(filters.minPrice));
+    const [localMaxPrice, setLocalMaxPrice] = useState(toPriceInput(filters.maxPrice));
     const [showFilters, setShowFilters] = useState(false);
 
     // Debounced search effect
@@ -54,23 +91,50 @@ export const SweetFilters: React.FC = () => {
     }, [searchTerm]);
 
     useEffect(() => {
-        setLocalMinPrice(filters.minPrice?.toString() || '');
-        setLocalMaxPrice(filters.maxPrice?.toString() || '');
+        setLocalMinPrice(toPriceInput(filters.minPrice));
+        setLocalMaxPrice(toPriceInput(filters.maxPrice));
     }, [filters.minPrice, filters.maxPrice]);
 
+    // Debounced price range effect, as each change reloads from the server
+    useEffect(() => {
+        const timeoutId = setTimeout(() => {
+            const minPrice = parsePrice(localMinPrice);
+            const maxPrice = parsePrice(localMaxPrice);
+
+            if (minPrice !== filters.minPrice || maxPrice !== filters.maxPrice) {
+                setFilters({ minPrice, maxPrice });
+            }
+        }, 300);
+
+        return () => clearTimeout(timeoutId);
+    }, [localMinPrice, localMaxPrice, filters.minPrice, filters.maxPrice, setFilters]);
+
     /**
      * Handle price filter changes
      */
     const handlePriceFilterChange = useCallback((type: 'min' | 'max', value: string) => {
-        const numValue = value === '' ? undefined : parseFloat(value);
-
         if (type === 'min') {
             setLocalMinPrice(value);
-            setFilters({ minPrice: numValue });
         } else {
             setLocalMaxPrice(value);
-            setFilters({ maxPrice: numValue });
         }
+    }, []);
+
+    /**
+     * Handle sort selection, encoded as "field:order"
+     */
+    const handleSortChange = useCallback((value: string) => {
+        const option = SORT_OPTIONS.find(({ value: option }) => `${option.sortBy}:${option.order}` === value);
+        if (option) {
+            setSort(option.value);
+        }
+    }, [setSort]);
+
+    /**
+     * Handle category selection; the empty option clears the filter
+     */
+    const handleCategoryChange = useCallback((slug: string) => {
+        setFilters({ category: slug || undefined });
     }, [setFilters]);
 
     /**
@@ -94,6 +158,7 @@ export const SweetFilters: React.FC = () => {
      * Check if any filters are active
      */
     const hasActiveFilters = searchTerm ||
+        filters.category ||
         filters.minPrice !== undefined ||
         filters.maxPrice !== undefined ||
         filters.inStock;
@@ -103,11 +168,14 @@ export const SweetFilters: React.FC = () => {
      */
     const activeFilterCount = [
         searchTerm,
+        filters.category,
         filters.minPrice !== undefined,
         filters.maxPrice !== undefined,
         filters.inStock
     ].filter(Boolean).length;
 
+    const selectedCategoryName = categories.find(category => category.slug === filters.category)?.name ?? filters.category;
+
     return (
         <div className="space-responsive">
             {/* Search Bar */}
@@ -132,6 +200,19 @@ export const SweetFilters: React.FC = () => {
                     )}
                 </div>
 
+                <select
+                    aria-label="Sort sweets"
+                    value={`${sort.sortBy}:${sort.order}`}
+                    onChange={(e) => handleSortChange(e.target.value)}
+                    className="h-9 rounded-md border border-input bg-background px-2 text-xs ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 xs:h-10 xs:px-3 xs:text-sm sm:h-11"
+                >
+                    {SORT_OPTIONS.map(({ label, value }) => (
+                        <option key={`${value.sortBy}:${value.order}`} value={`${value.sortBy}:${value.order}`}>
+                            {label}
+                        </option>
+                    ))}
+                </select>
+
                 <Button
                     variant="outline"
                     onClick={() => setShowFilters(!showFilters)}
@@ -172,6 +253,19 @@ export const SweetFilters: React.FC = () => {
                         </div>
                     </CardHeader>
                     <CardContent className="space-y-4">
+                        {/* Category Filter */}
+                        <div className="space-y-3">
+                            <h4 className="font-medium text-responsive-sm">Category</h4>
+                            <CategorySelect
+                                aria-label="Filter by category"
+                                valueField="slug"
+                                placeholder="All categories"
+                                value={filters.category ?? ''}
+                                onChange={(e) => handleCategoryChange(e.target.value)}
+                                className="h-9 xs:h-10"
+                            />
+                        </div>
+
                         {/* Price Range Filters */}
                         <div className="space-y-3">
                             <h4 className="font-medium text-responsive-sm">Price Range</h4>
@@ -228,7 +322,7 @@ export const SweetFilters: React.FC = () => {
             {/* Results Summary */}
             <div className="flex flex-col gap-2 text-xs text-muted-foreground xs:flex-row xs:items-center xs:justify-between xs:text-sm">
                 <div>
-                    Showing {filteredSweets.length} of {sweets.length} sweets
+                    Showing {sweets.length} of {pagination?.total ?? sweets.length} sweets
                     {hasActiveFilters && (
                         <span className="ml-1">(filtered)</span>
                     )}
@@ -244,14 +338,19 @@ export const SweetFilters: React.FC = () => {
                                     Search: "{searchTerm.length > 10 ? searchTerm.substring(0, 10) + '...' : searchTerm}"
                                 </Badge>
                             )}
+                            {filters.category && (
+                                <Badge variant="secondary" className="text-xs">
+                                    Category: {selectedCategoryName}
+                                </Badge>
+                            )}
                             {filters.minPrice !== undefined && (
                                 <Badge variant="secondary" className="text-xs">
-                                    Min: ₹{filters.minPrice}
+                                    Min: {formatMoney(filters.minPrice)}
                                 </Badge>
                             )}
                             {filters.maxPrice !== undefined && (
                                 <Badge variant="secondary" className="text-xs">
-                                    Max: ₹{filters.maxPrice}
+                                    Max: {formatMoney(filters.maxPrice)}
                                 </Badge>
                             )}
                             {filters.inStock && (
@@ -265,7 +364,7 @@ export const SweetFilters: React.FC = () => {
             </div>
 
             {/* No Results State */}
-            {filteredSweets.length === 0 && sweets.length > 0 && hasActiveFilters && (
+            {sweets.length === 0 && !isLoading && hasActiveFilters && (
                 <Card className="p-8 text-center">
                     <CardContent>
                         <div className="space-y-4">
@@ -1,12 +1,18 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useSweetStore } from '@/store/sweetStore';
+import { useCategoryStore } from '@/store/categoryStore';
 import { createSweetSchema, type CreateSweetFormData } from '@/schemas';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { CategorySelect } from './CategorySelect';
+import { SweetImageManager } from './SweetImageManager';
+import { PriceHistoryTimeline } from './PriceHistoryTimeline';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
+import { getApiError, getFieldErrors } from '@/utils/errorHandling';
+import { DEFAULT_CURRENCY, fromMinorUnits, toMinorUnits } from '@/utils/money';
 import type { Sweet } from '@/types';
 
 /**
@@ -32,6 +38,7 @@ interface SweetFormProps {
  * Features:
  * - Create new sweets with all required fields
  * - Edit existing sweets with pre-populated data
+ * - Manage product photos of existing sweets
  * - Form validation using Zod schemas
  * - Real-time validation feedback
  * - Loading states during API operations
@@ -64,44 +71,64 @@ export const SweetForm: React.FC<SweetFormProps> = ({
     className = ''
 }) => {
     const { addSweet, updateSweet, isLoading } = useSweetStore();
+    const categoriesLoaded = useCategoryStore(state => state.hasLoaded);
     const { toast } = useToast();
     const isEditMode = !!sweet;
+    // The price field is edited in major units and sent in minor units
+    const currency = sweet?.currency ?? DEFAULT_CURRENCY;
 
     const {
         register,
         handleSubmit,
         formState: { errors, isSubmitting },
         reset,
+        setValue,
+        setError,
     } = useForm<CreateSweetFormData>({
         resolver: zodResolver(createSweetSchema),
         mode: 'onBlur',
         defaultValues: isEditMode ? {
             name: sweet.name,
-            category: sweet.category,
-            price: sweet.price,
+            categoryId: sweet.categoryId,
+            price: fromMinorUnits(sweet.price, currency),
             quantity: sweet.quantity,
+            reorderPoint: sweet.reorderPoint,
+            reorderQuantity: sweet.reorderQuantity,
         } : {
             name: '',
-            category: '',
+            categoryId: '',
             price: 0,
             quantity: 0,
+            reorderPoint: 5,
+            reorderQuantity: 20,
         }
     });
 
+    // The picker has no options until categories load, so select the sweet's category once they do
+    useEffect(() => {
+        if (sweet && categoriesLoaded) {
+            setValue('categoryId', sweet.categoryId);
+        }
+    }, [sweet, categoriesLoaded, setValue]);
+
     /**
      * Handles form submission for creating or updating a sweet
      * 
      * @param data - Validated form data
      */
-    const onSubmit = async (data: CreateSweetFormData) => {
+    const onSubmit = async (formData: CreateSweetFormData) => {
+        const data = { ...formData, price: toMinorUnits(formData.price, currency) };
+
         try {
             if (isEditMode && sweet) {
                 // Update existing sweet - only send changed fields
                 const updateData: any = {};
                 if (data.name !== sweet.name) updateData.name = data.name;
-                if (data.category !== sweet.category) updateData.category = data.category;
+                if (data.categoryId !== sweet.categoryId) updateData.categoryId = data.categoryId;
                 if (data.price !== sweet.price) updateData.price = data.price;
                 if (data.quantity !== sweet.quantity) updateData.quantity = data.quantity;
+                if (data.reorderPoint !== sweet.reorderPoint) updateData.reorderPoint = data.reorderPoint;
+                if (data.reorderQuantity !== sweet.reorderQuantity) updateData.reorderQuantity = data.reorderQuantity;
 
                 await updateSweet(sweet.id, updateData);
 
@@ -127,8 +154,20 @@ export const SweetForm: React.FC<SweetFormProps> = ({
             // Execute success callback
             onSuccess?.();
         } catch (error: any) {
+            // Show server-side field errors, such as a taken name, next to their inputs
+            const apiError = getApiError(error);
+            const fieldErrors = getFieldErrors(error);
+            if (apiError?.error?.field && !fieldErrors[apiError.error.field]) {
+                fieldErrors[apiError.error.field] = [apiError.message];
+            }
+            Object.entries(fieldErrors).forEach(([field, messages]) => {
+                if (field in createSweetSchema.shape) {
+                    setError(field as keyof CreateSweetFormData, { type: 'server', message: messages[0] });
+                }
+            });
+
             // Error handling with toast notification
-            const errorMessage = error.response?.data?.message ||
+            const errorMessage = apiError?.message ||
                 `Failed to ${isEditMode ? 'update' : 'add'} sweet. Please try again.`;
 
             toast({
@@ -189,22 +228,20 @@ export const SweetForm: React.FC<SweetFormProps> = ({
                     {/* Category Field */}
                     <div className="space-y-2">
                         <label
-                            htmlFor="category"
+                            htmlFor="categoryId"
                             className="text-responsive-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
                         >
                             Category *
                         </label>
-                        <Input
-                            id="category"
-                            type="text"
-                            placeholder="Enter category"
-                            {...register('category')}
-                            className={`h-10 xs:h-11 ${errors.category ? 'border-red-500 focus-visible:ring-red-500' : ''}`}
+                        <CategorySelect
+                            id="categoryId"
+                            {...register('categoryId')}
+                            className={`h-10 xs:h-11 ${errors.categoryId ? 'border-red-500 focus-visible:ring-red-500' : ''}`}
                             disabled={isLoading || isSubmitting}
                         />
-                        {errors.category && (
+                        {errors.categoryId && (
                             <p className="text-responsive-xs text-red-500 mt-1">
-                                {errors.category.message}
+                                {errors.categoryId.message}
                             </p>
                         )}
                     </div>
@@ -270,6 +307,77 @@ export const SweetForm: React.FC<SweetFormProps> = ({
                             )}
                         </div>
                     </div>
+
+                    {/* Reorder Settings Row */}
+                    <div className="grid grid-cols-1 gap-4 xs:grid-cols-2">
+                        {/* Reorder Point Field */}
+                        <div className="space-y-2">
+                            <label
+                                htmlFor="reorderPoint"
+                                className="text-responsive-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                            >
+                                Reorder Point *
+                            </label>
+                            <Input
+                                id="reorderPoint"
+                                type="number"
+                                min="0"
+                                max="10000"
+                                placeholder="5"
+                                {...register('reorderPoint', {
+                                    valueAsNumber: true,
+                                    setValueAs: (value) => value === '' ? undefined : parseInt(value, 10)
+                                })}
+                                className={`h-10 xs:h-11 ${errors.reorderPoint ? 'border-red-500 focus-visible:ring-red-500' : ''}`}
+                                disabled={isLoading || isSubmitting}
+                            />
+                            {errors.reorderPoint && (
+                                <p className="text-responsive-xs text-red-500 mt-1">
+                                    {errors.reorderPoint.message}
+                                </p>
+                            )}
+                        </div>
+
+                        {/* Reorder Quantity Field */}
+                        <div className="space-y-2">
+                            <label
+                                htmlFor="reorderQuantity"
+                                className="text-responsive-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                            >
+                                Reorder Quantity *
+                            </label>
+                            <Input
+                                id="reorderQuantity"
+                                type="number"
+                                min="1"
+                                max="10000"
+                                placeholder="20"
+                                {...register('reorderQuantity', {
+                                    valueAsNumber: true,
+                                    setValueAs: (value) => value === '' ? undefined : parseInt(value, 10)
+                                })}
+                                className={`h-10 xs:h-11 ${errors.reorderQuantity ? 'border-red-500 focus-visible:ring-red-500' : ''}`}
+                                disabled={isLoading || isSubmitting}
+                            />
+                            {errors.reorderQuantity && (
+                                <p className="text-responsive-xs text-red-500 mt-1">
+                                    {errors.reorderQuantity.message}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Photos and scheduled prices are saved as they change, so they need an existing sweet */}
+                    {isEditMode && sweet ? (
+                        <>
+                            <SweetImageManager sweet={sweet} />
+                            <PriceHistoryTimeline sweet={sweet} />
+                        </>
+                    ) : (
+                        <p className="text-responsive-xs text-muted-foreground">
+                            Photos can be added once the sweet is saved.
+                        </p>
+                    )}
                 </CardContent>
 
                 <CardFooter className="flex flex-col gap-2 p-4 xs:gap-3 xs:p-6 sm:flex-row">
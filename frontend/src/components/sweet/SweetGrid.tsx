@@ -1,18 +1,25 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { SweetCard } from './SweetCard';
 import { LoadingSpinner } from '@/components/ui/loading';
 import { Card, CardContent } from '@/components/ui/card';
-import type { Sweet } from '@/types';
+import { Button } from '@/components/ui/button';
+import type { CatalogueSweet, Sweet } from '@/types';
 
 interface SweetGridProps {
-    /** Array of sweets to display */
-    sweets: Sweet[];
+    /** Array of sweets to display; public catalogue sweets carry fewer fields */
+    sweets: Array<Sweet | CatalogueSweet>;
     /** Loading state */
     isLoading?: boolean;
     /** Error message to display */
     error?: string | null;
     /** Optional className for styling */
     className?: string;
+    /** Whether the server has further pages after the loaded sweets */
+    hasMore?: boolean;
+    /** Loading state for the next page */
+    isLoadingMore?: boolean;
+    /** Called when the end of the grid scrolls into view */
+    onLoadMore?: () => void;
 }
 
 /**
@@ -23,19 +30,46 @@ interface SweetGridProps {
  * - Loading state with skeleton cards
  * - Empty state when no sweets available
  * - Error state display
+ * - Infinite scroll that requests the next page near the end of the grid
  * - Optimized for various screen sizes
  * 
  * @param sweets - Array of sweet data to display
  * @param isLoading - Whether data is currently loading
  * @param error - Error message to display if any
  * @param className - Optional CSS classes
+ * @param hasMore - Whether more sweets can be loaded
+ * @param isLoadingMore - Whether the next page is currently loading
+ * @param onLoadMore - Callback requesting the next page
  */
 export const SweetGrid: React.FC<SweetGridProps> = ({
     sweets,
     isLoading = false,
     error = null,
-    className = ''
+    className = '',
+    hasMore = false,
+    isLoadingMore = false,
+    onLoadMore
 }) => {
+    const sentinelRef = useRef<HTMLDivElement>(null);
+
+    // Request the next page once the sentinel below the grid becomes visible
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!sentinel || !hasMore || !onLoadMore) return;
+
+        const observer = new IntersectionObserver(
+            (entries) => {
+                if (entries[0]?.isIntersecting) {
+                    onLoadMore();
+                }
+            },
+            { rootMargin: '200px' }
+        );
+
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [hasMore, onLoadMore, isLoading, sweets.length]);
+
     // Loading state - show skeleton cards
     if (isLoading) {
         return (
@@ -87,15 +121,30 @@ export const SweetGrid: React.FC<SweetGridProps> = ({
 
     // Main grid display
     return (
-        <div className={`grid-responsive-cards ${className}`}>
-            {sweets.map((sweet, index) => (
-                <SweetCard
-                    key={sweet.id}
-                    sweet={sweet}
-                    className={`animate-in fade-in-50 slide-in-from-bottom-4 duration-300`}
-                    style={{ animationDelay: `${index * 50}ms` }}
-                />
-            ))}
+        <div className="space-responsive">
+            <div className={`grid-responsive-cards ${className}`}>
+                {sweets.map((sweet, index) => (
+                    <SweetCard
+                        key={sweet.id}
+                        sweet={sweet}
+                        className={`animate-in fade-in-50 slide-in-from-bottom-4 duration-300`}
+                        style={{ animationDelay: `${(index % 20) * 50}ms` }}
+                    />
+                ))}
+            </div>
+
+            {/* Next page trigger */}
+            {hasMore && onLoadMore && (
+                <div ref={sentinelRef} className="flex justify-center py-4">
+                    {isLoadingMore ? (
+                        <LoadingSpinner className="text-muted-foreground" />
+                    ) : (
+                        <Button variant="outline" onClick={onLoadMore}>
+                            Load more
+                        </Button>
+                    )}
+                </div>
+            )}
         </div>
     );
 };
@@ -0,0 +1,175 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { assetUrl, sweetImageAPI } from '@/services/api';
+import { useSweetStore } from '@/store/sweetStore';
+import { showErrorToast, getErrorMessage } from '@/utils/errorHandling';
+import { cn } from '@/lib/utils';
+import { IconChevronLeft, IconChevronRight, IconStar, IconTrash, IconUpload } from '@tabler/icons-react';
+import type { Sweet, SweetImage } from '@/types';
+
+// Matches the formats and size the server accepts
+const ACCEPTED_TYPES = 'image/jpeg,image/png,image/webp';
+const MAX_FILE_MB = 5;
+
+interface SweetImageManagerProps {
+    sweet: Sweet;
+    className?: string;
+}
+
+/**
+ * SweetImageManager component for staff to maintain a sweet's product photos
+ *
+ * Features:
+ * - Upload JPEG, PNG or WebP photos, several at a time
+ * - Move photos earlier or later in the gallery
+ * - Choose the primary photo shown on catalogue cards
+ * - Delete photos
+ *
+ * Every change is saved immediately and copied into the sweet store so
+ * cards pick up the new primary photo without a reload.
+ */
+export const SweetImageManager: React.FC<SweetImageManagerProps> = ({ sweet, className }) => {
+    const { applySweetUpdates } = useSweetStore();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [images, setImages] = useState<SweetImage[]>(sweet.images ?? []);
+    const [isWorking, setIsWorking] = useState(false);
+
+    /**
+     * Run an image request and show its result
+     */
+    const run = async (title: string, request: () => Promise<SweetImage[]>) => {
+        setIsWorking(true);
+        try {
+            const updated = await request();
+            setImages(updated);
+            applySweetUpdates([{ ...sweet, images: updated }]);
+        } catch (error) {
+            showErrorToast(title, getErrorMessage(error));
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleFilesSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        event.target.value = '';
+        if (files.length === 0) return;
+
+        await run('Upload failed', () => sweetImageAPI.upload(sweet.id, files));
+    };
+
+    /**
+     * Swap an image with its neighbour in the given direction
+     */
+    const handleMove = (index: number, offset: -1 | 1) => {
+        const ids = images.map(image => image.id);
+        [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+        return run('Reorder failed', () => sweetImageAPI.reorder(sweet.id, ids));
+    };
+
+    return (
+        <div className={cn('space-y-3', className)}>
+            <div className="flex items-center justify-between gap-2">
+                <div>
+                    <p className="text-responsive-sm font-medium leading-none">Photos</p>
+                    <p className="text-responsive-xs text-muted-foreground mt-1">
+                        JPEG, PNG or WebP, up to {MAX_FILE_MB} MB each
+                    </p>
+                </div>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={ACCEPTED_TYPES}
+                    multiple
+                    className="hidden"
+                    onChange={handleFilesSelected}
+                />
+                <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isWorking}
+                >
+                    <IconUpload className="h-4 w-4 mr-2" />
+                    {isWorking ? 'Saving...' : 'Upload'}
+                </Button>
+            </div>
+
+            {images.length === 0 ? (
+                <p className="text-responsive-xs text-muted-foreground rounded-lg border border-dashed border-border p-4 text-center">
+                    No photos yet. The first photo you upload is shown on the catalogue card.
+                </p>
+            ) : (
+                <ul className="grid grid-cols-2 gap-3 xs:grid-cols-3">
+                    {images.map((image, index) => (
+                        <li
+                            key={image.id}
+                            className={cn(
+                                'relative overflow-hidden rounded-lg border bg-muted/30',
+                                image.isPrimary ? 'border-primary ring-2 ring-primary/40' : 'border-border'
+                            )}
+                        >
+                            <img
+                                src={assetUrl(image.thumbnailUrl)}
+                                alt={`${sweet.name} photo ${index + 1}`}
+                                className="aspect-square w-full object-cover"
+                                loading="lazy"
+                            />
+                            {image.isPrimary && (
+                                <Badge className="absolute left-2 top-2 text-xs">Primary</Badge>
+                            )}
+                            <div className="flex items-center justify-between gap-1 p-1">
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    aria-label="Move earlier"
+                                    onClick={() => handleMove(index, -1)}
+                                    disabled={isWorking || index === 0}
+                                >
+                                    <IconChevronLeft className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    aria-label="Make primary"
+                                    onClick={() => run('Update failed', () => sweetImageAPI.setPrimary(sweet.id, image.id))}
+                                    disabled={isWorking || image.isPrimary}
+                                >
+                                    <IconStar className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8 text-destructive"
+                                    aria-label="Delete photo"
+                                    onClick={() => run('Delete failed', () => sweetImageAPI.delete(sweet.id, image.id))}
+                                    disabled={isWorking}
+                                >
+                                    <IconTrash className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    aria-label="Move later"
+                                    onClick={() => handleMove(index, 1)}
+                                    disabled={isWorking || index === images.length - 1}
+                                >
+                                    <IconChevronRight className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
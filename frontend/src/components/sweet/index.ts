@@ -2,4 +2,11 @@ export { SweetCard } from './SweetCard';
 export { SweetGrid } from './SweetGrid';
 export { SweetFilters } from './SweetFilters';
 export { PurchaseButton } from './PurchaseButton';
-export { SweetForm } from './SweetForm';
\ No newline at end of file
+export { SweetForm } from './SweetForm';
+export { SweetImageManager } from './SweetImageManager';
+export { PriceHistoryTimeline } from './PriceHistoryTimeline';
+export { CategorySelect } from './CategorySelect';
+export { CategoryManager } from './CategoryManager';
+export { PromotionManager } from './PromotionManager';
+export { CatalogueFiles } from './CatalogueFiles';
+export { ArchivedSweets } from './ArchivedSweets';
\ No newline at end of file
@@ -1,8 +1,13 @@
-// User roles
-export const USER_ROLES = {
-    USER: 'USER',
-    ADMIN: 'ADMIN',
-} as const;
+import type { Role } from '../types';
+
+// Display names for user roles, from least to most privileged
+export const ROLE_LABELS: Record<Role, string> = {
+    CUSTOMER: 'Customer',
+    CASHIER: 'Cashier',
+    STOCK_CLERK: 'Stock Clerk',
+    MANAGER: 'Manager',
+    ADMIN: 'Admin',
+};
 
 // Local storage keys
 export const STORAGE_KEYS = {
@@ -83,7 +88,7 @@ export const SUCCESS_MESSAGES = {
     LOGOUT_SUCCESS: 'Successfully logged out!',
     SWEET_CREATED: 'Sweet added successfully!',
     SWEET_UPDATED: 'Sweet updated successfully!',
-    SWEET_DELETED: 'Sweet deleted successfully!',
+    SWEET_ARCHIVED: 'Sweet archived successfully!',
     PURCHASE_SUCCESS: 'Purchase completed successfully!',
     RESTOCK_SUCCESS: 'Sweet restocked successfully!',
 } as const;
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { useAuthStore } from '@/store/authStore';
+import type { Permission, User } from '@/types';
+
+/**
+ * Check whether a user's role grants a permission
+ */
+export function hasPermission(user: User | null, permission: Permission): boolean {
+    return user?.permissions?.includes(permission) ?? false;
+}
+
+/**
+ * Whether the signed-in user may perform an action
+ *
+ * Only hides UI the user cannot use; the API enforces the same
+ * permissions on every request.
+ */
+export function usePermission(permission: Permission): boolean {
+    return useAuthStore((state) => hasPermission(state.user, permission));
+}
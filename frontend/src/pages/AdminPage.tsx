@@ -5,30 +5,42 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
 import { useSweetStore } from '@/store/sweetStore';
-import { SweetForm } from '@/components/sweet';
-import { IconCandy, IconPlus, IconEdit, IconTrash, IconRefresh, IconAlertTriangle } from '@tabler/icons-react';
+import { usePermission } from '@/hooks/use-permission';
+import { SweetForm, CategoryManager, PromotionManager, CatalogueFiles, ArchivedSweets } from '@/components/sweet';
+import { formatMoney } from '@/utils/money';
+import { IconCandy, IconPlus, IconEdit, IconArchive, IconRefresh, IconAlertTriangle } from '@tabler/icons-react';
 import type { Sweet } from '@/types';
 
 /**
  * Admin management page component
  * Provides administrative tools for managing sweets inventory
- * Only available to users with admin role
+ * Available to users who may edit sweets; each tool also needs its own permission
  * 
  * Features:
  * - Add new sweets with comprehensive form validation
  * - Edit existing sweets with pre-populated data
- * - Delete sweets with confirmation (to be implemented in task 12)
+ * - Maintain the category tree sweets are filed under
+ * - Run promotions, multi-buys, bundles and coupon codes
+ * - Import and export the catalogue as CSV or JSON, previewing imports first
+ * - Archive sweets with confirmation and restore them from the Archived tab
  * - Real-time inventory management
  * 
- * Scope: Add, Edit, Delete sweets (Requirements 6, 7, 8)
+ * Scope: Add, Edit, Archive sweets (Requirements 6, 7, 8)
  */
 export const AdminPage: React.FC = () => {
     const { toast } = useToast();
-    const { sweets, fetchSweets, deleteSweet, isLoading } = useSweetStore();
+    const { sweets, pagination, fetchSweets, loadMoreSweets, deleteSweet, isLoading, isLoadingMore } = useSweetStore();
     const [showAddForm, setShowAddForm] = useState(false);
     const [editingSweet, setEditingSweet] = useState<Sweet | null>(null);
     const [showDeleteDialog, setShowDeleteDialog] = useState<{ [key: string]: boolean }>({});
     const [deletingSweet, setDeletingSweet] = useState<string | null>(null);
+    const [inventoryTab, setInventoryTab] = useState<'active' | 'archived'>('active');
+    const canCreate = usePermission('sweet:create');
+    const canArchive = usePermission('sweet:delete');
+    const canManageCategories = usePermission('category:manage');
+    const canManagePromotions = usePermission('promotion:manage');
+    const canImport = usePermission('catalogue:import');
+    const canExport = usePermission('catalogue:export');
 
     // Fetch sweets on component mount
     useEffect(() => {
@@ -87,7 +99,7 @@ export const AdminPage: React.FC = () => {
     };
 
     /**
-     * Handle sweet deletion with proper error handling and UI feedback
+     * Archive a sweet with proper error handling and UI feedback
      */
     const handleDelete = async (sweet: Sweet) => {
         setDeletingSweet(sweet.id);
@@ -95,14 +107,14 @@ export const AdminPage: React.FC = () => {
         try {
             await deleteSweet(sweet.id);
             toast({
-                title: "Sweet deleted successfully",
-                description: `${sweet.name} has been removed from inventory`,
+                title: "Sweet archived successfully",
+                description: `${sweet.name} can be restored from the Archived tab`,
             });
             setShowDeleteDialog(prev => ({ ...prev, [sweet.id]: false }));
         } catch (error: any) {
             toast({
-                title: "Delete failed",
-                description: error.response?.data?.message ?? "Failed to delete sweet. Please try again.",
+                title: "Archive failed",
+                description: error.response?.data?.message ?? "Failed to archive sweet. Please try again.",
                 variant: "destructive",
             });
         } finally {
@@ -121,21 +133,23 @@ export const AdminPage: React.FC = () => {
                             <IconRefresh className="h-4 w-4 mr-2" />
                             <span className="hidden xs:inline">Refresh</span>
                         </Button>
-                        <Dialog open={showAddForm} onOpenChange={setShowAddForm}>
-                            <DialogTrigger asChild>
-                                <Button className="touch-target w-full xs:w-auto">
-                                    <IconPlus className="h-4 w-4 mr-2" />
-                                    <span className="xs:hidden">Add Sweet</span>
-                                    <span className="hidden xs:inline">Add New Sweet</span>
-                                </Button>
-                            </DialogTrigger>
-                            <DialogContent className="mx-3 w-[calc(100vw-1.5rem)] max-w-2xl safe-area-inset sm:mx-auto sm:w-full">
-                                <SweetForm
-                                    onSuccess={handleAddSuccess}
-                                    onCancel={() => setShowAddForm(false)}
-                                />
-                            </DialogContent>
-                        </Dialog>
+                        {canCreate && (
+                            <Dialog open={showAddForm} onOpenChange={setShowAddForm}>
+                                <DialogTrigger asChild>
+                                    <Button className="touch-target w-full xs:w-auto">
+                                        <IconPlus className="h-4 w-4 mr-2" />
+                                        <span className="xs:hidden">Add Sweet</span>
+                                        <span className="hidden xs:inline">Add New Sweet</span>
+                                    </Button>
+                                </DialogTrigger>
+                                <DialogContent className="mx-3 w-[calc(100vw-1.5rem)] max-w-2xl safe-area-inset sm:mx-auto sm:w-full">
+                                    <SweetForm
+                                        onSuccess={handleAddSuccess}
+                                        onCancel={() => setShowAddForm(false)}
+                                    />
+                                </DialogContent>
+                            </Dialog>
+                        )}
                     </div>
                 }
             />
@@ -149,17 +163,19 @@ export const AdminPage: React.FC = () => {
                     </CardHeader>
                     <CardContent>
                         <p className="text-responsive-sm text-muted-foreground mb-4">
-                            Add, edit, and remove sweets from your inventory. All changes will be reflected immediately on the dashboard.
+                            Add, edit, and archive sweets in your inventory. All changes will be reflected immediately on the dashboard.
                         </p>
                         <div className="grid grid-cols-1 gap-3 xs:grid-cols-2">
-                            <Dialog open={showAddForm} onOpenChange={setShowAddForm}>
-                                <DialogTrigger asChild>
-                                    <Button className="touch-target w-full h-10 xs:h-11" variant="default">
-                                        <IconPlus className="h-4 w-4 mr-2" />
-                                        <span className="text-responsive-sm">Add New Sweet</span>
-                                    </Button>
-                                </DialogTrigger>
-                            </Dialog>
+                            {canCreate && (
+                                <Dialog open={showAddForm} onOpenChange={setShowAddForm}>
+                                    <DialogTrigger asChild>
+                                        <Button className="touch-target w-full h-10 xs:h-11" variant="default">
+                                            <IconPlus className="h-4 w-4 mr-2" />
+                                            <span className="text-responsive-sm">Add New Sweet</span>
+                                        </Button>
+                                    </DialogTrigger>
+                                </Dialog>
+                            )}
                             <Button
                                 className="touch-target w-full h-10 xs:h-11"
                                 variant="outline"
@@ -173,13 +189,46 @@ export const AdminPage: React.FC = () => {
                     </CardContent>
                 </Card>
 
+                {/* Category Management */}
+                {canManageCategories && <CategoryManager />}
+
+                {/* Promotions & Coupons */}
+                {canManagePromotions && <PromotionManager />}
+
+                {/* Catalogue Import & Export */}
+                {(canImport || canExport) && <CatalogueFiles />}
+
                 {/* Current Inventory */}
                 <Card>
-                    <CardHeader>
+                    <CardHeader className="flex flex-col gap-3 space-y-0 xs:flex-row xs:items-center xs:justify-between">
                         <CardTitle className="text-lg font-semibold">Current Inventory</CardTitle>
+                        {canArchive && (
+                            <div className="flex gap-2" role="tablist">
+                                <Button
+                                    size="sm"
+                                    role="tab"
+                                    aria-selected={inventoryTab === 'active'}
+                                    variant={inventoryTab === 'active' ? 'default' : 'outline'}
+                                    onClick={() => setInventoryTab('active')}
+                                >
+                                    Active
+                                </Button>
+                                <Button
+                                    size="sm"
+                                    role="tab"
+                                    aria-selected={inventoryTab === 'archived'}
+                                    variant={inventoryTab === 'archived' ? 'default' : 'outline'}
+                                    onClick={() => setInventoryTab('archived')}
+                                >
+                                    Archived
+                                </Button>
+                            </div>
+                        )}
                     </CardHeader>
                     <CardContent>
-                        {isLoading ? (
+                        {inventoryTab === 'archived' ? (
+                            <ArchivedSweets />
+                        ) : isLoading ? (
                             <div className="text-center py-8">
                                 <p className="text-muted-foreground">Loading inventory...</p>
                             </div>
@@ -199,7 +248,8 @@ export const AdminPage: React.FC = () => {
                                         <div className="flex-1">
                                             <h4 className="font-medium text-responsive-sm">{sweet.name}</h4>
                                             <p className="text-responsive-xs text-muted-foreground">
-                                                {sweet.category} • ₹{sweet.price.toFixed(2)} • {sweet.quantity} in stock
+                                                {sweet.category.name} • {formatMoney(sweet.price, sweet.currency)} • {sweet.onHand} on hand
+                                                {sweet.available < sweet.onHand && ` (${sweet.available} available)`}
                                             </p>
 
                                         </div>
@@ -213,71 +263,83 @@ export const AdminPage: React.FC = () => {
                                                 <IconEdit className="h-4 w-4 mr-2 xs:mr-0" />
                                                 <span className="xs:hidden">Edit</span>
                                             </Button>
-                                            <Dialog
-                                                open={showDeleteDialog[sweet.id] || false}
-                                                onOpenChange={(open) => setShowDeleteDialog(prev => ({ ...prev, [sweet.id]: open }))}
-                                            >
-                                                <DialogTrigger asChild>
-                                                    <Button
-                                                        size="sm"
-                                                        variant="outline"
-                                                        disabled={deletingSweet === sweet.id || isLoading}
-                                                        className="touch-target flex-1 xs:flex-none"
-                                                    >
-                                                        {deletingSweet === sweet.id ? (
-                                                            <span className="h-3.5 w-3.5 animate-spin rounded-full border-2 border-current border-t-transparent xs:h-4 xs:w-4" />
-                                                        ) : (
-                                                            <>
-                                                                <IconTrash className="h-4 w-4 mr-2 xs:mr-0" />
-                                                                <span className="xs:hidden">Delete</span>
-                                                            </>
-                                                        )}
-                                                    </Button>
-                                                </DialogTrigger>
-                                                <DialogContent className="sm:max-w-md">
-                                                    <DialogHeader>
-                                                        <DialogTitle className="flex items-center gap-2">
-                                                            <IconAlertTriangle className="h-5 w-5 text-destructive" />
-                                                            Confirm Deletion
-                                                        </DialogTitle>
-                                                        <DialogDescription className="text-left">
-                                                            Are you sure you want to delete <strong>"{sweet.name}"</strong>?
-                                                            This action cannot be undone and will permanently remove this sweet from your inventory.
-                                                        </DialogDescription>
-                                                    </DialogHeader>
-                                                    <DialogFooter className="flex-col sm:flex-row gap-2">
+                                            {canArchive && (
+                                                <Dialog
+                                                    open={showDeleteDialog[sweet.id] || false}
+                                                    onOpenChange={(open) => setShowDeleteDialog(prev => ({ ...prev, [sweet.id]: open }))}
+                                                >
+                                                    <DialogTrigger asChild>
                                                         <Button
+                                                            size="sm"
                                                             variant="outline"
-                                                            onClick={() => setShowDeleteDialog(prev => ({ ...prev, [sweet.id]: false }))}
-                                                            disabled={deletingSweet === sweet.id}
-                                                            className="w-full sm:w-auto"
-                                                        >
-                                                            Cancel
-                                                        </Button>
-                                                        <Button
-                                                            variant="destructive"
-                                                            onClick={() => handleDelete(sweet)}
-                                                            disabled={deletingSweet === sweet.id}
-                                                            className="w-full sm:w-auto"
+                                                            disabled={deletingSweet === sweet.id || isLoading}
+                                                            className="touch-target flex-1 xs:flex-none"
                                                         >
                                                             {deletingSweet === sweet.id ? (
-                                                                <>
-                                                                    <span className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
-                                                                    Deleting...
-                                                                </>
+                                                                <span className="h-3.5 w-3.5 animate-spin rounded-full border-2 border-current border-t-transparent xs:h-4 xs:w-4" />
                                                             ) : (
                                                                 <>
-                                                                    <IconTrash className="mr-2 h-4 w-4" />
-                                                                    Delete Sweet
+                                                                    <IconArchive className="h-4 w-4 mr-2 xs:mr-0" />
+                                                                    <span className="xs:hidden">Archive</span>
                                                                 </>
                                                             )}
                                                         </Button>
-                                                    </DialogFooter>
-                                                </DialogContent>
-                                            </Dialog>
+                                                    </DialogTrigger>
+                                                    <DialogContent className="sm:max-w-md">
+                                                        <DialogHeader>
+                                                            <DialogTitle className="flex items-center gap-2">
+                                                                <IconAlertTriangle className="h-5 w-5 text-destructive" />
+                                                                Archive Sweet
+                                                            </DialogTitle>
+                                                            <DialogDescription className="text-left">
+                                                                Archive <strong>"{sweet.name}"</strong>? It will be hidden from the catalogue and
+                                                                removed from shoppers' carts. You can restore it from the Archived tab.
+                                                            </DialogDescription>
+                                                        </DialogHeader>
+                                                        <DialogFooter className="flex-col sm:flex-row gap-2">
+                                                            <Button
+                                                                variant="outline"
+                                                                onClick={() => setShowDeleteDialog(prev => ({ ...prev, [sweet.id]: false }))}
+                                                                disabled={deletingSweet === sweet.id}
+                                                                className="w-full sm:w-auto"
+                                                            >
+                                                                Cancel
+                                                            </Button>
+                                                            <Button
+                                                                variant="destructive"
+                                                                onClick={() => handleDelete(sweet)}
+                                                                disabled={deletingSweet === sweet.id}
+                                                                className="w-full sm:w-auto"
+                                                            >
+                                                                {deletingSweet === sweet.id ? (
+                                                                    <>
+                                                                        <span className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                                                                        Archiving...
+                                                                    </>
+                                                                ) : (
+                                                                    <>
+                                                                        <IconArchive className="mr-2 h-4 w-4" />
+                                                                        Archive Sweet
+                                                                    </>
+                                                                )}
+                                                            </Button>
+                                                        </DialogFooter>
+                                                    </DialogContent>
+                                                </Dialog>
+                                            )}
                                         </div>
                                     </div>
                                 ))}
+                                {pagination?.nextCursor && (
+                                    <Button
+                                        variant="outline"
+                                        onClick={loadMoreSweets}
+                                        disabled={isLoadingMore}
+                                        className="touch-target w-full"
+                                    >
+                                        {isLoadingMore ? 'Loading...' : `Load more (${sweets.length} of ${pagination.total})`}
+                                    </Button>
+                                )}
                             </div>
                         )}
                     </CardContent>
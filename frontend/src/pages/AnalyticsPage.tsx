@@ -0,0 +1,314 @@
+import React, { useEffect } from 'react';
+import { DashboardContainer, DashboardHeader, DashboardGrid, StatsCard } from '@/components/ui/dashboard';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ColumnChart, BarList } from '@/components/charts';
+import { useAnalyticsStore } from '@/store/analyticsStore';
+import { downloadCsv, type CsvColumn } from '@/utils/csv';
+import { formatMoney, fromMinorUnits, minorUnitDigits } from '@/utils/money';
+import { IconRefresh, IconDownload, IconCurrencyRupee, IconShoppingBag, IconReceipt, IconChartBar } from '@tabler/icons-react';
+import type { AnalyticsInterval, SalesByCategory, SalesByPeriod, SalesBySweet, StockTurnover, TopSellerMetric } from '@/types';
+
+const INTERVALS: { label: string; value: AnalyticsInterval }[] = [
+    { label: 'Daily', value: 'day' },
+    { label: 'Weekly', value: 'week' },
+    { label: 'Monthly', value: 'month' },
+];
+
+const METRICS: { label: string; value: TopSellerMetric }[] = [
+    { label: 'By units', value: 'units' },
+    { label: 'By revenue', value: 'revenue' },
+];
+
+// Revenue arrives in minor units of the shop currency
+const formatCurrency = (value: number) => formatMoney(value);
+
+/**
+ * Write revenue for a CSV cell as a plain decimal in major units
+ */
+const toRevenueCell = (value: number) => fromMinorUnits(value).toFixed(minorUnitDigits());
+
+/**
+ * Label a time series bucket according to its size
+ */
+const formatPeriod = (period: string, interval: AnalyticsInterval) => {
+    const date = new Date(period);
+    return interval === 'month'
+        ? date.toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' })
+        : date.toLocaleDateString(undefined, { day: 'numeric', month: 'short', timeZone: 'UTC' });
+};
+
+// CSV layouts for each downloadable series
+const periodColumns: CsvColumn<SalesByPeriod>[] = [
+    { header: 'Period', value: row => row.period.slice(0, 10) },
+    { header: 'Revenue', value: row => toRevenueCell(row.revenue) },
+    { header: 'Units', value: row => row.units },
+];
+
+const categoryColumns: CsvColumn<SalesByCategory>[] = [
+    { header: 'Category', value: row => row.category },
+    { header: 'Revenue', value: row => toRevenueCell(row.revenue) },
+    { header: 'Units', value: row => row.units },
+];
+
+const sweetColumns: CsvColumn<SalesBySweet>[] = [
+    { header: 'Sweet', value: row => row.sweetName },
+    { header: 'Category', value: row => row.category },
+    { header: 'Revenue', value: row => toRevenueCell(row.revenue) },
+    { header: 'Units', value: row => row.units },
+];
+
+const turnoverColumns: CsvColumn<StockTurnover>[] = [
+    { header: 'Sweet', value: row => row.sweetName },
+    { header: 'Category', value: row => row.category },
+    { header: 'Units Sold', value: row => row.unitsSold },
+    { header: 'Units Restocked', value: row => row.unitsRestocked },
+    { header: 'Opening Stock', value: row => row.openingStock },
+    { header: 'Closing Stock', value: row => row.closingStock },
+    { header: 'Turnover', value: row => row.turnover?.toFixed(2) },
+];
+
+/**
+ * Small outline button that downloads one series as CSV
+ */
+const CsvButton: React.FC<{ onClick: () => void; disabled?: boolean }> = ({ onClick, disabled }) => (
+    <Button size="sm" variant="outline" onClick={onClick} disabled={disabled}>
+        <IconDownload className="h-4 w-4 mr-2" />
+        CSV
+    </Button>
+);
+
+/**
+ * Admin analytics page component
+ * Charts sales over time, by category and by sweet, the top sellers and
+ * per-sweet stock turnover for a chosen date range
+ * Every series can be downloaded as CSV
+ * Only available to users with admin role
+ */
+export const AnalyticsPage: React.FC = () => {
+    const {
+        dateRange,
+        interval,
+        topSellerMetric,
+        sales,
+        topSellers,
+        stockTurnover,
+        isLoading,
+        fetchAnalytics,
+        setDateRange,
+        setInterval,
+        setTopSellerMetric,
+    } = useAnalyticsStore();
+
+    // Fetch reports on component mount
+    useEffect(() => {
+        fetchAnalytics();
+    }, [fetchAnalytics]);
+
+    // File names carry the range so downloads from different periods don't collide
+    const fileSuffix = `${dateRange.from || 'start'}_${dateRange.to || 'today'}.csv`;
+    const averageOrderValue = sales && sales.totals.orders > 0 ? sales.totals.revenue / sales.totals.orders : 0;
+
+    return (
+        <DashboardContainer>
+            <DashboardHeader
+                title="Analytics"
+                description="Sales performance and stock turnover"
+                action={
+                    <Button onClick={fetchAnalytics} variant="outline" disabled={isLoading} className="touch-target w-full xs:w-auto">
+                        <IconRefresh className="h-4 w-4 mr-2" />
+                        <span className="hidden xs:inline">Refresh</span>
+                    </Button>
+                }
+            />
+
+            {/* Filters */}
+            <Card>
+                <CardContent className="flex flex-col gap-3 pt-6 sm:flex-row sm:items-end">
+                    <div className="space-y-1">
+                        <label htmlFor="analytics-from" className="text-sm font-medium">From</label>
+                        <Input
+                            id="analytics-from"
+                            type="date"
+                            value={dateRange.from}
+                            max={dateRange.to || undefined}
+                            onChange={(event) => setDateRange({ ...dateRange, from: event.target.value })}
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <label htmlFor="analytics-to" className="text-sm font-medium">To</label>
+                        <Input
+                            id="analytics-to"
+                            type="date"
+                            value={dateRange.to}
+                            min={dateRange.from || undefined}
+                            onChange={(event) => setDateRange({ ...dateRange, to: event.target.value })}
+                        />
+                    </div>
+                    <div className="flex gap-2 sm:ml-auto">
+                        {INTERVALS.map(({ label, value }) => (
+                            <Button
+                                key={value}
+                                size="sm"
+                                variant={interval === value ? 'default' : 'outline'}
+                                onClick={() => setInterval(value)}
+                            >
+                                {label}
+                            </Button>
+                        ))}
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Totals */}
+            <DashboardGrid cols={4}>
+                <StatsCard
+                    title="Revenue"
+                    value={formatCurrency(sales?.totals.revenue ?? 0)}
+                    description="Completed orders"
+                    icon={<IconCurrencyRupee className="h-4 w-4" />}
+                />
+                <StatsCard
+                    title="Units Sold"
+                    value={sales?.totals.units ?? 0}
+                    description="Across all sweets"
+                    icon={<IconShoppingBag className="h-4 w-4" />}
+                />
+                <StatsCard
+                    title="Orders"
+                    value={sales?.totals.orders ?? 0}
+                    description="Completed in this period"
+                    icon={<IconReceipt className="h-4 w-4" />}
+                />
+                <StatsCard
+                    title="Average Order"
+                    value={formatCurrency(averageOrderValue)}
+                    description="Revenue per order"
+                    icon={<IconChartBar className="h-4 w-4" />}
+                />
+            </DashboardGrid>
+
+            {/* Revenue over time */}
+            <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-lg font-semibold">Revenue Over Time</CardTitle>
+                    <CsvButton
+                        disabled={!sales?.byPeriod.length}
+                        onClick={() => sales && downloadCsv(`sales-by-${interval}_${fileSuffix}`, sales.byPeriod, periodColumns)}
+                    />
+                </CardHeader>
+                <CardContent>
+                    <ColumnChart
+                        data={(sales?.byPeriod ?? []).map(row => ({ label: formatPeriod(row.period, interval), value: row.revenue }))}
+                        formatValue={formatCurrency}
+                    />
+                </CardContent>
+            </Card>
+
+            <DashboardGrid cols={2}>
+                {/* Revenue by category */}
+                <Card>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-lg font-semibold">By Category</CardTitle>
+                        <CsvButton
+                            disabled={!sales?.byCategory.length}
+                            onClick={() => sales && downloadCsv(`sales-by-category_${fileSuffix}`, sales.byCategory, categoryColumns)}
+                        />
+                    </CardHeader>
+                    <CardContent>
+                        <BarList
+                            data={(sales?.byCategory ?? []).map(row => ({
+                                label: row.category,
+                                value: row.revenue,
+                                detail: `${row.units} units`,
+                            }))}
+                            formatValue={formatCurrency}
+                        />
+                    </CardContent>
+                </Card>
+
+                {/* Revenue by sweet */}
+                <Card>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-lg font-semibold">By Sweet</CardTitle>
+                        <CsvButton
+                            disabled={!sales?.bySweet.length}
+                            onClick={() => sales && downloadCsv(`sales-by-sweet_${fileSuffix}`, sales.bySweet, sweetColumns)}
+                        />
+                    </CardHeader>
+                    <CardContent>
+                        <BarList
+                            className="max-h-96 overflow-y-auto pr-1"
+                            data={(sales?.bySweet ?? []).map(row => ({
+                                label: row.sweetName,
+                                value: row.revenue,
+                                detail: `${row.category} • ${row.units} units`,
+                            }))}
+                            formatValue={formatCurrency}
+                        />
+                    </CardContent>
+                </Card>
+
+                {/* Top sellers */}
+                <Card>
+                    <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0 pb-2">
+                        <CardTitle className="text-lg font-semibold">Top Sellers</CardTitle>
+                        <div className="flex gap-2">
+                            {METRICS.map(({ label, value }) => (
+                                <Button
+                                    key={value}
+                                    size="sm"
+                                    variant={topSellerMetric === value ? 'default' : 'outline'}
+                                    onClick={() => setTopSellerMetric(value)}
+                                >
+                                    {label}
+                                </Button>
+                            ))}
+                            <CsvButton
+                                disabled={!topSellers?.data.length}
+                                onClick={() => topSellers && downloadCsv(`top-sellers-by-${topSellerMetric}_${fileSuffix}`, topSellers.data, sweetColumns)}
+                            />
+                        </div>
+                    </CardHeader>
+                    <CardContent>
+                        <BarList
+                            data={(topSellers?.data ?? []).map(row => ({
+                                label: row.sweetName,
+                                value: topSellerMetric === 'revenue' ? row.revenue : row.units,
+                                detail: row.category,
+                            }))}
+                            formatValue={topSellerMetric === 'revenue' ? formatCurrency : (value) => `${value} units`}
+                        />
+                    </CardContent>
+                </Card>
+
+                {/* Stock turnover */}
+                <Card>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-lg font-semibold">Stock Turnover</CardTitle>
+                        <CsvButton
+                            disabled={!stockTurnover?.data.length}
+                            onClick={() => stockTurnover && downloadCsv(`stock-turnover_${fileSuffix}`, stockTurnover.data, turnoverColumns)}
+                        />
+                    </CardHeader>
+                    <CardContent>
+                        <p className="text-responsive-xs text-muted-foreground mb-4">
+                            Units sold divided by average stock held during the period.
+                        </p>
+                        <BarList
+                            className="max-h-96 overflow-y-auto pr-1"
+                            data={(stockTurnover?.data ?? []).map(row => ({
+                                label: row.sweetName,
+                                value: row.turnover ?? 0,
+                                detail: `${row.unitsSold} sold • ${row.unitsRestocked} restocked • ${row.openingStock} → ${row.closingStock} in stock`,
+                            }))}
+                            formatValue={(value) => `${value.toFixed(2)}×`}
+                            emptyMessage="No sweets in inventory"
+                        />
+                    </CardContent>
+                </Card>
+            </DashboardGrid>
+        </DashboardContainer>
+    );
+};
@@ -0,0 +1,163 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { DashboardContainer, DashboardHeader } from '@/components/ui/dashboard';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SweetGrid, CategorySelect } from '@/components/sweet';
+import { catalogueAPI } from '@/services/api';
+import { getErrorMessage } from '@/utils/errorHandling';
+import { IconSearch } from '@tabler/icons-react';
+import type { CatalogueSweet, PaginatedResponse, SweetQueryParams } from '@/types';
+
+/** Number of sweets requested per page */
+const PAGE_SIZE = 20;
+
+/**
+ * Public catalogue page component
+ * Lets visitors browse and search the sweets on sale without an account
+ *
+ * Features:
+ * - Debounced name search, category filter and in-stock toggle
+ * - Infinite scroll through the shared sweet grid
+ * - Purchase buttons that ask visitors to sign in first
+ */
+export const CataloguePage: React.FC = () => {
+    const [sweets, setSweets] = useState<CatalogueSweet[]>([]);
+    const [pagination, setPagination] = useState<PaginatedResponse<CatalogueSweet>['pagination'] | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [searchInput, setSearchInput] = useState('');
+    const [searchTerm, setSearchTerm] = useState('');
+    const [category, setCategory] = useState('');
+    const [inStock, setInStock] = useState(false);
+
+    // Incremented for every fresh listing so responses to superseded queries are dropped
+    const latestQueryId = useRef(0);
+
+    const query = useMemo<SweetQueryParams>(() => ({
+        name: searchTerm || undefined,
+        category: category || undefined,
+        inStock: inStock || undefined,
+        sortBy: 'name',
+        order: 'asc',
+        limit: PAGE_SIZE,
+    }), [searchTerm, category, inStock]);
+
+    // Debounced search, as each change reloads from the server
+    useEffect(() => {
+        const timeoutId = setTimeout(() => setSearchTerm(searchInput.trim()), 300);
+        return () => clearTimeout(timeoutId);
+    }, [searchInput]);
+
+    /**
+     * Load the first page of sweets matching the current search and filters
+     */
+    const loadSweets = useCallback(async (params: SweetQueryParams) => {
+        const queryId = ++latestQueryId.current;
+        setIsLoading(true);
+        setError(null);
+
+        try {
+            const page = await catalogueAPI.search(params);
+            if (queryId !== latestQueryId.current) return;
+
+            setSweets(page.data);
+            setPagination(page.pagination);
+        } catch (error) {
+            if (queryId !== latestQueryId.current) return;
+
+            setSweets([]);
+            setPagination(null);
+            setError(getErrorMessage(error));
+        } finally {
+            if (queryId === latestQueryId.current) {
+                setIsLoading(false);
+            }
+        }
+    }, []);
+
+    useEffect(() => {
+        loadSweets(query);
+    }, [loadSweets, query]);
+
+    /**
+     * Append the next page using the cursor returned with the previous one
+     */
+    const handleLoadMore = async () => {
+        if (!pagination?.nextCursor || isLoading || isLoadingMore) return;
+
+        const queryId = latestQueryId.current;
+        setIsLoadingMore(true);
+
+        try {
+            const page = await catalogueAPI.search({ ...query, cursor: pagination.nextCursor });
+            if (queryId !== latestQueryId.current) return;
+
+            setSweets(prev => {
+                const loadedIds = new Set(prev.map(sweet => sweet.id));
+                return [...prev, ...page.data.filter(sweet => !loadedIds.has(sweet.id))];
+            });
+            setPagination(page.pagination);
+        } catch (error) {
+            setError(getErrorMessage(error));
+        } finally {
+            setIsLoadingMore(false);
+        }
+    };
+
+    return (
+        <DashboardContainer>
+            <DashboardHeader
+                title="Our Sweets"
+                description="Browse the full collection. Sign in when you are ready to buy."
+                action={
+                    <Link to="/register">
+                        <Button className="touch-target w-full xs:w-auto">
+                            <span className="text-responsive-sm">Create an account</span>
+                        </Button>
+                    </Link>
+                }
+            />
+
+            <div className="space-responsive">
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+                    <div className="relative flex-1">
+                        <IconSearch className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                        <Input
+                            value={searchInput}
+                            onChange={(e) => setSearchInput(e.target.value)}
+                            placeholder="Search sweets..."
+                            className="pl-9"
+                            aria-label="Search sweets"
+                        />
+                    </div>
+                    <CategorySelect
+                        valueField="slug"
+                        placeholder="All categories"
+                        value={category}
+                        onChange={(e) => setCategory(e.target.value)}
+                        className="sm:w-56"
+                        aria-label="Filter by category"
+                    />
+                    <Button
+                        variant={inStock ? 'default' : 'outline'}
+                        onClick={() => setInStock(prev => !prev)}
+                        className="touch-target"
+                    >
+                        In stock only
+                    </Button>
+                </div>
+
+                <SweetGrid
+                    sweets={sweets}
+                    isLoading={isLoading}
+                    error={error}
+                    hasMore={Boolean(pagination?.nextCursor)}
+                    isLoadingMore={isLoadingMore}
+                    onLoadMore={handleLoadMore}
+                />
+            </div>
+        </DashboardContainer>
+    );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChangePasswordForm } from '@/components/forms';
+import { useAuthStore } from '@/store/authStore';
+import { Button } from '@/components/ui/button';
+
+/**
+ * Change password page component
+ * Lets signed-in users change their password
+ * Users whose password was reset by an admin are sent here until they pick a new one
+ */
+export const ChangePasswordPage: React.FC = () => {
+    const navigate = useNavigate();
+    const { user, logout } = useAuthStore();
+
+    /**
+     * Signs out instead of completing a forced reset
+     */
+    const handleLogout = async () => {
+        await logout();
+        navigate('/login');
+    };
+
+    return (
+        <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background px-4">
+            <ChangePasswordForm onSuccess={() => navigate('/dashboard', { replace: true })} />
+            {user?.passwordResetRequired ? (
+                <Button variant="ghost" onClick={handleLogout}>
+                    Sign out
+                </Button>
+            ) : (
+                <Button variant="ghost" onClick={() => navigate(-1)}>
+                    Cancel
+                </Button>
+            )}
+        </div>
+    );
+};
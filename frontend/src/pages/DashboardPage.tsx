@@ -6,8 +6,10 @@ import { SweetGrid, SweetFilters } from '@/components/sweet';
 import { useSweetStore } from '@/store/sweetStore';
 import { useAuthStore } from '@/store/authStore';
 import { useToast } from '@/hooks/use-toast';
+import { formatTotals, sumByCurrency } from '@/utils/money';
 import {
     IconCandy,
+    IconCash,
     IconPackage,
     IconAlertTriangle,
     IconX
@@ -28,10 +30,12 @@ import {
 export const DashboardPage: React.FC = () => {
     const {
         sweets,
-        filteredSweets,
+        pagination,
         isLoading,
+        isLoadingMore,
         error,
         fetchSweets,
+        loadMoreSweets,
         clearError
     } = useSweetStore();
 
@@ -64,14 +68,18 @@ export const DashboardPage: React.FC = () => {
         };
     }, [error, clearError]);
 
-    // Computed statistics from sweet data
+    // Computed statistics from sweet data; the total comes from the server,
+    // the rest from the pages loaded so far
     const stats = useMemo(() => {
         // Ensure sweets is an array before performing operations
         const sweetsArray = Array.isArray(sweets) ? sweets : [];
 
-        const totalSweets = sweetsArray.length;
-        const totalValue = sweetsArray.reduce((sum, sweet) => sum + (sweet.price * sweet.quantity), 0);
-        const lowStockItems = sweetsArray.filter(sweet => sweet.quantity > 0 && sweet.quantity <= 5).length;
+        const totalSweets = pagination?.total ?? sweetsArray.length;
+        // Integer minor units, so the sum is exact; kept apart per currency
+        const totalValue = sumByCurrency(
+            sweetsArray.map(sweet => ({ amount: sweet.price * sweet.quantity, currency: sweet.currency }))
+        );
+        const lowStockItems = sweetsArray.filter(sweet => sweet.quantity > 0 && sweet.quantity <= sweet.reorderPoint).length;
         const outOfStockItems = sweetsArray.filter(sweet => sweet.quantity === 0).length;
         const inStockItems = sweetsArray.filter(sweet => sweet.quantity > 0).length;
 
@@ -82,7 +90,7 @@ export const DashboardPage: React.FC = () => {
             outOfStockItems,
             inStockItems,
         };
-    }, [sweets]);
+    }, [sweets, pagination]);
 
     /**
      * Handle refresh action
@@ -146,7 +154,7 @@ export const DashboardPage: React.FC = () => {
                 <StatsCard
                     title="Low Stock"
                     value={stats.lowStockItems}
-                    description="5 or fewer remaining"
+                    description="At or below reorder point"
                     icon={<IconAlertTriangle className="h-4 w-4 text-orange-500" />}
                 />
                 <StatsCard
@@ -155,6 +163,12 @@ export const DashboardPage: React.FC = () => {
                     description="Need restocking"
                     icon={<IconX className="h-4 w-4 text-red-500" />}
                 />
+                <StatsCard
+                    title="Inventory Value"
+                    value={formatTotals(stats.totalValue)}
+                    description="Stock on hand at list price"
+                    icon={<IconCash className="h-4 w-4" />}
+                />
             </div>
 
 
@@ -170,9 +184,12 @@ export const DashboardPage: React.FC = () => {
 
                 {/* Sweet Grid */}
                 <SweetGrid
-                    sweets={Array.isArray(filteredSweets) ? filteredSweets : []}
+                    sweets={Array.isArray(sweets) ? sweets : []}
                     isLoading={isLoading}
                     error={error}
+                    hasMore={Boolean(pagination?.nextCursor)}
+                    isLoadingMore={isLoadingMore}
+                    onLoadMore={loadMoreSweets}
                 />
             </div>
         </DashboardContainer>
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { LoginForm } from '@/components/forms';
 import { useAuthStore } from '@/store/authStore';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -7,14 +7,15 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 /**
  * Login page component
  * Displays login form for unauthenticated users
- * Redirects authenticated users to dashboard
+ * Redirects authenticated users back to the page that sent them here, or the dashboard
  */
 export const LoginPage: React.FC = () => {
     const { isAuthenticated } = useAuthStore();
+    const location = useLocation();
 
     // Redirect if already authenticated
     if (isAuthenticated) {
-        return <Navigate to="/dashboard" replace />;
+        return <Navigate to={location.state?.from ?? '/dashboard'} replace />;
     }
 
     return (
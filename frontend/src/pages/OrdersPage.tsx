@@ -0,0 +1,26 @@
+import React from 'react';
+import { DashboardContainer, DashboardHeader } from '@/components/ui/dashboard';
+import { OrderHistory } from '@/components/orders';
+
+/**
+ * My orders page component
+ * Lists the signed-in user's orders, newest first, with their invoices
+ *
+ * Features:
+ * - Filter by status and date
+ * - Line items, discounts, GST and totals for each order
+ * - Invoices as a printable page or a PDF
+ * - One-click reorder into the cart
+ */
+export const OrdersPage: React.FC = () => {
+    return (
+        <DashboardContainer>
+            <DashboardHeader
+                title="My Orders"
+                description="Your purchases and their invoices"
+            />
+
+            <OrderHistory />
+        </DashboardContainer>
+    );
+};
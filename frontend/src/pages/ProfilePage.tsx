@@ -0,0 +1,60 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { DashboardContainer, DashboardHeader } from '@/components/ui/dashboard';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { OrderHistory } from '@/components/orders';
+import { useAuthStore } from '@/store/authStore';
+import { ROLE_LABELS } from '@/constants';
+import { IconKey, IconReceipt, IconUser } from '@tabler/icons-react';
+
+/**
+ * Profile page component
+ * Shows the signed-in user's account and their most recent orders
+ */
+export const ProfilePage: React.FC = () => {
+    const navigate = useNavigate();
+    const { user } = useAuthStore();
+
+    return (
+        <DashboardContainer>
+            <DashboardHeader
+                title="Profile"
+                description="Your account and recent orders"
+            />
+
+            <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-lg font-semibold">Account</CardTitle>
+                    <IconUser className="h-5 w-5 text-primary" />
+                </CardHeader>
+                <CardContent className="flex flex-col gap-4 xs:flex-row xs:items-center xs:justify-between">
+                    <div className="min-w-0 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <h4 className="font-medium text-responsive-sm truncate">{user?.name ?? user?.email}</h4>
+                            {user && <Badge variant="secondary">{ROLE_LABELS[user.role]}</Badge>}
+                        </div>
+                        <p className="text-responsive-xs text-muted-foreground truncate">
+                            {user?.email}
+                            {user && ` • Joined ${new Date(user.createdAt).toLocaleDateString()}`}
+                        </p>
+                    </div>
+                    <Button variant="outline" onClick={() => navigate('/change-password')} className="touch-target w-full xs:w-auto">
+                        <IconKey className="h-4 w-4 mr-2" />
+                        Change Password
+                    </Button>
+                </CardContent>
+            </Card>
+
+            <div className="flex items-center justify-between gap-2">
+                <h2 className="text-lg font-semibold">Recent Orders</h2>
+                <Button variant="ghost" size="sm" onClick={() => navigate('/orders')}>
+                    <IconReceipt className="h-4 w-4 mr-2" />
+                    All orders
+                </Button>
+            </div>
+            <OrderHistory limit={5} showFilters={false} />
+        </DashboardContainer>
+    );
+};
@@ -0,0 +1,228 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { DashboardContainer } from '@/components/ui/dashboard';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ErrorMessage } from '@/components/ui/error';
+import { LoadingSpinner } from '@/components/ui/loading';
+import { PriceHistoryTimeline, PurchaseButton } from '@/components/sweet';
+import { assetUrl, catalogueAPI, sweetAPI } from '@/services/api';
+import { useAuthStore } from '@/store/authStore';
+import { usePermission } from '@/hooks/use-permission';
+import { getErrorCode, getErrorMessage } from '@/utils/errorHandling';
+import { cn } from '@/lib/utils';
+import { formatMoney } from '@/utils/money';
+import { IconArrowLeft, IconPackage, IconPhoto } from '@tabler/icons-react';
+import type { CatalogueSweet, Sweet } from '@/types';
+
+/**
+ * Product page component for a single sweet
+ * Reachable without signing in so product links can be shared
+ *
+ * Features:
+ * - Photo gallery, opening on the primary photo
+ * - Name, category, price and stock status
+ * - Restock settings and timestamps for staff, who receive the full record
+ * - Timeline of the prices the sweet has sold at
+ * - Purchase control, which asks visitors to sign in first
+ * - Not-found state for archived or unknown sweets
+ */
+export const SweetDetailPage: React.FC = () => {
+    const { id = '' } = useParams<{ id: string }>();
+    const { isAuthenticated } = useAuthStore();
+    const canEdit = usePermission('sweet:update');
+    const [sweet, setSweet] = useState<Sweet | CatalogueSweet | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [isNotFound, setIsNotFound] = useState(false);
+    const [selectedImageId, setSelectedImageId] = useState<string | null>(null);
+
+    /**
+     * Load the sweet, with every field when signed in and the public view otherwise
+     */
+    const loadSweet = useCallback(async () => {
+        setError(null);
+        setIsNotFound(false);
+
+        try {
+            setSweet(isAuthenticated ? await sweetAPI.getById(id) : await catalogueAPI.getById(id));
+        } catch (error) {
+            setSweet(null);
+            if (getErrorCode(error) === 'SWEET_NOT_FOUND') {
+                setIsNotFound(true);
+            } else {
+                setError(getErrorMessage(error));
+            }
+        } finally {
+            setIsLoading(false);
+        }
+    }, [id, isAuthenticated]);
+
+    useEffect(() => {
+        setIsLoading(true);
+        loadSweet();
+    }, [loadSweet]);
+
+    const backLink = (
+        <Link to={isAuthenticated ? '/sweets' : '/catalogue'}>
+            <Button variant="ghost" size="sm" className="touch-target -ml-2">
+                <IconArrowLeft className="h-4 w-4 mr-2" />
+                Back to sweets
+            </Button>
+        </Link>
+    );
+
+    if (isLoading) {
+        return (
+            <DashboardContainer>
+                <div className="flex justify-center py-16">
+                    <LoadingSpinner size="lg" />
+                </div>
+            </DashboardContainer>
+        );
+    }
+
+    if (isNotFound || error || !sweet) {
+        return (
+            <DashboardContainer>
+                {backLink}
+                <ErrorMessage
+                    title={isNotFound ? 'Sweet not found' : undefined}
+                    message={isNotFound ? 'This sweet is no longer on sale.' : error ?? 'Failed to load sweet'}
+                    onRetry={isNotFound ? undefined : loadSweet}
+                />
+            </DashboardContainer>
+        );
+    }
+
+    // Units held for shoppers mid-purchase are not for sale
+    const isOutOfStock = sweet.available <= 0;
+    const isLowStock = sweet.available > 0 && sweet.available <= sweet.reorderPoint;
+    const heldUnits = sweet.onHand - sweet.available;
+    // Only the authenticated endpoint returns restock settings and timestamps
+    const fullSweet = 'reorderQuantity' in sweet ? sweet : null;
+    const images = sweet.images ?? [];
+    const shownImage = images.find(image => image.id === selectedImageId)
+        ?? images.find(image => image.isPrimary)
+        ?? images[0];
+
+    return (
+        <DashboardContainer>
+            {backLink}
+
+            <Card>
+                <div className="space-y-3 p-4 xs:p-6 pb-0 xs:pb-0">
+                    <div className="flex aspect-[4/3] items-center justify-center overflow-hidden rounded-xl bg-muted/40 sm:aspect-[16/9]">
+                        {shownImage ? (
+                            <img
+                                src={assetUrl(shownImage.url)}
+                                alt={sweet.name}
+                                className="h-full w-full object-contain"
+                            />
+                        ) : (
+                            <IconPhoto className="h-16 w-16 text-muted-foreground" />
+                        )}
+                    </div>
+
+                    {images.length > 1 && (
+                        <div className="flex gap-2 overflow-x-auto">
+                            {images.map((image, index) => (
+                                <button
+                                    key={image.id}
+                                    type="button"
+                                    onClick={() => setSelectedImageId(image.id)}
+                                    aria-label={`Show photo ${index + 1}`}
+                                    aria-pressed={image.id === shownImage?.id}
+                                    className={cn(
+                                        'h-16 w-16 shrink-0 overflow-hidden rounded-lg border-2',
+                                        image.id === shownImage?.id ? 'border-primary' : 'border-transparent'
+                                    )}
+                                >
+                                    <img
+                                        src={assetUrl(image.thumbnailUrl)}
+                                        alt=""
+                                        className="h-full w-full object-cover"
+                                        loading="lazy"
+                                    />
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                <CardHeader className="space-y-3">
+                    <Badge variant="outline" className="w-fit rounded-full px-3 py-1 text-xs font-medium capitalize">
+                        {sweet.category.name}
+                    </Badge>
+                    <CardTitle className="text-3xl font-bold font-display tracking-tight">
+                        {sweet.name}
+                    </CardTitle>
+                </CardHeader>
+
+                <CardContent className="space-y-6">
+                    <div className="grid gap-4 sm:grid-cols-2">
+                        <div className="flex items-center justify-between p-4 rounded-xl border border-border bg-muted/30">
+                            <span className="text-sm text-muted-foreground font-medium">Price</span>
+                            <span className="text-2xl font-bold">{formatMoney(sweet.price, sweet.currency)}</span>
+                        </div>
+
+                        <div className="flex items-center justify-between p-4 rounded-xl border border-border bg-muted/30">
+                            <div className="flex items-center gap-3">
+                                <div className={cn(
+                                    'w-3 h-3 rounded-full',
+                                    isOutOfStock ? 'bg-red-500' : isLowStock ? 'bg-orange-500' : 'bg-green-500'
+                                )} />
+                                <span className="text-sm font-medium">
+                                    {isOutOfStock ? 'Out of Stock' : isLowStock ? 'Low Stock' : 'In Stock'}
+                                </span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <IconPackage className="h-4 w-4 text-muted-foreground" />
+                                <span className="text-sm font-semibold">{sweet.available} units</span>
+                                {heldUnits > 0 && (
+                                    <span className="text-xs text-muted-foreground">({heldUnits} held in checkouts)</span>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+
+                    {fullSweet && (
+                        <dl className="grid gap-4 text-sm sm:grid-cols-2">
+                            <div>
+                                <dt className="text-muted-foreground">Reorder point</dt>
+                                <dd className="font-medium">{fullSweet.reorderPoint} units</dd>
+                            </div>
+                            <div>
+                                <dt className="text-muted-foreground">Reorder quantity</dt>
+                                <dd className="font-medium">{fullSweet.reorderQuantity} units</dd>
+                            </div>
+                            <div>
+                                <dt className="text-muted-foreground">Added</dt>
+                                <dd className="font-medium">{new Date(fullSweet.createdAt).toLocaleDateString()}</dd>
+                            </div>
+                            <div>
+                                <dt className="text-muted-foreground">Last updated</dt>
+                                <dd className="font-medium">{new Date(fullSweet.updatedAt).toLocaleString()}</dd>
+                            </div>
+                        </dl>
+                    )}
+
+                    <PriceHistoryTimeline
+                        sweet={sweet}
+                        readOnly
+                        className="rounded-xl border border-border p-4"
+                    />
+
+                    {!canEdit && (
+                        <PurchaseButton
+                            sweet={sweet}
+                            className="touch-target h-12 w-full rounded-xl text-sm font-semibold sm:w-auto sm:px-8"
+                            onPurchased={loadSweet}
+                        />
+                    )}
+                </CardContent>
+            </Card>
+        </DashboardContainer>
+    );
+};
@@ -18,10 +18,13 @@ import { useToast } from '@/hooks/use-toast';
  */
 export const SweetsPage: React.FC = () => {
     const {
-        filteredSweets,
+        sweets,
+        pagination,
         isLoading,
+        isLoadingMore,
         error,
         fetchSweets,
+        loadMoreSweets,
         clearError
     } = useSweetStore();
 
@@ -102,9 +105,12 @@ export const SweetsPage: React.FC = () => {
 
                 {/* Sweet Grid */}
                 <SweetGrid
-                    sweets={Array.isArray(filteredSweets) ? filteredSweets : []}
+                    sweets={Array.isArray(sweets) ? sweets : []}
                     isLoading={isLoading}
                     error={error}
+                    hasMore={Boolean(pagination?.nextCursor)}
+                    isLoadingMore={isLoadingMore}
+                    onLoadMore={loadMoreSweets}
                 />
             </div>
         </DashboardContainer>
@@ -0,0 +1,350 @@
+import React, { useState, useEffect } from 'react';
+import { DashboardContainer, DashboardHeader, DashboardGrid } from '@/components/ui/dashboard';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useAuthStore } from '@/store/authStore';
+import { useUserManagementStore } from '@/store/userManagementStore';
+import { ROLE_LABELS } from '@/constants';
+import { IconUsers, IconRefresh, IconSearch, IconUserOff, IconUserCheck, IconKey, IconAlertTriangle } from '@tabler/icons-react';
+import type { ManagedUser, Role, UserQueryParams } from '@/types';
+
+type UserAction = 'role' | 'deactivate' | 'reactivate' | 'reset-password';
+
+const ROLES = Object.keys(ROLE_LABELS) as Role[];
+
+const ROLE_FILTERS: { label: string; value?: Role }[] = [
+    { label: 'All roles' },
+    ...ROLES.map((role) => ({ label: `${ROLE_LABELS[role]}s`, value: role })),
+];
+
+const STATUS_FILTERS: { label: string; value?: UserQueryParams['status'] }[] = [
+    { label: 'Any status' },
+    { label: 'Active', value: 'active' },
+    { label: 'Deactivated', value: 'inactive' },
+];
+
+/**
+ * Confirmation copy for each account action
+ */
+const describeAction = (action: UserAction, user: ManagedUser, role: Role) => {
+    const who = user.name ?? user.email;
+
+    switch (action) {
+        case 'role':
+            return { title: 'Change Role', description: `${who} will move from ${ROLE_LABELS[user.role]} to ${ROLE_LABELS[role]} and gain or lose access to match.`, confirm: `Make ${ROLE_LABELS[role]}` };
+        case 'deactivate':
+            return { title: 'Deactivate Account', description: `${who} will be signed out on every device and will not be able to sign in until reactivated.`, confirm: 'Deactivate' };
+        case 'reactivate':
+            return { title: 'Reactivate Account', description: `${who} will be able to sign in again.`, confirm: 'Reactivate' };
+        case 'reset-password':
+            return { title: 'Reset Password', description: `${who} will be signed out and must choose a new password after signing in with a temporary one.`, confirm: 'Reset Password' };
+    }
+};
+
+/**
+ * Admin user management page component
+ * Lists every account and lets admins change roles, deactivate or
+ * reactivate accounts, and force a password reset
+ * Only available to users who may manage users
+ */
+export const UserManagementPage: React.FC = () => {
+    const { user: currentUser } = useAuthStore();
+    const {
+        users,
+        pagination,
+        query,
+        isLoading,
+        pendingUserId,
+        fetchUsers,
+        setQuery,
+        updateRole,
+        setActive,
+        resetPassword,
+    } = useUserManagementStore();
+    const [search, setSearch] = useState(query.search ?? '');
+    // `role` is the new role when changing roles, otherwise the current one
+    const [confirming, setConfirming] = useState<{ user: ManagedUser; action: UserAction; role: Role } | null>(null);
+    const [temporaryPassword, setTemporaryPassword] = useState<{ user: ManagedUser; password: string } | null>(null);
+
+    // Fetch users on component mount
+    useEffect(() => {
+        fetchUsers().catch(() => undefined);
+    }, [fetchUsers]);
+
+    // Debounce the search box so every keystroke doesn't hit the API
+    useEffect(() => {
+        const trimmed = search.trim();
+        if (trimmed === (query.search ?? '')) return;
+
+        const timeout = setTimeout(() => setQuery({ search: trimmed || undefined }), 300);
+        return () => clearTimeout(timeout);
+    }, [search, query.search, setQuery]);
+
+    /**
+     * Runs the confirmed action against the selected account
+     */
+    const handleConfirm = async () => {
+        if (!confirming) return;
+        const { user, action, role } = confirming;
+
+        try {
+            switch (action) {
+                case 'role':
+                    await updateRole(user.id, role);
+                    break;
+                case 'deactivate':
+                    await setActive(user.id, false);
+                    break;
+                case 'reactivate':
+                    await setActive(user.id, true);
+                    break;
+                case 'reset-password':
+                    setTemporaryPassword({ user, password: await resetPassword(user.id) });
+                    break;
+            }
+            setConfirming(null);
+        } catch {
+            // Error toast is shown by the store; keep the dialog open to retry
+        }
+    };
+
+    const confirmation = confirming && describeAction(confirming.action, confirming.user, confirming.role);
+    const page = pagination?.page ?? 1;
+    const totalPages = pagination?.totalPages ?? 1;
+
+    return (
+        <DashboardContainer>
+            <DashboardHeader
+                title="User Management"
+                description="Manage accounts, roles, and access"
+                action={
+                    <Button onClick={() => fetchUsers()} variant="outline" disabled={isLoading} className="touch-target w-full xs:w-auto">
+                        <IconRefresh className="h-4 w-4 mr-2" />
+                        <span className="hidden xs:inline">Refresh</span>
+                    </Button>
+                }
+            />
+
+            <DashboardGrid cols={1}>
+                {/* Filters */}
+                <Card>
+                    <CardContent className="space-y-3 pt-6">
+                        <div className="relative">
+                            <IconSearch className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                            <Input
+                                value={search}
+                                onChange={(event) => setSearch(event.target.value)}
+                                placeholder="Search by name or email"
+                                className="pl-9"
+                            />
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                            {ROLE_FILTERS.map(({ label, value }) => (
+                                <Button
+                                    key={label}
+                                    size="sm"
+                                    variant={query.role === value ? 'default' : 'outline'}
+                                    onClick={() => setQuery({ role: value })}
+                                >
+                                    {label}
+                                </Button>
+                            ))}
+                            {STATUS_FILTERS.map(({ label, value }) => (
+                                <Button
+                                    key={label}
+                                    size="sm"
+                                    variant={query.status === value ? 'default' : 'outline'}
+                                    onClick={() => setQuery({ status: value })}
+                                >
+                                    {label}
+                                </Button>
+                            ))}
+                        </div>
+                    </CardContent>
+                </Card>
+
+                {/* Accounts */}
+                <Card>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-lg font-semibold">
+                            Accounts{pagination ? ` (${pagination.total})` : ''}
+                        </CardTitle>
+                        <IconUsers className="h-5 w-5 text-primary" />
+                    </CardHeader>
+                    <CardContent>
+                        {isLoading && users.length === 0 ? (
+                            <div className="text-center py-8">
+                                <p className="text-muted-foreground">Loading users...</p>
+                            </div>
+                        ) : users.length === 0 ? (
+                            <div className="text-center py-8">
+                                <IconUsers className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                                <p className="text-muted-foreground">No users match these filters</p>
+                            </div>
+                        ) : (
+                            <div className="space-y-4">
+                                {users.map((user) => {
+                                    const isSelf = user.id === currentUser?.id;
+                                    const isPending = pendingUserId === user.id;
+
+                                    return (
+                                        <div
+                                            key={user.id}
+                                            className="flex flex-col gap-3 p-3 border rounded-lg hover:bg-muted/50 transition-colors xs:flex-row xs:items-center xs:justify-between xs:p-4"
+                                        >
+                                            <div className="flex-1 min-w-0">
+                                                <div className="flex flex-wrap items-center gap-2">
+                                                    <h4 className="font-medium text-responsive-sm truncate">{user.name ?? user.email}</h4>
+                                                    <Badge variant={user.role === 'CUSTOMER' ? 'secondary' : 'default'}>{ROLE_LABELS[user.role]}</Badge>
+                                                    {!user.isActive && <Badge variant="destructive">Deactivated</Badge>}
+                                                    {user.passwordResetRequired && <Badge variant="outline">Reset pending</Badge>}
+                                                    {isSelf && <Badge variant="outline">You</Badge>}
+                                                </div>
+                                                <p className="text-responsive-xs text-muted-foreground truncate">
+                                                    {user.email} • Joined {new Date(user.createdAt).toLocaleDateString()}
+                                                </p>
+                                            </div>
+                                            <div className="flex flex-wrap gap-2 xs:ml-4">
+                                                <select
+                                                    value={user.role}
+                                                    disabled={isSelf || isPending}
+                                                    onChange={(event) => setConfirming({ user, action: 'role', role: event.target.value as Role })}
+                                                    aria-label={`Role for ${user.name ?? user.email}`}
+                                                    className="touch-target h-9 flex-1 rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 xs:flex-none"
+                                                >
+                                                    {ROLES.map((role) => (
+                                                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                                                    ))}
+                                                </select>
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    disabled={isSelf || isPending}
+                                                    onClick={() => setConfirming({ user, action: user.isActive ? 'deactivate' : 'reactivate', role: user.role })}
+                                                    className="touch-target flex-1 xs:flex-none"
+                                                >
+                                                    {user.isActive ? (
+                                                        <>
+                                                            <IconUserOff className="h-4 w-4 mr-2" />
+                                                            Deactivate
+                                                        </>
+                                                    ) : (
+                                                        <>
+                                                            <IconUserCheck className="h-4 w-4 mr-2" />
+                                                            Reactivate
+                                                        </>
+                                                    )}
+                                                </Button>
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    disabled={isPending}
+                                                    onClick={() => setConfirming({ user, action: 'reset-password', role: user.role })}
+                                                    className="touch-target flex-1 xs:flex-none"
+                                                >
+                                                    <IconKey className="h-4 w-4 mr-2" />
+                                                    Reset Password
+                                                </Button>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                                {totalPages > 1 && (
+                                    <div className="flex items-center justify-between gap-2">
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            disabled={page <= 1 || isLoading}
+                                            onClick={() => setQuery({ page: page - 1 })}
+                                        >
+                                            Previous
+                                        </Button>
+                                        <span className="text-responsive-xs text-muted-foreground">
+                                            Page {page} of {totalPages}
+                                        </span>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            disabled={page >= totalPages || isLoading}
+                                            onClick={() => setQuery({ page: page + 1 })}
+                                        >
+                                            Next
+                                        </Button>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </DashboardGrid>
+
+            {/* Action Confirmation Dialog */}
+            <Dialog open={!!confirming} onOpenChange={(open) => !open && setConfirming(null)}>
+                <DialogContent className="sm:max-w-md">
+                    {confirming && confirmation && (
+                        <>
+                            <DialogHeader>
+                                <DialogTitle className="flex items-center gap-2">
+                                    <IconAlertTriangle className="h-5 w-5 text-destructive" />
+                                    {confirmation.title}
+                                </DialogTitle>
+                                <DialogDescription className="text-left">
+                                    {confirmation.description}
+                                </DialogDescription>
+                            </DialogHeader>
+                            <DialogFooter className="flex-col sm:flex-row gap-2">
+                                <Button
+                                    variant="outline"
+                                    onClick={() => setConfirming(null)}
+                                    disabled={pendingUserId === confirming.user.id}
+                                    className="w-full sm:w-auto"
+                                >
+                                    Cancel
+                                </Button>
+                                <Button
+                                    variant={confirming.action === 'reactivate' ? 'default' : 'destructive'}
+                                    onClick={handleConfirm}
+                                    disabled={pendingUserId === confirming.user.id}
+                                    className="w-full sm:w-auto"
+                                >
+                                    {pendingUserId === confirming.user.id ? 'Working...' : confirmation.confirm}
+                                </Button>
+                            </DialogFooter>
+                        </>
+                    )}
+                </DialogContent>
+            </Dialog>
+
+            {/* Temporary Password Dialog */}
+            <Dialog open={!!temporaryPassword} onOpenChange={(open) => !open && setTemporaryPassword(null)}>
+                <DialogContent className="sm:max-w-md">
+                    {temporaryPassword && (
+                        <>
+                            <DialogHeader>
+                                <DialogTitle className="flex items-center gap-2">
+                                    <IconKey className="h-5 w-5 text-primary" />
+                                    Temporary Password
+                                </DialogTitle>
+                                <DialogDescription className="text-left">
+                                    Share this password with {temporaryPassword.user.name ?? temporaryPassword.user.email}.
+                                    It will not be shown again, and they must choose a new password after signing in.
+                                </DialogDescription>
+                            </DialogHeader>
+                            <p className="rounded-md border bg-muted p-3 text-center font-mono text-lg tracking-wider select-all">
+                                {temporaryPassword.password}
+                            </p>
+                            <DialogFooter>
+                                <Button onClick={() => setTemporaryPassword(null)} className="w-full sm:w-auto">
+                                    Done
+                                </Button>
+                            </DialogFooter>
+                        </>
+                    )}
+                </DialogContent>
+            </Dialog>
+        </DashboardContainer>
+    );
+};
@@ -7,4 +7,10 @@ export { LoginPage } from './LoginPage';
 export { RegisterPage } from './RegisterPage';
 export { DashboardPage } from './DashboardPage';
 export { SweetsPage } from './SweetsPage';
-export { AdminPage } from './AdminPage';
\ No newline at end of file
+export { CataloguePage } from './CataloguePage';
+export { SweetDetailPage } from './SweetDetailPage';
+export { AdminPage } from './AdminPage';
+export { UserManagementPage } from './UserManagementPage';
+export { ChangePasswordPage } from './ChangePasswordPage';
+export { AnalyticsPage } from './AnalyticsPage';
+export { OrdersPage } from './OrdersPage';export { ProfilePage } from './ProfilePage';
@@ -1,14 +1,22 @@
 import React, { useEffect } from 'react';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { useAuthStore } from '@/store/authStore';
-import { AuthGuard, AdminGuard } from '@/components/guards';
+import { useSweetStore } from '@/store/sweetStore';
+import { AuthGuard, PermissionGuard } from '@/components/guards';
 import { AppLayout } from '@/components/layout';
 import {
     LoginPage,
     RegisterPage,
     DashboardPage,
     SweetsPage,
-    AdminPage
+    CataloguePage,
+    SweetDetailPage,
+    AdminPage,
+    UserManagementPage,
+    ChangePasswordPage,
+    AnalyticsPage,
+    OrdersPage,
+    ProfilePage
 } from '@/pages';
 import { Toaster } from '@/components/ui/toaster';
 import { NotFoundError } from '@/components/ui/error';
@@ -30,6 +38,11 @@ export const AppRouter: React.FC = () => {
         initializeAuth();
     }, [checkAuth]);
 
+    // Keep sweets up to date with sales and edits made elsewhere while signed in
+    useEffect(() => {
+        if (!isAuthenticated) return;
+        return useSweetStore.getState().subscribeToLiveUpdates();
+    }, [isAuthenticated]);
 
 
     // Show loading screen while initializing
@@ -53,7 +66,19 @@ export const AppRouter: React.FC = () => {
                     element={
                         isAuthenticated ?
                             <Navigate to="/dashboard" replace /> :
-                            <Navigate to="/login" replace />
+                            <Navigate to="/catalogue" replace />
+                    }
+                />
+
+                {/* Public catalogue; signed-in users browse the full sweets page instead */}
+                <Route
+                    path="/catalogue"
+                    element={
+                        isAuthenticated ?
+                            <Navigate to="/sweets" replace /> :
+                            <AppLayout>
+                                <CataloguePage />
+                            </AppLayout>
                     }
                 />
 
@@ -61,6 +86,16 @@ export const AppRouter: React.FC = () => {
                 <Route path="/login" element={<LoginPage />} />
                 <Route path="/register" element={<RegisterPage />} />
 
+                {/* Password change, required before anything else after an admin reset */}
+                <Route
+                    path="/change-password"
+                    element={
+                        <AuthGuard>
+                            <ChangePasswordPage />
+                        </AuthGuard>
+                    }
+                />
+
                 {/* Protected routes wrapped in AppLayout */}
                 <Route
                     path="/dashboard"
@@ -84,58 +119,72 @@ export const AppRouter: React.FC = () => {
                     }
                 />
 
-                {/* Admin-only routes */}
+                {/* Product pages are public so their links can be shared */}
+                <Route
+                    path="/sweets/:id"
+                    element={
+                        <AppLayout showSidebar={true}>
+                            <SweetDetailPage />
+                        </AppLayout>
+                    }
+                />
+
+                <Route
+                    path="/orders"
+                    element={
+                        <AuthGuard>
+                            <AppLayout showSidebar={true}>
+                                <OrdersPage />
+                            </AppLayout>
+                        </AuthGuard>
+                    }
+                />
+
+                {/* Staff routes, each gated on the permission it needs */}
                 <Route
                     path="/admin"
                     element={
-                        <AdminGuard>
+                        <PermissionGuard permission="sweet:update">
                             <AppLayout showSidebar={true}>
                                 <AdminPage />
                             </AppLayout>
-                        </AdminGuard>
+                        </PermissionGuard>
                     }
                 />
 
-                {/* Additional admin routes */}
                 <Route
                     path="/analytics"
                     element={
-                        <AdminGuard>
+                        <PermissionGuard permission="analytics:view">
                             <AppLayout showSidebar={true}>
-                                <div className="p-6">
-                                    <h1 className="text-2xl font-bold mb-4">Analytics</h1>
-                                    <p className="text-neutral-600">Analytics dashboard coming soon...</p>
-                                </div>
+                                <AnalyticsPage />
                             </AppLayout>
-                        </AdminGuard>
+                        </PermissionGuard>
                     }
                 />
 
                 <Route
                     path="/inventory"
                     element={
-                        <AdminGuard>
+                        <PermissionGuard permission="inventory:restock">
                             <AppLayout showSidebar={true}>
                                 <div className="p-6">
                                     <h1 className="text-2xl font-bold mb-4">Inventory Management</h1>
                                     <p className="text-neutral-600">Inventory management coming soon...</p>
                                 </div>
                             </AppLayout>
-                        </AdminGuard>
+                        </PermissionGuard>
                     }
                 />
 
                 <Route
                     path="/users"
                     element={
-                        <AdminGuard>
+                        <PermissionGuard permission="user:manage">
                             <AppLayout showSidebar={true}>
-                                <div className="p-6">
-                                    <h1 className="text-2xl font-bold mb-4">User Management</h1>
-                                    <p className="text-neutral-600">User management coming soon...</p>
-                                </div>
+                                <UserManagementPage />
                             </AppLayout>
-                        </AdminGuard>
+                        </PermissionGuard>
                     }
                 />
 
@@ -144,10 +193,7 @@ export const AppRouter: React.FC = () => {
                     element={
                         <AuthGuard>
                             <AppLayout showSidebar={true}>
-                                <div className="p-6">
-                                    <h1 className="text-2xl font-bold mb-4">Profile</h1>
-                                    <p className="text-neutral-600">Profile page coming soon...</p>
-                                </div>
+                                <ProfilePage />
                             </AppLayout>
                         </AuthGuard>
                     }
@@ -35,6 +35,29 @@ export const registerSchema = z
         path: ['confirmPassword'],
     });
 
+export const changePasswordSchema = z
+    .object({
+        currentPassword: z
+            .string()
+            .min(1, 'Current password is required'),
+        newPassword: z
+            .string()
+            .min(1, 'New password is required')
+            .min(6, 'Password must be at least 6 characters long')
+            .max(100, 'Password must be less than 100 characters'),
+        confirmPassword: z
+            .string()
+            .min(1, 'Please confirm your new password'),
+    })
+    .refine((data) => data.newPassword === data.confirmPassword, {
+        message: 'Passwords do not match',
+        path: ['confirmPassword'],
+    })
+    .refine((data) => data.newPassword !== data.currentPassword, {
+        message: 'New password must be different from the current one',
+        path: ['newPassword'],
+    });
+
 // Sweet management schemas
 export const createSweetSchema = z.object({
     name: z
@@ -42,11 +65,10 @@ export const createSweetSchema = z.object({
         .min(1, 'Sweet name is required')
         .min(2, 'Sweet name must be at least 2 characters long')
         .max(100, 'Sweet name must be less than 100 characters'),
-    category: z
+    categoryId: z
         .string()
-        .min(1, 'Category is required')
-        .min(2, 'Category must be at least 2 characters long')
-        .max(50, 'Category must be less than 50 characters'),
+        .min(1, 'Category is required'),
+    // In major units as typed; converted to minor units before it is sent
     price: z
         .number()
         .min(0.01, 'Price must be greater than 0')
@@ -56,6 +78,16 @@ export const createSweetSchema = z.object({
         .int('Quantity must be a whole number')
         .min(0, 'Quantity cannot be negative')
         .max(10000, 'Quantity must be less than 10,000'),
+    reorderPoint: z
+        .number()
+        .int('Reorder point must be a whole number')
+        .min(0, 'Reorder point cannot be negative')
+        .max(10000, 'Reorder point must be less than 10,000'),
+    reorderQuantity: z
+        .number()
+        .int('Reorder quantity must be a whole number')
+        .min(1, 'Reorder quantity must be at least 1')
+        .max(10000, 'Reorder quantity must be less than 10,000'),
 });
 
 export const updateSweetSchema = z.object({
@@ -64,11 +96,11 @@ export const updateSweetSchema = z.object({
         .min(2, 'Sweet name must be at least 2 characters long')
         .max(100, 'Sweet name must be less than 100 characters')
         .optional(),
-    category: z
+    categoryId: z
         .string()
-        .min(2, 'Category must be at least 2 characters long')
-        .max(50, 'Category must be less than 50 characters')
+        .min(1, 'Category is required')
         .optional(),
+    // In major units as typed; converted to minor units before it is sent
     price: z
         .number()
         .min(0.01, 'Price must be greater than 0')
@@ -80,6 +112,18 @@ export const updateSweetSchema = z.object({
         .min(0, 'Quantity cannot be negative')
         .max(10000, 'Quantity must be less than 10,000')
         .optional(),
+    reorderPoint: z
+        .number()
+        .int('Reorder point must be a whole number')
+        .min(0, 'Reorder point cannot be negative')
+        .max(10000, 'Reorder point must be less than 10,000')
+        .optional(),
+    reorderQuantity: z
+        .number()
+        .int('Reorder quantity must be a whole number')
+        .min(1, 'Reorder quantity must be at least 1')
+        .max(10000, 'Reorder quantity must be less than 10,000')
+        .optional(),
 });
 
 // Search and filter schemas
@@ -126,6 +170,7 @@ export const purchaseSchema = z.object({
 // Type exports for use with react-hook-form
 export type LoginFormData = z.infer<typeof loginSchema>;
 export type RegisterFormData = z.infer<typeof registerSchema>;
+export type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
 export type CreateSweetFormData = z.infer<typeof createSweetSchema>;
 export type UpdateSweetFormData = z.infer<typeof updateSweetSchema>;
 export type SweetFiltersFormData = z.infer<typeof sweetFiltersSchema>;
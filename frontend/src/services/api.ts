@@ -1,5 +1,6 @@
-import axios from 'axios';
-import type { LoginCredentials, RegisterData, User, Sweet, CreateSweetData, UpdateSweetData } from '../types';
+import axios, { type InternalAxiosRequestConfig } from 'axios';
+import type { LoginCredentials, RegisterData, User, Sweet, SweetEvent, SweetImage, PriceHistoryEntry, CataloguePriceEntry, SchedulePriceData, Promotion, CreatePromotionData, UpdatePromotionData, PromotionQuote, CatalogueSweet, CreateSweetData, UpdateSweetData, CatalogueFileFormat, ImportCatalogueData, ImportReport, Cart, CartItem, StockReservation, Order, InvoiceFormat, OrderQueryParams, OrderListResponse, ReorderResult, PaginatedResponse, SweetQueryParams, Category, CreateCategoryData, UpdateCategoryData, ManagedUser, UserQueryParams, LowStockAlert, AlertQueryParams, AlertListResponse, AnalyticsRange, AnalyticsInterval, SalesReport, TopSellerMetric, TopSellersReport, StockTurnoverReport } from '../types';
+import { getErrorCode } from '../utils/errorHandling';
 
 /**
  * Base URL for the API, defaults to localhost:8000 if not set in environment
@@ -11,6 +12,12 @@ if (import.meta.env.DEV) {
     console.log('API Base URL:', API_BASE_URL);
 }
 
+/**
+ * Resolve a path served by the API, such as an uploaded image, to a full URL
+ */
+export const assetUrl = (path: string): string =>
+    /^https?:\/\//.test(path) ? path : `${API_BASE_URL}${path}`;
+
 /**
  * Axios instance configured for the sweet shop API
  */
@@ -27,17 +34,34 @@ if (token) {
     api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
 }
 
+/**
+ * Persist a token pair and use the access token for subsequent requests
+ */
+const storeTokens = (accessToken: string, refreshToken: string) => {
+    localStorage.setItem('auth-token', accessToken);
+    localStorage.setItem('refresh-token', refreshToken);
+    api.defaults.headers.common['Authorization'] = `Bearer ${accessToken}`;
+};
+
+/**
+ * Forget both tokens and stop sending the Authorization header
+ */
+const clearTokens = () => {
+    localStorage.removeItem('auth-token');
+    localStorage.removeItem('refresh-token');
+    delete api.defaults.headers.common['Authorization'];
+};
+
 /**
  * Authentication API methods
  */
 export const authAPI = {
     async login(credentials: LoginCredentials): Promise<{ user: User; token: string }> {
         const response = await api.post('/api/users/login', credentials);
-        const { token, user } = response.data;
+        const { token, refreshToken, user } = response.data;
 
         if (token) {
-            localStorage.setItem('auth-token', token);
-            api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+            storeTokens(token, refreshToken);
         }
 
         return { user, token };
@@ -54,10 +78,43 @@ export const authAPI = {
         return response.data.user;
     },
 
+    async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+        await api.put('/api/users/password', { currentPassword, newPassword });
+    },
+
     async logout(): Promise<void> {
-        localStorage.removeItem('auth-token');
-        delete api.defaults.headers.common['Authorization'];
-        return Promise.resolve();
+        try {
+            // Revoke the session server-side so its tokens stop working
+            await api.post('/api/users/logout');
+        } finally {
+            clearTokens();
+        }
+    },
+};
+
+/**
+ * Public catalogue API methods, available without signing in
+ */
+export const catalogueAPI = {
+    async search(params: SweetQueryParams): Promise<PaginatedResponse<CatalogueSweet>> {
+        const response = await api.get('/api/catalogue/search', { params });
+        return response.data;
+    },
+
+    async getById(id: string): Promise<CatalogueSweet> {
+        const response = await api.get(`/api/catalogue/${id}`);
+        return response.data.sweet;
+    },
+
+    // Prices the sweet has sold at, latest first
+    async getPrices(id: string): Promise<CataloguePriceEntry[]> {
+        const response = await api.get(`/api/catalogue/${id}/prices`);
+        return response.data.prices;
+    },
+
+    async getCategories(): Promise<Category[]> {
+        const response = await api.get('/api/catalogue/categories');
+        return response.data.categories;
     },
 };
 
@@ -65,14 +122,19 @@ export const authAPI = {
  * Sweet shop API methods
  */
 export const sweetAPI = {
-    async getAll(): Promise<Sweet[]> {
-        const response = await api.get('/api/sweets');
-        return response.data.sweets;
+    async getAll(params?: SweetQueryParams): Promise<PaginatedResponse<Sweet>> {
+        const response = await api.get('/api/sweets', { params });
+        return response.data;
     },
 
-    async search(params: { query?: string; category?: string; minPrice?: number; maxPrice?: number }): Promise<Sweet[]> {
+    async search(params: SweetQueryParams): Promise<PaginatedResponse<Sweet>> {
         const response = await api.get('/api/sweets/search', { params });
-        return response.data.sweets;
+        return response.data;
+    },
+
+    async getById(id: string): Promise<Sweet> {
+        const response = await api.get(`/api/sweets/${id}`);
+        return response.data.sweet;
     },
 
     async create(sweetData: CreateSweetData): Promise<Sweet> {
@@ -85,12 +147,24 @@ export const sweetAPI = {
         return response.data.sweet;
     },
 
+    // Archives the sweet; it can be brought back with restore
     async delete(id: string): Promise<void> {
         await api.delete(`/api/sweets/${id}`);
     },
 
-    async purchase(id: string, quantity: number = 1): Promise<Sweet> {
-        const response = await api.post(`/api/sweets/${id}/purchase`, { quantity });
+    async getArchived(params?: Pick<SweetQueryParams, 'page' | 'limit' | 'cursor' | 'sortBy' | 'order'>): Promise<PaginatedResponse<Sweet>> {
+        const response = await api.get('/api/sweets/archived', { params });
+        return response.data;
+    },
+
+    async restore(id: string): Promise<Sweet> {
+        const response = await api.post(`/api/sweets/${id}/restore`);
+        return response.data.sweet;
+    },
+
+    // A reservation, when given, is bought along with any units requested beyond it
+    async purchase(id: string, quantity: number = 1, couponCode?: string, reservationId?: string): Promise<Sweet> {
+        const response = await api.post(`/api/sweets/${id}/purchase`, { quantity, couponCode, reservationId });
         return response.data.sweet;
     },
 
@@ -98,17 +172,388 @@ export const sweetAPI = {
         const response = await api.post(`/api/sweets/${id}/restock`, { quantity });
         return response.data.sweet;
     },
+
+    // Committing a file with invalid rows fails with the full report in the error details
+    async importCatalogue(data: ImportCatalogueData): Promise<ImportReport> {
+        try {
+            const response = await api.post('/api/sweets/import', data);
+            return response.data;
+        } catch (error: any) {
+            if (getErrorCode(error) === 'IMPORT_INVALID_ROWS') {
+                return error.response.data.error.details;
+            }
+            throw error;
+        }
+    },
+
+    async exportCatalogue(format: CatalogueFileFormat): Promise<Blob> {
+        const response = await api.get('/api/sweets/export', {
+            params: { format },
+            responseType: 'blob',
+        });
+        return response.data;
+    },
+};
+
+/**
+ * Product image API methods; each returns the sweet's images in display order
+ */
+export const sweetImageAPI = {
+    async upload(sweetId: string, files: File[]): Promise<SweetImage[]> {
+        const formData = new FormData();
+        files.forEach(file => formData.append('images', file));
+        const response = await api.post(`/api/sweets/${sweetId}/images`, formData, {
+            headers: { 'Content-Type': 'multipart/form-data' },
+        });
+        return response.data.images;
+    },
+
+    async reorder(sweetId: string, imageIds: string[]): Promise<SweetImage[]> {
+        const response = await api.put(`/api/sweets/${sweetId}/images/order`, { imageIds });
+        return response.data.images;
+    },
+
+    async setPrimary(sweetId: string, imageId: string): Promise<SweetImage[]> {
+        const response = await api.put(`/api/sweets/${sweetId}/images/${imageId}/primary`);
+        return response.data.images;
+    },
+
+    async delete(sweetId: string, imageId: string): Promise<SweetImage[]> {
+        const response = await api.delete(`/api/sweets/${sweetId}/images/${imageId}`);
+        return response.data.images;
+    },
+};
+
+/**
+ * Price history API methods for staff; entries come latest effective date first
+ */
+export const priceHistoryAPI = {
+    async list(sweetId: string): Promise<PriceHistoryEntry[]> {
+        const response = await api.get(`/api/sweets/${sweetId}/prices`);
+        return response.data.prices;
+    },
+
+    async schedule(sweetId: string, data: SchedulePriceData): Promise<PriceHistoryEntry> {
+        const response = await api.post(`/api/sweets/${sweetId}/prices`, data);
+        return response.data.price;
+    },
+
+    async cancel(sweetId: string, priceId: string): Promise<void> {
+        await api.delete(`/api/sweets/${sweetId}/prices/${priceId}`);
+    },
+};
+
+/**
+ * Promotion API methods; quoting is open to any signed-in user, the rest need promotion:manage
+ */
+export const promotionAPI = {
+    async list(): Promise<Promotion[]> {
+        const response = await api.get('/api/promotions');
+        return response.data.promotions;
+    },
+
+    async create(promotionData: CreatePromotionData): Promise<Promotion> {
+        const response = await api.post('/api/promotions', promotionData);
+        return response.data.promotion;
+    },
+
+    async update(id: string, promotionData: UpdatePromotionData): Promise<Promotion> {
+        const response = await api.put(`/api/promotions/${id}`, promotionData);
+        return response.data.promotion;
+    },
+
+    async delete(id: string): Promise<void> {
+        await api.delete(`/api/promotions/${id}`);
+    },
+
+    async quote(items: Array<{ sweetId: string; quantity: number }>, couponCode?: string): Promise<PromotionQuote> {
+        const response = await api.post('/api/promotions/quote', { items, couponCode });
+        return response.data.quote;
+    },
+};
+
+/**
+ * Catalogue category API methods
+ */
+export const categoryAPI = {
+    async list(): Promise<Category[]> {
+        const response = await api.get('/api/categories');
+        return response.data.categories;
+    },
+
+    async create(categoryData: CreateCategoryData): Promise<Category> {
+        const response = await api.post('/api/categories', categoryData);
+        return response.data.category;
+    },
+
+    async update(id: string, categoryData: UpdateCategoryData): Promise<Category> {
+        const response = await api.put(`/api/categories/${id}`, categoryData);
+        return response.data.category;
+    },
+
+    async delete(id: string): Promise<void> {
+        await api.delete(`/api/categories/${id}`);
+    },
+};
+
+/**
+ * Shopping cart API methods
+ */
+export const cartAPI = {
+    async get(): Promise<Cart> {
+        const response = await api.get('/api/cart/items');
+        return { items: response.data.items, total: response.data.total, currency: response.data.currency };
+    },
+
+    async addItem(sweetId: string, quantity: number = 1): Promise<CartItem> {
+        const response = await api.post('/api/cart/items', { sweetId, quantity });
+        return response.data.item;
+    },
+
+    async updateItem(sweetId: string, quantity: number): Promise<CartItem> {
+        const response = await api.patch(`/api/cart/items/${sweetId}`, { quantity });
+        return response.data.item;
+    },
+
+    async removeItem(sweetId: string): Promise<void> {
+        await api.delete(`/api/cart/items/${sweetId}`);
+    },
+
+    async clear(): Promise<void> {
+        await api.delete('/api/cart/items');
+    },
+
+    async checkout(couponCode?: string): Promise<{ sweets: Sweet[]; order: Order }> {
+        const response = await api.post('/api/cart/checkout', { couponCode });
+        return { sweets: response.data.sweets, order: response.data.order };
+    },
+};
+
+/**
+ * Stock reservation API methods; a new hold on a sweet replaces the caller's previous one
+ */
+export const reservationAPI = {
+    async reserve(sweetId: string, quantity: number): Promise<{ reservation: StockReservation; sweet: Sweet }> {
+        const response = await api.post('/api/reservations', { sweetId, quantity });
+        return { reservation: response.data.reservation, sweet: response.data.sweet };
+    },
+
+    async release(id: string): Promise<Sweet> {
+        const response = await api.delete(`/api/reservations/${id}`);
+        return response.data.sweet;
+    },
+};
+
+/**
+ * Order history API methods for the signed-in user
+ */
+export const orderAPI = {
+    async list(params?: OrderQueryParams): Promise<OrderListResponse> {
+        const response = await api.get('/api/orders', { params });
+        return response.data;
+    },
+
+    async get(id: string): Promise<Order> {
+        const response = await api.get(`/api/orders/${id}`);
+        return response.data.order;
+    },
+
+    // Puts the order's sweets back in the cart, as far as current stock allows
+    async reorder(id: string): Promise<ReorderResult> {
+        const response = await api.post(`/api/orders/${id}/reorder`);
+        return { items: response.data.items, shortfalls: response.data.shortfalls };
+    },
+
+    // Fetched as a file because the API needs the auth header, so a plain link will not do
+    async invoice(id: string, format: InvoiceFormat): Promise<Blob> {
+        const response = await api.get(`/api/orders/${id}/invoice`, {
+            params: { format },
+            responseType: 'blob',
+        });
+        return response.data;
+    },
+};
+
+/**
+ * Admin user management API methods
+ */
+export const userManagementAPI = {
+    async list(params?: UserQueryParams): Promise<PaginatedResponse<ManagedUser>> {
+        const response = await api.get('/api/admin/users', { params });
+        return response.data;
+    },
+
+    async get(id: string): Promise<ManagedUser> {
+        const response = await api.get(`/api/admin/users/${id}`);
+        return response.data.user;
+    },
+
+    async updateRole(id: string, role: ManagedUser['role']): Promise<ManagedUser> {
+        const response = await api.patch(`/api/admin/users/${id}/role`, { role });
+        return response.data.user;
+    },
+
+    async deactivate(id: string): Promise<ManagedUser> {
+        const response = await api.post(`/api/admin/users/${id}/deactivate`);
+        return response.data.user;
+    },
+
+    async reactivate(id: string): Promise<ManagedUser> {
+        const response = await api.post(`/api/admin/users/${id}/reactivate`);
+        return response.data.user;
+    },
+
+    async resetPassword(id: string): Promise<{ user: ManagedUser; temporaryPassword: string }> {
+        const response = await api.post(`/api/admin/users/${id}/reset-password`);
+        return { user: response.data.user, temporaryPassword: response.data.temporaryPassword };
+    },
+};
+
+/**
+ * Admin analytics API methods
+ */
+export const analyticsAPI = {
+    async getSales(params: AnalyticsRange & { interval?: AnalyticsInterval }): Promise<SalesReport> {
+        const response = await api.get('/api/analytics/sales', { params });
+        return response.data;
+    },
+
+    async getTopSellers(params: AnalyticsRange & { limit?: number; metric?: TopSellerMetric }): Promise<TopSellersReport> {
+        const response = await api.get('/api/analytics/top-sellers', { params });
+        return response.data;
+    },
+
+    async getStockTurnover(params: AnalyticsRange): Promise<StockTurnoverReport> {
+        const response = await api.get('/api/analytics/stock-turnover', { params });
+        return response.data;
+    },
+};
+
+/**
+ * Live catalogue event API methods
+ */
+export const eventAPI = {
+    // Read with fetch because EventSource cannot send the auth header.
+    // Resolves when the server ends the stream and rejects if the connection fails or is aborted.
+    async streamSweetEvents(
+        handlers: { onOpen?: () => void; onEvent: (event: SweetEvent) => void },
+        signal: AbortSignal
+    ): Promise<void> {
+        const response = await fetch(`${API_BASE_URL}/api/events/sweets`, {
+            headers: {
+                Accept: 'text/event-stream',
+                Authorization: String(api.defaults.headers.common['Authorization'] ?? ''),
+            },
+            signal,
+        });
+
+        if (response.status === 401) {
+            // Refresh the expired access token so the next attempt is accepted
+            await refreshAccessToken();
+            return;
+        }
+        if (!response.ok || !response.body) {
+            throw new Error(`Event stream failed with status ${response.status}`);
+        }
+
+        handlers.onOpen?.();
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+
+        for (;;) {
+            const { value, done } = await reader.read();
+            if (done) return;
+
+            buffer += value;
+            // Events end with a blank line; comments and the retry hint carry no data
+            let boundary = buffer.indexOf('\n\n');
+            while (boundary !== -1) {
+                const data = buffer
+                    .slice(0, boundary)
+                    .split('\n')
+                    .filter(line => line.startsWith('data:'))
+                    .map(line => line.slice(5).trimStart())
+                    .join('\n');
+                buffer = buffer.slice(boundary + 2);
+                if (data) {
+                    handlers.onEvent(JSON.parse(data));
+                }
+                boundary = buffer.indexOf('\n\n');
+            }
+        }
+    },
+};
+
+/**
+ * Admin low-stock alert API methods
+ */
+export const alertAPI = {
+    async list(params?: AlertQueryParams): Promise<AlertListResponse> {
+        const response = await api.get('/api/alerts', { params });
+        return response.data;
+    },
+
+    async acknowledge(id: string): Promise<LowStockAlert> {
+        const response = await api.post(`/api/alerts/${id}/acknowledge`);
+        return response.data.alert;
+    },
+};
+
+// Endpoints whose 401 responses mean bad credentials rather than an expired access token
+const AUTH_ENDPOINTS = ['/api/users/login', '/api/users/register', '/api/users/refresh'];
+
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Exchange the stored refresh token for a new token pair. Concurrent callers
+ * share one request because each refresh token can only be used once.
+ */
+const refreshAccessToken = (): Promise<string> => {
+    if (!refreshPromise) {
+        const refreshToken = localStorage.getItem('refresh-token');
+
+        refreshPromise = (refreshToken
+            ? api.post('/api/users/refresh', { refreshToken }).then(({ data }) => {
+                storeTokens(data.token, data.refreshToken);
+                return data.token as string;
+            })
+            : Promise.reject(new Error('No refresh token'))
+        ).finally(() => {
+            refreshPromise = null;
+        });
+    }
+
+    return refreshPromise;
 };
 
 /**
  * Response interceptor for simple error handling
+ * Refreshes and retries once on 401, then falls back to the login page
  */
 api.interceptors.response.use(
     (response) => response,
-    (error) => {
+    async (error) => {
+        const request = error.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined;
+
+        if (
+            error.response?.status === 401 &&
+            request &&
+            !request._retry &&
+            !AUTH_ENDPOINTS.includes(request.url ?? '')
+        ) {
+            request._retry = true;
+
+            try {
+                const accessToken = await refreshAccessToken();
+                request.headers.Authorization = `Bearer ${accessToken}`;
+                return api(request);
+            } catch {
+                // Refresh failed; sign out below
+            }
+        }
+
         if (error.response?.status === 401) {
-            localStorage.removeItem('auth-token');
-            delete api.defaults.headers.common['Authorization'];
+            clearTokens();
 
             if (!window.location.pathname.includes('/login') &&
                 !window.location.pathname.includes('/register')) {
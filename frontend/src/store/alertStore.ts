@@ -0,0 +1,85 @@
+import { create } from 'zustand';
+import { alertAPI } from '../services/api';
+import { showErrorToast, getErrorMessage } from '../utils/errorHandling';
+import type { LowStockAlert } from '../types';
+
+/** Number of active alerts shown in the header panel */
+const PANEL_SIZE = 50;
+
+/**
+ * Low-stock alert store state interface
+ */
+interface AlertState {
+    // State
+    alerts: LowStockAlert[];
+    total: number;
+    unacknowledged: number;
+    isLoading: boolean;
+    /** Id of the alert currently being acknowledged */
+    pendingAlertId: string | null;
+    isOpen: boolean;
+    error: string | null;
+
+    // Actions
+    fetchAlerts: () => Promise<void>;
+    acknowledge: (id: string) => Promise<void>;
+    setOpen: (open: boolean) => void;
+    reset: () => void;
+}
+
+/**
+ * Zustand store for admin low-stock alerts
+ * Holds the active alerts shown behind the header badge
+ */
+export const useAlertStore = create<AlertState>((set) => ({
+    // Initial state
+    alerts: [],
+    total: 0,
+    unacknowledged: 0,
+    isLoading: false,
+    pendingAlertId: null,
+    isOpen: false,
+    error: null,
+
+    // Load active alerts and the unacknowledged count
+    fetchAlerts: async () => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const { alerts, unacknowledged, pagination } = await alertAPI.list({ status: 'active', limit: PANEL_SIZE });
+            set({ alerts, unacknowledged, total: pagination.total, isLoading: false });
+        } catch (error: any) {
+            // Polled in the background, so failures are kept quiet
+            set({ isLoading: false, error: getErrorMessage(error) });
+        }
+    },
+
+    // Mark an alert as seen; it stays listed until the sweet is restocked
+    acknowledge: async (id: string) => {
+        set({ pendingAlertId: id, error: null });
+
+        try {
+            const updated = await alertAPI.acknowledge(id);
+            set((state) => ({
+                alerts: state.alerts.map(alert => alert.id === id ? updated : alert),
+                unacknowledged: Math.max(0, state.unacknowledged - 1),
+                pendingAlertId: null,
+            }));
+        } catch (error: any) {
+            const errorMessage = getErrorMessage(error);
+            set({ pendingAlertId: null, error: errorMessage });
+            showErrorToast('Failed to acknowledge alert', errorMessage);
+            throw error;
+        }
+    },
+
+    // Show or hide the alerts panel
+    setOpen: (open: boolean) => {
+        set({ isOpen: open });
+    },
+
+    // Forget alerts when signing out
+    reset: () => {
+        set({ alerts: [], total: 0, unacknowledged: 0, pendingAlertId: null, isOpen: false, error: null });
+    },
+}));
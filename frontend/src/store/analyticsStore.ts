@@ -0,0 +1,122 @@
+import { create } from 'zustand';
+import { analyticsAPI } from '../services/api';
+import { showErrorToast, getErrorMessage } from '../utils/errorHandling';
+import type { AnalyticsInterval, AnalyticsRange, SalesReport, StockTurnoverReport, TopSellerMetric, TopSellersReport } from '../types';
+
+const TOP_SELLERS_LIMIT = 10;
+
+/**
+ * Date range as picked in the UI: calendar days (YYYY-MM-DD), both inclusive
+ */
+export interface AnalyticsDateRange {
+    from: string;
+    to: string;
+}
+
+/**
+ * Analytics store state interface
+ */
+interface AnalyticsState {
+    // State
+    dateRange: AnalyticsDateRange;
+    interval: AnalyticsInterval;
+    topSellerMetric: TopSellerMetric;
+    sales: SalesReport | null;
+    topSellers: TopSellersReport | null;
+    stockTurnover: StockTurnoverReport | null;
+    isLoading: boolean;
+    error: string | null;
+
+    // Actions
+    fetchAnalytics: () => Promise<void>;
+    setDateRange: (dateRange: AnalyticsDateRange) => void;
+    setInterval: (interval: AnalyticsInterval) => void;
+    setTopSellerMetric: (metric: TopSellerMetric) => void;
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+const toDateInput = (date: Date) => {
+    const local = new Date(date.getTime() - date.getTimezoneOffset() * 60_000);
+    return local.toISOString().slice(0, 10);
+};
+
+/**
+ * Last 30 days including today
+ */
+const defaultDateRange = (): AnalyticsDateRange => {
+    const today = new Date();
+    const from = new Date(today);
+    from.setDate(today.getDate() - 29);
+    return { from: toDateInput(from), to: toDateInput(today) };
+};
+
+/**
+ * Turn calendar days into the timestamps the API expects, covering the whole of the last day
+ */
+const toApiRange = ({ from, to }: AnalyticsDateRange): AnalyticsRange => ({
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+});
+
+// Incremented per request so slower, outdated responses are ignored
+let latestRequestId = 0;
+
+/**
+ * Zustand store for the admin analytics dashboard
+ */
+export const useAnalyticsStore = create<AnalyticsState>((set, get) => ({
+    // Initial state
+    dateRange: defaultDateRange(),
+    interval: 'day',
+    topSellerMetric: 'units',
+    sales: null,
+    topSellers: null,
+    stockTurnover: null,
+    isLoading: false,
+    error: null,
+
+    // Load every report for the current filters
+    fetchAnalytics: async () => {
+        const requestId = ++latestRequestId;
+        const { dateRange, interval, topSellerMetric } = get();
+        const range = toApiRange(dateRange);
+        set({ isLoading: true, error: null });
+
+        try {
+            const [sales, topSellers, stockTurnover] = await Promise.all([
+                analyticsAPI.getSales({ ...range, interval }),
+                analyticsAPI.getTopSellers({ ...range, metric: topSellerMetric, limit: TOP_SELLERS_LIMIT }),
+                analyticsAPI.getStockTurnover(range),
+            ]);
+            if (requestId !== latestRequestId) return;
+
+            set({ sales, topSellers, stockTurnover, isLoading: false });
+        } catch (error: any) {
+            if (requestId !== latestRequestId) return;
+
+            const errorMessage = getErrorMessage(error);
+            set({ isLoading: false, error: errorMessage });
+            showErrorToast('Failed to load analytics', errorMessage);
+        }
+    },
+
+    // Change the reporting period and reload
+    setDateRange: (dateRange: AnalyticsDateRange) => {
+        set({ dateRange });
+        get().fetchAnalytics();
+    },
+
+    // Change the time series bucket size and reload
+    setInterval: (interval: AnalyticsInterval) => {
+        set({ interval });
+        get().fetchAnalytics();
+    },
+
+    // Rank top sellers by units or revenue and reload
+    setTopSellerMetric: (metric: TopSellerMetric) => {
+        set({ topSellerMetric: metric });
+        get().fetchAnalytics();
+    },
+}));
@@ -13,12 +13,12 @@ interface AuthState {
     isAuthenticated: boolean;
     isLoading: boolean;
     error: string | null;
-    isAdmin: boolean;
 
     // Actions
     login: (credentials: LoginCredentials) => Promise<void>;
     register: (userData: RegisterData) => Promise<void>;
     logout: () => Promise<void>;
+    changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
     checkAuth: () => Promise<void>;
     clearError: () => void;
     setLoading: (loading: boolean) => void;
@@ -35,7 +35,6 @@ export const useAuthStore = create<AuthState>()(
             isAuthenticated: false,
             isLoading: false,
             error: null,
-            isAdmin: false,
 
             // Login action
             login: async (credentials: LoginCredentials) => {
@@ -46,7 +45,6 @@ export const useAuthStore = create<AuthState>()(
                     set({
                         user,
                         isAuthenticated: true,
-                        isAdmin: user.role === 'ADMIN',
                         isLoading: false,
                         error: null
                     });
@@ -57,7 +55,6 @@ export const useAuthStore = create<AuthState>()(
                     set({
                         user: null,
                         isAuthenticated: false,
-                        isAdmin: false,
                         isLoading: false,
                         error: errorMessage
                     });
@@ -75,7 +72,6 @@ export const useAuthStore = create<AuthState>()(
                     set({
                         user,
                         isAuthenticated: true,
-                        isAdmin: user.role === 'ADMIN',
                         isLoading: false,
                         error: null
                     });
@@ -86,7 +82,6 @@ export const useAuthStore = create<AuthState>()(
                     set({
                         user: null,
                         isAuthenticated: false,
-                        isAdmin: false,
                         isLoading: false,
                         error: errorMessage
                     });
@@ -108,23 +103,44 @@ export const useAuthStore = create<AuthState>()(
                     set({
                         user: null,
                         isAuthenticated: false,
-                        isAdmin: false,
                         isLoading: false,
                         error: null
                     });
                 }
             },
 
+            // Change password action (also completes an admin-forced reset)
+            changePassword: async (currentPassword: string, newPassword: string) => {
+                // Leaves isLoading alone so the guarded form stays mounted while submitting
+                set({ error: null });
+
+                try {
+                    await authAPI.changePassword(currentPassword, newPassword);
+                    const user = get().user;
+                    set({
+                        user: user && { ...user, passwordResetRequired: false },
+                        error: null
+                    });
+
+                    showSuccessToast('Password Changed', 'Your password has been updated.');
+                } catch (error: any) {
+                    const errorMessage = getErrorMessage(error);
+                    set({ error: errorMessage });
+                    showErrorToast('Password Change Failed', errorMessage);
+                    throw error;
+                }
+            },
+
             // Check authentication status
             checkAuth: async () => {
                 if (get().isLoading) return;
 
-                const token = localStorage.getItem('auth-token');
+                // An expired access token is fine as long as it can be refreshed
+                const token = localStorage.getItem('auth-token') ?? localStorage.getItem('refresh-token');
                 if (!token) {
                     set({
                         user: null,
                         isAuthenticated: false,
-                        isAdmin: false,
                         isLoading: false,
                         error: null
                     });
@@ -138,16 +154,15 @@ export const useAuthStore = create<AuthState>()(
                     set({
                         user,
                         isAuthenticated: true,
-                        isAdmin: user.role === 'ADMIN',
                         isLoading: false,
                         error: null
                     });
                 } catch (error: any) {
                     localStorage.removeItem('auth-token');
+                    localStorage.removeItem('refresh-token');
                     set({
                         user: null,
                         isAuthenticated: false,
-                        isAdmin: false,
                         isLoading: false,
                         error: null
                     });
@@ -170,7 +185,6 @@ export const useAuthStore = create<AuthState>()(
             partialize: (state) => ({
                 user: state.user,
                 isAuthenticated: state.isAuthenticated,
-                isAdmin: state.isAdmin,
             }),
             onRehydrateStorage: () => (state) => {
                 if (state?.isAuthenticated) {
@@ -179,13 +193,9 @@ export const useAuthStore = create<AuthState>()(
                         import('../services/api').then(({ default: api }) => {
                             api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
                         });
-                        if (state.user) {
-                            state.isAdmin = state.user.role === 'ADMIN';
-                        }
                     } else {
                         state.user = null;
                         state.isAuthenticated = false;
-                        state.isAdmin = false;
                     }
                 }
             },
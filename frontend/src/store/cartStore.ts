@@ -0,0 +1,201 @@
+import { create } from 'zustand';
+import { cartAPI, orderAPI } from '../services/api';
+import { useSweetStore } from './sweetStore';
+import { showErrorToast, showSuccessToast, getErrorMessage } from '../utils/errorHandling';
+import { formatMoney } from '../utils/money';
+import type { CartItem, Order, ReorderResult } from '../types';
+
+/**
+ * Cart store state interface
+ */
+interface CartState {
+    // State
+    items: CartItem[];
+    total: number;
+    isOpen: boolean;
+    isLoading: boolean;
+    isCheckingOut: boolean;
+    error: string | null;
+
+    // Actions
+    fetchCart: () => Promise<void>;
+    addItem: (sweetId: string, quantity?: number) => Promise<void>;
+    updateItem: (sweetId: string, quantity: number) => Promise<void>;
+    removeItem: (sweetId: string) => Promise<void>;
+    clearCart: () => Promise<void>;
+    reorder: (orderId: string) => Promise<ReorderResult>;
+    checkout: () => Promise<Order>;
+    setOpen: (open: boolean) => void;
+    reset: () => void;
+}
+
+/**
+ * Sum of line totals at current catalogue prices, in minor units
+ */
+const computeTotal = (items: CartItem[]) =>
+    items.reduce((sum, item) => sum + item.sweet.price * item.quantity, 0);
+
+/**
+ * Zustand store for the server-side shopping cart
+ */
+export const useCartStore = create<CartState>((set, get) => ({
+    // Initial state
+    items: [],
+    total: 0,
+    isOpen: false,
+    isLoading: false,
+    isCheckingOut: false,
+    error: null,
+
+    // Load the cart from the server
+    fetchCart: async () => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const { items, total } = await cartAPI.get();
+            set({ items, total, isLoading: false, error: null });
+        } catch (error: any) {
+            const errorMessage = getErrorMessage(error);
+            set({ isLoading: false, error: errorMessage });
+            showErrorToast('Failed to load cart', errorMessage);
+        }
+    },
+
+    // Add a sweet to the cart (merges with an existing line)
+    addItem: async (sweetId: string, quantity: number = 1) => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const item = await cartAPI.addItem(sweetId, quantity);
+            set((state) => {
+                const exists = state.items.some(line => line.sweetId === sweetId);
+                const items = exists
+                    ? state.items.map(line => line.sweetId === sweetId ? item : line)
+                    : [...state.items, item];
+                return { items, total: computeTotal(items), isLoading: false };
+            });
+
+            showSuccessToast('Added to Cart', `${item.sweet.name} × ${quantity} added to your cart.`);
+        } catch (error: any) {
+            const errorMessage = getErrorMessage(error);
+            set({ isLoading: false, error: errorMessage });
+            showErrorToast('Failed to add to cart', errorMessage);
+            throw error;
+        }
+    },
+
+    // Change the quantity of a cart line
+    updateItem: async (sweetId: string, quantity: number) => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const item = await cartAPI.updateItem(sweetId, quantity);
+            set((state) => {
+                const items = state.items.map(line => line.sweetId === sweetId ? item : line);
+                return { items, total: computeTotal(items), isLoading: false };
+            });
+        } catch (error: any) {
+            const errorMessage = getErrorMessage(error);
+            set({ isLoading: false, error: errorMessage });
+            showErrorToast('Failed to update cart', errorMessage);
+            throw error;
+        }
+    },
+
+    // Remove a line from the cart
+    removeItem: async (sweetId: string) => {
+        set({ isLoading: true, error: null });
+
+        try {
+            await cartAPI.removeItem(sweetId);
+            set((state) => {
+                const items = state.items.filter(line => line.sweetId !== sweetId);
+                return { items, total: computeTotal(items), isLoading: false };
+            });
+        } catch (error: any) {
+            const errorMessage = getErrorMessage(error);
+            set({ isLoading: false, error: errorMessage });
+            showErrorToast('Failed to remove item', errorMessage);
+            throw error;
+        }
+    },
+
+    // Empty the cart
+    clearCart: async () => {
+        set({ isLoading: true, error: null });
+
+        try {
+            await cartAPI.clear();
+            set({ items: [], total: 0, isLoading: false });
+        } catch (error: any) {
+            const errorMessage = getErrorMessage(error);
+            set({ isLoading: false, error: errorMessage });
+            showErrorToast('Failed to clear cart', errorMessage);
+            throw error;
+        }
+    },
+
+    // Put a past order's sweets back in the cart; lines stock cannot cover are reported, not thrown
+    reorder: async (orderId: string) => {
+        set({ isLoading: true, error: null });
+
+        try {
+            const result = await orderAPI.reorder(orderId);
+            set((state) => {
+                const added = new Map(result.items.map(item => [item.sweetId, item]));
+                const items = [
+                    ...state.items.map(line => added.get(line.sweetId) ?? line),
+                    ...result.items.filter(item => !state.items.some(line => line.sweetId === item.sweetId)),
+                ];
+                return { items, total: computeTotal(items), isLoading: false, isOpen: result.items.length > 0 };
+            });
+
+            const units = result.items.reduce((sum, item) => sum + item.quantity, 0);
+            if (result.shortfalls.length === 0) {
+                showSuccessToast('Added to Cart', `${units} item${units === 1 ? '' : 's'} from your order are in your cart.`);
+            } else if (result.items.length > 0) {
+                showSuccessToast('Partly Added to Cart', `${result.shortfalls.length} line${result.shortfalls.length === 1 ? ' is' : 's are'} short of stock.`);
+            } else {
+                showErrorToast('Nothing to reorder', 'None of the sweets in this order are in stock right now.');
+            }
+            return result;
+        } catch (error: any) {
+            const errorMessage = getErrorMessage(error);
+            set({ isLoading: false, error: errorMessage });
+            showErrorToast('Reorder failed', errorMessage);
+            throw error;
+        }
+    },
+
+    // Purchase every line in one order; all-or-nothing on the server
+    checkout: async () => {
+        set({ isCheckingOut: true, error: null });
+
+        try {
+            const { sweets, order } = await cartAPI.checkout();
+            useSweetStore.getState().applySweetUpdates(sweets);
+            set({ items: [], total: 0, isCheckingOut: false, isOpen: false });
+
+            const units = order.lines.reduce((sum, line) => sum + line.quantity, 0);
+            showSuccessToast('Checkout Successful', `You purchased ${units} item${units > 1 ? 's' : ''} for ${formatMoney(order.total, order.currency)}.`);
+            return order;
+        } catch (error: any) {
+            const errorMessage = getErrorMessage(error);
+            set({ isCheckingOut: false, error: errorMessage });
+            showErrorToast('Checkout failed', errorMessage);
+            // Refresh so the drawer reflects current prices and stock
+            get().fetchCart();
+            throw error;
+        }
+    },
+
+    // Open or close the cart drawer
+    setOpen: (open: boolean) => {
+        set({ isOpen: open });
+    },
+
+    // Drop local cart state (e.g. on logout)
+    reset: () => {
+        set({ items: [], total: 0, isOpen: false, isLoading: false, isCheckingOut: false, error: null });
+    },
+}));
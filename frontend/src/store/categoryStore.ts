@@ -0,0 +1,94 @@
+import { create } from 'zustand';
+import { categoryAPI, catalogueAPI } from '../services/api';
+import { useAuthStore } from './authStore';
+import { showErrorToast, showSuccessToast, getErrorMessage } from '../utils/errorHandling';
+import type { Category, CreateCategoryData, UpdateCategoryData } from '../types';
+
+/**
+ * Category store state interface
+ */
+interface CategoryState {
+    // State
+    categories: Category[];
+    isLoading: boolean;
+    hasLoaded: boolean;
+    error: string | null;
+
+    // Actions
+    fetchCategories: (force?: boolean) => Promise<void>;
+    addCategory: (categoryData: CreateCategoryData) => Promise<Category>;
+    updateCategory: (id: string, categoryData: UpdateCategoryData) => Promise<void>;
+    deleteCategory: (id: string) => Promise<void>;
+}
+
+/**
+ * Zustand store for catalogue categories
+ * The list is small and rarely changes, so it is loaded once and shared by
+ * every category picker
+ */
+export const useCategoryStore = create<CategoryState>((set, get) => ({
+    // Initial state
+    categories: [],
+    isLoading: false,
+    hasLoaded: false,
+    error: null,
+
+    // Load all categories unless already loaded
+    fetchCategories: async (force = false) => {
+        const { hasLoaded, isLoading } = get();
+        if ((hasLoaded && !force) || isLoading) return;
+
+        set({ isLoading: true, error: null });
+
+        try {
+            // Visitors browsing the public catalogue have no session yet
+            const categories = useAuthStore.getState().isAuthenticated
+                ? await categoryAPI.list()
+                : await catalogueAPI.getCategories();
+            set({ categories, isLoading: false, hasLoaded: true });
+        } catch (error: any) {
+            const errorMessage = getErrorMessage(error);
+            set({ isLoading: false, error: errorMessage });
+            showErrorToast('Failed to load categories', errorMessage);
+        }
+    },
+
+    // Add a category (admin only)
+    addCategory: async (categoryData: CreateCategoryData) => {
+        try {
+            const category = await categoryAPI.create(categoryData);
+            await get().fetchCategories(true);
+            showSuccessToast('Category Added', `${category.name} has been added.`);
+            return category;
+        } catch (error: any) {
+            showErrorToast('Failed to add category', getErrorMessage(error));
+            throw error;
+        }
+    },
+
+    // Rename, move or reorder a category (admin only)
+    updateCategory: async (id: string, categoryData: UpdateCategoryData) => {
+        try {
+            const category = await categoryAPI.update(id, categoryData);
+            await get().fetchCategories(true);
+            showSuccessToast('Category Updated', `${category.name} has been updated.`);
+        } catch (error: any) {
+            showErrorToast('Failed to update category', getErrorMessage(error));
+            throw error;
+        }
+    },
+
+    // Delete a category no sweet or subcategory uses (admin only)
+    deleteCategory: async (id: string) => {
+        const categoryName = get().categories.find(category => category.id === id)?.name || 'Category';
+
+        try {
+            await categoryAPI.delete(id);
+            set((state) => ({ categories: state.categories.filter(category => category.id !== id) }));
+            showSuccessToast('Category Deleted', `${categoryName} has been removed.`);
+        } catch (error: any) {
+            showErrorToast('Failed to delete category', getErrorMessage(error));
+            throw error;
+        }
+    },
+}));
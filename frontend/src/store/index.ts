@@ -6,6 +6,11 @@
  * Available stores:
  * - useAuthStore: Authentication and user session management
  * - useSweetStore: Sweet inventory and CRUD operations
+ * - useCategoryStore: Catalogue categories shared by the category pickers
+ * - useCartStore: Server-side shopping cart and checkout
+ * - useUserManagementStore: Admin user listing and account actions
+ * - useAnalyticsStore: Admin sales and inventory reports
+ * - useAlertStore: Admin low-stock alerts
  * 
  * @example
  * ```tsx
@@ -22,4 +27,9 @@
 
 // Export all stores for easy importing
 export { useAuthStore } from './authStore';
-export { useSweetStore } from './sweetStore';
\ No newline at end of file
+export { useSweetStore } from './sweetStore';
+export { useCategoryStore } from './categoryStore';
+export { useCartStore } from './cartStore';
+export { useUserManagementStore } from './userManagementStore';
+export { useAnalyticsStore } from './analyticsStore';
+export { useAlertStore } from './alertStore';
\ No newline at end of file
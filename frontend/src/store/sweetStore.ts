@@ -1,7 +1,42 @@
 import { create } from 'zustand';
-import { sweetAPI } from '../services/api';
+import { eventAPI, sweetAPI } from '../services/api';
+import { useAlertStore } from './alertStore';
 import { showErrorToast, showSuccessToast, getErrorMessage } from '../utils/errorHandling';
-import type { Sweet, CreateSweetData, UpdateSweetData, SweetFilters } from '../types';
+import type { Sweet, SweetEvent, CreateSweetData, UpdateSweetData, SweetFilters, SweetSort, SweetQueryParams, PaginatedResponse } from '../types';
+
+/** Number of sweets requested per page */
+const PAGE_SIZE = 20;
+
+// Incremented for every fresh listing so responses to superseded queries are dropped
+let latestQueryId = 0;
+
+/** Longest wait between attempts to reconnect the live update stream, in milliseconds */
+const MAX_RECONNECT_DELAY = 30_000;
+
+/**
+ * Resolve after the given delay
+ */
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Build listing query parameters from the current search, filters and sort
+ */
+const buildQuery = (searchTerm: string, filters: SweetFilters, sort: SweetSort): SweetQueryParams => ({
+    name: searchTerm || undefined,
+    category: filters.category || undefined,
+    minPrice: filters.minPrice,
+    maxPrice: filters.maxPrice,
+    inStock: filters.inStock || undefined,
+    ...sort,
+    limit: PAGE_SIZE,
+});
+
+/**
+ * Whether search or filters narrow the listing, so a changed sweet may enter or leave it.
+ * Category filters also match subcategories, which only the server can resolve.
+ */
+const isNarrowed = ({ name, category, minPrice, maxPrice, inStock }: SweetQueryParams) =>
+    Boolean(name || category || inStock) || minPrice !== undefined || maxPrice !== undefined;
 
 /**
  * Sweet store state interface
@@ -9,25 +44,30 @@ import type { Sweet, CreateSweetData, UpdateSweetData, SweetFilters } from '../t
 interface SweetState {
     // State
     sweets: Sweet[];
+    pagination: PaginatedResponse<Sweet>['pagination'] | null;
     isLoading: boolean;
+    isLoadingMore: boolean;
     error: string | null;
     searchTerm: string;
     filters: SweetFilters;
-    filteredSweets: Sweet[];
+    sort: SweetSort;
 
     // Actions
     fetchSweets: () => Promise<void>;
+    loadMoreSweets: () => Promise<void>;
     addSweet: (sweetData: CreateSweetData) => Promise<void>;
     updateSweet: (id: string, sweetData: UpdateSweetData) => Promise<void>;
     deleteSweet: (id: string) => Promise<void>;
-    purchaseSweet: (id: string, quantity?: number) => Promise<void>;
+    purchaseSweet: (id: string, quantity?: number, couponCode?: string, reservationId?: string) => Promise<void>;
     restockSweet: (id: string, quantity: number) => Promise<void>;
-    searchSweets: (params: { query?: string; category?: string; minPrice?: number; maxPrice?: number }) => Promise<void>;
+    applySweetUpdates: (updatedSweets: Sweet[]) => void;
+    applySweetEvent: (event: SweetEvent) => void;
+    subscribeToLiveUpdates: () => () => void;
     setSearchTerm: (term: string) => void;
     setFilters: (filters: Partial<SweetFilters>) => void;
+    setSort: (sort: SweetSort) => void;
     clearFilters: () => void;
     clearError: () => void;
-    computeFilteredSweets: () => void;
     setLoading: (loading: boolean) => void;
 }
 
@@ -37,59 +77,37 @@ interface SweetState {
 export const useSweetStore = create<SweetState>((set, get) => ({
     // Initial state
     sweets: [],
+    pagination: null,
     isLoading: false,
+    isLoadingMore: false,
     error: null,
     searchTerm: '',
     filters: {},
-    filteredSweets: [],
-
-    // Helper function to compute filtered sweets
-    computeFilteredSweets: () => {
-        const { sweets, searchTerm, filters } = get();
-
-        const filtered = sweets.filter((sweet) => {
-            // Search term filter (name only)
-            if (searchTerm) {
-                const searchLower = searchTerm.toLowerCase();
-                const matchesSearch = sweet.name.toLowerCase().includes(searchLower);
-                if (!matchesSearch) return false;
-            }
-
-            // Price range filters
-            if (filters.minPrice !== undefined && sweet.price < filters.minPrice) {
-                return false;
-            }
-            if (filters.maxPrice !== undefined && sweet.price > filters.maxPrice) {
-                return false;
-            }
-
-            // In stock filter
-            if (filters.inStock && sweet.quantity <= 0) {
-                return false;
-            }
-
-            return true;
-        });
-
-        set({ filteredSweets: filtered });
-    },
+    sort: { sortBy: 'createdAt', order: 'desc' },
 
-    // Fetch all sweets
+    // Fetch the first page of sweets matching the current search, filters and sort
     fetchSweets: async () => {
+        const queryId = ++latestQueryId;
         set({ isLoading: true, error: null });
 
         try {
-            const sweets = await sweetAPI.getAll();
+            const { searchTerm, filters, sort } = get();
+            const { data, pagination } = await sweetAPI.search(buildQuery(searchTerm, filters, sort));
+            if (queryId !== latestQueryId) return;
+
             set({
-                sweets,
+                sweets: data,
+                pagination,
                 isLoading: false,
                 error: null
             });
-            get().computeFilteredSweets();
         } catch (error: any) {
+            if (queryId !== latestQueryId) return;
+
             const errorMessage = getErrorMessage(error);
             set({
                 sweets: [],
+                pagination: null,
                 isLoading: false,
                 error: errorMessage
             });
@@ -98,6 +116,37 @@ export const useSweetStore = create<SweetState>((set, get) => ({
         }
     },
 
+    // Append the next page using the cursor returned with the previous one
+    loadMoreSweets: async () => {
+        const { pagination, isLoading, isLoadingMore, searchTerm, filters, sort } = get();
+        if (!pagination?.nextCursor || isLoading || isLoadingMore) return;
+
+        const queryId = latestQueryId;
+        set({ isLoadingMore: true });
+
+        try {
+            const page = await sweetAPI.search({
+                ...buildQuery(searchTerm, filters, sort),
+                cursor: pagination.nextCursor,
+            });
+            if (queryId !== latestQueryId) return;
+
+            set((state) => {
+                const loadedIds = new Set(state.sweets.map(sweet => sweet.id));
+                return {
+                    sweets: [...state.sweets, ...page.data.filter(sweet => !loadedIds.has(sweet.id))],
+                    pagination: page.pagination,
+                };
+            });
+        } catch (error: any) {
+            showErrorToast('Failed to load more sweets', getErrorMessage(error));
+        } finally {
+            if (queryId === latestQueryId) {
+                set({ isLoadingMore: false });
+            }
+        }
+    },
+
     // Add new sweet (admin only)
     addSweet: async (sweetData: CreateSweetData) => {
         set({ isLoading: true, error: null });
@@ -106,10 +155,10 @@ export const useSweetStore = create<SweetState>((set, get) => ({
             const newSweet = await sweetAPI.create(sweetData);
             set((state) => ({
                 sweets: [...state.sweets, newSweet],
+                pagination: state.pagination && { ...state.pagination, total: state.pagination.total + 1 },
                 isLoading: false,
                 error: null
             }));
-            get().computeFilteredSweets();
 
             showSuccessToast('Sweet Added', `${newSweet.name} has been added to the inventory.`);
         } catch (error: any) {
@@ -136,7 +185,6 @@ export const useSweetStore = create<SweetState>((set, get) => ({
                 isLoading: false,
                 error: null
             }));
-            get().computeFilteredSweets();
 
             showSuccessToast('Sweet Updated', `${updatedSweet.name} has been updated successfully.`);
         } catch (error: any) {
@@ -150,7 +198,7 @@ export const useSweetStore = create<SweetState>((set, get) => ({
         }
     },
 
-    // Delete sweet (admin only)
+    // Archive sweet (admin only); it moves to the archived list until restored
     deleteSweet: async (id: string) => {
         set({ isLoading: true, error: null });
 
@@ -161,32 +209,32 @@ export const useSweetStore = create<SweetState>((set, get) => ({
             await sweetAPI.delete(id);
             set((state) => ({
                 sweets: state.sweets.filter(sweet => sweet.id !== id),
+                pagination: state.pagination && { ...state.pagination, total: state.pagination.total - 1 },
                 isLoading: false,
                 error: null
             }));
-            get().computeFilteredSweets();
 
-            showSuccessToast('Sweet Deleted', `${sweetName} has been removed from the inventory.`);
+            showSuccessToast('Sweet Archived', `${sweetName} has been moved to the archive.`);
         } catch (error: any) {
             const errorMessage = getErrorMessage(error);
             set({
                 isLoading: false,
                 error: errorMessage
             });
-            showErrorToast('Failed to delete sweet', errorMessage);
+            showErrorToast('Failed to archive sweet', errorMessage);
             throw error;
         }
     },
 
     // Purchase sweet
-    purchaseSweet: async (id: string, quantity: number = 1) => {
+    purchaseSweet: async (id: string, quantity: number = 1, couponCode?: string, reservationId?: string) => {
         set({ isLoading: true, error: null });
 
         const sweetToPurchase = get().sweets.find(sweet => sweet.id === id);
         const sweetName = sweetToPurchase?.name || 'Sweet';
 
         try {
-            const updatedSweet = await sweetAPI.purchase(id, quantity);
+            const updatedSweet = await sweetAPI.purchase(id, quantity, couponCode, reservationId);
 
             if (!updatedSweet || typeof updatedSweet.price !== 'number' || isNaN(updatedSweet.price)) {
                 console.error('Invalid sweet data received from API:', updatedSweet);
@@ -200,7 +248,6 @@ export const useSweetStore = create<SweetState>((set, get) => ({
                 isLoading: false,
                 error: null
             }));
-            get().computeFilteredSweets();
 
             showSuccessToast('Purchase Successful', `You purchased ${quantity} ${sweetName}${quantity > 1 ? 's' : ''}!`);
         } catch (error: any) {
@@ -227,9 +274,10 @@ export const useSweetStore = create<SweetState>((set, get) => ({
                 isLoading: false,
                 error: null
             }));
-            get().computeFilteredSweets();
 
             showSuccessToast('Sweet Restocked', `${updatedSweet.name} has been restocked.`);
+            // A restock may have resolved a low-stock alert
+            useAlertStore.getState().fetchAlerts();
         } catch (error: any) {
             const errorMessage = getErrorMessage(error);
             set({
@@ -241,42 +289,116 @@ export const useSweetStore = create<SweetState>((set, get) => ({
         }
     },
 
-    // Search sweets with parameters
-    searchSweets: async (params: { query?: string; category?: string; minPrice?: number; maxPrice?: number }) => {
-        set({ isLoading: true, error: null });
+    // Merge sweets changed elsewhere (e.g. cart checkout) into local state
+    applySweetUpdates: (updatedSweets: Sweet[]) => {
+        const updatesById = new Map(updatedSweets.map(sweet => [sweet.id, sweet]));
+        set((state) => ({
+            sweets: state.sweets.map(sweet => updatesById.get(sweet.id) ?? sweet)
+        }));
+    },
 
-        try {
-            const sweets = await sweetAPI.search(params);
-            set({
-                sweets,
-                isLoading: false,
-                error: null
-            });
-            get().computeFilteredSweets();
-        } catch (error: any) {
-            const errorMessage = getErrorMessage(error);
-            set({
-                sweets: [],
-                isLoading: false,
-                error: errorMessage
-            });
-            showErrorToast('Search failed', errorMessage);
-            throw error;
+    // Patch local state with a change pushed by the server; changes this client made are already applied.
+    // Changes that may move a sweet into, out of or within the current listing reload it instead.
+    applySweetEvent: (event: SweetEvent) => {
+        const { sweets, searchTerm, filters, sort } = get();
+        const query = buildQuery(searchTerm, filters, sort);
+        const reload = () => {
+            get().fetchSweets().catch(() => undefined);
+        };
+
+        switch (event.type) {
+            case 'sweet.created':
+                // Whether it matches and where it sorts are for the server to say
+                if (!sweets.some(sweet => sweet.id === event.sweet.id)) reload();
+                return;
+            case 'sweet.updated': {
+                const current = sweets.find(sweet => sweet.id === event.sweet.id);
+                if (isNarrowed(query) || current?.[sort.sortBy] !== event.sweet[sort.sortBy]) {
+                    reload();
+                    return;
+                }
+                set({ sweets: sweets.map(sweet => sweet.id === event.sweet.id ? event.sweet : sweet) });
+                return;
+            }
+            case 'sweet.deleted':
+                if (!sweets.some(sweet => sweet.id === event.sweetId)) return;
+                set((state) => ({
+                    sweets: state.sweets.filter(sweet => sweet.id !== event.sweetId),
+                    pagination: state.pagination && { ...state.pagination, total: state.pagination.total - 1 },
+                }));
+                return;
+            case 'stock.changed': {
+                const current = sweets.find(sweet => sweet.id === event.sweetId);
+                const availabilityChanged = (current?.available ?? 0) > 0 !== event.available > 0;
+                if (
+                    (query.inStock && availabilityChanged) ||
+                    (sort.sortBy === 'quantity' && current?.quantity !== event.quantity)
+                ) {
+                    reload();
+                    return;
+                }
+                set({
+                    sweets: sweets.map(sweet =>
+                        sweet.id === event.sweetId
+                            ? { ...sweet, quantity: event.quantity, onHand: event.quantity, available: event.available }
+                            : sweet
+                    ),
+                });
+                return;
+            }
         }
     },
 
-    // Set search term for local filtering
+    // Listen for catalogue changes made elsewhere, reconnecting with backoff; returns a function that stops listening
+    subscribeToLiveUpdates: () => {
+        const controller = new AbortController();
+
+        const listen = async () => {
+            let failures = 0;
+            let hasConnected = false;
+
+            while (!controller.signal.aborted) {
+                try {
+                    await eventAPI.streamSweetEvents({
+                        onOpen: () => {
+                            // Changes made while disconnected were missed, so reload to catch up
+                            if (hasConnected) get().fetchSweets().catch(() => undefined);
+                            hasConnected = true;
+                            failures = 0;
+                        },
+                        onEvent: get().applySweetEvent,
+                    }, controller.signal);
+                } catch {
+                    if (controller.signal.aborted) return;
+                    failures++;
+                }
+                await wait(Math.min(1000 * 2 ** failures, MAX_RECONNECT_DELAY));
+            }
+        };
+
+        listen();
+        return () => controller.abort();
+    },
+
+    // Set search term and reload from the first page
     setSearchTerm: (term: string) => {
+        if (term === get().searchTerm) return;
         set({ searchTerm: term });
-        get().computeFilteredSweets();
+        get().fetchSweets().catch(() => undefined);
     },
 
-    // Set filters for local filtering
+    // Merge filters and reload from the first page
     setFilters: (newFilters: Partial<SweetFilters>) => {
         set((state) => ({
             filters: { ...state.filters, ...newFilters }
         }));
-        get().computeFilteredSweets();
+        get().fetchSweets().catch(() => undefined);
+    },
+
+    // Change the catalogue ordering and reload from the first page
+    setSort: (sort: SweetSort) => {
+        set({ sort });
+        get().fetchSweets().catch(() => undefined);
     },
 
     // Clear all filters and search
@@ -285,7 +407,7 @@ export const useSweetStore = create<SweetState>((set, get) => ({
             searchTerm: '',
             filters: {}
         });
-        get().computeFilteredSweets();
+        get().fetchSweets().catch(() => undefined);
     },
 
     // Clear error state
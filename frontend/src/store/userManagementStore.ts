@@ -0,0 +1,125 @@
+import { create } from 'zustand';
+import { userManagementAPI } from '../services/api';
+import { showErrorToast, showSuccessToast, getErrorMessage } from '../utils/errorHandling';
+import { ROLE_LABELS } from '../constants';
+import type { ManagedUser, PaginatedResponse, UserQueryParams } from '../types';
+
+const PAGE_SIZE = 20;
+
+/**
+ * User management store state interface
+ */
+interface UserManagementState {
+    // State
+    users: ManagedUser[];
+    pagination: PaginatedResponse<ManagedUser>['pagination'] | null;
+    query: UserQueryParams;
+    isLoading: boolean;
+    /** Id of the account an action is currently running against */
+    pendingUserId: string | null;
+    error: string | null;
+
+    // Actions
+    fetchUsers: (query?: UserQueryParams) => Promise<void>;
+    setQuery: (query: UserQueryParams) => void;
+    updateRole: (id: string, role: ManagedUser['role']) => Promise<void>;
+    setActive: (id: string, isActive: boolean) => Promise<void>;
+    resetPassword: (id: string) => Promise<string>;
+}
+
+/**
+ * Replace one account in the list with its updated copy
+ */
+const replaceUser = (users: ManagedUser[], updated: ManagedUser) =>
+    users.map(user => user.id === updated.id ? { ...user, ...updated } : user);
+
+/**
+ * Zustand store for the admin user management page
+ */
+export const useUserManagementStore = create<UserManagementState>((set, get) => ({
+    // Initial state
+    users: [],
+    pagination: null,
+    query: { page: 1, limit: PAGE_SIZE },
+    isLoading: false,
+    pendingUserId: null,
+    error: null,
+
+    // Load one page of accounts; defaults to the current query
+    fetchUsers: async (query?: UserQueryParams) => {
+        const params = query ?? get().query;
+        set({ isLoading: true, error: null, query: params });
+
+        try {
+            const { data, pagination } = await userManagementAPI.list(params);
+            set({ users: data, pagination, isLoading: false });
+        } catch (error: any) {
+            const errorMessage = getErrorMessage(error);
+            set({ isLoading: false, error: errorMessage });
+            showErrorToast('Failed to load users', errorMessage);
+        }
+    },
+
+    // Change filters or page and refetch
+    setQuery: (query: UserQueryParams) => {
+        const next = { ...get().query, ...query };
+        // Filter changes start over from the first page
+        if (query.page === undefined) {
+            next.page = 1;
+        }
+        get().fetchUsers(next).catch(() => undefined);
+    },
+
+    // Move an account to another role
+    updateRole: async (id: string, role: ManagedUser['role']) => {
+        set({ pendingUserId: id, error: null });
+
+        try {
+            const user = await userManagementAPI.updateRole(id, role);
+            set((state) => ({ users: replaceUser(state.users, user), pendingUserId: null }));
+            showSuccessToast('Role Updated', `${user.name ?? user.email} now has the ${ROLE_LABELS[role]} role.`);
+        } catch (error: any) {
+            const errorMessage = getErrorMessage(error);
+            set({ pendingUserId: null, error: errorMessage });
+            showErrorToast('Failed to update role', errorMessage);
+            throw error;
+        }
+    },
+
+    // Deactivate (signing the account out everywhere) or reactivate an account
+    setActive: async (id: string, isActive: boolean) => {
+        set({ pendingUserId: id, error: null });
+
+        try {
+            const user = isActive
+                ? await userManagementAPI.reactivate(id)
+                : await userManagementAPI.deactivate(id);
+            set((state) => ({ users: replaceUser(state.users, user), pendingUserId: null }));
+            showSuccessToast(
+                isActive ? 'User Reactivated' : 'User Deactivated',
+                `${user.name ?? user.email} ${isActive ? 'can sign in again' : 'has been signed out and can no longer sign in'}.`
+            );
+        } catch (error: any) {
+            const errorMessage = getErrorMessage(error);
+            set({ pendingUserId: null, error: errorMessage });
+            showErrorToast(isActive ? 'Failed to reactivate user' : 'Failed to deactivate user', errorMessage);
+            throw error;
+        }
+    },
+
+    // Issue a temporary password; it is only ever returned by this call
+    resetPassword: async (id: string) => {
+        set({ pendingUserId: id, error: null });
+
+        try {
+            const { user, temporaryPassword } = await userManagementAPI.resetPassword(id);
+            set((state) => ({ users: replaceUser(state.users, user), pendingUserId: null }));
+            return temporaryPassword;
+        } catch (error: any) {
+            const errorMessage = getErrorMessage(error);
+            set({ pendingUserId: null, error: errorMessage });
+            showErrorToast('Failed to reset password', errorMessage);
+            throw error;
+        }
+    },
+}));
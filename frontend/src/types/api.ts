@@ -1,3 +1,5 @@
+import type { Role } from './index';
+
 // HTTP method types
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
 
@@ -27,12 +29,61 @@ export interface ApiRequestConfig {
     headers?: Record<string, string>;
 }
 
+// Stable error codes sent by the backend; messages may change, codes do not
+export type ApiErrorCode =
+    | 'VALIDATION_FAILED'
+    | 'INVALID_JSON'
+    | 'INVALID_FILE'
+    | 'FILE_TOO_LARGE'
+    | 'UNSUPPORTED_MEDIA_TYPE'
+    | 'UNAUTHORIZED'
+    | 'INVALID_CREDENTIALS'
+    | 'INVALID_REFRESH_TOKEN'
+    | 'SESSION_REVOKED'
+    | 'ACCOUNT_DEACTIVATED'
+    | 'PASSWORD_RESET_REQUIRED'
+    | 'FORBIDDEN'
+    | 'ROUTE_NOT_FOUND'
+    | 'USER_NOT_FOUND'
+    | 'SWEET_NOT_FOUND'
+    | 'CATEGORY_NOT_FOUND'
+    | 'ORDER_NOT_FOUND'
+    | 'CART_ITEM_NOT_FOUND'
+    | 'ALERT_NOT_FOUND'
+    | 'IMAGE_NOT_FOUND'
+    | 'PRICE_CHANGE_NOT_FOUND'
+    | 'PROMOTION_NOT_FOUND'
+    | 'RESERVATION_NOT_FOUND'
+    | 'USER_ALREADY_EXISTS'
+    | 'NAME_CONFLICT'
+    | 'SLUG_CONFLICT'
+    | 'CODE_CONFLICT'
+    | 'CATEGORY_IN_USE'
+    | 'ALERT_ALREADY_ACKNOWLEDGED'
+    | 'SWEET_NOT_ARCHIVED'
+    | 'INSUFFICIENT_STOCK'
+    | 'RESERVATION_EXPIRED'
+    | 'INVALID_QUANTITY'
+    | 'CURRENCY_MISMATCH'
+    | 'INVALID_COUPON'
+    | 'UNKNOWN_CATEGORY'
+    | 'INVALID_CATEGORY_NAME'
+    | 'CATEGORY_CYCLE'
+    | 'CART_EMPTY'
+    | 'INCORRECT_PASSWORD'
+    | 'SELF_ROLE_CHANGE'
+    | 'SELF_DEACTIVATION'
+    | 'IMPORT_INVALID_ROWS'
+    | 'INVALID_IMAGE_ORDER'
+    | 'INTERNAL_ERROR';
+
 // Error response structure from backend
 export interface ApiErrorResponse {
     success: false;
     message: string;
     error?: {
-        code?: string;
+        code?: ApiErrorCode;
+        // VALIDATION_FAILED lists messages per field under `fields`
         details?: Record<string, any>;
         field?: string;
     };
@@ -54,7 +105,7 @@ export interface AuthResponse {
         id: string;
         email: string;
         username: string;
-        role: 'USER' | 'ADMIN';
+        role: Role;
         createdAt: string;
     };
     token?: string;
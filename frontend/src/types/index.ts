@@ -1,22 +1,333 @@
+// Roles from least to most privileged; each grants a fixed set of permissions
+export type Role = 'CUSTOMER' | 'CASHIER' | 'STOCK_CLERK' | 'MANAGER' | 'ADMIN';
+
+// Named actions the API authorizes, as `resource:action`
+export type Permission =
+    | 'sweet:create'
+    | 'sweet:update'
+    | 'sweet:delete'
+    | 'inventory:restock'
+    | 'inventory:view'
+    | 'category:manage'
+    | 'catalogue:import'
+    | 'catalogue:export'
+    | 'alert:manage'
+    | 'analytics:view'
+    | 'order:view-all'
+    | 'promotion:manage'
+    | 'user:manage';
+
 // Core entity interfaces
 export interface User {
     id: string;
     email: string;
     name: string;
-    role: 'USER' | 'ADMIN';
+    role: Role;
+    /** Permissions granted by the role, as reported by the API */
+    permissions: Permission[];
+    createdAt: string;
+    /** Set after an admin reset; the user must choose a new password before continuing */
+    passwordResetRequired?: boolean;
+}
+
+// Account as seen from the admin user management screens
+export interface ManagedUser {
+    id: string;
+    email: string;
+    name: string | null;
+    role: Role;
+    isActive: boolean;
+    passwordResetRequired: boolean;
+    createdAt: string;
+    updatedAt: string;
+    _count?: {
+        orders: number;
+        sessions: number;
+    };
+}
+
+export type UserStatusFilter = 'active' | 'inactive';
+
+// Query parameters accepted by the admin user listing endpoint
+export interface UserQueryParams {
+    search?: string;
+    role?: ManagedUser['role'];
+    status?: UserStatusFilter;
+    page?: number;
+    limit?: number;
+}
+
+// Category fields embedded in sweet responses
+export interface CategorySummary {
+    id: string;
+    slug: string;
+    name: string;
+    parentId: string | null;
+}
+
+export interface Category extends CategorySummary {
+    sortOrder: number;
+    // GST rate in basis points (1800 = 18%); null inherits the parent's rate
+    taxRate: number | null;
     createdAt: string;
+    updatedAt: string;
+    _count?: {
+        sweets: number;
+    };
+}
+
+// A product photo; urls are relative to the API server, see assetUrl
+export interface SweetImage {
+    id: string;
+    url: string;
+    thumbnailUrl: string;
+    width: number;
+    height: number;
+    position: number;
+    // The image shown on catalogue cards
+    isPrimary: boolean;
 }
 
 export interface Sweet {
     id: string;
     name: string;
-    category: string;
+    categoryId: string;
+    category: CategorySummary;
+    // In minor units of currency, e.g. 299 for ₹2.99; format with formatMoney
     price: number;
+    // ISO 4217 code
+    currency: string;
+    // Units in the shop, including those held by reservations; the same as onHand
     quantity: number;
+    onHand: number;
+    // Units shoppers can still buy, after reservations
+    available: number;
+    // Stock level at which a low-stock alert is raised
+    reorderPoint: number;
+    // Suggested number of units to order when restocking
+    reorderQuantity: number;
+    // Product photos in display order
+    images: SweetImage[];
+    // Set while the sweet is archived and hidden from the catalogue
+    deletedAt: string | null;
     createdAt: string;
     updatedAt: string;
 }
 
+// The fields of a sweet shown in the public catalogue to visitors who have not signed in
+export type CatalogueSweet = Pick<Sweet, 'id' | 'name' | 'category' | 'price' | 'currency' | 'quantity' | 'onHand' | 'available' | 'reorderPoint' | 'images'>;
+
+// A catalogue change pushed by the server as it happens
+export type SweetEvent =
+    | { type: 'sweet.created'; sweet: Sweet }
+    | { type: 'sweet.updated'; sweet: Sweet }
+    | { type: 'sweet.deleted'; sweetId: string }
+    | { type: 'stock.changed'; sweetId: string; quantity: number; available: number };
+
+// Units of a sweet held for the signed-in shopper until `expiresAt`
+export interface StockReservation {
+    id: string;
+    sweetId: string;
+    quantity: number;
+    expiresAt: string;
+    createdAt: string;
+}
+
+// A price a sweet had, has or is scheduled to have from `effectiveFrom`
+export interface PriceHistoryEntry {
+    id: string;
+    sweetId: string;
+    // In minor units of the sweet's currency
+    price: number;
+    effectiveFrom: string;
+    // Null while the change is scheduled and not yet in effect
+    appliedAt: string | null;
+    // Set when a later change due at the same time won, so this price never took effect
+    supersededAt: string | null;
+    user: Pick<ManagedUser, 'id' | 'email' | 'name'> | null;
+    createdAt: string;
+}
+
+// A price shown in the public catalogue, which leaves out scheduled changes and who made them
+export type CataloguePriceEntry = Omit<PriceHistoryEntry, 'user' | 'supersededAt'>;
+
+export interface SchedulePriceData {
+    // In minor units of the sweet's currency
+    price: number;
+    // ISO timestamp in the future
+    effectiveFrom: string;
+}
+
+// PERCENTAGE and FIXED_AMOUNT take `value` off; MULTI_BUY gives `freeQuantity` free with every
+// `buyQuantity` bought; BUNDLE sells `buyQuantity` units together for `value`
+export type PromotionType = 'PERCENTAGE' | 'FIXED_AMOUNT' | 'MULTI_BUY' | 'BUNDLE';
+
+export interface Promotion {
+    id: string;
+    name: string;
+    type: PromotionType;
+    // Percent for PERCENTAGE, otherwise minor units of `currency`
+    value: number;
+    currency: string;
+    buyQuantity: number | null;
+    freeQuantity: number | null;
+    // Coupon code customers enter at checkout; automatic promotions have none
+    code: string | null;
+    // Scope; a promotion with neither applies to every sweet
+    sweetId: string | null;
+    categoryId: string | null;
+    startsAt: string | null;
+    endsAt: string | null;
+    perUserLimit: number | null;
+    isActive: boolean;
+    sweet: Pick<Sweet, 'id' | 'name'> | null;
+    category: CategorySummary | null;
+    _count: { redemptions: number };
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type CreatePromotionData = Pick<Promotion, 'name' | 'type'> &
+    Partial<Pick<Promotion, 'value' | 'buyQuantity' | 'freeQuantity' | 'code' | 'sweetId' | 'categoryId' | 'startsAt' | 'endsAt' | 'perUserLimit' | 'isActive'>>;
+
+export type UpdatePromotionData = Partial<CreatePromotionData>;
+
+export interface AppliedPromotion {
+    promotionId: string;
+    name: string;
+    code: string | null;
+    discount: number;
+}
+
+// Items priced with promotions before buying; amounts in minor units of `currency`
+export interface PromotionQuote {
+    currency: string;
+    lines: Array<Pick<OrderLine, 'sweetId' | 'sweetName' | 'unitPrice' | 'quantity' | 'discount' | 'lineTotal'>>;
+    promotions: AppliedPromotion[];
+    subtotal: number;
+    discount: number;
+    total: number;
+}
+
+// Raised when a sweet's stock falls to its reorder point, resolved once restocked above it
+export interface LowStockAlert {
+    id: string;
+    sweetId: string;
+    sweet: Sweet;
+    // Stock level and threshold when the alert was raised
+    quantity: number;
+    reorderPoint: number;
+    acknowledgedAt: string | null;
+    acknowledgedBy: Pick<ManagedUser, 'id' | 'email' | 'name'> | null;
+    resolvedAt: string | null;
+    createdAt: string;
+}
+
+// Active alerts are unresolved, whether or not they were acknowledged
+export type AlertStatus = 'active' | 'resolved' | 'all';
+
+export interface AlertQueryParams {
+    status?: AlertStatus;
+    page?: number;
+    limit?: number;
+}
+
+export interface AlertListResponse {
+    alerts: LowStockAlert[];
+    // Active alerts nobody has acknowledged yet
+    unacknowledged: number;
+    pagination: PaginatedResponse<LowStockAlert>['pagination'];
+}
+
+export interface OrderLine {
+    id: string;
+    orderId: string;
+    sweetId: string | null;
+    sweetName: string;
+    unitPrice: number;
+    quantity: number;
+    // Promotion savings on this line; lineTotal is already net of it
+    discount: number;
+    lineTotal: number;
+    // Prices include GST; `tax` is the part of lineTotal due at `taxRate` basis points
+    taxRate: number;
+    tax: number;
+}
+
+// A promotion applied to an order, kept by name in case the promotion is later deleted
+export interface OrderRedemption {
+    promotionId: string | null;
+    promotionName: string;
+    code: string | null;
+    discount: number;
+}
+
+export type OrderStatus = 'COMPLETED' | 'CANCELLED';
+
+export interface Order {
+    id: string;
+    userId: string;
+    status: OrderStatus;
+    // Order amounts are in minor units of currency, like sweet prices
+    total: number;
+    // Sum of the line discounts
+    discount: number;
+    // GST included in the total
+    tax: number;
+    currency: string;
+    // Sequential number printed on the order's invoice
+    invoiceNumber: number;
+    lines: OrderLine[];
+    redemptions: OrderRedemption[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type InvoiceFormat = 'html' | 'pdf';
+
+// Query parameters accepted by the order history endpoint; dates are inclusive ISO timestamps
+export interface OrderQueryParams {
+    status?: OrderStatus;
+    from?: string;
+    to?: string;
+    page?: number;
+    limit?: number;
+}
+
+export interface OrderListResponse {
+    orders: Order[];
+    pagination: PaginatedResponse<Order>['pagination'];
+}
+
+// A line of a past order that could not be put back in the cart in full
+export interface ReorderShortfall {
+    sweetId: string | null;
+    sweetName: string;
+    requested: number;
+    // Units added to the cart instead; zero when none were
+    added: number;
+    reason: 'SWEET_UNAVAILABLE' | 'INSUFFICIENT_STOCK';
+}
+
+export interface ReorderResult {
+    items: CartItem[];
+    shortfalls: ReorderShortfall[];
+}
+
+export interface CartItem {
+    id: string;
+    sweetId: string;
+    quantity: number;
+    sweet: Sweet;
+}
+
+export interface Cart {
+    items: CartItem[];
+    // In minor units of currency
+    total: number;
+    currency: string;
+}
+
 // Authentication form data types
 export interface LoginCredentials {
     email: string;
@@ -33,26 +344,86 @@ export interface RegisterData {
 // Sweet management form data types
 export interface CreateSweetData {
     name: string;
-    category: string;
+    categoryId: string;
+    // In minor units
     price: number;
     quantity: number;
+    reorderPoint?: number;
+    reorderQuantity?: number;
 }
 
 export interface UpdateSweetData {
     name?: string;
-    category?: string;
+    categoryId?: string;
     price?: number;
     quantity?: number;
+    reorderPoint?: number;
+    reorderQuantity?: number;
+}
+
+// Catalogue import and export types
+export type CatalogueFileFormat = 'csv' | 'json';
+
+export type ImportRowAction = 'create' | 'update' | 'unchanged' | 'invalid';
+
+export interface ImportRowResult {
+    // 1-based position among the file's data rows
+    row: number;
+    name: string;
+    action: ImportRowAction;
+    errors: string[];
+    sweetId?: string;
+    changes?: Record<string, { from: unknown; to: unknown }>;
+}
+
+export interface ImportReport {
+    committed: boolean;
+    summary: Record<ImportRowAction, number> & { total: number };
+    rows: ImportRowResult[];
+}
+
+export interface ImportCatalogueData {
+    format: CatalogueFileFormat;
+    content: string;
+    dryRun?: boolean;
 }
 
+// Category management form data types
+export interface CreateCategoryData {
+    name: string;
+    slug?: string;
+    parentId?: string | null;
+    sortOrder?: number;
+    taxRate?: number | null;
+}
+
+export type UpdateCategoryData = Partial<CreateCategoryData>;
+
 // Filter and search types
 export interface SweetFilters {
+    // Category slug; sweets in its subcategories match too
     category?: string;
+    // Price bounds in minor units, like Sweet.price
     minPrice?: number;
     maxPrice?: number;
     inStock?: boolean;
 }
 
+export type SweetSortField = 'name' | 'price' | 'quantity' | 'createdAt';
+
+export interface SweetSort {
+    sortBy: SweetSortField;
+    order: 'asc' | 'desc';
+}
+
+// Query parameters accepted by the sweet listing and search endpoints
+export interface SweetQueryParams extends SweetFilters, Partial<SweetSort> {
+    name?: string;
+    page?: number;
+    limit?: number;
+    cursor?: string;
+}
+
 // API response types
 export interface ApiResponse<T> {
     data: T;
@@ -74,9 +445,77 @@ export interface PaginatedResponse<T> {
         limit: number;
         total: number;
         totalPages: number;
+        /** Cursor for the following page, null when this is the last one */
+        nextCursor?: string | null;
     };
 }
 
+// Analytics report types
+export type AnalyticsInterval = 'day' | 'week' | 'month';
+
+// Inclusive date range as ISO timestamps; omitted bounds are open-ended
+export interface AnalyticsRange {
+    from?: string;
+    to?: string;
+}
+
+export interface SalesFigures {
+    /** In minor units, like order totals */
+    revenue: number;
+    units: number;
+}
+
+export interface SalesByPeriod extends SalesFigures {
+    /** Start of the day, week or month bucket */
+    period: string;
+}
+
+export interface SalesByCategory extends SalesFigures {
+    category: string;
+}
+
+export interface SalesBySweet extends SalesFigures {
+    /** Null for sweets that have since been deleted */
+    sweetId: string | null;
+    sweetName: string;
+    category: string;
+}
+
+export interface SalesReport {
+    range: AnalyticsRange;
+    interval: AnalyticsInterval;
+    totals: SalesFigures & { orders: number };
+    byPeriod: SalesByPeriod[];
+    byCategory: SalesByCategory[];
+    bySweet: SalesBySweet[];
+}
+
+export type TopSellerMetric = 'units' | 'revenue';
+
+export interface TopSellersReport {
+    range: AnalyticsRange;
+    metric: TopSellerMetric;
+    data: SalesBySweet[];
+}
+
+export interface StockTurnover {
+    sweetId: string;
+    sweetName: string;
+    category: string;
+    currentQuantity: number;
+    unitsSold: number;
+    unitsRestocked: number;
+    openingStock: number;
+    closingStock: number;
+    /** Units sold over average stock; null when there was no stock */
+    turnover: number | null;
+}
+
+export interface StockTurnoverReport {
+    range: AnalyticsRange;
+    data: StockTurnover[];
+}
+
 // Purchase related types
 export interface PurchaseRequest {
     sweetId: string;
@@ -0,0 +1,35 @@
+import type { Category } from '../types';
+
+/**
+ * A category together with how deeply it is nested
+ */
+export interface CategoryOption {
+    category: Category;
+    depth: number;
+}
+
+/**
+ * Flatten the category list into tree order, each parent followed by its
+ * subcategories, so it can be shown as an indented list
+ * Categories whose parent is missing are shown at the top level
+ */
+export const toCategoryOptions = (categories: Category[]): CategoryOption[] => {
+    const ids = new Set(categories.map(category => category.id));
+    const childrenByParent = new Map<string | null, Category[]>();
+
+    for (const category of categories) {
+        const parentId = category.parentId && ids.has(category.parentId) ? category.parentId : null;
+        childrenByParent.set(parentId, [...(childrenByParent.get(parentId) ?? []), category]);
+    }
+
+    const options: CategoryOption[] = [];
+    const visit = (parentId: string | null, depth: number) => {
+        for (const category of childrenByParent.get(parentId) ?? []) {
+            options.push({ category, depth });
+            visit(category.id, depth + 1);
+        }
+    };
+    visit(null, 0);
+
+    return options;
+};
@@ -0,0 +1,43 @@
+/**
+ * One CSV column: its header and how to read the cell from a row
+ */
+export interface CsvColumn<T> {
+    header: string;
+    value: (row: T) => string | number | null | undefined;
+}
+
+/**
+ * Quote a cell when it contains a delimiter, quote or line break
+ */
+function escapeCell(value: string | number | null | undefined): string {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows to CSV text with a header line
+ */
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+    const lines = [
+        columns.map(column => escapeCell(column.header)).join(','),
+        ...rows.map(row => columns.map(column => escapeCell(column.value(row))).join(',')),
+    ];
+    return lines.join('\r\n');
+}
+
+/**
+ * Serialize rows to CSV and have the browser save the file
+ */
+export function downloadCsv<T>(filename: string, rows: T[], columns: CsvColumn<T>[]): void {
+    const blob = new Blob([toCsv(rows, columns)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    URL.revokeObjectURL(url);
+}
@@ -1,4 +1,5 @@
 import { toast } from '@/hooks/use-toast';
+import type { ApiErrorCode, ApiErrorResponse } from '@/types/api';
 
 /**
  * Simple error toast helper
@@ -22,15 +23,42 @@ export function showSuccessToast(title: string, message?: string) {
     });
 }
 
+/**
+ * Get the backend's error envelope from a failed request, if there is one
+ */
+export function getApiError(error: any): ApiErrorResponse | undefined {
+    const data = error?.response?.data;
+    return data?.success === false && typeof data.message === 'string' ? data : undefined;
+}
+
+/**
+ * Get the stable error code from API error
+ */
+export function getErrorCode(error: any): ApiErrorCode | undefined {
+    return getApiError(error)?.error?.code;
+}
+
+/**
+ * Get validation messages keyed by field from API error
+ */
+export function getFieldErrors(error: any): Record<string, string[]> {
+    const apiError = getApiError(error);
+    return apiError?.error?.code === 'VALIDATION_FAILED' ? apiError.error.details?.fields ?? {} : {};
+}
+
 /**
  * Get error message from API error
  */
 export function getErrorMessage(error: any): string {
-    if (error?.response?.data?.message) {
-        return error.response.data.message;
+    const apiError = getApiError(error);
+    if (apiError) {
+        return apiError.message;
+    }
+    if (error?.response === undefined && error?.request) {
+        return 'Unable to reach the server. Please check your connection.';
     }
     if (error?.message) {
         return error.message;
     }
     return 'An unexpected error occurred';
-}
\ No newline at end of file
+}
@@ -0,0 +1,69 @@
+/**
+ * Money helpers
+ *
+ * The API sends every amount as an integer in the minor unit of its
+ * currency (paise for INR), so sums and products stay exact. Convert to
+ * major units only to show or edit an amount.
+ */
+
+// Currency assumed when an amount does not state one
+export const DEFAULT_CURRENCY = 'INR';
+
+const LOCALE = 'en-IN';
+const formatters = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Get a cached currency formatter
+ */
+const getFormatter = (currency: string): Intl.NumberFormat => {
+    let formatter = formatters.get(currency);
+    if (!formatter) {
+        formatter = new Intl.NumberFormat(LOCALE, { style: 'currency', currency });
+        formatters.set(currency, formatter);
+    }
+    return formatter;
+};
+
+/**
+ * Number of decimal places of a currency's minor unit, e.g. 2 for INR and 0 for JPY
+ */
+export const minorUnitDigits = (currency: string = DEFAULT_CURRENCY): number =>
+    getFormatter(currency).resolvedOptions().maximumFractionDigits ?? 2;
+
+/**
+ * Format an amount in minor units for display, e.g. 29950 as ₹299.50
+ */
+export const formatMoney = (amount: number, currency: string = DEFAULT_CURRENCY): string =>
+    getFormatter(currency).format(fromMinorUnits(amount, currency));
+
+/**
+ * Convert an amount in minor units to major units, e.g. for a form field
+ */
+export const fromMinorUnits = (amount: number, currency: string = DEFAULT_CURRENCY): number =>
+    amount / 10 ** minorUnitDigits(currency);
+
+/**
+ * Convert an amount in major units, as typed by a user, to minor units
+ */
+export const toMinorUnits = (amount: number, currency: string = DEFAULT_CURRENCY): number =>
+    Math.round(amount * 10 ** minorUnitDigits(currency));
+
+/**
+ * Total amounts that may be in different currencies, one sum per currency
+ */
+export const sumByCurrency = (amounts: Array<{ amount: number; currency: string }>): Map<string, number> => {
+    const totals = new Map<string, number>();
+    for (const { amount, currency } of amounts) {
+        totals.set(currency, (totals.get(currency) ?? 0) + amount);
+    }
+    return totals;
+};
+
+/**
+ * Format per-currency totals, e.g. "₹1,200.00 + £30.00"
+ * Shows zero in the default currency when there is nothing to total
+ */
+export const formatTotals = (totals: Map<string, number>): string =>
+    totals.size === 0
+        ? formatMoney(0)
+        : Array.from(totals, ([currency, amount]) => formatMoney(amount, currency)).join(' + ');
@@ -0,0 +1,11 @@
+/**
+ * GST helpers; rates are in basis points, as the API stores them (1800 = 18%)
+ */
+
+// GST slabs offered when setting a category's rate
+export const GST_SLABS = [0, 500, 1200, 1800, 2800, 4000];
+
+/**
+ * Write a rate in basis points as a percentage, e.g. 1800 as "18%"
+ */
+export const formatTaxRate = (rate: number): string => `${rate / 100}%`;